@@ -4,7 +4,12 @@ CREATE TABLE IF NOT EXISTS shelters (
     address TEXT,
     latitude REAL,
     longitude REAL,
-    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    capacity INTEGER, -- 収容可能人数
+    opening_hours TEXT, -- 開設時間（例: "24時間", "8:00-20:00"）
+    status TEXT NOT NULL DEFAULT 'open', -- 'open', 'closed'
+    closed_at DATETIME, -- 閉鎖日時（開設中はNULL）
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE TABLE IF NOT EXISTS posts (
@@ -21,9 +26,15 @@ CREATE TABLE IF NOT EXISTS posts (
     is_free_chat INTEGER NOT NULL DEFAULT 0,
     occurred_at DATETIME,
     status TEXT,
-    deleted_at DATETIME
+    deleted_at DATETIME,
+    base_updated_at DATETIME, -- 最後に同期相手と一致していたバージョンの updated_at（競合検出用）
+    origin_node_id TEXT, -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
+    author_staff_id INTEGER REFERENCES staff_accounts(id) ON DELETE SET NULL -- 投稿したアカウント（ログインせずに投稿したもの・同期で受信したものはNULL）
 );
 
+-- 避難所ごとの投稿一覧のページ読み込み用
+CREATE INDEX IF NOT EXISTS idx_posts_shelter_posted_at ON posts(shelter_id, posted_at);
+
 CREATE TABLE IF NOT EXISTS media (
     id TEXT PRIMARY KEY,
     post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
@@ -31,10 +42,12 @@ CREATE TABLE IF NOT EXISTS media (
     media_type TEXT NOT NULL,
     file_name TEXT,
     url TEXT,
+    sha256 TEXT, -- ファイル本体のSHA-256（アップロード時に記録し、メディア同期で検証する。記録前のメディアはNULL）
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     deleted_at DATETIME,
-    is_synced INTEGER NOT NULL DEFAULT 0
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    origin_node_id TEXT -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
 );
 
 CREATE TABLE IF NOT EXISTS post_location_tracks (
@@ -46,7 +59,8 @@ CREATE TABLE IF NOT EXISTS post_location_tracks (
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     deleted_at DATETIME,
-    is_synced INTEGER NOT NULL DEFAULT 0
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    origin_node_id TEXT -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
 );
 
 CREATE TABLE IF NOT EXISTS comments (
@@ -58,14 +72,20 @@ CREATE TABLE IF NOT EXISTS comments (
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     deleted_at DATETIME,
-    is_synced INTEGER NOT NULL DEFAULT 0
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    base_updated_at DATETIME, -- 最後に同期相手と一致していたバージョンの updated_at（競合検出用）
+    origin_node_id TEXT, -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
+    author_staff_id INTEGER REFERENCES staff_accounts(id) ON DELETE SET NULL -- コメントしたアカウント（ログインせずにコメントしたもの・同期で受信したものはNULL）
 );
 
+-- 投稿一覧で投稿ごとのコメント数・最新コメントの対応状況を集計する用
+CREATE INDEX IF NOT EXISTS idx_comments_post_id ON comments(post_id);
+
 -- 同期メタデータテーブル（同期処理の追跡用）
 CREATE TABLE IF NOT EXISTS sync_logs (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     shelter_id INTEGER REFERENCES shelters(id) ON DELETE SET NULL, -- どの避難所からの同期か
-    sync_type TEXT NOT NULL, -- 'full', 'incremental', 'manual'
+    sync_type TEXT NOT NULL, -- 'full', 'incremental', 'manual', 'pull', 'received', 'bundle_export', 'bundle_import', 'scheduled', 'retry'
     status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'in_progress', 'completed', 'failed'
     started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
     completed_at DATETIME,
@@ -74,33 +94,365 @@ CREATE TABLE IF NOT EXISTS sync_logs (
     location_tracks_synced INTEGER DEFAULT 0,
     media_synced INTEGER DEFAULT 0,
     error_message TEXT,
-    target_url TEXT -- 同期先のURL
+    target_url TEXT, -- 同期先のURL
+    verified_node_id TEXT, -- 署名検証済みの送信元ノードID（受信時のみ）
+    batches_total INTEGER NOT NULL DEFAULT 0, -- 分割送信のバッチ総数（送信時のみ）
+    batches_completed INTEGER NOT NULL DEFAULT 0, -- 受信が確認できたバッチ数（途中で失敗した場合は次回ここから再開）
+    phase TEXT, -- 同期ジョブの実行中の段階（'media', 'data', 'completed'。ジョブ以外の同期はNULL）
+    media_files_total INTEGER NOT NULL DEFAULT 0, -- 同期ジョブで送信するメディアファイル数
+    media_files_completed INTEGER NOT NULL DEFAULT 0, -- 送信が完了したメディアファイル数
+    media_files_failed INTEGER NOT NULL DEFAULT 0, -- 送信に失敗したメディアファイル数（再試行キューに入る）
+    out_of_scope_records INTEGER NOT NULL DEFAULT 0, -- 送信対象外の避難所のため送らなかった未同期データ数（送信時のみ）
+    data_duration_ms INTEGER NOT NULL DEFAULT 0, -- データの送信・取得にかかった時間（メディア転送を除く）
+    media_duration_ms INTEGER NOT NULL DEFAULT 0, -- メディアファイルの転送にかかった時間
+    payload_bytes INTEGER NOT NULL DEFAULT 0, -- 送受信したデータ本文のバイト数
+    media_bytes INTEGER NOT NULL DEFAULT 0, -- 送受信したメディアファイルのバイト数
+    upstream_requests INTEGER NOT NULL DEFAULT 0, -- 同期先へのリクエスト数
+    upstream_latency_ms INTEGER NOT NULL DEFAULT 0 -- 同期先へのリクエストが応答するまでの時間の合計（平均は upstream_requests で割る）
 );
 
 CREATE INDEX IF NOT EXISTS idx_sync_logs_status ON sync_logs(status);
 CREATE INDEX IF NOT EXISTS idx_sync_logs_started_at ON sync_logs(started_at);
 CREATE INDEX IF NOT EXISTS idx_sync_logs_shelter_id ON sync_logs(shelter_id);
 
+-- 同期に失敗した項目（どの投稿・メディアがなぜ失敗したか。同期ログ単位で再試行できる）
+CREATE TABLE IF NOT EXISTS sync_log_failures (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    log_id INTEGER NOT NULL REFERENCES sync_logs(id) ON DELETE CASCADE,
+    direction TEXT NOT NULL, -- 'push'（送信）, 'pull'（差分Pullでのメディア取得）
+    record_type TEXT NOT NULL, -- 'post', 'comment', 'location_track', 'occupancy', 'inventory_item', 'inventory_transaction', 'media'
+    record_id TEXT NOT NULL,
+    label TEXT, -- 表示用（投稿の内容の先頭やメディアのファイルパス）
+    error_message TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    retried_at DATETIME, -- 再試行した日時（未再試行はNULL）
+    retry_log_id INTEGER REFERENCES sync_logs(id) ON DELETE SET NULL -- 再試行の結果を記録した同期ログ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_log_failures_log_id ON sync_log_failures(log_id);
+
+-- 同期競合（前回の同期以降に手元と同期相手の両方で変更されたレコード）
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY,
+    table_name TEXT NOT NULL, -- 'posts', 'comments'
+    record_id TEXT NOT NULL,
+    shelter_id INTEGER REFERENCES shelters(id) ON DELETE SET NULL,
+    source TEXT NOT NULL, -- 'push'（受信時に検出）, 'pull'（差分Pull時に検出）
+    local_data TEXT NOT NULL, -- 検出時点の手元のレコード（JSON）
+    remote_data TEXT NOT NULL, -- 同期相手から届いたレコード（JSON）
+    detected_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    resolved_at DATETIME,
+    resolution TEXT, -- 'local', 'remote', 'merged', 'superseded'
+    resolved_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_record ON sync_conflicts(table_name, record_id, resolved_at);
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_shelter ON sync_conflicts(shelter_id, resolved_at);
+
+-- メディアファイル転送の再試行キュー（失敗した転送を間隔を空けて再試行する）
+CREATE TABLE IF NOT EXISTS media_sync_retries (
+    media_id TEXT NOT NULL,
+    direction TEXT NOT NULL, -- 'push'（ローカル → 同期先）, 'pull'（同期先 → ローカル）, 'pull_original'（縮小版だけ取得した画像の元ファイル）
+    target_url TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0, -- 失敗した回数
+    last_error TEXT,
+    next_attempt_at DATETIME NOT NULL, -- この時刻以降の同期で再試行する
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (media_id, direction, target_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_sync_retries_due ON media_sync_retries(direction, target_url, next_attempt_at);
+
 CREATE TABLE IF NOT EXISTS sync_state (
-    scope_key TEXT PRIMARY KEY,
-    last_pulled_at DATETIME NOT NULL
+    target_key TEXT NOT NULL, -- 同期先（'upstream': 本番・上流, 'peer:<url>': その他のノード, 'target:<id>': sync_targets の同期先）
+    scope TEXT NOT NULL, -- 'shelter:<id>'（差分Pull）, 'push'（変更ログの転送）
+    last_pulled_at DATETIME, -- 避難所・在庫情報の差分Pullに使う本番側の時刻
+    change_cursor INTEGER NOT NULL DEFAULT 0, -- 取り込み済み（転送済み）の変更ログ seq（投稿・コメント・メディア・位置トラック）
+    PRIMARY KEY (target_key, scope)
 );
 
+-- 同期先（地域の本部ノードが複数の上流へ転送し、複数の避難所を取得するための設定）
+CREATE TABLE IF NOT EXISTS sync_targets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL, -- 表示名（例：県本部、市本部）
+    url TEXT NOT NULL UNIQUE, -- 同期先のURL
+    push_enabled INTEGER NOT NULL DEFAULT 1, -- 変更ログを転送するか
+    pull_shelter_ids TEXT NOT NULL DEFAULT '[]', -- 差分Pullする避難所IDのJSON配列（空ならPullしない）
+    interval_minutes INTEGER NOT NULL DEFAULT 15, -- 定期同期の間隔（Cron Trigger の間隔より短くはならない）
+    enabled INTEGER NOT NULL DEFAULT 1,
+    low_bandwidth INTEGER NOT NULL DEFAULT 0, -- 低帯域の回線か（差分Pullで取得する画像を縮小してもらう）
+    last_run_at DATETIME,
+    last_success_at DATETIME,
+    last_error TEXT, -- 直近の失敗理由（成功するとNULLに戻す）
+    consecutive_failures INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 同期ロック（手動同期と定期同期が同時に実行されないようにする）
+CREATE TABLE IF NOT EXISTS sync_locks (
+    name TEXT PRIMARY KEY, -- 'sync'
+    holder TEXT NOT NULL, -- ロックの保持者（'manual:<uuid>', 'scheduled:<uuid>'）
+    acquired_at DATETIME NOT NULL,
+    expires_at DATETIME NOT NULL -- 期限切れのロックは次の同期が取得し直す
+);
+
+-- 変更ログ（差分Pullのカーソル。posts/comments/media/post_location_tracks への書き込みをトリガーで記録する）
+-- seq は単調増加するため、時刻のずれや取得中の書き込みがあっても取りこぼさない
+CREATE TABLE IF NOT EXISTS sync_changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    table_name TEXT NOT NULL, -- 'posts', 'comments', 'media', 'post_location_tracks'
+    record_id TEXT NOT NULL,
+    shelter_id INTEGER, -- Pull対象の絞り込み用（コメント等は投稿の避難所）
+    changed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_changes_shelter_seq ON sync_changes(shelter_id, seq);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_record ON sync_changes(table_name, record_id);
+
+-- 作成・更新・論理削除（updated_at か deleted_at が変わった場合）を変更ログに記録する
+-- is_synced 等の同期フラグだけの更新は記録しない
+CREATE TRIGGER IF NOT EXISTS trg_posts_change_insert AFTER INSERT ON posts
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('posts', NEW.id, NEW.shelter_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_posts_change_update AFTER UPDATE ON posts
+WHEN NEW.updated_at IS NOT OLD.updated_at OR NEW.deleted_at IS NOT OLD.deleted_at
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('posts', NEW.id, NEW.shelter_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_comments_change_insert AFTER INSERT ON comments
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('comments', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_comments_change_update AFTER UPDATE ON comments
+WHEN NEW.updated_at IS NOT OLD.updated_at OR NEW.deleted_at IS NOT OLD.deleted_at
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('comments', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_media_change_insert AFTER INSERT ON media
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('media', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_media_change_update AFTER UPDATE ON media
+WHEN NEW.updated_at IS NOT OLD.updated_at OR NEW.deleted_at IS NOT OLD.deleted_at
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('media', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_post_location_tracks_change_insert AFTER INSERT ON post_location_tracks
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('post_location_tracks', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_post_location_tracks_change_update AFTER UPDATE ON post_location_tracks
+WHEN NEW.updated_at IS NOT OLD.updated_at OR NEW.deleted_at IS NOT OLD.deleted_at
+BEGIN
+    INSERT INTO sync_changes (table_name, record_id, shelter_id) VALUES ('post_location_tracks', NEW.id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id));
+END;
+
+-- 変更ログ導入前から存在するレコードを記録する（記録済みのものはスキップ）
+INSERT INTO sync_changes (table_name, record_id, shelter_id)
+SELECT 'posts', p.id, p.shelter_id FROM posts p
+WHERE NOT EXISTS (SELECT 1 FROM sync_changes c WHERE c.table_name = 'posts' AND c.record_id = p.id)
+ORDER BY p.created_at;
+
+INSERT INTO sync_changes (table_name, record_id, shelter_id)
+SELECT 'comments', t.id, p.shelter_id FROM comments t INNER JOIN posts p ON t.post_id = p.id
+WHERE NOT EXISTS (SELECT 1 FROM sync_changes c WHERE c.table_name = 'comments' AND c.record_id = t.id)
+ORDER BY t.created_at;
+
+INSERT INTO sync_changes (table_name, record_id, shelter_id)
+SELECT 'media', t.id, p.shelter_id FROM media t INNER JOIN posts p ON t.post_id = p.id
+WHERE NOT EXISTS (SELECT 1 FROM sync_changes c WHERE c.table_name = 'media' AND c.record_id = t.id)
+ORDER BY t.created_at;
+
+INSERT INTO sync_changes (table_name, record_id, shelter_id)
+SELECT 'post_location_tracks', t.id, p.shelter_id FROM post_location_tracks t INNER JOIN posts p ON t.post_id = p.id
+WHERE NOT EXISTS (SELECT 1 FROM sync_changes c WHERE c.table_name = 'post_location_tracks' AND c.record_id = t.id)
+ORDER BY t.created_at;
+
+-- 全文検索の索引（投稿・コメントの本文と投稿者名。日本語を単語に分けずに検索できるよう3文字単位で索引する）
+-- posts/comments への書き込み（作成・編集・論理削除・同期の受信）をトリガーで反映する
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    content,
+    author_name,
+    record_type UNINDEXED, -- 'post', 'comment'
+    record_id UNINDEXED,
+    post_id UNINDEXED, -- コメントは投稿先の投稿ID
+    shelter_id UNINDEXED, -- 避難所での絞り込み用（コメントは投稿の避難所）
+    created_at UNINDEXED, -- 期間での絞り込み用（投稿は posted_at、コメントは created_at）
+    tokenize = 'trigram'
+);
+
+-- 本文・投稿者名・論理削除が変わった場合だけ索引し直す（同期フラグだけの更新では索引し直さない）
+CREATE TRIGGER IF NOT EXISTS trg_posts_search_insert AFTER INSERT ON posts
+WHEN NEW.deleted_at IS NULL
+BEGIN
+    INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+    VALUES (NEW.content, NEW.author_name, 'post', NEW.id, NEW.id, NEW.shelter_id, NEW.posted_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_posts_search_update AFTER UPDATE OF content, author_name, shelter_id, posted_at, deleted_at ON posts
+BEGIN
+    DELETE FROM search_index WHERE record_type = 'post' AND record_id = OLD.id;
+    INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+    SELECT NEW.content, NEW.author_name, 'post', NEW.id, NEW.id, NEW.shelter_id, NEW.posted_at
+    WHERE NEW.deleted_at IS NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_posts_search_delete AFTER DELETE ON posts
+BEGIN
+    DELETE FROM search_index WHERE record_type = 'post' AND record_id = OLD.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_comments_search_insert AFTER INSERT ON comments
+WHEN NEW.deleted_at IS NULL
+BEGIN
+    INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+    VALUES (NEW.content, NEW.author_name, 'comment', NEW.id, NEW.post_id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id), NEW.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_comments_search_update AFTER UPDATE OF content, author_name, deleted_at ON comments
+BEGIN
+    DELETE FROM search_index WHERE record_type = 'comment' AND record_id = OLD.id;
+    INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+    SELECT NEW.content, NEW.author_name, 'comment', NEW.id, NEW.post_id, (SELECT shelter_id FROM posts WHERE id = NEW.post_id), NEW.created_at
+    WHERE NEW.deleted_at IS NULL;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_comments_search_delete AFTER DELETE ON comments
+BEGIN
+    DELETE FROM search_index WHERE record_type = 'comment' AND record_id = OLD.id;
+END;
+
+-- 全文検索の導入前から存在するレコードを索引する（索引済みのものはスキップ）
+INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+SELECT p.content, p.author_name, 'post', p.id, p.id, p.shelter_id, p.posted_at FROM posts p
+WHERE p.deleted_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM search_index i WHERE i.record_type = 'post' AND i.record_id = p.id);
+
+INSERT INTO search_index (content, author_name, record_type, record_id, post_id, shelter_id, created_at)
+SELECT t.content, t.author_name, 'comment', t.id, t.post_id, p.shelter_id, t.created_at
+FROM comments t INNER JOIN posts p ON t.post_id = p.id
+WHERE t.deleted_at IS NULL
+    AND NOT EXISTS (SELECT 1 FROM search_index i WHERE i.record_type = 'comment' AND i.record_id = t.id);
+
+-- 同期ノード（本番に登録された避難所ノードと共有鍵）
+CREATE TABLE IF NOT EXISTS sync_nodes (
+    node_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    shared_secret TEXT NOT NULL, -- HMAC-SHA256 署名用の共有鍵（hex）
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at DATETIME, -- 最後に署名検証に成功した日時
+    revoked_at DATETIME
+);
+
+-- 使用済みナンス（リプレイ攻撃対策、署名の有効期間を過ぎたものは削除）
+CREATE TABLE IF NOT EXISTS sync_nonces (
+    node_id TEXT NOT NULL REFERENCES sync_nodes(node_id) ON DELETE CASCADE,
+    nonce TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (node_id, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_nonces_created_at ON sync_nonces(created_at);
+
+-- スタッフアカウント（認証・権限管理用）
+CREATE TABLE IF NOT EXISTS staff_accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    login_id TEXT NOT NULL UNIQUE,
+    display_name TEXT NOT NULL,
+    role TEXT NOT NULL, -- 'evacuee', 'shelter_staff', 'hq_admin'
+    shelter_id INTEGER REFERENCES shelters(id) ON DELETE SET NULL, -- 所属避難所（本部管理者はNULL）
+    password_hash TEXT NOT NULL,
+    password_salt TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    disabled_at DATETIME
+);
+
+-- ログイン中のアクセストークン（トークン本体は保存せずSHA-256ハッシュのみ保持）
+CREATE TABLE IF NOT EXISTS auth_tokens (
+    token_hash TEXT PRIMARY KEY,
+    staff_id INTEGER NOT NULL REFERENCES staff_accounts(id) ON DELETE CASCADE,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME NOT NULL,
+    revoked_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_staff_id ON auth_tokens(staff_id);
+
+-- 避難者数の記録（時系列、避難所スタッフが随時入力）
+CREATE TABLE IF NOT EXISTS shelter_occupancy (
+    id TEXT PRIMARY KEY,
+    shelter_id INTEGER NOT NULL REFERENCES shelters(id) ON DELETE CASCADE,
+    headcount INTEGER NOT NULL, -- 記録時点の避難者数
+    recorded_at DATETIME NOT NULL,
+    recorded_by TEXT, -- 記録したスタッフの表示名
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    origin_node_id TEXT -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
+);
+
+CREATE INDEX IF NOT EXISTS idx_shelter_occupancy_shelter_recorded ON shelter_occupancy(shelter_id, recorded_at);
+
+-- 物資の在庫（避難所ごとの品目・単位・現在庫・最低在庫数）
+CREATE TABLE IF NOT EXISTS inventory_items (
+    id TEXT PRIMARY KEY,
+    shelter_id INTEGER NOT NULL REFERENCES shelters(id) ON DELETE CASCADE,
+    name TEXT NOT NULL, -- 品目名（例: 毛布, 飲料水）
+    unit TEXT NOT NULL DEFAULT '個', -- 単位（例: 枚, 本, 箱）
+    quantity INTEGER NOT NULL DEFAULT 0, -- 現在庫（入出庫履歴の合計、入出庫のたびに再計算）
+    min_quantity INTEGER NOT NULL DEFAULT 0, -- 最低在庫数（これを下回ると不足）
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    deleted_at DATETIME,
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    origin_node_id TEXT -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
+);
+
+-- 入出庫の履歴（同期ではこの履歴を送り、受信側で在庫数を再計算する）
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+    id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+    shelter_id INTEGER NOT NULL REFERENCES shelters(id) ON DELETE CASCADE,
+    transaction_type TEXT NOT NULL, -- 'in'（入庫）, 'out'（出庫）
+    quantity INTEGER NOT NULL, -- 入出庫した数量（正の整数）
+    note TEXT,
+    recorded_by TEXT, -- 記録したスタッフの表示名
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    is_synced INTEGER NOT NULL DEFAULT 0,
+    origin_node_id TEXT -- 作成元ノードID（このノードで作成したレコードはNULL。中継同期で作成元を引き継ぐ）
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_shelter_id ON inventory_items(shelter_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_item_id ON inventory_transactions(item_id);
+
 CREATE INDEX IF NOT EXISTS idx_comments_post_id ON comments(post_id);
 CREATE INDEX IF NOT EXISTS idx_post_location_tracks_post_id ON post_location_tracks(post_id);
 
 -- 1. 避難所テーブル
-INSERT OR IGNORE INTO shelters (id, name, address, latitude, longitude, created_at) VALUES
-(1, 'A小学校 体育館', '名古屋市中区1-1-1', 35.1701, 136.9001, '2025-10-28 09:00:00'),
-(2, 'B中学校 武道場', '名古屋市中村区2-2-2', 35.1691, 136.8801, '2025-10-28 09:00:00'),
-(3, 'C公民館', '名古屋市東区3-3-3', 35.1801, 136.9201, '2025-10-28 09:00:00'),
-(4, 'D大学 講堂',  '名古屋市千種区4-4-4', 35.1501, 136.9501, '2025-10-28 09:00:00'),
-(5, 'E福祉センター', '名古屋市昭和区5-5-5', 35.1401, 136.9301, '2025-10-28 09:00:00'),
-(6, 'F高校 体育館', '名古屋市瑞穂区6-6-6', 35.1301, 136.9401, '2025-10-28 09:00:00'),
-(7, 'Gコミュニティセンター', '名古屋市熱田区7-7-7', 35.1201, 136.9101, '2025-10-28 09:00:00'),
-(8, 'H生涯学習センター', '名古屋市中川区8-8-8', 35.1401, 136.8701, '2025-10-28 09:00:00'),
-(9, 'Iスポーツセンター', '名古屋市港区9-9-9', 35.1001, 136.8801, '2025-10-28 09:00:00'),
-(10, 'J地区会館', '名古屋市南区10-10-10', 35.1101, 136.9201, '2025-10-28 09:00:00');
+INSERT OR IGNORE INTO shelters (id, name, address, latitude, longitude, capacity, opening_hours, created_at) VALUES
+(1, 'A小学校 体育館', '名古屋市中区1-1-1', 35.1701, 136.9001, 300, '24時間', '2025-10-28 09:00:00'),
+(2, 'B中学校 武道場', '名古屋市中村区2-2-2', 35.1691, 136.8801, 150, '24時間', '2025-10-28 09:00:00'),
+(3, 'C公民館', '名古屋市東区3-3-3', 35.1801, 136.9201, 80, '24時間', '2025-10-28 09:00:00'),
+(4, 'D大学 講堂',  '名古屋市千種区4-4-4', 35.1501, 136.9501, 500, '24時間', '2025-10-28 09:00:00'),
+(5, 'E福祉センター', '名古屋市昭和区5-5-5', 35.1401, 136.9301, 120, '24時間', '2025-10-28 09:00:00'),
+(6, 'F高校 体育館', '名古屋市瑞穂区6-6-6', 35.1301, 136.9401, 250, '24時間', '2025-10-28 09:00:00'),
+(7, 'Gコミュニティセンター', '名古屋市熱田区7-7-7', 35.1201, 136.9101, 100, '24時間', '2025-10-28 09:00:00'),
+(8, 'H生涯学習センター', '名古屋市中川区8-8-8', 35.1401, 136.8701, 180, '24時間', '2025-10-28 09:00:00'),
+(9, 'Iスポーツセンター', '名古屋市港区9-9-9', 35.1001, 136.8801, 400, '24時間', '2025-10-28 09:00:00'),
+(10, 'J地区会館', '名古屋市南区10-10-10', 35.1101, 136.9201, 60, '24時間', '2025-10-28 09:00:00');
 
 -- 2. 投稿テーブル
 INSERT OR IGNORE INTO posts (id, author_name, shelter_id, content, latitude, longitude, is_synced, posted_at, created_at, updated_at, is_free_chat, occurred_at, status, deleted_at) VALUES
@@ -150,3 +502,47 @@ INSERT OR IGNORE INTO post_location_tracks (id, post_id, recorded_at, latitude,
 ('l0000001-0000-0000-0000-000000000001', 'a0000001-0000-0000-0000-000000000001', '2025-10-28 09:59:00', 35.1700, 136.8998, '2025-10-28 10:00:05', '2025-10-28 10:00:05', NULL, 0),
 ('l0000002-0000-0000-0000-000000000002', 'a0000001-0000-0000-0000-000000000001', '2025-10-28 09:59:30', 35.1701, 136.9000, '2025-10-28 10:00:05', '2025-10-28 10:00:05', NULL, 0),
 ('l0000003-0000-0000-0000-000000000003', 'a0000003-0000-0000-0000-000000000003', '2025-10-28 10:09:00', 35.1702, 136.9001, '2025-10-28 10:10:05', '2025-10-28 10:10:05', NULL, 0);
+
+-- 6. スタッフアカウント（開発用、パスワードはすべて "password"）
+INSERT OR IGNORE INTO staff_accounts (id, login_id, display_name, role, shelter_id, password_hash, password_salt, created_at, updated_at) VALUES
+(1, 'hq-admin', '運営（市役所）', 'hq_admin', NULL, '4ec73eba100dc960c54232291ccd6a96afdf2395a6e568cf486d7cce6074f707', '5f1c0e9a7b2d4c6e8f10a2b3c4d5e6f7', '2025-10-28 09:00:00', '2025-10-28 09:00:00'),
+(2, 'staff-a', 'A小学校 職員', 'shelter_staff', 1, '00025938c34f25fe607ea382ea83eda6b7e5a17f3aa00d8c00c5533dace9a249', '9a8b7c6d5e4f30211203f4e5d6c7b8a9', '2025-10-28 09:00:00', '2025-10-28 09:00:00'),
+(3, 'evacuee', '避難者（テスト）', 'evacuee', 1, 'a71376213a77452ae88c70dd1ba01fe775b118756abece1754093ce3e2ef5408', '0f1e2d3c4b5a69788796a5b4c3d2e1f0', '2025-10-28 09:00:00', '2025-10-28 09:00:00');
+
+-- 7. 避難者数の記録
+INSERT OR IGNORE INTO shelter_occupancy (id, shelter_id, headcount, recorded_at, recorded_by, created_at, updated_at, is_synced) VALUES
+('o0000001-0000-0000-0000-000000000001', 1, 180, '2025-10-28 10:00:00', 'A小学校 職員', '2025-10-28 10:00:00', '2025-10-28 10:00:00', 0),
+('o0000002-0000-0000-0000-000000000002', 1, 245, '2025-10-28 12:00:00', 'A小学校 職員', '2025-10-28 12:00:00', '2025-10-28 12:00:00', 0),
+('o0000003-0000-0000-0000-000000000003', 2, 142, '2025-10-28 11:00:00', '運営（市役所）', '2025-10-28 11:00:00', '2025-10-28 11:00:00', 0),
+('o0000004-0000-0000-0000-000000000004', 3, 35, '2025-10-28 11:00:00', '運営（市役所）', '2025-10-28 11:00:00', '2025-10-28 11:00:00', 0);
+
+-- 8. 物資の在庫（現在庫は入出庫履歴の合計と一致させる）
+INSERT OR IGNORE INTO inventory_items (id, shelter_id, name, unit, quantity, min_quantity, created_at, updated_at, deleted_at, is_synced) VALUES
+('i0000001-0000-0000-0000-000000000001', 1, '飲料水（2L）', '本', 180, 100, '2025-10-28 09:30:00', '2025-10-28 10:00:00', NULL, 0),
+('i0000002-0000-0000-0000-000000000002', 1, '毛布', '枚', 120, 100, '2025-10-28 09:30:00', '2025-10-28 09:30:00', NULL, 0),
+('i0000003-0000-0000-0000-000000000003', 2, '毛布', '枚', 20, 80, '2025-10-28 09:30:00', '2025-10-28 10:05:00', NULL, 0),
+('i0000004-0000-0000-0000-000000000004', 4, '粉ミルク', '缶', 15, 10, '2025-10-28 09:30:00', '2025-10-28 09:30:00', NULL, 0);
+
+INSERT OR IGNORE INTO inventory_transactions (id, item_id, shelter_id, transaction_type, quantity, note, recorded_by, created_at, updated_at, is_synced) VALUES
+('t0000001-0000-0000-0000-000000000001', 'i0000001-0000-0000-0000-000000000001', 1, 'in', 200, '備蓄倉庫から搬入', 'A小学校 職員', '2025-10-28 09:30:00', '2025-10-28 09:30:00', 0),
+('t0000002-0000-0000-0000-000000000002', 'i0000001-0000-0000-0000-000000000001', 1, 'out', 20, '朝の配布', 'A小学校 職員', '2025-10-28 10:00:00', '2025-10-28 10:00:00', 0),
+('t0000003-0000-0000-0000-000000000003', 'i0000002-0000-0000-0000-000000000002', 1, 'in', 120, '備蓄倉庫から搬入', 'A小学校 職員', '2025-10-28 09:30:00', '2025-10-28 09:30:00', 0),
+('t0000004-0000-0000-0000-000000000004', 'i0000003-0000-0000-0000-000000000003', 2, 'in', 60, '備蓄倉庫から搬入', '運営（市役所）', '2025-10-28 09:30:00', '2025-10-28 09:30:00', 0),
+('t0000005-0000-0000-0000-000000000005', 'i0000003-0000-0000-0000-000000000003', 2, 'out', 40, '配布', '運営（市役所）', '2025-10-28 10:05:00', '2025-10-28 10:05:00', 0),
+('t0000006-0000-0000-0000-000000000006', 'i0000004-0000-0000-0000-000000000004', 4, 'in', 15, '支援物資', '運営（市役所）', '2025-10-28 09:30:00', '2025-10-28 09:30:00', 0);
+
+-- 9. マイグレーションの適用記録
+-- このファイルは最新のスキーマを作成するため、migrations/ の内容は適用済みとして記録する
+-- （既存のDBは先に npm run db:migrate で列を追加してから、このファイルで新しいテーブル等を作成する）
+CREATE TABLE IF NOT EXISTS d1_migrations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE,
+    applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+INSERT OR IGNORE INTO d1_migrations (name) VALUES
+('0001_shelter_details.sql'),
+('0002_sync_record_columns.sql'),
+('0003_sync_log_columns.sql'),
+('0004_sync_state_targets.sql'),
+('0005_content_author_staff.sql');
@@ -1,5 +1,21 @@
 import type { MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
+import type { components } from "../schema/schema";
+import type { Bindings } from "../src/db/database";
+import { dbConnect } from "../src/db/database";
+import { authRepository, syncNodeRepository } from "../src/repositories";
+import type {
+	AuthenticatedStaff,
+	StaffRole,
+} from "../src/repositories/authRepository";
+
+export type AppEnv = {
+	Bindings: Bindings;
+	Variables: {
+		staff: AuthenticatedStaff | null;
+		syncNodeId: string | null;
+	};
+};
 
 const DEFAULT_ALLOWED_ORIGINS = new Set<string>([
 	"http://localhost:8080",
@@ -77,3 +93,99 @@ export const createMiddleware = ({
 		credentials: true,
 	});
 };
+
+const extractBearerToken = (header: string | undefined): string | null => {
+	if (!header) {
+		return null;
+	}
+	const [scheme, token] = header.split(" ");
+	if (scheme?.toLowerCase() !== "bearer" || !token) {
+		return null;
+	}
+	return token;
+};
+
+// Bearerトークンからスタッフを解決し c.var.staff に設定する（未ログインは null）
+export const authenticate = (): MiddlewareHandler<AppEnv> => {
+	return async (c, next) => {
+		c.set("staff", null);
+
+		const token = extractBearerToken(c.req.header("Authorization"));
+		if (token) {
+			try {
+				const db = dbConnect(c.env);
+				c.set("staff", await authRepository.findStaffByToken(db, token));
+			} catch (error) {
+				console.error("Error resolving auth token:", error);
+			}
+		}
+
+		await next();
+	};
+};
+
+// 指定ロールのいずれかを持つスタッフのみ通過させる
+export const requireRole = (
+	...roles: StaffRole[]
+): MiddlewareHandler<AppEnv> => {
+	return async (c, next) => {
+		const staff = c.get("staff");
+		if (!staff) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "ログインが必要です",
+			};
+			return c.json(errorResponse, 401);
+		}
+
+		if (!roles.includes(staff.role)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この操作を行う権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		await next();
+	};
+};
+
+// ノード間同期リクエストのHMAC署名を検証し、送信元ノードIDを c.var.syncNodeId に設定する
+export const requireSignedSync = (): MiddlewareHandler<AppEnv> => {
+	return async (c, next) => {
+		const url = new URL(c.req.url);
+		// 後続ハンドラーが本文を読めるよう、複製したリクエストから取得する
+		const body = await c.req.raw.clone().arrayBuffer();
+
+		try {
+			const db = dbConnect(c.env);
+			const result = await syncNodeRepository.verifySignedRequest(db, {
+				nodeId: c.req.header(syncNodeRepository.SYNC_HEADER_NODE_ID),
+				timestamp: c.req.header(syncNodeRepository.SYNC_HEADER_TIMESTAMP),
+				nonce: c.req.header(syncNodeRepository.SYNC_HEADER_NONCE),
+				signature: c.req.header(syncNodeRepository.SYNC_HEADER_SIGNATURE),
+				method: c.req.method,
+				origin: url.origin,
+				path: `${url.pathname}${url.search}`,
+				body,
+			});
+
+			if (!result.ok) {
+				console.warn(`🚫 同期リクエストを拒否: ${result.reason}`);
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: `同期リクエストの署名検証に失敗しました: ${result.reason}`,
+				};
+				return c.json(errorResponse, 401);
+			}
+
+			c.set("syncNodeId", result.nodeId);
+		} catch (error) {
+			console.error("Error verifying sync signature:", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+
+		await next();
+	};
+};
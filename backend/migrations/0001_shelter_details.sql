@@ -0,0 +1,10 @@
+-- 避難所の収容人数・開設時間・開設状況
+ALTER TABLE shelters ADD COLUMN capacity INTEGER;
+ALTER TABLE shelters ADD COLUMN opening_hours TEXT;
+ALTER TABLE shelters ADD COLUMN status TEXT NOT NULL DEFAULT 'open';
+ALTER TABLE shelters ADD COLUMN closed_at DATETIME;
+
+-- ADD COLUMN では CURRENT_TIMESTAMP を既定値にできないため、既存の避難所は作成日時で埋める
+-- （新しく作成する避難所は INSERT 時に updated_at を指定する）
+ALTER TABLE shelters ADD COLUMN updated_at DATETIME NOT NULL DEFAULT '1970-01-01 00:00:00';
+UPDATE shelters SET updated_at = created_at;
@@ -0,0 +1,16 @@
+-- 競合検出用の基準バージョン（既存のレコードは同期済みなら現在のバージョンを基準にする）
+ALTER TABLE posts ADD COLUMN base_updated_at DATETIME;
+ALTER TABLE comments ADD COLUMN base_updated_at DATETIME;
+UPDATE posts SET base_updated_at = updated_at WHERE is_synced = 1;
+UPDATE comments SET base_updated_at = updated_at WHERE is_synced = 1;
+
+-- 中継同期で引き継ぐ作成元ノードID
+ALTER TABLE posts ADD COLUMN origin_node_id TEXT;
+ALTER TABLE comments ADD COLUMN origin_node_id TEXT;
+ALTER TABLE media ADD COLUMN origin_node_id TEXT;
+ALTER TABLE post_location_tracks ADD COLUMN origin_node_id TEXT;
+
+-- メディアファイルのSHA-256（記録前のメディアはNULLのまま）
+ALTER TABLE media ADD COLUMN sha256 TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_shelter_posted_at ON posts(shelter_id, posted_at);
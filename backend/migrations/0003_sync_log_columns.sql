@@ -0,0 +1,23 @@
+-- 署名検証済みの送信元ノード
+ALTER TABLE sync_logs ADD COLUMN verified_node_id TEXT;
+
+-- 分割送信の進捗
+ALTER TABLE sync_logs ADD COLUMN batches_total INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN batches_completed INTEGER NOT NULL DEFAULT 0;
+
+-- 同期ジョブの段階とメディア転送の進捗
+ALTER TABLE sync_logs ADD COLUMN phase TEXT;
+ALTER TABLE sync_logs ADD COLUMN media_files_total INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN media_files_completed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN media_files_failed INTEGER NOT NULL DEFAULT 0;
+
+-- 送信対象外の避難所のため送らなかった未同期データ数
+ALTER TABLE sync_logs ADD COLUMN out_of_scope_records INTEGER NOT NULL DEFAULT 0;
+
+-- 同期の所要時間・転送量・同期先の応答時間
+ALTER TABLE sync_logs ADD COLUMN data_duration_ms INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN media_duration_ms INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN payload_bytes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN media_bytes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN upstream_requests INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sync_logs ADD COLUMN upstream_latency_ms INTEGER NOT NULL DEFAULT 0;
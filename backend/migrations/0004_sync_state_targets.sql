@@ -0,0 +1,15 @@
+-- 同期の状態を同期先ごとに持つため、主キーを scope_key から (target_key, scope) に変える
+-- 既存の差分Pullの時刻は上流（'upstream'）から取得したものとして引き継ぐ
+CREATE TABLE sync_state_new (
+    target_key TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    last_pulled_at DATETIME,
+    change_cursor INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (target_key, scope)
+);
+
+INSERT INTO sync_state_new (target_key, scope, last_pulled_at)
+SELECT 'upstream', scope_key, last_pulled_at FROM sync_state;
+
+DROP TABLE sync_state;
+ALTER TABLE sync_state_new RENAME TO sync_state;
@@ -0,0 +1,3 @@
+-- 投稿・コメントを書いたアカウント（編集・削除の本人確認に使う。既存のレコードは本人を特定できないためNULL）
+ALTER TABLE posts ADD COLUMN author_staff_id INTEGER REFERENCES staff_accounts(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN author_staff_id INTEGER REFERENCES staff_accounts(id) ON DELETE SET NULL;
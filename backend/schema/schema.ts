@@ -75,33 +75,57 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/status": {
+	"/auth/login": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
+		get?: never;
+		put?: never;
 		/**
-		 * 同期ステータスを取得
-		 * @description 未同期データの統計情報を取得します。
+		 * ログイン
+		 * @description ログインIDとパスワードを検証し、Bearerトークンを発行します。
 		 */
-		get: {
+		post: {
 			parameters: {
 				query?: never;
 				header?: never;
 				path?: never;
 				cookie?: never;
 			};
-			requestBody?: never;
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["LoginRequest"];
+				};
+			};
 			responses: {
-				/** @description 同期ステータスを取得しました */
+				/** @description ログインしました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncStatusResponse"];
+						"application/json": components["schemas"]["LoginResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインIDまたはパスワードが正しくありません */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
 				/** @description サーバーエラー */
@@ -115,15 +139,13 @@ export interface paths {
 				};
 			};
 		};
-		put?: never;
-		post?: never;
 		delete?: never;
 		options?: never;
 		head?: never;
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/execute": {
+	"/auth/logout": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -133,8 +155,8 @@ export interface paths {
 		get?: never;
 		put?: never;
 		/**
-		 * 同期を実行
-		 * @description ローカルDBの未同期データを本番DBに同期します。
+		 * ログアウト
+		 * @description 現在のBearerトークンを失効させます。
 		 */
 		post: {
 			parameters: {
@@ -143,23 +165,19 @@ export interface paths {
 				path?: never;
 				cookie?: never;
 			};
-			requestBody: {
-				content: {
-					"application/json": components["schemas"]["SyncExecuteRequest"];
-				};
-			};
+			requestBody?: never;
 			responses: {
-				/** @description 同期を実行しました */
+				/** @description ログアウトしました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncExecuteResponse"];
+						"application/json": components["schemas"]["OkResponse"];
 					};
 				};
-				/** @description リクエストが不正です */
-				400: {
+				/** @description ログインが必要です */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -184,51 +202,34 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/pull": {
+	"/auth/me": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
-		/**
-		 * 本番DBの差分データを取得
-		 * @description 指定した避難所の差分データを取得します。
-		 */
+		/** ログイン中のスタッフ情報を取得 */
 		get: {
 			parameters: {
-				query?: {
-					/** @description 取得開始日時（updated_at基準） */
-					since?: string;
-					/** @description 避難所ID（未指定時は環境変数） */
-					shelterId?: number;
-				};
+				query?: never;
 				header?: never;
 				path?: never;
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description 差分データを取得しました */
+				/** @description スタッフ情報を取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncPullResponse"];
-					};
-				};
-				/** @description リクエストが不正です */
-				400: {
-					headers: {
-						[name: string]: unknown;
-					};
-					content: {
-						"application/json": components["schemas"]["ErrorResponse"];
+						"application/json": components["schemas"]["StaffAccount"];
 					};
 				};
-				/** @description サーバーエラー */
-				500: {
+				/** @description ログインが必要です */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -246,7 +247,7 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/pull/execute": {
+	"/auth/staff": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -256,8 +257,8 @@ export interface paths {
 		get?: never;
 		put?: never;
 		/**
-		 * 差分Pullを実行
-		 * @description 本番DBからローカルDBへ差分データを同期します。
+		 * スタッフアカウントを作成
+		 * @description 本部管理者（hq_admin）のみ実行できます。
 		 */
 		post: {
 			parameters: {
@@ -268,20 +269,20 @@ export interface paths {
 			};
 			requestBody: {
 				content: {
-					"application/json": components["schemas"]["SyncPullExecuteRequest"];
+					"application/json": components["schemas"]["CreateStaffRequest"];
 				};
 			};
 			responses: {
-				/** @description 差分Pullを実行しました */
-				200: {
+				/** @description スタッフアカウントを作成しました */
+				201: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncPullExecuteResponse"];
+						"application/json": components["schemas"]["StaffAccount"];
 					};
 				};
-				/** @description リクエストが不正です */
+				/** @description リクエスト内容が不正です */
 				400: {
 					headers: {
 						[name: string]: unknown;
@@ -290,6 +291,33 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインIDが既に使用されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
 				/** @description サーバーエラー */
 				500: {
 					headers: {
@@ -307,7 +335,7 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/pull/media": {
+	"/api/sync/status": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -315,32 +343,29 @@ export interface paths {
 			cookie?: never;
 		};
 		/**
-		 * メディアファイルをダウンロード
-		 * @description 指定したfile_pathのメディアファイルを本番R2から取得します。
+		 * 同期ステータスを取得
+		 * @description 未同期データの統計情報を取得します。
 		 */
 		get: {
 			parameters: {
-				query: {
-					/** @description メディアファイルのパス */
-					filePath: string;
-				};
+				query?: never;
 				header?: never;
 				path?: never;
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description メディアファイル */
+				/** @description 同期ステータスを取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/octet-stream": string;
+						"application/json": components["schemas"]["SyncStatusResponse"];
 					};
 				};
-				/** @description リクエストが不正です */
-				400: {
+				/** @description ログインが必要です */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -348,8 +373,8 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description メディアが見つかりません */
-				404: {
+				/** @description 権限がありません */
+				403: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -376,39 +401,61 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/media": {
+	"/api/sync/preview": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
-		get?: never;
-		put?: never;
 		/**
-		 * メディア同期を実行
-		 * @description ローカルR2の未同期メディアを本番R2に同期します。
+		 * 同期内容をプレビュー
+		 * @description `/api/sync/execute` と `/api/sync/media` で送信される未同期データを、避難所ごとの件数と推定容量で返します（実際には同期しません）。
+		 *     メディアファイルの容量はR2のオブジェクトサイズから求めます。
+		 *     `targetUrl` を指定すると、同期先の `/api/sync/pull` から次に取得されるページも集計します（取得したデータは反映せず、カーソルも進めません）。
 		 */
-		post: {
+		get: {
 			parameters: {
-				query?: never;
+				query?: {
+					/** @description 差分Pullのプレビューに使う同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
+					targetUrl?: string;
+					/**
+					 * @description 差分Pullのプレビュー対象の避難所ID（未指定時は DEFAULT_SHELTER_ID）。
+					 *     指定した場合は Push の送信対象もこの避難所に限ります（未指定時は SYNC_SHELTER_IDS）
+					 */
+					shelterId?: number;
+				};
 				header?: never;
 				path?: never;
 				cookie?: never;
 			};
-			requestBody: {
-				content: {
-					"application/json": components["schemas"]["SyncMediaExecuteRequest"];
-				};
-			};
+			requestBody?: never;
 			responses: {
-				/** @description メディア同期を実行しました */
+				/** @description 同期内容のプレビューを取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncMediaResponse"];
+						"application/json": components["schemas"]["SyncPreviewResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
 				/** @description サーバーエラー */
@@ -422,13 +469,15 @@ export interface paths {
 				};
 			};
 		};
+		put?: never;
+		post?: never;
 		delete?: never;
 		options?: never;
 		head?: never;
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/media/receive": {
+	"/api/sync/execute": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -438,8 +487,13 @@ export interface paths {
 		get?: never;
 		put?: never;
 		/**
-		 * メディア同期データを受信
-		 * @description 本番側でメディアファイルを受信してR2に保存します。
+		 * 同期を実行
+		 * @description ローカルDBの未同期データを本番DBに同期します。
+		 *     データは一定件数ごとのバッチに分けて送信し、受信が確認できたバッチから同期済みにします。
+		 *     途中のバッチで失敗した場合は、次回の実行で同じ同期ログを引き継いで残りのバッチから再開します。
+		 *     定期同期（Cron Trigger）を含む他の同期処理の実行中は 409 を返します。
+		 *     本番と通信できない場合は、`targetUrl` に他の避難所ノードを指定して中継させることもできます。
+		 *     中継ノード（`SYNC_UPSTREAM_URL` を設定したノード）は受信データを未同期として保持し、上流へ転送します。
 		 */
 		post: {
 			parameters: {
@@ -450,17 +504,17 @@ export interface paths {
 			};
 			requestBody: {
 				content: {
-					"multipart/form-data": components["schemas"]["SyncMediaReceiveRequest"];
+					"application/json": components["schemas"]["SyncExecuteRequest"];
 				};
 			};
 			responses: {
-				/** @description メディアを保存しました */
+				/** @description 同期を実行しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncMediaReceiveResponse"];
+						"application/json": components["schemas"]["SyncExecuteResponse"];
 					};
 				};
 				/** @description リクエストが不正です */
@@ -472,6 +526,33 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 別の同期処理（手動または定期同期）が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
 				/** @description サーバーエラー */
 				500: {
 					headers: {
@@ -489,43 +570,39 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/receive": {
+	"/api/sync/handshake": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
-		get?: never;
-		put?: never;
 		/**
-		 * 同期データを受信
-		 * @description 他の環境からの同期データを受信してDBに保存します。
+		 * 同期プロトコルのハンドシェイク
+		 * @description 応答したノードが扱える同期プロトコルのバージョン範囲を返します。
+		 *     送信側は送信前にこのエンドポイントで双方が扱える最新のバージョンを決め、ペイロードの protocolVersion に設定します。
+		 *     このエンドポイントがない（404）ノードは旧形式（バージョン 1）のみ扱えるものとみなします。
 		 */
-		post: {
+		get: {
 			parameters: {
 				query?: never;
 				header?: never;
 				path?: never;
 				cookie?: never;
 			};
-			requestBody: {
-				content: {
-					"application/json": components["schemas"]["SyncReceiveRequest"];
-				};
-			};
+			requestBody?: never;
 			responses: {
-				/** @description 同期データを受信・保存しました */
+				/** @description 対応バージョンを取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncReceiveResponse"];
+						"application/json": components["schemas"]["SyncHandshakeResponse"];
 					};
 				};
-				/** @description サーバーエラー */
-				500: {
+				/** @description 署名がない・不正・期限切れ・リプレイ、または未登録ノードからのリクエストです */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -535,13 +612,15 @@ export interface paths {
 				};
 			};
 		};
+		put?: never;
+		post?: never;
 		delete?: never;
 		options?: never;
 		head?: never;
 		patch?: never;
 		trace?: never;
 	};
-	"/api/sync/logs": {
+	"/api/sync/pull": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -549,32 +628,61 @@ export interface paths {
 			cookie?: never;
 		};
 		/**
-		 * 同期ログ一覧を取得
-		 * @description 過去の同期履歴をページネーション形式で取得します。
+		 * 本番DBの差分データを取得
+		 * @description 指定した避難所の差分データを取得します。
+		 *     `cursor` を指定すると、投稿・コメント・位置情報トラック・メディアは変更ログの seq 順にページ単位で返します。
+		 *     レスポンスの `nextCursor` を次回の `cursor` に指定し、`hasMore` が false になるまで取得してください。
+		 *     避難所・在庫情報は `since` 基準で返します。
+		 *     X-Sync-Accept-Encoding ヘッダーで受け取れる圧縮方式を示すと、本文を圧縮して返し、X-Sync-Content-Encoding ヘッダーで圧縮方式を示します。
 		 */
 		get: {
 			parameters: {
 				query?: {
-					/** @description Filter by shelter ID (optional) */
-					shelterId?: number;
-					/** @description Page number (starts from 1, default is 1) */
-					page?: number;
-					/** @description Number of items per page (default is 10) */
+					/** @description 取得開始日時（updated_at基準。cursor 指定時は避難所・在庫情報のみに適用） */
+					since?: string;
+					/** @description 取り込み済みの変更ログ seq（この次から取得する。初回は 0） */
+					cursor?: number;
+					/** @description 1ページで読む変更ログの件数（cursor 指定時のみ） */
 					limit?: number;
+					/** @description 避難所ID（未指定時は環境変数） */
+					shelterId?: number;
+					/** @description 取得側が扱える同期プロトコルの最新バージョン（未指定は旧形式の 1） */
+					protocolVersion?: number;
+				};
+				header?: {
+					/** @description 受け取れる本文の圧縮方式（カンマ区切り。例：gzip） */
+					"X-Sync-Accept-Encoding"?: string;
 				};
-				header?: never;
 				path?: never;
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description 同期ログ一覧を取得しました */
+				/** @description 差分データを取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["SyncLogsResponse"];
+						"application/json": components["schemas"]["SyncPullResponse"];
+					};
+				};
+				/** @description リクエストが不正、または取得側の同期プロトコルのバージョンに対応していません */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 署名がない・不正・期限切れ・リプレイ、または未登録ノードからのリクエストです */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
 				/** @description サーバーエラー */
@@ -596,7 +704,7 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/posts": {
+	"/api/sync/pull/execute": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -606,8 +714,10 @@ export interface paths {
 		get?: never;
 		put?: never;
 		/**
-		 * 投稿を新規作成（メディア同梱）
-		 * @description 本文・時刻・位置トラックなどのメタデータと、画像/動画ファイルを同梱して投稿します。
+		 * 差分Pullを実行
+		 * @description 本番DBからローカルDBへ差分データを同期します。
+		 *     `targetUrl` に他の避難所ノードを指定した場合、そのノードが中継ノードであれば取得したデータを未同期として保持し、
+		 *     このノードが本番と通信できるようになった時点で作成元ノードを引き継いだまま本番へ転送します。
 		 */
 		post: {
 			parameters: {
@@ -618,25 +728,3305 @@ export interface paths {
 			};
 			requestBody: {
 				content: {
-					"multipart/form-data": {
-						metadata: components["schemas"]["CreatePostRequest"];
-						/** @description 添付するメディアファイル（画像/動画） */
-						mediaFiles?: string[];
-					};
+					"application/json": components["schemas"]["SyncPullExecuteRequest"];
 				};
 			};
 			responses: {
-				/** @description 投稿を作成しました */
-				201: {
-					headers: {
+				/** @description 差分Pullを実行しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncPullExecuteResponse"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 別の同期処理（手動または定期同期）が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/pull/media": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * メディアファイルをダウンロード
+		 * @description 指定したfile_pathのメディアファイルを本番R2から取得します。
+		 *     `maxWidth` を指定すると、画像はこの幅まで縮小して返します（Images バインディングがあるノードのみ）。
+		 *     縮小した場合は X-Sync-Media-Downscaled ヘッダーを付け、元のファイルとはSHA-256が一致しません。
+		 */
+		get: {
+			parameters: {
+				query: {
+					/** @description メディアファイルのパス */
+					filePath: string;
+					/** @description 画像を縮小する最大の幅（低帯域の回線で取得する場合に指定） */
+					maxWidth?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description メディアファイル */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/octet-stream": string;
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 署名がない・不正・期限切れ・リプレイ、または未登録ノードからのリクエストです */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description メディアが見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/media": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * メディア同期を実行
+		 * @description ローカルR2の未同期メディアを本番R2に同期します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncMediaExecuteRequest"];
+				};
+			};
+			responses: {
+				/** @description メディア同期を実行しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncMediaResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 別の同期処理（手動または定期同期）が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/jobs": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期ジョブを開始
+		 * @description メディアファイル → データの順に未同期分を送信する同期ジョブを開始します。
+		 *     ジョブはレスポンス後もバックグラウンドで実行され、進捗は返却したジョブIDで取得できます。
+		 *     メディア本体を送れなかった投稿（とそのコメント・位置情報）は次回の同期に回します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncJobStartRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期ジョブを開始しました */
+				202: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncJobStartResponse"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 別の同期処理（手動または定期同期）が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/jobs/{id}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期ジョブの進捗を取得
+		 * @description 同期ジョブの段階・メディアファイルとバッチの送信状況・進捗率を取得します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期ジョブID（同期ログID） */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期ジョブの進捗を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncJobStatus"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期ジョブが見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/media/retries": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * メディア転送の再試行キューを取得
+		 * @description 転送に失敗し、間隔を空けて再試行するメディアファイルの一覧を取得します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 再試行キューを取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["MediaSyncRetryListResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/media/retries/retry-now": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * メディア転送をすぐに再試行
+		 * @description 再試行時刻に達していないメディアも、次回の同期で再試行されるようにします。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 再試行時刻を更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["MediaSyncRetryNowResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/media/receive": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * メディア同期データを受信
+		 * @description 本番側でメディアファイルを受信してR2に保存します。
+		 *     `sha256` を指定した場合、ファイル本体のSHA-256が一致しなければ保存せず 422 を返します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"multipart/form-data": components["schemas"]["SyncMediaReceiveRequest"];
+				};
+			};
+			responses: {
+				/** @description メディアを保存しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncMediaReceiveResponse"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 署名がない・不正・期限切れ・リプレイ、または未登録ノードからのリクエストです */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ファイル本体のSHA-256が一致しません（転送中の欠損） */
+				422: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/receive": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期データを受信
+		 * @description 他の環境からの同期データを受信してDBに保存します。
+		 *     データは避難所ごとに1つのトランザクションで反映し、途中で失敗した避難所は何も反映せず shelterResults に失敗として返します。
+		 *     旧バージョンの形式（protocolVersion なし）は現在の形式に変換して反映し、対応していないバージョンは失敗として同期ログに記録して 400 を返します。
+		 *     本文は X-Sync-Content-Encoding ヘッダーで示した方式（gzip）で圧縮できます。署名は圧縮後の本文に対して付けてください。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: {
+					/** @description 本文の圧縮方式（未指定は圧縮なし） */
+					"X-Sync-Content-Encoding"?: "gzip" | "identity";
+				};
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncReceiveRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期データを受信・保存しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncReceiveResponse"];
+					};
+				};
+				/** @description 同期プロトコルのバージョンに対応していません */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 署名がない・不正・期限切れ・リプレイ、または未登録ノードからのリクエストです */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 対応していない圧縮方式です */
+				415: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/bundle/export": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期バンドルを書き出す
+		 * @description 本番と通信できない避難所向けに、未同期データ（Push同期で送るものと同じ）とR2のメディアファイルを1つの署名付きファイルに書き出します。
+		 *     ファイルにはマニフェストとSHA-256チェックサムが含まれ、このノードの共有鍵（SYNC_NODE_SECRET）で署名されます。
+		 *     持ち運んだファイルが届いたかは分からないため、書き出したデータは同期済みにしません。
+		 */
+		get: {
+			parameters: {
+				query?: {
+					/** @description 同期ログに記録する避難所ID */
+					shelterId?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期バンドルを書き出しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncBundle"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー（SYNC_NODE_ID / SYNC_NODE_SECRET が未設定の場合を含む） */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/bundle/import": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期バンドルを取り込む
+		 * @description 他のノードで書き出した同期バンドルの署名とチェックサムを検証し、メディアファイルをR2に保存した上で、Push受信と同じ処理で避難所ごとに反映します。
+		 *     署名は作成元ノードの共有鍵で検証するため、作成元ノードを登録しておく必要があります。同じバンドルを再度取り込んでも重複はしません。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncBundle"];
+				};
+			};
+			responses: {
+				/** @description 同期バンドルを取り込みました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncBundleImportResponse"];
+					};
+				};
+				/** @description 同期バンドルの形式・署名・チェックサムが不正、または同期プロトコルのバージョンに対応していません */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/logs": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期ログ一覧を取得
+		 * @description 過去の同期履歴をページネーション形式で取得します。
+		 *     成功した同期ログは30日を過ぎると定期同期のたびに削除されます（失敗したログは残ります）。
+		 */
+		get: {
+			parameters: {
+				query?: {
+					/** @description Filter by shelter ID (optional) */
+					shelterId?: number;
+					/** @description Page number (starts from 1, default is 1) */
+					page?: number;
+					/** @description Number of items per page (default is 10) */
+					limit?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期ログ一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncLogsResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/logs/{id}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期ログの詳細を取得
+		 * @description 同期ログと、送信・取得に失敗した項目（投稿・メディアなど）とその理由を取得します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期ログID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期ログの詳細を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncLogDetailResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期ログが見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/logs/{id}/retry": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期ログの失敗項目を再試行
+		 * @description 同期ログに記録された未再試行の失敗項目だけを、同じ同期先との間で送り直し（メディアは取得し直し）ます。
+		 *     結果は新しい同期ログ（種類 retry）に記録し、元の失敗項目は再試行済みになります。
+		 *     他の同期処理の実行中は 409 を返します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期ログID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 再試行しました（再試行の結果の同期ログ） */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncLogItem"];
+					};
+				};
+				/** @description 再試行できる失敗項目がありません */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期ログが見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 他の同期処理が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/metrics": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期の性能指標の推移を取得
+		 * @description 同期先と通信した同期（送信・差分Pull・同期ジョブ・再試行）の所要時間・転送量・応答時間を、避難所・日（UTC）ごとに集計して返します。
+		 *     通信状況の悪い回線で同期が遅くなっていないかの確認に使います。
+		 */
+		get: {
+			parameters: {
+				query?: {
+					/** @description 避難所IDで絞り込む */
+					shelterId?: number;
+					/** @description 集計する日数（今日を含む） */
+					days?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期の性能指標を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncMetricsResponse"];
+					};
+				};
+				/** @description パラメータが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/conflicts": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期競合一覧を取得
+		 * @description 前回の同期以降に手元と同期相手の両方で変更されたため、反映せずに保存した競合の一覧を取得します。
+		 *     避難所スタッフは所属避難所の競合のみ取得できます。
+		 */
+		get: {
+			parameters: {
+				query?: {
+					/** @description open（未解決）/ resolved（解決済み）/ all（すべて）。既定は open */
+					status?: "open" | "resolved" | "all";
+					/** @description Filter by shelter ID (optional) */
+					shelterId?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期競合一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncConflictsResponse"];
+					};
+				};
+				/** @description クエリパラメータが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/conflicts/{id}/resolve": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期競合を解決
+		 * @description 手元・同期相手のどちらかの版を採用するか、項目ごとに採用する版を選んで統合します。
+		 *     解決結果は新しい版として保存され、次回の同期で同期相手にも反映されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					id: string;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["ResolveSyncConflictRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期競合を解決しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncConflict"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 競合が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 競合は既に解決されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/nodes": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期ノード一覧を取得
+		 * @description 本番に登録された避難所ノードの一覧を取得します。本部管理者のみ実行できます。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期ノード一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncNodesResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 同期ノードを登録
+		 * @description 避難所ノードを登録し、署名用の共有鍵を発行します。共有鍵はこのレスポンスでのみ返されるため、
+		 *     ノード側の環境変数 `SYNC_NODE_ID` / `SYNC_NODE_SECRET` に設定してください。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["CreateSyncNodeRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期ノードを登録しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["CreateSyncNodeResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ノードIDが既に登録されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/nodes/{nodeId}/revoke": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期ノードを失効
+		 * @description 失効したノードからの同期リクエストは以降すべて拒否されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					nodeId: string;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期ノードを失効させました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncNode"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ノードが見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/targets": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 同期先の一覧と状態を取得
+		 * @description sync_targets に登録した同期先（県・市の本部サーバー等）の設定と、直近の実行結果から判定した状態を取得します。
+		 *     healthy: 正常、stale: 最後の成功から間隔の3倍以上経過、failing: 直近の実行が失敗、pending: 未実行、disabled: 無効
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期先の一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncTargetListResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 同期先を登録
+		 * @description 同期先を登録します（本部管理者のみ）。
+		 *     pushEnabled の同期先には変更ログ（投稿・コメント・位置情報・メディア）を同期先ごとのカーソルから転送し、
+		 *     pullShelterIds の避難所は同期先・避難所ごとのカーソルで差分Pullします。定期同期は intervalMinutes ごとに実行します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncTargetRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期先を登録しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncTargetItem"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同じURLの同期先が既に登録されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/api/sync/targets/{id}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		post?: never;
+		/**
+		 * 同期先を削除
+		 * @description 同期先と、同期先ごとに保存していたカーソルを削除します（本部管理者のみ）。
+		 */
+		delete: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期先ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期先を削除しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["OkResponse"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期先が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		options?: never;
+		head?: never;
+		/**
+		 * 同期先を更新
+		 * @description 同期先の設定を更新します（本部管理者のみ。未指定の項目は変更しません）。
+		 */
+		patch: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期先ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["SyncTargetRequest"];
+				};
+			};
+			responses: {
+				/** @description 同期先を更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncTargetItem"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期先が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同じURLの同期先が既に登録されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		trace?: never;
+	};
+	"/api/sync/targets/{id}/run": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 同期先との同期を今すぐ実行
+		 * @description 次の定期実行を待たずに、同期先への転送と差分Pullを実行します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 同期先ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 同期を実行しました（結果は同期先の状態に記録されます） */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SyncTargetItem"];
+					};
+				};
+				/** @description リクエストが不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同期先が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 別の同期処理（手動または定期同期）が実行中です */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/posts": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 投稿を新規作成（メディア同梱）
+		 * @description 本文・時刻・位置トラックなどのメタデータと、画像/動画ファイルを同梱して投稿します。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"multipart/form-data": {
+						metadata: components["schemas"]["CreatePostRequest"];
+						/** @description 添付するメディアファイル（画像/動画） */
+						mediaFiles?: string[];
+					};
+				};
+			};
+			responses: {
+				/** @description 投稿を作成しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["CreatePostResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ファイルサイズが許容上限を超えています */
+				413: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 未対応の Content-Type（MIME）です */
+				415: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバー側でエラーが発生しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/search": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 投稿・コメントを全文検索
+		 * @description 投稿・コメントの本文と投稿者名から、空白で区切ったすべての語を含むものを検索します（最大5語）。
+		 *     3文字以上の語は全文検索の索引を使い、一致の度合いが高い順に返します。
+		 *     2文字以下の語（「土砂」など）は索引を使わずに本文を調べるため、件数が多い場合は時間がかかります。
+		 */
+		get: {
+			parameters: {
+				query: {
+					/** @description 検索語（空白区切りで複数指定） */
+					q: string;
+					/** @description 避難所IDで絞り込む（コメントは投稿先の避難所） */
+					shelterId?: number;
+					/** @description 投稿だけ・コメントだけに絞り込む */
+					type?: "post" | "comment";
+					/** @description この日時以降に投稿・コメントされたものに絞り込む */
+					from?: string;
+					/** @description この日時以前に投稿・コメントされたものに絞り込む */
+					to?: string;
+					/** @description 返す件数 */
+					limit?: number;
+				};
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 検索結果を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["SearchResponse"];
+					};
+				};
+				/** @description 検索語・絞り込み条件が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description データベースのクエリに失敗しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/posts/{id}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 投稿の詳細を取得
+		 * @description 指定した投稿IDの詳細情報（メディアURL含む）を取得します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 投稿ID */
+					id: string;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 投稿の詳細を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["PostDetailResponse"];
+					};
+				};
+				/** @description 投稿が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバー側でエラーが発生しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		/**
+		 * 投稿を削除
+		 * @description 投稿を論理削除します。紐づくコメント・メディア・位置トラックも合わせて論理削除されます。
+		 */
+		delete: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 投稿ID */
+					id: string;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 投稿を削除しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["OkResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 投稿が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバー側でエラーが発生しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		options?: never;
+		head?: never;
+		/**
+		 * 投稿を編集
+		 * @description 投稿の本文・ステータスを更新します。本部管理者と投稿先避難所のスタッフ、または投稿者本人（表示名が一致するアカウント）のみ操作できます。
+		 */
+		patch: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 投稿ID */
+					id: string;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["UpdatePostRequest"];
+				};
+			};
+			responses: {
+				/** @description 投稿を更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["UpdatePostResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 投稿が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバー側でエラーが発生しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		trace?: never;
+	};
+	"/shelters": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/** 避難所一覧を取得 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難所一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterListWithCountResponse"];
+					};
+				};
+				/** @description データベースのクエリに失敗しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 避難所を新規作成
+		 * @description 本部管理者のみ実行できます。作成した避難所は差分Pullで各ノードへ配信されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["CreateShelterRequest"];
+				};
+			};
+			responses: {
+				/** @description 避難所を作成しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterDetails"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/stats": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 避難所ごとの現在の避難者数・収容率・報告件数を取得
+		 * @description 避難者数は最新の記録、収容率は収容可能人数に対する割合（%）です。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path?: never;
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難所の集計を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterStatsResponse"];
+					};
+				};
+				/** @description データベースのクエリに失敗しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/{id}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/** 避難所の詳細を取得 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難所の詳細を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterDetails"];
+					};
+				};
+				/** @description 不正な避難所IDが指定されました */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description データベースのクエリに失敗しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/**
+				 * @description 現在の状況ステータス
+				 * @enum {string|null}
+				 */
+				status: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content?: never;
+				};
+			};
+		};
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		/**
+		 * 避難所情報を更新
+		 * @description 指定した項目のみ更新します。本部管理者のみ実行できます。
+		 */
+		patch: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["ShelterUpdateRequest"];
+				};
+			};
+			responses: {
+				/** @description 避難所情報を更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterDetails"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 避難所が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		trace?: never;
+	};
+	"/shelters/{id}/close": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 避難所を閉鎖
+		 * @description 閉鎖日時を記録し、ステータスを closed にします。本部管理者のみ実行できます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難所のステータスを更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterDetails"];
+					};
+				};
+				/** @description 不正な避難所IDが指定されました */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 避難所が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/{id}/reopen": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		/**
+		 * 避難所を再開
+		 * @description 閉鎖日時をクリアし、ステータスを open に戻します。本部管理者のみ実行できます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難所のステータスを更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ShelterDetails"];
+					};
+				};
+				/** @description 不正な避難所IDが指定されました */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 避難所が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/{id}/occupancy": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 避難者数の記録履歴を取得
+		 * @description 新しい順に最大50件を返します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 避難者数の記録履歴を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["OccupancyHistoryResponse"];
+					};
+				};
+				/** @description 不正な避難所IDが指定されました */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description データベースのクエリに失敗しました */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 現在の避難者数を記録
+		 * @description 避難所スタッフ（所属避難所のみ）または本部管理者が実行できます。記録は同期で本番へ送信されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["RecordOccupancyRequest"];
+				};
+			};
+			responses: {
+				/** @description 避難者数を記録しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["OccupancyRecord"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 避難所が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/{id}/inventory": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 避難所の物資在庫一覧を取得
+		 * @description 現在庫が最低在庫数を下回る品目は isShortage が true になります。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 在庫一覧を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["InventoryListResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 在庫品目を登録
+		 * @description 避難所スタッフ（所属避難所のみ）または本部管理者が実行できます。初期在庫は入庫として記録されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["CreateInventoryItemRequest"];
+				};
+			};
+			responses: {
+				/** @description 品目を登録しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["InventoryItem"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 避難所が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 同じ名前の品目が既に登録されています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		delete?: never;
+		options?: never;
+		head?: never;
+		patch?: never;
+		trace?: never;
+	};
+	"/shelters/{id}/inventory/{itemId}": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		get?: never;
+		put?: never;
+		post?: never;
+		delete?: never;
+		options?: never;
+		head?: never;
+		/**
+		 * 在庫品目を更新
+		 * @description 品目名・単位・最低在庫数を更新します。現在庫は入出庫でのみ変更できます。
+		 */
+		patch: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+					/** @description 品目ID */
+					itemId: string;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["InventoryItemUpdateRequest"];
+				};
+			};
+			responses: {
+				/** @description 品目を更新しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["InventoryItem"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 品目が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		trace?: never;
+	};
+	"/shelters/{id}/inventory/{itemId}/transactions": {
+		parameters: {
+			query?: never;
+			header?: never;
+			path?: never;
+			cookie?: never;
+		};
+		/**
+		 * 入出庫履歴を取得
+		 * @description 新しい順に最大50件を返します。
+		 */
+		get: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+					/** @description 品目ID */
+					itemId: string;
+				};
+				cookie?: never;
+			};
+			requestBody?: never;
+			responses: {
+				/** @description 入出庫履歴を取得しました */
+				200: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["InventoryTransactionsResponse"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 品目が見つかりません */
+				404: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
+				500: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+			};
+		};
+		put?: never;
+		/**
+		 * 入庫・出庫を記録
+		 * @description 記録後の品目（現在庫・不足フラグを含む）を返します。入出庫履歴は同期で本番へ送信されます。
+		 */
+		post: {
+			parameters: {
+				query?: never;
+				header?: never;
+				path: {
+					/** @description 避難所ID */
+					id: number;
+					/** @description 品目ID */
+					itemId: string;
+				};
+				cookie?: never;
+			};
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["StockTransactionRequest"];
+				};
+			};
+			responses: {
+				/** @description 入出庫を記録しました */
+				201: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["InventoryItem"];
+					};
+				};
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["CreatePostResponse"];
+						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description リクエスト内容が不正です */
-				400: {
+				/** @description ログインが必要です */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -644,8 +4034,8 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description ファイルサイズが許容上限を超えています */
-				413: {
+				/** @description 権限がありません */
+				403: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -653,8 +4043,8 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description 未対応の Content-Type（MIME）です */
-				415: {
+				/** @description 品目が見つかりません */
+				404: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -662,7 +4052,16 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description サーバー側でエラーが発生しました */
+				/** @description 出庫数が現在庫を超えています */
+				409: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバーエラー */
 				500: {
 					headers: {
 						[name: string]: unknown;
@@ -679,7 +4078,7 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/posts/{id}": {
+	"/shelters/{id}/posts": {
 		parameters: {
 			query?: never;
 			header?: never;
@@ -687,32 +4086,53 @@ export interface paths {
 			cookie?: never;
 		};
 		/**
-		 * 投稿の詳細を取得
-		 * @description 指定した投稿IDの詳細情報（メディアURL含む）を取得します。
+		 * 指定した避難所の投稿を取得
+		 * @description 避難所の投稿を絞り込み・並び替えてページ単位で返します。
+		 *     レスポンスの `nextCursor` を次のリクエストの `cursor` に指定し、`hasMore` が false になるまで取得してください。
+		 *     カーソルは同じ `sort` でのみ使えます（絞り込み条件を変えた場合は先頭から取得し直してください）。
 		 */
 		get: {
 			parameters: {
-				query?: never;
+				query?: {
+					/** @description 前のページの `nextCursor` */
+					cursor?: string;
+					/** @description 1ページの件数 */
+					limit?: number;
+					/** @description 並び順（新しい順・古い順・重要度順・コメント数順） */
+					sort?: "newest" | "oldest" | "priority" | "comments";
+					/** @description 投稿のステータスで絞り込む（カンマ区切りで複数指定。例 `緊急,重要`） */
+					priority?: string;
+					/** @description 最新コメントの対応状況で絞り込む（カンマ区切りで複数指定。コメントが無い投稿は未対応） */
+					commentStatus?: string;
+					/** @description フリーチャット投稿だけ（true）またはフリーチャット以外だけ（false）に絞り込む */
+					isFreeChat?: boolean;
+					/** @description この日時以降の投稿に絞り込む */
+					from?: string;
+					/** @description この日時以前の投稿に絞り込む */
+					to?: string;
+					/** @description 投稿者名（部分一致）で絞り込む */
+					author?: string;
+				};
 				header?: never;
 				path: {
-					/** @description 投稿ID */
-					id: string;
+					/** @description 避難所ID */
+					id: number;
 				};
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description 投稿の詳細を取得しました */
+				/** @description 投稿一覧を取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["PostDetailResponse"];
+						"application/json": components["schemas"]["ShelterPostsResponse"];
 					};
 				};
-				/** @description 投稿が見つかりません */
-				404: {
+				/** @description 不正な避難所ID・絞り込み条件・カーソルが指定されました */
+				400: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -720,7 +4140,7 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description サーバー側でエラーが発生しました */
+				/** @description データベースのクエリに失敗しました */
 				500: {
 					headers: {
 						[name: string]: unknown;
@@ -739,33 +4159,48 @@ export interface paths {
 		patch?: never;
 		trace?: never;
 	};
-	"/shelters": {
+	"/posts/{id}/comments": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
-		/** 避難所一覧を取得 */
+		/** 投稿に紐づくコメント一覧を取得 */
 		get: {
 			parameters: {
-				query?: never;
+				query?: {
+					/** @description フリーチャット投稿の場合は `true` を指定し、関連コメント取得をスキップします */
+					isFreeChat?: boolean;
+				};
 				header?: never;
-				path?: never;
+				path: {
+					/** @description 対象の投稿ID */
+					id: string;
+				};
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description 避難所一覧を取得しました */
+				/** @description コメント一覧を取得しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["ShelterListWithCountResponse"];
+						"application/json": components["schemas"]["PostCommentsResponse"];
 					};
 				};
-				/** @description データベースのクエリに失敗しました */
+				/** @description リクエスト内容が不正です */
+				400: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description サーバー側でエラーが発生しました */
 				500: {
 					headers: {
 						[name: string]: unknown;
@@ -777,43 +4212,33 @@ export interface paths {
 			};
 		};
 		put?: never;
-		post?: never;
-		delete?: never;
-		options?: never;
-		head?: never;
-		patch?: never;
-		trace?: never;
-	};
-	"/shelters/{id}": {
-		parameters: {
-			query?: never;
-			header?: never;
-			path?: never;
-			cookie?: never;
-		};
-		/** 避難所の詳細を取得 */
-		get: {
+		/** コメントを新規投稿 */
+		post: {
 			parameters: {
 				query?: never;
 				header?: never;
 				path: {
-					/** @description 避難所ID */
-					id: number;
+					/** @description コメント対象の投稿ID */
+					id: string;
 				};
 				cookie?: never;
 			};
-			requestBody?: never;
+			requestBody: {
+				content: {
+					"application/json": components["schemas"]["CreateCommentRequest"];
+				};
+			};
 			responses: {
-				/** @description 避難所の詳細を取得しました */
-				200: {
+				/** @description コメントを作成しました */
+				201: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["ShelterDetails"];
+						"application/json": components["schemas"]["CreateCommentResponse"];
 					};
 				};
-				/** @description 不正な避難所IDが指定されました */
+				/** @description リクエスト内容が不正です */
 				400: {
 					headers: {
 						[name: string]: unknown;
@@ -822,8 +4247,8 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description データベースのクエリに失敗しました */
-				500: {
+				/** @description ログインが必要です */
+				401: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -831,57 +4256,17 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/**
-				 * @description 現在の状況ステータス
-				 * @enum {string|null}
-				 */
-				status: {
-					headers: {
-						[name: string]: unknown;
-					};
-					content?: never;
-				};
-			};
-		};
-		put?: never;
-		post?: never;
-		delete?: never;
-		options?: never;
-		head?: never;
-		patch?: never;
-		trace?: never;
-	};
-	"/shelters/{id}/posts": {
-		parameters: {
-			query?: never;
-			header?: never;
-			path?: never;
-			cookie?: never;
-		};
-		/** 指定した避難所の最新投稿を取得 */
-		get: {
-			parameters: {
-				query?: never;
-				header?: never;
-				path: {
-					/** @description 避難所ID */
-					id: number;
-				};
-				cookie?: never;
-			};
-			requestBody?: never;
-			responses: {
-				/** @description 最新の投稿一覧を取得しました */
-				200: {
+				/** @description 権限がありません */
+				403: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["ShelterPostsResponse"];
+						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description 不正な避難所IDが指定されました */
-				400: {
+				/** @description 対象の投稿が見つかりません */
+				404: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -889,7 +4274,7 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description データベースのクエリに失敗しました */
+				/** @description サーバー側でエラーが発生しました */
 				500: {
 					headers: {
 						[name: string]: unknown;
@@ -900,48 +4285,69 @@ export interface paths {
 				};
 			};
 		};
-		put?: never;
-		post?: never;
 		delete?: never;
 		options?: never;
 		head?: never;
 		patch?: never;
 		trace?: never;
 	};
-	"/posts/{id}/comments": {
+	"/posts/{id}/comments/{commentId}": {
 		parameters: {
 			query?: never;
 			header?: never;
 			path?: never;
 			cookie?: never;
 		};
-		/** 投稿に紐づくコメント一覧を取得 */
-		get: {
+		get?: never;
+		put?: never;
+		post?: never;
+		/**
+		 * コメントを削除
+		 * @description コメントを論理削除します。
+		 */
+		delete: {
 			parameters: {
-				query?: {
-					/** @description フリーチャット投稿の場合は `true` を指定し、関連コメント取得をスキップします */
-					isFreeChat?: boolean;
-				};
+				query?: never;
 				header?: never;
 				path: {
-					/** @description 対象の投稿ID */
+					/** @description 投稿ID */
 					id: string;
+					/** @description コメントID */
+					commentId: string;
 				};
 				cookie?: never;
 			};
 			requestBody?: never;
 			responses: {
-				/** @description コメント一覧を取得しました */
+				/** @description コメントを削除しました */
 				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["PostCommentsResponse"];
+						"application/json": components["schemas"]["OkResponse"];
 					};
 				};
-				/** @description リクエスト内容が不正です */
-				400: {
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description コメントが見つかりません */
+				404: {
 					headers: {
 						[name: string]: unknown;
 					};
@@ -960,31 +4366,37 @@ export interface paths {
 				};
 			};
 		};
-		put?: never;
-		/** コメントを新規投稿 */
-		post: {
+		options?: never;
+		head?: never;
+		/**
+		 * コメントを編集
+		 * @description コメントの本文・ステータスを更新します。対応中・対応済みへの変更は職員・本部管理者のみ可能です。
+		 */
+		patch: {
 			parameters: {
 				query?: never;
 				header?: never;
 				path: {
-					/** @description コメント対象の投稿ID */
+					/** @description 投稿ID */
 					id: string;
+					/** @description コメントID */
+					commentId: string;
 				};
 				cookie?: never;
 			};
 			requestBody: {
 				content: {
-					"application/json": components["schemas"]["CreateCommentRequest"];
+					"application/json": components["schemas"]["UpdateCommentRequest"];
 				};
 			};
 			responses: {
-				/** @description コメントを作成しました */
-				201: {
+				/** @description コメントを更新しました */
+				200: {
 					headers: {
 						[name: string]: unknown;
 					};
 					content: {
-						"application/json": components["schemas"]["CreateCommentResponse"];
+						"application/json": components["schemas"]["UpdateCommentResponse"];
 					};
 				};
 				/** @description リクエスト内容が不正です */
@@ -996,7 +4408,25 @@ export interface paths {
 						"application/json": components["schemas"]["ErrorResponse"];
 					};
 				};
-				/** @description 対象の投稿が見つかりません */
+				/** @description ログインが必要です */
+				401: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description 権限がありません */
+				403: {
+					headers: {
+						[name: string]: unknown;
+					};
+					content: {
+						"application/json": components["schemas"]["ErrorResponse"];
+					};
+				};
+				/** @description コメントが見つかりません */
 				404: {
 					headers: {
 						[name: string]: unknown;
@@ -1016,10 +4446,6 @@ export interface paths {
 				};
 			};
 		};
-		delete?: never;
-		options?: never;
-		head?: never;
-		patch?: never;
 		trace?: never;
 	};
 }
@@ -1029,7 +4455,7 @@ export interface components {
 		CreatePostRequest: {
 			/** @description 投稿対象の避難所ID */
 			shelterId: number;
-			/** @description 投稿者の表示名 */
+			/** @description 投稿者の表示名（ログイン中はアカウントの表示名を使う） */
 			authorName: string;
 			/** @description 投稿本文 */
 			content?: string | null;
@@ -1099,6 +4525,8 @@ export interface components {
 			shelterName?: string;
 			/** @description 投稿者の表示名 */
 			authorName: string;
+			/** @description 投稿したアカウントのID（ログインせずに投稿したもの・同期で受信したものはnull） */
+			authorStaffId: number | null;
 			/** @description 投稿本文 */
 			content?: string | null;
 			/**
@@ -1131,7 +4559,7 @@ export interface components {
 			message: string;
 		};
 		CreateCommentRequest: {
-			/** @description コメント投稿者の表示名 */
+			/** @description コメント投稿者の表示名（ログイン中はアカウントの表示名を使う） */
 			authorName: string;
 			/** @description コメント本文 */
 			content: string;
@@ -1168,18 +4596,69 @@ export interface components {
 			id: string;
 			/** @description コメント投稿者の表示名 */
 			authorName: string;
+			/** @description コメントしたアカウントのID（ログインせずにコメントしたもの・同期で受信したものはnull） */
+			authorStaffId: number | null;
+			/** @description コメント本文 */
+			content: string;
+			/**
+			 * Format: date-time
+			 * @description コメントの作成時刻
+			 */
+			createdAt: string;
+			/**
+			 * @description コメントに紐づく状況ステータス
+			 * @enum {string|null}
+			 */
+			status?: "未対応" | "対応中" | "対応済み" | null;
+		};
+		UpdatePostRequest: {
+			/** @description 投稿本文 */
+			content?: string | null;
+			/**
+			 * @description 現在の状況ステータス
+			 * @enum {string|null}
+			 */
+			status?: "緊急" | "重要" | "通常" | null;
+		};
+		UpdatePostResponse: {
+			post: {
+				/** @description 投稿ID */
+				id: string;
+				/** @description 投稿先の避難所ID */
+				shelterId: number;
+				/** @description 投稿者の表示名 */
+				authorName: string;
+				/** @description 投稿本文 */
+				content: string | null;
+				/**
+				 * @description 現在の状況ステータス
+				 * @enum {string|null}
+				 */
+				status: "緊急" | "重要" | "通常" | null;
+				/**
+				 * Format: date-time
+				 * @description 最終更新日時
+				 */
+				updatedAt: string;
+			};
+		};
+		UpdateCommentRequest: {
 			/** @description コメント本文 */
-			content: string;
-			/**
-			 * Format: date-time
-			 * @description コメントの作成時刻
-			 */
-			createdAt: string;
+			content?: string;
 			/**
 			 * @description コメントに紐づく状況ステータス
-			 * @enum {string|null}
+			 * @enum {string}
 			 */
-			status?: "未対応" | "対応中" | "対応済み" | null;
+			status?: "未対応" | "対応中" | "対応済み";
+		};
+		UpdateCommentResponse: {
+			comment: components["schemas"]["PostComment"] & {
+				/**
+				 * Format: date-time
+				 * @description 最終更新日時
+				 */
+				updatedAt: string;
+			};
 		};
 		PostCommentsResponse: {
 			/** @description 対象の投稿ID */
@@ -1208,7 +4687,15 @@ export interface components {
 			latitude?: number | null;
 			/** Format: float */
 			longitude?: number | null;
+			/** @description 収容可能人数 */
+			capacity?: number | null;
+			status: components["schemas"]["ShelterStatus"];
 		};
+		/**
+		 * @description 避難所の開設状況
+		 * @enum {string}
+		 */
+		ShelterStatus: "open" | "closed";
 		ShelterDetails: {
 			id: number;
 			name: string;
@@ -1217,12 +4704,179 @@ export interface components {
 			latitude: number;
 			/** Format: float */
 			longitude: number;
+			/** @description 収容可能人数 */
+			capacity: number | null;
+			/** @description 開設時間 */
+			opening_hours: string | null;
+			status: components["schemas"]["ShelterStatus"];
+			/**
+			 * Format: date-time
+			 * @description 閉鎖日時（開設中はnull）
+			 */
+			closed_at: string | null;
 			/** Format: date-time */
 			created_at: string;
+			/** Format: date-time */
+			updated_at: string;
+		};
+		/** @description 避難所の更新内容（指定した項目のみ更新） */
+		ShelterUpdateRequest: {
+			name?: string;
+			address?: string | null;
+			/** Format: float */
+			latitude?: number;
+			/** Format: float */
+			longitude?: number;
+			capacity?: number | null;
+			/** @description 開設時間（例：24時間、8:00-20:00） */
+			openingHours?: string | null;
+		};
+		CreateShelterRequest: components["schemas"]["ShelterUpdateRequest"] &
+			Record<string, never>;
+		ShelterStats: {
+			shelterId: number;
+			/** @description 収容可能人数 */
+			capacity: number | null;
+			/** @description 最新の避難者数（未記録の場合はnull） */
+			headcount: number | null;
+			/**
+			 * Format: float
+			 * @description 収容率（%）。収容可能人数または避難者数が未登録の場合はnull
+			 */
+			occupancyPercent: number | null;
+			/**
+			 * Format: date-time
+			 * @description 避難者数の最終記録日時
+			 */
+			lastUpdatedAt: string | null;
+			/** @description 対応が完了していない報告の件数 */
+			activeReports: number;
+			/** @description 対応が完了していない緊急報告の件数 */
+			urgentReports: number;
+		};
+		ShelterStatsResponse: {
+			stats: components["schemas"]["ShelterStats"][];
+		};
+		OccupancyRecord: {
+			id: string;
+			shelterId: number;
+			headcount: number;
+			/** Format: date-time */
+			recordedAt: string;
+			/** @description 記録したスタッフの表示名 */
+			recordedBy: string | null;
+		};
+		OccupancyHistoryResponse: {
+			shelterId: number;
+			history: components["schemas"]["OccupancyRecord"][];
+		};
+		RecordOccupancyRequest: {
+			/** @description 現在の避難者数 */
+			headcount: number;
+		};
+		InventoryItem: {
+			id: string;
+			shelterId: number;
+			/** @description 品目名 */
+			name: string;
+			/** @description 単位（例：枚、本、箱） */
+			unit: string;
+			/** @description 現在庫 */
+			quantity: number;
+			/** @description 最低在庫数 */
+			minQuantity: number;
+			/** @description 現在庫が最低在庫数を下回っているか */
+			isShortage: boolean;
+			/** Format: date-time */
+			createdAt: string;
+			/** Format: date-time */
+			updatedAt: string;
+		};
+		InventoryListResponse: {
+			shelterId: number;
+			items: components["schemas"]["InventoryItem"][];
+			/** @description 不足している品目数 */
+			shortageCount: number;
+		};
+		/** @description 在庫品目の更新内容（指定した項目のみ更新） */
+		InventoryItemUpdateRequest: {
+			name?: string;
+			unit?: string;
+			minQuantity?: number;
+		};
+		CreateInventoryItemRequest: components["schemas"]["InventoryItemUpdateRequest"] & {
+			/** @description 初期在庫（入庫として記録） */
+			initialQuantity?: number;
+		};
+		StockTransactionRequest: {
+			/**
+			 * @description in=入庫、out=出庫
+			 * @enum {string}
+			 */
+			transactionType: "in" | "out";
+			quantity: number;
+			/** @description メモ（搬入元・配布先など） */
+			note?: string | null;
+		};
+		InventoryTransaction: {
+			id: string;
+			itemId: string;
+			shelterId: number;
+			/** @enum {string} */
+			transactionType: "in" | "out";
+			quantity: number;
+			note: string | null;
+			recordedBy: string | null;
+			/** Format: date-time */
+			createdAt: string;
+		};
+		InventoryTransactionsResponse: {
+			itemId: string;
+			transactions: components["schemas"]["InventoryTransaction"][];
 		};
 		ShelterPostsResponse: {
 			shelterId: number;
 			posts: components["schemas"]["ShelterPost"][];
+			/** @description 絞り込み条件に一致する投稿の総数 */
+			totalCount: number;
+			/** @description 次のページを取得するカーソル（最後のページの場合は null） */
+			nextCursor: string | null;
+			/** @description 次のページがあるか */
+			hasMore: boolean;
+		};
+		SearchResponse: {
+			query: string;
+			/** @description 検索に使った語（一致箇所の強調表示に使う） */
+			terms: string[];
+			results: components["schemas"]["SearchHit"][];
+			/** @description limit を超える一致があるか */
+			hasMore: boolean;
+		};
+		SearchHit: {
+			/** @enum {string} */
+			recordType: "post" | "comment";
+			recordId: string;
+			content: string | null;
+			authorName: string;
+			/**
+			 * Format: date-time
+			 * @description 投稿日時（コメントは作成日時）
+			 */
+			createdAt: string;
+			/** @description 一致した投稿（コメントの場合は投稿先の投稿） */
+			post: {
+				id: string;
+				shelterId: number;
+				shelterName: string;
+				address: string | null;
+				authorName: string;
+				content: string | null;
+				/** @enum {string|null} */
+				status: "緊急" | "重要" | "通常" | null;
+				/** Format: date-time */
+				postedAt: string;
+				isFreeChat: boolean;
+			};
 		};
 		ShelterPost: {
 			id: string;
@@ -1237,6 +4891,13 @@ export interface components {
 			 * @enum {string|null}
 			 */
 			status?: "緊急" | "重要" | "通常" | null;
+			/** @description フリーチャット投稿か */
+			is_free_chat: boolean;
+			/**
+			 * @description 最新コメントの対応状況（コメントが無い場合は未対応）
+			 * @enum {string|null}
+			 */
+			comment_status: "未対応" | "対応中" | "対応済み" | null;
 		};
 		/** @description Yahoo!地図API 逆ジオコーダのレスポンス（Feature 配列）。 */
 		ReverseGeocoderResponse: {
@@ -1281,6 +4942,150 @@ export interface components {
 		ErrorResponse: {
 			error: string;
 		};
+		SyncNode: {
+			nodeId: string;
+			name: string;
+			/** Format: date-time */
+			createdAt: string;
+			/**
+			 * Format: date-time
+			 * @description 最後に署名検証に成功した日時
+			 */
+			lastSeenAt: string | null;
+			/** Format: date-time */
+			revokedAt: string | null;
+		};
+		SyncNodesResponse: {
+			nodes: components["schemas"]["SyncNode"][];
+		};
+		CreateSyncNodeRequest: {
+			/** @description ノード識別子（SYNC_NODE_ID に設定する値） */
+			nodeId: string;
+			/** @description 表示名（例：A小学校） */
+			name: string;
+		};
+		CreateSyncNodeResponse: {
+			node: components["schemas"]["SyncNode"];
+			/** @description 署名用の共有鍵（hex）。再表示はできません */
+			sharedSecret: string;
+		};
+		/**
+		 * @description スタッフの権限
+		 *     - evacuee: 避難者（投稿・コメントのみ）
+		 *     - shelter_staff: 避難所職員（対応状況の更新・同期操作）
+		 *     - hq_admin: 本部管理者（全操作・アカウント管理）
+		 * @enum {string}
+		 */
+		StaffRole: "evacuee" | "shelter_staff" | "hq_admin";
+		StaffAccount: {
+			id: number;
+			loginId: string;
+			displayName: string;
+			role: components["schemas"]["StaffRole"];
+			/** @description 所属避難所ID（本部管理者はnull） */
+			shelterId: number | null;
+		};
+		LoginRequest: {
+			loginId: string;
+			password: string;
+		};
+		LoginResponse: {
+			/** @description Authorization ヘッダーに `Bearer <token>` として付与するトークン */
+			token: string;
+			/** Format: date-time */
+			expiresAt: string;
+			staff: components["schemas"]["StaffAccount"];
+		};
+		CreateStaffRequest: {
+			loginId: string;
+			displayName: string;
+			password: string;
+			role: components["schemas"]["StaffRole"];
+			shelterId?: number | null;
+		};
+		/** @description 避難所ごとの送信内容 */
+		SyncPreviewShelter: {
+			shelterId: number;
+			shelterName: string | null;
+			posts: number;
+			comments: number;
+			locationTracks: number;
+			/** @description メディア件数（レコードまたはファイル本体を送信するもの） */
+			media: number;
+			occupancy: number;
+			inventoryItems: number;
+			inventoryTransactions: number;
+			/** @description 同期データ（JSON）の推定バイト数 */
+			recordBytes: number;
+			/** @description 送信するメディアファイル本体のバイト数 */
+			mediaBytes: number;
+		};
+		/** @description 送信対象外の避難所のため送らない未同期データの件数 */
+		SyncOutOfScopeShelter: {
+			/** @description 避難所ID（投稿が手元にないコメント等はnull） */
+			shelterId: number | null;
+			shelterName: string | null;
+			posts: number;
+			comments: number;
+			locationTracks: number;
+			/** @description 送らないメディアファイル数 */
+			media: number;
+			occupancy: number;
+			inventoryItems: number;
+			inventoryTransactions: number;
+		};
+		/** @description Push で送信される内容 */
+		SyncPushPreview: {
+			shelters: components["schemas"]["SyncPreviewShelter"][];
+			posts: number;
+			comments: number;
+			locationTracks: number;
+			/** @description 同期データに含めるメディアレコード件数 */
+			media: number;
+			occupancy: number;
+			inventoryItems: number;
+			inventoryTransactions: number;
+			/** @description 分割送信のバッチ数 */
+			batches: number;
+			/** @description 全バッチの同期データ（JSON）の推定バイト数 */
+			recordBytes: number;
+			/** @description /api/sync/media で送信するメディアファイル数 */
+			mediaFiles: number;
+			/** @description 送信するメディアファイル本体の合計バイト数 */
+			mediaBytes: number;
+			/** @description ローカルR2にファイル本体が見つからないメディア数 */
+			missingMediaFiles: number;
+			/** @description 送信対象の避難所ID（nullの場合は全避難所） */
+			scopeShelterIds: number[] | null;
+			/** @description 送信対象外のため送らない未同期データ */
+			outOfScope: components["schemas"]["SyncOutOfScopeShelter"][];
+		};
+		/** @description 差分Pullで次に取得される内容（1ページ分） */
+		SyncPullPreview: {
+			/** @description 同期先から取得できたかどうか */
+			available: boolean;
+			/** @description 取得できなかった場合のエラー */
+			error?: string | null;
+			shelters: number;
+			posts: number;
+			comments: number;
+			locationTracks: number;
+			media: number;
+			inventoryItems: number;
+			inventoryTransactions: number;
+			/** @description 続きのページがあるかどうか */
+			hasMore: boolean;
+			/** @description 同期先の応答のバイト数（圧縮して返された場合は圧縮後の大きさ。メディアファイル本体を除く） */
+			responseBytes: number;
+		};
+		/** @description 同期内容のプレビュー */
+		SyncPreviewResponse: {
+			/** Format: date-time */
+			generatedAt: string;
+			push: components["schemas"]["SyncPushPreview"];
+			/** @description 差分Pullのプレビュー（targetUrl と避難所IDを指定した場合のみ） */
+			pull: components["schemas"]["SyncPullPreview"] | null;
+		};
 		/** @description 同期ステータスのレスポンス */
 		SyncStatusResponse: {
 			/** @description 未同期の投稿数 */
@@ -1301,9 +5106,12 @@ export interface components {
 		};
 		/** @description 同期実行リクエスト */
 		SyncExecuteRequest: {
-			/** @description 同期先のAPI URL */
+			/** @description 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
 			targetUrl: string;
-			/** @description 避難所ID（オプション） */
+			/**
+			 * @description 避難所ID（オプション）。指定した場合はこの避難所の未同期データのみ送信します。
+			 *     未指定の場合はノードに設定した SYNC_SHELTER_IDS の避難所（未設定なら全避難所）が対象です
+			 */
 			shelterId?: number | null;
 		};
 		/** @description 同期実行レスポンス */
@@ -1318,11 +5126,86 @@ export interface components {
 			locationTracksSynced: number;
 			/** @description 同期したメディア件数 */
 			mediaSynced: number;
+			/** @description 双方で変更されていたため競合として保存した件数 */
+			conflictsDetected?: number;
+			/** @description 受信が確認できたバッチ数（前回から再開した場合は前回分を含む） */
+			batchesCompleted?: number;
+			/** @description 分割送信のバッチ総数 */
+			batchesTotal?: number;
+			/** @description 送信対象の避難所ID（nullの場合は全避難所） */
+			scopeShelterIds?: number[] | null;
+			/** @description 送信対象外のため送らなかった未同期データ（未同期のまま残ります） */
+			outOfScope?: components["schemas"]["SyncOutOfScopeShelter"][];
 			/** @description 追加のメッセージ */
 			message?: string | null;
 			/** @description エラーメッセージ（失敗時） */
 			error?: string | null;
 		};
+		/** @description 同期先の登録・更新（更新時は指定した項目のみ変更） */
+		SyncTargetRequest: {
+			/** @description 表示名（例：県本部） */
+			name?: string;
+			/** @description 同期先のURL */
+			url?: string;
+			/** @description 変更ログを転送するか（既定値 true） */
+			pushEnabled?: boolean;
+			/** @description 差分Pullする避難所ID（区全体を取得する場合は区内の避難所をすべて指定。既定値は空でPullしない） */
+			pullShelterIds?: number[];
+			/** @description 定期同期の間隔（分。既定値 15） */
+			intervalMinutes?: number;
+			/** @description 定期同期の対象にするか（既定値 true） */
+			enabled?: boolean;
+			/** @description 低帯域の回線か（差分Pullで取得する画像を縮小する。既定値 false） */
+			lowBandwidth?: boolean;
+		};
+		/** @description 同期先の設定と状態 */
+		SyncTargetItem: {
+			id: number;
+			name: string;
+			url: string;
+			pushEnabled: boolean;
+			pullShelterIds: number[];
+			intervalMinutes: number;
+			enabled: boolean;
+			/** @description 低帯域の回線か（差分Pullで取得する画像を縮小する） */
+			lowBandwidth: boolean;
+			/** Format: date-time */
+			lastRunAt: string | null;
+			/** Format: date-time */
+			lastSuccessAt: string | null;
+			/** @description 直近の失敗理由（成功するとnull） */
+			lastError: string | null;
+			/** @description 連続失敗回数 */
+			consecutiveFailures: number;
+			/**
+			 * @description 同期先の状態
+			 * @enum {string}
+			 */
+			health: "healthy" | "stale" | "failing" | "pending" | "disabled";
+			/** Format: date-time */
+			createdAt: string;
+			/** Format: date-time */
+			updatedAt: string;
+		};
+		SyncTargetListResponse: {
+			targets: components["schemas"]["SyncTargetItem"][];
+		};
+		/** @description ノードが扱える同期プロトコルのバージョン範囲 */
+		SyncHandshakeResponse: {
+			/** @description 応答したノードのID */
+			nodeId: string | null;
+			/** @description 扱える最新のバージョン */
+			protocolVersion: number;
+			/** @description 受け入れ可能な最も古いバージョン */
+			minProtocolVersion: number;
+			/**
+			 * @description 受け取れる本文の圧縮方式（例：gzip）。送信側は X-Sync-Content-Encoding ヘッダーで圧縮方式を示して本文を圧縮できます。
+			 *     圧縮に対応する前のノードは返しません。
+			 */
+			contentEncodings?: string[];
+			/** Format: date-time */
+			serverTime: string;
+		};
 		/** @description 差分Pullのレスポンス */
 		SyncPullResponse: {
 			/**
@@ -1330,6 +5213,8 @@ export interface components {
 			 * @description 本番サーバーの現在時刻
 			 */
 			serverTime: string;
+			/** @description 差分避難所データ（全避難所が対象） */
+			shelters?: components["schemas"]["SyncShelter"][];
 			/** @description 差分投稿データ */
 			posts: components["schemas"]["UnsyncedPost"][];
 			/** @description 差分コメントデータ */
@@ -1338,10 +5223,24 @@ export interface components {
 			locationTracks: components["schemas"]["UnsyncedLocationTrack"][];
 			/** @description 差分メディアデータ */
 			media: components["schemas"]["UnsyncedMedia"][];
+			/** @description 差分在庫品目データ */
+			inventoryItems?: components["schemas"]["UnsyncedInventoryItem"][];
+			/** @description 差分入出庫履歴データ */
+			inventoryTransactions?: components["schemas"]["UnsyncedInventoryTransaction"][];
+			/** @description このページで読み終えた変更ログ seq（cursor 指定時のみ） */
+			nextCursor?: number;
+			/** @description 続きのページがあるかどうか（cursor 指定時のみ） */
+			hasMore?: boolean;
+			/** @description 応答したノードが中継ノード（上流の本番へ転送する避難所ノード）かどうか */
+			relayNode?: boolean;
+			/** @description 応答したノードのID（作成元ノードの引き継ぎに使用） */
+			nodeId?: string | null;
+			/** @description レスポンスの同期プロトコルのバージョン（取得側が指定したバージョンと応答側の最新の小さい方。未指定は旧形式の 1） */
+			protocolVersion?: number;
 		};
 		/** @description 差分Pull実行リクエスト */
 		SyncPullExecuteRequest: {
-			/** @description 同期先のAPI URL */
+			/** @description 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
 			targetUrl: string;
 			/** @description 避難所ID（オプション） */
 			shelterId?: number | null;
@@ -1350,6 +5249,8 @@ export interface components {
 		SyncPullExecuteResponse: {
 			/** @description 同期が成功したかどうか */
 			success: boolean;
+			/** @description 取得した避難所数 */
+			sheltersPulled: number;
 			/** @description 取得した投稿数 */
 			postsPulled: number;
 			/** @description 取得したコメント数 */
@@ -1358,6 +5259,10 @@ export interface components {
 			locationTracksPulled: number;
 			/** @description 取得したメディア件数 */
 			mediaPulled: number;
+			/** @description 取得した在庫品目数 */
+			inventoryItemsPulled: number;
+			/** @description 新たに反映した入出庫履歴数 */
+			inventoryTransactionsPulled: number;
 			/** @description 同期したメディアファイル数 */
 			mediaSynced: number;
 			/** @description 同期に失敗したメディアファイル数 */
@@ -1367,6 +5272,12 @@ export interface components {
 			 * @description 最終Pull時刻
 			 */
 			lastPulledAt: string;
+			/** @description 双方で変更されていたため競合として保存した件数 */
+			conflictsDetected?: number;
+			/** @description 取り込み済みの変更ログ seq */
+			changeCursor?: number;
+			/** @description 1回の実行で取得できるページ数を超えたため、未取得の変更が残っているかどうか */
+			hasMore?: boolean;
 			/** @description エラーメッセージ（失敗時） */
 			error?: string | null;
 		};
@@ -1379,6 +5290,55 @@ export interface components {
 			/** @description エラーメッセージ */
 			error: string;
 		};
+		SyncJobStartRequest: {
+			/** @description 同期先のURL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
+			targetUrl: string;
+			/** @description 避難所ID（同期ログの記録用） */
+			shelterId?: number;
+		};
+		SyncJobStartResponse: {
+			/** @description 同期ジョブID（進捗の取得に使用） */
+			jobId: number;
+		};
+		/** @description 同期ジョブの進捗 */
+		SyncJobStatus: {
+			/** @description 同期ジョブID */
+			jobId: number;
+			/**
+			 * @description ジョブの状態
+			 * @enum {string}
+			 */
+			status: "in_progress" | "completed" | "failed";
+			/**
+			 * @description 実行中（失敗時は失敗した）段階
+			 * @enum {string}
+			 */
+			phase: "media" | "data" | "completed";
+			/** @description 進捗率（メディアファイル1件とデータ1バッチを同じ重みとして計算） */
+			progress: number;
+			/** @description 送信するメディアファイル数 */
+			mediaFilesTotal: number;
+			/** @description 送信が完了したメディアファイル数 */
+			mediaFilesCompleted: number;
+			/** @description 送信に失敗したメディアファイル数（再試行キューに入る） */
+			mediaFilesFailed: number;
+			/** @description 送信対象外の避難所のため送らなかった未同期データ数 */
+			outOfScopeRecords: number;
+			/** @description データ送信のバッチ総数（データ段階に入るまでは0） */
+			batchesTotal: number;
+			/** @description 受信が確認できたバッチ数 */
+			batchesCompleted: number;
+			postsSynced: number;
+			commentsSynced: number;
+			locationTracksSynced: number;
+			/** @description 同期されたメディアのレコード件数 */
+			mediaSynced: number;
+			errorMessage: string | null;
+			/** Format: date-time */
+			startedAt: string;
+			/** Format: date-time */
+			completedAt: string | null;
+		};
 		/** @description メディア同期レスポンス */
 		SyncMediaResponse: {
 			/** @description 同期が成功したかどうか */
@@ -1389,13 +5349,45 @@ export interface components {
 			mediaSynced: number;
 			/** @description 失敗件数 */
 			failed: number;
+			/** @description 前回失敗し、再試行時刻に達していないため今回は送らなかった件数 */
+			waiting?: number;
 			/** @description 失敗詳細 */
 			errors?: components["schemas"]["SyncMediaError"][];
 		};
 		/** @description メディア同期実行リクエスト */
 		SyncMediaExecuteRequest: {
-			/** @description 同期先のAPI URL */
+			/** @description 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
+			targetUrl: string;
+			/** @description 避難所ID（オプション。指定した場合はこの避難所の投稿のメディアのみ送信） */
+			shelterId?: number | null;
+		};
+		/** @description メディア転送の再試行 */
+		MediaSyncRetry: {
+			mediaId: string;
+			/**
+			 * @description push（ローカル → 同期先）, pull（同期先 → ローカル）, pull_original（縮小版だけ取得した画像の元ファイル。低帯域でない回線での差分Pullで取得する）
+			 * @enum {string}
+			 */
+			direction: "push" | "pull" | "pull_original";
 			targetUrl: string;
+			filePath: string;
+			/** @description 失敗した回数 */
+			attempts: number;
+			lastError: string | null;
+			/**
+			 * Format: date-time
+			 * @description この時刻以降の同期で再試行する
+			 */
+			nextAttemptAt: string;
+			/** Format: date-time */
+			updatedAt: string;
+		};
+		MediaSyncRetryListResponse: {
+			retries: components["schemas"]["MediaSyncRetry"][];
+		};
+		MediaSyncRetryNowResponse: {
+			/** @description 再試行時刻を更新した件数 */
+			rescheduled: number;
 		};
 		/** @description メディア受信リクエスト */
 		SyncMediaReceiveRequest: {
@@ -1403,6 +5395,8 @@ export interface components {
 			filePath: string;
 			/** @description コンテンツタイプ */
 			contentType?: string;
+			/** @description ファイル本体のSHA-256（16進数）。一致しない場合は保存せず 422 を返す */
+			sha256?: string;
 			/**
 			 * Format: binary
 			 * @description メディアファイル本体
@@ -1424,8 +5418,16 @@ export interface components {
 			locationTracks: components["schemas"]["UnsyncedLocationTrack"][];
 			/** @description 同期するメディアデータ */
 			media: components["schemas"]["UnsyncedMedia"][];
+			/** @description 同期する避難者数の記録 */
+			occupancy?: components["schemas"]["UnsyncedOccupancy"][];
+			/** @description 同期する在庫品目 */
+			inventoryItems?: components["schemas"]["UnsyncedInventoryItem"][];
+			/** @description 同期する入出庫履歴 */
+			inventoryTransactions?: components["schemas"]["UnsyncedInventoryTransaction"][];
 			/** @description 同期元のURL */
 			sourceUrl?: string | null;
+			/** @description ペイロードを生成した同期プロトコルのバージョン（未指定は旧形式の 1 として扱う） */
+			protocolVersion?: number;
 		};
 		/** @description 同期データ受信レスポンス */
 		SyncReceiveResponse: {
@@ -1439,11 +5441,49 @@ export interface components {
 			locationTracksSynced: number;
 			/** @description 保存したメディア件数 */
 			mediaSynced: number;
+			/** @description 双方で変更されていたため競合として保存した件数 */
+			conflictsDetected?: number;
 			/** @description 避難所ごとの同期結果 */
 			shelterResults?: components["schemas"]["ShelterSyncResult"][];
 			/** @description エラーメッセージ（失敗時） */
 			error?: string | null;
 		};
+		/** @description USBメモリ等で持ち運ぶ同期バンドル。manifest・payload は署名・チェックサムの対象のため、JSON文字列のまま保持します。 */
+		SyncBundle: {
+			/**
+			 * @description ファイル形式
+			 * @enum {string}
+			 */
+			format: "team2-sync-bundle";
+			/** @description バンドル形式のバージョン */
+			version: number;
+			/** @description マニフェスト（bundleId, nodeId, shelterId, createdAt, counts, payloadSha256, mediaFiles）のJSON文字列 */
+			manifest: string;
+			/** @description manifest に対する作成元ノードの共有鍵によるHMAC-SHA256署名（16進数） */
+			signature: string;
+			/** @description 同期データ（SyncReceiveRequest と同じ形式）のJSON文字列 */
+			payload: string;
+			/** @description R2のメディアファイル本体 */
+			media: {
+				/** @description R2のキー */
+				filePath: string;
+				/** @description ファイル本体（Base64） */
+				data: string;
+			}[];
+		};
+		SyncBundleImportResponse: components["schemas"]["SyncReceiveResponse"] & {
+			/** @description 取り込んだバンドルのID */
+			bundleId: string;
+			/** @description バンドルを作成したノードID */
+			sourceNodeId: string;
+			/**
+			 * Format: date-time
+			 * @description バンドルの作成日時
+			 */
+			bundleCreatedAt: string;
+			/** @description R2に保存したメディアファイル数 */
+			mediaFilesStored: number;
+		};
 		/** @description 避難所ごとの同期結果 */
 		ShelterSyncResult: {
 			/** @description 避難所ID */
@@ -1456,9 +5496,26 @@ export interface components {
 			commentsSynced: number;
 			/** @description この避難所で保存した位置情報トラック数 */
 			locationTracksSynced: number;
+			/** @description この避難所で競合として保存した件数 */
+			conflictsDetected?: number;
 			/** @description エラーメッセージ（この避難所の同期が失敗した場合） */
 			errorMessage?: string | null;
 		};
+		/** @description 差分Pullで配信する避難所データ */
+		SyncShelter: {
+			id: number;
+			name: string;
+			address?: string | null;
+			latitude?: number | null;
+			longitude?: number | null;
+			capacity?: number | null;
+			opening_hours?: string | null;
+			/** @description open または closed */
+			status: string;
+			closed_at?: string | null;
+			created_at: string;
+			updated_at: string;
+		};
 		/** @description 未同期の投稿データ */
 		UnsyncedPost: {
 			id: string;
@@ -1477,6 +5534,18 @@ export interface components {
 			updated_at: string;
 			is_free_chat: number;
 			status?: string | null;
+			/**
+			 * Format: date-time
+			 * @description 論理削除日時（削除の墓標。更新は updated_at の新しい方を採用）
+			 */
+			deleted_at?: string | null;
+			/**
+			 * Format: date-time
+			 * @description 送信元が最後に同期相手と一致させた版の updated_at（競合検出に使用）
+			 */
+			base_updated_at?: string | null;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
 		};
 		/** @description 未同期のコメントデータ */
 		UnsyncedComment: {
@@ -1489,6 +5558,18 @@ export interface components {
 			created_at: string;
 			/** Format: date-time */
 			updated_at: string;
+			/**
+			 * Format: date-time
+			 * @description 論理削除日時（削除の墓標。更新は updated_at の新しい方を採用）
+			 */
+			deleted_at?: string | null;
+			/**
+			 * Format: date-time
+			 * @description 送信元が最後に同期相手と一致させた版の updated_at（競合検出に使用）
+			 */
+			base_updated_at?: string | null;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
 		};
 		/** @description 未同期の位置情報トラックデータ */
 		UnsyncedLocationTrack: {
@@ -1504,6 +5585,61 @@ export interface components {
 			created_at: string;
 			/** Format: date-time */
 			updated_at: string;
+			/**
+			 * Format: date-time
+			 * @description 論理削除日時（削除の墓標。更新は updated_at の新しい方を採用）
+			 */
+			deleted_at?: string | null;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
+		};
+		/** @description 未同期の避難者数記録 */
+		UnsyncedOccupancy: {
+			id: string;
+			shelter_id: number;
+			headcount: number;
+			/** Format: date-time */
+			recorded_at: string;
+			recorded_by: string | null;
+			/** Format: date-time */
+			created_at: string;
+			/** Format: date-time */
+			updated_at: string;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
+		};
+		/** @description 未同期の在庫品目（現在庫は入出庫履歴から再計算するため含まない） */
+		UnsyncedInventoryItem: {
+			id: string;
+			shelter_id: number;
+			name: string;
+			unit: string;
+			min_quantity: number;
+			/** Format: date-time */
+			created_at: string;
+			/** Format: date-time */
+			updated_at: string;
+			/** Format: date-time */
+			deleted_at?: string | null;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
+		};
+		/** @description 未同期の入出庫履歴 */
+		UnsyncedInventoryTransaction: {
+			id: string;
+			item_id: string;
+			shelter_id: number;
+			/** @enum {string} */
+			transaction_type: "in" | "out";
+			quantity: number;
+			note?: string | null;
+			recorded_by?: string | null;
+			/** Format: date-time */
+			created_at: string;
+			/** Format: date-time */
+			updated_at: string;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
 		};
 		/** @description 未同期のメディアデータ */
 		UnsyncedMedia: {
@@ -1518,6 +5654,150 @@ export interface components {
 			updated_at: string;
 			/** Format: date-time */
 			deleted_at?: string | null;
+			/** @description 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull） */
+			origin_node_id?: string | null;
+			/** @description ファイル本体のSHA-256（16進数。記録前のメディアはnull） */
+			sha256?: string | null;
+		};
+		/** @description 同期競合（手元と同期相手の両方で変更されたレコード） */
+		SyncConflict: {
+			/** @description 競合ID */
+			id: string;
+			/**
+			 * @description 対象テーブル
+			 * @enum {string}
+			 */
+			tableName: "posts" | "comments";
+			/** @description 対象レコードID */
+			recordId: string;
+			/** @description 避難所ID */
+			shelterId: number | null;
+			/**
+			 * @description 検出した同期方向（push は受信時、pull は差分Pull時）
+			 * @enum {string}
+			 */
+			source: "push" | "pull";
+			/** @description 検出時点の手元のレコード */
+			localData: {
+				[key: string]: unknown;
+			};
+			/** @description 同期相手から届いたレコード */
+			remoteData: {
+				[key: string]: unknown;
+			};
+			/**
+			 * Format: date-time
+			 * @description 検出日時
+			 */
+			detectedAt: string;
+			/**
+			 * Format: date-time
+			 * @description 解決日時
+			 */
+			resolvedAt: string | null;
+			/**
+			 * @description 解決方法（superseded は同期相手が手元の版を取り込んで更新したため自動解決）
+			 * @enum {string|null}
+			 */
+			resolution: "local" | "remote" | "merged" | "superseded" | null;
+			/** @description 解決したスタッフのログインID */
+			resolvedBy: string | null;
+		};
+		/** @description 同期競合一覧のレスポンス */
+		SyncConflictsResponse: {
+			conflicts: components["schemas"]["SyncConflict"][];
+		};
+		/** @description 同期競合の解決リクエスト */
+		ResolveSyncConflictRequest: {
+			/**
+			 * @description local（手元を採用）/ remote（同期相手を採用）/ merged（項目ごとに選択）
+			 * @enum {string}
+			 */
+			resolution: "local" | "remote" | "merged";
+			/** @description merged の場合に項目ごとに採用する版（未指定の項目は手元を採用） */
+			fields?: {
+				/** @enum {string} */
+				content?: "local" | "remote";
+				/** @enum {string} */
+				status?: "local" | "remote";
+				/** @enum {string} */
+				deleted_at?: "local" | "remote";
+			};
+		};
+		/** @description 同期に失敗した項目 */
+		SyncLogFailureItem: {
+			id: number;
+			/**
+			 * @description push（送信）/ pull（差分Pullでのメディア取得）
+			 * @enum {string}
+			 */
+			direction: "push" | "pull";
+			/** @enum {string} */
+			recordType:
+				| "post"
+				| "comment"
+				| "location_track"
+				| "occupancy"
+				| "inventory_item"
+				| "inventory_transaction"
+				| "media";
+			recordId: string;
+			/** @description 表示用（投稿の内容の先頭やメディアのファイルパス） */
+			label: string | null;
+			/** @description 失敗した理由 */
+			errorMessage: string;
+			/** Format: date-time */
+			createdAt: string;
+			/**
+			 * Format: date-time
+			 * @description 再試行した日時（未再試行はnull）
+			 */
+			retriedAt: string | null;
+			/** @description 再試行の結果を記録した同期ログID */
+			retryLogId: number | null;
+		};
+		/** @description 同期ログの詳細 */
+		SyncLogDetailResponse: {
+			log: components["schemas"]["SyncLogItem"];
+			failures: components["schemas"]["SyncLogFailureItem"][];
+			/** @description 未再試行の失敗項目があり、同期先に再試行できるかどうか */
+			retryable: boolean;
+		};
+		/** @description 避難所・日ごとに集計した同期の性能指標 */
+		SyncMetricsDay: {
+			/**
+			 * Format: date
+			 * @description 集計した日（UTC）
+			 */
+			date: string;
+			/** @description 避難所ID（避難所を指定しない同期はnull） */
+			shelterId: number | null;
+			shelterName: string | null;
+			/** @description 同期の回数 */
+			syncCount: number;
+			/** @description 失敗した同期の回数 */
+			failedCount: number;
+			/** @description 1回あたりの平均所要時間（ミリ秒。データとメディア転送の合計） */
+			avgDurationMs: number;
+			/** @description データの送信・取得にかかった時間の合計（ミリ秒） */
+			dataDurationMs: number;
+			/** @description メディアファイルの転送にかかった時間の合計（ミリ秒） */
+			mediaDurationMs: number;
+			/** @description 送受信したデータ本文のバイト数の合計 */
+			payloadBytes: number;
+			/** @description 送受信したメディアファイルのバイト数の合計 */
+			mediaBytes: number;
+			/** @description 同期先へのリクエスト数 */
+			upstreamRequests: number;
+			/** @description 同期先へのリクエストが応答するまでの平均時間（ミリ秒。リクエストしていない場合はnull） */
+			avgUpstreamLatencyMs: number | null;
+		};
+		/** @description 同期の性能指標の推移 */
+		SyncMetricsResponse: {
+			/** @description 集計した日数（今日を含む） */
+			days: number;
+			/** @description 避難所・日ごとの集計（新しい日付順） */
+			metrics: components["schemas"]["SyncMetricsDay"][];
 		};
 		/** @description 同期ログ一覧のレスポンス */
 		SyncLogsResponse: {
@@ -1540,7 +5820,7 @@ export interface components {
 			shelterId?: number | null;
 			/** @description 避難所名 */
 			shelterName?: string | null;
-			/** @description 同期タイプ（full, incremental, manual） */
+			/** @description 同期タイプ（full, incremental, manual, pull, received, bundle_export, bundle_import, scheduled, retry） */
 			syncType: string;
 			/** @description 同期ステータス（pending, in_progress, completed, failed） */
 			status: string;
@@ -1568,6 +5848,31 @@ export interface components {
 			errorMessage?: string | null;
 			/** @description 同期先URL */
 			targetUrl?: string | null;
+			/** @description 署名検証済みの送信元ノードID（受信ログのみ） */
+			verifiedNodeId?: string | null;
+			/** @description 分割送信のバッチ総数（送信ログのみ） */
+			batchesTotal?: number;
+			/** @description 受信が確認できたバッチ数（途中で失敗した送信は次回ここから再開） */
+			batchesCompleted?: number;
+			/**
+			 * @description 同期ジョブの段階（同期ジョブ以外のログはnull）
+			 * @enum {string|null}
+			 */
+			phase?: "media" | "data" | "completed" | null;
+			/** @description 送信対象外の避難所のため送らなかった未同期データ数（送信時のみ） */
+			outOfScopeRecords?: number;
+			/** @description まだ再試行していない失敗項目の数 */
+			pendingFailures?: number;
+			/** @description データの送信・取得にかかった時間（ミリ秒。メディア転送を除く） */
+			dataDurationMs?: number;
+			/** @description メディアファイルの転送にかかった時間（ミリ秒） */
+			mediaDurationMs?: number;
+			/** @description 送受信したデータ本文のバイト数 */
+			payloadBytes?: number;
+			/** @description 送受信したメディアファイルのバイト数 */
+			mediaBytes?: number;
+			/** @description 同期先へのリクエストが応答するまでの平均時間（ミリ秒。リクエストしていない場合はnull） */
+			avgUpstreamLatencyMs?: number | null;
 		};
 	};
 	responses: never;
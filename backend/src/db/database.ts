@@ -9,6 +9,12 @@ export type Bindings = {
 	R2_SECRET_ACCESS_KEY: string;
 	NODE_ENV?: string;
 	DEFAULT_SHELTER_ID?: string;
+	SYNC_NODE_ID?: string;
+	SYNC_NODE_SECRET?: string;
+	SYNC_UPSTREAM_URL?: string;
+	SYNC_SHELTER_IDS?: string;
+	SYNC_LOW_BANDWIDTH?: string;
+	IMAGES?: ImagesBinding;
 };
 
 export const dbConnect = (env: Bindings): D1Database =>
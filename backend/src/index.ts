@@ -1,51 +1,419 @@
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import { v4 as uuidv4 } from "uuid";
-import { createMiddleware } from "../middleware/middleware";
+import {
+	type AppEnv,
+	authenticate,
+	createMiddleware,
+	requireRole,
+	requireSignedSync,
+} from "../middleware/middleware";
 import type { components, paths } from "../schema/schema";
-import type { Bindings } from "./db/database";
+import type { Bindings, Database } from "./db/database";
 import { dbConnect } from "./db/database";
 import {
+	authRepository,
+	inventoryRepository,
+	mediaSyncRetryRepository,
 	reverseGeocoderRepository,
+	searchRepository,
 	shelterRepository,
 	signedVideoRepository,
+	syncBundleRepository,
+	syncCompressionRepository,
+	syncConflictRepository,
+	syncLogFailureRepository,
+	syncNodeRepository,
+	syncProtocolRepository,
 	syncRepository,
+	syncTargetRepository,
 	videoRepository,
 } from "./repositories";
-import type { ShelterPosts } from "./repositories/shelterRepository";
+import type { AuthenticatedStaff } from "./repositories/authRepository";
+import type { InventoryItemInput } from "./repositories/inventoryRepository";
+import type {
+	ContentOwner,
+	ShelterInput,
+	ShelterPostFilters,
+	ShelterPostSort,
+	ShelterPosts,
+	ShelterStatus,
+} from "./repositories/shelterRepository";
+import type { SyncContentEncoding } from "./repositories/syncCompressionRepository";
 import type {
+	SyncFailureRecordType,
+	SyncLogFailure,
+	SyncLogFailureInput,
+} from "./repositories/syncLogFailureRepository";
+import type {
+	SyncChangePage,
+	SyncLog,
+	SyncLogMetrics,
+	SyncLogWithShelter,
+	SyncMetricsDaily,
 	SyncPullData,
 	SyncReceiveData,
+	SyncStateKey,
 	UnsyncedMedia,
 } from "./repositories/syncRepository";
+import type {
+	SyncTarget,
+	SyncTargetInput,
+} from "./repositories/syncTargetRepository";
+
+const app = new Hono<AppEnv>();
+
+/**
+ * ノード間同期リクエストに付与するHMAC署名ヘッダーを生成
+ * SYNC_NODE_ID / SYNC_NODE_SECRET が未設定の場合は署名なし（受信側で拒否される）
+ */
+async function signSyncRequest(
+	env: Bindings,
+	method: string,
+	url: string,
+	body: ArrayBuffer = new ArrayBuffer(0),
+): Promise<Record<string, string>> {
+	if (!env.SYNC_NODE_ID || !env.SYNC_NODE_SECRET) {
+		console.warn(
+			"⚠️ SYNC_NODE_ID / SYNC_NODE_SECRET が未設定のため署名なしで送信します",
+		);
+		return {};
+	}
+	return syncNodeRepository.createSignatureHeaders({
+		nodeId: env.SYNC_NODE_ID,
+		secret: env.SYNC_NODE_SECRET,
+		method,
+		url,
+		body,
+	});
+}
+
+const newSyncMetrics = (): SyncLogMetrics => ({
+	dataDurationMs: 0,
+	mediaDurationMs: 0,
+	payloadBytes: 0,
+	mediaBytes: 0,
+	upstreamRequests: 0,
+	upstreamLatencyMs: 0,
+});
+
+/**
+ * 同期先へリクエストを送り、応答が返るまでの時間を metrics に加算する（接続失敗も含める）
+ */
+async function fetchUpstream(
+	metrics: SyncLogMetrics | undefined,
+	url: string,
+	init?: RequestInit,
+): Promise<Response> {
+	const startedAt = Date.now();
+	try {
+		return await fetch(url, init);
+	} finally {
+		if (metrics) {
+			metrics.upstreamRequests++;
+			metrics.upstreamLatencyMs += Date.now() - startedAt;
+		}
+	}
+}
+
+/**
+ * メディアファイルの転送にかかった時間を metrics に加算する
+ */
+async function measureMediaTransfer<T>(
+	metrics: SyncLogMetrics,
+	transfer: () => Promise<T>,
+): Promise<T> {
+	const startedAt = Date.now();
+	try {
+		return await transfer();
+	} finally {
+		metrics.mediaDurationMs += Date.now() - startedAt;
+	}
+}
+
+/**
+ * 同期データをJSONにし、相手が受け取れる場合は圧縮する（署名は圧縮後の本文に付ける）
+ */
+async function encodeSyncJson(
+	data: unknown,
+	encoding: SyncContentEncoding | null,
+): Promise<{ body: ArrayBuffer; headers: Record<string, string> }> {
+	const encoded = await syncCompressionRepository.encodeBody(
+		new TextEncoder().encode(JSON.stringify(data)).buffer,
+		encoding,
+	);
+	return {
+		body: encoded.body,
+		headers: {
+			"Content-Type": "application/json",
+			...syncCompressionRepository.encodingHeaders(encoded.encoding),
+		},
+	};
+}
+
+/**
+ * 同期データの本文をJSONとして読み取る（圧縮されていれば展開する）
+ */
+async function decodeSyncJson<T>(
+	body: ArrayBuffer,
+	encoding: string | null | undefined,
+): Promise<T> {
+	const decoded = await syncCompressionRepository.decodeBody(
+		body,
+		syncCompressionRepository.parseEncoding(encoding),
+	);
+	return JSON.parse(new TextDecoder().decode(decoded)) as T;
+}
+
+// 同期送信1バッチあたりの最大件数（種類ごと。D1のバインド変数上限とWorkerのリクエストサイズに収める）
+const PUSH_BATCH_SIZE = 50;
+
+/**
+ * 未同期データを送信用のバッチに分割する
+ * 受信側で参照先が先に存在するよう、投稿（とそのメディア）→ コメント → 位置トラック →
+ * 避難者数 → 在庫品目 → 入出庫履歴 の順に並べる
+ */
+function buildPushBatches(
+	data: Omit<SyncReceiveData, "sourceUrl"> &
+		Required<
+			Pick<
+				SyncReceiveData,
+				"occupancy" | "inventoryItems" | "inventoryTransactions"
+			>
+		>,
+) {
+	const emptyBatch = () => ({
+		posts: [] as SyncReceiveData["posts"],
+		comments: [] as SyncReceiveData["comments"],
+		locationTracks: [] as SyncReceiveData["locationTracks"],
+		media: [] as SyncReceiveData["media"],
+		occupancy: [] as NonNullable<SyncReceiveData["occupancy"]>,
+		inventoryItems: [] as NonNullable<SyncReceiveData["inventoryItems"]>,
+		inventoryTransactions: [] as NonNullable<
+			SyncReceiveData["inventoryTransactions"]
+		>,
+	});
+	type PushBatch = ReturnType<typeof emptyBatch>;
+
+	const batches: PushBatch[] = [];
+	const pushChunks = <K extends keyof PushBatch>(
+		key: K,
+		rows: PushBatch[K],
+	) => {
+		for (let i = 0; i < rows.length; i += PUSH_BATCH_SIZE) {
+			const batch = emptyBatch();
+			batch[key] = rows.slice(i, i + PUSH_BATCH_SIZE) as PushBatch[K];
+			batches.push(batch);
+		}
+	};
+
+	pushChunks("posts", data.posts);
+	// メディアは投稿と同じバッチで送る
+	for (const batch of batches) {
+		const postIds = new Set(batch.posts.map((post) => post.id));
+		batch.media = data.media.filter((m) => postIds.has(m.post_id));
+	}
+	pushChunks("comments", data.comments);
+	pushChunks("locationTracks", data.locationTracks);
+	pushChunks("occupancy", data.occupancy);
+	pushChunks("inventoryItems", data.inventoryItems);
+	pushChunks("inventoryTransactions", data.inventoryTransactions);
+
+	return batches;
+}
+
+// 同期ログの失敗項目に表示する内容の最大文字数
+const FAILURE_LABEL_LENGTH = 40;
+
+const failureLabel = (value: string | null | undefined): string | null =>
+	value ? value.slice(0, FAILURE_LABEL_LENGTH) : null;
+
+// 再試行で送り直すレコードの識別子
+const failureKey = (recordType: SyncFailureRecordType, recordId: string) =>
+	`${recordType}:${recordId}`;
+
+/**
+ * 送信に失敗したバッチの各レコードを、同期ログの失敗項目の形にする
+ * （メディアのレコードは投稿と一緒に送り直すため、投稿の失敗として扱う）
+ */
+function pushBatchFailures(
+	batch: ReturnType<typeof buildPushBatches>[number],
+	errorMessage: string,
+): SyncLogFailureInput[] {
+	return [
+		...batch.posts.map((post) => ({
+			recordType: "post" as const,
+			recordId: post.id,
+			label: failureLabel(post.content) ?? post.author_name,
+			errorMessage,
+		})),
+		...batch.comments.map((comment) => ({
+			recordType: "comment" as const,
+			recordId: comment.id,
+			label: failureLabel(comment.content),
+			errorMessage,
+		})),
+		...batch.locationTracks.map((track) => ({
+			recordType: "location_track" as const,
+			recordId: track.id,
+			label: track.recorded_at,
+			errorMessage,
+		})),
+		...batch.occupancy.map((occupancy) => ({
+			recordType: "occupancy" as const,
+			recordId: occupancy.id,
+			label: `${occupancy.headcount}人（${occupancy.recorded_at}）`,
+			errorMessage,
+		})),
+		...batch.inventoryItems.map((item) => ({
+			recordType: "inventory_item" as const,
+			recordId: item.id,
+			label: failureLabel(item.name),
+			errorMessage,
+		})),
+		...batch.inventoryTransactions.map((transaction) => ({
+			recordType: "inventory_transaction" as const,
+			recordId: transaction.id,
+			label: `${transaction.transaction_type} ${transaction.quantity}`,
+			errorMessage,
+		})),
+	];
+}
+
+/**
+ * メディアファイルの送信・取得の失敗を、同期ログの失敗項目の形にする
+ */
+const mediaFailures = (
+	errors: { mediaId: string; filePath: string; error: string }[],
+): SyncLogFailureInput[] =>
+	errors.map((error) => ({
+		recordType: "media",
+		recordId: error.mediaId,
+		label: error.filePath,
+		errorMessage: error.error,
+	}));
+
+// 1回の差分Pull実行で取得する最大ページ数（Workerのサブリクエスト上限を超えないようにする）
+const MAX_PULL_PAGES_PER_RUN = 20;
+
+// 1回の同期で再試行するメディアファイルの最大数
+const MAX_MEDIA_RETRIES_PER_RUN = 20;
+
+// 低帯域の回線で差分Pullする画像の最大の幅
+const LOW_BANDWIDTH_IMAGE_MAX_WIDTH = 1280;
+
+// 同期先ごとの定期同期の間隔（Cron Trigger は15分ごと）
+const SYNC_TARGET_MIN_INTERVAL_MINUTES = 15;
+const SYNC_TARGET_MAX_INTERVAL_MINUTES = 24 * 60;
 
-const app = new Hono<{ Bindings: Bindings }>();
+const SYNC_LOCKED_MESSAGE =
+	"別の同期処理が実行中です。しばらくしてから再度お試しください";
+
+const SYNC_TARGET_NOT_ALLOWED_MESSAGE =
+	"targetUrl は SYNC_UPSTREAM_URL か登録済みの同期先を指定してください";
+
+/**
+ * 本番APIの差分Pullレスポンスをローカル反映用の型に揃える
+ */
+function normalizePullData(
+	pullData: paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"],
+): SyncPullData {
+	return {
+		serverTime: pullData.serverTime,
+		// 避難所情報を含まない旧バージョンの本番APIにも対応
+		shelters: (pullData.shelters ?? []).map((shelter) => ({
+			...shelter,
+			address: shelter.address ?? null,
+			latitude: shelter.latitude ?? null,
+			longitude: shelter.longitude ?? null,
+			capacity: shelter.capacity ?? null,
+			opening_hours: shelter.opening_hours ?? null,
+			closed_at: shelter.closed_at ?? null,
+		})),
+		// 墓標に対応する前の本番APIは deleted_at を返さない
+		posts: pullData.posts.map((post) => ({
+			...post,
+			content: post.content ?? null,
+			status: post.status ?? null,
+			deleted_at: post.deleted_at ?? null,
+		})),
+		comments: pullData.comments.map((comment) => ({
+			...comment,
+			deleted_at: comment.deleted_at ?? null,
+		})),
+		locationTracks: pullData.locationTracks.map((track) => ({
+			...track,
+			deleted_at: track.deleted_at ?? null,
+		})),
+		media: pullData.media.map((media) => ({
+			...media,
+			file_name: media.file_name ?? null,
+			deleted_at: media.deleted_at ?? null,
+		})),
+		// 在庫情報を含まない旧バージョンの本番APIにも対応
+		inventoryItems: (pullData.inventoryItems ?? []).map((item) => ({
+			...item,
+			deleted_at: item.deleted_at ?? null,
+		})),
+		inventoryTransactions: (pullData.inventoryTransactions ?? []).map(
+			(transaction) => ({
+				...transaction,
+				note: transaction.note ?? null,
+				recorded_by: transaction.recorded_by ?? null,
+			}),
+		),
+	};
+}
 
 /**
- * メディアファイルを本番R2からローカルR2に同期
+ * メディアファイルを本番R2からローカルR2に同期（metrics を渡すと取得したバイト数・応答時間を加算する）
+ * maxImageWidth を渡すと、画像はその幅まで縮小したものを取得する
  */
 async function syncMediaFiles(
 	localBucket: R2Bucket,
 	productionApiUrl: string,
 	mediaList: UnsyncedMedia[],
-): Promise<{ synced: number; failed: number }> {
+	env: Bindings,
+	metrics?: SyncLogMetrics,
+	maxImageWidth?: number,
+): Promise<{
+	synced: number;
+	failed: number;
+	errors: { mediaId: string; filePath: string; error: string }[];
+}> {
+	const db = dbConnect(env);
 	let synced = 0;
 	let failed = 0;
+	const errors: { mediaId: string; filePath: string; error: string }[] = [];
 
-	// 既にローカルR2に存在するファイルをフィルタリング
+	// 既にローカルR2に存在するファイルをフィルタリング（縮小版を取得する場合は縮小版があればよい）
 	const mediaToPull: UnsyncedMedia[] = [];
+	const existingIds: string[] = [];
 	for (const media of mediaList) {
-		const exists = await localBucket.head(media.file_path);
-		if (!exists) {
+		const exists =
+			(await localBucket.head(media.file_path)) ??
+			(maxImageWidth !== undefined
+				? await localBucket.head(videoRepository.downscaledKey(media.file_path))
+				: null);
+		if (exists) {
+			existingIds.push(media.id);
+		} else {
 			mediaToPull.push(media);
 		}
 	}
+	// 再試行待ちだったファイルが既に揃っている場合はキューから外す
+	await mediaSyncRetryRepository.clearRetries(
+		db,
+		"pull",
+		productionApiUrl,
+		existingIds,
+	);
 
 	console.log(
 		`📦 メディア同期対象: ${mediaToPull.length}件 / 全体${mediaList.length}件`,
 	);
 
 	if (mediaToPull.length === 0) {
-		return { synced: 0, failed: 0 };
+		return { synced: 0, failed: 0, errors };
 	}
 
 	// 並列数を制限（3並列）
@@ -55,21 +423,63 @@ async function syncMediaFiles(
 
 		const results = await Promise.allSettled(
 			batch.map((media) =>
-				downloadAndUploadMedia(localBucket, productionApiUrl, media),
+				downloadAndUploadMedia(
+					localBucket,
+					productionApiUrl,
+					media,
+					env,
+					metrics,
+					maxImageWidth,
+				),
 			),
 		);
 
-		for (const result of results) {
+		const syncedIds: string[] = [];
+		for (const [index, result] of results.entries()) {
+			const media = batch[index];
 			if (result.status === "fulfilled") {
 				synced++;
+				syncedIds.push(media.id);
+				// 縮小版だけを取得した画像は、低帯域でない回線で元ファイルを取得する
+				if (result.value.downscaled) {
+					await mediaSyncRetryRepository.enqueue(db, {
+						mediaId: media.id,
+						direction: "pull_original",
+						targetUrl: productionApiUrl,
+						filePath: media.file_path,
+					});
+				}
 			} else {
 				failed++;
 				console.error("メディア同期エラー:", result.reason);
+				const message =
+					result.reason instanceof Error
+						? result.reason.message
+						: String(result.reason);
+				errors.push({
+					mediaId: media.id,
+					filePath: media.file_path,
+					error: message,
+				});
+				// 失敗したファイルは再試行キューに入れ、次回以降の差分Pullで再取得する
+				await mediaSyncRetryRepository.recordFailure(db, {
+					mediaId: media.id,
+					direction: "pull",
+					targetUrl: productionApiUrl,
+					filePath: media.file_path,
+					error: message,
+				});
 			}
 		}
+		await mediaSyncRetryRepository.clearRetries(
+			db,
+			"pull",
+			productionApiUrl,
+			syncedIds,
+		);
 	}
 
-	return { synced, failed };
+	return { synced, failed, errors };
 }
 
 /**
@@ -79,11 +489,19 @@ async function downloadAndUploadMedia(
 	localBucket: R2Bucket,
 	productionApiUrl: string,
 	media: UnsyncedMedia,
-): Promise<void> {
-	// 本番R2からダウンロード
-	const response = await fetch(
-		`${productionApiUrl}/api/sync/pull/media?filePath=${encodeURIComponent(media.file_path)}`,
-	);
+	env: Bindings,
+	metrics?: SyncLogMetrics,
+	maxImageWidth?: number,
+): Promise<{ downscaled: boolean }> {
+	// 本番R2からダウンロード（低帯域の回線では画像を縮小して送ってもらう）
+	const resize =
+		maxImageWidth !== undefined && media.media_type.startsWith("image/")
+			? `&maxWidth=${maxImageWidth}`
+			: "";
+	const url = `${productionApiUrl}/api/sync/pull/media?filePath=${encodeURIComponent(media.file_path)}${resize}`;
+	const response = await fetchUpstream(metrics, url, {
+		headers: await signSyncRequest(env, "GET", url),
+	});
 
 	if (!response.ok) {
 		throw new Error(
@@ -92,16 +510,127 @@ async function downloadAndUploadMedia(
 	}
 
 	const body = await response.arrayBuffer();
+	if (metrics) {
+		metrics.mediaBytes += body.byteLength;
+	}
 	const contentType = response.headers.get("Content-Type") || media.media_type;
 
-	// ローカルR2にアップロード
-	await localBucket.put(media.file_path, body, {
-		httpMetadata: {
-			contentType,
-		},
+	// 途中で切れたファイルを保存しないよう、サイズとSHA-256を確認する
+	const contentLength = response.headers.get("Content-Length");
+	if (contentLength !== null && Number(contentLength) !== body.byteLength) {
+		throw new Error(
+			`Truncated download ${media.file_path}: ${body.byteLength}/${contentLength} bytes`,
+		);
+	}
+
+	// ローカルR2にアップロード（SHA-256が一致しない場合は保存しない）
+	// 縮小された画像は元のファイルとSHA-256が一致しないため、元のファイルとは別のキーに保存する
+	const downscaled = response.headers.has(
+		syncCompressionRepository.SYNC_HEADER_MEDIA_DOWNSCALED,
+	);
+	await videoRepository.uploadVideo({
+		bucket: localBucket,
+		key: downscaled
+			? videoRepository.downscaledKey(media.file_path)
+			: media.file_path,
+		body,
+		contentType,
+		expectedSha256: downscaled ? null : media.sha256,
 	});
+	if (!downscaled) {
+		// 元のファイルが揃ったら縮小版は不要
+		await localBucket.delete(videoRepository.downscaledKey(media.file_path));
+	}
+
+	console.log(
+		`✅ メディア同期完了: ${media.file_path}${downscaled ? "（縮小版）" : ""}`,
+	);
+	return { downscaled };
+}
+
+/**
+ * 低帯域の回線で縮小版だけを取得した画像の元ファイルを取得する（低帯域でない回線での差分Pullで呼ぶ）
+ * 失敗したものは間隔を空けて再試行する
+ */
+async function pullOriginalMedia(
+	env: Bindings,
+	targetUrl: string,
+	metrics?: SyncLogMetrics,
+): Promise<{
+	synced: number;
+	failed: number;
+	errors: { mediaId: string; filePath: string; error: string }[];
+}> {
+	const db = dbConnect(env);
+	const dueIds = await mediaSyncRetryRepository.fetchDueMediaIds(
+		db,
+		"pull_original",
+		targetUrl,
+		MAX_MEDIA_RETRIES_PER_RUN,
+	);
+	const mediaList = await syncRepository.syncRepository.fetchMediaByIds(
+		db,
+		dueIds,
+	);
+	// メディアが削除済みなどで見つからない場合はキューから外す
+	const foundIds = new Set(mediaList.map((media) => media.id));
+	await mediaSyncRetryRepository.clearRetries(
+		db,
+		"pull_original",
+		targetUrl,
+		dueIds.filter((id) => !foundIds.has(id)),
+	);
+
+	const syncedIds: string[] = [];
+	const errors: { mediaId: string; filePath: string; error: string }[] = [];
+	for (const media of mediaList) {
+		try {
+			await downloadAndUploadMedia(
+				env.ASSET_BUCKET,
+				targetUrl,
+				media,
+				env,
+				metrics,
+			);
+			syncedIds.push(media.id);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			errors.push({
+				mediaId: media.id,
+				filePath: media.file_path,
+				error: message,
+			});
+			await mediaSyncRetryRepository.recordFailure(db, {
+				mediaId: media.id,
+				direction: "pull_original",
+				targetUrl,
+				filePath: media.file_path,
+				error: message,
+			});
+		}
+	}
+	await mediaSyncRetryRepository.clearRetries(
+		db,
+		"pull_original",
+		targetUrl,
+		syncedIds,
+	);
+
+	return { synced: syncedIds.length, failed: errors.length, errors };
+}
 
-	console.log(`✅ メディア同期完了: ${media.file_path}`);
+/**
+ * 表示に使うメディアファイルのキー（元のファイルが無く縮小版だけがある場合は縮小版）
+ */
+async function resolveMediaObjectKey(
+	bucket: R2Bucket,
+	filePath: string,
+): Promise<string> {
+	if (await bucket.head(filePath)) {
+		return filePath;
+	}
+	const downscaled = videoRepository.downscaledKey(filePath);
+	return (await bucket.head(downscaled)) ? downscaled : filePath;
 }
 
 const parseShelterId = (value?: string | null): number | null => {
@@ -123,115 +652,374 @@ const resolveShelterId = (
 	return parseShelterId(env.DEFAULT_SHELTER_ID);
 };
 
-// CORS設定を含むミドルウェア
-app.use("*", (c, next) => {
-	const frontendOrigin = c.env.FRONTEND_ORIGIN;
-	const middleware = createMiddleware({
-		additionalOrigins: frontendOrigin
-			? [frontendOrigin]
-			: ["http://localhost:5173", "http://localhost:3000"],
-	});
-	return middleware(c, next);
-});
+/**
+ * Pushで送信する避難所を決める（null の場合は全避難所の未同期データを送る）
+ * リクエストで避難所IDを指定した場合はその避難所、未指定の場合はノードに設定した
+ * SYNC_SHELTER_IDS（カンマ区切り）の避難所に限る
+ */
+const resolvePushScope = (
+	env: Bindings,
+	shelterId?: number | null,
+): number[] | null => {
+	if (shelterId) {
+		return [shelterId];
+	}
+	const configured = (env.SYNC_SHELTER_IDS ?? "")
+		.split(",")
+		.map((value) => parseShelterId(value.trim()))
+		.filter((id): id is number => id !== null);
+	return configured.length > 0 ? [...new Set(configured)] : null;
+};
 
-app.get("/", (c) => {
-	console.log("Hello Team2!");
-	return c.text("Hello Team2!");
-});
+/**
+ * 手動同期で指定できる同期先か（上流の同期先か登録済みの同期先に限る）
+ * 署名付きの同期リクエストを任意のサーバーに送らせないようにする
+ */
+const isAllowedSyncTarget = async (
+	env: Bindings,
+	targetUrl: string,
+): Promise<boolean> => {
+	const normalized = targetUrl.replace(/\/+$/, "");
+	if (
+		env.SYNC_UPSTREAM_URL &&
+		env.SYNC_UPSTREAM_URL.replace(/\/+$/, "") === normalized
+	) {
+		return true;
+	}
+	return syncTargetRepository.isSyncTargetUrl(dbConnect(env), normalized);
+};
 
-// 逆ジオコーディングエンドポイント
-app.get("/api/geocode/reverse", async (c) => {
-	const lat = c.req.query("lat");
-	const lon = c.req.query("lon");
+/**
+ * 上流（本番）の同期先が設定された避難所ノードは中継ノードとして動作する
+ * 中継ノードは他ノードから受け取ったデータを未同期のまま保持し、次回のPushで上流へ転送する
+ */
+const isRelayNode = (env: Bindings): boolean => Boolean(env.SYNC_UPSTREAM_URL);
 
-	if (!lat || !lon) {
-		return c.json({ error: "緯度と経度が必要です" }, 400);
+// 上流（SYNC_UPSTREAM_URL）との回線が低帯域か（差分Pullで取得する画像を縮小してもらう）
+const isLowBandwidthLink = (env: Bindings): boolean =>
+	env.SYNC_LOW_BANDWIDTH === "true";
+
+/**
+ * 差分Pullのカーソルを保存するキー
+ * 上流以外の避難所ノードから取得する場合は、取得先ごとに別のカーソルを使う
+ */
+const pullStateKey = (
+	env: Bindings,
+	targetUrl: string,
+	shelterId: number,
+): SyncStateKey => ({
+	target:
+		!env.SYNC_UPSTREAM_URL || env.SYNC_UPSTREAM_URL === targetUrl
+			? "upstream"
+			: `peer:${targetUrl}`,
+	scope: `shelter:${shelterId}`,
+});
+
+/**
+ * 避難所の作成・更新リクエストを検証する（partial=true の場合は未指定項目を許可）
+ */
+const parseShelterInput = (
+	body: components["schemas"]["ShelterUpdateRequest"] | null,
+	partial: boolean,
+): Partial<ShelterInput> | null => {
+	if (!body || typeof body !== "object") {
+		return null;
 	}
 
-	const apiKey = c.env.YAHOO_MAPS_API_KEY;
+	const input: Partial<ShelterInput> = {};
 
-	if (!apiKey) {
-		return c.json({ error: "APIキーが設定されていません" }, 500);
+	if (body.name !== undefined) {
+		if (typeof body.name !== "string" || body.name.trim() === "") {
+			return null;
+		}
+		input.name = body.name.trim();
+	} else if (!partial) {
+		return null;
 	}
 
-	try {
-		const data = await reverseGeocoderRepository.reverseGeocoderFetch(
-			lat,
-			lon,
-			apiKey,
-		);
+	for (const key of ["latitude", "longitude"] as const) {
+		const value = body[key];
+		if (value !== undefined) {
+			if (typeof value !== "number" || !Number.isFinite(value)) {
+				return null;
+			}
+			input[key] = value;
+		} else if (!partial) {
+			return null;
+		}
+	}
+	if (
+		(input.latitude !== undefined && Math.abs(input.latitude) > 90) ||
+		(input.longitude !== undefined && Math.abs(input.longitude) > 180)
+	) {
+		return null;
+	}
 
-		if (data.Feature.length === 0) {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "住所が見つかりませんでした",
-			};
-			return c.json(errorResponse, 404);
+	if (body.address !== undefined) {
+		if (body.address !== null && typeof body.address !== "string") {
+			return null;
 		}
+		input.address = body.address?.trim() || null;
+	}
 
-		const successResponse: paths["/api/geocode/reverse"]["get"]["responses"]["200"]["content"]["application/json"] =
-			data;
-		return c.json(successResponse);
-	} catch (error) {
-		console.error("逆ジオコーディングエラー:", error);
-		const message = error instanceof Error ? error.message : "Unknown error";
-		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: `住所の取得に失敗しました: ${message}`,
-		};
-		return c.json(errorResponse, 500);
+	if (body.capacity !== undefined) {
+		if (
+			body.capacity !== null &&
+			(!Number.isInteger(body.capacity) || body.capacity < 0)
+		) {
+			return null;
+		}
+		input.capacity = body.capacity;
 	}
-});
 
-app.get("/shelters/:id", async (c) => {
-	const shelterId = Number.parseInt(c.req.param("id"), 10);
+	if (body.openingHours !== undefined) {
+		if (body.openingHours !== null && typeof body.openingHours !== "string") {
+			return null;
+		}
+		input.openingHours = body.openingHours?.trim() || null;
+	}
 
-	if (Number.isNaN(shelterId)) {
-		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "shelterId must be a number",
-		};
-		return c.json(errorResponse, 400);
+	return input;
+};
+
+/**
+ * 同期先の登録・更新リクエストを検証する（partial=true の場合は未指定項目を許可）
+ */
+const parseSyncTargetInput = (
+	body: components["schemas"]["SyncTargetRequest"] | null,
+	partial: boolean,
+): Partial<SyncTargetInput> | null => {
+	if (!body || typeof body !== "object") {
+		return null;
 	}
 
-	const db = dbConnect(c.env);
+	const input: Partial<SyncTargetInput> = {};
 
-	try {
-		const details = await shelterRepository.fetchShelterDetails(db, shelterId);
-		if (!details) {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "指定した避難所は見つかりませんでした",
-			};
-			return c.json(errorResponse, 404);
+	if (body.name !== undefined) {
+		if (typeof body.name !== "string" || body.name.trim() === "") {
+			return null;
 		}
+		input.name = body.name.trim();
+	} else if (!partial) {
+		return null;
+	}
 
-		const response: paths["/shelters/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
-			details;
-		return c.json(response);
-	} catch (error) {
-		console.error("D1 posts query failed", error);
-		const message = error instanceof Error ? error.message : "Unknown error";
-		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: message,
-		};
-		return c.json(errorResponse, 500);
+	if (body.url !== undefined) {
+		if (typeof body.url !== "string" || !URL.canParse(body.url)) {
+			return null;
+		}
+		const url = new URL(body.url);
+		if (url.protocol !== "https:" && url.protocol !== "http:") {
+			return null;
+		}
+		// 同期先URLは末尾のスラッシュなしで保存する（retry キュー等のキーと揃える）
+		input.url = body.url.replace(/\/+$/, "");
+	} else if (!partial) {
+		return null;
 	}
-});
 
-app.get("/shelters", async (c) => {
-	const db = dbConnect(c.env);
+	for (const key of ["pushEnabled", "enabled", "lowBandwidth"] as const) {
+		const value = body[key];
+		if (value !== undefined) {
+			if (typeof value !== "boolean") {
+				return null;
+			}
+			input[key] = value;
+		}
+	}
 
-	try {
-		const [shelterList, shelterCount] = await Promise.all([
-			shelterRepository.getShelterList(db),
-			shelterRepository.countShelters(db),
-		]);
-		const response: paths["/shelters"]["get"]["responses"]["200"]["content"]["application/json"] =
+	if (body.pullShelterIds !== undefined) {
+		if (
+			!Array.isArray(body.pullShelterIds) ||
+			!body.pullShelterIds.every((id) => Number.isInteger(id) && id > 0)
+		) {
+			return null;
+		}
+		input.pullShelterIds = [...new Set(body.pullShelterIds)];
+	}
+
+	if (body.intervalMinutes !== undefined) {
+		if (
+			!Number.isInteger(body.intervalMinutes) ||
+			body.intervalMinutes < SYNC_TARGET_MIN_INTERVAL_MINUTES ||
+			body.intervalMinutes > SYNC_TARGET_MAX_INTERVAL_MINUTES
+		) {
+			return null;
+		}
+		input.intervalMinutes = body.intervalMinutes;
+	}
+
+	return input;
+};
+
+/**
+ * 在庫品目の登録・更新リクエストを検証する（partial=true の場合は未指定項目を許可）
+ */
+const parseInventoryItemInput = (
+	body: components["schemas"]["InventoryItemUpdateRequest"] | null,
+	partial: boolean,
+): Partial<InventoryItemInput> | null => {
+	if (!body || typeof body !== "object") {
+		return null;
+	}
+
+	const input: Partial<InventoryItemInput> = {};
+
+	for (const key of ["name", "unit"] as const) {
+		const value = body[key];
+		if (value !== undefined) {
+			if (typeof value !== "string" || value.trim() === "") {
+				return null;
+			}
+			input[key] = value.trim();
+		} else if (!partial) {
+			return null;
+		}
+	}
+
+	if (body.minQuantity !== undefined) {
+		if (!Number.isInteger(body.minQuantity) || body.minQuantity < 0) {
+			return null;
+		}
+		input.minQuantity = body.minQuantity;
+	} else if (!partial) {
+		input.minQuantity = 0;
+	}
+
+	return input;
+};
+
+/**
+ * 他の避難所に所属する避難所スタッフかどうか（所属避難所のデータのみ更新できる）
+ */
+const isOtherShelterStaff = (
+	staff: AuthenticatedStaff | null,
+	shelterId: number,
+): boolean =>
+	staff?.role === "shelter_staff" &&
+	staff.shelterId !== null &&
+	staff.shelterId !== shelterId;
+
+/**
+ * 投稿・コメントを編集・削除できるかどうか
+ * 本部管理者と投稿先避難所のスタッフは誰の投稿でも、それ以外はログイン中に自分で書いたものだけ操作できる
+ * （所属避難所のないスタッフはどの避難所のスタッフとしても扱わない）
+ */
+const canModifyContent = (
+	staff: AuthenticatedStaff | null,
+	owner: ContentOwner,
+): boolean => {
+	if (!staff) {
+		return false;
+	}
+	if (
+		staff.role === "hq_admin" ||
+		(staff.role === "shelter_staff" && staff.shelterId === owner.shelterId)
+	) {
+		return true;
+	}
+	return owner.authorStaffId !== null && staff.id === owner.authorStaffId;
+};
+
+// CORS設定を含むミドルウェア
+app.use("*", (c, next) => {
+	const frontendOrigin = c.env.FRONTEND_ORIGIN;
+	const middleware = createMiddleware({
+		additionalOrigins: frontendOrigin
+			? [frontendOrigin]
+			: ["http://localhost:5173", "http://localhost:3000"],
+	});
+	return middleware(c, next);
+});
+
+// Bearerトークンによるスタッフ認証（未ログインでも通過し、各ルートで権限を判定）
+app.use("*", authenticate());
+
+// 投稿・コメント作成はログイン必須
+app.post("/posts", requireRole("evacuee", "shelter_staff", "hq_admin"));
+app.post(
+	"/posts/:id/comments",
+	requireRole("evacuee", "shelter_staff", "hq_admin"),
+);
+
+// 投稿・コメントの編集・削除もログイン必須（操作できる範囲は各ルートで判定）
+app.on(
+	["PATCH", "DELETE"],
+	["/posts/:id", "/posts/:id/comments/:commentId"],
+	requireRole("evacuee", "shelter_staff", "hq_admin"),
+);
+
+// 同期操作は職員・本部管理者のみ
+app.get("/api/sync/status", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/preview", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/execute", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/pull/execute", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/media", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/jobs", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/jobs/:id", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/media/retries", requireRole("shelter_staff", "hq_admin"));
+app.post(
+	"/api/sync/media/retries/retry-now",
+	requireRole("shelter_staff", "hq_admin"),
+);
+app.get("/api/sync/logs", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/logs/:id", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/logs/:id/retry", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/metrics", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/targets", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/targets/:id/run", requireRole("shelter_staff", "hq_admin"));
+app.get("/api/sync/bundle/export", requireRole("shelter_staff", "hq_admin"));
+app.post("/api/sync/bundle/import", requireRole("shelter_staff", "hq_admin"));
+
+// ノード間同期の受信・配信エンドポイントは登録済みノードのHMAC署名必須
+app.get("/api/sync/handshake", requireSignedSync());
+app.post("/api/sync/receive", requireSignedSync());
+app.post("/api/sync/media/receive", requireSignedSync());
+app.get("/api/sync/pull", requireSignedSync());
+app.get("/api/sync/pull/media", requireSignedSync());
+
+app.post("/auth/login", async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody = await c.req.json<components["schemas"]["LoginRequest"]>();
+
+		if (
+			!reqBody ||
+			typeof reqBody.loginId !== "string" ||
+			typeof reqBody.password !== "string"
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const staff = await authRepository.verifyCredentials(
+			db,
+			reqBody.loginId,
+			reqBody.password,
+		);
+
+		if (!staff) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "ログインIDまたはパスワードが正しくありません",
+			};
+			return c.json(errorResponse, 401);
+		}
+
+		const { token, expiresAt } = await authRepository.issueToken(db, staff.id);
+
+		const response: paths["/auth/login"]["post"]["responses"]["200"]["content"]["application/json"] =
 			{
-				shelterList,
-				shelterCount,
+				token,
+				expiresAt,
+				staff,
 			};
+
 		return c.json(response);
 	} catch (error) {
-		console.error("D1 query failed", error);
-
+		console.error("Error logging in:", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -240,31 +1028,159 @@ app.get("/shelters", async (c) => {
 	}
 });
 
-app.get("/shelters/:id/posts", async (c) => {
-	const shelterId = Number.parseInt(c.req.param("id"), 10);
+app.post(
+	"/auth/logout",
+	requireRole("evacuee", "shelter_staff", "hq_admin"),
+	async (c) => {
+		const db = dbConnect(c.env);
+		const token = c.req.header("Authorization")?.split(" ")[1];
 
-	if (Number.isNaN(shelterId)) {
+		try {
+			if (token) {
+				await authRepository.revokeToken(db, token);
+			}
+			const response: components["schemas"]["OkResponse"] = {
+				message: "ログアウトしました",
+			};
+			return c.json(response);
+		} catch (error) {
+			console.error("Error logging out:", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
+
+app.get(
+	"/auth/me",
+	requireRole("evacuee", "shelter_staff", "hq_admin"),
+	(c) => {
+		const staff = c.get("staff");
+		if (!staff) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "ログインが必要です",
+			};
+			return c.json(errorResponse, 401);
+		}
+		const response: paths["/auth/me"]["get"]["responses"]["200"]["content"]["application/json"] =
+			staff;
+		return c.json(response);
+	},
+);
+
+app.post("/auth/staff", requireRole("hq_admin"), async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["CreateStaffRequest"]>();
+
+		if (
+			!reqBody ||
+			typeof reqBody.loginId !== "string" ||
+			reqBody.loginId.trim() === "" ||
+			typeof reqBody.displayName !== "string" ||
+			reqBody.displayName.trim() === "" ||
+			typeof reqBody.password !== "string" ||
+			reqBody.password.length < 8 ||
+			!authRepository.isStaffRole(reqBody.role)
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const staff = await authRepository.createStaffAccount(db, {
+			loginId: reqBody.loginId.trim(),
+			displayName: reqBody.displayName.trim(),
+			password: reqBody.password,
+			role: reqBody.role,
+			shelterId:
+				typeof reqBody.shelterId === "number" ? reqBody.shelterId : null,
+		});
+
+		const response: paths["/auth/staff"]["post"]["responses"]["201"]["content"]["application/json"] =
+			staff;
+
+		return c.json(response, 201);
+	} catch (error) {
+		if (error instanceof authRepository.DuplicateLoginIdError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "ログインIDが既に使用されています",
+			};
+			return c.json(errorResponse, 409);
+		}
+		console.error("Error creating staff account:", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "shelterId must be a number",
+			error: message,
 		};
-		return c.json(errorResponse, 400);
+		return c.json(errorResponse, 500);
 	}
+});
 
-	const db = dbConnect(c.env);
+app.get("/", (c) => {
+	console.log("Hello Team2!");
+	return c.text("Hello Team2!");
+});
+
+// 逆ジオコーディングエンドポイント
+app.get("/api/geocode/reverse", async (c) => {
+	const lat = c.req.query("lat");
+	const lon = c.req.query("lon");
+
+	if (!lat || !lon) {
+		return c.json({ error: "緯度と経度が必要です" }, 400);
+	}
+
+	const apiKey = c.env.YAHOO_MAPS_API_KEY;
+
+	if (!apiKey) {
+		return c.json({ error: "APIキーが設定されていません" }, 500);
+	}
 
 	try {
-		const posts = await shelterRepository.fetchRecentPostsByShelter(
-			db,
-			shelterId,
+		const data = await reverseGeocoderRepository.reverseGeocoderFetch(
+			lat,
+			lon,
+			apiKey,
 		);
-		const response: paths["/shelters/{id}/posts"]["get"]["responses"]["200"]["content"]["application/json"] =
-			{
-				shelterId,
-				posts,
+
+		if (data.Feature.length === 0) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "住所が見つかりませんでした",
 			};
+			return c.json(errorResponse, 404);
+		}
+
+		const successResponse: paths["/api/geocode/reverse"]["get"]["responses"]["200"]["content"]["application/json"] =
+			data;
+		return c.json(successResponse);
+	} catch (error) {
+		console.error("逆ジオコーディングエラー:", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: `住所の取得に失敗しました: ${message}`,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// /shelters/:id より先に登録する（"stats" が避難所IDとして解釈されないように）
+app.get("/shelters/stats", async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const stats = await shelterRepository.fetchShelterStats(db);
+		const response: paths["/shelters/stats"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{ stats };
 		return c.json(response);
 	} catch (error) {
-		console.error("D1 posts query failed", error);
+		console.error("D1 shelter stats query failed", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -273,38 +1189,32 @@ app.get("/shelters/:id/posts", async (c) => {
 	}
 });
 
-// 開発環境用: R2から直接ファイルを返すエンドポイント
-app.get("/r2/video/:key{.+}", async (c) => {
-	const key = c.req.param("key");
+app.get("/shelters/:id", async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
 
-	if (!key) {
+	if (Number.isNaN(shelterId)) {
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "key is required",
+			error: "shelterId must be a number",
 		};
 		return c.json(errorResponse, 400);
 	}
 
-	const bucket = c.env.ASSET_BUCKET;
+	const db = dbConnect(c.env);
 
 	try {
-		const object = await bucket.get(key);
-		if (!object) {
+		const details = await shelterRepository.fetchShelterDetails(db, shelterId);
+		if (!details) {
 			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "Object not found",
+				error: "指定した避難所は見つかりませんでした",
 			};
 			return c.json(errorResponse, 404);
 		}
 
-		const headers = new Headers();
-		headers.set(
-			"Content-Type",
-			object.httpMetadata?.contentType || "application/octet-stream",
-		);
-		headers.set("Content-Length", String(object.size));
-
-		return new Response(object.body, { headers });
+		const response: paths["/shelters/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
+			details;
+		return c.json(response);
 	} catch (error) {
-		console.error("R2 get failed", error);
+		console.error("D1 posts query failed", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -313,400 +1223,3627 @@ app.get("/r2/video/:key{.+}", async (c) => {
 	}
 });
 
-app.post("/posts", async (c) => {
+app.get("/shelters", async (c) => {
 	const db = dbConnect(c.env);
-	const bucket = c.env.ASSET_BUCKET;
-
-	// ファイルサイズ上限（30MB）
-	const MAX_FILE_SIZE = 30 * 1024 * 1024;
-	// 許可するMIMEタイプ
-	const ALLOWED_MIME_TYPES = [
-		"image/jpeg",
-		"image/png",
-		"image/gif",
-		"video/mp4",
-		"video/webm",
-	];
 
 	try {
-		// multipart/form-data をパース
-		const formData = await c.req.formData();
-
-		// metadata フィールドから JSON を取得
-		const metadataField = formData.get("metadata");
-		if (!metadataField || typeof metadataField !== "string") {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "metadata field is required and must be a JSON string",
+		const [shelterList, shelterCount] = await Promise.all([
+			shelterRepository.getShelterList(db),
+			shelterRepository.countShelters(db),
+		]);
+		const response: paths["/shelters"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				shelterList,
+				shelterCount,
 			};
-			return c.json(errorResponse, 400);
-		}
+		return c.json(response);
+	} catch (error) {
+		console.error("D1 query failed", error);
 
-		let reqBody: components["schemas"]["CreatePostRequest"];
-		try {
-			reqBody = JSON.parse(metadataField);
-		} catch {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "metadata field must be valid JSON",
-			};
-			return c.json(errorResponse, 400);
-		}
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-		if (
-			typeof reqBody.shelterId !== "number" ||
-			Number.isNaN(reqBody.shelterId)
-		) {
+const SHELTER_POST_PRIORITIES = ["緊急", "重要", "通常"] as const;
+const SHELTER_POST_COMMENT_STATUSES = ["未対応", "対応中", "対応済み"] as const;
+const SHELTER_POST_SORTS = [
+	"newest",
+	"oldest",
+	"priority",
+	"comments",
+] as const;
+
+/**
+ * カンマ区切りの値を読み取る（許可されていない値が含まれる場合は null）
+ */
+const parseListQuery = <T extends string>(
+	value: string | undefined,
+	allowed: readonly T[],
+): T[] | null => {
+	const values = (value ?? "")
+		.split(",")
+		.map((item) => item.trim())
+		.filter((item) => item.length > 0);
+	return values.every((item): item is T => allowed.includes(item as T))
+		? [...new Set(values)]
+		: null;
+};
+
+/**
+ * 避難所の投稿一覧の絞り込み・並び順・ページのクエリを読み取る
+ */
+const parseShelterPostQuery = (
+	query: Record<string, string>,
+):
+	| {
+			filters: ShelterPostFilters;
+			sort: ShelterPostSort;
+			limit: number;
+			cursor?: string;
+	  }
+	| { error: string } => {
+	const limit = query.limit ? Number(query.limit) : 20;
+	if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+		return { error: "limit must be between 1 and 100" };
+	}
+
+	const sort = query.sort ?? "newest";
+	if (!(SHELTER_POST_SORTS as readonly string[]).includes(sort)) {
+		return { error: `sort must be one of ${SHELTER_POST_SORTS.join(", ")}` };
+	}
+
+	const priorities = parseListQuery(query.priority, SHELTER_POST_PRIORITIES);
+	if (!priorities) {
+		return {
+			error: `priority must be one of ${SHELTER_POST_PRIORITIES.join(", ")}`,
+		};
+	}
+	const commentStatuses = parseListQuery(
+		query.commentStatus,
+		SHELTER_POST_COMMENT_STATUSES,
+	);
+	if (!commentStatuses) {
+		return {
+			error: `commentStatus must be one of ${SHELTER_POST_COMMENT_STATUSES.join(", ")}`,
+		};
+	}
+
+	if (
+		query.isFreeChat !== undefined &&
+		query.isFreeChat !== "true" &&
+		query.isFreeChat !== "false"
+	) {
+		return { error: "isFreeChat must be true or false" };
+	}
+
+	for (const key of ["from", "to"] as const) {
+		if (query[key] && Number.isNaN(Date.parse(query[key]))) {
+			return { error: `${key} must be a valid date-time` };
+		}
+	}
+
+	return {
+		filters: {
+			priorities,
+			commentStatuses,
+			isFreeChat:
+				query.isFreeChat === undefined
+					? undefined
+					: query.isFreeChat === "true",
+			from: query.from || undefined,
+			to: query.to || undefined,
+			author: query.author?.trim() || undefined,
+		},
+		sort: sort as ShelterPostSort,
+		limit,
+		cursor: query.cursor || undefined,
+	};
+};
+
+app.get("/shelters/:id/posts", async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const query = parseShelterPostQuery(c.req.query());
+	if ("error" in query) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: query.error,
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const page = await shelterRepository.fetchPostsByShelter(
+			db,
+			shelterId,
+			query,
+		);
+		const response: paths["/shelters/{id}/posts"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				shelterId,
+				...page,
+			};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.InvalidPostCursorError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: error.message,
+			};
+			return c.json(errorResponse, 400);
+		}
+		console.error("D1 posts query failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// ==================== 避難所管理API（本部管理者のみ） ====================
+
+app.post("/shelters", requireRole("hq_admin"), async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["CreateShelterRequest"]>();
+		const input = parseShelterInput(reqBody, false);
+
+		if (
+			!input ||
+			input.name === undefined ||
+			input.latitude === undefined ||
+			input.longitude === undefined
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const shelter = await shelterRepository.createShelter(db, {
+			name: input.name,
+			address: input.address ?? null,
+			latitude: input.latitude,
+			longitude: input.longitude,
+			capacity: input.capacity ?? null,
+			openingHours: input.openingHours ?? null,
+		});
+
+		const response: paths["/shelters"]["post"]["responses"]["201"]["content"]["application/json"] =
+			shelter;
+		return c.json(response, 201);
+	} catch (error) {
+		console.error("D1 create shelter failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.patch("/shelters/:id", requireRole("hq_admin"), async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["ShelterUpdateRequest"]>();
+		const input = parseShelterInput(reqBody, true);
+
+		if (!input) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const shelter = await shelterRepository.updateShelter(db, shelterId, input);
+
+		const response: paths["/shelters/{id}"]["patch"]["responses"]["200"]["content"]["application/json"] =
+			shelter;
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.ShelterNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した避難所は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 update shelter failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+/**
+ * 避難所の閉鎖・再開の共通処理
+ */
+const changeShelterStatus = async (
+	c: Context<AppEnv>,
+	status: ShelterStatus,
+) => {
+	const shelterId = Number.parseInt(c.req.param("id") ?? "", 10);
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const shelter = await shelterRepository.setShelterStatus(
+			db,
+			shelterId,
+			status,
+		);
+		const response: paths["/shelters/{id}/close"]["post"]["responses"]["200"]["content"]["application/json"] =
+			shelter;
+		return c.json(response, 200);
+	} catch (error) {
+		if (error instanceof shelterRepository.ShelterNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した避難所は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 change shelter status failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+};
+
+app.post("/shelters/:id/close", requireRole("hq_admin"), (c) =>
+	changeShelterStatus(c, "closed"),
+);
+
+app.post("/shelters/:id/reopen", requireRole("hq_admin"), (c) =>
+	changeShelterStatus(c, "open"),
+);
+
+// ==================== 避難者数の記録 ====================
+
+app.get("/shelters/:id/occupancy", async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const history = await shelterRepository.fetchOccupancyHistory(
+			db,
+			shelterId,
+		);
+		const response: paths["/shelters/{id}/occupancy"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				shelterId,
+				history,
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("D1 occupancy query failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.post(
+	"/shelters/:id/occupancy",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+		if (Number.isNaN(shelterId)) {
 			const errorResponse: components["schemas"]["ErrorResponse"] = {
 				error: "shelterId must be a number",
 			};
 			return c.json(errorResponse, 400);
 		}
 
-		// mediaFiles フィールドからファイルを取得
-		const mediaFiles: File[] = [];
-		const allMediaFiles = formData.getAll("mediaFiles");
-		for (const file of allMediaFiles) {
-			if (file instanceof File) {
-				mediaFiles.push(file);
+		// 避難所スタッフは所属する避難所の人数のみ記録できる
+		const staff = c.get("staff");
+		if (isOtherShelterStaff(staff, shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この避難所の人数を記録する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const db = dbConnect(c.env);
+
+		try {
+			const reqBody =
+				await c.req.json<components["schemas"]["RecordOccupancyRequest"]>();
+
+			if (
+				!reqBody ||
+				typeof reqBody.headcount !== "number" ||
+				!Number.isInteger(reqBody.headcount) ||
+				reqBody.headcount < 0
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "headcount must be a non-negative integer",
+				};
+				return c.json(errorResponse, 400);
+			}
+
+			const record = await shelterRepository.recordOccupancy(db, {
+				id: uuidv4(),
+				shelterId,
+				headcount: reqBody.headcount,
+				recordedBy: staff?.displayName ?? null,
+			});
+
+			const response: paths["/shelters/{id}/occupancy"]["post"]["responses"]["201"]["content"]["application/json"] =
+				record;
+			return c.json(response, 201);
+		} catch (error) {
+			if (error instanceof shelterRepository.ShelterNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した避難所は見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			console.error("D1 record occupancy failed", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
+
+// ==================== 物資の在庫管理 ====================
+
+app.get("/shelters/:id/inventory", async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const items = await inventoryRepository.fetchInventoryByShelter(
+			db,
+			shelterId,
+		);
+		const response: paths["/shelters/{id}/inventory"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				shelterId,
+				items,
+				shortageCount: items.filter((item) => item.isShortage).length,
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("D1 inventory query failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.post(
+	"/shelters/:id/inventory",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const shelterId = Number.parseInt(c.req.param("id"), 10);
+
+		if (Number.isNaN(shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a number",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const staff = c.get("staff");
+		if (isOtherShelterStaff(staff, shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この避難所の在庫を管理する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const db = dbConnect(c.env);
+
+		try {
+			const reqBody =
+				await c.req.json<components["schemas"]["CreateInventoryItemRequest"]>();
+			const input = parseInventoryItemInput(reqBody, false);
+			const initialQuantity = reqBody?.initialQuantity ?? 0;
+
+			if (
+				!input ||
+				input.name === undefined ||
+				input.unit === undefined ||
+				input.minQuantity === undefined ||
+				!Number.isInteger(initialQuantity) ||
+				initialQuantity < 0
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "invalid request body",
+				};
+				return c.json(errorResponse, 400);
+			}
+
+			const item = await inventoryRepository.createInventoryItem(db, {
+				id: uuidv4(),
+				shelterId,
+				input: {
+					name: input.name,
+					unit: input.unit,
+					minQuantity: input.minQuantity,
+				},
+				initialQuantity,
+				recordedBy: staff?.displayName ?? null,
+			});
+
+			const response: paths["/shelters/{id}/inventory"]["post"]["responses"]["201"]["content"]["application/json"] =
+				item;
+			return c.json(response, 201);
+		} catch (error) {
+			if (error instanceof shelterRepository.ShelterNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した避難所は見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			if (error instanceof inventoryRepository.DuplicateInventoryItemError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "同じ名前の品目が既に登録されています",
+				};
+				return c.json(errorResponse, 409);
+			}
+			console.error("D1 create inventory item failed", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
+
+app.patch(
+	"/shelters/:id/inventory/:itemId",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const shelterId = Number.parseInt(c.req.param("id"), 10);
+		const itemId = c.req.param("itemId");
+
+		if (Number.isNaN(shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a number",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		if (isOtherShelterStaff(c.get("staff"), shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この避難所の在庫を管理する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const db = dbConnect(c.env);
+
+		try {
+			const reqBody =
+				await c.req.json<components["schemas"]["InventoryItemUpdateRequest"]>();
+			const input = parseInventoryItemInput(reqBody, true);
+
+			if (!input) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "invalid request body",
+				};
+				return c.json(errorResponse, 400);
+			}
+
+			const item = await inventoryRepository.updateInventoryItem(
+				db,
+				shelterId,
+				itemId,
+				input,
+			);
+
+			const response: paths["/shelters/{id}/inventory/{itemId}"]["patch"]["responses"]["200"]["content"]["application/json"] =
+				item;
+			return c.json(response);
+		} catch (error) {
+			if (error instanceof inventoryRepository.InventoryItemNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した品目は見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			console.error("D1 update inventory item failed", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
+
+app.get("/shelters/:id/inventory/:itemId/transactions", async (c) => {
+	const shelterId = Number.parseInt(c.req.param("id"), 10);
+	const itemId = c.req.param("itemId");
+
+	if (Number.isNaN(shelterId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "shelterId must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const transactions = await inventoryRepository.fetchStockTransactions(
+			db,
+			shelterId,
+			itemId,
+		);
+		const response: paths["/shelters/{id}/inventory/{itemId}/transactions"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				itemId,
+				transactions,
+			};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof inventoryRepository.InventoryItemNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した品目は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 inventory transactions query failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.post(
+	"/shelters/:id/inventory/:itemId/transactions",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const shelterId = Number.parseInt(c.req.param("id"), 10);
+		const itemId = c.req.param("itemId");
+
+		if (Number.isNaN(shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a number",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const staff = c.get("staff");
+		if (isOtherShelterStaff(staff, shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この避難所の在庫を管理する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const db = dbConnect(c.env);
+
+		try {
+			const reqBody =
+				await c.req.json<components["schemas"]["StockTransactionRequest"]>();
+
+			if (
+				!reqBody ||
+				!inventoryRepository.isInventoryTransactionType(
+					reqBody.transactionType,
+				) ||
+				!Number.isInteger(reqBody.quantity) ||
+				reqBody.quantity <= 0 ||
+				(reqBody.note != null && typeof reqBody.note !== "string")
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "invalid request body",
+				};
+				return c.json(errorResponse, 400);
+			}
+
+			const item = await inventoryRepository.recordStockTransaction(db, {
+				id: uuidv4(),
+				shelterId,
+				itemId,
+				transactionType: reqBody.transactionType,
+				quantity: reqBody.quantity,
+				note: reqBody.note?.trim() || null,
+				recordedBy: staff?.displayName ?? null,
+			});
+
+			const response: paths["/shelters/{id}/inventory/{itemId}/transactions"]["post"]["responses"]["201"]["content"]["application/json"] =
+				item;
+			return c.json(response, 201);
+		} catch (error) {
+			if (error instanceof inventoryRepository.InventoryItemNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した品目は見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			if (error instanceof inventoryRepository.InsufficientStockError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "出庫数が現在庫を超えています",
+				};
+				return c.json(errorResponse, 409);
+			}
+			console.error("D1 record stock transaction failed", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
+
+// 開発環境用: R2から直接ファイルを返すエンドポイント
+app.get("/r2/video/:key{.+}", async (c) => {
+	const key = c.req.param("key");
+
+	if (!key) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "key is required",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const bucket = c.env.ASSET_BUCKET;
+
+	try {
+		const object = await bucket.get(key);
+		if (!object) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "Object not found",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		const headers = new Headers();
+		headers.set(
+			"Content-Type",
+			object.httpMetadata?.contentType || "application/octet-stream",
+		);
+		headers.set("Content-Length", String(object.size));
+
+		return new Response(object.body, { headers });
+	} catch (error) {
+		console.error("R2 get failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.post("/posts", async (c) => {
+	const db = dbConnect(c.env);
+	const bucket = c.env.ASSET_BUCKET;
+
+	// ファイルサイズ上限（30MB）
+	const MAX_FILE_SIZE = 30 * 1024 * 1024;
+	// 許可するMIMEタイプ
+	const ALLOWED_MIME_TYPES = [
+		"image/jpeg",
+		"image/png",
+		"image/gif",
+		"video/mp4",
+		"video/webm",
+	];
+
+	try {
+		// multipart/form-data をパース
+		const formData = await c.req.formData();
+
+		// metadata フィールドから JSON を取得
+		const metadataField = formData.get("metadata");
+		if (!metadataField || typeof metadataField !== "string") {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "metadata field is required and must be a JSON string",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		let reqBody: components["schemas"]["CreatePostRequest"];
+		try {
+			reqBody = JSON.parse(metadataField);
+		} catch {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "metadata field must be valid JSON",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		if (
+			typeof reqBody.shelterId !== "number" ||
+			Number.isNaN(reqBody.shelterId)
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a number",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		// mediaFiles フィールドからファイルを取得
+		const mediaFiles: File[] = [];
+		const allMediaFiles = formData.getAll("mediaFiles");
+		for (const file of allMediaFiles) {
+			if (file instanceof File) {
+				mediaFiles.push(file);
+			}
+		}
+
+		// ファイルサイズとMIMEタイプのバリデーション
+		for (const file of mediaFiles) {
+			if (file.size > MAX_FILE_SIZE) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: `File "${file.name}" exceeds maximum size of 50MB`,
+				};
+				return c.json(errorResponse, 413);
+			}
+
+			if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: `File "${file.name}" has unsupported media type: ${file.type}. Allowed types: ${ALLOWED_MIME_TYPES.join(", ")}`,
+				};
+				return c.json(errorResponse, 415);
+			}
+		}
+
+		const allowedPostStatuses = ["緊急", "重要", "通常"] as const;
+		const statusInput = reqBody.status;
+		const postStatus =
+			typeof statusInput === "string" &&
+			allowedPostStatuses.includes(
+				statusInput as (typeof allowedPostStatuses)[number],
+			)
+				? (statusInput as (typeof allowedPostStatuses)[number])
+				: null;
+
+		const now = new Date().toISOString();
+		const postId = uuidv4();
+
+		// locationTrack があれば最初の点を使い、なければ 0 を入れる
+		const firstLocation =
+			reqBody.locationTrack && reqBody.locationTrack.length > 0
+				? reqBody.locationTrack[0]
+				: undefined;
+
+		// ログイン中は入力された名前ではなくアカウントの表示名で投稿する
+		const staff = c.get("staff");
+		const shelterPost: ShelterPosts = {
+			postId,
+			authorName: staff?.displayName ?? reqBody.authorName,
+			authorStaffId: staff?.id ?? null,
+			shelterId: reqBody.shelterId,
+			content: reqBody.content ?? null,
+			postedAt: reqBody.occurredAt ?? now,
+			latitude: firstLocation ? firstLocation.latitude : 0,
+			longitude: firstLocation ? firstLocation.longitude : 0,
+			is_synced: 0,
+			createdAtByPost: now,
+			is_free_chat: 0,
+			status: postStatus,
+			mediaId: null,
+			filePath: null,
+			mediaType: null,
+			fileName: null,
+			createdAtByMedia: null,
+		};
+
+		const mediaItems: Array<{
+			id: string;
+			file_path: string;
+			mediaType: string;
+			fileName?: string | null;
+			sha256?: string | null;
+			created_at?: string;
+		}> = [];
+
+		// R2にファイルをアップロード
+		const uploadedKeys: string[] = [];
+		try {
+			for (const file of mediaFiles) {
+				const mediaId = uuidv4();
+
+				// ファイル拡張子を取得
+				const ext = file.name.split(".").pop() || "";
+				const r2Key = `media/${postId}/${mediaId}${ext ? `.${ext}` : ""}`;
+
+				const body = await file.arrayBuffer();
+
+				// R2にアップロード
+				const uploaded = await videoRepository.uploadVideo({
+					bucket,
+					key: r2Key,
+					body,
+					contentType: file.type,
+				});
+
+				uploadedKeys.push(r2Key);
+
+				mediaItems.push({
+					id: mediaId,
+					file_path: r2Key,
+					mediaType: file.type,
+					fileName: file.name,
+					sha256: uploaded.sha256,
+					created_at: now,
+				});
+			}
+
+			// reqBody.media からもメタデータのみのアイテムを追加（ファイルなしの場合）
+			if (
+				reqBody.media &&
+				Array.isArray(reqBody.media) &&
+				reqBody.media.length > 0 &&
+				mediaFiles.length === 0
+			) {
+				for (const mi of reqBody.media) {
+					const mediaId = uuidv4();
+
+					const filePath = `media/${postId}/${mediaId}`;
+
+					mediaItems.push({
+						id: mediaId,
+						file_path: filePath,
+						mediaType: mi.mediaType,
+						fileName: mi.fileName ?? null,
+						created_at: now,
+					});
+				}
+			}
+		} catch (uploadErr) {
+			// アップロード失敗時は既にアップロードしたファイルを削除
+			for (const key of uploadedKeys) {
+				try {
+					await bucket.delete(key);
+				} catch (deleteErr) {
+					console.error(`Failed to cleanup R2 object ${key}`, deleteErr);
+				}
+			}
+
+			if (uploadErr instanceof videoRepository.EmptyVideoBodyError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "Empty file body is not allowed",
+				};
+				return c.json(errorResponse, 400);
+			}
+
+			throw uploadErr;
+		}
+
+		try {
+			await shelterRepository.insertShelterPost(
+				db,
+				shelterPost,
+				mediaItems.length > 0 ? mediaItems : undefined,
+			);
+
+			// locationTrackがあればpost_location_tracksテーブルに保存
+			if (
+				reqBody.locationTrack &&
+				Array.isArray(reqBody.locationTrack) &&
+				reqBody.locationTrack.length > 0
+			) {
+				const trackItems = reqBody.locationTrack.map((pt) => ({
+					id: uuidv4(),
+					recordedAt: pt.recordedAt,
+					latitude: pt.latitude,
+					longitude: pt.longitude,
+				}));
+				await shelterRepository.insertLocationTracks(db, postId, trackItems);
+			}
+		} catch (err) {
+			// DB挿入失敗時はR2からファイルを削除
+			for (const key of uploadedKeys) {
+				try {
+					await bucket.delete(key);
+				} catch (deleteErr) {
+					console.error(`Failed to cleanup R2 object ${key}`, deleteErr);
+				}
+			}
+
+			if (err instanceof shelterRepository.ShelterNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した避難所は存在しません",
+				};
+				return c.json(errorResponse, 404);
+			}
+			throw err;
+		}
+
+		// メディアURLを生成（本番は署名付きURL、開発はローカルURL）
+		const isDevelopment = c.env.NODE_ENV === "development";
+		const mediaResponse: components["schemas"]["MediaItem"][] = [];
+
+		for (const mi of mediaItems) {
+			let url: string;
+			if (isDevelopment) {
+				url = `http://localhost:8787/r2/video/${mi.file_path}`;
+			} else {
+				// 本番環境: 署名付きURLを生成
+				url = await signedVideoRepository.fetchSignedVideo({
+					bucketName: c.env.R2_BUCKET_NAME,
+					accountId: c.env.CLOUDFLARE_R2_ACCOUNT_ID,
+					objectKey: mi.file_path,
+					accessKeyId: c.env.R2_ACCESS_KEY_ID,
+					secretAccessKey: c.env.R2_SECRET_ACCESS_KEY,
+				});
+			}
+			mediaResponse.push({
+				mediaId: mi.id,
+				mediaType: mi.mediaType,
+				fileName: mi.fileName ?? null,
+				url,
+			});
+		}
+
+		const response: paths["/posts"]["post"]["responses"]["201"]["content"]["application/json"] =
+			{
+				postId,
+				media: mediaResponse,
+			};
+
+		return c.json(response, 201);
+	} catch (error) {
+		console.error("D1 insert post failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// 投稿の詳細を取得
+app.get("/posts/:id", async (c) => {
+	const postId = c.req.param("id");
+
+	if (!postId) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "post id is required",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+	const isDevelopment = c.env.NODE_ENV === "development";
+
+	try {
+		const result = await shelterRepository.fetchPostById(db, postId);
+
+		if (!result) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		const { post, media, locationTrack } = result;
+
+		// メディアURLを生成（本番は署名付きURL、開発はローカルURL）
+		const mediaItems: components["schemas"]["MediaItem"][] = [];
+
+		for (const mi of media) {
+			const objectKey = await resolveMediaObjectKey(
+				c.env.ASSET_BUCKET,
+				mi.filePath,
+			);
+			let url: string;
+			if (isDevelopment) {
+				url = `http://localhost:8787/r2/video/${objectKey}`;
+			} else {
+				// 本番環境: 署名付きURLを生成
+				url = await signedVideoRepository.fetchSignedVideo({
+					bucketName: c.env.R2_BUCKET_NAME,
+					accountId: c.env.CLOUDFLARE_R2_ACCOUNT_ID,
+					objectKey,
+					accessKeyId: c.env.R2_ACCESS_KEY_ID,
+					secretAccessKey: c.env.R2_SECRET_ACCESS_KEY,
+				});
+			}
+			mediaItems.push({
+				mediaId: mi.id,
+				mediaType: mi.mediaType,
+				fileName: mi.fileName ?? null,
+				url,
+			});
+		}
+
+		const response: paths["/posts/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				id: post.id,
+				shelterId: post.shelterId,
+				shelterName: post.shelterName,
+				authorName: post.authorName,
+				authorStaffId: post.authorStaffId,
+				content: post.content,
+				postedAt: post.postedAt,
+				media: mediaItems,
+				locationTrack: locationTrack.map((lt) => ({
+					recordedAt: lt.recordedAt,
+					latitude: lt.latitude,
+					longitude: lt.longitude,
+				})),
+				commentCount: post.commentCount,
+			};
+
+		return c.json(response);
+	} catch (error) {
+		console.error("D1 fetch post detail failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// 投稿に紐づくコメント一覧取得とコメント作成エンドポイント
+app.get("/posts/:id/comments", async (c) => {
+	const postId = c.req.param("id");
+
+	if (!postId) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "post id is required",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		// posts テーブルから is_free_chat と status を取得（null の場合は投稿が存在しないと見なす）
+		const postMeta = await shelterRepository.fetchPostIsFreeChat(db, postId);
+
+		if (postMeta === null) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "対象の投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		const isFreeChat = postMeta.isFreeChat === 1;
+		const status = postMeta.status ?? null;
+
+		const comments = await shelterRepository.fetchCommentsByPost(db, postId);
+
+		const response: paths["/posts/{id}/comments"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				postId,
+				status,
+				isFreeChat,
+				comments,
+			};
+
+		return c.json(response);
+	} catch (error) {
+		console.error("D1 fetch comments failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+app.post("/posts/:id/comments", async (c) => {
+	const postId = c.req.param("id");
+
+	if (!postId) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "post id is required",
+		};
+		return c.json(errorResponse, 400);
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["CreateCommentRequest"]>();
+
+		// ログイン中は入力された名前ではなくアカウントの表示名でコメントする
+		const staff = c.get("staff");
+		const authorName = staff?.displayName ?? reqBody?.authorName;
+		if (
+			!reqBody ||
+			typeof authorName !== "string" ||
+			typeof reqBody.content !== "string"
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const allowedStatuses = ["未対応", "対応中", "対応済み"] as const;
+		const statusInput = reqBody.status;
+		const status =
+			typeof statusInput === "string" &&
+			allowedStatuses.includes(statusInput as (typeof allowedStatuses)[number])
+				? (statusInput as (typeof allowedStatuses)[number])
+				: undefined;
+
+		// 対応中・対応済みへの変更は職員・本部管理者のみ
+		if (
+			(status === "対応中" || status === "対応済み") &&
+			staff?.role !== "shelter_staff" &&
+			staff?.role !== "hq_admin"
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "対応状況を変更する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		// 論理削除された投稿にはコメントできない
+		const owner = await shelterRepository.fetchPostOwner(db, postId);
+		if (!owner) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "対象の投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		const commentId = uuidv4();
+
+		try {
+			const result = await shelterRepository.createCommentForPost(db, {
+				commentId,
+				postId,
+				authorName,
+				authorStaffId: staff?.id ?? null,
+				content: reqBody.content,
+				status,
+			});
+
+			const response: paths["/posts/{id}/comments"]["post"]["responses"]["201"]["content"]["application/json"] =
+				{
+					comment: {
+						id: result.id,
+						postId: result.postId,
+						authorName: result.authorName,
+						content: result.content,
+						createdAt: result.createdAt,
+						status: result.status,
+					},
+				};
+
+			return c.json(response, 201);
+		} catch (err) {
+			const msg = err instanceof Error ? err.message : String(err);
+			// foreign key / sqlite constraint -> post not found
+			if (msg.includes("FOREIGN KEY") || msg.includes("SQLITE_CONSTRAINT")) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "対象の投稿が見つかりません",
+				};
+				return c.json(errorResponse, 404);
+			}
+			throw err;
+		}
+	} catch (error) {
+		console.error("D1 create comment failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// 投稿の本文・ステータスを編集
+app.patch("/posts/:id", async (c) => {
+	const postId = c.req.param("id");
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["UpdatePostRequest"]>();
+
+		const allowedPostStatuses = ["緊急", "重要", "通常"] as const;
+		const isValidStatus = (
+			value: unknown,
+		): value is (typeof allowedPostStatuses)[number] | null =>
+			value === null ||
+			allowedPostStatuses.includes(
+				value as (typeof allowedPostStatuses)[number],
+			);
+
+		if (
+			!reqBody ||
+			typeof reqBody !== "object" ||
+			(reqBody.content === undefined && reqBody.status === undefined) ||
+			(reqBody.content !== undefined &&
+				reqBody.content !== null &&
+				typeof reqBody.content !== "string") ||
+			(reqBody.status !== undefined && !isValidStatus(reqBody.status))
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const owner = await shelterRepository.fetchPostOwner(db, postId);
+		if (!owner) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		if (!canModifyContent(c.get("staff"), owner)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この投稿を編集する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const post = await shelterRepository.updatePost(db, postId, {
+			content:
+				typeof reqBody.content === "string"
+					? reqBody.content.trim() || null
+					: reqBody.content,
+			status: reqBody.status,
+		});
+
+		const response: paths["/posts/{id}"]["patch"]["responses"]["200"]["content"]["application/json"] =
+			{ post };
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.PostNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 update post failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// 投稿を論理削除（コメント・メディア・位置トラックも非表示になる）
+app.delete("/posts/:id", async (c) => {
+	const postId = c.req.param("id");
+	const db = dbConnect(c.env);
+
+	try {
+		const owner = await shelterRepository.fetchPostOwner(db, postId);
+		if (!owner) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		if (!canModifyContent(c.get("staff"), owner)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この投稿を削除する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		await shelterRepository.softDeletePost(db, postId);
+
+		const response: components["schemas"]["OkResponse"] = {
+			message: "投稿を削除しました",
+		};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.PostNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "投稿が見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 delete post failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// コメントの本文・ステータスを編集
+app.patch("/posts/:id/comments/:commentId", async (c) => {
+	const postId = c.req.param("id");
+	const commentId = c.req.param("commentId");
+	const db = dbConnect(c.env);
+
+	try {
+		const reqBody =
+			await c.req.json<components["schemas"]["UpdateCommentRequest"]>();
+
+		const allowedStatuses = ["未対応", "対応中", "対応済み"] as const;
+		if (
+			!reqBody ||
+			typeof reqBody !== "object" ||
+			(reqBody.content === undefined && reqBody.status === undefined) ||
+			(reqBody.content !== undefined &&
+				(typeof reqBody.content !== "string" ||
+					reqBody.content.trim() === "")) ||
+			(reqBody.status !== undefined &&
+				!allowedStatuses.includes(
+					reqBody.status as (typeof allowedStatuses)[number],
+				))
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
+		}
+
+		const owner = await shelterRepository.fetchCommentOwner(
+			db,
+			postId,
+			commentId,
+		);
+		if (!owner) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "コメントが見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		// 対応中・対応済みへの変更は職員・本部管理者のみ
+		const staff = c.get("staff");
+		if (
+			!canModifyContent(staff, owner) ||
+			((reqBody.status === "対応中" || reqBody.status === "対応済み") &&
+				staff?.role !== "shelter_staff" &&
+				staff?.role !== "hq_admin")
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "このコメントを編集する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		const comment = await shelterRepository.updateComment(
+			db,
+			postId,
+			commentId,
+			{
+				content: reqBody.content?.trim(),
+				status: reqBody.status ?? undefined,
+			},
+		);
+
+		const response: paths["/posts/{id}/comments/{commentId}"]["patch"]["responses"]["200"]["content"]["application/json"] =
+			{ comment };
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.CommentNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "コメントが見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 update comment failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// コメントを論理削除
+app.delete("/posts/:id/comments/:commentId", async (c) => {
+	const postId = c.req.param("id");
+	const commentId = c.req.param("commentId");
+	const db = dbConnect(c.env);
+
+	try {
+		const owner = await shelterRepository.fetchCommentOwner(
+			db,
+			postId,
+			commentId,
+		);
+		if (!owner) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "コメントが見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		if (!canModifyContent(c.get("staff"), owner)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "このコメントを削除する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+
+		await shelterRepository.softDeleteComment(db, postId, commentId);
+
+		const response: components["schemas"]["OkResponse"] = {
+			message: "コメントを削除しました",
+		};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof shelterRepository.CommentNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "コメントが見つかりません",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("D1 delete comment failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// ==================== 全文検索 ====================
+
+// 検索語の最大の長さ
+const MAX_SEARCH_QUERY_LENGTH = 100;
+
+app.get("/search", async (c) => {
+	const q = c.req.query("q")?.trim() ?? "";
+	const shelterIdParam = c.req.query("shelterId");
+	const typeParam = c.req.query("type");
+	const from = c.req.query("from") || undefined;
+	const to = c.req.query("to") || undefined;
+	const limitParam = c.req.query("limit");
+
+	const shelterId =
+		shelterIdParam !== undefined ? parseShelterId(shelterIdParam) : undefined;
+	const limit = limitParam ? Number(limitParam) : 20;
+
+	const invalid = (error: string) => {
+		const errorResponse: components["schemas"]["ErrorResponse"] = { error };
+		return c.json(errorResponse, 400);
+	};
+
+	if (q.length === 0 || q.length > MAX_SEARCH_QUERY_LENGTH) {
+		return invalid(
+			`q must be between 1 and ${MAX_SEARCH_QUERY_LENGTH} characters`,
+		);
+	}
+	if (shelterId === null) {
+		return invalid("shelterId must be a number");
+	}
+	if (
+		typeParam !== undefined &&
+		typeParam !== "post" &&
+		typeParam !== "comment"
+	) {
+		return invalid("type must be post or comment");
+	}
+	if (from && Number.isNaN(Date.parse(from))) {
+		return invalid("from must be a valid date-time");
+	}
+	if (to && Number.isNaN(Date.parse(to))) {
+		return invalid("to must be a valid date-time");
+	}
+	if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+		return invalid("limit must be between 1 and 50");
+	}
+
+	const db = dbConnect(c.env);
+
+	try {
+		const { terms, hits, hasMore } = await searchRepository.search(
+			db,
+			q,
+			{ shelterId, from, to, recordType: typeParam },
+			limit,
+		);
+		const response: paths["/search"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				query: q,
+				terms,
+				results: hits,
+				hasMore,
+			};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof searchRepository.EmptySearchQueryError) {
+			return invalid(error.message);
+		}
+		console.error("D1 search query failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// ==================== 同期API ====================
+
+// 同期ステータスを取得（未同期データの統計）
+app.get("/api/sync/status", async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const stats = await syncRepository.syncRepository.getSyncStats(db);
+		return c.json(stats);
+	} catch (error) {
+		console.error("Failed to get sync status", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		return c.json({ error: message }, 500);
+	}
+});
+
+type SyncPreviewResponse = components["schemas"]["SyncPreviewResponse"];
+
+const jsonByteLength = (value: unknown): number =>
+	new TextEncoder().encode(JSON.stringify(value)).byteLength;
+
+type SyncOutOfScopeShelter = components["schemas"]["SyncOutOfScopeShelter"];
+
+/**
+ * 送信対象外の避難所に残っている未同期データを、避難所名を付けて集計する
+ */
+async function describeOutOfScope(
+	db: Database,
+	scope: number[] | null,
+): Promise<SyncOutOfScopeShelter[]> {
+	if (scope === null) {
+		return [];
+	}
+	const [exclusions, shelters] = await Promise.all([
+		syncRepository.syncRepository.fetchOutOfScopeCounts(db, scope),
+		shelterRepository.getShelterList(db),
+	]);
+	const shelterNames = new Map(
+		shelters.map((shelter) => [shelter.id, shelter.name]),
+	);
+	return exclusions.map((exclusion) => ({
+		...exclusion,
+		shelterName:
+			exclusion.shelterId === null
+				? null
+				: (shelterNames.get(exclusion.shelterId) ?? null),
+	}));
+}
+
+const countOutOfScope = (outOfScope: SyncOutOfScopeShelter[]): number =>
+	outOfScope.reduce(
+		(total, shelter) =>
+			total +
+			shelter.posts +
+			shelter.comments +
+			shelter.locationTracks +
+			shelter.media +
+			shelter.occupancy +
+			shelter.inventoryItems +
+			shelter.inventoryTransactions,
+		0,
+	);
+
+/**
+ * Push（/api/sync/execute と /api/sync/media）で送信される内容を、実際には送信せずに集計する
+ * メディアファイルの容量はR2のオブジェクトサイズから求める
+ */
+async function buildPushPreview(
+	env: Bindings,
+	scope: number[] | null,
+): Promise<SyncPreviewResponse["push"]> {
+	const db = dbConnect(env);
+
+	const [
+		posts,
+		comments,
+		locationTracks,
+		occupancy,
+		inventoryItems,
+		inventoryTransactions,
+		mediaFiles,
+		shelters,
+		outOfScope,
+	] = await Promise.all([
+		syncRepository.syncRepository.fetchUnsyncedPosts(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedComments(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedLocationTracks(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedOccupancy(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedInventoryItems(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedInventoryTransactions(db, scope),
+		syncRepository.syncRepository.fetchUnsyncedMedia(db, scope),
+		shelterRepository.getShelterList(db),
+		describeOutOfScope(db, scope),
+	]);
+	const mediaRecords = await syncRepository.syncRepository.fetchMediaByPostIds(
+		db,
+		posts.map((post) => post.id),
+	);
+
+	// 送信されるデータ本体はバッチ単位のJSONなので、実際のバッチから容量を求める
+	const batches = buildPushBatches({
+		posts,
+		comments,
+		locationTracks,
+		media: mediaRecords,
+		occupancy,
+		inventoryItems,
+		inventoryTransactions,
+	});
+
+	// メディアファイル本体は /api/sync/media で送信される
+	const mediaSizes = new Map<string, number | null>();
+	for (const media of mediaFiles) {
+		const object = await env.ASSET_BUCKET.head(media.file_path);
+		mediaSizes.set(media.id, object ? object.size : null);
+	}
+
+	// 避難所ごとの内訳（メディアはレコードとファイル本体の両方を対象にする）
+	const mediaById = new Map(
+		[...mediaRecords, ...mediaFiles].map((media) => [media.id, media]),
+	);
+	const grouped = await syncRepository.syncRepository.groupDataByShelter(db, {
+		posts,
+		comments,
+		locationTracks,
+		media: Array.from(mediaById.values()),
+		occupancy,
+		inventoryItems,
+		inventoryTransactions,
+	});
+	const shelterNames = new Map(
+		shelters.map((shelter) => [shelter.id, shelter.name]),
+	);
+
+	const shelterPreviews = Array.from(grouped.entries()).map(
+		([shelterId, group]) => ({
+			shelterId,
+			shelterName: shelterNames.get(shelterId) ?? null,
+			posts: group.posts.length,
+			comments: group.comments.length,
+			locationTracks: group.locationTracks.length,
+			media: group.media.length,
+			occupancy: group.occupancy?.length ?? 0,
+			inventoryItems: group.inventoryItems?.length ?? 0,
+			inventoryTransactions: group.inventoryTransactions?.length ?? 0,
+			recordBytes: jsonByteLength(group),
+			mediaBytes: group.media.reduce(
+				(total, media) => total + (mediaSizes.get(media.id) ?? 0),
+				0,
+			),
+		}),
+	);
+
+	return {
+		shelters: shelterPreviews,
+		posts: posts.length,
+		comments: comments.length,
+		locationTracks: locationTracks.length,
+		media: mediaRecords.length,
+		occupancy: occupancy.length,
+		inventoryItems: inventoryItems.length,
+		inventoryTransactions: inventoryTransactions.length,
+		batches: batches.length,
+		recordBytes: batches.reduce(
+			(total, batch) => total + jsonByteLength(batch),
+			0,
+		),
+		mediaFiles: mediaFiles.length,
+		mediaBytes: Array.from(mediaSizes.values()).reduce<number>(
+			(total, size) => total + (size ?? 0),
+			0,
+		),
+		missingMediaFiles: Array.from(mediaSizes.values()).filter(
+			(size) => size === null,
+		).length,
+		scopeShelterIds: scope,
+		outOfScope,
+	};
+}
+
+/**
+ * 差分Pullで取得される内容を、同期先の /api/sync/pull から次の1ページ分だけ取得して集計する
+ * 取得したデータは反映せず、カーソルも進めない
+ */
+async function buildPullPreview(
+	env: Bindings,
+	targetUrl: string,
+	shelterId: number,
+): Promise<NonNullable<SyncPreviewResponse["pull"]>> {
+	const db = dbConnect(env);
+	const stateKey = pullStateKey(env, targetUrl, shelterId);
+	const [lastPulledAt, cursor] = await Promise.all([
+		syncRepository.syncRepository.getLastPulledAt(db, stateKey),
+		syncRepository.syncRepository.getPullCursor(db, stateKey),
+	]);
+
+	const queryParams = new URLSearchParams({
+		shelterId: String(shelterId),
+		cursor: String(cursor),
+		limit: String(syncRepository.MAX_PULL_PAGE_SIZE),
+		protocolVersion: String(syncProtocolRepository.SYNC_PROTOCOL_VERSION),
+	});
+	if (lastPulledAt) {
+		queryParams.set("since", lastPulledAt);
+	}
+
+	const emptyPreview = {
+		available: false,
+		shelters: 0,
+		posts: 0,
+		comments: 0,
+		locationTracks: 0,
+		media: 0,
+		inventoryItems: 0,
+		inventoryTransactions: 0,
+		hasMore: false,
+		responseBytes: 0,
+	};
+
+	let response: Response;
+	try {
+		const pullUrl = `${targetUrl}/api/sync/pull?${queryParams}`;
+		response = await fetch(pullUrl, {
+			headers: {
+				...syncCompressionRepository.acceptEncodingHeaders(),
+				...(await signSyncRequest(env, "GET", pullUrl)),
+			},
+		});
+	} catch (fetchError) {
+		const fetchMessage =
+			fetchError instanceof Error ? fetchError.message : String(fetchError);
+		return { ...emptyPreview, error: `同期先への接続エラー: ${fetchMessage}` };
+	}
+
+	if (!response.ok) {
+		return {
+			...emptyPreview,
+			error: `同期先APIエラー: ${response.status}`,
+		};
+	}
+
+	// 転送量は圧縮後の本文の大きさで見積もる
+	const body = await response.arrayBuffer();
+	const pullData = await decodeSyncJson<
+		paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"]
+	>(
+		body,
+		response.headers.get(
+			syncCompressionRepository.SYNC_HEADER_CONTENT_ENCODING,
+		),
+	);
+
+	return {
+		available: true,
+		shelters: pullData.shelters?.length ?? 0,
+		posts: pullData.posts.length,
+		comments: pullData.comments.length,
+		locationTracks: pullData.locationTracks.length,
+		media: pullData.media.length,
+		inventoryItems: pullData.inventoryItems?.length ?? 0,
+		inventoryTransactions: pullData.inventoryTransactions?.length ?? 0,
+		hasMore: pullData.hasMore ?? false,
+		responseBytes: body.byteLength,
+	};
+}
+
+// 同期内容のプレビュー（送信・取得される件数と容量の見積もり。実際には同期しない）
+app.get("/api/sync/preview", async (c) => {
+	const targetUrl = c.req.query("targetUrl");
+	const shelterId = resolveShelterId(c.req.query("shelterId"), c.env);
+	// 送信対象は同期の実行時と同じく、明示した避難所IDかノードに設定した避難所で決める
+	const scope = resolvePushScope(
+		c.env,
+		parseShelterId(c.req.query("shelterId")),
+	);
+
+	if (targetUrl && !(await isAllowedSyncTarget(c.env, targetUrl))) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: SYNC_TARGET_NOT_ALLOWED_MESSAGE,
+		};
+		return c.json(errorResponse, 403);
+	}
+
+	try {
+		const [push, pull] = await Promise.all([
+			buildPushPreview(c.env, scope),
+			targetUrl && shelterId
+				? buildPullPreview(c.env, targetUrl, shelterId)
+				: Promise.resolve(null),
+		]);
+
+		const response: SyncPreviewResponse = {
+			generatedAt: new Date().toISOString(),
+			push,
+			pull,
+		};
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to build sync preview", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+/**
+ * 同期処理の実行結果（手動実行のAPIと定期実行で共通）
+ */
+type SyncRunResult<T> =
+	| { ok: true; result: T }
+	| { ok: false; error: string; details?: unknown };
+
+type PushSyncResult =
+	paths["/api/sync/execute"]["post"]["responses"]["200"]["content"]["application/json"] & {
+		remoteResults?: unknown[];
+	};
+
+/**
+ * 同期先ノードが対応する同期プロトコルのバージョン範囲と、送信する本文の圧縮方式を取得する
+ * ハンドシェイクに対応する前のノードは旧形式のみ扱え、圧縮した本文は受け取れないものとみなす
+ */
+async function fetchRemoteProtocol(
+	env: Bindings,
+	targetUrl: string,
+	metrics?: SyncLogMetrics,
+): Promise<
+	syncProtocolRepository.SyncProtocolRange & {
+		contentEncoding: SyncContentEncoding | null;
+	}
+> {
+	const handshakeUrl = `${targetUrl}/api/sync/handshake`;
+	let response: Response;
+	try {
+		response = await fetchUpstream(metrics, handshakeUrl, {
+			headers: await signSyncRequest(env, "GET", handshakeUrl),
+		});
+	} catch (fetchError) {
+		const fetchMessage =
+			fetchError instanceof Error ? fetchError.message : String(fetchError);
+		throw new Error(`ハンドシェイク失敗: ${fetchMessage}`);
+	}
+
+	if (response.status === 404) {
+		return {
+			protocolVersion: syncProtocolRepository.LEGACY_SYNC_PROTOCOL_VERSION,
+			minProtocolVersion: syncProtocolRepository.LEGACY_SYNC_PROTOCOL_VERSION,
+			contentEncoding: null,
+		};
+	}
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`ハンドシェイク失敗: ${response.status} ${errorText}`);
+	}
+
+	const handshake =
+		await response.json<
+			paths["/api/sync/handshake"]["get"]["responses"]["200"]["content"]["application/json"]
+		>();
+	return {
+		protocolVersion: handshake.protocolVersion,
+		minProtocolVersion: handshake.minProtocolVersion,
+		contentEncoding: syncCompressionRepository.negotiate(
+			handshake.contentEncodings,
+		),
+	};
+}
+
+/**
+ * ローカルDBの未同期データを同期先へバッチ単位で送信する
+ * （jobLogId を渡すと同期ジョブのログに進捗を記録し、excludePostIds の投稿と関連データは次回に回す）
+ * scope の避難所以外の未同期データは送らず、件数を結果と同期ログに記録する
+ * onlyRecords を渡すと、その中のレコード（failureKey）だけを送る（失敗項目の再試行で使用）
+ */
+async function runPushSync(
+	env: Bindings,
+	{
+		targetUrl,
+		shelterId,
+		scope,
+		syncType,
+		sourceUrl,
+		jobLogId,
+		excludePostIds,
+		onlyRecords,
+	}: {
+		targetUrl: string;
+		shelterId?: number | null;
+		scope: number[] | null;
+		syncType: string;
+		sourceUrl: string;
+		jobLogId?: number;
+		excludePostIds?: Set<string>;
+		onlyRecords?: Set<string>;
+	},
+): Promise<SyncRunResult<PushSyncResult>> {
+	const db = dbConnect(env);
+	const startedAt = Date.now();
+	const metrics = newSyncMetrics();
+
+	try {
+		console.log("🔄 同期開始:", targetUrl);
+		if (shelterId) {
+			console.log("🏠 避難所ID:", shelterId);
+		}
+		if (scope) {
+			console.log("🎯 送信対象の避難所ID:", scope.join(", "));
+		}
+
+		// 未同期データを取得
+		const [
+			unsyncedPosts,
+			unsyncedComments,
+			unsyncedLocationTracks,
+			unsyncedOccupancy,
+			unsyncedInventoryItems,
+			unsyncedInventoryTransactions,
+			outOfScope,
+		] = await Promise.all([
+			syncRepository.syncRepository.fetchUnsyncedPosts(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedComments(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedLocationTracks(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedOccupancy(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedInventoryItems(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedInventoryTransactions(
+				db,
+				scope,
+			),
+			describeOutOfScope(db, scope),
+		]);
+		// 対象外の避難所のデータは未同期のまま残し、送らなかったことを記録する
+		const outOfScopeRecords = countOutOfScope(outOfScope);
+		if (outOfScopeRecords > 0) {
+			console.warn(
+				`⚠️ 送信対象外の避難所の未同期データ ${outOfScopeRecords}件は送信しません:`,
+				outOfScope
+					.map(
+						(shelter) =>
+							shelter.shelterName ?? `避難所ID ${shelter.shelterId ?? "不明"}`,
+					)
+					.join(", "),
+			);
+		}
+		const recordOutOfScope = async (logId: number) => {
+			if (outOfScopeRecords > 0) {
+				await syncRepository.syncRepository.recordSyncLogOutOfScope(
+					db,
+					logId,
+					outOfScopeRecords,
+				);
+			}
+		};
+		const isSelected = (recordType: SyncFailureRecordType, id: string) =>
+			onlyRecords === undefined || onlyRecords.has(failureKey(recordType, id));
+		// メディア本体が届いていない投稿は、参照切れを避けるため関連データごと送信を見送る
+		const isIncluded = (postId: string) => !excludePostIds?.has(postId);
+		const posts = unsyncedPosts.filter(
+			(post) => isIncluded(post.id) && isSelected("post", post.id),
+		);
+		const comments = unsyncedComments.filter(
+			(comment) =>
+				isIncluded(comment.post_id) && isSelected("comment", comment.id),
+		);
+		const locationTracks = unsyncedLocationTracks.filter(
+			(track) =>
+				isIncluded(track.post_id) && isSelected("location_track", track.id),
+		);
+		const occupancy = unsyncedOccupancy.filter((record) =>
+			isSelected("occupancy", record.id),
+		);
+		const inventoryItems = unsyncedInventoryItems.filter((item) =>
+			isSelected("inventory_item", item.id),
+		);
+		const inventoryTransactions = unsyncedInventoryTransactions.filter(
+			(transaction) => isSelected("inventory_transaction", transaction.id),
+		);
+		const media = await syncRepository.syncRepository.fetchMediaByPostIds(
+			db,
+			posts.map((post) => post.id),
+		);
+
+		console.log(
+			`📊 未同期データ: posts=${posts.length}, comments=${comments.length}, tracks=${locationTracks.length}, media=${media.length}, occupancy=${occupancy.length}, inventoryItems=${inventoryItems.length}, inventoryTransactions=${inventoryTransactions.length}`,
+		);
+
+		// 前回途中で失敗した同期があれば、そのログを引き継いで残りのバッチから再開する
+		const resumableLog =
+			jobLogId === undefined
+				? await syncRepository.syncRepository.findResumablePushLog(
+						db,
+						targetUrl,
+						shelterId,
+					)
+				: null;
+
+		if (
+			posts.length === 0 &&
+			comments.length === 0 &&
+			locationTracks.length === 0 &&
+			occupancy.length === 0 &&
+			inventoryItems.length === 0 &&
+			inventoryTransactions.length === 0
+		) {
+			if (resumableLog) {
+				await recordOutOfScope(resumableLog.id);
+				await syncRepository.syncRepository.completeSyncLog(
+					db,
+					resumableLog.id,
+					resumableLog.posts_synced,
+					resumableLog.comments_synced,
+					resumableLog.location_tracks_synced,
+					resumableLog.media_synced,
+				);
+			} else {
+				const logId =
+					jobLogId ??
+					(await syncRepository.syncRepository.createSyncLog(
+						db,
+						syncType,
+						targetUrl,
+						shelterId,
+					));
+				await recordOutOfScope(logId);
+				await syncRepository.syncRepository.completeSyncLog(
+					db,
+					logId,
+					0,
+					0,
+					0,
+					0,
+				);
+			}
+			return {
+				ok: true,
+				result: {
+					success: true,
+					message: "同期するデータがありません",
+					postsSynced: 0,
+					commentsSynced: 0,
+					locationTracksSynced: 0,
+					mediaSynced: 0,
+					scopeShelterIds: scope,
+					outOfScope,
+				},
+			};
+		}
+
+		const batches = buildPushBatches({
+			posts,
+			comments,
+			locationTracks,
+			media,
+			occupancy,
+			inventoryItems,
+			inventoryTransactions,
+		});
+
+		let logId: number;
+		// 再開時はログに記録済みの件数・完了バッチ数に今回分を加算する
+		const totals = {
+			postsSynced: resumableLog?.posts_synced ?? 0,
+			commentsSynced: resumableLog?.comments_synced ?? 0,
+			locationTracksSynced: resumableLog?.location_tracks_synced ?? 0,
+			mediaSynced: resumableLog?.media_synced ?? 0,
+		};
+		const batchesCompletedBefore = resumableLog?.batches_completed ?? 0;
+		const batchesTotal = batchesCompletedBefore + batches.length;
+
+		if (resumableLog) {
+			logId = resumableLog.id;
+			await syncRepository.syncRepository.resumeSyncLog(
+				db,
+				logId,
+				batchesTotal,
+			);
+			console.log(
+				`🔁 同期ログID ${logId} を再開: 完了済み ${batchesCompletedBefore} バッチ、残り ${batches.length} バッチ`,
+			);
+		} else {
+			logId =
+				jobLogId ??
+				(await syncRepository.syncRepository.createSyncLog(
+					db,
+					syncType,
+					targetUrl,
+					shelterId,
+				));
+			await syncRepository.syncRepository.startSyncLogBatches(
+				db,
+				logId,
+				batchesTotal,
+			);
+		}
+		await recordOutOfScope(logId);
+		const recordMetrics = () =>
+			syncRepository.syncRepository.addSyncLogMetrics(db, logId, {
+				...metrics,
+				dataDurationMs: Date.now() - startedAt,
+			});
+
+		// 同期先のビルドと送信するペイロードの形式を合わせる（扱えない場合は送らずにログへ記録する）
+		let protocolVersion: number;
+		let contentEncoding: SyncContentEncoding | null;
+		try {
+			const remote = await fetchRemoteProtocol(env, targetUrl, metrics);
+			protocolVersion = syncProtocolRepository.negotiate(remote);
+			contentEncoding = remote.contentEncoding;
+		} catch (handshakeError) {
+			const handshakeMessage =
+				handshakeError instanceof Error
+					? handshakeError.message
+					: String(handshakeError);
+			await recordMetrics();
+			await syncRepository.syncRepository.failSyncLog(
+				db,
+				logId,
+				handshakeMessage,
+			);
+			return { ok: false, error: handshakeMessage };
+		}
+
+		const receiveUrl = `${targetUrl}/api/sync/receive`;
+		let conflictsDetected = 0;
+		const remoteResults: unknown[] = [];
+
+		for (const [index, batch] of batches.entries()) {
+			const batchLabel = `バッチ ${batchesCompletedBefore + index + 1}/${batchesTotal}`;
+			const { body: payload, headers: payloadHeaders } = await encodeSyncJson(
+				{ ...batch, sourceUrl, protocolVersion },
+				contentEncoding,
+			);
+
+			console.log(
+				`📤 ${batchLabel} 送信中: posts=${batch.posts.length}, comments=${batch.comments.length}, tracks=${batch.locationTracks.length}, media=${batch.media.length}, ${payload.byteLength} bytes`,
+			);
+
+			// 送信に失敗したバッチ以降は未同期のまま残し、次回の実行で再開する
+			// 失敗したバッチのレコードは失敗項目として記録し、同期ログから再試行できるようにする
+			const failBatch = async (reason: string) => {
+				console.error(`❌ ${batchLabel} 失敗: ${reason}`);
+				await syncLogFailureRepository.recordFailures(
+					db,
+					logId,
+					"push",
+					pushBatchFailures(batch, reason),
+				);
+				await recordMetrics();
+				await syncRepository.syncRepository.failSyncLog(
+					db,
+					logId,
+					`${batchLabel} で失敗: ${reason}`,
+				);
+			};
+
+			metrics.payloadBytes += payload.byteLength;
+			let response: Response;
+			try {
+				response = await fetchUpstream(metrics, receiveUrl, {
+					method: "POST",
+					headers: {
+						...payloadHeaders,
+						...(await signSyncRequest(env, "POST", receiveUrl, payload)),
+					},
+					body: payload,
+				});
+			} catch (fetchError) {
+				const fetchErrorMsg =
+					fetchError instanceof Error ? fetchError.message : String(fetchError);
+				await failBatch(`fetch失敗: ${fetchErrorMsg}`);
+				return {
+					ok: false,
+					error: `本番APIへの接続エラー: ${fetchErrorMsg}`,
+				};
+			}
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				await failBatch(`本番API応答エラー: ${response.status} ${errorText}`);
+				return {
+					ok: false,
+					error: `同期先APIエラー: ${response.status}`,
+					details: errorText,
+				};
+			}
+
+			let result: unknown;
+			try {
+				result = await response.json();
+			} catch (jsonError) {
+				const jsonErrorMsg =
+					jsonError instanceof Error ? jsonError.message : String(jsonError);
+				await failBatch(`レスポンスJSON解析失敗: ${jsonErrorMsg}`);
+				return { ok: false, error: `レスポンス解析エラー: ${jsonErrorMsg}` };
+			}
+			remoteResults.push(result);
+
+			// 受信側で保存に失敗した避難所がある場合は、このバッチを未同期のまま残す
+			if (
+				typeof result === "object" &&
+				result !== null &&
+				"success" in result &&
+				result.success === false
+			) {
+				await failBatch("本番側でデータの保存に失敗しました");
+				return {
+					ok: false,
+					error: "同期先でデータの保存に失敗しました",
+					details: result,
+				};
+			}
+
+			// 送信先で競合として保存された件数（競合検出に対応する前の本番APIからは返らない）
+			if (
+				typeof result === "object" &&
+				result !== null &&
+				"conflictsDetected" in result &&
+				typeof result.conflictsDetected === "number"
+			) {
+				conflictsDetected += result.conflictsDetected;
+			}
+
+			// 受信が確認できたバッチの同期フラグを更新し、進捗をログに記録する
+			await Promise.all([
+				syncRepository.syncRepository.markPostsAsSynced(db, batch.posts),
+				syncRepository.syncRepository.markCommentsAsSynced(db, batch.comments),
+				syncRepository.syncRepository.markLocationTracksAsSynced(
+					db,
+					batch.locationTracks,
+				),
+				syncRepository.syncRepository.markOccupancyAsSynced(
+					db,
+					batch.occupancy,
+				),
+				syncRepository.syncRepository.markInventoryItemsAsSynced(
+					db,
+					batch.inventoryItems,
+				),
+				syncRepository.syncRepository.markInventoryTransactionsAsSynced(
+					db,
+					batch.inventoryTransactions,
+				),
+			]);
+
+			totals.postsSynced += batch.posts.length;
+			totals.commentsSynced += batch.comments.length;
+			totals.locationTracksSynced += batch.locationTracks.length;
+			totals.mediaSynced += batch.media.length;
+			await syncRepository.syncRepository.recordSyncLogBatch(db, logId, totals);
+			console.log(`✅ ${batchLabel} 完了`);
+		}
+
+		// 同期ログを完了に更新
+		await recordMetrics();
+		await syncRepository.syncRepository.completeSyncLog(
+			db,
+			logId,
+			totals.postsSynced,
+			totals.commentsSynced,
+			totals.locationTracksSynced,
+			totals.mediaSynced,
+		);
+
+		console.log("✅ 同期完了");
+
+		return {
+			ok: true,
+			result: {
+				success: true,
+				postsSynced: posts.length,
+				commentsSynced: comments.length,
+				locationTracksSynced: locationTracks.length,
+				mediaSynced: media.length,
+				conflictsDetected,
+				batchesCompleted: batchesTotal,
+				batchesTotal,
+				scopeShelterIds: scope,
+				outOfScope,
+				remoteResults,
+			},
+		};
+	} catch (error) {
+		console.error("❌❌❌ Sync execution failed ❌❌❌");
+		console.error("エラーオブジェクト:", error);
+		console.error("エラー型:", typeof error);
+		if (error instanceof Error) {
+			console.error("エラーメッセージ:", error.message);
+			console.error("スタックトレース:", error.stack);
+		}
+		const message = error instanceof Error ? error.message : "Unknown error";
+		return { ok: false, error: message };
+	}
+}
+
+// 同期を実行（ローカル → 本番）
+app.post("/api/sync/execute", async (c) => {
+	const db = dbConnect(c.env);
+	let lockHolder: string | null = null;
+
+	try {
+		const reqBody = await c.req.json<{
+			targetUrl: string;
+			shelterId?: number;
+		}>();
+		const targetUrl = reqBody.targetUrl;
+
+		if (!targetUrl) {
+			return c.json({ error: "targetUrl is required" }, 400);
+		}
+		if (!(await isAllowedSyncTarget(c.env, targetUrl))) {
+			return c.json({ error: SYNC_TARGET_NOT_ALLOWED_MESSAGE }, 403);
+		}
+
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+			db,
+			"manual",
+		);
+		if (!lockHolder) {
+			return c.json({ error: SYNC_LOCKED_MESSAGE }, 409);
+		}
+
+		const run = await runPushSync(c.env, {
+			targetUrl,
+			shelterId: reqBody.shelterId,
+			scope: resolvePushScope(c.env, reqBody.shelterId),
+			syncType: "manual",
+			sourceUrl: c.req.url,
+		});
+		if (!run.ok) {
+			return c.json({ error: run.error, details: run.details }, 500);
+		}
+		return c.json(run.result);
+	} catch (error) {
+		console.error("Sync execution failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		return c.json({ error: message }, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
+	}
+});
+
+/**
+ * 変更ログに対応する前のノード向けに、updated_at が since より新しいレコードを返す
+ */
+async function fetchTimestampPullData(
+	db: Database,
+	shelterId: number,
+	since: string | undefined,
+): Promise<
+	Omit<SyncChangePage, "nextCursor" | "hasMore"> &
+		Partial<Pick<SyncChangePage, "nextCursor" | "hasMore">>
+> {
+	const [posts, comments, locationTracks, media] = await Promise.all([
+		syncRepository.syncRepository.fetchPostsForPull(db, shelterId, since),
+		syncRepository.syncRepository.fetchCommentsForPull(db, shelterId, since),
+		syncRepository.syncRepository.fetchLocationTracksForPull(
+			db,
+			shelterId,
+			since,
+		),
+		syncRepository.syncRepository.fetchMediaForPull(db, shelterId, since),
+	]);
+	return { posts, comments, locationTracks, media };
+}
+
+// 同期プロトコルのハンドシェイク（送信側が送信前に対応バージョンを確認する）
+app.get("/api/sync/handshake", (c) => {
+	const response: paths["/api/sync/handshake"]["get"]["responses"]["200"]["content"]["application/json"] =
+		{
+			nodeId: c.env.SYNC_NODE_ID ?? null,
+			protocolVersion: syncProtocolRepository.SYNC_PROTOCOL_VERSION,
+			minProtocolVersion: syncProtocolRepository.MIN_SYNC_PROTOCOL_VERSION,
+			contentEncodings: [...syncCompressionRepository.SYNC_CONTENT_ENCODINGS],
+			serverTime: new Date().toISOString(),
+		};
+	return c.json(response);
+});
+
+// 差分Pullデータを取得（本番側で使用）
+app.get("/api/sync/pull", async (c) => {
+	const db = dbConnect(c.env);
+	const since = c.req.query("since");
+	const shelterId = resolveShelterId(c.req.query("shelterId"), c.env);
+
+	if (!shelterId) {
+		return c.json({ error: "shelterId is required" }, 400);
+	}
+
+	// cursor を指定した場合は投稿・コメント・位置トラック・メディアを変更ログからページ単位で返す
+	const cursorParam = c.req.query("cursor");
+	const limitParam = c.req.query("limit");
+	const cursor =
+		cursorParam !== undefined ? Number.parseInt(cursorParam, 10) : undefined;
+	const limit = limitParam
+		? Number.parseInt(limitParam, 10)
+		: syncRepository.MAX_PULL_PAGE_SIZE;
+
+	if (cursor !== undefined && (Number.isNaN(cursor) || cursor < 0)) {
+		return c.json({ error: "cursor must be a non-negative number" }, 400);
+	}
+
+	// 取得側が扱えるバージョンで返す（指定がない場合は旧形式のノードとみなす）
+	const requestedVersion = syncProtocolRepository.resolveVersion(
+		c.req.query("protocolVersion"),
+	);
+	if (requestedVersion < syncProtocolRepository.MIN_SYNC_PROTOCOL_VERSION) {
+		const error = new syncProtocolRepository.IncompatibleSyncProtocolError(
+			requestedVersion,
+			syncProtocolRepository.localRange,
+		);
+		return c.json({ error: error.message }, 400);
+	}
+	if (
+		Number.isNaN(limit) ||
+		limit < 1 ||
+		limit > syncRepository.MAX_PULL_PAGE_SIZE
+	) {
+		return c.json(
+			{
+				error: `limit must be between 1 and ${syncRepository.MAX_PULL_PAGE_SIZE}`,
+			},
+			400,
+		);
+	}
+
+	try {
+		// 変更ログを読む前の時刻を返し、取得中に更新された避難所・在庫も次回の since に含める
+		const serverTime = new Date().toISOString();
+		const [shelters, inventoryItems, inventoryTransactions, changes] =
+			await Promise.all([
+				syncRepository.syncRepository.fetchSheltersForPull(db, since),
+				syncRepository.syncRepository.fetchInventoryItemsForPull(
+					db,
+					shelterId,
+					since,
+				),
+				syncRepository.syncRepository.fetchInventoryTransactionsForPull(
+					db,
+					shelterId,
+					since,
+				),
+				cursor !== undefined
+					? syncRepository.syncRepository.fetchChangesForPull(
+							db,
+							[shelterId],
+							cursor,
+							limit,
+						)
+					: fetchTimestampPullData(db, shelterId, since),
+			]);
+
+		const response: paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				serverTime,
+				shelters,
+				posts: changes.posts,
+				comments: changes.comments,
+				locationTracks: changes.locationTracks,
+				media: changes.media,
+				inventoryItems,
+				inventoryTransactions,
+				nextCursor: changes.nextCursor,
+				hasMore: changes.hasMore,
+				relayNode: isRelayNode(c.env),
+				nodeId: c.env.SYNC_NODE_ID ?? null,
+				protocolVersion: Math.min(
+					requestedVersion,
+					syncProtocolRepository.SYNC_PROTOCOL_VERSION,
+				),
+			};
+
+		// 取得側が受け取れる場合は本文を圧縮して返す
+		const encoded = await encodeSyncJson(
+			response,
+			syncCompressionRepository.negotiate(
+				c.req.header(syncCompressionRepository.SYNC_HEADER_ACCEPT_ENCODING),
+			),
+		);
+		return c.body(encoded.body, 200, encoded.headers);
+	} catch (error) {
+		console.error("Failed to pull sync data", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		return c.json({ error: message }, 500);
+	}
+});
+
+type PullSyncResult =
+	paths["/api/sync/pull/execute"]["post"]["responses"]["200"]["content"]["application/json"];
+
+/**
+ * 同期先から差分データをページ単位で取得してローカルDBへ反映する
+ * lowBandwidth の場合、画像は縮小したものを取得する（既定は上流との回線の設定）
+ */
+async function runPullSync(
+	env: Bindings,
+	{
+		targetUrl,
+		shelterId,
+		syncType,
+		stateKey = pullStateKey(env, targetUrl, shelterId),
+		lowBandwidth = isLowBandwidthLink(env),
+	}: {
+		targetUrl: string;
+		shelterId: number;
+		syncType: string;
+		stateKey?: SyncStateKey;
+		lowBandwidth?: boolean;
+	},
+): Promise<SyncRunResult<PullSyncResult>> {
+	const db = dbConnect(env);
+	const maxImageWidth = lowBandwidth
+		? LOW_BANDWIDTH_IMAGE_MAX_WIDTH
+		: undefined;
+	const startedAt = Date.now();
+	const metrics = newSyncMetrics();
+	let logId: number | null = null;
+	// メディア転送の時間はデータ取得の時間から除く
+	const recordMetrics = (id: number) =>
+		syncRepository.syncRepository.addSyncLogMetrics(db, id, {
+			...metrics,
+			dataDurationMs: Date.now() - startedAt - metrics.mediaDurationMs,
+		});
+
+	try {
+		logId = await syncRepository.syncRepository.createSyncLog(
+			db,
+			syncType,
+			targetUrl,
+			shelterId,
+		);
+
+		const lastPulledAt = await syncRepository.syncRepository.getLastPulledAt(
+			db,
+			stateKey,
+		);
+		let cursor = await syncRepository.syncRepository.getPullCursor(
+			db,
+			stateKey,
+		);
+
+		const totals = {
+			sheltersApplied: 0,
+			postsApplied: 0,
+			commentsApplied: 0,
+			locationTracksApplied: 0,
+			mediaApplied: 0,
+			inventoryItemsApplied: 0,
+			inventoryTransactionsApplied: 0,
+			conflictsDetected: 0,
+		};
+		let mediaSynced = 0;
+		let mediaFailed = 0;
+		let serverTime: string | null = null;
+		let hasMore = true;
+		let pagesPulled = 0;
+
+		// 変更ログをページ単位で取り込み、ページごとにカーソルを保存する（中断しても続きから再開できる）
+		while (hasMore && pagesPulled < MAX_PULL_PAGES_PER_RUN) {
+			const queryParams = new URLSearchParams({
+				shelterId: String(shelterId),
+				cursor: String(cursor),
+				limit: String(syncRepository.MAX_PULL_PAGE_SIZE),
+				protocolVersion: String(syncProtocolRepository.SYNC_PROTOCOL_VERSION),
+			});
+			if (lastPulledAt) {
+				queryParams.set("since", lastPulledAt);
+			}
+
+			let response: Response;
+			try {
+				const pullUrl = `${targetUrl}/api/sync/pull?${queryParams}`;
+				response = await fetchUpstream(metrics, pullUrl, {
+					headers: {
+						...syncCompressionRepository.acceptEncodingHeaders(),
+						...(await signSyncRequest(env, "GET", pullUrl)),
+					},
+				});
+			} catch (fetchError) {
+				const fetchMessage =
+					fetchError instanceof Error ? fetchError.message : String(fetchError);
+				await recordMetrics(logId);
+				await syncRepository.syncRepository.failSyncLog(
+					db,
+					logId,
+					`fetch失敗: ${fetchMessage}`,
+				);
+				return { ok: false, error: `本番APIへの接続エラー: ${fetchMessage}` };
+			}
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				await recordMetrics(logId);
+				await syncRepository.syncRepository.failSyncLog(
+					db,
+					logId,
+					`本番API応答エラー: ${response.status} ${errorText}`,
+				);
+				return {
+					ok: false,
+					error: `同期先APIエラー: ${response.status}`,
+					details: errorText,
+				};
+			}
+
+			const pullBody = await response.arrayBuffer();
+			metrics.payloadBytes += pullBody.byteLength;
+			const pullData = await decodeSyncJson<
+				paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"]
+			>(
+				pullBody,
+				response.headers.get(
+					syncCompressionRepository.SYNC_HEADER_CONTENT_ENCODING,
+				),
+			);
+			pagesPulled++;
+
+			// 自ノードで扱えない形式のデータは反映しない（旧形式の欠けている列は normalizePullData で補う）
+			try {
+				syncProtocolRepository.assertSupported(
+					syncProtocolRepository.resolveVersion(pullData.protocolVersion),
+				);
+			} catch (error) {
+				if (
+					error instanceof syncProtocolRepository.IncompatibleSyncProtocolError
+				) {
+					await recordMetrics(logId);
+					await syncRepository.syncRepository.failSyncLog(
+						db,
+						logId,
+						error.message,
+					);
+					return { ok: false, error: error.message };
+				}
+				throw error;
+			}
+
+			const normalizedPullData = normalizePullData(pullData);
+			// 避難所・在庫情報は since 基準のため全ページに同じ内容が含まれる。最初のページだけ反映する
+			if (pagesPulled > 1) {
+				normalizedPullData.shelters = [];
+				normalizedPullData.inventoryItems = [];
+				normalizedPullData.inventoryTransactions = [];
+			}
+
+			// 中継ノードから取得したデータは本番へ未到達のため、未同期として保持し上流へ転送する
+			const applyResult = await syncRepository.syncRepository.applyPulledData(
+				db,
+				normalizedPullData,
+				{
+					relay: pullData.relayNode === true,
+					senderNodeId: pullData.nodeId ?? null,
+				},
+			);
+			for (const key of Object.keys(totals) as (keyof typeof totals)[]) {
+				totals[key] += applyResult[key];
+			}
+
+			// メディアファイルを本番R2からローカルR2に同期
+			if (normalizedPullData.media.length > 0) {
+				console.log(
+					`📦 メディアファイル同期開始: ${normalizedPullData.media.length}件`,
+				);
+				const mediaResult = await measureMediaTransfer(metrics, () =>
+					syncMediaFiles(
+						env.ASSET_BUCKET,
+						targetUrl,
+						normalizedPullData.media,
+						env,
+						metrics,
+						maxImageWidth,
+					),
+				);
+				mediaSynced += mediaResult.synced;
+				mediaFailed += mediaResult.failed;
+				await syncLogFailureRepository.recordFailures(
+					db,
+					logId,
+					"pull",
+					mediaFailures(mediaResult.errors),
+				);
+				console.log(
+					`📦 メディアファイル同期完了: 成功=${mediaResult.synced}, 失敗=${mediaResult.failed}`,
+				);
+			}
+
+			// 最初のページ取得時点の時刻を次回の since にする（取得中に更新された避難所・在庫も次回取り込む）
+			serverTime ??= pullData.serverTime;
+
+			if (pullData.nextCursor === undefined) {
+				// 変更ログに対応する前の本番APIは since 基準で全件を返す
+				hasMore = false;
+				break;
+			}
+			cursor = pullData.nextCursor;
+			hasMore = pullData.hasMore ?? false;
+			await syncRepository.syncRepository.setPullCursor(db, stateKey, cursor);
+		}
+
+		// 以前の差分Pullで取得に失敗したメディアファイルのうち、再試行時刻に達したものを取り直す
+		const dueMediaIds = await mediaSyncRetryRepository.fetchDueMediaIds(
+			db,
+			"pull",
+			targetUrl,
+			MAX_MEDIA_RETRIES_PER_RUN,
+		);
+		if (dueMediaIds.length > 0) {
+			const retryMedia = await syncRepository.syncRepository.fetchMediaByIds(
+				db,
+				dueMediaIds,
+			);
+			// メディアが削除済みなどで見つからない場合はキューから外す
+			const foundIds = new Set(retryMedia.map((media) => media.id));
+			await mediaSyncRetryRepository.clearRetries(
+				db,
+				"pull",
+				targetUrl,
+				dueMediaIds.filter((id) => !foundIds.has(id)),
+			);
+			const retryResult = await measureMediaTransfer(metrics, () =>
+				syncMediaFiles(
+					env.ASSET_BUCKET,
+					targetUrl,
+					retryMedia,
+					env,
+					metrics,
+					maxImageWidth,
+				),
+			);
+			mediaSynced += retryResult.synced;
+			mediaFailed += retryResult.failed;
+			await syncLogFailureRepository.recordFailures(
+				db,
+				logId,
+				"pull",
+				mediaFailures(retryResult.errors),
+			);
+		}
+
+		if (!lowBandwidth) {
+			const originalResult = await measureMediaTransfer(metrics, () =>
+				pullOriginalMedia(env, targetUrl, metrics),
+			);
+			mediaSynced += originalResult.synced;
+			mediaFailed += originalResult.failed;
+			await syncLogFailureRepository.recordFailures(
+				db,
+				logId,
+				"pull",
+				mediaFailures(originalResult.errors),
+			);
+		}
+
+		if (serverTime) {
+			await syncRepository.syncRepository.setLastPulledAt(
+				db,
+				stateKey,
+				serverTime,
+			);
+		}
+
+		await recordMetrics(logId);
+		await syncRepository.syncRepository.completeSyncLog(
+			db,
+			logId,
+			totals.postsApplied,
+			totals.commentsApplied,
+			totals.locationTracksApplied,
+			mediaSynced,
+		);
+
+		const result: PullSyncResult = {
+			success: true,
+			sheltersPulled: totals.sheltersApplied,
+			postsPulled: totals.postsApplied,
+			commentsPulled: totals.commentsApplied,
+			locationTracksPulled: totals.locationTracksApplied,
+			mediaPulled: totals.mediaApplied,
+			inventoryItemsPulled: totals.inventoryItemsApplied,
+			inventoryTransactionsPulled: totals.inventoryTransactionsApplied,
+			mediaSynced,
+			mediaFailed,
+			lastPulledAt: serverTime ?? lastPulledAt ?? new Date().toISOString(),
+			conflictsDetected: totals.conflictsDetected,
+			changeCursor: cursor,
+			hasMore,
+		};
+
+		return { ok: true, result };
+	} catch (error) {
+		console.error("Sync pull execution failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		if (logId !== null) {
+			try {
+				await syncRepository.syncRepository.failSyncLog(db, logId, message);
+			} catch (logError) {
+				console.error("Failed to update sync log for pull failure", logError);
 			}
 		}
+		return { ok: false, error: message };
+	}
+}
 
-		// ファイルサイズとMIMEタイプのバリデーション
-		for (const file of mediaFiles) {
-			if (file.size > MAX_FILE_SIZE) {
-				const errorResponse: components["schemas"]["ErrorResponse"] = {
-					error: `File "${file.name}" exceeds maximum size of 50MB`,
-				};
-				return c.json(errorResponse, 413);
-			}
+// 差分Pullを実行（ローカル → 本番から取得して反映）
+app.post("/api/sync/pull/execute", async (c) => {
+	const db = dbConnect(c.env);
+	let lockHolder: string | null = null;
 
-			if (!ALLOWED_MIME_TYPES.includes(file.type)) {
-				const errorResponse: components["schemas"]["ErrorResponse"] = {
-					error: `File "${file.name}" has unsupported media type: ${file.type}. Allowed types: ${ALLOWED_MIME_TYPES.join(", ")}`,
-				};
-				return c.json(errorResponse, 415);
-			}
+	try {
+		const reqBody = await c.req.json<{
+			targetUrl: string;
+			shelterId?: number;
+		}>();
+		const targetUrl = reqBody.targetUrl;
+		const shelterId = reqBody.shelterId ?? resolveShelterId(undefined, c.env);
+
+		if (!targetUrl) {
+			return c.json({ error: "targetUrl is required" }, 400);
+		}
+		if (!(await isAllowedSyncTarget(c.env, targetUrl))) {
+			return c.json({ error: SYNC_TARGET_NOT_ALLOWED_MESSAGE }, 403);
+		}
+		if (!shelterId) {
+			return c.json({ error: "shelterId is required" }, 400);
 		}
 
-		const allowedPostStatuses = ["緊急", "重要", "通常"] as const;
-		const statusInput = reqBody.status;
-		const postStatus =
-			typeof statusInput === "string" &&
-			allowedPostStatuses.includes(
-				statusInput as (typeof allowedPostStatuses)[number],
-			)
-				? (statusInput as (typeof allowedPostStatuses)[number])
-				: null;
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+			db,
+			"manual",
+		);
+		if (!lockHolder) {
+			return c.json({ error: SYNC_LOCKED_MESSAGE }, 409);
+		}
 
-		const now = new Date().toISOString();
-		const postId = uuidv4();
+		const run = await runPullSync(c.env, {
+			targetUrl,
+			shelterId,
+			syncType: "pull",
+		});
+		if (!run.ok) {
+			return c.json({ error: run.error, details: run.details }, 500);
+		}
+		return c.json(run.result);
+	} catch (error) {
+		console.error("Sync pull execution failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		return c.json({ error: message }, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
+	}
+});
 
-		// locationTrack があれば最初の点を使い、なければ 0 を入れる
-		const firstLocation =
-			reqBody.locationTrack && reqBody.locationTrack.length > 0
-				? reqBody.locationTrack[0]
-				: undefined;
+// 差分Pull用: メディアファイルをダウンロード（本番側で使用）
+/**
+ * 画像を指定の幅まで縮小する（Images バインディングが無い場合・縮小できない形式・縮まなかった場合は null）
+ */
+async function downscaleImage(
+	env: Bindings,
+	body: ArrayBuffer,
+	contentType: string,
+	maxWidth: number,
+): Promise<{ body: ArrayBuffer; contentType: string } | null> {
+	// GIF（アニメーション）と SVG は縮小すると内容が変わるためそのまま返す
+	if (
+		!env.IMAGES ||
+		contentType === "image/gif" ||
+		contentType === "image/svg+xml"
+	) {
+		return null;
+	}
 
-		const shelterPost: ShelterPosts = {
-			postId,
-			authorName: reqBody.authorName,
-			shelterId: reqBody.shelterId,
-			content: reqBody.content ?? null,
-			postedAt: reqBody.occurredAt ?? now,
-			latitude: firstLocation ? firstLocation.latitude : 0,
-			longitude: firstLocation ? firstLocation.longitude : 0,
-			is_synced: 0,
-			createdAtByPost: now,
-			is_free_chat: 0,
-			status: postStatus,
-			mediaId: null,
-			filePath: null,
-			mediaType: null,
-			fileName: null,
-			createdAtByMedia: null,
+	try {
+		const result = await env.IMAGES.input(new Blob([body]).stream())
+			.transform({ width: maxWidth, fit: "scale-down" })
+			.output({ format: "image/webp", quality: 75 });
+		const resized = await result.response().arrayBuffer();
+		return resized.byteLength < body.byteLength
+			? { body: resized, contentType: result.contentType() }
+			: null;
+	} catch (error) {
+		console.warn("画像の縮小に失敗したため元の画像を返します", error);
+		return null;
+	}
+}
+
+app.get("/api/sync/pull/media", async (c) => {
+	const filePath = c.req.query("filePath");
+
+	if (!filePath) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "filePath is required",
 		};
+		return c.json(errorResponse, 400);
+	}
 
-		const mediaItems: Array<{
-			id: string;
-			file_path: string;
-			mediaType: string;
-			fileName?: string | null;
-			created_at?: string;
-		}> = [];
+	const maxWidthParam = c.req.query("maxWidth");
+	const maxWidth =
+		maxWidthParam === undefined ? undefined : Number(maxWidthParam);
+	if (maxWidth !== undefined && (!Number.isInteger(maxWidth) || maxWidth < 1)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "maxWidth must be a positive integer",
+		};
+		return c.json(errorResponse, 400);
+	}
 
-		// R2にファイルをアップロード
-		const uploadedKeys: string[] = [];
-		try {
-			for (const file of mediaFiles) {
-				const mediaId = uuidv4();
+	const bucket = c.env.ASSET_BUCKET;
 
-				// ファイル拡張子を取得
-				const ext = file.name.split(".").pop() || "";
-				const r2Key = `media/${postId}/${mediaId}${ext ? `.${ext}` : ""}`;
+	try {
+		const object = await bucket.get(filePath);
 
-				const body = await file.arrayBuffer();
+		if (!object) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "Media not found in R2",
+			};
+			return c.json(errorResponse, 404);
+		}
 
-				// R2にアップロード
-				await videoRepository.uploadVideo({
-					bucket,
-					key: r2Key,
-					body,
-					contentType: file.type,
-				});
+		const contentType =
+			object.httpMetadata?.contentType || "application/octet-stream";
+
+		// 低帯域の回線から画像の縮小を求められた場合は縮小して返す
+		if (maxWidth !== undefined && contentType.startsWith("image/")) {
+			const original = await object.arrayBuffer();
+			const downscaled = await downscaleImage(
+				c.env,
+				original,
+				contentType,
+				maxWidth,
+			);
+			return new Response(downscaled?.body ?? original, {
+				headers: {
+					"Content-Type": downscaled?.contentType ?? contentType,
+					"Content-Length": String((downscaled?.body ?? original).byteLength),
+					...(downscaled
+						? { [syncCompressionRepository.SYNC_HEADER_MEDIA_DOWNSCALED]: "1" }
+						: {}),
+				},
+			});
+		}
 
-				uploadedKeys.push(r2Key);
+		const headers = new Headers();
+		headers.set("Content-Type", contentType);
+		headers.set("Content-Length", String(object.size));
 
-				mediaItems.push({
-					id: mediaId,
-					file_path: r2Key,
-					mediaType: file.type,
-					fileName: file.name,
-					created_at: now,
-				});
-			}
+		return new Response(object.body, { headers });
+	} catch (error) {
+		console.error("Failed to get media from R2", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-			// reqBody.media からもメタデータのみのアイテムを追加（ファイルなしの場合）
-			if (
-				reqBody.media &&
-				Array.isArray(reqBody.media) &&
-				reqBody.media.length > 0 &&
-				mediaFiles.length === 0
-			) {
-				for (const mi of reqBody.media) {
-					const mediaId = uuidv4();
+type SyncJobStatus = components["schemas"]["SyncJobStatus"];
 
-					const filePath = `media/${postId}/${mediaId}`;
+type MediaPushResult =
+	paths["/api/sync/media"]["post"]["responses"]["200"]["content"]["application/json"];
 
-					mediaItems.push({
-						id: mediaId,
-						file_path: filePath,
-						mediaType: mi.mediaType,
-						fileName: mi.fileName ?? null,
-						created_at: now,
-					});
-				}
-			}
-		} catch (uploadErr) {
-			// アップロード失敗時は既にアップロードしたファイルを削除
-			for (const key of uploadedKeys) {
-				try {
-					await bucket.delete(key);
-				} catch (deleteErr) {
-					console.error(`Failed to cleanup R2 object ${key}`, deleteErr);
-				}
-			}
+/**
+ * メディアファイル本体を1件、ローカルR2から同期先へ送信する（失敗時は例外）
+ */
+async function pushMediaFile(
+	env: Bindings,
+	targetUrl: string,
+	media: UnsyncedMedia,
+	metrics?: SyncLogMetrics,
+): Promise<void> {
+	const object = await env.ASSET_BUCKET.get(media.file_path);
+	if (!object) {
+		throw new Error("local R2 object not found");
+	}
 
-			if (uploadErr instanceof videoRepository.EmptyVideoBodyError) {
-				const errorResponse: components["schemas"]["ErrorResponse"] = {
-					error: "Empty file body is not allowed",
-				};
-				return c.json(errorResponse, 400);
-			}
+	const body = await object.arrayBuffer();
+	// 手元のファイルが壊れている場合は送らない（記録前のメディアは送信時に求めた値で検証してもらう）
+	const sha256 = await videoRepository.computeSha256(body);
+	if (media.sha256 && media.sha256 !== sha256) {
+		throw new Error("local R2 object checksum mismatch");
+	}
+	const contentType =
+		object.httpMetadata?.contentType ||
+		media.media_type ||
+		"application/octet-stream";
+
+	const fileName =
+		media.file_name || media.file_path.split("/").pop() || media.id;
+
+	const formData = new FormData();
+	formData.set("filePath", media.file_path);
+	formData.set("contentType", contentType);
+	formData.set("sha256", sha256);
+	formData.set("file", new File([body], fileName, { type: contentType }));
+
+	// 署名のためにmultipart本文を確定させてから送信する
+	const receiveUrl = `${targetUrl}/api/sync/media/receive`;
+	const multipart = new Request(receiveUrl, {
+		method: "POST",
+		body: formData,
+	});
+	const multipartBody = await multipart.arrayBuffer();
+	if (metrics) {
+		metrics.mediaBytes += multipartBody.byteLength;
+	}
+	const response = await fetchUpstream(metrics, receiveUrl, {
+		method: "POST",
+		headers: {
+			"Content-Type": multipart.headers.get("Content-Type") ?? "",
+			...(await signSyncRequest(env, "POST", receiveUrl, multipartBody)),
+		},
+		body: multipartBody,
+	});
 
-			throw uploadErr;
-		}
+	if (!response.ok) {
+		const message = await response.text();
+		throw new Error(`receive failed: ${response.status} ${message}`);
+	}
+}
 
-		try {
-			await shelterRepository.insertShelterPost(
-				db,
-				shelterPost,
-				mediaItems.length > 0 ? mediaItems : undefined,
-			);
+type MediaPushProgress = {
+	total: number;
+	completed: number;
+	failed: number;
+};
 
-			// locationTrackがあればpost_location_tracksテーブルに保存
-			if (
-				reqBody.locationTrack &&
-				Array.isArray(reqBody.locationTrack) &&
-				reqBody.locationTrack.length > 0
-			) {
-				const trackItems = reqBody.locationTrack.map((pt) => ({
-					id: uuidv4(),
-					recordedAt: pt.recordedAt,
-					latitude: pt.latitude,
-					longitude: pt.longitude,
-				}));
-				await shelterRepository.insertLocationTracks(db, postId, trackItems);
-			}
-		} catch (err) {
-			// DB挿入失敗時はR2からファイルを削除
-			for (const key of uploadedKeys) {
-				try {
-					await bucket.delete(key);
-				} catch (deleteErr) {
-					console.error(`Failed to cleanup R2 object ${key}`, deleteErr);
-				}
-			}
+/**
+ * 未同期メディアのファイル本体をローカルR2から同期先へ送信する
+ * （scope の避難所の投稿のメディアに限る。onProgress を渡すと1ファイルごとに進捗を通知する）
+ */
+async function runMediaPush(
+	env: Bindings,
+	targetUrl: string,
+	scope: number[] | null,
+	onProgress?: (progress: MediaPushProgress) => Promise<void>,
+	metrics?: SyncLogMetrics,
+): Promise<MediaPushResult> {
+	const db = dbConnect(env);
+
+	const [mediaItems, waitingIds] = await Promise.all([
+		syncRepository.syncRepository.fetchUnsyncedMedia(db, scope),
+		mediaSyncRetryRepository.fetchWaitingMediaIds(db, "push", targetUrl),
+	]);
+	// 前回失敗して再試行時刻に達していないメディアは今回は送らない
+	const targets = mediaItems.filter((media) => !waitingIds.has(media.id));
+	const waiting = mediaItems.length - targets.length;
+	await onProgress?.({ total: targets.length, completed: 0, failed: 0 });
+
+	if (targets.length === 0) {
+		return {
+			success: true,
+			total: mediaItems.length,
+			mediaSynced: 0,
+			failed: 0,
+			waiting,
+			errors: [],
+		};
+	}
 
-			if (err instanceof shelterRepository.ShelterNotFoundError) {
-				const errorResponse: components["schemas"]["ErrorResponse"] = {
-					error: "指定した避難所は存在しません",
-				};
-				return c.json(errorResponse, 404);
-			}
-			throw err;
-		}
+	const { syncedIds, errors } = await pushMediaItems(
+		env,
+		targetUrl,
+		targets,
+		onProgress,
+		metrics,
+	);
 
-		// メディアURLを生成（本番は署名付きURL、開発はローカルURL）
-		const isDevelopment = c.env.NODE_ENV === "development";
-		const mediaResponse: components["schemas"]["MediaItem"][] = [];
+	return {
+		success: errors.length === 0,
+		total: mediaItems.length,
+		mediaSynced: syncedIds.length,
+		failed: errors.length,
+		waiting,
+		errors,
+	};
+}
 
-		for (const mi of mediaItems) {
-			let url: string;
-			if (isDevelopment) {
-				url = `http://localhost:8787/r2/video/${mi.file_path}`;
-			} else {
-				// 本番環境: 署名付きURLを生成
-				url = await signedVideoRepository.fetchSignedVideo({
-					bucketName: c.env.R2_BUCKET_NAME,
-					accountId: c.env.CLOUDFLARE_R2_ACCOUNT_ID,
-					objectKey: mi.file_path,
-					accessKeyId: c.env.R2_ACCESS_KEY_ID,
-					secretAccessKey: c.env.R2_SECRET_ACCESS_KEY,
-				});
-			}
-			mediaResponse.push({
-				mediaId: mi.id,
-				mediaType: mi.mediaType,
-				fileName: mi.fileName ?? null,
-				url,
+/**
+ * 指定したメディアのファイル本体を順に送信し、送れたものを同期済みにする
+ * 失敗したファイルは再試行キューに入れ、間隔を空けて再送する
+ */
+async function pushMediaItems(
+	env: Bindings,
+	targetUrl: string,
+	mediaItems: UnsyncedMedia[],
+	onProgress?: (progress: MediaPushProgress) => Promise<void>,
+	metrics?: SyncLogMetrics,
+): Promise<{
+	syncedIds: string[];
+	errors: NonNullable<MediaPushResult["errors"]>;
+}> {
+	const db = dbConnect(env);
+	const syncedIds: string[] = [];
+	const errors: NonNullable<MediaPushResult["errors"]> = [];
+
+	for (const media of mediaItems) {
+		try {
+			await pushMediaFile(env, targetUrl, media, metrics);
+			syncedIds.push(media.id);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			errors.push({
+				mediaId: media.id,
+				filePath: media.file_path,
+				error: message,
 			});
+			await mediaSyncRetryRepository.recordFailure(db, {
+				mediaId: media.id,
+				direction: "push",
+				targetUrl,
+				filePath: media.file_path,
+				error: message,
+			});
+		}
+		await onProgress?.({
+			total: mediaItems.length,
+			completed: syncedIds.length,
+			failed: errors.length,
+		});
+	}
+
+	if (syncedIds.length > 0) {
+		await syncRepository.syncRepository.markMediaAsSynced(
+			db,
+			mediaItems.filter((media) => syncedIds.includes(media.id)),
+		);
+		await mediaSyncRetryRepository.clearRetries(
+			db,
+			"push",
+			targetUrl,
+			syncedIds,
+		);
+	}
+
+	return { syncedIds, errors };
+}
+
+// メディアを本番R2に同期（ローカルR2 -> 本番R2）
+app.post("/api/sync/media", async (c) => {
+	const db = dbConnect(c.env);
+	let lockHolder: string | null = null;
+
+	try {
+		const reqBody = await c.req.json<{
+			targetUrl: string;
+			shelterId?: number | null;
+		}>();
+		const targetUrl = reqBody.targetUrl;
+
+		if (!targetUrl) {
+			return c.json({ error: "targetUrl is required" }, 400);
+		}
+		if (!(await isAllowedSyncTarget(c.env, targetUrl))) {
+			return c.json({ error: SYNC_TARGET_NOT_ALLOWED_MESSAGE }, 403);
 		}
 
-		const response: paths["/posts"]["post"]["responses"]["201"]["content"]["application/json"] =
-			{
-				postId,
-				media: mediaResponse,
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+			db,
+			"manual",
+		);
+		if (!lockHolder) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_LOCKED_MESSAGE,
 			};
+			return c.json(errorResponse, 409);
+		}
 
-		return c.json(response, 201);
+		return c.json(
+			await runMediaPush(
+				c.env,
+				targetUrl,
+				resolvePushScope(c.env, reqBody.shelterId),
+			),
+		);
 	} catch (error) {
-		console.error("D1 insert post failed", error);
+		console.error("Media sync failed", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
 		};
 		return c.json(errorResponse, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
 	}
 });
 
-// 投稿の詳細を取得
-app.get("/posts/:id", async (c) => {
-	const postId = c.req.param("id");
+// メディア転送の再試行キューを取得
+app.get("/api/sync/media/retries", async (c) => {
+	const db = dbConnect(c.env);
 
-	if (!postId) {
+	try {
+		const retries = await mediaSyncRetryRepository.listRetries(db);
+		const response: paths["/api/sync/media/retries"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				retries: retries.map((retry) => ({
+					mediaId: retry.media_id,
+					direction: retry.direction,
+					targetUrl: retry.target_url,
+					filePath: retry.file_path,
+					attempts: retry.attempts,
+					lastError: retry.last_error,
+					nextAttemptAt: retry.next_attempt_at,
+					updatedAt: retry.updated_at,
+				})),
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to list media sync retries", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "post id is required",
+			error: message,
 		};
-		return c.json(errorResponse, 400);
+		return c.json(errorResponse, 500);
 	}
+});
 
+// 待機中のメディア転送を次回の同期ですぐに再試行する
+app.post("/api/sync/media/retries/retry-now", async (c) => {
 	const db = dbConnect(c.env);
-	const isDevelopment = c.env.NODE_ENV === "development";
 
 	try {
-		const result = await shelterRepository.fetchPostById(db, postId);
+		const rescheduled = await mediaSyncRetryRepository.scheduleAllNow(db);
+		const response: paths["/api/sync/media/retries/retry-now"]["post"]["responses"]["200"]["content"]["application/json"] =
+			{ rescheduled };
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to reschedule media sync retries", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-		if (!result) {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "投稿が見つかりません",
-			};
-			return c.json(errorResponse, 404);
+/**
+ * 同期ジョブ（メディアファイル → データの順に送信し、段階ごとの進捗を sync_logs に記録する）
+ * メディア本体を先に送り、届かなかったメディアを含む投稿は次回の同期に回す
+ */
+async function runSyncJob(
+	env: Bindings,
+	{
+		logId,
+		targetUrl,
+		shelterId,
+		scope,
+		syncType,
+		sourceUrl,
+	}: {
+		logId: number;
+		targetUrl: string;
+		shelterId?: number | null;
+		scope: number[] | null;
+		syncType: string;
+		sourceUrl: string;
+	},
+): Promise<void> {
+	const db = dbConnect(env);
+
+	try {
+		await syncRepository.syncRepository.setSyncLogPhase(db, logId, "media");
+		const mediaMetrics = newSyncMetrics();
+		const media = await measureMediaTransfer(mediaMetrics, () =>
+			runMediaPush(
+				env,
+				targetUrl,
+				scope,
+				(progress) =>
+					syncRepository.syncRepository.recordSyncLogMediaProgress(
+						db,
+						logId,
+						progress,
+					),
+				mediaMetrics,
+			),
+		);
+		await syncRepository.syncRepository.addSyncLogMetrics(
+			db,
+			logId,
+			mediaMetrics,
+		);
+		console.log(
+			`📦 同期ジョブ ${logId} メディア送信: 成功=${media.mediaSynced}, 失敗=${media.failed}, 待機=${media.waiting ?? 0}`,
+		);
+		await syncLogFailureRepository.recordFailures(
+			db,
+			logId,
+			"push",
+			mediaFailures(media.errors ?? []),
+		);
+
+		// 本体が手元にあるのに送れていないメディアの投稿は保留する（本体が無いものは待っても届かないため送る）
+		const pendingMedia = await syncRepository.syncRepository.fetchUnsyncedMedia(
+			db,
+			scope,
+		);
+		const excludePostIds = new Set<string>();
+		for (const item of pendingMedia) {
+			if (await env.ASSET_BUCKET.head(item.file_path)) {
+				excludePostIds.add(item.post_id);
+			}
+		}
+		if (excludePostIds.size > 0) {
+			console.log(
+				`⏸️ 同期ジョブ ${logId}: メディア未送信の投稿 ${excludePostIds.size}件を次回に回します`,
+			);
 		}
 
-		const { post, media, locationTrack } = result;
+		await syncRepository.syncRepository.setSyncLogPhase(db, logId, "data");
+		const push = await runPushSync(env, {
+			targetUrl,
+			shelterId,
+			scope,
+			syncType,
+			sourceUrl,
+			jobLogId: logId,
+			excludePostIds,
+		});
+		if (!push.ok) {
+			// 送信に失敗したバッチは runPushSync がログに記録済み
+			console.error(`❌ 同期ジョブ ${logId} のデータ送信に失敗:`, push.error);
+			return;
+		}
 
-		// メディアURLを生成（本番は署名付きURL、開発はローカルURL）
-		const mediaItems: components["schemas"]["MediaItem"][] = [];
+		await syncRepository.syncRepository.setSyncLogPhase(db, logId, "completed");
+	} catch (error) {
+		console.error(`❌ 同期ジョブ ${logId} に失敗:`, error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		try {
+			await syncRepository.syncRepository.failSyncLog(db, logId, message);
+		} catch (logError) {
+			console.error("Failed to update sync log for job failure", logError);
+		}
+	}
+}
 
-		for (const mi of media) {
-			let url: string;
-			if (isDevelopment) {
-				url = `http://localhost:8787/r2/video/${mi.filePath}`;
-			} else {
-				// 本番環境: 署名付きURLを生成
-				url = await signedVideoRepository.fetchSignedVideo({
-					bucketName: c.env.R2_BUCKET_NAME,
-					accountId: c.env.CLOUDFLARE_R2_ACCOUNT_ID,
-					objectKey: mi.filePath,
-					accessKeyId: c.env.R2_ACCESS_KEY_ID,
-					secretAccessKey: c.env.R2_SECRET_ACCESS_KEY,
-				});
-			}
-			mediaItems.push({
-				mediaId: mi.id,
-				mediaType: mi.mediaType,
-				fileName: mi.fileName ?? null,
-				url,
-			});
+// 同期ジョブを開始（ローカル → 本番。進捗は GET /api/sync/jobs/:id で確認する）
+app.post("/api/sync/jobs", async (c) => {
+	const db = dbConnect(c.env);
+	let lockHolder: string | null = null;
+
+	try {
+		const reqBody =
+			await c.req.json<
+				paths["/api/sync/jobs"]["post"]["requestBody"]["content"]["application/json"]
+			>();
+		const targetUrl = reqBody.targetUrl;
+
+		if (!targetUrl) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "targetUrl is required",
+			};
+			return c.json(errorResponse, 400);
+		}
+		if (!(await isAllowedSyncTarget(c.env, targetUrl))) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_TARGET_NOT_ALLOWED_MESSAGE,
+			};
+			return c.json(errorResponse, 403);
 		}
 
-		const response: paths["/posts/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
-			{
-				id: post.id,
-				shelterId: post.shelterId,
-				shelterName: post.shelterName,
-				authorName: post.authorName,
-				content: post.content,
-				postedAt: post.postedAt,
-				media: mediaItems,
-				locationTrack: locationTrack.map((lt) => ({
-					recordedAt: lt.recordedAt,
-					latitude: lt.latitude,
-					longitude: lt.longitude,
-				})),
-				commentCount: post.commentCount,
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+			db,
+			"manual",
+		);
+		if (!lockHolder) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_LOCKED_MESSAGE,
 			};
+			return c.json(errorResponse, 409);
+		}
 
-		return c.json(response);
+		const logId = await syncRepository.syncRepository.createSyncLog(
+			db,
+			"manual",
+			targetUrl,
+			reqBody.shelterId,
+		);
+
+		// ジョブはレスポンス後も実行を続け、終わったらロックを解放する
+		const holder = lockHolder;
+		lockHolder = null;
+		c.executionCtx.waitUntil(
+			runSyncJob(c.env, {
+				logId,
+				targetUrl,
+				shelterId: reqBody.shelterId,
+				scope: resolvePushScope(c.env, reqBody.shelterId),
+				syncType: "manual",
+				sourceUrl: c.req.url,
+			}).finally(() =>
+				syncRepository.syncRepository.releaseSyncLock(db, holder),
+			),
+		);
+
+		const response: paths["/api/sync/jobs"]["post"]["responses"]["202"]["content"]["application/json"] =
+			{ jobId: logId };
+		return c.json(response, 202);
 	} catch (error) {
-		console.error("D1 fetch post detail failed", error);
+		console.error("Failed to start sync job", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
 		};
 		return c.json(errorResponse, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
 	}
 });
 
-// 投稿に紐づくコメント一覧取得とコメント作成エンドポイント
-app.get("/posts/:id/comments", async (c) => {
-	const postId = c.req.param("id");
+// 同期ジョブの進捗を取得
+app.get("/api/sync/jobs/:id", async (c) => {
+	const db = dbConnect(c.env);
 
-	if (!postId) {
+	try {
+		const jobId = Number(c.req.param("id"));
+		const log = Number.isInteger(jobId)
+			? await syncRepository.syncRepository.getSyncLog(db, jobId)
+			: null;
+
+		if (!log || log.phase === null) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "Sync job not found",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		// メディアファイル1件とデータ1バッチを同じ重みとして進捗率を求める
+		const stepsTotal = log.media_files_total + log.batches_total;
+		const stepsDone =
+			log.media_files_completed +
+			log.media_files_failed +
+			log.batches_completed;
+		const progress =
+			log.status === "completed"
+				? 100
+				: stepsTotal > 0
+					? Math.min(99, Math.floor((stepsDone / stepsTotal) * 100))
+					: 0;
+
+		const response: paths["/api/sync/jobs/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				jobId: log.id,
+				status: log.status as SyncJobStatus["status"],
+				phase: log.phase,
+				progress,
+				mediaFilesTotal: log.media_files_total,
+				mediaFilesCompleted: log.media_files_completed,
+				mediaFilesFailed: log.media_files_failed,
+				outOfScopeRecords: log.out_of_scope_records,
+				batchesTotal: log.batches_total,
+				batchesCompleted: log.batches_completed,
+				postsSynced: log.posts_synced,
+				commentsSynced: log.comments_synced,
+				locationTracksSynced: log.location_tracks_synced,
+				mediaSynced: log.media_synced,
+				errorMessage: log.error_message,
+				startedAt: log.started_at,
+				completedAt: log.completed_at,
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to get sync job", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "post id is required",
+			error: message,
 		};
-		return c.json(errorResponse, 400);
+		return c.json(errorResponse, 500);
 	}
+});
 
-	const db = dbConnect(c.env);
+// 同期データを受信（本番側で使用）
+app.post("/api/sync/media/receive", async (c) => {
+	const bucket = c.env.ASSET_BUCKET;
 
 	try {
-		// posts テーブルから is_free_chat と status を取得（null の場合は投稿が存在しないと見なす）
-		const postMeta = await shelterRepository.fetchPostIsFreeChat(db, postId);
+		const formData = await c.req.formData();
+		const filePath = formData.get("filePath");
+		const contentTypeField = formData.get("contentType");
+		const sha256Field = formData.get("sha256");
+		const file = formData.get("file");
 
-		if (postMeta === null) {
+		if (!filePath || typeof filePath !== "string" || !(file instanceof File)) {
 			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "対象の投稿が見つかりません",
+				error: "filePath and file are required",
 			};
-			return c.json(errorResponse, 404);
+			return c.json(errorResponse, 400);
 		}
 
-		const isFreeChat = postMeta.isFreeChat === 1;
-		const status = postMeta.status ?? null;
+		const contentType =
+			typeof contentTypeField === "string" && contentTypeField.length > 0
+				? contentTypeField
+				: file.type || "application/octet-stream";
 
-		const comments = await shelterRepository.fetchCommentsByPost(db, postId);
+		// 送信元が求めたSHA-256と一致しない（転送中に欠損した）ファイルは保存しない
+		const body = await file.arrayBuffer();
+		await videoRepository.uploadVideo({
+			bucket,
+			key: filePath,
+			body,
+			contentType,
+			expectedSha256: typeof sha256Field === "string" ? sha256Field : null,
+		});
 
-		const response: paths["/posts/{id}/comments"]["get"]["responses"]["200"]["content"]["application/json"] =
+		const response: paths["/api/sync/media/receive"]["post"]["responses"]["200"]["content"]["application/json"] =
 			{
-				postId,
-				status,
-				isFreeChat,
-				comments,
+				success: true,
 			};
-
 		return c.json(response);
 	} catch (error) {
-		console.error("D1 fetch comments failed", error);
+		if (error instanceof videoRepository.ChecksumMismatchError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: error.message,
+			};
+			return c.json(errorResponse, 422);
+		}
+		console.error("Media receive failed", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -715,151 +4852,469 @@ app.get("/posts/:id/comments", async (c) => {
 	}
 });
 
-app.post("/posts/:id/comments", async (c) => {
-	const postId = c.req.param("id");
+/**
+ * 受信した同期データを避難所ごとに反映し、避難所ごとに同期ログを記録する
+ * （ノードからのPush受信と同期バンドルの取り込みで共通）
+ */
+async function applyReceivedSyncData(
+	db: Database,
+	syncData: SyncReceiveData,
+	{
+		syncType,
+		sourceUrl,
+		verifiedNodeId,
+		relay,
+	}: {
+		syncType: string;
+		sourceUrl: string;
+		verifiedNodeId: string | null;
+		relay: boolean;
+	},
+) {
+	// 受信データを避難所ごとにグループ化
+	const groupedData = await syncRepository.syncRepository.groupDataByShelter(
+		db,
+		syncData,
+	);
+	console.log(`📊 避難所数: ${groupedData.size}`);
+
+	const shelterResults: {
+		shelterId: number;
+		success: boolean;
+		postsSynced: number;
+		commentsSynced: number;
+		locationTracksSynced: number;
+		mediaSynced: number;
+		conflictsDetected: number;
+		errorMessage?: string;
+	}[] = [];
+
+	let totalPostsSynced = 0;
+	let totalCommentsSynced = 0;
+	let totalTracksSynced = 0;
+	let totalMediaSynced = 0;
+	let totalConflictsDetected = 0;
+	let overallSuccess = true;
+
+	// 各避難所ごとに同期処理を実行
+	for (const [shelterId, shelterData] of groupedData.entries()) {
+		console.log(
+			`🏠 避難所ID ${shelterId} の同期開始: posts=${shelterData.posts.length}, comments=${shelterData.comments.length}, tracks=${shelterData.locationTracks.length}, media=${shelterData.media.length}`,
+		);
 
-	if (!postId) {
-		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "post id is required",
-		};
-		return c.json(errorResponse, 400);
-	}
+		let logId: number | null = null;
 
-	const db = dbConnect(c.env);
+		try {
+			// 同期ログを作成
+			logId = await syncRepository.syncRepository.createSyncLog(
+				db,
+				syncType,
+				sourceUrl,
+				shelterId,
+				verifiedNodeId,
+			);
+			console.log(`📝 避難所ID ${shelterId} のログID: ${logId}`);
 
-	try {
-		const reqBody =
-			await c.req.json<components["schemas"]["CreateCommentRequest"]>();
+			// データを挿入（避難所ごとに1つのD1バッチで反映し、失敗時は全体をロールバック）
+			const result =
+				await syncRepository.syncRepository.receiveAndInsertSyncData(
+					db,
+					shelterData,
+					{ relay, senderNodeId: verifiedNodeId },
+				);
 
-		if (
-			!reqBody ||
-			typeof reqBody.authorName !== "string" ||
-			typeof reqBody.content !== "string"
-		) {
-			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "invalid request body",
-			};
-			return c.json(errorResponse, 400);
-		}
+			if (!result.success) {
+				// 挿入エラー
+				console.error(
+					`❌ 避難所ID ${shelterId} のデータ挿入エラー: ${result.errorMessage}`,
+				);
+				await syncRepository.syncRepository.failSyncLog(
+					db,
+					logId,
+					result.errorMessage || "データ挿入エラー",
+				);
 
-		const allowedStatuses = ["未対応", "対応中", "対応済み"] as const;
-		const statusInput = reqBody.status;
-		const status =
-			typeof statusInput === "string" &&
-			allowedStatuses.includes(statusInput as (typeof allowedStatuses)[number])
-				? (statusInput as (typeof allowedStatuses)[number])
-				: undefined;
+				shelterResults.push({
+					shelterId,
+					success: false,
+					postsSynced: result.postsSynced,
+					commentsSynced: result.commentsSynced,
+					locationTracksSynced: result.locationTracksSynced,
+					mediaSynced: result.mediaSynced,
+					conflictsDetected: result.conflictsDetected,
+					errorMessage: result.errorMessage,
+				});
 
-		const commentId = uuidv4();
+				overallSuccess = false;
+			} else {
+				// 挿入成功
+				console.log(
+					`✅ 避難所ID ${shelterId} のデータ挿入完了: posts=${result.postsSynced}, comments=${result.commentsSynced}, tracks=${result.locationTracksSynced}, media=${result.mediaSynced}, occupancy=${result.occupancySynced}, inventoryTransactions=${result.inventoryTransactionsSynced}, conflicts=${result.conflictsDetected}`,
+				);
+				await syncRepository.syncRepository.completeSyncLog(
+					db,
+					logId,
+					result.postsSynced,
+					result.commentsSynced,
+					result.locationTracksSynced,
+					result.mediaSynced,
+				);
 
-		try {
-			const result = await shelterRepository.createCommentForPost(db, {
-				commentId,
-				postId,
-				authorName: reqBody.authorName,
-				content: reqBody.content,
-				status,
-			});
+				shelterResults.push({
+					shelterId,
+					success: true,
+					postsSynced: result.postsSynced,
+					commentsSynced: result.commentsSynced,
+					locationTracksSynced: result.locationTracksSynced,
+					mediaSynced: result.mediaSynced,
+					conflictsDetected: result.conflictsDetected,
+				});
 
-			const response: paths["/posts/{id}/comments"]["post"]["responses"]["201"]["content"]["application/json"] =
-				{
-					comment: {
-						id: result.id,
-						postId: result.postId,
-						authorName: result.authorName,
-						content: result.content,
-						createdAt: result.createdAt,
-						status: result.status,
-					},
-				};
+				totalPostsSynced += result.postsSynced;
+				totalCommentsSynced += result.commentsSynced;
+				totalTracksSynced += result.locationTracksSynced;
+				totalMediaSynced += result.mediaSynced;
+				totalConflictsDetected += result.conflictsDetected;
+			}
+		} catch (error) {
+			// 予期しないエラー
+			console.error(`❌ 避難所ID ${shelterId} の同期中にエラー:`, error);
+			const message = error instanceof Error ? error.message : "Unknown error";
 
-			return c.json(response, 201);
-		} catch (err) {
-			const msg = err instanceof Error ? err.message : String(err);
-			// foreign key / sqlite constraint -> post not found
-			if (msg.includes("FOREIGN KEY") || msg.includes("SQLITE_CONSTRAINT")) {
-				const errorResponse: components["schemas"]["ErrorResponse"] = {
-					error: "対象の投稿が見つかりません",
-				};
-				return c.json(errorResponse, 404);
+			if (logId !== null) {
+				try {
+					await syncRepository.syncRepository.failSyncLog(db, logId, message);
+				} catch (logError) {
+					console.error(`❌ 避難所ID ${shelterId} のログ更新エラー:`, logError);
+				}
 			}
-			throw err;
+
+			shelterResults.push({
+				shelterId,
+				success: false,
+				postsSynced: 0,
+				commentsSynced: 0,
+				locationTracksSynced: 0,
+				mediaSynced: 0,
+				conflictsDetected: 0,
+				errorMessage: message,
+			});
+
+			overallSuccess = false;
 		}
-	} catch (error) {
-		console.error("D1 create comment failed", error);
-		const message = error instanceof Error ? error.message : "Unknown error";
-		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: message,
-		};
-		return c.json(errorResponse, 500);
 	}
-});
 
-// ==================== 同期API ====================
+	console.log(
+		`✅ 全避難所の同期完了: 合計 posts=${totalPostsSynced}, comments=${totalCommentsSynced}, tracks=${totalTracksSynced}, media=${totalMediaSynced}, conflicts=${totalConflictsDetected}`,
+	);
 
-// 同期ステータスを取得（未同期データの統計）
-app.get("/api/sync/status", async (c) => {
+	return {
+		success: overallSuccess,
+		postsSynced: totalPostsSynced,
+		commentsSynced: totalCommentsSynced,
+		locationTracksSynced: totalTracksSynced,
+		mediaSynced: totalMediaSynced,
+		conflictsDetected: totalConflictsDetected,
+		shelterResults,
+	};
+}
+
+/**
+ * 受信した同期データのプロトコルバージョンを確認し、旧形式なら現在の形に揃える
+ * 扱えないバージョンは失敗として同期ログに記録してから IncompatibleSyncProtocolError を投げる
+ */
+async function acceptSyncPayload(
+	db: Database,
+	data: SyncReceiveData,
+	{
+		syncType,
+		sourceUrl,
+		shelterId,
+		verifiedNodeId,
+	}: {
+		syncType: string;
+		sourceUrl: string;
+		shelterId?: number | null;
+		verifiedNodeId: string | null;
+	},
+): Promise<SyncReceiveData> {
+	const version = syncProtocolRepository.resolveVersion(data.protocolVersion);
+	try {
+		return syncProtocolRepository.upgradeReceiveData(data, version);
+	} catch (error) {
+		if (error instanceof syncProtocolRepository.IncompatibleSyncProtocolError) {
+			console.warn(`🚫 同期データを拒否: ${error.message}`);
+			const logId = await syncRepository.syncRepository.createSyncLog(
+				db,
+				syncType,
+				sourceUrl,
+				shelterId,
+				verifiedNodeId,
+			);
+			await syncRepository.syncRepository.failSyncLog(db, logId, error.message);
+		}
+		throw error;
+	}
+}
+
+// 同期データを受信（本番側で使用）
+app.post("/api/sync/receive", async (c) => {
 	const db = dbConnect(c.env);
 
 	try {
-		const stats = await syncRepository.syncRepository.getSyncStats(db);
-		return c.json(stats);
+		const payload = await decodeSyncJson<SyncReceiveData>(
+			await c.req.arrayBuffer(),
+			c.req.header(syncCompressionRepository.SYNC_HEADER_CONTENT_ENCODING),
+		);
+		// 送信元のビルドが古い場合は旧形式を変換し、扱えない形式は拒否する
+		const syncData = await acceptSyncPayload(db, payload, {
+			syncType: "received",
+			sourceUrl: payload.sourceUrl || "unknown",
+			verifiedNodeId: c.get("syncNodeId") ?? null,
+		});
+
+		console.log(
+			`📥 同期データ受信: posts=${syncData.posts?.length || 0}, comments=${syncData.comments?.length || 0}, tracks=${syncData.locationTracks?.length || 0}, media=${syncData.media?.length || 0}, occupancy=${syncData.occupancy?.length || 0}, inventoryItems=${syncData.inventoryItems?.length || 0}, inventoryTransactions=${syncData.inventoryTransactions?.length || 0}`,
+		);
+
+		// データが空の場合は早期リターン
+		if (
+			(!syncData.posts || syncData.posts.length === 0) &&
+			(!syncData.comments || syncData.comments.length === 0) &&
+			(!syncData.locationTracks || syncData.locationTracks.length === 0) &&
+			(!syncData.media || syncData.media.length === 0) &&
+			(!syncData.occupancy || syncData.occupancy.length === 0) &&
+			(!syncData.inventoryItems || syncData.inventoryItems.length === 0) &&
+			(!syncData.inventoryTransactions ||
+				syncData.inventoryTransactions.length === 0)
+		) {
+			console.log("📥 同期データが空のためスキップ");
+			return c.json({
+				success: true,
+				postsSynced: 0,
+				commentsSynced: 0,
+				locationTracksSynced: 0,
+				mediaSynced: 0,
+				conflictsDetected: 0,
+				shelterResults: [],
+			});
+		}
+
+		return c.json(
+			await applyReceivedSyncData(db, syncData, {
+				syncType: "received",
+				sourceUrl: syncData.sourceUrl || "unknown",
+				verifiedNodeId: c.get("syncNodeId") ?? null,
+				relay: isRelayNode(c.env),
+			}),
+		);
 	} catch (error) {
-		console.error("Failed to get sync status", error);
+		if (error instanceof syncProtocolRepository.IncompatibleSyncProtocolError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: error.message,
+			};
+			return c.json(errorResponse, 400);
+		}
+		if (
+			error instanceof syncCompressionRepository.UnsupportedContentEncodingError
+		) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: error.message,
+			};
+			return c.json(errorResponse, 415);
+		}
+		console.error("Sync receive failed", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		return c.json({ error: message }, 500);
 	}
 });
 
-// 同期を実行（ローカル → 本番）
-app.post("/api/sync/execute", async (c) => {
+// 未同期データを同期バンドル（ファイル）として書き出す（本番と通信できない避難所向け）
+app.get("/api/sync/bundle/export", async (c) => {
 	const db = dbConnect(c.env);
+	const bucket = c.env.ASSET_BUCKET;
+	const shelterId = parseShelterId(c.req.query("shelterId"));
+
+	if (!c.env.SYNC_NODE_ID || !c.env.SYNC_NODE_SECRET) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error:
+				"SYNC_NODE_ID / SYNC_NODE_SECRET が未設定のため同期バンドルに署名できません",
+		};
+		return c.json(errorResponse, 500);
+	}
+
+	const bundleId = uuidv4();
+	let logId: number | null = null;
 
 	try {
-		const reqBody = await c.req.json<{
-			targetUrl: string;
-			shelterId?: number;
-		}>();
-		const targetUrl = reqBody.targetUrl;
-		const shelterId = reqBody.shelterId;
+		logId = await syncRepository.syncRepository.createSyncLog(
+			db,
+			"bundle_export",
+			`bundle:${bundleId}`,
+			shelterId,
+		);
 
-		if (!targetUrl) {
-			return c.json({ error: "targetUrl is required" }, 400);
+		// Push同期で送るものと同じ未同期データ（送信対象の避難所に限る）
+		const scope = resolvePushScope(c.env, shelterId);
+		const [
+			posts,
+			comments,
+			locationTracks,
+			unsyncedMedia,
+			occupancy,
+			inventoryItems,
+			inventoryTransactions,
+			outOfScope,
+		] = await Promise.all([
+			syncRepository.syncRepository.fetchUnsyncedPosts(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedComments(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedLocationTracks(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedMedia(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedOccupancy(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedInventoryItems(db, scope),
+			syncRepository.syncRepository.fetchUnsyncedInventoryTransactions(
+				db,
+				scope,
+			),
+			describeOutOfScope(db, scope),
+		]);
+		const outOfScopeRecords = countOutOfScope(outOfScope);
+		if (outOfScopeRecords > 0) {
+			console.warn(
+				`⚠️ 送信対象外の避難所の未同期データ ${outOfScopeRecords}件はバンドルに含めません`,
+			);
+			await syncRepository.syncRepository.recordSyncLogOutOfScope(
+				db,
+				logId,
+				outOfScopeRecords,
+			);
 		}
-
-		console.log("🔄 同期開始:", targetUrl);
-		if (shelterId) {
-			console.log("🏠 避難所ID:", shelterId);
+		const postMedia = await syncRepository.syncRepository.fetchMediaByPostIds(
+			db,
+			posts.map((post) => post.id),
+		);
+		const media = [
+			...new Map(
+				[...postMedia, ...unsyncedMedia].map((item) => [item.id, item]),
+			).values(),
+		];
+
+		// メディアファイル本体をR2から読み込む（見つからないファイルはメタデータのみ送る）
+		const mediaFiles: syncBundleRepository.SyncBundleMediaFile[] = [];
+		for (const filePath of new Set(media.map((item) => item.file_path))) {
+			const object = await bucket.get(filePath);
+			if (!object) {
+				console.warn(`⚠️ R2にメディアファイルがありません: ${filePath}`);
+				continue;
+			}
+			mediaFiles.push({
+				filePath,
+				contentType:
+					object.httpMetadata?.contentType || "application/octet-stream",
+				body: await object.arrayBuffer(),
+			});
 		}
 
-		// 同期ログを作成
-		const logId = await syncRepository.syncRepository.createSyncLog(
-			db,
-			"manual",
-			targetUrl,
+		const bundle = await syncBundleRepository.createSyncBundle({
+			bundleId,
+			nodeId: c.env.SYNC_NODE_ID,
+			secret: c.env.SYNC_NODE_SECRET,
 			shelterId,
+			data: {
+				posts,
+				comments,
+				locationTracks,
+				media,
+				occupancy,
+				inventoryItems,
+				inventoryTransactions,
+				sourceUrl: c.req.url,
+				protocolVersion: syncProtocolRepository.SYNC_PROTOCOL_VERSION,
+			},
+			mediaFiles,
+		});
+
+		// 持ち運んだバンドルが届いたかは分からないため同期済みにはしない（取り込みは冪等）
+		await syncRepository.syncRepository.completeSyncLog(
+			db,
+			logId,
+			posts.length,
+			comments.length,
+			locationTracks.length,
+			media.length,
 		);
 
-		// 未同期データを取得
-		const [posts, comments, locationTracks] = await Promise.all([
-			syncRepository.syncRepository.fetchUnsyncedPosts(db),
-			syncRepository.syncRepository.fetchUnsyncedComments(db),
-			syncRepository.syncRepository.fetchUnsyncedLocationTracks(db),
-		]);
-		const media = await syncRepository.syncRepository.fetchMediaByPostIds(
+		console.log(
+			`📦 同期バンドル書き出し: ${bundleId} posts=${posts.length}, comments=${comments.length}, tracks=${locationTracks.length}, media=${media.length}, files=${mediaFiles.length}`,
+		);
+
+		const fileName = `sync-bundle-${c.env.SYNC_NODE_ID}-${bundleId}.json`;
+		return c.json(bundle, 200, {
+			"Content-Disposition": `attachment; filename="${fileName}"`,
+		});
+	} catch (error) {
+		console.error("Sync bundle export failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		if (logId !== null) {
+			await syncRepository.syncRepository.failSyncLog(db, logId, message);
+		}
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// 他のノードで書き出した同期バンドルを検証して取り込む
+app.post("/api/sync/bundle/import", async (c) => {
+	const db = dbConnect(c.env);
+	const bucket = c.env.ASSET_BUCKET;
+
+	try {
+		const bundle = await syncBundleRepository.openSyncBundle(
 			db,
-			posts.map((post) => post.id),
+			await c.req.text(),
 		);
+		const { manifest, mediaFiles } = bundle;
+		const sourceUrl = `bundle:${manifest.bundleId}`;
+		// 書き出したノードのビルドが古い場合は旧形式を変換し、扱えない形式はメディアも保存せず拒否する
+		const data = await acceptSyncPayload(db, bundle.data, {
+			syncType: "bundle_import",
+			sourceUrl,
+			shelterId: manifest.shelterId,
+			verifiedNodeId: manifest.nodeId,
+		});
 
 		console.log(
-			`📊 未同期データ: posts=${posts.length}, comments=${comments.length}, tracks=${locationTracks.length}, media=${media.length}`,
+			`📦 同期バンドル取り込み: ${manifest.bundleId} (node=${manifest.nodeId}, createdAt=${manifest.createdAt})`,
 		);
 
-		if (
-			posts.length === 0 &&
-			comments.length === 0 &&
-			locationTracks.length === 0
-		) {
+		// 投稿より先にメディアファイルを保存しておく
+		for (const file of mediaFiles) {
+			await videoRepository.uploadVideo({
+				bucket,
+				key: file.filePath,
+				body: file.body,
+				contentType: file.contentType,
+			});
+		}
+
+		const result = await applyReceivedSyncData(db, data, {
+			syncType: "bundle_import",
+			sourceUrl,
+			verifiedNodeId: manifest.nodeId,
+			relay: isRelayNode(c.env),
+		});
+
+		// 反映するデータがなくても取り込んだことは記録する
+		if (result.shelterResults.length === 0) {
+			const logId = await syncRepository.syncRepository.createSyncLog(
+				db,
+				"bundle_import",
+				sourceUrl,
+				manifest.shelterId,
+				manifest.nodeId,
+			);
 			await syncRepository.syncRepository.completeSyncLog(
 				db,
 				logId,
@@ -868,372 +5323,645 @@ app.post("/api/sync/execute", async (c) => {
 				0,
 				0,
 			);
-			return c.json({
-				success: true,
-				message: "同期するデータがありません",
-				postsSynced: 0,
-				commentsSynced: 0,
-				locationTracksSynced: 0,
-				mediaSynced: 0,
-			});
 		}
 
-		// 本番APIにデータを送信
-		const syncData: SyncReceiveData = {
-			posts,
-			comments,
-			locationTracks,
-			media,
-			sourceUrl: c.req.url,
+		const response: paths["/api/sync/bundle/import"]["post"]["responses"]["200"]["content"]["application/json"] =
+			{
+				...result,
+				bundleId: manifest.bundleId,
+				sourceNodeId: manifest.nodeId,
+				bundleCreatedAt: manifest.createdAt,
+				mediaFilesStored: mediaFiles.length,
+			};
+		return c.json(response);
+	} catch (error) {
+		if (
+			error instanceof syncBundleRepository.InvalidSyncBundleError ||
+			error instanceof syncProtocolRepository.IncompatibleSyncProtocolError
+		) {
+			console.warn(`🚫 同期バンドルを拒否: ${error.message}`);
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: error.message,
+			};
+			return c.json(errorResponse, 400);
+		}
+		console.error("Sync bundle import failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
 		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-		console.log("📤 同期データ準備完了");
-		console.log(`📤 送信先URL: ${targetUrl}/api/sync/receive`);
-		console.log(`📤 データサイズ: ${JSON.stringify(syncData).length} bytes`);
+type SyncLogItem = components["schemas"]["SyncLogItem"];
+
+// 同期先へのリクエストの平均応答時間（リクエストしていない場合は null）
+const averageLatency = (latencyMs: number, requests: number): number | null =>
+	requests > 0 ? Math.round(latencyMs / requests) : null;
+
+const toSyncLogItem = (log: SyncLogWithShelter): SyncLogItem => ({
+	id: log.id,
+	shelterId: log.shelter_id,
+	shelterName: log.shelter_name,
+	syncType: log.sync_type,
+	status: log.status,
+	startedAt: log.started_at,
+	completedAt: log.completed_at,
+	postsSynced: log.posts_synced,
+	commentsSynced: log.comments_synced,
+	locationTracksSynced: log.location_tracks_synced,
+	mediaSynced: log.media_synced,
+	totalSynced:
+		log.posts_synced +
+		log.comments_synced +
+		log.location_tracks_synced +
+		log.media_synced,
+	errorMessage: log.error_message,
+	targetUrl: log.target_url,
+	verifiedNodeId: log.verified_node_id,
+	batchesTotal: log.batches_total,
+	batchesCompleted: log.batches_completed,
+	phase: log.phase,
+	outOfScopeRecords: log.out_of_scope_records,
+	pendingFailures: log.pending_failures,
+	dataDurationMs: log.data_duration_ms,
+	mediaDurationMs: log.media_duration_ms,
+	payloadBytes: log.payload_bytes,
+	mediaBytes: log.media_bytes,
+	avgUpstreamLatencyMs: averageLatency(
+		log.upstream_latency_ms,
+		log.upstream_requests,
+	),
+});
 
-		let response: Response;
-		try {
-			console.log("📤 本番APIへリクエスト送信中...");
-			response = await fetch(`${targetUrl}/api/sync/receive`, {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify(syncData),
-			});
-			console.log(`📥 本番APIからレスポンス受信: status=${response.status}`);
-		} catch (fetchError) {
-			console.error("❌ 本番APIへのfetchエラー:", fetchError);
-			const fetchErrorMsg =
-				fetchError instanceof Error ? fetchError.message : String(fetchError);
-			await syncRepository.syncRepository.failSyncLog(
-				db,
-				logId,
-				`fetch失敗: ${fetchErrorMsg}`,
-			);
-			return c.json({ error: `本番APIへの接続エラー: ${fetchErrorMsg}` }, 500);
-		}
+const toSyncMetricsDay = (
+	day: SyncMetricsDaily,
+): components["schemas"]["SyncMetricsDay"] => ({
+	date: day.date,
+	shelterId: day.shelter_id,
+	shelterName: day.shelter_name,
+	syncCount: day.sync_count,
+	failedCount: day.failed_count,
+	avgDurationMs: Math.round(
+		(day.data_duration_ms + day.media_duration_ms) / day.sync_count,
+	),
+	dataDurationMs: day.data_duration_ms,
+	mediaDurationMs: day.media_duration_ms,
+	payloadBytes: day.payload_bytes,
+	mediaBytes: day.media_bytes,
+	upstreamRequests: day.upstream_requests,
+	avgUpstreamLatencyMs: averageLatency(
+		day.upstream_latency_ms,
+		day.upstream_requests,
+	),
+});
 
-		if (!response.ok) {
-			console.error(`❌ 本番APIエラー応答: status=${response.status}`);
-			const errorText = await response.text();
-			console.error(`❌ エラー詳細: ${errorText}`);
-			await syncRepository.syncRepository.failSyncLog(
-				db,
-				logId,
-				`本番API応答エラー: ${response.status} ${errorText}`,
-			);
-			return c.json(
-				{ error: `同期先APIエラー: ${response.status}`, details: errorText },
-				500,
-			);
-		}
+const toSyncLogFailureItem = (
+	failure: SyncLogFailure,
+): components["schemas"]["SyncLogFailureItem"] => ({
+	id: failure.id,
+	direction: failure.direction,
+	recordType: failure.recordType,
+	recordId: failure.recordId,
+	label: failure.label,
+	errorMessage: failure.errorMessage,
+	createdAt: failure.createdAt,
+	retriedAt: failure.retriedAt,
+	retryLogId: failure.retryLogId,
+});
 
-		console.log("📥 本番APIレスポンスのJSON解析中...");
-		let result: unknown;
-		try {
-			result = await response.json();
-			console.log("📥 レスポンスJSON解析成功:", result);
-		} catch (jsonError) {
-			console.error("❌ レスポンスJSON解析エラー:", jsonError);
-			const jsonErrorMsg =
-				jsonError instanceof Error ? jsonError.message : String(jsonError);
-			await syncRepository.syncRepository.failSyncLog(
-				db,
-				logId,
-				`レスポンスJSON解析失敗: ${jsonErrorMsg}`,
-			);
-			return c.json({ error: `レスポンス解析エラー: ${jsonErrorMsg}` }, 500);
-		}
+/**
+ * 失敗項目を再試行できる同期ログかどうか（同期先のURLが記録されているもののみ）
+ * バンドルの書き出し・取り込みや受信のログは同期先に送り直せない
+ */
+const isRetryableLog = (
+	log: SyncLog,
+): log is SyncLog & { target_url: string } =>
+	/^https?:\/\//.test(log.target_url ?? "");
 
-		// 同期成功したデータのフラグを更新
-		const postIds = posts.map((p) => p.id);
-		const commentIds = comments.map((c) => c.id);
-		const trackIds = locationTracks.map((t) => t.id);
-		const mediaIds = media.map((m) => m.id);
+// 同期ログ一覧を取得
+app.get("/api/sync/logs", async (c) => {
+	const db = dbConnect(c.env);
 
-		console.log(`🔄 ローカルDBの is_synced フラグ更新中...`);
-		console.log(`  - 投稿ID: ${postIds.join(", ")}`);
-		console.log(`  - コメントID: ${commentIds.join(", ")}`);
-		console.log(`  - 位置情報ID: ${trackIds.join(", ")}`);
-		console.log(`  - メディアID: ${mediaIds.join(", ")}`);
+	try {
+		const shelterIdParam = c.req.query("shelterId");
+		const pageParam = c.req.query("page");
+		const limitParam = c.req.query("limit");
 
-		try {
-			await Promise.all([
-				syncRepository.syncRepository.markPostsAsSynced(db, postIds),
-				syncRepository.syncRepository.markCommentsAsSynced(db, commentIds),
-				syncRepository.syncRepository.markLocationTracksAsSynced(db, trackIds),
-			]);
-			console.log("✅ is_synced フラグ更新完了");
-		} catch (markError) {
-			console.error("❌ is_synced フラグ更新エラー:", markError);
-			throw markError;
+		const shelterId = shelterIdParam
+			? Number.parseInt(shelterIdParam, 10)
+			: undefined;
+		const page = pageParam ? Number.parseInt(pageParam, 10) : 1;
+		const limit = limitParam ? Number.parseInt(limitParam, 10) : 10;
+
+		// バリデーション
+		if (shelterId !== undefined && Number.isNaN(shelterId)) {
+			return c.json({ error: "shelterId must be a valid number" }, 400);
+		}
+		if (Number.isNaN(page) || page < 1) {
+			return c.json({ error: "page must be a positive number" }, 400);
+		}
+		if (Number.isNaN(limit) || limit < 1 || limit > 100) {
+			return c.json({ error: "limit must be between 1 and 100" }, 400);
 		}
 
-		// 同期ログを完了に更新
-		console.log("🔄 同期ログ更新中...");
-		await syncRepository.syncRepository.completeSyncLog(
+		const result = await syncRepository.syncRepository.fetchSyncLogs(
 			db,
-			logId,
-			posts.length,
-			comments.length,
-			locationTracks.length,
-			media.length,
+			shelterId,
+			page,
+			limit,
 		);
-		console.log("✅ 同期ログ更新完了");
 
-		console.log("✅ 同期完了");
+		// レスポンスを OpenAPI スキーマに合わせて変換
+		const response: paths["/api/sync/logs"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				logs: result.logs.map(toSyncLogItem),
+				totalCount: result.totalCount,
+				page: result.page,
+				limit: result.limit,
+				totalPages: result.totalPages,
+			};
 
-		return c.json({
-			success: true,
-			postsSynced: posts.length,
-			commentsSynced: comments.length,
-			locationTracksSynced: locationTracks.length,
-			mediaSynced: media.length,
-			remoteResult: result,
-		});
+		return c.json(response);
 	} catch (error) {
-		console.error("❌❌❌ Sync execution failed ❌❌❌");
-		console.error("エラーオブジェクト:", error);
-		console.error("エラー型:", typeof error);
-		if (error instanceof Error) {
-			console.error("エラーメッセージ:", error.message);
-			console.error("スタックトレース:", error.stack);
-		}
+		console.error("Failed to fetch sync logs", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		return c.json({ error: message }, 500);
 	}
 });
 
-// 差分Pullデータを取得（本番側で使用）
-app.get("/api/sync/pull", async (c) => {
+// 同期ログの詳細（失敗した項目とその理由）を取得
+app.get("/api/sync/logs/:id", async (c) => {
 	const db = dbConnect(c.env);
-	const since = c.req.query("since");
-	const shelterId = resolveShelterId(c.req.query("shelterId"), c.env);
 
-	if (!shelterId) {
-		return c.json({ error: "shelterId is required" }, 400);
+	try {
+		const logId = Number(c.req.param("id"));
+		const log = Number.isInteger(logId)
+			? await syncRepository.syncRepository.getSyncLogWithShelter(db, logId)
+			: null;
+		if (!log) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "Sync log not found",
+			};
+			return c.json(errorResponse, 404);
+		}
+
+		const failures = await syncLogFailureRepository.listFailures(db, log.id);
+		const response: paths["/api/sync/logs/{id}"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				log: toSyncLogItem(log),
+				failures: failures.map(toSyncLogFailureItem),
+				retryable: log.pending_failures > 0 && isRetryableLog(log),
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to fetch sync log detail", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
 	}
+});
+
+/**
+ * 同期ログに記録された失敗項目だけを送り直す（メディアは送信・取得の向きに合わせて送り直す）
+ * 結果は新しい同期ログに記録し、そのIDを返す
+ */
+async function runSyncLogRetry(
+	env: Bindings,
+	log: SyncLog & { target_url: string },
+	failures: SyncLogFailure[],
+	sourceUrl: string,
+): Promise<number> {
+	const db = dbConnect(env);
+	const targetUrl = log.target_url;
+	const retryLogId = await syncRepository.syncRepository.createSyncLog(
+		db,
+		"retry",
+		targetUrl,
+		log.shelter_id,
+	);
+	await syncLogFailureRepository.markRetried(db, log.id, retryLogId);
 
 	try {
-		const [posts, comments, locationTracks, media] = await Promise.all([
-			syncRepository.syncRepository.fetchPostsForPull(db, shelterId, since),
-			syncRepository.syncRepository.fetchCommentsForPull(db, shelterId, since),
-			syncRepository.syncRepository.fetchLocationTracksForPull(
-				db,
-				shelterId,
-				since,
-			),
-			syncRepository.syncRepository.fetchMediaForPull(db, shelterId, since),
+		const mediaIdsOf = (direction: SyncLogFailure["direction"]) =>
+			failures
+				.filter(
+					(failure) =>
+						failure.direction === direction && failure.recordType === "media",
+				)
+				.map((failure) => failure.recordId);
+		const [pushMedia, pullMedia] = await Promise.all([
+			syncRepository.syncRepository.fetchMediaByIds(db, mediaIdsOf("push")),
+			syncRepository.syncRepository.fetchMediaByIds(db, mediaIdsOf("pull")),
 		]);
 
-		const response: paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"] =
+		// メディアファイル本体を先に送り直す（データの投稿が参照するため）
+		const mediaTotal = pushMedia.length + pullMedia.length;
+		const mediaMetrics = newSyncMetrics();
+		let mediaFailed = 0;
+		if (pushMedia.length > 0) {
+			const pushed = await measureMediaTransfer(mediaMetrics, () =>
+				pushMediaItems(env, targetUrl, pushMedia, undefined, mediaMetrics),
+			);
+			mediaFailed += pushed.errors.length;
+			await syncLogFailureRepository.recordFailures(
+				db,
+				retryLogId,
+				"push",
+				mediaFailures(pushed.errors),
+			);
+		}
+		if (pullMedia.length > 0) {
+			const pulled = await measureMediaTransfer(mediaMetrics, () =>
+				syncMediaFiles(
+					env.ASSET_BUCKET,
+					targetUrl,
+					pullMedia,
+					env,
+					mediaMetrics,
+					isLowBandwidthLink(env) ? LOW_BANDWIDTH_IMAGE_MAX_WIDTH : undefined,
+				),
+			);
+			mediaFailed += pulled.errors.length;
+			await syncLogFailureRepository.recordFailures(
+				db,
+				retryLogId,
+				"pull",
+				mediaFailures(pulled.errors),
+			);
+		}
+		await syncRepository.syncRepository.recordSyncLogMediaProgress(
+			db,
+			retryLogId,
 			{
-				serverTime: new Date().toISOString(),
-				posts,
-				comments,
-				locationTracks,
-				media,
-			};
+				total: mediaTotal,
+				completed: mediaTotal - mediaFailed,
+				failed: mediaFailed,
+			},
+		);
+		await syncRepository.syncRepository.addSyncLogMetrics(
+			db,
+			retryLogId,
+			mediaMetrics,
+		);
 
-		return c.json(response);
+		// 失敗したバッチのレコード（既に別の同期で送れたものは未同期でないため送られない）
+		const dataFailures = failures.filter(
+			(failure) => failure.recordType !== "media",
+		);
+		if (dataFailures.length === 0) {
+			await syncRepository.syncRepository.completeSyncLog(
+				db,
+				retryLogId,
+				0,
+				0,
+				0,
+				mediaTotal - mediaFailed,
+			);
+			return retryLogId;
+		}
+
+		// 送信に失敗した場合は runPushSync が失敗項目とログを記録済み
+		await runPushSync(env, {
+			targetUrl,
+			shelterId: log.shelter_id,
+			scope: null,
+			syncType: "retry",
+			sourceUrl,
+			jobLogId: retryLogId,
+			onlyRecords: new Set(
+				dataFailures.map((failure) =>
+					failureKey(failure.recordType, failure.recordId),
+				),
+			),
+		});
 	} catch (error) {
-		console.error("Failed to pull sync data", error);
+		console.error(`❌ 同期ログ ${log.id} の再試行に失敗:`, error);
 		const message = error instanceof Error ? error.message : "Unknown error";
-		return c.json({ error: message }, 500);
+		await syncRepository.syncRepository.failSyncLog(db, retryLogId, message);
 	}
-});
+	return retryLogId;
+}
 
-// 差分Pullを実行（ローカル → 本番から取得して反映）
-app.post("/api/sync/pull/execute", async (c) => {
+// 同期ログの失敗項目を再試行
+app.post("/api/sync/logs/:id/retry", async (c) => {
 	const db = dbConnect(c.env);
-	let logId: number | null = null;
+	let lockHolder: string | null = null;
 
 	try {
-		const reqBody = await c.req.json<{
-			targetUrl: string;
-			shelterId?: number;
-		}>();
-		const targetUrl = reqBody.targetUrl;
-		const shelterId = reqBody.shelterId ?? resolveShelterId(undefined, c.env);
+		const logId = Number(c.req.param("id"));
+		const log = Number.isInteger(logId)
+			? await syncRepository.syncRepository.getSyncLog(db, logId)
+			: null;
+		if (!log) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "Sync log not found",
+			};
+			return c.json(errorResponse, 404);
+		}
 
-		if (!targetUrl) {
-			return c.json({ error: "targetUrl is required" }, 400);
+		const failures = await syncLogFailureRepository.fetchPendingFailures(
+			db,
+			log.id,
+		);
+		if (failures.length === 0 || !isRetryableLog(log)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "再試行できる失敗項目がありません",
+			};
+			return c.json(errorResponse, 400);
 		}
-		if (!shelterId) {
-			return c.json({ error: "shelterId is required" }, 400);
+		if (!(await isAllowedSyncTarget(c.env, log.target_url))) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_TARGET_NOT_ALLOWED_MESSAGE,
+			};
+			return c.json(errorResponse, 403);
 		}
 
-		logId = await syncRepository.syncRepository.createSyncLog(
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
 			db,
-			"pull",
-			targetUrl,
-			shelterId,
+			"manual",
+		);
+		if (!lockHolder) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_LOCKED_MESSAGE,
+			};
+			return c.json(errorResponse, 409);
+		}
+
+		const retryLogId = await runSyncLogRetry(c.env, log, failures, c.req.url);
+		const retryLog = await syncRepository.syncRepository.getSyncLogWithShelter(
+			db,
+			retryLogId,
 		);
+		if (!retryLog) {
+			throw new Error(`Sync log not found: ${retryLogId}`);
+		}
+		return c.json(toSyncLogItem(retryLog));
+	} catch (error) {
+		console.error("Sync log retry failed", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
+	}
+});
+
+// 同期の性能指標を避難所・日ごとに集計して取得
+app.get("/api/sync/metrics", async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const shelterIdParam = c.req.query("shelterId");
+		const daysParam = c.req.query("days");
+
+		const shelterId = shelterIdParam
+			? Number.parseInt(shelterIdParam, 10)
+			: undefined;
+		const days = daysParam ? Number.parseInt(daysParam, 10) : 14;
+
+		if (shelterId !== undefined && Number.isNaN(shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a valid number",
+			};
+			return c.json(errorResponse, 400);
+		}
+		if (Number.isNaN(days) || days < 1 || days > 90) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "days must be between 1 and 90",
+			};
+			return c.json(errorResponse, 400);
+		}
 
-		const scopeKey = `shelter:${shelterId}`;
-		const lastPulledAt = await syncRepository.syncRepository.getLastPulledAt(
+		const metrics = await syncRepository.syncRepository.fetchSyncMetricsDaily(
 			db,
-			scopeKey,
+			days,
+			shelterId,
 		);
+		const response: paths["/api/sync/metrics"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{
+				days,
+				metrics: metrics.map(toSyncMetricsDay),
+			};
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to fetch sync metrics", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
+
+// ==================== 同期競合API ====================
+
+app.get(
+	"/api/sync/conflicts",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const status = c.req.query("status") ?? "open";
+		const shelterIdParam = c.req.query("shelterId");
 
-		const queryParams = new URLSearchParams({ shelterId: String(shelterId) });
-		if (lastPulledAt) {
-			queryParams.set("since", lastPulledAt);
+		if (status !== "open" && status !== "resolved" && status !== "all") {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "status must be one of open, resolved, all",
+			};
+			return c.json(errorResponse, 400);
 		}
 
-		let response: Response;
-		try {
-			response = await fetch(`${targetUrl}/api/sync/pull?${queryParams}`);
-		} catch (fetchError) {
-			const fetchMessage =
-				fetchError instanceof Error ? fetchError.message : String(fetchError);
-			await syncRepository.syncRepository.failSyncLog(
-				db,
-				logId,
-				`fetch失敗: ${fetchMessage}`,
-			);
-			return c.json({ error: `本番APIへの接続エラー: ${fetchMessage}` }, 500);
+		let shelterId = shelterIdParam
+			? Number.parseInt(shelterIdParam, 10)
+			: undefined;
+		if (shelterId !== undefined && Number.isNaN(shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "shelterId must be a valid number",
+			};
+			return c.json(errorResponse, 400);
 		}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			await syncRepository.syncRepository.failSyncLog(
-				db,
-				logId,
-				`本番API応答エラー: ${response.status} ${errorText}`,
-			);
-			return c.json(
-				{ error: `同期先APIエラー: ${response.status}`, details: errorText },
-				500,
-			);
+		// 避難所スタッフは所属避難所の競合のみ参照できる
+		const staff = c.get("staff");
+		if (shelterId !== undefined && isOtherShelterStaff(staff, shelterId)) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "この避難所の同期競合を参照する権限がありません",
+			};
+			return c.json(errorResponse, 403);
+		}
+		if (staff?.role === "shelter_staff" && staff.shelterId !== null) {
+			shelterId = staff.shelterId;
 		}
 
-		const pullData =
-			await response.json<
-				paths["/api/sync/pull"]["get"]["responses"]["200"]["content"]["application/json"]
-			>();
+		const db = dbConnect(c.env);
 
-		const normalizedPullData: SyncPullData = {
-			serverTime: pullData.serverTime,
-			posts: pullData.posts.map((post) => ({
-				...post,
-				content: post.content ?? null,
-				status: post.status ?? null,
-			})),
-			comments: pullData.comments.map((comment) => ({
-				...comment,
-			})),
-			locationTracks: pullData.locationTracks.map((track) => ({
-				...track,
-			})),
-			media: pullData.media.map((media) => ({
-				...media,
-				file_name: media.file_name ?? null,
-				deleted_at: media.deleted_at ?? null,
-			})),
-		};
-
-		const applyResult = await syncRepository.syncRepository.applyPulledData(
-			db,
-			normalizedPullData,
-		);
+		try {
+			const conflicts = await syncConflictRepository.fetchSyncConflicts(db, {
+				status,
+				shelterId,
+			});
+			const response: paths["/api/sync/conflicts"]["get"]["responses"]["200"]["content"]["application/json"] =
+				{ conflicts };
+			return c.json(response);
+		} catch (error) {
+			console.error("Failed to fetch sync conflicts", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
+		}
+	},
+);
 
-		// メディアファイルを本番R2からローカルR2に同期
-		let mediaSynced = 0;
-		let mediaFailed = 0;
+app.post(
+	"/api/sync/conflicts/:id/resolve",
+	requireRole("shelter_staff", "hq_admin"),
+	async (c) => {
+		const conflictId = c.req.param("id");
+		const db = dbConnect(c.env);
 
-		if (normalizedPullData.media.length > 0) {
-			console.log(
-				`📦 メディアファイル同期開始: ${normalizedPullData.media.length}件`,
-			);
-			const mediaResult = await syncMediaFiles(
-				c.env.ASSET_BUCKET,
-				targetUrl,
-				normalizedPullData.media,
-			);
-			mediaSynced = mediaResult.synced;
-			mediaFailed = mediaResult.failed;
-			console.log(
-				`📦 メディアファイル同期完了: 成功=${mediaSynced}, 失敗=${mediaFailed}`,
-			);
-		}
+		try {
+			const reqBody =
+				await c.req.json<components["schemas"]["ResolveSyncConflictRequest"]>();
 
-		await syncRepository.syncRepository.setLastPulledAt(
-			db,
-			scopeKey,
-			pullData.serverTime,
-		);
+			const fields = reqBody?.fields ?? {};
+			if (
+				!reqBody ||
+				(reqBody.resolution !== "local" &&
+					reqBody.resolution !== "remote" &&
+					reqBody.resolution !== "merged") ||
+				typeof fields !== "object" ||
+				Object.entries(fields).some(
+					([field, side]) =>
+						!(
+							syncConflictRepository.CONFLICT_FIELDS as readonly string[]
+						).includes(field) ||
+						(side !== "local" && side !== "remote"),
+				)
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "invalid request body",
+				};
+				return c.json(errorResponse, 400);
+			}
 
-		await syncRepository.syncRepository.completeSyncLog(
-			db,
-			logId,
-			applyResult.postsApplied,
-			applyResult.commentsApplied,
-			applyResult.locationTracksApplied,
-			mediaSynced,
-		);
+			const staff = c.get("staff");
+			const conflict = await syncConflictRepository.fetchSyncConflictById(
+				db,
+				conflictId,
+			);
+			if (
+				conflict.shelterId !== null &&
+				isOtherShelterStaff(staff, conflict.shelterId)
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "この避難所の同期競合を解決する権限がありません",
+				};
+				return c.json(errorResponse, 403);
+			}
 
-		const result: paths["/api/sync/pull/execute"]["post"]["responses"]["200"]["content"]["application/json"] =
-			{
-				success: true,
-				postsPulled: applyResult.postsApplied,
-				commentsPulled: applyResult.commentsApplied,
-				locationTracksPulled: applyResult.locationTracksApplied,
-				mediaPulled: applyResult.mediaApplied,
-				mediaSynced,
-				mediaFailed,
-				lastPulledAt: pullData.serverTime,
-			};
+			const resolved = await syncConflictRepository.resolveSyncConflict(
+				db,
+				conflictId,
+				{
+					resolution: reqBody.resolution,
+					fields,
+					resolvedBy: staff?.loginId ?? null,
+				},
+			);
 
-		return c.json(result);
-	} catch (error) {
-		console.error("Sync pull execution failed", error);
-		const message = error instanceof Error ? error.message : "Unknown error";
-		if (logId !== null) {
-			try {
-				await syncRepository.syncRepository.failSyncLog(db, logId, message);
-			} catch (logError) {
-				console.error("Failed to update sync log for pull failure", logError);
+			const response: paths["/api/sync/conflicts/{id}/resolve"]["post"]["responses"]["200"]["content"]["application/json"] =
+				resolved;
+			return c.json(response);
+		} catch (error) {
+			if (error instanceof syncConflictRepository.SyncConflictNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定した同期競合は見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			if (
+				error instanceof syncConflictRepository.SyncConflictAlreadyResolvedError
+			) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "この同期競合は既に解決されています",
+				};
+				return c.json(errorResponse, 409);
 			}
+			console.error("Failed to resolve sync conflict", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
 		}
-		return c.json({ error: message }, 500);
-	}
-});
+	},
+);
 
-// 差分Pull用: メディアファイルをダウンロード（本番側で使用）
-app.get("/api/sync/pull/media", async (c) => {
-	const filePath = c.req.query("filePath");
+// ==================== 同期ノード管理API ====================
 
-	if (!filePath) {
+app.get("/api/sync/nodes", requireRole("hq_admin"), async (c) => {
+	const db = dbConnect(c.env);
+
+	try {
+		const nodes = await syncNodeRepository.listSyncNodes(db);
+		const response: paths["/api/sync/nodes"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{ nodes };
+		return c.json(response);
+	} catch (error) {
+		console.error("Failed to fetch sync nodes", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
-			error: "filePath is required",
+			error: message,
 		};
-		return c.json(errorResponse, 400);
+		return c.json(errorResponse, 500);
 	}
+});
 
-	const bucket = c.env.ASSET_BUCKET;
+app.post("/api/sync/nodes", requireRole("hq_admin"), async (c) => {
+	const db = dbConnect(c.env);
 
 	try {
-		const object = await bucket.get(filePath);
+		const reqBody =
+			await c.req.json<components["schemas"]["CreateSyncNodeRequest"]>();
 
-		if (!object) {
+		if (
+			!reqBody ||
+			typeof reqBody.nodeId !== "string" ||
+			!/^[A-Za-z0-9_-]{1,64}$/.test(reqBody.nodeId) ||
+			typeof reqBody.name !== "string" ||
+			reqBody.name.trim() === ""
+		) {
 			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "Media not found in R2",
+				error: "invalid request body",
 			};
-			return c.json(errorResponse, 404);
+			return c.json(errorResponse, 400);
 		}
 
-		const headers = new Headers();
-		headers.set(
-			"Content-Type",
-			object.httpMetadata?.contentType || "application/octet-stream",
+		const { node, sharedSecret } = await syncNodeRepository.registerSyncNode(
+			db,
+			{ nodeId: reqBody.nodeId, name: reqBody.name.trim() },
 		);
-		headers.set("Content-Length", String(object.size));
 
-		return new Response(object.body, { headers });
+		const response: paths["/api/sync/nodes"]["post"]["responses"]["201"]["content"]["application/json"] =
+			{ node, sharedSecret };
+		return c.json(response, 201);
 	} catch (error) {
-		console.error("Failed to get media from R2", error);
+		if (error instanceof syncNodeRepository.DuplicateSyncNodeError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "ノードIDが既に登録されています",
+			};
+			return c.json(errorResponse, 409);
+		}
+		console.error("Failed to register sync node", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -1242,106 +5970,323 @@ app.get("/api/sync/pull/media", async (c) => {
 	}
 });
 
-// メディアを本番R2に同期（ローカルR2 -> 本番R2）
-app.post("/api/sync/media", async (c) => {
-	const db = dbConnect(c.env);
-	const bucket = c.env.ASSET_BUCKET;
-
-	try {
-		const reqBody = await c.req.json<{
-			targetUrl: string;
-		}>();
-		const targetUrl = reqBody.targetUrl;
+app.post(
+	"/api/sync/nodes/:nodeId/revoke",
+	requireRole("hq_admin"),
+	async (c) => {
+		const db = dbConnect(c.env);
+		const nodeId = c.req.param("nodeId");
 
-		if (!targetUrl) {
-			return c.json({ error: "targetUrl is required" }, 400);
+		try {
+			const node = await syncNodeRepository.revokeSyncNode(db, nodeId);
+			const response: paths["/api/sync/nodes/{nodeId}/revoke"]["post"]["responses"]["200"]["content"]["application/json"] =
+				node;
+			return c.json(response);
+		} catch (error) {
+			if (error instanceof syncNodeRepository.SyncNodeNotFoundError) {
+				const errorResponse: components["schemas"]["ErrorResponse"] = {
+					error: "指定したノードは見つかりませんでした",
+				};
+				return c.json(errorResponse, 404);
+			}
+			console.error("Failed to revoke sync node", error);
+			const message = error instanceof Error ? error.message : "Unknown error";
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: message,
+			};
+			return c.json(errorResponse, 500);
 		}
+	},
+);
 
-		const mediaItems =
-			await syncRepository.syncRepository.fetchUnsyncedMedia(db);
+/**
+ * メディアファイル本体を同期先へ送信し、送れなかったものは再試行キューに入れる
+ */
+async function pushMediaFilesToTarget(
+	env: Bindings,
+	targetUrl: string,
+	mediaItems: UnsyncedMedia[],
+	metrics: SyncLogMetrics,
+): Promise<void> {
+	const db = dbConnect(env);
+	const syncedIds: string[] = [];
+	const startedAt = Date.now();
 
-		if (mediaItems.length === 0) {
-			const response: paths["/api/sync/media"]["post"]["responses"]["200"]["content"]["application/json"] =
-				{
-					success: true,
-					total: 0,
-					mediaSynced: 0,
-					failed: 0,
-					errors: [],
-				};
-			return c.json(response);
+	for (const media of mediaItems) {
+		try {
+			await pushMediaFile(env, targetUrl, media, metrics);
+			syncedIds.push(media.id);
+		} catch (error) {
+			await mediaSyncRetryRepository.recordFailure(db, {
+				mediaId: media.id,
+				direction: "push",
+				targetUrl,
+				filePath: media.file_path,
+				error: error instanceof Error ? error.message : String(error),
+			});
 		}
+	}
 
-		const syncedIds: string[] = [];
-		const errors: {
-			mediaId: string;
-			filePath: string;
-			error: string;
-		}[] = [];
+	await mediaSyncRetryRepository.clearRetries(db, "push", targetUrl, syncedIds);
+	metrics.mediaDurationMs += Date.now() - startedAt;
+}
 
-		for (const media of mediaItems) {
-			try {
-				const object = await bucket.get(media.file_path);
-				if (!object) {
-					errors.push({
-						mediaId: media.id,
-						filePath: media.file_path,
-						error: "local R2 object not found",
-					});
-					continue;
-				}
+/**
+ * 変更ログを同期先ごとのカーソルの次から転送する
+ * is_synced は上流（本番）への送信状況のため使わず、同期先ごとに転送済みの seq を sync_state に保存する
+ * ノードに設定した送信対象の避難所に限り、対象外の変更は送らずに件数を同期ログに記録する
+ */
+async function runTargetPush(
+	env: Bindings,
+	target: SyncTarget,
+	syncType: string,
+): Promise<SyncRunResult<{ postsSynced: number; commentsSynced: number }>> {
+	const db = dbConnect(env);
+	const stateKey: SyncStateKey = {
+		target: syncTargetRepository.stateTargetKey(target.id),
+		scope: "push",
+	};
+	const logId = await syncRepository.syncRepository.createSyncLog(
+		db,
+		syncType,
+		target.url,
+	);
+	const startedAt = Date.now();
+	const metrics = newSyncMetrics();
+	const recordMetrics = () =>
+		syncRepository.syncRepository.addSyncLogMetrics(db, logId, {
+			...metrics,
+			dataDurationMs: Date.now() - startedAt - metrics.mediaDurationMs,
+		});
 
-				const body = await object.arrayBuffer();
-				const contentType =
-					object.httpMetadata?.contentType ||
-					media.media_type ||
-					"application/octet-stream";
+	try {
+		const remote = await fetchRemoteProtocol(env, target.url, metrics);
+		const protocolVersion = syncProtocolRepository.negotiate(remote);
 
-				const fileName =
-					media.file_name || media.file_path.split("/").pop() || media.id;
+		// 前回送れなかったメディアファイルのうち、再試行時刻に達したものを送り直す
+		const dueIds = await mediaSyncRetryRepository.fetchDueMediaIds(
+			db,
+			"push",
+			target.url,
+			MAX_MEDIA_RETRIES_PER_RUN,
+		);
+		await pushMediaFilesToTarget(
+			env,
+			target.url,
+			await syncRepository.syncRepository.fetchMediaByIds(db, dueIds),
+			metrics,
+		);
 
-				const formData = new FormData();
-				formData.set("filePath", media.file_path);
-				formData.set("contentType", contentType);
-				formData.set("file", new File([body], fileName, { type: contentType }));
+		const scope = resolvePushScope(env);
+		const startCursor = await syncRepository.syncRepository.getPullCursor(
+			db,
+			stateKey,
+		);
+		let cursor = startCursor;
+		const totals = {
+			postsSynced: 0,
+			commentsSynced: 0,
+			locationTracksSynced: 0,
+			mediaSynced: 0,
+		};
+		const receiveUrl = `${target.url}/api/sync/receive`;
+		let hasMore = true;
+		let pagesPushed = 0;
 
-				const response = await fetch(`${targetUrl}/api/sync/media/receive`, {
-					method: "POST",
-					body: formData,
-				});
+		while (hasMore && pagesPushed < MAX_PULL_PAGES_PER_RUN) {
+			const page = await syncRepository.syncRepository.fetchChangesForPull(
+				db,
+				scope,
+				cursor,
+				syncRepository.MAX_PULL_PAGE_SIZE,
+			);
+			if (page.nextCursor === cursor) {
+				break;
+			}
 
-				if (!response.ok) {
-					const message = await response.text();
-					throw new Error(`receive failed: ${response.status} ${message}`);
-				}
+			// メディア本体 → データの順に送る
+			await pushMediaFilesToTarget(
+				env,
+				target.url,
+				page.media.filter((media) => media.deleted_at === null),
+				metrics,
+			);
 
-				syncedIds.push(media.id);
-			} catch (error) {
-				const message = error instanceof Error ? error.message : String(error);
-				errors.push({
-					mediaId: media.id,
-					filePath: media.file_path,
-					error: message,
-				});
+			const { body: payload, headers: payloadHeaders } = await encodeSyncJson(
+				{
+					posts: page.posts,
+					comments: page.comments,
+					locationTracks: page.locationTracks,
+					media: page.media,
+					sourceUrl: `${syncType}:${env.SYNC_NODE_ID ?? "unknown"}`,
+					protocolVersion,
+				},
+				remote.contentEncoding,
+			);
+			metrics.payloadBytes += payload.byteLength;
+			const response = await fetchUpstream(metrics, receiveUrl, {
+				method: "POST",
+				headers: {
+					...payloadHeaders,
+					...(await signSyncRequest(env, "POST", receiveUrl, payload)),
+				},
+				body: payload,
+			});
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw new Error(`同期先APIエラー: ${response.status} ${errorText}`);
+			}
+			const result =
+				await response.json<
+					paths["/api/sync/receive"]["post"]["responses"]["200"]["content"]["application/json"]
+				>();
+			if (!result.success) {
+				throw new Error("同期先でデータの保存に失敗しました");
+			}
+
+			// 受信が確認できたページまでカーソルを進める（失敗したページは次回の実行で送り直す）
+			cursor = page.nextCursor;
+			hasMore = page.hasMore;
+			pagesPushed++;
+			await syncRepository.syncRepository.setPullCursor(db, stateKey, cursor);
+
+			totals.postsSynced += page.posts.length;
+			totals.commentsSynced += page.comments.length;
+			totals.locationTracksSynced += page.locationTracks.length;
+			totals.mediaSynced += page.media.length;
+		}
+
+		if (scope !== null && cursor > startCursor) {
+			const outOfScopeRecords =
+				await syncRepository.syncRepository.countChangesOutOfScope(
+					db,
+					scope,
+					startCursor,
+					cursor,
+				);
+			if (outOfScopeRecords > 0) {
+				console.warn(
+					`⚠️ 送信対象外の避難所の変更 ${outOfScopeRecords}件は同期先「${target.name}」へ送信しません`,
+				);
+				await syncRepository.syncRepository.recordSyncLogOutOfScope(
+					db,
+					logId,
+					outOfScopeRecords,
+				);
+			}
+		}
+
+		await recordMetrics();
+		await syncRepository.syncRepository.completeSyncLog(
+			db,
+			logId,
+			totals.postsSynced,
+			totals.commentsSynced,
+			totals.locationTracksSynced,
+			totals.mediaSynced,
+		);
+		return {
+			ok: true,
+			result: {
+				postsSynced: totals.postsSynced,
+				commentsSynced: totals.commentsSynced,
+			},
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`❌ 同期先「${target.name}」への転送に失敗:`, message);
+		await recordMetrics();
+		await syncRepository.syncRepository.failSyncLog(db, logId, message);
+		return { ok: false, error: message };
+	}
+}
+
+/**
+ * 同期ロックを延長する関数を作る（長い同期の段階ごとに呼ぶ）
+ * 期限切れで他の同期にロックを取られていた場合は false を返し、呼び出し側は同期が重ならないよう中断する
+ */
+const lockKeeper =
+	(db: Database, holder: string) => async (): Promise<boolean> => {
+		if (await syncRepository.syncRepository.renewSyncLock(db, holder)) {
+			return true;
+		}
+		console.warn("⚠️ 同期ロックを失ったため同期を中断");
+		return false;
+	};
+
+/**
+ * sync_targets の同期先1件に対して、変更ログの転送と避難所ごとの差分Pullを行い、結果を同期先に記録する
+ * 各段階の前に keepLock で同期ロックを延長し、ロックを失っていれば中断する
+ */
+async function runTargetSync(
+	env: Bindings,
+	target: SyncTarget,
+	syncType: string,
+	keepLock: () => Promise<boolean>,
+): Promise<void> {
+	const db = dbConnect(env);
+	const errors: string[] = [];
+	const ensureLock = async () => {
+		if (!(await keepLock())) {
+			throw new Error("同期ロックを失ったため中断しました");
+		}
+	};
+
+	try {
+		if (target.pushEnabled) {
+			await ensureLock();
+			const push = await runTargetPush(env, target, syncType);
+			if (!push.ok) {
+				errors.push(`転送: ${push.error}`);
 			}
 		}
 
-		if (syncedIds.length > 0) {
-			await syncRepository.syncRepository.markMediaAsSynced(db, syncedIds);
+		for (const shelterId of target.pullShelterIds) {
+			await ensureLock();
+			const pull = await runPullSync(env, {
+				targetUrl: target.url,
+				shelterId,
+				syncType,
+				stateKey: {
+					target: syncTargetRepository.stateTargetKey(target.id),
+					scope: `shelter:${shelterId}`,
+				},
+				lowBandwidth: target.lowBandwidth,
+			});
+			if (!pull.ok) {
+				errors.push(`避難所ID ${shelterId} の取得: ${pull.error}`);
+			}
 		}
+	} catch (error) {
+		errors.push(error instanceof Error ? error.message : String(error));
+	}
 
-		const response: paths["/api/sync/media"]["post"]["responses"]["200"]["content"]["application/json"] =
-			{
-				success: errors.length === 0,
-				total: mediaItems.length,
-				mediaSynced: syncedIds.length,
-				failed: errors.length,
-				errors,
-			};
+	await syncTargetRepository.recordSyncTargetRun(
+		db,
+		target.id,
+		errors.length > 0 ? errors.join(" / ") : null,
+	);
+}
+
+type SyncTargetItem = components["schemas"]["SyncTargetItem"];
+
+const toSyncTargetItem = (target: SyncTarget, now: Date): SyncTargetItem => ({
+	...target,
+	health: syncTargetRepository.syncTargetHealth(target, now),
+});
+
+// 同期先の一覧と状態を取得
+app.get("/api/sync/targets", async (c) => {
+	const db = dbConnect(c.env);
 
+	try {
+		const now = new Date();
+		const targets = await syncTargetRepository.listSyncTargets(db);
+		const response: paths["/api/sync/targets"]["get"]["responses"]["200"]["content"]["application/json"] =
+			{ targets: targets.map((target) => toSyncTargetItem(target, now)) };
 		return c.json(response);
 	} catch (error) {
-		console.error("Media sync failed", error);
+		console.error("Failed to fetch sync targets", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -1350,43 +6295,43 @@ app.post("/api/sync/media", async (c) => {
 	}
 });
 
-// 同期データを受信（本番側で使用）
-app.post("/api/sync/media/receive", async (c) => {
-	const bucket = c.env.ASSET_BUCKET;
+app.post("/api/sync/targets", requireRole("hq_admin"), async (c) => {
+	const db = dbConnect(c.env);
 
 	try {
-		const formData = await c.req.formData();
-		const filePath = formData.get("filePath");
-		const contentTypeField = formData.get("contentType");
-		const file = formData.get("file");
+		const reqBody =
+			await c.req.json<components["schemas"]["SyncTargetRequest"]>();
+		const input = parseSyncTargetInput(reqBody, false);
 
-		if (!filePath || typeof filePath !== "string" || !(file instanceof File)) {
+		if (!input?.name || !input.url) {
 			const errorResponse: components["schemas"]["ErrorResponse"] = {
-				error: "filePath and file are required",
+				error: "invalid request body",
 			};
 			return c.json(errorResponse, 400);
 		}
 
-		const contentType =
-			typeof contentTypeField === "string" && contentTypeField.length > 0
-				? contentTypeField
-				: file.type || "application/octet-stream";
-
-		const body = await file.arrayBuffer();
-		await videoRepository.uploadVideo({
-			bucket,
-			key: filePath,
-			body,
-			contentType,
+		const target = await syncTargetRepository.createSyncTarget(db, {
+			name: input.name,
+			url: input.url,
+			pushEnabled: input.pushEnabled ?? true,
+			pullShelterIds: input.pullShelterIds ?? [],
+			intervalMinutes:
+				input.intervalMinutes ?? SYNC_TARGET_MIN_INTERVAL_MINUTES,
+			enabled: input.enabled ?? true,
+			lowBandwidth: input.lowBandwidth ?? false,
 		});
 
-		const response: paths["/api/sync/media/receive"]["post"]["responses"]["200"]["content"]["application/json"] =
-			{
-				success: true,
-			};
-		return c.json(response);
+		const response: paths["/api/sync/targets"]["post"]["responses"]["201"]["content"]["application/json"] =
+			toSyncTargetItem(target, new Date());
+		return c.json(response, 201);
 	} catch (error) {
-		console.error("Media receive failed", error);
+		if (error instanceof syncTargetRepository.DuplicateSyncTargetError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "同じURLの同期先が既に登録されています",
+			};
+			return c.json(errorResponse, 409);
+		}
+		console.error("Failed to create sync target", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
 		const errorResponse: components["schemas"]["ErrorResponse"] = {
 			error: message,
@@ -1395,251 +6340,269 @@ app.post("/api/sync/media/receive", async (c) => {
 	}
 });
 
-// 同期データを受信（本番側で使用）
-app.post("/api/sync/receive", async (c) => {
+app.patch("/api/sync/targets/:id", requireRole("hq_admin"), async (c) => {
+	const targetId = Number.parseInt(c.req.param("id"), 10);
+
+	if (Number.isNaN(targetId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "id must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
+
 	const db = dbConnect(c.env);
 
 	try {
-		const syncData = await c.req.json<SyncReceiveData>();
-
-		console.log(
-			`📥 同期データ受信: posts=${syncData.posts?.length || 0}, comments=${syncData.comments?.length || 0}, tracks=${syncData.locationTracks?.length || 0}, media=${syncData.media?.length || 0}`,
-		);
+		const reqBody =
+			await c.req.json<components["schemas"]["SyncTargetRequest"]>();
+		const input = parseSyncTargetInput(reqBody, true);
 
-		// データが空の場合は早期リターン
-		if (
-			(!syncData.posts || syncData.posts.length === 0) &&
-			(!syncData.comments || syncData.comments.length === 0) &&
-			(!syncData.locationTracks || syncData.locationTracks.length === 0) &&
-			(!syncData.media || syncData.media.length === 0)
-		) {
-			console.log("📥 同期データが空のためスキップ");
-			return c.json({
-				success: true,
-				postsSynced: 0,
-				commentsSynced: 0,
-				locationTracksSynced: 0,
-				mediaSynced: 0,
-				shelterResults: [],
-			});
+		if (!input) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "invalid request body",
+			};
+			return c.json(errorResponse, 400);
 		}
 
-		// 受信データを避難所ごとにグループ化
-		const groupedData = await syncRepository.syncRepository.groupDataByShelter(
+		const target = await syncTargetRepository.updateSyncTarget(
 			db,
-			syncData,
-		);
-		console.log(`📊 避難所数: ${groupedData.size}`);
-
-		const shelterResults: {
-			shelterId: number;
-			success: boolean;
-			postsSynced: number;
-			commentsSynced: number;
-			locationTracksSynced: number;
-			mediaSynced: number;
-			errorMessage?: string;
-		}[] = [];
-
-		let totalPostsSynced = 0;
-		let totalCommentsSynced = 0;
-		let totalTracksSynced = 0;
-		let totalMediaSynced = 0;
-		let overallSuccess = true;
-
-		// 各避難所ごとに同期処理を実行
-		for (const [shelterId, shelterData] of groupedData.entries()) {
-			console.log(
-				`🏠 避難所ID ${shelterId} の同期開始: posts=${shelterData.posts.length}, comments=${shelterData.comments.length}, tracks=${shelterData.locationTracks.length}, media=${shelterData.media.length}`,
-			);
+			targetId,
+			input,
+		);
 
-			let logId: number | null = null;
+		const response: paths["/api/sync/targets/{id}"]["patch"]["responses"]["200"]["content"]["application/json"] =
+			toSyncTargetItem(target, new Date());
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof syncTargetRepository.SyncTargetNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した同期先は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		if (error instanceof syncTargetRepository.DuplicateSyncTargetError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "同じURLの同期先が既に登録されています",
+			};
+			return c.json(errorResponse, 409);
+		}
+		console.error("Failed to update sync target", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-			try {
-				// 同期ログを作成
-				logId = await syncRepository.syncRepository.createSyncLog(
-					db,
-					"received",
-					syncData.sourceUrl || "unknown",
-					shelterId,
-				);
-				console.log(`📝 避難所ID ${shelterId} のログID: ${logId}`);
+app.delete("/api/sync/targets/:id", requireRole("hq_admin"), async (c) => {
+	const targetId = Number.parseInt(c.req.param("id"), 10);
 
-				// データを挿入
-				const result =
-					await syncRepository.syncRepository.receiveAndInsertSyncData(
-						db,
-						shelterData,
-					);
+	if (Number.isNaN(targetId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "id must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
 
-				if (!result.success) {
-					// 挿入エラー
-					console.error(
-						`❌ 避難所ID ${shelterId} のデータ挿入エラー: ${result.errorMessage}`,
-					);
-					await syncRepository.syncRepository.failSyncLog(
-						db,
-						logId,
-						result.errorMessage || "データ挿入エラー",
-					);
+	const db = dbConnect(c.env);
 
-					shelterResults.push({
-						shelterId,
-						success: false,
-						postsSynced: result.postsSynced,
-						commentsSynced: result.commentsSynced,
-						locationTracksSynced: result.locationTracksSynced,
-						mediaSynced: result.mediaSynced,
-						errorMessage: result.errorMessage,
-					});
+	try {
+		await syncTargetRepository.deleteSyncTarget(db, targetId);
+		const response: components["schemas"]["OkResponse"] = {
+			message: "同期先を削除しました",
+		};
+		return c.json(response);
+	} catch (error) {
+		if (error instanceof syncTargetRepository.SyncTargetNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した同期先は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("Failed to delete sync target", error);
+		const message = error instanceof Error ? error.message : "Unknown error";
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	}
+});
 
-					overallSuccess = false;
-				} else {
-					// 挿入成功
-					console.log(
-						`✅ 避難所ID ${shelterId} のデータ挿入完了: posts=${result.postsSynced}, comments=${result.commentsSynced}, tracks=${result.locationTracksSynced}, media=${result.mediaSynced}`,
-					);
-					await syncRepository.syncRepository.completeSyncLog(
-						db,
-						logId,
-						result.postsSynced,
-						result.commentsSynced,
-						result.locationTracksSynced,
-						result.mediaSynced,
-					);
+// 同期先との同期を今すぐ実行（次の定期実行を待たない）
+app.post("/api/sync/targets/:id/run", async (c) => {
+	const targetId = Number.parseInt(c.req.param("id"), 10);
 
-					shelterResults.push({
-						shelterId,
-						success: true,
-						postsSynced: result.postsSynced,
-						commentsSynced: result.commentsSynced,
-						locationTracksSynced: result.locationTracksSynced,
-						mediaSynced: result.mediaSynced,
-					});
+	if (Number.isNaN(targetId)) {
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: "id must be a number",
+		};
+		return c.json(errorResponse, 400);
+	}
 
-					totalPostsSynced += result.postsSynced;
-					totalCommentsSynced += result.commentsSynced;
-					totalTracksSynced += result.locationTracksSynced;
-					totalMediaSynced += result.mediaSynced;
-				}
-			} catch (error) {
-				// 予期しないエラー
-				console.error(`❌ 避難所ID ${shelterId} の同期中にエラー:`, error);
-				const message =
-					error instanceof Error ? error.message : "Unknown error";
-
-				if (logId !== null) {
-					try {
-						await syncRepository.syncRepository.failSyncLog(db, logId, message);
-					} catch (logError) {
-						console.error(
-							`❌ 避難所ID ${shelterId} のログ更新エラー:`,
-							logError,
-						);
-					}
-				}
+	const db = dbConnect(c.env);
+	let lockHolder: string | null = null;
 
-				shelterResults.push({
-					shelterId,
-					success: false,
-					postsSynced: 0,
-					commentsSynced: 0,
-					locationTracksSynced: 0,
-					mediaSynced: 0,
-					errorMessage: message,
-				});
+	try {
+		const target = await syncTargetRepository.getSyncTarget(db, targetId);
 
-				overallSuccess = false;
-			}
+		// 定期同期や他の手動同期と重ならないようにする
+		lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+			db,
+			"manual",
+		);
+		if (!lockHolder) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: SYNC_LOCKED_MESSAGE,
+			};
+			return c.json(errorResponse, 409);
 		}
 
-		console.log(
-			`✅ 全避難所の同期完了: 合計 posts=${totalPostsSynced}, comments=${totalCommentsSynced}, tracks=${totalTracksSynced}, media=${totalMediaSynced}`,
-		);
+		await runTargetSync(c.env, target, "manual", lockKeeper(db, lockHolder));
 
-		return c.json({
-			success: overallSuccess,
-			postsSynced: totalPostsSynced,
-			commentsSynced: totalCommentsSynced,
-			locationTracksSynced: totalTracksSynced,
-			mediaSynced: totalMediaSynced,
-			shelterResults,
-		});
+		const response: paths["/api/sync/targets/{id}/run"]["post"]["responses"]["200"]["content"]["application/json"] =
+			toSyncTargetItem(
+				await syncTargetRepository.getSyncTarget(db, targetId),
+				new Date(),
+			);
+		return c.json(response);
 	} catch (error) {
-		console.error("Sync receive failed", error);
+		if (error instanceof syncTargetRepository.SyncTargetNotFoundError) {
+			const errorResponse: components["schemas"]["ErrorResponse"] = {
+				error: "指定した同期先は見つかりませんでした",
+			};
+			return c.json(errorResponse, 404);
+		}
+		console.error("Failed to run sync target", error);
 		const message = error instanceof Error ? error.message : "Unknown error";
-		return c.json({ error: message }, 500);
+		const errorResponse: components["schemas"]["ErrorResponse"] = {
+			error: message,
+		};
+		return c.json(errorResponse, 500);
+	} finally {
+		if (lockHolder) {
+			await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+		}
 	}
 });
 
-// 同期ログ一覧を取得
-app.get("/api/sync/logs", async (c) => {
-	const db = dbConnect(c.env);
+/**
+ * 定期同期（Cron Trigger から実行）
+ * 上流の同期先（SYNC_UPSTREAM_URL）へ同期ジョブ（メディア送信・Push）と差分Pull を順に行い、
+ * 続けて間隔に達した sync_targets の同期先と同期する（保持期間を過ぎた成功ログの削除も行う）
+ * 手動同期の実行中はスキップし、次回の実行に任せる
+ */
+async function runScheduledSync(env: Bindings): Promise<void> {
+	const db = dbConnect(env);
 
+	// 保持期間を過ぎた成功ログを削除する（同期の実行有無に関わらず行う）
 	try {
-		const shelterIdParam = c.req.query("shelterId");
-		const pageParam = c.req.query("page");
-		const limitParam = c.req.query("limit");
+		const pruned = await syncRepository.syncRepository.pruneSyncLogs(db);
+		if (pruned > 0) {
+			console.log(`🧹 保持期間を過ぎた同期ログを${pruned}件削除`);
+		}
+	} catch (error) {
+		console.error("❌ 同期ログの削除に失敗:", error);
+	}
+	const upstreamUrl = env.SYNC_UPSTREAM_URL;
+	const dueTargets = await syncTargetRepository.fetchDueSyncTargets(
+		db,
+		new Date(),
+	);
+	if (!upstreamUrl && dueTargets.length === 0) {
+		console.log(
+			"ℹ️ SYNC_UPSTREAM_URL が未設定で、実行する同期先もないため定期同期をスキップ",
+		);
+		return;
+	}
 
-		const shelterId = shelterIdParam
-			? Number.parseInt(shelterIdParam, 10)
-			: undefined;
-		const page = pageParam ? Number.parseInt(pageParam, 10) : 1;
-		const limit = limitParam ? Number.parseInt(limitParam, 10) : 10;
+	const lockHolder = await syncRepository.syncRepository.acquireSyncLock(
+		db,
+		"scheduled",
+	);
+	if (!lockHolder) {
+		console.log("⏭️ 別の同期処理が実行中のため定期同期をスキップ");
+		return;
+	}
 
-		// バリデーション
-		if (shelterId !== undefined && Number.isNaN(shelterId)) {
-			return c.json({ error: "shelterId must be a valid number" }, 400);
-		}
-		if (Number.isNaN(page) || page < 1) {
-			return c.json({ error: "page must be a positive number" }, 400);
+	const keepLock = lockKeeper(db, lockHolder);
+
+	try {
+		if (upstreamUrl) {
+			await runUpstreamSync(env, upstreamUrl, keepLock);
 		}
-		if (Number.isNaN(limit) || limit < 1 || limit > 100) {
-			return c.json({ error: "limit must be between 1 and 100" }, 400);
+		// 同期先ごとに結果を記録するため、1件が失敗しても残りは続ける
+		for (const target of dueTargets) {
+			if (!(await keepLock())) {
+				break;
+			}
+			console.log(`🔄 同期先「${target.name}」と同期: ${target.url}`);
+			await runTargetSync(env, target, "scheduled", keepLock);
 		}
+	} catch (error) {
+		console.error("❌ 定期同期に失敗:", error);
+	} finally {
+		await syncRepository.syncRepository.releaseSyncLock(db, lockHolder);
+	}
+}
 
-		const result = await syncRepository.syncRepository.fetchSyncLogs(
+/**
+ * 上流の同期先（SYNC_UPSTREAM_URL）との定期同期
+ * 各段階の前に keepLock で同期ロックを延長し、ロックを失っていれば中断する
+ */
+async function runUpstreamSync(
+	env: Bindings,
+	targetUrl: string,
+	keepLock: () => Promise<boolean>,
+): Promise<void> {
+	const db = dbConnect(env);
+	const shelterId = resolveShelterId(undefined, env);
+
+	try {
+		if (!(await keepLock())) {
+			return;
+		}
+		// メディア本体 → データの順に送信する（手動の同期ジョブと同じ流れ）
+		const logId = await syncRepository.syncRepository.createSyncLog(
 			db,
+			"scheduled",
+			targetUrl,
 			shelterId,
-			page,
-			limit,
 		);
+		await runSyncJob(env, {
+			logId,
+			targetUrl,
+			shelterId,
+			// DEFAULT_SHELTER_ID は差分Pullの対象で、中継したデータも送るため送信対象は SYNC_SHELTER_IDS で決める
+			scope: resolvePushScope(env),
+			syncType: "scheduled",
+			sourceUrl: `scheduled:${env.SYNC_NODE_ID ?? "unknown"}`,
+		});
 
-		// レスポンスを OpenAPI スキーマに合わせて変換
-		const response: paths["/api/sync/logs"]["get"]["responses"]["200"]["content"]["application/json"] =
-			{
-				logs: result.logs.map((log) => ({
-					id: log.id,
-					shelterId: log.shelter_id,
-					shelterName: log.shelter_name,
-					syncType: log.sync_type,
-					status: log.status,
-					startedAt: log.started_at,
-					completedAt: log.completed_at,
-					postsSynced: log.posts_synced,
-					commentsSynced: log.comments_synced,
-					locationTracksSynced: log.location_tracks_synced,
-					mediaSynced: log.media_synced,
-					totalSynced:
-						log.posts_synced +
-						log.comments_synced +
-						log.location_tracks_synced +
-						log.media_synced,
-					errorMessage: log.error_message,
-					targetUrl: log.target_url,
-				})),
-				totalCount: result.totalCount,
-				page: result.page,
-				limit: result.limit,
-				totalPages: result.totalPages,
-			};
-
-		return c.json(response);
+		if (!(await keepLock())) {
+			return;
+		}
+		if (shelterId) {
+			const pull = await runPullSync(env, {
+				targetUrl,
+				shelterId,
+				syncType: "scheduled",
+			});
+			if (!pull.ok) {
+				console.error("❌ 定期同期の差分Pullに失敗:", pull.error);
+			}
+		} else {
+			console.log("ℹ️ DEFAULT_SHELTER_ID が未設定のため差分Pullをスキップ");
+		}
 	} catch (error) {
-		console.error("Failed to fetch sync logs", error);
-		const message = error instanceof Error ? error.message : "Unknown error";
-		return c.json({ error: message }, 500);
+		console.error("❌ 上流との定期同期に失敗:", error);
 	}
-});
+}
 
-export default app;
+export default {
+	fetch: app.fetch,
+	scheduled: (controller, env, ctx) => {
+		console.log("⏰ 定期同期開始:", controller.cron);
+		ctx.waitUntil(runScheduledSync(env));
+	},
+} satisfies ExportedHandler<Bindings>;
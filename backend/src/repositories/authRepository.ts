@@ -0,0 +1,235 @@
+import type { Database } from "../db/database";
+
+export const STAFF_ROLES = ["evacuee", "shelter_staff", "hq_admin"] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export type AuthenticatedStaff = {
+	id: number;
+	loginId: string;
+	displayName: string;
+	role: StaffRole;
+	shelterId: number | null;
+};
+
+type StaffAccountRow = {
+	id: number;
+	login_id: string;
+	display_name: string;
+	role: string;
+	shelter_id: number | null;
+	password_hash: string;
+	password_salt: string;
+	disabled_at: string | null;
+};
+
+// Workers の PBKDF2 は 100,000 回が上限
+const PBKDF2_ITERATIONS = 100_000;
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+export class DuplicateLoginIdError extends Error {
+	constructor(loginId: string) {
+		super(`Login id already exists: ${loginId}`);
+		this.name = "DuplicateLoginIdError";
+	}
+}
+
+export const isStaffRole = (value: unknown): value is StaffRole =>
+	typeof value === "string" &&
+	(STAFF_ROLES as readonly string[]).includes(value);
+
+export const toHex = (buffer: ArrayBuffer): string =>
+	Array.from(new Uint8Array(buffer))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+
+const fromHex = (hex: string): Uint8Array<ArrayBuffer> => {
+	const bytes = new Uint8Array(hex.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+};
+
+export const randomHex = (byteLength: number): string => {
+	const bytes = new Uint8Array(byteLength);
+	crypto.getRandomValues(bytes);
+	return toHex(bytes.buffer);
+};
+
+/**
+ * 文字列を長さ以外の情報を漏らさずに比較する
+ */
+export const timingSafeEqualString = (a: string, b: string): boolean => {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+};
+
+export const sha256Hex = async (value: string): Promise<string> =>
+	toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+
+const hashPassword = async (
+	password: string,
+	saltHex: string,
+): Promise<string> => {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(password),
+		"PBKDF2",
+		false,
+		["deriveBits"],
+	);
+	const bits = await crypto.subtle.deriveBits(
+		{
+			name: "PBKDF2",
+			hash: "SHA-256",
+			salt: fromHex(saltHex),
+			iterations: PBKDF2_ITERATIONS,
+		},
+		key,
+		256,
+	);
+	return toHex(bits);
+};
+
+const toAuthenticatedStaff = (row: StaffAccountRow): AuthenticatedStaff => ({
+	id: row.id,
+	loginId: row.login_id,
+	displayName: row.display_name,
+	role: isStaffRole(row.role) ? row.role : "evacuee",
+	shelterId: row.shelter_id,
+});
+
+/**
+ * ログインIDとパスワードを検証し、一致すればスタッフ情報を返す
+ */
+export const verifyCredentials = async (
+	db: Database,
+	loginId: string,
+	password: string,
+): Promise<AuthenticatedStaff | null> => {
+	const row = await db
+		.prepare(
+			`SELECT id, login_id, display_name, role, shelter_id, password_hash, password_salt, disabled_at
+			 FROM staff_accounts
+			 WHERE login_id = ?`,
+		)
+		.bind(loginId)
+		.first<StaffAccountRow>();
+
+	if (!row || row.disabled_at) {
+		return null;
+	}
+
+	const candidate = await hashPassword(password, row.password_salt);
+	if (!timingSafeEqualString(candidate, row.password_hash)) {
+		return null;
+	}
+
+	return toAuthenticatedStaff(row);
+};
+
+/**
+ * アクセストークンを発行する（DBにはハッシュのみ保存）
+ */
+export const issueToken = async (
+	db: Database,
+	staffId: number,
+): Promise<{ token: string; expiresAt: string }> => {
+	const token = randomHex(32);
+	const expiresAt = new Date(Date.now() + TOKEN_TTL_MS).toISOString();
+
+	await db
+		.prepare(
+			"INSERT INTO auth_tokens (token_hash, staff_id, expires_at) VALUES (?, ?, ?)",
+		)
+		.bind(await sha256Hex(token), staffId, expiresAt)
+		.run();
+
+	return { token, expiresAt };
+};
+
+/**
+ * アクセストークンからスタッフ情報を取得する（失効・期限切れはnull）
+ */
+export const findStaffByToken = async (
+	db: Database,
+	token: string,
+): Promise<AuthenticatedStaff | null> => {
+	const row = await db
+		.prepare(
+			`SELECT s.id, s.login_id, s.display_name, s.role, s.shelter_id, s.password_hash, s.password_salt, s.disabled_at
+			 FROM auth_tokens t
+			 INNER JOIN staff_accounts s ON t.staff_id = s.id
+			 WHERE t.token_hash = ? AND t.revoked_at IS NULL AND t.expires_at > ?`,
+		)
+		.bind(await sha256Hex(token), new Date().toISOString())
+		.first<StaffAccountRow>();
+
+	if (!row || row.disabled_at) {
+		return null;
+	}
+
+	return toAuthenticatedStaff(row);
+};
+
+export const revokeToken = async (
+	db: Database,
+	token: string,
+): Promise<void> => {
+	await db
+		.prepare(
+			"UPDATE auth_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE token_hash = ?",
+		)
+		.bind(await sha256Hex(token))
+		.run();
+};
+
+export const createStaffAccount = async (
+	db: Database,
+	{
+		loginId,
+		displayName,
+		password,
+		role,
+		shelterId,
+	}: {
+		loginId: string;
+		displayName: string;
+		password: string;
+		role: StaffRole;
+		shelterId: number | null;
+	},
+): Promise<AuthenticatedStaff> => {
+	const existing = await db
+		.prepare("SELECT id FROM staff_accounts WHERE login_id = ?")
+		.bind(loginId)
+		.first<{ id: number }>();
+	if (existing) {
+		throw new DuplicateLoginIdError(loginId);
+	}
+
+	const salt = randomHex(16);
+	const passwordHash = await hashPassword(password, salt);
+
+	const row = await db
+		.prepare(
+			`INSERT INTO staff_accounts (login_id, display_name, role, shelter_id, password_hash, password_salt)
+			 VALUES (?, ?, ?, ?, ?, ?)
+			 RETURNING id, login_id, display_name, role, shelter_id, password_hash, password_salt, disabled_at`,
+		)
+		.bind(loginId, displayName, role, shelterId, passwordHash, salt)
+		.first<StaffAccountRow>();
+
+	if (!row) {
+		throw new Error("Insert failed");
+	}
+
+	return toAuthenticatedStaff(row);
+};
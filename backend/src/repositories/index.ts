@@ -1,5 +1,16 @@
+export * as authRepository from "./authRepository";
+export * as inventoryRepository from "./inventoryRepository";
+export * as mediaSyncRetryRepository from "./mediaSyncRetryRepository";
 export * as reverseGeocoderRepository from "./reverseGeocoderRepository";
+export * as searchRepository from "./searchRepository";
 export * as shelterRepository from "./shelterRepository";
 export * as signedVideoRepository from "./signedVideoRepository";
+export * as syncBundleRepository from "./syncBundleRepository";
+export * as syncCompressionRepository from "./syncCompressionRepository";
+export * as syncConflictRepository from "./syncConflictRepository";
+export * as syncLogFailureRepository from "./syncLogFailureRepository";
+export * as syncNodeRepository from "./syncNodeRepository";
+export * as syncProtocolRepository from "./syncProtocolRepository";
 export * as syncRepository from "./syncRepository";
+export * as syncTargetRepository from "./syncTargetRepository";
 export * as videoRepository from "./videoRepository";
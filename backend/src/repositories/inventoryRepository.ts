@@ -0,0 +1,322 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Database } from "../db/database";
+import { ShelterNotFoundError } from "./shelterRepository";
+
+export type InventoryTransactionType = "in" | "out";
+
+export type InventoryItem = {
+	id: string;
+	shelterId: number;
+	name: string;
+	unit: string;
+	quantity: number;
+	minQuantity: number;
+	isShortage: boolean;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type InventoryTransaction = {
+	id: string;
+	itemId: string;
+	shelterId: number;
+	transactionType: InventoryTransactionType;
+	quantity: number;
+	note: string | null;
+	recordedBy: string | null;
+	createdAt: string;
+};
+
+export type InventoryItemInput = {
+	name: string;
+	unit: string;
+	minQuantity: number;
+};
+
+type InventoryItemRow = Omit<InventoryItem, "isShortage">;
+
+export class InventoryItemNotFoundError extends Error {
+	constructor(itemId: string) {
+		super(`Inventory item not found: ${itemId}`);
+		this.name = "InventoryItemNotFoundError";
+	}
+}
+
+export class DuplicateInventoryItemError extends Error {
+	constructor(name: string) {
+		super(`Inventory item already exists: ${name}`);
+		this.name = "DuplicateInventoryItemError";
+	}
+}
+
+export class InsufficientStockError extends Error {
+	constructor(itemId: string, available: number) {
+		super(`Insufficient stock for ${itemId}: ${available} available`);
+		this.name = "InsufficientStockError";
+	}
+}
+
+export const isInventoryTransactionType = (
+	value: unknown,
+): value is InventoryTransactionType => value === "in" || value === "out";
+
+const inventoryItemColumns = `
+	id,
+	shelter_id AS shelterId,
+	name,
+	unit,
+	quantity,
+	min_quantity AS minQuantity,
+	created_at AS createdAt,
+	updated_at AS updatedAt`;
+
+// 現在庫が最低在庫数を下回っていれば不足とする
+const toInventoryItem = (row: InventoryItemRow): InventoryItem => ({
+	...row,
+	isShortage: row.quantity < row.minQuantity,
+});
+
+const fetchInventoryItem = async (
+	db: Database,
+	shelterId: number,
+	itemId: string,
+): Promise<InventoryItem> => {
+	const row = await db
+		.prepare(
+			`SELECT ${inventoryItemColumns}
+			FROM inventory_items
+			WHERE id = ? AND shelter_id = ? AND deleted_at IS NULL`,
+		)
+		.bind(itemId, shelterId)
+		.first<InventoryItemRow>();
+
+	if (!row) {
+		throw new InventoryItemNotFoundError(itemId);
+	}
+
+	return toInventoryItem(row);
+};
+
+/**
+ * 入出庫履歴の合計から現在庫を再計算する文（同期では受信データと同じバッチで実行する）
+ */
+export const prepareRecalculateItemQuantity = (
+	db: Database,
+	itemId: string,
+): D1PreparedStatement =>
+	db
+		.prepare(
+			`UPDATE inventory_items
+			SET quantity = COALESCE((
+				SELECT SUM(CASE WHEN transaction_type = 'in' THEN quantity ELSE -quantity END)
+				FROM inventory_transactions
+				WHERE item_id = ?
+			), 0)
+			WHERE id = ?`,
+		)
+		.bind(itemId, itemId);
+
+/**
+ * 入出庫履歴の合計から現在庫を再計算する
+ */
+export const recalculateItemQuantity = async (
+	db: Database,
+	itemId: string,
+): Promise<void> => {
+	await prepareRecalculateItemQuantity(db, itemId).run();
+};
+
+export const fetchInventoryByShelter = async (
+	db: Database,
+	shelterId: number,
+): Promise<InventoryItem[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT ${inventoryItemColumns}
+			FROM inventory_items
+			WHERE shelter_id = ? AND deleted_at IS NULL
+			ORDER BY name ASC`,
+		)
+		.bind(shelterId)
+		.all<InventoryItemRow>();
+
+	return (results ?? []).map(toInventoryItem);
+};
+
+/**
+ * 品目を登録する（初期在庫があれば入庫として記録する）
+ */
+export const createInventoryItem = async (
+	db: Database,
+	{
+		id,
+		shelterId,
+		input,
+		initialQuantity,
+		recordedBy,
+	}: {
+		id: string;
+		shelterId: number;
+		input: InventoryItemInput;
+		initialQuantity: number;
+		recordedBy: string | null;
+	},
+): Promise<InventoryItem> => {
+	const shelter = await db
+		.prepare("SELECT id FROM shelters WHERE id = ?")
+		.bind(shelterId)
+		.first<{ id: number }>();
+	if (!shelter) {
+		throw new ShelterNotFoundError(shelterId);
+	}
+
+	const existing = await db
+		.prepare(
+			"SELECT id FROM inventory_items WHERE shelter_id = ? AND name = ? AND deleted_at IS NULL",
+		)
+		.bind(shelterId, input.name)
+		.first<{ id: string }>();
+	if (existing) {
+		throw new DuplicateInventoryItemError(input.name);
+	}
+
+	const now = new Date().toISOString();
+	await db
+		.prepare(
+			`INSERT INTO inventory_items (id, shelter_id, name, unit, quantity, min_quantity, created_at, updated_at)
+			VALUES (?, ?, ?, ?, 0, ?, ?, ?)`,
+		)
+		.bind(id, shelterId, input.name, input.unit, input.minQuantity, now, now)
+		.run();
+
+	if (initialQuantity > 0) {
+		return recordStockTransaction(db, {
+			id: uuidv4(),
+			shelterId,
+			itemId: id,
+			transactionType: "in",
+			quantity: initialQuantity,
+			note: "初期在庫",
+			recordedBy,
+		});
+	}
+
+	return fetchInventoryItem(db, shelterId, id);
+};
+
+/**
+ * 品目名・単位・最低在庫数を部分更新する
+ */
+export const updateInventoryItem = async (
+	db: Database,
+	shelterId: number,
+	itemId: string,
+	input: Partial<InventoryItemInput>,
+): Promise<InventoryItem> => {
+	const current = await fetchInventoryItem(db, shelterId, itemId);
+
+	await db
+		.prepare(
+			`UPDATE inventory_items
+			SET name = ?, unit = ?, min_quantity = ?, updated_at = ?, is_synced = 0
+			WHERE id = ?`,
+		)
+		.bind(
+			input.name ?? current.name,
+			input.unit ?? current.unit,
+			input.minQuantity ?? current.minQuantity,
+			new Date().toISOString(),
+			itemId,
+		)
+		.run();
+
+	return fetchInventoryItem(db, shelterId, itemId);
+};
+
+/**
+ * 入庫・出庫を記録し、現在庫を更新する（出庫は現在庫を超えられない）
+ */
+export const recordStockTransaction = async (
+	db: Database,
+	{
+		id,
+		shelterId,
+		itemId,
+		transactionType,
+		quantity,
+		note,
+		recordedBy,
+	}: {
+		id: string;
+		shelterId: number;
+		itemId: string;
+		transactionType: InventoryTransactionType;
+		quantity: number;
+		note: string | null;
+		recordedBy: string | null;
+	},
+): Promise<InventoryItem> => {
+	const item = await fetchInventoryItem(db, shelterId, itemId);
+	if (transactionType === "out" && item.quantity < quantity) {
+		throw new InsufficientStockError(itemId, item.quantity);
+	}
+
+	const now = new Date().toISOString();
+	await db
+		.prepare(
+			`INSERT INTO inventory_transactions (id, item_id, shelter_id, transaction_type, quantity, note, recorded_by, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		)
+		.bind(
+			id,
+			itemId,
+			shelterId,
+			transactionType,
+			quantity,
+			note,
+			recordedBy,
+			now,
+			now,
+		)
+		.run();
+
+	await recalculateItemQuantity(db, itemId);
+	await db
+		.prepare(
+			"UPDATE inventory_items SET updated_at = ?, is_synced = 0 WHERE id = ?",
+		)
+		.bind(now, itemId)
+		.run();
+
+	return fetchInventoryItem(db, shelterId, itemId);
+};
+
+export const fetchStockTransactions = async (
+	db: Database,
+	shelterId: number,
+	itemId: string,
+	limit = 50,
+): Promise<InventoryTransaction[]> => {
+	await fetchInventoryItem(db, shelterId, itemId);
+
+	const { results } = await db
+		.prepare(
+			`SELECT
+				id,
+				item_id AS itemId,
+				shelter_id AS shelterId,
+				transaction_type AS transactionType,
+				quantity,
+				note,
+				recorded_by AS recordedBy,
+				created_at AS createdAt
+			FROM inventory_transactions
+			WHERE item_id = ?
+			ORDER BY datetime(created_at) DESC
+			LIMIT ?`,
+		)
+		.bind(itemId, limit)
+		.all<InventoryTransaction>();
+
+	return results ?? [];
+};
@@ -0,0 +1,203 @@
+import type { Database } from "../db/database";
+
+// push: ローカルR2 → 同期先（/api/sync/media）, pull: 同期先 → ローカルR2（差分Pull）
+// pull_original: 低帯域の回線で縮小版だけを取得した画像の元ファイル（低帯域でない回線での差分Pullで取得する）
+export type MediaSyncDirection = "push" | "pull" | "pull_original";
+
+export type MediaSyncRetry = {
+	media_id: string;
+	direction: MediaSyncDirection;
+	target_url: string;
+	file_path: string;
+	attempts: number;
+	last_error: string | null;
+	next_attempt_at: string;
+	created_at: string;
+	updated_at: string;
+};
+
+// 再試行の間隔（1分から失敗のたびに倍にし、最大6時間）
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const retryDelayMs = (attempts: number): number =>
+	Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * メディア転送の失敗を記録し、次の再試行時刻を決める（失敗回数を返す）
+ */
+export const recordFailure = async (
+	db: Database,
+	{
+		mediaId,
+		direction,
+		targetUrl,
+		filePath,
+		error,
+	}: {
+		mediaId: string;
+		direction: MediaSyncDirection;
+		targetUrl: string;
+		filePath: string;
+		error: string;
+	},
+): Promise<number> => {
+	const existing = await db
+		.prepare(
+			`SELECT attempts FROM media_sync_retries
+			WHERE media_id = ? AND direction = ? AND target_url = ?`,
+		)
+		.bind(mediaId, direction, targetUrl)
+		.first<{ attempts: number }>();
+	const attempts = (existing?.attempts ?? 0) + 1;
+	const now = new Date();
+	const nextAttemptAt = new Date(
+		now.getTime() + retryDelayMs(attempts),
+	).toISOString();
+
+	await db
+		.prepare(
+			`INSERT INTO media_sync_retries (
+				media_id, direction, target_url, file_path, attempts, last_error,
+				next_attempt_at, created_at, updated_at
+			)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT(media_id, direction, target_url) DO UPDATE SET
+				file_path = excluded.file_path,
+				attempts = excluded.attempts,
+				last_error = excluded.last_error,
+				next_attempt_at = excluded.next_attempt_at,
+				updated_at = excluded.updated_at`,
+		)
+		.bind(
+			mediaId,
+			direction,
+			targetUrl,
+			filePath,
+			attempts,
+			error,
+			nextAttemptAt,
+			now.toISOString(),
+			now.toISOString(),
+		)
+		.run();
+
+	return attempts;
+};
+
+/**
+ * 後で取得するメディアをキューに入れる（既にキューにある場合はそのまま）
+ */
+export const enqueue = async (
+	db: Database,
+	{
+		mediaId,
+		direction,
+		targetUrl,
+		filePath,
+	}: {
+		mediaId: string;
+		direction: MediaSyncDirection;
+		targetUrl: string;
+		filePath: string;
+	},
+): Promise<void> => {
+	const now = new Date().toISOString();
+	await db
+		.prepare(
+			`INSERT INTO media_sync_retries (
+				media_id, direction, target_url, file_path, attempts, last_error,
+				next_attempt_at, created_at, updated_at
+			)
+			VALUES (?, ?, ?, ?, 0, NULL, ?, ?, ?)
+			ON CONFLICT(media_id, direction, target_url) DO NOTHING`,
+		)
+		.bind(mediaId, direction, targetUrl, filePath, now, now, now)
+		.run();
+};
+
+/**
+ * 転送に成功したメディアを再試行キューから外す
+ */
+export const clearRetries = async (
+	db: Database,
+	direction: MediaSyncDirection,
+	targetUrl: string,
+	mediaIds: string[],
+): Promise<void> => {
+	if (mediaIds.length === 0) return;
+	const placeholders = mediaIds.map(() => "?").join(", ");
+	await db
+		.prepare(
+			`DELETE FROM media_sync_retries
+			WHERE direction = ? AND target_url = ? AND media_id IN (${placeholders})`,
+		)
+		.bind(direction, targetUrl, ...mediaIds)
+		.run();
+};
+
+/**
+ * 再試行の待機中（次の再試行時刻に達していない）メディアIDを取得
+ */
+export const fetchWaitingMediaIds = async (
+	db: Database,
+	direction: MediaSyncDirection,
+	targetUrl: string,
+): Promise<Set<string>> => {
+	const { results } = await db
+		.prepare(
+			`SELECT media_id FROM media_sync_retries
+			WHERE direction = ? AND target_url = ? AND next_attempt_at > ?`,
+		)
+		.bind(direction, targetUrl, new Date().toISOString())
+		.all<{ media_id: string }>();
+	return new Set((results ?? []).map((row) => row.media_id));
+};
+
+/**
+ * 再試行時刻に達したメディアIDを取得
+ */
+export const fetchDueMediaIds = async (
+	db: Database,
+	direction: MediaSyncDirection,
+	targetUrl: string,
+	limit: number,
+): Promise<string[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT media_id FROM media_sync_retries
+			WHERE direction = ? AND target_url = ? AND next_attempt_at <= ?
+			ORDER BY next_attempt_at ASC
+			LIMIT ?`,
+		)
+		.bind(direction, targetUrl, new Date().toISOString(), limit)
+		.all<{ media_id: string }>();
+	return (results ?? []).map((row) => row.media_id);
+};
+
+/**
+ * 再試行キューの一覧を取得（次の再試行時刻の早い順）
+ */
+export const listRetries = async (db: Database): Promise<MediaSyncRetry[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT * FROM media_sync_retries ORDER BY next_attempt_at ASC LIMIT 200`,
+		)
+		.all<MediaSyncRetry>();
+	return results ?? [];
+};
+
+/**
+ * 待機中の再試行を次回の同期ですぐに実行されるようにする
+ */
+export const scheduleAllNow = async (db: Database): Promise<number> => {
+	const now = new Date().toISOString();
+	const result = await db
+		.prepare(
+			`UPDATE media_sync_retries SET next_attempt_at = ?, updated_at = ?
+			WHERE next_attempt_at > ?`,
+		)
+		.bind(now, now, now)
+		.run();
+	return result.meta.changes ?? 0;
+};
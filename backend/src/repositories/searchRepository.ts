@@ -0,0 +1,185 @@
+import type { Database } from "../db/database";
+
+export type SearchRecordType = "post" | "comment";
+
+export type SearchHit = {
+	recordType: SearchRecordType;
+	recordId: string;
+	content: string | null;
+	authorName: string;
+	createdAt: string;
+	post: {
+		id: string;
+		shelterId: number;
+		shelterName: string;
+		address: string | null;
+		authorName: string;
+		content: string | null;
+		status: "緊急" | "重要" | "通常" | null;
+		postedAt: string;
+		isFreeChat: boolean;
+	};
+};
+
+export type SearchScope = {
+	shelterId?: number;
+	from?: string;
+	to?: string;
+	recordType?: SearchRecordType;
+};
+
+type SearchRow = {
+	record_type: SearchRecordType;
+	record_id: string;
+	content: string | null;
+	author_name: string;
+	created_at: string;
+	post_id: string;
+	shelter_id: number;
+	shelter_name: string;
+	address: string | null;
+	post_author_name: string;
+	post_content: string | null;
+	post_status: string | null;
+	posted_at: string;
+	is_free_chat: number;
+};
+
+// 索引は3文字単位のため、これより短い語は索引を使わずに本文を順に調べる
+const MIN_INDEXED_TERM_LENGTH = 3;
+
+// 1回の検索で使う語の上限
+const MAX_TERMS = 5;
+
+export class EmptySearchQueryError extends Error {
+	constructor() {
+		super("q must contain at least one search term");
+		this.name = "EmptySearchQueryError";
+	}
+}
+
+/**
+ * 検索語を空白で区切る（全角空白も区切りとして扱い、重複は除く）
+ */
+const splitTerms = (query: string): string[] => [
+	...new Set(
+		query
+			.split(/[\s　]+/)
+			.map((term) => term.trim())
+			.filter((term) => term.length > 0),
+	),
+];
+
+const normalizePostStatus = (
+	status: string | null,
+): "緊急" | "重要" | "通常" | null =>
+	status === "緊急" || status === "重要" || status === "通常" ? status : null;
+
+const toSearchHit = (row: SearchRow): SearchHit => ({
+	recordType: row.record_type,
+	recordId: row.record_id,
+	content: row.content,
+	authorName: row.author_name,
+	createdAt: row.created_at,
+	post: {
+		id: row.post_id,
+		shelterId: row.shelter_id,
+		shelterName: row.shelter_name,
+		address: row.address,
+		authorName: row.post_author_name,
+		content: row.post_content,
+		status: normalizePostStatus(row.post_status),
+		postedAt: row.posted_at,
+		isFreeChat: row.is_free_chat === 1,
+	},
+});
+
+/**
+ * 投稿・コメントの本文と投稿者名を全文検索する（すべての語を含むものを返す）
+ * 3文字以上の語は索引で一致の度合い順に、短い語だけの場合は新しい順に並べる
+ */
+export const search = async (
+	db: Database,
+	query: string,
+	scope: SearchScope,
+	limit: number,
+): Promise<{ terms: string[]; hits: SearchHit[]; hasMore: boolean }> => {
+	const terms = splitTerms(query).slice(0, MAX_TERMS);
+	if (terms.length === 0) {
+		throw new EmptySearchQueryError();
+	}
+
+	const indexedTerms = terms.filter(
+		(term) => [...term].length >= MIN_INDEXED_TERM_LENGTH,
+	);
+	const shortTerms = terms.filter(
+		(term) => [...term].length < MIN_INDEXED_TERM_LENGTH,
+	);
+
+	const conditions: string[] = [];
+	const params: Array<string | number> = [];
+
+	if (indexedTerms.length > 0) {
+		// 語を句として囲み、記号が FTS5 の構文として解釈されないようにする
+		conditions.push("search_index MATCH ?");
+		params.push(
+			indexedTerms
+				.map((term) => `"${term.replaceAll('"', '""')}"`)
+				.join(" AND "),
+		);
+	}
+	for (const term of shortTerms) {
+		conditions.push("(instr(i.content, ?) > 0 OR instr(i.author_name, ?) > 0)");
+		params.push(term, term);
+	}
+	if (scope.shelterId !== undefined) {
+		conditions.push("i.shelter_id = ?");
+		params.push(scope.shelterId);
+	}
+	if (scope.recordType) {
+		conditions.push("i.record_type = ?");
+		params.push(scope.recordType);
+	}
+	if (scope.from) {
+		conditions.push("datetime(i.created_at) >= datetime(?)");
+		params.push(scope.from);
+	}
+	if (scope.to) {
+		conditions.push("datetime(i.created_at) <= datetime(?)");
+		params.push(scope.to);
+	}
+
+	const { results } = await db
+		.prepare(
+			`SELECT
+				i.record_type,
+				i.record_id,
+				i.content,
+				i.author_name,
+				i.created_at,
+				p.id AS post_id,
+				p.shelter_id,
+				s.name AS shelter_name,
+				s.address,
+				p.author_name AS post_author_name,
+				p.content AS post_content,
+				p.status AS post_status,
+				p.posted_at,
+				p.is_free_chat
+			FROM search_index AS i
+			INNER JOIN posts AS p ON p.id = i.post_id AND p.deleted_at IS NULL
+			INNER JOIN shelters AS s ON s.id = p.shelter_id
+			WHERE ${conditions.join(" AND ")}
+			ORDER BY ${indexedTerms.length > 0 ? "i.rank, " : ""}datetime(i.created_at) DESC
+			LIMIT ?`,
+		)
+		.bind(...params, limit + 1)
+		.all<SearchRow>();
+
+	const rows = results ?? [];
+	return {
+		terms,
+		hits: rows.slice(0, limit).map(toSearchHit),
+		hasMore: rows.length > limit,
+	};
+};
@@ -6,6 +6,7 @@ type PostMediaItem = components["schemas"]["PostMediaItem"];
 type InsertableMediaItem = PostMediaItem & {
 	id: string;
 	file_path: string;
+	sha256?: string | null;
 	created_at?: string;
 };
 
@@ -19,8 +20,12 @@ interface Shelter {
 	address: string | null;
 	latitude: number | null;
 	longitude: number | null;
+	capacity: number | null;
+	status: ShelterStatus;
 }
 
+export type ShelterStatus = "open" | "closed";
+
 export type ShelterPostSummary = {
 	id: string;
 	author_name: string;
@@ -29,6 +34,26 @@ export type ShelterPostSummary = {
 	address: string | null;
 	comment_count: number;
 	status: "緊急" | "重要" | "通常" | null;
+	is_free_chat: boolean;
+	comment_status: "未対応" | "対応中" | "対応済み" | null;
+};
+
+export type ShelterPostSort = "newest" | "oldest" | "priority" | "comments";
+
+export type ShelterPostFilters = {
+	priorities?: Array<"緊急" | "重要" | "通常">;
+	commentStatuses?: Array<"未対応" | "対応中" | "対応済み">;
+	isFreeChat?: boolean;
+	from?: string;
+	to?: string;
+	author?: string;
+};
+
+export type ShelterPostPage = {
+	posts: ShelterPostSummary[];
+	totalCount: number;
+	nextCursor: string | null;
+	hasMore: boolean;
 };
 
 export type ShelterDetails = {
@@ -37,12 +62,45 @@ export type ShelterDetails = {
 	address: string;
 	latitude: number;
 	longitude: number;
+	capacity: number | null;
+	opening_hours: string | null;
+	status: ShelterStatus;
+	closed_at: string | null;
 	created_at: string;
+	updated_at: string;
+};
+
+export type ShelterInput = {
+	name: string;
+	address: string | null;
+	latitude: number;
+	longitude: number;
+	capacity: number | null;
+	openingHours: string | null;
+};
+
+export type OccupancyRecord = {
+	id: string;
+	shelterId: number;
+	headcount: number;
+	recordedAt: string;
+	recordedBy: string | null;
+};
+
+export type ShelterStats = {
+	shelterId: number;
+	capacity: number | null;
+	headcount: number | null;
+	occupancyPercent: number | null;
+	lastUpdatedAt: string | null;
+	activeReports: number;
+	urgentReports: number;
 };
 
 export type ShelterPosts = {
 	postId: string;
 	authorName: string;
+	authorStaffId: number | null;
 	shelterId: number;
 	content: string | null;
 	postedAt: string;
@@ -90,27 +148,165 @@ const normalizeCommentStatus = (
 	return null;
 };
 
-const recentPostsByShelterQuery = `SELECT
-	p.id,
-	p.author_name,
-	p.content,
-	p.posted_at,
-	p.status,
-	s.address AS address,
-	COUNT(c.id) AS comment_count
-FROM posts AS p
-INNER JOIN shelters AS s ON p.shelter_id = s.id
-LEFT JOIN comments AS c ON c.post_id = p.id
-WHERE p.shelter_id = ?
-GROUP BY
-	p.id,
-	p.author_name,
-	p.content,
-	p.posted_at,
-	p.status,
-	s.address
-ORDER BY p.posted_at DESC
-LIMIT 5`;
+// 避難所の投稿一覧（最新コメントのステータスが無い投稿は未対応として扱う）
+const shelterPostFeedQuery = `WITH feed AS (
+	SELECT
+		p.id,
+		p.author_name,
+		p.content,
+		p.posted_at,
+		p.status,
+		p.is_free_chat,
+		s.address AS address,
+		(SELECT COUNT(*) FROM comments AS c
+		 WHERE c.post_id = p.id AND c.deleted_at IS NULL) AS comment_count,
+		COALESCE(
+			(SELECT c.status FROM comments AS c
+			 WHERE c.post_id = p.id AND c.deleted_at IS NULL
+			 ORDER BY datetime(c.created_at) DESC LIMIT 1),
+			'未対応'
+		) AS comment_status,
+		CASE p.status WHEN '緊急' THEN 0 WHEN '重要' THEN 1 WHEN '通常' THEN 2 ELSE 3 END AS priority_rank
+	FROM posts AS p
+	INNER JOIN shelters AS s ON p.shelter_id = s.id
+	WHERE p.shelter_id = ? AND p.deleted_at IS NULL
+)`;
+
+type ShelterPostFeedRow = Omit<
+	ShelterPostSummary,
+	"status" | "is_free_chat" | "comment_status"
+> & {
+	status: string | null;
+	is_free_chat: number;
+	comment_status: string | null;
+	priority_rank: number;
+	comment_count: number;
+};
+
+type SortKey = {
+	column: "priority_rank" | "comment_count" | "posted_at" | "id";
+	direction: "ASC" | "DESC";
+};
+
+// 並び順ごとのキー（同じ値の投稿が続いてもページの境目が決まるよう、最後は投稿日時とIDで並べる）
+const shelterPostSortKeys: Record<ShelterPostSort, SortKey[]> = {
+	newest: [
+		{ column: "posted_at", direction: "DESC" },
+		{ column: "id", direction: "DESC" },
+	],
+	oldest: [
+		{ column: "posted_at", direction: "ASC" },
+		{ column: "id", direction: "ASC" },
+	],
+	priority: [
+		{ column: "priority_rank", direction: "ASC" },
+		{ column: "posted_at", direction: "DESC" },
+		{ column: "id", direction: "DESC" },
+	],
+	comments: [
+		{ column: "comment_count", direction: "DESC" },
+		{ column: "posted_at", direction: "DESC" },
+		{ column: "id", direction: "DESC" },
+	],
+};
+
+export class InvalidPostCursorError extends Error {
+	constructor() {
+		super("cursor is invalid for the requested sort");
+		this.name = "InvalidPostCursorError";
+	}
+}
+
+const encodePostCursor = (values: Array<string | number>): string =>
+	btoa(JSON.stringify(values));
+
+const decodePostCursor = (
+	cursor: string,
+	keys: SortKey[],
+): Array<string | number> => {
+	let values: unknown;
+	try {
+		values = JSON.parse(atob(cursor));
+	} catch {
+		throw new InvalidPostCursorError();
+	}
+	if (
+		!Array.isArray(values) ||
+		values.length !== keys.length ||
+		!keys.every((key, index) =>
+			key.column === "priority_rank" || key.column === "comment_count"
+				? typeof values[index] === "number"
+				: typeof values[index] === "string",
+		)
+	) {
+		throw new InvalidPostCursorError();
+	}
+	return values;
+};
+
+/**
+ * カーソルより後ろの投稿に絞る条件（並び順のキーを先頭から比べる）
+ */
+const buildKeysetCondition = (
+	keys: SortKey[],
+	values: Array<string | number>,
+): { sql: string; params: Array<string | number> } => {
+	const clauses: string[] = [];
+	const params: Array<string | number> = [];
+	keys.forEach((key, index) => {
+		const equals = keys.slice(0, index).map((prev) => `${prev.column} = ?`);
+		const operator = key.direction === "ASC" ? ">" : "<";
+		clauses.push(
+			`(${[...equals, `${key.column} ${operator} ?`].join(" AND ")})`,
+		);
+		params.push(...values.slice(0, index + 1));
+	});
+	return { sql: `(${clauses.join(" OR ")})`, params };
+};
+
+/**
+ * 絞り込み条件を WHERE 句にする（対応済みには旧ステータスの解決済みも含める）
+ */
+const buildFeedFilter = (
+	filters: ShelterPostFilters,
+): { conditions: string[]; params: Array<string | number> } => {
+	const conditions: string[] = [];
+	const params: Array<string | number> = [];
+
+	if (filters.priorities && filters.priorities.length > 0) {
+		conditions.push(
+			`status IN (${filters.priorities.map(() => "?").join(", ")})`,
+		);
+		params.push(...filters.priorities);
+	}
+	if (filters.commentStatuses && filters.commentStatuses.length > 0) {
+		const statuses: string[] = filters.commentStatuses.includes("対応済み")
+			? [...filters.commentStatuses, "解決済み"]
+			: filters.commentStatuses;
+		conditions.push(
+			`comment_status IN (${statuses.map(() => "?").join(", ")})`,
+		);
+		params.push(...statuses);
+	}
+	if (filters.isFreeChat !== undefined) {
+		conditions.push("is_free_chat = ?");
+		params.push(filters.isFreeChat ? 1 : 0);
+	}
+	if (filters.from) {
+		conditions.push("datetime(posted_at) >= datetime(?)");
+		params.push(filters.from);
+	}
+	if (filters.to) {
+		conditions.push("datetime(posted_at) <= datetime(?)");
+		params.push(filters.to);
+	}
+	if (filters.author) {
+		conditions.push("author_name LIKE ? ESCAPE '\\'");
+		params.push(`%${filters.author.replace(/[\\%_]/g, "\\$&")}%`);
+	}
+
+	return { conditions, params };
+};
 
 export const countShelters = async (db: Database): Promise<number> => {
 	const { results } = await db
@@ -133,26 +329,86 @@ export const fetchShelterDetails = async (
 
 export const getShelterList = async (db: Database): Promise<Shelter[]> => {
 	const { results } = await db
-		.prepare("SELECT id, name, address, latitude, longitude FROM shelters;")
+		.prepare(
+			"SELECT id, name, address, latitude, longitude, capacity, status FROM shelters;",
+		)
 		.all<Shelter>();
 	return results ?? [];
 };
 
-export const fetchRecentPostsByShelter = async (
+/**
+ * 避難所の投稿を絞り込み・並び替えてカーソル単位で取得する
+ * コメント数順はページを読む間にコメントが増えると、投稿が重複・欠落することがある
+ */
+export const fetchPostsByShelter = async (
 	db: Database,
 	shelterId: number,
-): Promise<ShelterPostSummary[]> => {
-	const { results } = await db
-		.prepare(recentPostsByShelterQuery)
-		.bind(shelterId)
-		.all<ShelterPostSummary>();
+	{
+		filters = {},
+		sort = "newest",
+		limit = 20,
+		cursor,
+	}: {
+		filters?: ShelterPostFilters;
+		sort?: ShelterPostSort;
+		limit?: number;
+		cursor?: string;
+	} = {},
+): Promise<ShelterPostPage> => {
+	const keys = shelterPostSortKeys[sort];
+	const filter = buildFeedFilter(filters);
+	const keyset = cursor
+		? buildKeysetCondition(keys, decodePostCursor(cursor, keys))
+		: null;
 
-	return (
-		results?.map((row) => ({
-			...row,
-			status: normalizePostStatus(row.status),
-		})) ?? []
-	);
+	const toWhere = (conditions: string[]) =>
+		conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+	const orderBy = keys
+		.map((key) => `${key.column} ${key.direction}`)
+		.join(", ");
+
+	const [{ results }, countRow] = await Promise.all([
+		db
+			.prepare(
+				`${shelterPostFeedQuery}
+				SELECT * FROM feed
+				${toWhere(keyset ? [...filter.conditions, keyset.sql] : filter.conditions)}
+				ORDER BY ${orderBy}
+				LIMIT ?`,
+			)
+			.bind(shelterId, ...filter.params, ...(keyset?.params ?? []), limit + 1)
+			.all<ShelterPostFeedRow>(),
+		db
+			.prepare(
+				`${shelterPostFeedQuery}
+				SELECT COUNT(*) AS totalCount FROM feed
+				${toWhere(filter.conditions)}`,
+			)
+			.bind(shelterId, ...filter.params)
+			.first<{ totalCount: number }>(),
+	]);
+
+	const rows = results ?? [];
+	const hasMore = rows.length > limit;
+	const pageRows = rows.slice(0, limit);
+	const last = pageRows.at(-1);
+
+	return {
+		posts: pageRows.map(
+			({ priority_rank: _priorityRank, ...row }): ShelterPostSummary => ({
+				...row,
+				status: normalizePostStatus(row.status),
+				is_free_chat: row.is_free_chat === 1,
+				comment_status: normalizeCommentStatus(row.comment_status),
+			}),
+		),
+		totalCount: countRow?.totalCount ?? 0,
+		nextCursor:
+			hasMore && last
+				? encodePostCursor(keys.map((key) => last[key.column]))
+				: null,
+		hasMore,
+	};
 };
 
 export class ShelterNotFoundError extends Error {
@@ -162,6 +418,222 @@ export class ShelterNotFoundError extends Error {
 	}
 }
 
+export const createShelter = async (
+	db: Database,
+	input: ShelterInput,
+): Promise<ShelterDetails> => {
+	const result = await db
+		.prepare(
+			`INSERT INTO shelters (name, address, latitude, longitude, capacity, opening_hours, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+			RETURNING *`,
+		)
+		.bind(
+			input.name,
+			input.address,
+			input.latitude,
+			input.longitude,
+			input.capacity,
+			input.openingHours,
+		)
+		.first<ShelterDetails>();
+
+	if (!result) {
+		throw new Error("Insert failed");
+	}
+
+	return result;
+};
+
+/**
+ * 避難所情報を部分更新する（指定されなかった項目は現在の値を維持）
+ */
+export const updateShelter = async (
+	db: Database,
+	shelterId: number,
+	input: Partial<ShelterInput>,
+): Promise<ShelterDetails> => {
+	const current = await fetchShelterDetails(db, shelterId);
+	if (!current) {
+		throw new ShelterNotFoundError(shelterId);
+	}
+
+	const result = await db
+		.prepare(
+			`UPDATE shelters
+			SET name = ?, address = ?, latitude = ?, longitude = ?, capacity = ?, opening_hours = ?,
+				updated_at = CURRENT_TIMESTAMP
+			WHERE id = ?
+			RETURNING *`,
+		)
+		.bind(
+			input.name ?? current.name,
+			input.address !== undefined ? input.address : current.address,
+			input.latitude ?? current.latitude,
+			input.longitude ?? current.longitude,
+			input.capacity !== undefined ? input.capacity : current.capacity,
+			input.openingHours !== undefined
+				? input.openingHours
+				: current.opening_hours,
+			shelterId,
+		)
+		.first<ShelterDetails>();
+
+	if (!result) {
+		throw new ShelterNotFoundError(shelterId);
+	}
+
+	return result;
+};
+
+/**
+ * 避難所を閉鎖・再開する
+ */
+export const setShelterStatus = async (
+	db: Database,
+	shelterId: number,
+	status: ShelterStatus,
+): Promise<ShelterDetails> => {
+	const result = await db
+		.prepare(
+			`UPDATE shelters
+			SET status = ?,
+				closed_at = CASE WHEN ? = 'closed' THEN COALESCE(closed_at, CURRENT_TIMESTAMP) ELSE NULL END,
+				updated_at = CURRENT_TIMESTAMP
+			WHERE id = ?
+			RETURNING *`,
+		)
+		.bind(status, status, shelterId)
+		.first<ShelterDetails>();
+
+	if (!result) {
+		throw new ShelterNotFoundError(shelterId);
+	}
+
+	return result;
+};
+
+/**
+ * 避難者数を記録する（時系列で追記し、最新の記録を現在の人数とする）
+ */
+export const recordOccupancy = async (
+	db: Database,
+	{
+		id,
+		shelterId,
+		headcount,
+		recordedBy,
+	}: {
+		id: string;
+		shelterId: number;
+		headcount: number;
+		recordedBy: string | null;
+	},
+): Promise<OccupancyRecord> => {
+	const shelter = await db
+		.prepare("SELECT id FROM shelters WHERE id = ?")
+		.bind(shelterId)
+		.first<{ id: number }>();
+	if (!shelter) {
+		throw new ShelterNotFoundError(shelterId);
+	}
+
+	const now = new Date().toISOString();
+	const result = await db
+		.prepare(
+			`INSERT INTO shelter_occupancy (id, shelter_id, headcount, recorded_at, recorded_by, created_at, updated_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
+			RETURNING
+				id,
+				shelter_id AS shelterId,
+				headcount,
+				recorded_at AS recordedAt,
+				recorded_by AS recordedBy`,
+		)
+		.bind(id, shelterId, headcount, now, recordedBy, now, now)
+		.first<OccupancyRecord>();
+
+	if (!result) {
+		throw new Error("Insert failed");
+	}
+
+	return result;
+};
+
+export const fetchOccupancyHistory = async (
+	db: Database,
+	shelterId: number,
+	limit = 50,
+): Promise<OccupancyRecord[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT
+				id,
+				shelter_id AS shelterId,
+				headcount,
+				recorded_at AS recordedAt,
+				recorded_by AS recordedBy
+			FROM shelter_occupancy
+			WHERE shelter_id = ?
+			ORDER BY datetime(recorded_at) DESC
+			LIMIT ?`,
+		)
+		.bind(shelterId, limit)
+		.all<OccupancyRecord>();
+
+	return results ?? [];
+};
+
+// 未対応の報告: フリーチャット以外の投稿のうち、最新コメントが対応済みでないもの
+const shelterStatsQuery = `WITH open_reports AS (
+	SELECT p.shelter_id, p.status
+	FROM posts AS p
+	WHERE p.is_free_chat = 0
+		AND p.deleted_at IS NULL
+		AND COALESCE(
+			(SELECT c.status FROM comments AS c
+			 WHERE c.post_id = p.id AND c.deleted_at IS NULL
+			 ORDER BY datetime(c.created_at) DESC LIMIT 1),
+			'未対応'
+		) NOT IN ('対応済み', '解決済み')
+)
+SELECT
+	s.id AS shelterId,
+	s.capacity,
+	o.headcount,
+	o.recorded_at AS lastUpdatedAt,
+	(SELECT COUNT(*) FROM open_reports AS r WHERE r.shelter_id = s.id) AS activeReports,
+	(SELECT COUNT(*) FROM open_reports AS r WHERE r.shelter_id = s.id AND r.status = '緊急') AS urgentReports
+FROM shelters AS s
+LEFT JOIN shelter_occupancy AS o ON o.id = (
+	SELECT id FROM shelter_occupancy
+	WHERE shelter_id = s.id
+	ORDER BY datetime(recorded_at) DESC
+	LIMIT 1
+)
+ORDER BY s.id`;
+
+/**
+ * 避難所ごとの現在の避難者数・収容率・報告件数を集計する
+ */
+export const fetchShelterStats = async (
+	db: Database,
+): Promise<ShelterStats[]> => {
+	const { results } = await db
+		.prepare(shelterStatsQuery)
+		.all<Omit<ShelterStats, "occupancyPercent">>();
+
+	return (
+		results?.map((row) => ({
+			...row,
+			occupancyPercent:
+				row.headcount !== null && row.capacity
+					? Math.round((row.headcount / row.capacity) * 1000) / 10
+					: null,
+		})) ?? []
+	);
+};
+
 export const insertShelterPost = async (
 	db: Database,
 	post: ShelterPosts,
@@ -181,12 +653,13 @@ export const insertShelterPost = async (
 	try {
 		await db
 			.prepare(
-				`INSERT INTO posts (id, author_name, shelter_id, content, latitude, longitude, is_synced, posted_at, created_at, is_free_chat, status)
-			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+				`INSERT INTO posts (id, author_name, author_staff_id, shelter_id, content, latitude, longitude, is_synced, posted_at, created_at, updated_at, base_updated_at, is_free_chat, status)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 			)
 			.bind(
 				post.postId,
 				post.authorName,
+				post.authorStaffId,
 				post.shelterId,
 				post.content,
 				post.latitude,
@@ -194,6 +667,9 @@ export const insertShelterPost = async (
 				post.is_synced,
 				post.postedAt,
 				post.createdAtByPost,
+				// 作成時点の版を基準にしておき、同期前に双方で編集された場合も競合として検出する
+				post.createdAtByPost,
+				post.createdAtByPost,
 				post.is_free_chat,
 				post.status,
 			)
@@ -208,14 +684,23 @@ export const insertShelterPost = async (
 					const file_path = mi.file_path;
 					const media_type = mi.mediaType;
 					const file_name = mi.fileName ?? null;
+					const sha256 = mi.sha256 ?? null;
 					const created_at = mi.created_at ?? new Date().toISOString();
 
 					await db
 						.prepare(
-							`INSERT INTO media (id, post_id, file_path, media_type, file_name, created_at)
-						VALUES (?, ?, ?, ?, ?, ?)`,
+							`INSERT INTO media (id, post_id, file_path, media_type, file_name, sha256, created_at)
+						VALUES (?, ?, ?, ?, ?, ?, ?)`,
+						)
+						.bind(
+							id,
+							post.postId,
+							file_path,
+							media_type,
+							file_name,
+							sha256,
+							created_at,
 						)
-						.bind(id, post.postId, file_path, media_type, file_name, created_at)
 						.run();
 				}
 			} catch (mediaErr) {
@@ -279,12 +764,14 @@ export const createCommentForPost = async (
 		commentId,
 		postId,
 		authorName,
+		authorStaffId,
 		content,
 		status,
 	}: {
 		commentId: string;
 		postId: string;
 		authorName: string;
+		authorStaffId: number | null;
 		content: string;
 		status?: "未対応" | "対応中" | "対応済み" | null;
 	},
@@ -295,8 +782,8 @@ export const createCommentForPost = async (
 	const result = await db
 		.prepare(
 			`
-      INSERT INTO comments (id, post_id, author_name, content, status, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO comments (id, post_id, author_name, author_staff_id, content, status, created_at, updated_at, base_updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       RETURNING
         id,
         post_id AS postId,
@@ -306,7 +793,17 @@ export const createCommentForPost = async (
         created_at AS createdAt
     `,
 		)
-		.bind(commentId, postId, authorName, content, normalizedStatus, createdAt)
+		.bind(
+			commentId,
+			postId,
+			authorName,
+			authorStaffId,
+			content,
+			normalizedStatus,
+			createdAt,
+			createdAt,
+			createdAt,
+		)
 		.first<NewCommentResult>();
 
 	if (!result) {
@@ -365,6 +862,7 @@ export const fetchCommentsByPost = async (
 	Array<{
 		id: string;
 		authorName: string;
+		authorStaffId: number | null;
 		content: string;
 		createdAt: string;
 		status: "未対応" | "対応中" | "対応済み" | null;
@@ -372,7 +870,7 @@ export const fetchCommentsByPost = async (
 > => {
 	const { results } = await db
 		.prepare(
-			`SELECT id, author_name AS authorName, content, created_at AS createdAt, status
+			`SELECT id, author_name AS authorName, author_staff_id AS authorStaffId, content, created_at AS createdAt, status
 			 FROM comments
 			 WHERE post_id = ? AND deleted_at IS NULL
 			 ORDER BY created_at ASC`,
@@ -381,6 +879,7 @@ export const fetchCommentsByPost = async (
 		.all<{
 			id: string;
 			authorName: string;
+			authorStaffId: number | null;
 			content: string;
 			createdAt: string;
 			status: string | null;
@@ -402,7 +901,9 @@ export const fetchPostIsFreeChat = async (
 	status: "緊急" | "重要" | "通常" | null;
 } | null> => {
 	const row = await db
-		.prepare("SELECT is_free_chat, status FROM posts WHERE id = ?")
+		.prepare(
+			"SELECT is_free_chat, status FROM posts WHERE id = ? AND deleted_at IS NULL",
+		)
 		.bind(postId)
 		.first<{ is_free_chat: number; status: string | null }>();
 
@@ -422,6 +923,7 @@ export type PostDetailRow = {
 	shelterId: number;
 	shelterName: string;
 	authorName: string;
+	authorStaffId: number | null;
 	content: string | null;
 	postedAt: string;
 	latitude: number;
@@ -462,6 +964,7 @@ export const fetchPostById = async (
 				p.shelter_id AS shelterId,
 				s.name AS shelterName,
 				p.author_name AS authorName,
+				p.author_staff_id AS authorStaffId,
 				p.content,
 				p.posted_at AS postedAt,
 				p.latitude,
@@ -470,7 +973,7 @@ export const fetchPostById = async (
 				(SELECT COUNT(*) FROM comments c WHERE c.post_id = p.id AND c.deleted_at IS NULL) AS commentCount
 			FROM posts p
 			INNER JOIN shelters s ON p.shelter_id = s.id
-			WHERE p.id = ?`,
+			WHERE p.id = ? AND p.deleted_at IS NULL`,
 		)
 		.bind(postId)
 		.first<PostDetailRow>();
@@ -488,7 +991,7 @@ export const fetchPostById = async (
 				media_type AS mediaType,
 				file_name AS fileName
 			FROM media
-			WHERE post_id = ?
+			WHERE post_id = ? AND deleted_at IS NULL
 			ORDER BY created_at ASC`,
 		)
 		.bind(postId)
@@ -502,7 +1005,7 @@ export const fetchPostById = async (
 				latitude,
 				longitude
 			FROM post_location_tracks
-			WHERE post_id = ?
+			WHERE post_id = ? AND deleted_at IS NULL
 			ORDER BY recorded_at ASC`,
 		)
 		.bind(postId)
@@ -514,3 +1017,234 @@ export const fetchPostById = async (
 		locationTrack: trackRows ?? [],
 	};
 };
+
+export class PostNotFoundError extends Error {
+	constructor(postId: string) {
+		super(`Post not found: ${postId}`);
+		this.name = "PostNotFoundError";
+	}
+}
+
+export class CommentNotFoundError extends Error {
+	constructor(commentId: string) {
+		super(`Comment not found: ${commentId}`);
+		this.name = "CommentNotFoundError";
+	}
+}
+
+/**
+ * 編集・削除の権限判定に使う投稿者情報
+ */
+export type ContentOwner = {
+	shelterId: number;
+	authorStaffId: number | null;
+};
+
+export type UpdatedPost = {
+	id: string;
+	shelterId: number;
+	authorName: string;
+	content: string | null;
+	status: "緊急" | "重要" | "通常" | null;
+	updatedAt: string;
+};
+
+export type UpdatedComment = {
+	id: string;
+	authorName: string;
+	authorStaffId: number | null;
+	content: string;
+	createdAt: string;
+	updatedAt: string;
+	status: "未対応" | "対応中" | "対応済み" | null;
+};
+
+/**
+ * 削除されていない投稿の避難所IDと投稿したスタッフIDを取得する（存在しなければnull）
+ */
+export const fetchPostOwner = async (
+	db: Database,
+	postId: string,
+): Promise<ContentOwner | null> => {
+	const row = await db
+		.prepare(
+			"SELECT shelter_id AS shelterId, author_staff_id AS authorStaffId FROM posts WHERE id = ? AND deleted_at IS NULL",
+		)
+		.bind(postId)
+		.first<ContentOwner>();
+
+	return row ?? null;
+};
+
+/**
+ * 削除されていないコメントを投稿したスタッフIDと、投稿先の避難所IDを取得する
+ */
+export const fetchCommentOwner = async (
+	db: Database,
+	postId: string,
+	commentId: string,
+): Promise<ContentOwner | null> => {
+	const row = await db
+		.prepare(
+			`SELECT p.shelter_id AS shelterId, c.author_staff_id AS authorStaffId
+			FROM comments c
+			INNER JOIN posts p ON c.post_id = p.id
+			WHERE c.id = ? AND c.post_id = ? AND c.deleted_at IS NULL AND p.deleted_at IS NULL`,
+		)
+		.bind(commentId, postId)
+		.first<ContentOwner>();
+
+	return row ?? null;
+};
+
+/**
+ * 投稿の本文・ステータスを部分更新する（更新後は未同期に戻す）
+ */
+export const updatePost = async (
+	db: Database,
+	postId: string,
+	input: {
+		content?: string | null;
+		status?: "緊急" | "重要" | "通常" | null;
+	},
+): Promise<UpdatedPost> => {
+	const current = await db
+		.prepare(
+			"SELECT content, status FROM posts WHERE id = ? AND deleted_at IS NULL",
+		)
+		.bind(postId)
+		.first<{ content: string | null; status: string | null }>();
+
+	if (!current) {
+		throw new PostNotFoundError(postId);
+	}
+
+	const row = await db
+		.prepare(
+			`UPDATE posts
+			SET content = ?, status = ?, updated_at = ?, is_synced = 0
+			WHERE id = ?
+			RETURNING
+				id,
+				shelter_id AS shelterId,
+				author_name AS authorName,
+				content,
+				status,
+				updated_at AS updatedAt`,
+		)
+		.bind(
+			input.content !== undefined ? input.content : current.content,
+			input.status !== undefined ? input.status : current.status,
+			new Date().toISOString(),
+			postId,
+		)
+		.first<Omit<UpdatedPost, "status"> & { status: string | null }>();
+
+	if (!row) {
+		throw new PostNotFoundError(postId);
+	}
+
+	return { ...row, status: normalizePostStatus(row.status) };
+};
+
+/**
+ * 投稿を論理削除する（コメント・メディア・位置トラックも合わせて論理削除する）
+ */
+export const softDeletePost = async (
+	db: Database,
+	postId: string,
+): Promise<void> => {
+	const now = new Date().toISOString();
+
+	// 途中で失敗して投稿だけが削除された状態で同期されないよう、関連データと同じバッチで更新する
+	// 関連データは今回削除した投稿のものだけを対象にする（削除済み・存在しない投稿では何も変えない）
+	const [result] = await db.batch([
+		db
+			.prepare(
+				`UPDATE posts
+				SET deleted_at = ?, updated_at = ?, is_synced = 0
+				WHERE id = ? AND deleted_at IS NULL`,
+			)
+			.bind(now, now, postId),
+		...["comments", "media", "post_location_tracks"].map((table) =>
+			db
+				.prepare(
+					`UPDATE ${table}
+					SET deleted_at = ?, updated_at = ?, is_synced = 0
+					WHERE post_id = ? AND deleted_at IS NULL
+						AND EXISTS (SELECT 1 FROM posts WHERE id = ? AND deleted_at = ?)`,
+				)
+				.bind(now, now, postId, postId, now),
+		),
+	]);
+
+	if (!result.meta.changes) {
+		throw new PostNotFoundError(postId);
+	}
+};
+
+/**
+ * コメントの本文・ステータスを部分更新する（更新後は未同期に戻す）
+ */
+export const updateComment = async (
+	db: Database,
+	postId: string,
+	commentId: string,
+	input: {
+		content?: string;
+		status?: "未対応" | "対応中" | "対応済み";
+	},
+): Promise<UpdatedComment> => {
+	const row = await db
+		.prepare(
+			`UPDATE comments
+			SET content = COALESCE(?, content), status = COALESCE(?, status), updated_at = ?, is_synced = 0
+			WHERE id = ? AND post_id = ? AND deleted_at IS NULL
+			RETURNING
+				id,
+				author_name AS authorName,
+				author_staff_id AS authorStaffId,
+				content,
+				created_at AS createdAt,
+				updated_at AS updatedAt,
+				status`,
+		)
+		.bind(
+			input.content ?? null,
+			input.status ?? null,
+			new Date().toISOString(),
+			commentId,
+			postId,
+		)
+		.first<Omit<UpdatedComment, "status"> & { status: string | null }>();
+
+	if (!row) {
+		throw new CommentNotFoundError(commentId);
+	}
+
+	return { ...row, status: normalizeCommentStatus(row.status) };
+};
+
+/**
+ * コメントを論理削除する
+ */
+export const softDeleteComment = async (
+	db: Database,
+	postId: string,
+	commentId: string,
+): Promise<void> => {
+	const now = new Date().toISOString();
+
+	const result = await db
+		.prepare(
+			`UPDATE comments
+			SET deleted_at = ?, updated_at = ?, is_synced = 0
+			WHERE id = ? AND post_id = ? AND deleted_at IS NULL`,
+		)
+		.bind(now, now, commentId, postId)
+		.run();
+
+	if (!result.meta.changes) {
+		throw new CommentNotFoundError(commentId);
+	}
+};
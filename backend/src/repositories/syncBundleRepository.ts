@@ -0,0 +1,247 @@
+import type { Database } from "../db/database";
+import { signBundleManifest, verifyBundleManifest } from "./syncNodeRepository";
+import type { SyncReceiveData } from "./syncRepository";
+import { computeSha256 } from "./videoRepository";
+
+export const SYNC_BUNDLE_FORMAT = "team2-sync-bundle";
+export const SYNC_BUNDLE_VERSION = 1;
+
+export type SyncBundleMediaEntry = {
+	filePath: string;
+	contentType: string;
+	size: number;
+	sha256: string;
+};
+
+export type SyncBundleManifest = {
+	bundleId: string;
+	nodeId: string;
+	shelterId: number | null;
+	createdAt: string;
+	counts: {
+		posts: number;
+		comments: number;
+		locationTracks: number;
+		media: number;
+		occupancy: number;
+		inventoryItems: number;
+		inventoryTransactions: number;
+	};
+	// payload（同期データのJSON文字列）のSHA-256
+	payloadSha256: string;
+	mediaFiles: SyncBundleMediaEntry[];
+};
+
+/**
+ * USBメモリ等で持ち運ぶ同期バンドル（1ファイルのJSON）
+ * manifest・payload は署名・チェックサムの対象のため、JSON文字列のまま保持する
+ */
+export type SyncBundle = {
+	format: typeof SYNC_BUNDLE_FORMAT;
+	version: number;
+	manifest: string;
+	signature: string;
+	payload: string;
+	// R2のメディアファイル本体（Base64）
+	media: { filePath: string; data: string }[];
+};
+
+export type SyncBundleMediaFile = {
+	filePath: string;
+	contentType: string;
+	body: ArrayBuffer;
+};
+
+export type OpenedSyncBundle = {
+	manifest: SyncBundleManifest;
+	data: SyncReceiveData;
+	mediaFiles: SyncBundleMediaFile[];
+};
+
+export class InvalidSyncBundleError extends Error {
+	constructor(reason: string) {
+		super(`Invalid sync bundle: ${reason}`);
+		this.name = "InvalidSyncBundleError";
+	}
+}
+
+const encodeText = (value: string): ArrayBuffer =>
+	new TextEncoder().encode(value).buffer;
+
+const toBase64 = (body: ArrayBuffer): string => {
+	const bytes = new Uint8Array(body);
+	let binary = "";
+	// 引数の個数上限を超えないよう分割して変換する
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+};
+
+const fromBase64 = (value: string): ArrayBuffer => {
+	const binary = atob(value);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes.buffer;
+};
+
+const isSyncBundle = (value: unknown): value is SyncBundle => {
+	if (typeof value !== "object" || value === null) return false;
+	const bundle = value as Record<string, unknown>;
+	return (
+		bundle.format === SYNC_BUNDLE_FORMAT &&
+		typeof bundle.version === "number" &&
+		typeof bundle.manifest === "string" &&
+		typeof bundle.signature === "string" &&
+		typeof bundle.payload === "string" &&
+		Array.isArray(bundle.media)
+	);
+};
+
+/**
+ * 未同期データとメディアファイルから署名付きの同期バンドルを作成する
+ */
+export const createSyncBundle = async ({
+	bundleId,
+	nodeId,
+	secret,
+	shelterId,
+	data,
+	mediaFiles,
+}: {
+	bundleId: string;
+	nodeId: string;
+	secret: string;
+	shelterId: number | null;
+	data: SyncReceiveData;
+	mediaFiles: SyncBundleMediaFile[];
+}): Promise<SyncBundle> => {
+	const payload = JSON.stringify(data);
+
+	const manifest: SyncBundleManifest = {
+		bundleId,
+		nodeId,
+		shelterId,
+		createdAt: new Date().toISOString(),
+		counts: {
+			posts: data.posts.length,
+			comments: data.comments.length,
+			locationTracks: data.locationTracks.length,
+			media: data.media.length,
+			occupancy: data.occupancy?.length ?? 0,
+			inventoryItems: data.inventoryItems?.length ?? 0,
+			inventoryTransactions: data.inventoryTransactions?.length ?? 0,
+		},
+		payloadSha256: await computeSha256(encodeText(payload)),
+		mediaFiles: await Promise.all(
+			mediaFiles.map(async (file) => ({
+				filePath: file.filePath,
+				contentType: file.contentType,
+				size: file.body.byteLength,
+				sha256: await computeSha256(file.body),
+			})),
+		),
+	};
+	const manifestJson = JSON.stringify(manifest);
+
+	return {
+		format: SYNC_BUNDLE_FORMAT,
+		version: SYNC_BUNDLE_VERSION,
+		manifest: manifestJson,
+		signature: await signBundleManifest(secret, manifestJson),
+		payload,
+		media: mediaFiles.map((file) => ({
+			filePath: file.filePath,
+			data: toBase64(file.body),
+		})),
+	};
+};
+
+/**
+ * 同期バンドルの署名・チェックサムを検証し、同期データとメディアファイルを取り出す
+ * 署名は作成元ノードの共有鍵で検証するため、作成元ノードが登録済みである必要がある
+ */
+export const openSyncBundle = async (
+	db: Database,
+	raw: string,
+): Promise<OpenedSyncBundle> => {
+	let bundle: unknown;
+	try {
+		bundle = JSON.parse(raw);
+	} catch (_error) {
+		throw new InvalidSyncBundleError("JSONとして読み込めません");
+	}
+
+	if (!isSyncBundle(bundle)) {
+		throw new InvalidSyncBundleError("同期バンドルの形式ではありません");
+	}
+	if (bundle.version !== SYNC_BUNDLE_VERSION) {
+		throw new InvalidSyncBundleError(
+			`未対応のバージョンです: ${bundle.version}`,
+		);
+	}
+
+	let manifest: SyncBundleManifest;
+	try {
+		manifest = JSON.parse(bundle.manifest);
+	} catch (_error) {
+		throw new InvalidSyncBundleError("マニフェストを読み込めません");
+	}
+
+	const verification = await verifyBundleManifest(db, {
+		nodeId: manifest.nodeId,
+		manifest: bundle.manifest,
+		signature: bundle.signature,
+	});
+	if (!verification.ok) {
+		throw new InvalidSyncBundleError(verification.reason);
+	}
+
+	if (
+		(await computeSha256(encodeText(bundle.payload))) !== manifest.payloadSha256
+	) {
+		throw new InvalidSyncBundleError("同期データのチェックサムが一致しません");
+	}
+
+	const mediaByPath = new Map(
+		bundle.media.map((file) => [file.filePath, file.data]),
+	);
+	const mediaFiles: SyncBundleMediaFile[] = [];
+	for (const entry of manifest.mediaFiles) {
+		const encoded = mediaByPath.get(entry.filePath);
+		if (encoded === undefined) {
+			throw new InvalidSyncBundleError(
+				`メディアファイルがありません: ${entry.filePath}`,
+			);
+		}
+		let body: ArrayBuffer;
+		try {
+			body = fromBase64(encoded);
+		} catch (_error) {
+			throw new InvalidSyncBundleError(
+				`メディアファイルを読み込めません: ${entry.filePath}`,
+			);
+		}
+		if (
+			body.byteLength !== entry.size ||
+			(await computeSha256(body)) !== entry.sha256
+		) {
+			throw new InvalidSyncBundleError(
+				`メディアファイルのチェックサムが一致しません: ${entry.filePath}`,
+			);
+		}
+		mediaFiles.push({
+			filePath: entry.filePath,
+			contentType: entry.contentType,
+			body,
+		});
+	}
+
+	return {
+		manifest,
+		data: JSON.parse(bundle.payload) as SyncReceiveData,
+		mediaFiles,
+	};
+};
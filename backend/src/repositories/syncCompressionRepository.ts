@@ -0,0 +1,105 @@
+// ノード間同期の本文の圧縮方式（Workers の CompressionStream が扱える方式のみ。brotli は扱えない）
+export const SYNC_CONTENT_ENCODINGS = ["gzip"] as const;
+
+export type SyncContentEncoding = (typeof SYNC_CONTENT_ENCODINGS)[number];
+
+// 本文の圧縮方式と、受け取れる圧縮方式を伝えるヘッダー
+// 標準の Content-Encoding を使うと途中のプロキシやランタイムが展開し直し、署名した本文と一致しなくなるため独自のヘッダーにする
+export const SYNC_HEADER_CONTENT_ENCODING = "X-Sync-Content-Encoding";
+export const SYNC_HEADER_ACCEPT_ENCODING = "X-Sync-Accept-Encoding";
+
+// 差分Pullのメディア取得で、画像を縮小して返したことを示すヘッダー（元のファイルとSHA-256が一致しない）
+export const SYNC_HEADER_MEDIA_DOWNSCALED = "X-Sync-Media-Downscaled";
+
+// これより小さい本文は圧縮してもほとんど縮まないためそのまま送る
+const MIN_COMPRESS_BYTES = 1024;
+
+export class UnsupportedContentEncodingError extends Error {
+	constructor(readonly encoding: string) {
+		super(`対応していない圧縮方式です: ${encoding}`);
+		this.name = "UnsupportedContentEncodingError";
+	}
+}
+
+const isSupported = (value: string): value is SyncContentEncoding =>
+	(SYNC_CONTENT_ENCODINGS as readonly string[]).includes(value);
+
+/**
+ * 相手が受け取れる圧縮方式（ヘッダーの値またはハンドシェイクの一覧）から、自ノードでも扱える方式を選ぶ
+ * 相手が圧縮に対応していない場合は null（圧縮しない）
+ */
+export const negotiate = (
+	accepted: string | readonly string[] | null | undefined,
+): SyncContentEncoding | null => {
+	const values =
+		typeof accepted === "string" ? accepted.split(",") : (accepted ?? []);
+	for (const value of values) {
+		const encoding = value.trim().toLowerCase();
+		if (isSupported(encoding)) {
+			return encoding;
+		}
+	}
+	return null;
+};
+
+/**
+ * 受け取った本文の圧縮方式を読み取る（ヘッダーがない場合は圧縮されていない）
+ */
+export const parseEncoding = (
+	value: string | null | undefined,
+): SyncContentEncoding | null => {
+	const encoding = value?.trim().toLowerCase();
+	if (!encoding || encoding === "identity") {
+		return null;
+	}
+	if (!isSupported(encoding)) {
+		throw new UnsupportedContentEncodingError(encoding);
+	}
+	return encoding;
+};
+
+const transform = (
+	body: ArrayBuffer,
+	stream: CompressionStream | DecompressionStream,
+): Promise<ArrayBuffer> =>
+	new Response(new Blob([body]).stream().pipeThrough(stream)).arrayBuffer();
+
+/**
+ * 本文を圧縮する（小さい本文や圧縮しても縮まない本文はそのまま返し、encoding を null にする）
+ */
+export const encodeBody = async (
+	body: ArrayBuffer,
+	encoding: SyncContentEncoding | null,
+): Promise<{ body: ArrayBuffer; encoding: SyncContentEncoding | null }> => {
+	if (encoding === null || body.byteLength < MIN_COMPRESS_BYTES) {
+		return { body, encoding: null };
+	}
+	const compressed = await transform(body, new CompressionStream(encoding));
+	return compressed.byteLength < body.byteLength
+		? { body: compressed, encoding }
+		: { body, encoding: null };
+};
+
+/**
+ * 圧縮された本文を展開する
+ */
+export const decodeBody = async (
+	body: ArrayBuffer,
+	encoding: SyncContentEncoding | null,
+): Promise<ArrayBuffer> =>
+	encoding === null ? body : transform(body, new DecompressionStream(encoding));
+
+/**
+ * 自ノードが受け取れる圧縮方式を伝えるヘッダー
+ */
+export const acceptEncodingHeaders = (): Record<string, string> => ({
+	[SYNC_HEADER_ACCEPT_ENCODING]: SYNC_CONTENT_ENCODINGS.join(", "),
+});
+
+/**
+ * 本文の圧縮方式を伝えるヘッダー（圧縮していない場合は付けない）
+ */
+export const encodingHeaders = (
+	encoding: SyncContentEncoding | null,
+): Record<string, string> =>
+	encoding === null ? {} : { [SYNC_HEADER_CONTENT_ENCODING]: encoding };
@@ -0,0 +1,356 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Database } from "../db/database";
+
+export type ConflictTable = "posts" | "comments";
+
+// push: 本番側でノードからの受信時に検出, pull: ノード側で差分Pull時に検出
+export type ConflictSource = "push" | "pull";
+
+export type ConflictResolution = "local" | "remote" | "merged" | "superseded";
+
+// 統合時に手元・同期相手のどちらを採用するか選べる項目（posts/comments 共通）
+export const CONFLICT_FIELDS = ["content", "status", "deleted_at"] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+export type ConflictFieldChoice = Partial<
+	Record<ConflictField, "local" | "remote">
+>;
+
+/**
+ * 受信したレコードをどう反映するか
+ * - apply: 送信元が手元の最新版を元に変更しているため、そのまま上書きする
+ * - skip: 手元と同じ、または手元が既に取り込み済みの版なので何もしない
+ * - last_writer_wins: 競合とは判定できないため updated_at の新しい方を採用する
+ * - conflict: 双方で変更されているため反映せず競合として保存した
+ */
+export type IncomingDecision =
+	| "apply"
+	| "skip"
+	| "last_writer_wins"
+	| "conflict";
+
+/**
+ * 判定結果と、それに伴う sync_conflicts への書き込み
+ * 書き込みは呼び出し側で受信データと同じD1バッチにまとめて実行する
+ */
+export type IncomingVersionPlan = {
+	decision: IncomingDecision;
+	statements: D1PreparedStatement[];
+};
+
+export type SyncConflict = {
+	id: string;
+	tableName: ConflictTable;
+	recordId: string;
+	shelterId: number | null;
+	source: ConflictSource;
+	localData: Record<string, unknown>;
+	remoteData: Record<string, unknown>;
+	detectedAt: string;
+	resolvedAt: string | null;
+	resolution: ConflictResolution | null;
+	resolvedBy: string | null;
+};
+
+type SyncConflictRow = {
+	id: string;
+	table_name: ConflictTable;
+	record_id: string;
+	shelter_id: number | null;
+	source: ConflictSource;
+	local_data: string;
+	remote_data: string;
+	detected_at: string;
+	resolved_at: string | null;
+	resolution: ConflictResolution | null;
+	resolved_by: string | null;
+};
+
+// 競合判定に必要な版情報（送信元の base_updated_at は旧バージョンのノードからは届かない）
+type VersionedRecord = {
+	id: string;
+	updated_at: string;
+	base_updated_at?: string | null;
+};
+
+type LocalRecord = Record<string, unknown> & {
+	updated_at: string;
+	base_updated_at: string | null;
+};
+
+export class SyncConflictNotFoundError extends Error {
+	constructor(conflictId: string) {
+		super(`Sync conflict not found: ${conflictId}`);
+		this.name = "SyncConflictNotFoundError";
+	}
+}
+
+export class SyncConflictAlreadyResolvedError extends Error {
+	constructor(conflictId: string) {
+		super(`Sync conflict already resolved: ${conflictId}`);
+		this.name = "SyncConflictAlreadyResolvedError";
+	}
+}
+
+export const isConflictTable = (value: unknown): value is ConflictTable =>
+	value === "posts" || value === "comments";
+
+/**
+ * ISO形式と CURRENT_TIMESTAMP 形式（UTC、タイムゾーンなし）の日時をミリ秒に揃える
+ */
+const toEpochMs = (value: string | null | undefined): number | null => {
+	if (!value) return null;
+	const normalized = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value)
+		? value
+		: `${value.replace(" ", "T")}Z`;
+	const ms = Date.parse(normalized);
+	return Number.isNaN(ms) ? null : ms;
+};
+
+const isSameVersion = (
+	a: string | null | undefined,
+	b: string | null | undefined,
+): boolean => {
+	const aMs = toEpochMs(a);
+	return aMs !== null && aMs === toEpochMs(b);
+};
+
+const toSyncConflict = (row: SyncConflictRow): SyncConflict => ({
+	id: row.id,
+	tableName: row.table_name,
+	recordId: row.record_id,
+	shelterId: row.shelter_id,
+	source: row.source,
+	localData: JSON.parse(row.local_data),
+	remoteData: JSON.parse(row.remote_data),
+	detectedAt: row.detected_at,
+	resolvedAt: row.resolved_at,
+	resolution: row.resolution,
+	resolvedBy: row.resolved_by,
+});
+
+const fetchShelterIdForRecord = async (
+	db: Database,
+	table: ConflictTable,
+	record: Record<string, unknown>,
+): Promise<number | null> => {
+	if (table === "posts") {
+		return typeof record.shelter_id === "number" ? record.shelter_id : null;
+	}
+	const row = await db
+		.prepare("SELECT shelter_id FROM posts WHERE id = ?")
+		.bind(record.post_id)
+		.first<{ shelter_id: number }>();
+	return row?.shelter_id ?? null;
+};
+
+/**
+ * 同期で受信したレコードの反映方法を判定し、競合であれば sync_conflicts に保存する文を返す
+ *
+ * base_updated_at は「最後に同期相手と一致していた版」。送信元の base が手元の最新版と
+ * 一致すれば早送りで反映し、手元・送信元の両方が手元の base から変更されていれば競合とする。
+ * base が分からない（同期前のデータや旧バージョンのノード）場合は Last-Writer-Wins に任せる。
+ */
+export const decideIncomingVersion = async (
+	db: Database,
+	table: ConflictTable,
+	incoming: VersionedRecord,
+	source: ConflictSource,
+): Promise<IncomingVersionPlan> => {
+	const local = await db
+		.prepare(`SELECT * FROM ${table} WHERE id = ?`)
+		.bind(incoming.id)
+		.first<LocalRecord>();
+
+	if (!local) {
+		return { decision: "apply", statements: [] };
+	}
+
+	const openConflict = await db
+		.prepare(
+			"SELECT id FROM sync_conflicts WHERE table_name = ? AND record_id = ? AND resolved_at IS NULL",
+		)
+		.bind(table, incoming.id)
+		.first<{ id: string }>();
+
+	// 送信元が手元の最新版（競合解決済みの版を含む）を取り込んだ上で変更している
+	if (isSameVersion(incoming.base_updated_at, local.updated_at)) {
+		return {
+			decision: "apply",
+			statements: openConflict
+				? [prepareMarkConflictResolved(db, openConflict.id, "superseded", null)]
+				: [],
+		};
+	}
+
+	if (
+		isSameVersion(incoming.updated_at, local.updated_at) ||
+		isSameVersion(incoming.updated_at, local.base_updated_at)
+	) {
+		return { decision: "skip", statements: [] };
+	}
+
+	const localChanged =
+		local.base_updated_at !== null &&
+		!isSameVersion(local.updated_at, local.base_updated_at);
+
+	if (!openConflict && !localChanged) {
+		return { decision: "last_writer_wins", statements: [] };
+	}
+
+	// 未解決の競合があれば、同期相手側の版だけ最新に差し替える
+	const statement = openConflict
+		? db
+				.prepare("UPDATE sync_conflicts SET remote_data = ? WHERE id = ?")
+				.bind(JSON.stringify(incoming), openConflict.id)
+		: db
+				.prepare(
+					`INSERT INTO sync_conflicts (id, table_name, record_id, shelter_id, source, local_data, remote_data, detected_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+				)
+				.bind(
+					uuidv4(),
+					table,
+					incoming.id,
+					await fetchShelterIdForRecord(db, table, local),
+					source,
+					JSON.stringify(local),
+					JSON.stringify(incoming),
+					new Date().toISOString(),
+				);
+
+	return { decision: "conflict", statements: [statement] };
+};
+
+const prepareMarkConflictResolved = (
+	db: Database,
+	conflictId: string,
+	resolution: ConflictResolution,
+	resolvedBy: string | null,
+): D1PreparedStatement =>
+	db
+		.prepare(
+			"UPDATE sync_conflicts SET resolved_at = ?, resolution = ?, resolved_by = ? WHERE id = ?",
+		)
+		.bind(new Date().toISOString(), resolution, resolvedBy, conflictId);
+
+export const fetchSyncConflicts = async (
+	db: Database,
+	{
+		status,
+		shelterId,
+	}: { status: "open" | "resolved" | "all"; shelterId?: number },
+): Promise<SyncConflict[]> => {
+	const conditions: string[] = [];
+	const params: Array<string | number> = [];
+	if (status === "open") {
+		conditions.push("resolved_at IS NULL");
+	} else if (status === "resolved") {
+		conditions.push("resolved_at IS NOT NULL");
+	}
+	if (shelterId !== undefined) {
+		conditions.push("shelter_id = ?");
+		params.push(shelterId);
+	}
+
+	const { results } = await db
+		.prepare(
+			`SELECT * FROM sync_conflicts
+			${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+			ORDER BY detected_at DESC
+			LIMIT 100`,
+		)
+		.bind(...params)
+		.all<SyncConflictRow>();
+
+	return (results ?? []).map(toSyncConflict);
+};
+
+export const fetchSyncConflictById = async (
+	db: Database,
+	conflictId: string,
+): Promise<SyncConflict> => {
+	const row = await db
+		.prepare("SELECT * FROM sync_conflicts WHERE id = ?")
+		.bind(conflictId)
+		.first<SyncConflictRow>();
+
+	if (!row) {
+		throw new SyncConflictNotFoundError(conflictId);
+	}
+
+	return toSyncConflict(row);
+};
+
+/**
+ * 競合を解決する（手元・同期相手のどちらかを採用、または項目ごとに統合）
+ * 解決結果は新しい版として保存し、次回の同期で相手側に早送りで反映されるよう
+ * base_updated_at を同期相手の版に合わせる
+ */
+export const resolveSyncConflict = async (
+	db: Database,
+	conflictId: string,
+	{
+		resolution,
+		fields,
+		resolvedBy,
+	}: {
+		resolution: Exclude<ConflictResolution, "superseded">;
+		fields?: ConflictFieldChoice;
+		resolvedBy: string | null;
+	},
+): Promise<SyncConflict> => {
+	const conflict = await fetchSyncConflictById(db, conflictId);
+	if (conflict.resolvedAt) {
+		throw new SyncConflictAlreadyResolvedError(conflictId);
+	}
+
+	const pickSide = (field: ConflictField): "local" | "remote" => {
+		if (resolution === "merged") {
+			return fields?.[field] ?? "local";
+		}
+		return resolution;
+	};
+	const values = CONFLICT_FIELDS.map((field) => {
+		const source =
+			pickSide(field) === "local" ? conflict.localData : conflict.remoteData;
+		return source[field] ?? null;
+	});
+
+	// レコードの更新と競合の解決済み化は片方だけ反映されないよう同じバッチで実行する
+	await db.batch([
+		db
+			.prepare(
+				`UPDATE ${conflict.tableName}
+				SET content = ?, status = ?, deleted_at = ?, updated_at = ?, base_updated_at = ?, is_synced = 0
+				WHERE id = ?`,
+			)
+			.bind(
+				...values,
+				new Date().toISOString(),
+				conflict.remoteData.updated_at ?? null,
+				conflict.recordId,
+			),
+		prepareMarkConflictResolved(db, conflictId, resolution, resolvedBy),
+	]);
+
+	return fetchSyncConflictById(db, conflictId);
+};
+
+/**
+ * 未解決の競合件数
+ */
+export const countOpenConflicts = async (
+	db: Database,
+	shelterId?: number,
+): Promise<number> => {
+	const row = await db
+		.prepare(
+			`SELECT COUNT(*) AS count FROM sync_conflicts
+			WHERE resolved_at IS NULL${shelterId !== undefined ? " AND shelter_id = ?" : ""}`,
+		)
+		.bind(...(shelterId !== undefined ? [shelterId] : []))
+		.first<{ count: number }>();
+	return row?.count ?? 0;
+};
@@ -0,0 +1,149 @@
+import type { Database } from "../db/database";
+
+// 同期に失敗した項目の種類（push はデータ本体とメディアファイル、pull はメディアファイルのみ記録する）
+export type SyncFailureRecordType =
+	| "post"
+	| "comment"
+	| "location_track"
+	| "occupancy"
+	| "inventory_item"
+	| "inventory_transaction"
+	| "media";
+
+export type SyncFailureDirection = "push" | "pull";
+
+export type SyncLogFailure = {
+	id: number;
+	logId: number;
+	direction: SyncFailureDirection;
+	recordType: SyncFailureRecordType;
+	recordId: string;
+	label: string | null;
+	errorMessage: string;
+	createdAt: string;
+	retriedAt: string | null;
+	retryLogId: number | null;
+};
+
+export type SyncLogFailureInput = {
+	recordType: SyncFailureRecordType;
+	recordId: string;
+	label?: string | null;
+	errorMessage: string;
+};
+
+type SyncLogFailureRow = {
+	id: number;
+	log_id: number;
+	direction: SyncFailureDirection;
+	record_type: SyncFailureRecordType;
+	record_id: string;
+	label: string | null;
+	error_message: string;
+	created_at: string;
+	retried_at: string | null;
+	retry_log_id: number | null;
+};
+
+// D1 の1回の batch に含める INSERT 文の上限
+const INSERT_CHUNK_SIZE = 50;
+
+const toSyncLogFailure = (row: SyncLogFailureRow): SyncLogFailure => ({
+	id: row.id,
+	logId: row.log_id,
+	direction: row.direction,
+	recordType: row.record_type,
+	recordId: row.record_id,
+	label: row.label,
+	errorMessage: row.error_message,
+	createdAt: row.created_at,
+	retriedAt: row.retried_at,
+	retryLogId: row.retry_log_id,
+});
+
+/**
+ * 同期ログに失敗した項目を記録
+ */
+export const recordFailures = async (
+	db: Database,
+	logId: number,
+	direction: SyncFailureDirection,
+	failures: SyncLogFailureInput[],
+): Promise<void> => {
+	if (failures.length === 0) return;
+
+	const now = new Date().toISOString();
+	for (let i = 0; i < failures.length; i += INSERT_CHUNK_SIZE) {
+		await db.batch(
+			failures.slice(i, i + INSERT_CHUNK_SIZE).map((failure) =>
+				db
+					.prepare(
+						`INSERT INTO sync_log_failures (
+							log_id, direction, record_type, record_id, label, error_message, created_at
+						)
+						VALUES (?, ?, ?, ?, ?, ?, ?)`,
+					)
+					.bind(
+						logId,
+						direction,
+						failure.recordType,
+						failure.recordId,
+						failure.label ?? null,
+						failure.errorMessage,
+						now,
+					),
+			),
+		);
+	}
+};
+
+/**
+ * 同期ログに記録された失敗項目を取得（再試行済みも含む）
+ */
+export const listFailures = async (
+	db: Database,
+	logId: number,
+): Promise<SyncLogFailure[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT * FROM sync_log_failures WHERE log_id = ? ORDER BY id ASC LIMIT 500`,
+		)
+		.bind(logId)
+		.all<SyncLogFailureRow>();
+	return (results ?? []).map(toSyncLogFailure);
+};
+
+/**
+ * まだ再試行していない失敗項目を取得
+ */
+export const fetchPendingFailures = async (
+	db: Database,
+	logId: number,
+): Promise<SyncLogFailure[]> => {
+	const { results } = await db
+		.prepare(
+			`SELECT * FROM sync_log_failures
+			WHERE log_id = ? AND retried_at IS NULL
+			ORDER BY id ASC`,
+		)
+		.bind(logId)
+		.all<SyncLogFailureRow>();
+	return (results ?? []).map(toSyncLogFailure);
+};
+
+/**
+ * 失敗項目を再試行済みにする（再試行の結果は retryLogId の同期ログに記録される）
+ */
+export const markRetried = async (
+	db: Database,
+	logId: number,
+	retryLogId: number,
+): Promise<void> => {
+	await db
+		.prepare(
+			`UPDATE sync_log_failures SET retried_at = ?, retry_log_id = ?
+			WHERE log_id = ? AND retried_at IS NULL`,
+		)
+		.bind(new Date().toISOString(), retryLogId, logId)
+		.run();
+};
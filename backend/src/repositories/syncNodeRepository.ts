@@ -0,0 +1,323 @@
+import type { Database } from "../db/database";
+import { randomHex, timingSafeEqualString, toHex } from "./authRepository";
+
+export type SyncNode = {
+	nodeId: string;
+	name: string;
+	createdAt: string;
+	lastSeenAt: string | null;
+	revokedAt: string | null;
+};
+
+type SyncNodeRow = {
+	node_id: string;
+	name: string;
+	shared_secret: string;
+	created_at: string;
+	last_seen_at: string | null;
+	revoked_at: string | null;
+};
+
+export type SyncSignatureInput = {
+	nodeId: string | undefined;
+	timestamp: string | undefined;
+	nonce: string | undefined;
+	signature: string | undefined;
+	method: string;
+	origin: string;
+	path: string;
+	body: ArrayBuffer;
+};
+
+export type SyncSignatureResult =
+	| { ok: true; nodeId: string }
+	| { ok: false; reason: string };
+
+export const SYNC_HEADER_NODE_ID = "X-Sync-Node-Id";
+export const SYNC_HEADER_TIMESTAMP = "X-Sync-Timestamp";
+export const SYNC_HEADER_NONCE = "X-Sync-Nonce";
+export const SYNC_HEADER_SIGNATURE = "X-Sync-Signature";
+
+// 署名の有効期間（前後5分）。時刻のずれが大きいノードは拒否される
+const SIGNATURE_WINDOW_SECONDS = 5 * 60;
+
+export class SyncNodeNotFoundError extends Error {
+	constructor(nodeId: string) {
+		super(`Sync node not found: ${nodeId}`);
+		this.name = "SyncNodeNotFoundError";
+	}
+}
+
+export class DuplicateSyncNodeError extends Error {
+	constructor(nodeId: string) {
+		super(`Sync node already exists: ${nodeId}`);
+		this.name = "DuplicateSyncNodeError";
+	}
+}
+
+const toSyncNode = (row: SyncNodeRow): SyncNode => ({
+	nodeId: row.node_id,
+	name: row.name,
+	createdAt: row.created_at,
+	lastSeenAt: row.last_seen_at,
+	revokedAt: row.revoked_at,
+});
+
+const sha256HexOfBytes = async (body: ArrayBuffer): Promise<string> =>
+	toHex(await crypto.subtle.digest("SHA-256", body));
+
+/**
+ * 署名対象の文字列を組み立てる（メソッド・送信先オリジン・パス・時刻・ナンス・本文ハッシュ）
+ * 送信先を含めることで、別のサーバー宛ての署名付きリクエストを転用できないようにする
+ */
+const buildCanonicalString = async (
+	method: string,
+	origin: string,
+	path: string,
+	timestamp: string,
+	nonce: string,
+	body: ArrayBuffer,
+): Promise<string> =>
+	[
+		method.toUpperCase(),
+		origin.toLowerCase(),
+		path,
+		timestamp,
+		nonce,
+		await sha256HexOfBytes(body),
+	].join("\n");
+
+const hmacSha256Hex = async (secret: string, message: string) => {
+	const key = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	return toHex(
+		await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message)),
+	);
+};
+
+/**
+ * 送信側: 同期リクエストの署名ヘッダーを生成する
+ */
+export const createSignatureHeaders = async ({
+	nodeId,
+	secret,
+	method,
+	url,
+	body,
+}: {
+	nodeId: string;
+	secret: string;
+	method: string;
+	url: string;
+	body: ArrayBuffer;
+}): Promise<Record<string, string>> => {
+	const { origin, pathname, search } = new URL(url);
+	const timestamp = String(Math.floor(Date.now() / 1000));
+	const nonce = randomHex(16);
+	const canonical = await buildCanonicalString(
+		method,
+		origin,
+		`${pathname}${search}`,
+		timestamp,
+		nonce,
+		body,
+	);
+
+	return {
+		[SYNC_HEADER_NODE_ID]: nodeId,
+		[SYNC_HEADER_TIMESTAMP]: timestamp,
+		[SYNC_HEADER_NONCE]: nonce,
+		[SYNC_HEADER_SIGNATURE]: await hmacSha256Hex(secret, canonical),
+	};
+};
+
+/**
+ * 使用済みナンスを記録する。既に使われていれば false（リプレイ）
+ */
+const consumeNonce = async (
+	db: Database,
+	nodeId: string,
+	nonce: string,
+): Promise<boolean> => {
+	await db
+		.prepare("DELETE FROM sync_nonces WHERE created_at < datetime('now', ?)")
+		.bind(`-${SIGNATURE_WINDOW_SECONDS * 2} seconds`)
+		.run();
+
+	const result = await db
+		.prepare(
+			"INSERT INTO sync_nonces (node_id, nonce) VALUES (?, ?) ON CONFLICT(node_id, nonce) DO NOTHING",
+		)
+		.bind(nodeId, nonce)
+		.run();
+
+	return (result.meta.changes ?? 0) > 0;
+};
+
+/**
+ * 受信側: 署名・時刻・ナンスを検証し、送信元ノードを特定する
+ */
+export const verifySignedRequest = async (
+	db: Database,
+	input: SyncSignatureInput,
+): Promise<SyncSignatureResult> => {
+	const { nodeId, timestamp, nonce, signature } = input;
+
+	if (!nodeId || !timestamp || !nonce || !signature) {
+		return { ok: false, reason: "署名ヘッダーがありません" };
+	}
+
+	const requestTime = Number.parseInt(timestamp, 10);
+	const now = Math.floor(Date.now() / 1000);
+	if (
+		Number.isNaN(requestTime) ||
+		Math.abs(now - requestTime) > SIGNATURE_WINDOW_SECONDS
+	) {
+		return { ok: false, reason: "署名の有効期間外です" };
+	}
+
+	const node = await db
+		.prepare(
+			"SELECT node_id, name, shared_secret, created_at, last_seen_at, revoked_at FROM sync_nodes WHERE node_id = ?",
+		)
+		.bind(nodeId)
+		.first<SyncNodeRow>();
+
+	if (!node || node.revoked_at) {
+		return { ok: false, reason: "未登録または失効済みのノードです" };
+	}
+
+	const canonical = await buildCanonicalString(
+		input.method,
+		input.origin,
+		input.path,
+		timestamp,
+		nonce,
+		input.body,
+	);
+	const expected = await hmacSha256Hex(node.shared_secret, canonical);
+	if (!timingSafeEqualString(signature.toLowerCase(), expected)) {
+		return { ok: false, reason: "署名が一致しません" };
+	}
+
+	// 署名が正しいことを確認してからナンスを記録する（不正リクエストで埋められないように）
+	if (!(await consumeNonce(db, nodeId, nonce))) {
+		return { ok: false, reason: "リプレイされたリクエストです" };
+	}
+
+	await db
+		.prepare(
+			"UPDATE sync_nodes SET last_seen_at = CURRENT_TIMESTAMP WHERE node_id = ?",
+		)
+		.bind(nodeId)
+		.run();
+
+	return { ok: true, nodeId };
+};
+
+/**
+ * 同期バンドル（ファイル）のマニフェストに署名する
+ * ファイルは数日かけて持ち運ばれるため、リクエスト署名と違い時刻・ナンスは含めない
+ */
+export const signBundleManifest = (
+	secret: string,
+	manifest: string,
+): Promise<string> => hmacSha256Hex(secret, manifest);
+
+/**
+ * 取り込み側: 同期バンドルのマニフェスト署名を、作成元ノードの共有鍵で検証する
+ */
+export const verifyBundleManifest = async (
+	db: Database,
+	{
+		nodeId,
+		manifest,
+		signature,
+	}: { nodeId: string; manifest: string; signature: string },
+): Promise<SyncSignatureResult> => {
+	const node = await db
+		.prepare(
+			"SELECT node_id, name, shared_secret, created_at, last_seen_at, revoked_at FROM sync_nodes WHERE node_id = ?",
+		)
+		.bind(nodeId)
+		.first<SyncNodeRow>();
+
+	if (!node || node.revoked_at) {
+		return { ok: false, reason: "未登録または失効済みのノードです" };
+	}
+
+	const expected = await hmacSha256Hex(node.shared_secret, manifest);
+	if (!timingSafeEqualString(signature.toLowerCase(), expected)) {
+		return { ok: false, reason: "署名が一致しません" };
+	}
+
+	return { ok: true, nodeId };
+};
+
+export const listSyncNodes = async (db: Database): Promise<SyncNode[]> => {
+	const result = await db
+		.prepare(
+			"SELECT node_id, name, shared_secret, created_at, last_seen_at, revoked_at FROM sync_nodes ORDER BY created_at DESC",
+		)
+		.all<SyncNodeRow>();
+
+	return (result.results ?? []).map(toSyncNode);
+};
+
+/**
+ * ノードを登録し、共有鍵を発行する（共有鍵はこの応答でのみ返す）
+ */
+export const registerSyncNode = async (
+	db: Database,
+	{ nodeId, name }: { nodeId: string; name: string },
+): Promise<{ node: SyncNode; sharedSecret: string }> => {
+	const existing = await db
+		.prepare("SELECT node_id FROM sync_nodes WHERE node_id = ?")
+		.bind(nodeId)
+		.first<{ node_id: string }>();
+	if (existing) {
+		throw new DuplicateSyncNodeError(nodeId);
+	}
+
+	const sharedSecret = randomHex(32);
+	const row = await db
+		.prepare(
+			`INSERT INTO sync_nodes (node_id, name, shared_secret)
+			 VALUES (?, ?, ?)
+			 RETURNING node_id, name, shared_secret, created_at, last_seen_at, revoked_at`,
+		)
+		.bind(nodeId, name, sharedSecret)
+		.first<SyncNodeRow>();
+
+	if (!row) {
+		throw new Error("Insert failed");
+	}
+
+	return { node: toSyncNode(row), sharedSecret };
+};
+
+export const revokeSyncNode = async (
+	db: Database,
+	nodeId: string,
+): Promise<SyncNode> => {
+	const row = await db
+		.prepare(
+			`UPDATE sync_nodes
+			 SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+			 WHERE node_id = ?
+			 RETURNING node_id, name, shared_secret, created_at, last_seen_at, revoked_at`,
+		)
+		.bind(nodeId)
+		.first<SyncNodeRow>();
+
+	if (!row) {
+		throw new SyncNodeNotFoundError(nodeId);
+	}
+
+	return toSyncNode(row);
+};
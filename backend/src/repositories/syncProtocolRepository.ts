@@ -0,0 +1,121 @@
+import type { SyncReceiveData } from "./syncRepository";
+
+/**
+ * ノード間同期のプロトコルバージョン
+ * 1: protocolVersion を含まないペイロード（バージョン交渉に対応する前のノード）
+ *    deleted_at・file_name・在庫・避難者数などが欠けている場合がある
+ * 2: すべての同期ペイロードに protocolVersion を付与
+ */
+export const SYNC_PROTOCOL_VERSION = 2;
+
+// 受け入れ可能な最も古いバージョン（これより古いペイロードは変換せず拒否する）
+export const MIN_SYNC_PROTOCOL_VERSION = 1;
+
+// protocolVersion を含まないペイロード・ハンドシェイクに対応していないノードのバージョン
+export const LEGACY_SYNC_PROTOCOL_VERSION = 1;
+
+export type SyncProtocolRange = {
+	protocolVersion: number;
+	minProtocolVersion: number;
+};
+
+export class IncompatibleSyncProtocolError extends Error {
+	constructor(
+		readonly version: number,
+		readonly supported: SyncProtocolRange,
+	) {
+		super(
+			`同期プロトコルのバージョン ${version} には対応していません（対応範囲: ${supported.minProtocolVersion}〜${supported.protocolVersion}）。古い方のノードを更新してください`,
+		);
+		this.name = "IncompatibleSyncProtocolError";
+	}
+}
+
+export const localRange: SyncProtocolRange = {
+	protocolVersion: SYNC_PROTOCOL_VERSION,
+	minProtocolVersion: MIN_SYNC_PROTOCOL_VERSION,
+};
+
+/**
+ * ペイロード・クエリに含まれるバージョンを読み取る（含まれない場合は旧形式として扱う）
+ */
+export const resolveVersion = (value: unknown): number => {
+	const version =
+		typeof value === "string" ? Number.parseInt(value, 10) : value;
+	return typeof version === "number" && Number.isInteger(version)
+		? version
+		: LEGACY_SYNC_PROTOCOL_VERSION;
+};
+
+/**
+ * 受け取ったペイロードのバージョンが自ノードで扱えるか確認する
+ */
+export const assertSupported = (version: number): void => {
+	if (version < MIN_SYNC_PROTOCOL_VERSION || version > SYNC_PROTOCOL_VERSION) {
+		throw new IncompatibleSyncProtocolError(version, localRange);
+	}
+};
+
+/**
+ * 相手ノードの対応範囲と突き合わせ、双方が扱える最も新しいバージョンを決める
+ */
+export const negotiate = (remote: SyncProtocolRange): number => {
+	const version = Math.min(SYNC_PROTOCOL_VERSION, remote.protocolVersion);
+	if (version < MIN_SYNC_PROTOCOL_VERSION) {
+		throw new IncompatibleSyncProtocolError(remote.protocolVersion, localRange);
+	}
+	if (version < remote.minProtocolVersion) {
+		throw new IncompatibleSyncProtocolError(version, remote);
+	}
+	return version;
+};
+
+/**
+ * 旧形式の受信データを現在の形に揃える（欠けている列を既定値で補う）
+ */
+export const upgradeReceiveData = (
+	data: SyncReceiveData,
+	version: number,
+): SyncReceiveData => {
+	assertSupported(version);
+	if (version >= SYNC_PROTOCOL_VERSION) {
+		return data;
+	}
+
+	// 1 → 2: 墓標・在庫・避難者数に対応する前のノードは該当の値を送らない
+	return {
+		...data,
+		posts: (data.posts ?? []).map((post) => ({
+			...post,
+			content: post.content ?? null,
+			status: post.status ?? null,
+			deleted_at: post.deleted_at ?? null,
+		})),
+		comments: (data.comments ?? []).map((comment) => ({
+			...comment,
+			deleted_at: comment.deleted_at ?? null,
+		})),
+		locationTracks: (data.locationTracks ?? []).map((track) => ({
+			...track,
+			deleted_at: track.deleted_at ?? null,
+		})),
+		media: (data.media ?? []).map((media) => ({
+			...media,
+			file_name: media.file_name ?? null,
+			deleted_at: media.deleted_at ?? null,
+		})),
+		occupancy: data.occupancy ?? [],
+		inventoryItems: (data.inventoryItems ?? []).map((item) => ({
+			...item,
+			deleted_at: item.deleted_at ?? null,
+		})),
+		inventoryTransactions: (data.inventoryTransactions ?? []).map(
+			(transaction) => ({
+				...transaction,
+				note: transaction.note ?? null,
+				recorded_by: transaction.recorded_by ?? null,
+			}),
+		),
+		protocolVersion: SYNC_PROTOCOL_VERSION,
+	};
+};
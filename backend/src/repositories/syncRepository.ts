@@ -1,4 +1,14 @@
 import type { Database } from "../db/database";
+import {
+	type InventoryTransactionType,
+	prepareRecalculateItemQuantity,
+} from "./inventoryRepository";
+import {
+	type ConflictSource,
+	type ConflictTable,
+	decideIncomingVersion,
+	type IncomingVersionPlan,
+} from "./syncConflictRepository";
 
 // 未同期の投稿データ型
 export type UnsyncedPost = {
@@ -13,6 +23,11 @@ export type UnsyncedPost = {
 	updated_at: string;
 	is_free_chat: number;
 	status: string | null;
+	deleted_at: string | null;
+	// 競合検出に対応する前のノードからは送られてこない
+	base_updated_at?: string | null;
+	// 作成元ノードID（NULLは送信元ノード自身。中継同期に対応する前のノードからは送られてこない）
+	origin_node_id?: string | null;
 };
 
 // 未同期のコメントデータ型
@@ -24,6 +39,9 @@ export type UnsyncedComment = {
 	status: string;
 	created_at: string;
 	updated_at: string;
+	deleted_at: string | null;
+	base_updated_at?: string | null;
+	origin_node_id?: string | null;
 };
 
 // 未同期の位置情報トラックデータ型
@@ -35,6 +53,8 @@ export type UnsyncedLocationTrack = {
 	longitude: number;
 	created_at: string;
 	updated_at: string;
+	deleted_at: string | null;
+	origin_node_id?: string | null;
 };
 
 // 未同期のメディアデータ型
@@ -47,6 +67,63 @@ export type UnsyncedMedia = {
 	created_at: string;
 	updated_at: string;
 	deleted_at: string | null;
+	origin_node_id?: string | null;
+	// ファイル本体のSHA-256（記録前のメディア・対応前のノードからはnull/未送信）
+	sha256?: string | null;
+};
+
+// 未同期の避難者数記録データ型
+export type UnsyncedOccupancy = {
+	id: string;
+	shelter_id: number;
+	headcount: number;
+	recorded_at: string;
+	recorded_by: string | null;
+	created_at: string;
+	updated_at: string;
+	origin_node_id?: string | null;
+};
+
+// 未同期の在庫品目データ型（現在庫は履歴から再計算するため送らない）
+export type UnsyncedInventoryItem = {
+	id: string;
+	shelter_id: number;
+	name: string;
+	unit: string;
+	min_quantity: number;
+	created_at: string;
+	updated_at: string;
+	deleted_at: string | null;
+	origin_node_id?: string | null;
+};
+
+// 未同期の入出庫履歴データ型
+export type UnsyncedInventoryTransaction = {
+	id: string;
+	item_id: string;
+	shelter_id: number;
+	transaction_type: InventoryTransactionType;
+	quantity: number;
+	note: string | null;
+	recorded_by: string | null;
+	created_at: string;
+	updated_at: string;
+	origin_node_id?: string | null;
+};
+
+// Pull配信用の避難所データ型（本番で管理し、各ノードへ配信）
+export type SyncShelter = {
+	id: number;
+	name: string;
+	address: string | null;
+	latitude: number | null;
+	longitude: number | null;
+	capacity: number | null;
+	opening_hours: string | null;
+	status: string;
+	closed_at: string | null;
+	created_at: string;
+	updated_at: string;
 };
 
 // 同期統計型
@@ -73,13 +150,59 @@ export type SyncLog = {
 	media_synced: number;
 	error_message: string | null;
 	target_url: string | null;
+	verified_node_id: string | null;
+	batches_total: number;
+	batches_completed: number;
+	phase: SyncJobPhase | null;
+	media_files_total: number;
+	media_files_completed: number;
+	media_files_failed: number;
+	out_of_scope_records: number;
+	data_duration_ms: number;
+	media_duration_ms: number;
+	payload_bytes: number;
+	media_bytes: number;
+	upstream_requests: number;
+	upstream_latency_ms: number;
 };
 
+// 同期の所要時間・転送量の内訳（送信・取得・メディア転送のたびに同期ログへ加算する）
+export type SyncLogMetrics = {
+	dataDurationMs: number;
+	mediaDurationMs: number;
+	payloadBytes: number;
+	mediaBytes: number;
+	upstreamRequests: number;
+	upstreamLatencyMs: number;
+};
+
+// 避難所・日（UTC）ごとに集計した同期の性能指標
+export type SyncMetricsDaily = {
+	date: string;
+	shelter_id: number | null;
+	shelter_name: string | null;
+	sync_count: number;
+	failed_count: number;
+	data_duration_ms: number;
+	media_duration_ms: number;
+	payload_bytes: number;
+	media_bytes: number;
+	upstream_requests: number;
+	upstream_latency_ms: number;
+};
+
+// 同期ジョブの段階（メディアファイル → データの順に送信する）
+export type SyncJobPhase = "media" | "data" | "completed";
+
 // 同期ログと避難所情報を結合した型
 export type SyncLogWithShelter = SyncLog & {
 	shelter_name: string | null;
+	pending_failures: number;
 };
 
+// 成功した同期ログの保持期間（これより古いものは定期同期のたびに削除する）
+export const SYNC_LOG_RETENTION_DAYS = 30;
+
 // ページネーション付き同期ログ型
 export type SyncLogsPaginated = {
 	logs: SyncLogWithShelter[];
@@ -96,6 +219,10 @@ export type SyncResult = {
 	commentsSynced: number;
 	locationTracksSynced: number;
 	mediaSynced: number;
+	occupancySynced: number;
+	inventoryTransactionsSynced: number;
+	// 双方で変更されていたため反映せず競合として保存した件数
+	conflictsDetected: number;
 	errorMessage?: string;
 };
 
@@ -105,18 +232,53 @@ export type SyncReceiveData = {
 	comments: UnsyncedComment[];
 	locationTracks: UnsyncedLocationTrack[];
 	media: UnsyncedMedia[];
+	// 避難者数の記録に対応する前のノードからは送られてこない
+	occupancy?: UnsyncedOccupancy[];
+	inventoryItems?: UnsyncedInventoryItem[];
+	inventoryTransactions?: UnsyncedInventoryTransaction[];
 	sourceUrl?: string;
+	// 送信元が生成したペイロードの同期プロトコルバージョン（未送信は旧形式）
+	protocolVersion?: number;
 };
 
 // 差分Pullレスポンス型
 export type SyncPullData = {
 	serverTime: string;
+	shelters: SyncShelter[];
 	posts: UnsyncedPost[];
 	comments: UnsyncedComment[];
 	locationTracks: UnsyncedLocationTrack[];
 	media: UnsyncedMedia[];
+	inventoryItems: UnsyncedInventoryItem[];
+	inventoryTransactions: UnsyncedInventoryTransaction[];
 };
 
+// 同期済みにするレコードの版（送信した時点の updated_at）
+export type SyncedVersion = {
+	id: string;
+	updated_at: string;
+};
+
+// 差分Pullのカーソル等を保存する単位（同期先 × 範囲）
+export type SyncStateKey = {
+	target: string;
+	scope: string;
+};
+
+// 変更ログ（sync_changes）に基づく差分Pullの1ページ
+export type SyncChangePage = {
+	posts: UnsyncedPost[];
+	comments: UnsyncedComment[];
+	locationTracks: UnsyncedLocationTrack[];
+	media: UnsyncedMedia[];
+	// このページで読み終えた変更ログの seq（次回はこの次から取得する）
+	nextCursor: number;
+	hasMore: boolean;
+};
+
+// 差分Pull1ページあたりの変更ログ件数の上限（D1のバインド変数上限に合わせる）
+export const MAX_PULL_PAGE_SIZE = 100;
+
 // 避難所ごとの同期結果型
 export type ShelterSyncResult = {
 	shelterId: number;
@@ -127,34 +289,132 @@ export type ShelterSyncResult = {
 	errorMessage?: string;
 };
 
+/**
+ * Last-Writer-Wins の判定式（ON CONFLICT ... DO UPDATE の WHERE 句で使用）
+ * updated_at はISO形式と CURRENT_TIMESTAMP 形式が混在するため julianday で揃えて比較する
+ */
+const newerThanLocal = (table: string): string =>
+	`julianday(excluded.updated_at) > julianday(${table}.updated_at)`;
+
+/**
+ * 未解決の競合があるレコードIDのサブクエリ（解決するまで送信しない）
+ */
+const openConflictRecordIds = (table: ConflictTable): string =>
+	`SELECT record_id FROM sync_conflicts WHERE table_name = '${table}' AND resolved_at IS NULL`;
+
+/**
+ * 送信対象の避難所に含まれるかの条件（? には shelterScopeParam の値を2回バインドする）
+ * shelterIds が null の場合は全避難所を対象にする
+ */
+const inShelterScope = (column: string): string =>
+	`(? IS NULL OR ${column} IN (SELECT value FROM json_each(?)))`;
+
+const shelterScopeParam = (shelterIds: number[] | null): string | null =>
+	shelterIds === null ? null : JSON.stringify(shelterIds);
+
+// コメント・位置情報・メディアは投稿の避難所で判定する（投稿が手元にないものは対象外）
+const postShelterColumn = (table: string): string =>
+	`(SELECT shelter_id FROM posts WHERE posts.id = ${table}.post_id)`;
+
+// 送信対象外として残した未同期データの避難所ごとの件数
+export type SyncScopeExclusion = {
+	shelterId: number | null;
+	posts: number;
+	comments: number;
+	locationTracks: number;
+	media: number;
+	occupancy: number;
+	inventoryItems: number;
+	inventoryTransactions: number;
+};
+
+// 同期で反映した件数の集計先
+type SyncCountKey =
+	| "posts"
+	| "comments"
+	| "locationTracks"
+	| "media"
+	| "occupancy"
+	| "inventoryTransactions"
+	| "conflicts";
+
+/**
+ * 受信データを反映する書き込み1文
+ * countAs を指定した文は、行が変更された場合に反映件数として数える
+ */
+type SyncWrite = {
+	statement: D1PreparedStatement;
+	countAs?: SyncCountKey;
+};
+
+/**
+ * 受信データの反映方法
+ * - relay: 上流（本番）へ中継するノードで受信した場合は未同期のまま保存し、次回のPushで上流へ送る
+ * - senderNodeId: 作成元ノードIDが付いていないレコードの作成元（送信元ノード自身が作成したもの）
+ */
+export type SyncApplyOptions = {
+	relay: boolean;
+	senderNodeId: string | null;
+};
+
+const syncedFlag = ({ relay }: SyncApplyOptions): number => (relay ? 0 : 1);
+
+const originNodeId = (
+	record: { origin_node_id?: string | null },
+	{ senderNodeId }: SyncApplyOptions,
+): string | null => record.origin_node_id ?? senderNodeId;
+
+/**
+ * 受信で更新する同期フラグと作成元ノード（ON CONFLICT ... DO UPDATE SET で使用）
+ * 作成元は最初に受信したものを保持する
+ */
+const relayColumns = (table: string): string =>
+	`is_synced = excluded.is_synced,
+			origin_node_id = COALESCE(${table}.origin_node_id, excluded.origin_node_id)`;
+
 /**
  * 未同期の投稿を取得
  */
-async function fetchUnsyncedPosts(db: Database): Promise<UnsyncedPost[]> {
+async function fetchUnsyncedPosts(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedPost[]> {
 	const query = `
 		SELECT 
 			id, author_name, shelter_id, content, latitude, longitude,
-			posted_at, created_at, updated_at, is_free_chat, status
+			posted_at, created_at, updated_at, is_free_chat, status, deleted_at, base_updated_at, origin_node_id
 		FROM posts
-		WHERE is_synced = 0 AND deleted_at IS NULL
+		WHERE is_synced = 0
+			AND id NOT IN (${openConflictRecordIds("posts")})
+			AND ${inShelterScope("shelter_id")}
 		ORDER BY created_at ASC
 	`;
-	const result = await db.prepare(query).all<UnsyncedPost>();
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db.prepare(query).bind(scope, scope).all<UnsyncedPost>();
 	return result.results || [];
 }
 
 /**
  * 未同期のコメントを取得
  */
-async function fetchUnsyncedComments(db: Database): Promise<UnsyncedComment[]> {
+async function fetchUnsyncedComments(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedComment[]> {
 	const query = `
 		SELECT 
-			id, post_id, author_name, content, status, created_at, updated_at
+			id, post_id, author_name, content, status, created_at, updated_at, deleted_at, base_updated_at, origin_node_id
 		FROM comments
-		WHERE is_synced = 0 AND deleted_at IS NULL
+		WHERE is_synced = 0
+			AND id NOT IN (${openConflictRecordIds("comments")})
+			AND ${inShelterScope(postShelterColumn("comments"))}
 		ORDER BY created_at ASC
 	`;
-	const result = await db.prepare(query).all<UnsyncedComment>();
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedComment>();
 	return result.results || [];
 }
 
@@ -163,35 +423,205 @@ async function fetchUnsyncedComments(db: Database): Promise<UnsyncedComment[]> {
  */
 async function fetchUnsyncedLocationTracks(
 	db: Database,
+	shelterIds: number[] | null = null,
 ): Promise<UnsyncedLocationTrack[]> {
 	const query = `
 		SELECT 
-			id, post_id, recorded_at, latitude, longitude, created_at, updated_at
+			id, post_id, recorded_at, latitude, longitude, created_at, updated_at, deleted_at, origin_node_id
 		FROM post_location_tracks
-		WHERE is_synced = 0 AND deleted_at IS NULL
+		WHERE is_synced = 0
+			AND ${inShelterScope(postShelterColumn("post_location_tracks"))}
 		ORDER BY created_at ASC
 	`;
-	const result = await db.prepare(query).all<UnsyncedLocationTrack>();
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedLocationTrack>();
 	return result.results || [];
 }
 
 /**
  * 未同期のメディアを取得
  */
-async function fetchUnsyncedMedia(db: Database): Promise<UnsyncedMedia[]> {
+async function fetchUnsyncedMedia(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedMedia[]> {
 	const query = `
 		SELECT 
-			id, post_id, file_path, media_type, file_name, created_at, updated_at, deleted_at
+			id, post_id, file_path, media_type, file_name, sha256, created_at, updated_at, deleted_at, origin_node_id
 		FROM media
 		WHERE is_synced = 0 AND deleted_at IS NULL
+			AND ${inShelterScope(postShelterColumn("media"))}
+		ORDER BY created_at ASC
+	`;
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedMedia>();
+	return result.results || [];
+}
+
+/**
+ * 未同期の避難者数記録を取得
+ */
+async function fetchUnsyncedOccupancy(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedOccupancy[]> {
+	const query = `
+		SELECT 
+			id, shelter_id, headcount, recorded_at, recorded_by, created_at, updated_at, origin_node_id
+		FROM shelter_occupancy
+		WHERE is_synced = 0
+			AND ${inShelterScope("shelter_id")}
+		ORDER BY created_at ASC
+	`;
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedOccupancy>();
+	return result.results || [];
+}
+
+/**
+ * 未同期の在庫品目を取得
+ */
+async function fetchUnsyncedInventoryItems(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedInventoryItem[]> {
+	const query = `
+		SELECT 
+			id, shelter_id, name, unit, min_quantity, created_at, updated_at, deleted_at, origin_node_id
+		FROM inventory_items
+		WHERE is_synced = 0
+			AND ${inShelterScope("shelter_id")}
+		ORDER BY created_at ASC
+	`;
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedInventoryItem>();
+	return result.results || [];
+}
+
+/**
+ * 未同期の入出庫履歴を取得
+ */
+async function fetchUnsyncedInventoryTransactions(
+	db: Database,
+	shelterIds: number[] | null = null,
+): Promise<UnsyncedInventoryTransaction[]> {
+	const query = `
+		SELECT 
+			id, item_id, shelter_id, transaction_type, quantity, note, recorded_by,
+			created_at, updated_at, origin_node_id
+		FROM inventory_transactions
+		WHERE is_synced = 0
+			AND ${inShelterScope("shelter_id")}
 		ORDER BY created_at ASC
 	`;
-	const result = await db.prepare(query).all<UnsyncedMedia>();
+	const scope = shelterScopeParam(shelterIds);
+	const result = await db
+		.prepare(query)
+		.bind(scope, scope)
+		.all<UnsyncedInventoryTransaction>();
 	return result.results || [];
 }
 
 /**
- * 指定した投稿に紐づくメディアを取得（メタ同期用）
+ * 送信対象外の避難所に残っている未同期データを避難所ごとに数える
+ * （投稿が手元にないコメント等は避難所不明として shelterId を null にする）
+ */
+async function fetchOutOfScopeCounts(
+	db: Database,
+	shelterIds: number[],
+): Promise<SyncScopeExclusion[]> {
+	const sources: {
+		key: Exclude<keyof SyncScopeExclusion, "shelterId">;
+		table: string;
+		shelterColumn: string;
+		condition?: string;
+	}[] = [
+		{ key: "posts", table: "posts", shelterColumn: "shelter_id" },
+		{
+			key: "comments",
+			table: "comments",
+			shelterColumn: postShelterColumn("comments"),
+		},
+		{
+			key: "locationTracks",
+			table: "post_location_tracks",
+			shelterColumn: postShelterColumn("post_location_tracks"),
+		},
+		{
+			key: "media",
+			table: "media",
+			shelterColumn: postShelterColumn("media"),
+			condition: "deleted_at IS NULL",
+		},
+		{
+			key: "occupancy",
+			table: "shelter_occupancy",
+			shelterColumn: "shelter_id",
+		},
+		{
+			key: "inventoryItems",
+			table: "inventory_items",
+			shelterColumn: "shelter_id",
+		},
+		{
+			key: "inventoryTransactions",
+			table: "inventory_transactions",
+			shelterColumn: "shelter_id",
+		},
+	];
+	const query = sources
+		.map(
+			({ key, table, shelterColumn, condition }) => `
+		SELECT ${shelterColumn} AS shelter_id, '${key}' AS kind, COUNT(*) AS count
+		FROM ${table}
+		WHERE is_synced = 0
+			${condition ? `AND ${condition}` : ""}
+			AND COALESCE(${shelterColumn} NOT IN (SELECT value FROM json_each(?)), 1)
+		GROUP BY 1`,
+		)
+		.join("\n\t\tUNION ALL");
+	const scope = JSON.stringify(shelterIds);
+	const { results } = await db
+		.prepare(query)
+		.bind(...sources.map(() => scope))
+		.all<{
+			shelter_id: number | null;
+			kind: Exclude<keyof SyncScopeExclusion, "shelterId">;
+			count: number;
+		}>();
+
+	const grouped = new Map<number | null, SyncScopeExclusion>();
+	for (const row of results ?? []) {
+		const exclusion = grouped.get(row.shelter_id) ?? {
+			shelterId: row.shelter_id,
+			posts: 0,
+			comments: 0,
+			locationTracks: 0,
+			media: 0,
+			occupancy: 0,
+			inventoryItems: 0,
+			inventoryTransactions: 0,
+		};
+		exclusion[row.kind] += row.count;
+		grouped.set(row.shelter_id, exclusion);
+	}
+	return Array.from(grouped.values());
+}
+
+/**
+ * 指定した投稿に紐づくメディアを取得（メタ同期用、論理削除済みも含む）
  */
 async function fetchMediaByPostIds(
 	db: Database,
@@ -201,17 +631,41 @@ async function fetchMediaByPostIds(
 		return [];
 	}
 
-	const placeholders = postIds.map(() => "?").join(",");
+	// 未同期の投稿が多くてもD1のバインド変数上限を超えないよう、IDはJSON配列1つで渡す
 	const query = `
 		SELECT 
-			id, post_id, file_path, media_type, file_name, created_at, updated_at, deleted_at
+			id, post_id, file_path, media_type, file_name, sha256, created_at, updated_at, deleted_at, origin_node_id
 		FROM media
-		WHERE post_id IN (${placeholders}) AND deleted_at IS NULL
+		WHERE post_id IN (SELECT value FROM json_each(?))
 		ORDER BY created_at ASC
 	`;
 	const result = await db
 		.prepare(query)
-		.bind(...postIds)
+		.bind(JSON.stringify(postIds))
+		.all<UnsyncedMedia>();
+	return result.results || [];
+}
+
+/**
+ * 指定したIDのメディアを取得（メディア転送の再試行で使用）
+ */
+async function fetchMediaByIds(
+	db: Database,
+	mediaIds: string[],
+): Promise<UnsyncedMedia[]> {
+	if (mediaIds.length === 0) {
+		return [];
+	}
+
+	const query = `
+		SELECT 
+			id, post_id, file_path, media_type, file_name, sha256, created_at, updated_at, deleted_at, origin_node_id
+		FROM media
+		WHERE id IN (SELECT value FROM json_each(?)) AND deleted_at IS NULL
+	`;
+	const result = await db
+		.prepare(query)
+		.bind(JSON.stringify(mediaIds))
 		.all<UnsyncedMedia>();
 	return result.results || [];
 }
@@ -227,7 +681,7 @@ async function fetchPostsForPull(
 	let query = `
 		SELECT 
 			id, author_name, shelter_id, content, latitude, longitude,
-			posted_at, created_at, updated_at, is_free_chat, status
+			posted_at, created_at, updated_at, is_free_chat, status, deleted_at, base_updated_at, origin_node_id
 		FROM posts
 		WHERE shelter_id = ?
 	`;
@@ -255,7 +709,8 @@ async function fetchCommentsForPull(
 ): Promise<UnsyncedComment[]> {
 	let query = `
 		SELECT 
-			c.id, c.post_id, c.author_name, c.content, c.status, c.created_at, c.updated_at
+			c.id, c.post_id, c.author_name, c.content, c.status, c.created_at, c.updated_at, c.deleted_at,
+			c.base_updated_at, c.origin_node_id
 		FROM comments c
 		INNER JOIN posts p ON c.post_id = p.id
 		WHERE p.shelter_id = ?
@@ -284,7 +739,8 @@ async function fetchLocationTracksForPull(
 ): Promise<UnsyncedLocationTrack[]> {
 	let query = `
 		SELECT 
-			t.id, t.post_id, t.recorded_at, t.latitude, t.longitude, t.created_at, t.updated_at
+			t.id, t.post_id, t.recorded_at, t.latitude, t.longitude, t.created_at, t.updated_at, t.deleted_at,
+			t.origin_node_id
 		FROM post_location_tracks t
 		INNER JOIN posts p ON t.post_id = p.id
 		WHERE p.shelter_id = ?
@@ -313,7 +769,8 @@ async function fetchMediaForPull(
 ): Promise<UnsyncedMedia[]> {
 	let query = `
 		SELECT 
-			m.id, m.post_id, m.file_path, m.media_type, m.file_name, m.created_at, m.updated_at, m.deleted_at
+			m.id, m.post_id, m.file_path, m.media_type, m.file_name, m.sha256, m.created_at, m.updated_at, m.deleted_at,
+			m.origin_node_id
 		FROM media m
 		INNER JOIN posts p ON m.post_id = p.id
 		WHERE p.shelter_id = ?
@@ -332,21 +789,159 @@ async function fetchMediaForPull(
 	return result.results || [];
 }
 
+/**
+ * 差分Pull用: 指定IDのレコードを取得
+ */
+async function fetchRowsByIds<T>(
+	db: Database,
+	table: string,
+	columns: string,
+	ids: string[],
+): Promise<T[]> {
+	if (ids.length === 0) return [];
+
+	const placeholders = ids.map(() => "?").join(",");
+	const query = `
+		SELECT ${columns}
+		FROM ${table}
+		WHERE id IN (${placeholders})
+		ORDER BY created_at ASC
+	`;
+	const result = await db
+		.prepare(query)
+		.bind(...ids)
+		.all<T>();
+	return result.results || [];
+}
+
+/**
+ * 差分Pull用: 変更ログを cursor の次から読み、変更されたレコードの最新状態を取得
+ * 同じレコードの変更が複数あっても1件にまとめ、取得途中で中断しても nextCursor から再開できる
+ * shelterIds が null の場合は全避難所の変更を対象にする（同期先への転送で使用）
+ */
+async function fetchChangesForPull(
+	db: Database,
+	shelterIds: number[] | null,
+	cursor: number,
+	limit: number,
+): Promise<SyncChangePage> {
+	// 続きがあるかを判定するため1件多く取得する
+	const scope = shelterScopeParam(shelterIds);
+	const { results } = await db
+		.prepare(
+			`SELECT seq, table_name, record_id
+			FROM sync_changes
+			WHERE ${inShelterScope("shelter_id")} AND seq > ?
+			ORDER BY seq ASC
+			LIMIT ?`,
+		)
+		.bind(scope, scope, cursor, limit + 1)
+		.all<{ seq: number; table_name: string; record_id: string }>();
+
+	const changes = (results || []).slice(0, limit);
+	const idsByTable = new Map<string, Set<string>>();
+	for (const change of changes) {
+		const ids = idsByTable.get(change.table_name) ?? new Set<string>();
+		ids.add(change.record_id);
+		idsByTable.set(change.table_name, ids);
+	}
+	const idsOf = (table: string) => [...(idsByTable.get(table) ?? [])];
+
+	const [posts, comments, locationTracks, media] = await Promise.all([
+		fetchRowsByIds<UnsyncedPost>(
+			db,
+			"posts",
+			`id, author_name, shelter_id, content, latitude, longitude,
+			posted_at, created_at, updated_at, is_free_chat, status, deleted_at, base_updated_at, origin_node_id`,
+			idsOf("posts"),
+		),
+		fetchRowsByIds<UnsyncedComment>(
+			db,
+			"comments",
+			"id, post_id, author_name, content, status, created_at, updated_at, deleted_at, base_updated_at, origin_node_id",
+			idsOf("comments"),
+		),
+		fetchRowsByIds<UnsyncedLocationTrack>(
+			db,
+			"post_location_tracks",
+			"id, post_id, recorded_at, latitude, longitude, created_at, updated_at, deleted_at, origin_node_id",
+			idsOf("post_location_tracks"),
+		),
+		fetchRowsByIds<UnsyncedMedia>(
+			db,
+			"media",
+			"id, post_id, file_path, media_type, file_name, sha256, created_at, updated_at, deleted_at, origin_node_id",
+			idsOf("media"),
+		),
+	]);
+
+	return {
+		posts,
+		comments,
+		locationTracks,
+		media,
+		nextCursor: changes.length > 0 ? changes[changes.length - 1].seq : cursor,
+		hasMore: (results || []).length > limit,
+	};
+}
+
+/**
+ * 変更ログのうち、カーソルを進めた範囲（fromCursor より後 toCursor まで）にある送信対象外の避難所の変更件数
+ * 同期先への転送で送らなかった変更の記録に使う
+ */
+async function countChangesOutOfScope(
+	db: Database,
+	shelterIds: number[],
+	fromCursor: number,
+	toCursor: number,
+): Promise<number> {
+	const row = await db
+		.prepare(
+			`SELECT COUNT(*) AS count
+			FROM sync_changes
+			WHERE seq > ? AND seq <= ?
+				AND (shelter_id IS NULL OR shelter_id NOT IN (SELECT value FROM json_each(?)))`,
+		)
+		.bind(fromCursor, toCursor, JSON.stringify(shelterIds))
+		.first<{ count: number }>();
+	return row?.count ?? 0;
+}
+
+/**
+ * 送信した版だけを同期済みにする
+ * 送信中に編集されたレコードは updated_at が変わっているため更新せず、次回の同期で送り直す
+ */
+async function markVersionsAsSynced(
+	db: Database,
+	table: string,
+	versions: SyncedVersion[],
+	{ updateBase }: { updateBase: boolean },
+): Promise<void> {
+	if (versions.length === 0) return;
+
+	// 送信した版を同期相手と一致した版として記録する（競合検出の基準）
+	const query = updateBase
+		? `UPDATE ${table} SET is_synced = 1, base_updated_at = ? WHERE id = ? AND updated_at = ?`
+		: `UPDATE ${table} SET is_synced = 1 WHERE id = ? AND updated_at = ?`;
+	await db.batch(
+		versions.map((version) =>
+			updateBase
+				? db
+						.prepare(query)
+						.bind(version.updated_at, version.id, version.updated_at)
+				: db.prepare(query).bind(version.id, version.updated_at),
+		),
+	);
+}
+
 /**
  * 投稿の同期フラグを更新
  */
 async function markPostsAsSynced(
 	db: Database,
-	postIds: string[],
+	posts: SyncedVersion[],
 ): Promise<void> {
-	if (postIds.length === 0) return;
-
-	const placeholders = postIds.map(() => "?").join(",");
-	const query = `UPDATE posts SET is_synced = 1, updated_at = CURRENT_TIMESTAMP WHERE id IN (${placeholders})`;
-	await db
-		.prepare(query)
-		.bind(...postIds)
-		.run();
+	await markVersionsAsSynced(db, "posts", posts, { updateBase: true });
 }
 
 /**
@@ -354,16 +949,9 @@ async function markPostsAsSynced(
  */
 async function markCommentsAsSynced(
 	db: Database,
-	commentIds: string[],
+	comments: SyncedVersion[],
 ): Promise<void> {
-	if (commentIds.length === 0) return;
-
-	const placeholders = commentIds.map(() => "?").join(",");
-	const query = `UPDATE comments SET is_synced = 1, updated_at = CURRENT_TIMESTAMP WHERE id IN (${placeholders})`;
-	await db
-		.prepare(query)
-		.bind(...commentIds)
-		.run();
+	await markVersionsAsSynced(db, "comments", comments, { updateBase: true });
 }
 
 /**
@@ -371,44 +959,354 @@ async function markCommentsAsSynced(
  */
 async function markLocationTracksAsSynced(
 	db: Database,
-	trackIds: string[],
+	tracks: SyncedVersion[],
 ): Promise<void> {
-	if (trackIds.length === 0) return;
-
-	const placeholders = trackIds.map(() => "?").join(",");
-	const query = `UPDATE post_location_tracks SET is_synced = 1, updated_at = CURRENT_TIMESTAMP WHERE id IN (${placeholders})`;
-	await db
-		.prepare(query)
-		.bind(...trackIds)
-		.run();
+	await markVersionsAsSynced(db, "post_location_tracks", tracks, {
+		updateBase: false,
+	});
 }
 
 async function markMediaAsSynced(
 	db: Database,
-	mediaIds: string[],
+	media: SyncedVersion[],
+): Promise<void> {
+	await markVersionsAsSynced(db, "media", media, { updateBase: false });
+}
+
+/**
+ * 避難者数記録の同期フラグを更新
+ */
+async function markOccupancyAsSynced(
+	db: Database,
+	occupancy: SyncedVersion[],
 ): Promise<void> {
-	if (mediaIds.length === 0) return;
+	await markVersionsAsSynced(db, "shelter_occupancy", occupancy, {
+		updateBase: false,
+	});
+}
 
-	const placeholders = mediaIds.map(() => "?").join(",");
-	const query = `UPDATE media SET is_synced = 1, updated_at = CURRENT_TIMESTAMP WHERE id IN (${placeholders})`;
-	await db
+/**
+ * 在庫品目の同期フラグを更新
+ */
+async function markInventoryItemsAsSynced(
+	db: Database,
+	items: SyncedVersion[],
+): Promise<void> {
+	await markVersionsAsSynced(db, "inventory_items", items, {
+		updateBase: false,
+	});
+}
+
+/**
+ * 入出庫履歴の同期フラグを更新
+ */
+async function markInventoryTransactionsAsSynced(
+	db: Database,
+	transactions: SyncedVersion[],
+): Promise<void> {
+	await markVersionsAsSynced(db, "inventory_transactions", transactions, {
+		updateBase: false,
+	});
+}
+
+/**
+ * 差分Pull用: 在庫品目を取得
+ */
+async function fetchInventoryItemsForPull(
+	db: Database,
+	shelterId: number,
+	since?: string | null,
+): Promise<UnsyncedInventoryItem[]> {
+	let query = `
+		SELECT
+			id, shelter_id, name, unit, min_quantity, created_at, updated_at, deleted_at, origin_node_id
+		FROM inventory_items
+		WHERE shelter_id = ?
+	`;
+	const params: Array<string | number> = [shelterId];
+	if (since) {
+		query += " AND datetime(updated_at) > datetime(?)";
+		params.push(since);
+	}
+	query += " ORDER BY updated_at ASC";
+
+	const result = await db
+		.prepare(query)
+		.bind(...params)
+		.all<UnsyncedInventoryItem>();
+	return result.results || [];
+}
+
+/**
+ * 差分Pull用: 入出庫履歴を取得
+ */
+async function fetchInventoryTransactionsForPull(
+	db: Database,
+	shelterId: number,
+	since?: string | null,
+): Promise<UnsyncedInventoryTransaction[]> {
+	let query = `
+		SELECT
+			id, item_id, shelter_id, transaction_type, quantity, note, recorded_by,
+			created_at, updated_at, origin_node_id
+		FROM inventory_transactions
+		WHERE shelter_id = ?
+	`;
+	const params: Array<string | number> = [shelterId];
+	if (since) {
+		query += " AND datetime(updated_at) > datetime(?)";
+		params.push(since);
+	}
+	query += " ORDER BY updated_at ASC";
+
+	const result = await db
+		.prepare(query)
+		.bind(...params)
+		.all<UnsyncedInventoryTransaction>();
+	return result.results || [];
+}
+
+/**
+ * 在庫品目をupsertする文（Push受信・差分Pullの両方で使用、updated_at の新しい方を採用）
+ */
+function prepareInventoryItemUpsert(
+	db: Database,
+	item: UnsyncedInventoryItem,
+	options: SyncApplyOptions,
+): D1PreparedStatement {
+	const query = `
+		INSERT INTO inventory_items (
+			id, shelter_id, name, unit, quantity, min_quantity,
+			created_at, updated_at, deleted_at, is_synced, origin_node_id
+		) VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO UPDATE SET
+			name = excluded.name,
+			unit = excluded.unit,
+			min_quantity = excluded.min_quantity,
+			updated_at = excluded.updated_at,
+			deleted_at = excluded.deleted_at,
+			${relayColumns("inventory_items")}
+		WHERE ${newerThanLocal("inventory_items")}
+	`;
+	return db
+		.prepare(query)
+		.bind(
+			item.id,
+			item.shelter_id,
+			item.name,
+			item.unit,
+			item.min_quantity,
+			item.created_at,
+			item.updated_at,
+			item.deleted_at,
+			syncedFlag(options),
+			originNodeId(item, options),
+		);
+}
+
+/**
+ * 入出庫履歴を挿入する文（重複・品目が存在しない履歴はスキップ）
+ * 品目は同じバッチで先に反映されたものも含めて存在を確認する
+ */
+function prepareInventoryTransactionInsert(
+	db: Database,
+	transaction: UnsyncedInventoryTransaction,
+	options: SyncApplyOptions,
+): D1PreparedStatement {
+	const query = `
+		INSERT INTO inventory_transactions (
+			id, item_id, shelter_id, transaction_type, quantity, note, recorded_by,
+			created_at, updated_at, is_synced, origin_node_id
+		)
+		SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+		WHERE EXISTS (SELECT 1 FROM inventory_items WHERE id = ?)
+		ON CONFLICT(id) DO NOTHING
+	`;
+	return db
+		.prepare(query)
+		.bind(
+			transaction.id,
+			transaction.item_id,
+			transaction.shelter_id,
+			transaction.transaction_type,
+			transaction.quantity,
+			transaction.note,
+			transaction.recorded_by,
+			transaction.created_at,
+			transaction.updated_at,
+			syncedFlag(options),
+			originNodeId(transaction, options),
+			transaction.item_id,
+		);
+}
+
+/**
+ * 在庫品目・入出庫履歴を反映し、履歴を受信した品目の現在庫を再計算する書き込み
+ */
+function prepareInventoryWrites(
+	db: Database,
+	items: UnsyncedInventoryItem[],
+	transactions: UnsyncedInventoryTransaction[],
+	options: SyncApplyOptions,
+): SyncWrite[] {
+	const itemIds = new Set(transactions.map((t) => t.item_id));
+	return [
+		...items.map((item) => ({
+			statement: prepareInventoryItemUpsert(db, item, options),
+		})),
+		...transactions.map((transaction) => ({
+			statement: prepareInventoryTransactionInsert(db, transaction, options),
+			countAs: "inventoryTransactions" as const,
+		})),
+		...[...itemIds].map((itemId) => ({
+			statement: prepareRecalculateItemQuantity(db, itemId),
+		})),
+	];
+}
+
+/**
+ * 書き込みを1つのD1バッチ（トランザクション）で実行する
+ * 途中の文が失敗するとバッチ全体がロールバックされるため、一部だけ反映されることはない
+ * @returns 集計先ごとの反映件数
+ */
+async function runSyncWrites(
+	db: Database,
+	writes: SyncWrite[],
+): Promise<Record<SyncCountKey, number>> {
+	const counts: Record<SyncCountKey, number> = {
+		posts: 0,
+		comments: 0,
+		locationTracks: 0,
+		media: 0,
+		occupancy: 0,
+		inventoryTransactions: 0,
+		conflicts: 0,
+	};
+	if (writes.length === 0) {
+		return counts;
+	}
+
+	const results = await db.batch(writes.map((write) => write.statement));
+	for (const [index, result] of results.entries()) {
+		const countAs = writes[index].countAs;
+		if (countAs && result.meta.changes > 0) {
+			counts[countAs]++;
+		}
+	}
+	return counts;
+}
+
+/**
+ * 差分Pull用: 避難所を取得（避難所情報は全ノード共通のため避難所IDで絞り込まない）
+ */
+async function fetchSheltersForPull(
+	db: Database,
+	since?: string | null,
+): Promise<SyncShelter[]> {
+	let query = `
+		SELECT
+			id, name, address, latitude, longitude, capacity, opening_hours,
+			status, closed_at, created_at, updated_at
+		FROM shelters
+	`;
+	const params: string[] = [];
+	if (since) {
+		// since はISO形式のため、CURRENT_TIMESTAMP 形式の updated_at と揃えて比較する
+		query += " WHERE datetime(updated_at) > datetime(?)";
+		params.push(since);
+	}
+	query += " ORDER BY updated_at ASC";
+
+	const result = await db
+		.prepare(query)
+		.bind(...params)
+		.all<SyncShelter>();
+	return result.results || [];
+}
+
+/**
+ * 差分Pull用: 避難所をupsertする文
+ */
+function prepareShelterUpsert(
+	db: Database,
+	shelter: SyncShelter,
+): D1PreparedStatement {
+	const query = `
+		INSERT INTO shelters (
+			id, name, address, latitude, longitude, capacity, opening_hours,
+			status, closed_at, created_at, updated_at
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO UPDATE SET
+			name = excluded.name,
+			address = excluded.address,
+			latitude = excluded.latitude,
+			longitude = excluded.longitude,
+			capacity = excluded.capacity,
+			opening_hours = excluded.opening_hours,
+			status = excluded.status,
+			closed_at = excluded.closed_at,
+			updated_at = excluded.updated_at
+	`;
+	return db
 		.prepare(query)
-		.bind(...mediaIds)
-		.run();
+		.bind(
+			shelter.id,
+			shelter.name,
+			shelter.address,
+			shelter.latitude,
+			shelter.longitude,
+			shelter.capacity,
+			shelter.opening_hours,
+			shelter.status,
+			shelter.closed_at,
+			shelter.created_at,
+			shelter.updated_at,
+		);
 }
 
 /**
- * 差分Pull用: 投稿をupsert
+ * 競合判定の結果に応じた ON CONFLICT ... DO UPDATE の WHERE 句
+ * 送信元が手元の最新版を元に変更している場合は無条件に上書きする
+ */
+const upsertCondition = (
+	table: ConflictTable,
+	decision: "apply" | "last_writer_wins",
+): string => (decision === "apply" ? "" : `WHERE ${newerThanLocal(table)}`);
+
+/**
+ * 競合判定に伴う sync_conflicts への書き込み（競合を保存した文は競合件数として数える）
+ */
+const conflictWrites = ({
+	decision,
+	statements,
+}: IncomingVersionPlan): SyncWrite[] =>
+	statements.map((statement) => ({
+		statement,
+		countAs: decision === "conflict" ? "conflicts" : undefined,
+	}));
+
+/**
+ * 投稿をupsertする書き込み（Push受信・差分Pullの両方で使用）
+ * 双方で変更されていれば競合として保存し、それ以外は deleted_at の墓標も含めて反映する
  */
-async function upsertPostFromPull(
+async function preparePostWrites(
 	db: Database,
 	post: UnsyncedPost,
-): Promise<void> {
+	source: ConflictSource,
+	options: SyncApplyOptions,
+): Promise<SyncWrite[]> {
+	const plan = await decideIncomingVersion(db, "posts", post, source);
+	const writes = conflictWrites(plan);
+	if (plan.decision === "skip" || plan.decision === "conflict") {
+		return writes;
+	}
+
 	const query = `
 		INSERT INTO posts (
 			id, author_name, shelter_id, content, latitude, longitude,
-			posted_at, created_at, updated_at, is_free_chat, status, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
+			posted_at, created_at, updated_at, is_free_chat, status, deleted_at,
+			base_updated_at, is_synced, origin_node_id
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		ON CONFLICT(id) DO UPDATE SET
 			author_name = excluded.author_name,
 			shelter_id = excluded.shelter_id,
@@ -419,46 +1317,65 @@ async function upsertPostFromPull(
 			updated_at = excluded.updated_at,
 			is_free_chat = excluded.is_free_chat,
 			status = excluded.status,
-			is_synced = 1
+			deleted_at = excluded.deleted_at,
+			base_updated_at = excluded.base_updated_at,
+			${relayColumns("posts")}
+		${upsertCondition("posts", plan.decision)}
 	`;
-	await db
-		.prepare(query)
-		.bind(
-			post.id,
-			post.author_name,
-			post.shelter_id,
-			post.content,
-			post.latitude,
-			post.longitude,
-			post.posted_at,
-			post.created_at,
-			post.updated_at,
-			post.is_free_chat,
-			post.status,
-		)
-		.run();
+	const statement = db.prepare(query).bind(
+		post.id,
+		post.author_name,
+		post.shelter_id,
+		post.content,
+		post.latitude,
+		post.longitude,
+		post.posted_at,
+		post.created_at,
+		post.updated_at,
+		post.is_free_chat,
+		post.status,
+		// 墓標に対応する前のノードからは deleted_at が送られてこない
+		post.deleted_at ?? null,
+		// 反映した版を同期相手と一致した版として記録する
+		post.updated_at,
+		syncedFlag(options),
+		originNodeId(post, options),
+	);
+	return [...writes, { statement, countAs: "posts" }];
 }
 
 /**
- * 差分Pull用: コメントをupsert
+ * コメントをupsertする書き込み（Push受信・差分Pullの両方で使用、競合判定は投稿と同じ）
  */
-async function upsertCommentFromPull(
+async function prepareCommentWrites(
 	db: Database,
 	comment: UnsyncedComment,
-): Promise<void> {
+	source: ConflictSource,
+	options: SyncApplyOptions,
+): Promise<SyncWrite[]> {
+	const plan = await decideIncomingVersion(db, "comments", comment, source);
+	const writes = conflictWrites(plan);
+	if (plan.decision === "skip" || plan.decision === "conflict") {
+		return writes;
+	}
+
 	const query = `
 		INSERT INTO comments (
-			id, post_id, author_name, content, status, created_at, updated_at, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+			id, post_id, author_name, content, status, created_at, updated_at, deleted_at,
+			base_updated_at, is_synced, origin_node_id
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		ON CONFLICT(id) DO UPDATE SET
 			post_id = excluded.post_id,
 			author_name = excluded.author_name,
 			content = excluded.content,
 			status = excluded.status,
 			updated_at = excluded.updated_at,
-			is_synced = 1
+			deleted_at = excluded.deleted_at,
+			base_updated_at = excluded.base_updated_at,
+			${relayColumns("comments")}
+		${upsertCondition("comments", plan.decision)}
 	`;
-	await db
+	const statement = db
 		.prepare(query)
 		.bind(
 			comment.id,
@@ -468,30 +1385,38 @@ async function upsertCommentFromPull(
 			comment.status,
 			comment.created_at,
 			comment.updated_at,
-		)
-		.run();
+			comment.deleted_at ?? null,
+			comment.updated_at,
+			syncedFlag(options),
+			originNodeId(comment, options),
+		);
+	return [...writes, { statement, countAs: "comments" }];
 }
 
 /**
- * 差分Pull用: 位置情報トラックをupsert
+ * 位置情報トラックをupsertする文（Push受信・差分Pullの両方で使用、updated_at の新しい方を採用）
  */
-async function upsertLocationTrackFromPull(
+function prepareLocationTrackUpsert(
 	db: Database,
 	track: UnsyncedLocationTrack,
-): Promise<void> {
+	options: SyncApplyOptions,
+): D1PreparedStatement {
 	const query = `
 		INSERT INTO post_location_tracks (
-			id, post_id, recorded_at, latitude, longitude, created_at, updated_at, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+			id, post_id, recorded_at, latitude, longitude, created_at, updated_at, deleted_at,
+			is_synced, origin_node_id
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 		ON CONFLICT(id) DO UPDATE SET
 			post_id = excluded.post_id,
 			recorded_at = excluded.recorded_at,
 			latitude = excluded.latitude,
 			longitude = excluded.longitude,
 			updated_at = excluded.updated_at,
-			is_synced = 1
+			deleted_at = excluded.deleted_at,
+			${relayColumns("post_location_tracks")}
+		WHERE ${newerThanLocal("post_location_tracks")}
 	`;
-	await db
+	return db
 		.prepare(query)
 		.bind(
 			track.id,
@@ -501,32 +1426,40 @@ async function upsertLocationTrackFromPull(
 			track.longitude,
 			track.created_at,
 			track.updated_at,
-		)
-		.run();
+			track.deleted_at ?? null,
+			syncedFlag(options),
+			originNodeId(track, options),
+		);
 }
 
 /**
- * 差分Pull用: メディアをupsert
+ * メディアをupsertする文（Push受信・差分Pullの両方で使用、updated_at の新しい方を採用）
+ * 投稿が存在しない場合はスキップする（同じバッチで先に反映された投稿も含めて確認する）
  */
-async function upsertMediaFromPull(
+function prepareMediaUpsert(
 	db: Database,
 	media: UnsyncedMedia,
-): Promise<void> {
+	options: SyncApplyOptions,
+): D1PreparedStatement {
 	const query = `
 		INSERT INTO media (
-			id, post_id, file_path, media_type, file_name,
-			created_at, updated_at, deleted_at, url, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, 1)
+			id, post_id, file_path, media_type, file_name, sha256,
+			created_at, updated_at, deleted_at, url, is_synced, origin_node_id
+		)
+		SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?, ?
+		WHERE EXISTS (SELECT 1 FROM posts WHERE id = ?)
 		ON CONFLICT(id) DO UPDATE SET
 			post_id = excluded.post_id,
 			file_path = excluded.file_path,
 			media_type = excluded.media_type,
 			file_name = excluded.file_name,
+			sha256 = COALESCE(excluded.sha256, media.sha256),
 			updated_at = excluded.updated_at,
 			deleted_at = excluded.deleted_at,
-			is_synced = 1
+			${relayColumns("media")}
+		WHERE ${newerThanLocal("media")}
 	`;
-	await db
+	return db
 		.prepare(query)
 		.bind(
 			media.id,
@@ -534,43 +1467,76 @@ async function upsertMediaFromPull(
 			media.file_path,
 			media.media_type,
 			media.file_name,
+			media.sha256 ?? null,
 			media.created_at,
 			media.updated_at,
-			media.deleted_at,
-		)
-		.run();
+			media.deleted_at ?? null,
+			syncedFlag(options),
+			originNodeId(media, options),
+			media.post_id,
+		);
 }
 
 /**
  * 差分PullデータをローカルDBに適用
+ * 1ページ分を1つのD1バッチで反映し、失敗した場合は何も反映しない
  */
 async function applyPulledData(
 	db: Database,
 	data: SyncPullData,
+	options: SyncApplyOptions,
 ): Promise<{
+	sheltersApplied: number;
 	postsApplied: number;
 	commentsApplied: number;
 	locationTracksApplied: number;
 	mediaApplied: number;
+	inventoryItemsApplied: number;
+	inventoryTransactionsApplied: number;
+	conflictsDetected: number;
 }> {
+	// 投稿が参照する避難所を先に反映する
+	const writes: SyncWrite[] = data.shelters.map((shelter) => ({
+		statement: prepareShelterUpsert(db, shelter),
+	}));
 	for (const post of data.posts) {
-		await upsertPostFromPull(db, post);
+		writes.push(...(await preparePostWrites(db, post, "pull", options)));
 	}
 	for (const comment of data.comments) {
-		await upsertCommentFromPull(db, comment);
+		writes.push(...(await prepareCommentWrites(db, comment, "pull", options)));
 	}
 	for (const track of data.locationTracks) {
-		await upsertLocationTrackFromPull(db, track);
+		writes.push({
+			statement: prepareLocationTrackUpsert(db, track, options),
+			countAs: "locationTracks",
+		});
 	}
 	for (const media of data.media) {
-		await upsertMediaFromPull(db, media);
+		writes.push({
+			statement: prepareMediaUpsert(db, media, options),
+			countAs: "media",
+		});
 	}
+	writes.push(
+		...prepareInventoryWrites(
+			db,
+			data.inventoryItems,
+			data.inventoryTransactions,
+			options,
+		),
+	);
+
+	const counts = await runSyncWrites(db, writes);
 
 	return {
-		postsApplied: data.posts.length,
-		commentsApplied: data.comments.length,
-		locationTracksApplied: data.locationTracks.length,
-		mediaApplied: data.media.length,
+		sheltersApplied: data.shelters.length,
+		postsApplied: counts.posts,
+		commentsApplied: counts.comments,
+		locationTracksApplied: counts.locationTracks,
+		mediaApplied: counts.media,
+		inventoryItemsApplied: data.inventoryItems.length,
+		inventoryTransactionsApplied: counts.inventoryTransactions,
+		conflictsDetected: counts.conflicts,
 	};
 }
 
@@ -579,12 +1545,12 @@ async function applyPulledData(
  */
 async function getLastPulledAt(
 	db: Database,
-	scopeKey: string,
+	key: SyncStateKey,
 ): Promise<string | null> {
-	const query = `SELECT last_pulled_at FROM sync_state WHERE scope_key = ?`;
+	const query = `SELECT last_pulled_at FROM sync_state WHERE target_key = ? AND scope = ?`;
 	const result = await db
 		.prepare(query)
-		.bind(scopeKey)
+		.bind(key.target, key.scope)
 		.first<{ last_pulled_at: string }>();
 	return result?.last_pulled_at ?? null;
 }
@@ -594,26 +1560,112 @@ async function getLastPulledAt(
  */
 async function setLastPulledAt(
 	db: Database,
-	scopeKey: string,
+	key: SyncStateKey,
 	lastPulledAt: string,
 ): Promise<void> {
 	const query = `
-		INSERT INTO sync_state (scope_key, last_pulled_at)
-		VALUES (?, ?)
-		ON CONFLICT(scope_key) DO UPDATE SET
+		INSERT INTO sync_state (target_key, scope, last_pulled_at)
+		VALUES (?, ?, ?)
+		ON CONFLICT(target_key, scope) DO UPDATE SET
 			last_pulled_at = excluded.last_pulled_at
 	`;
-	await db.prepare(query).bind(scopeKey, lastPulledAt).run();
+	await db.prepare(query).bind(key.target, key.scope, lastPulledAt).run();
+}
+
+/**
+ * 取り込み済み（転送済み）の変更ログ seq を取得
+ */
+async function getPullCursor(db: Database, key: SyncStateKey): Promise<number> {
+	const query = `SELECT change_cursor FROM sync_state WHERE target_key = ? AND scope = ?`;
+	const result = await db
+		.prepare(query)
+		.bind(key.target, key.scope)
+		.first<{ change_cursor: number }>();
+	return result?.change_cursor ?? 0;
+}
+
+/**
+ * 取り込み済み（転送済み）の変更ログ seq を更新（ページを反映するたびに呼ぶ）
+ */
+async function setPullCursor(
+	db: Database,
+	key: SyncStateKey,
+	cursor: number,
+): Promise<void> {
+	const query = `
+		INSERT INTO sync_state (target_key, scope, change_cursor)
+		VALUES (?, ?, ?)
+		ON CONFLICT(target_key, scope) DO UPDATE SET
+			change_cursor = excluded.change_cursor
+	`;
+	await db.prepare(query).bind(key.target, key.scope, cursor).run();
+}
+
+// 同期ロックの有効期限（実行中のWorkerが異常終了してもロックが残り続けないようにする）
+// 定期同期は段階ごとに延長するため、1つの段階がこの時間に収まればよい
+const SYNC_LOCK_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * 同期ロックを取得（手動同期と定期同期が同時に実行されないようにする）
+ * 取得できた場合はロックの保持者IDを返し、他の同期が実行中の場合は null を返す
+ */
+async function acquireSyncLock(
+	db: Database,
+	kind: "manual" | "scheduled",
+): Promise<string | null> {
+	const holder = `${kind}:${crypto.randomUUID()}`;
+	const now = new Date();
+	const query = `
+		INSERT INTO sync_locks (name, holder, acquired_at, expires_at)
+		VALUES ('sync', ?, ?, ?)
+		ON CONFLICT(name) DO UPDATE SET
+			holder = excluded.holder,
+			acquired_at = excluded.acquired_at,
+			expires_at = excluded.expires_at
+		WHERE sync_locks.expires_at <= excluded.acquired_at
+	`;
+	const result = await db
+		.prepare(query)
+		.bind(
+			holder,
+			now.toISOString(),
+			new Date(now.getTime() + SYNC_LOCK_TTL_MS).toISOString(),
+		)
+		.run();
+	return (result.meta.changes ?? 0) > 0 ? holder : null;
+}
+
+/**
+ * 同期ロックの有効期限を延長（保持者が一致する場合のみ。他の同期に取られていれば false）
+ */
+async function renewSyncLock(db: Database, holder: string): Promise<boolean> {
+	const result = await db
+		.prepare(
+			`UPDATE sync_locks SET expires_at = ? WHERE name = 'sync' AND holder = ?`,
+		)
+		.bind(new Date(Date.now() + SYNC_LOCK_TTL_MS).toISOString(), holder)
+		.run();
+	return (result.meta.changes ?? 0) > 0;
+}
+
+/**
+ * 同期ロックを解放（保持者が一致する場合のみ）
+ */
+async function releaseSyncLock(db: Database, holder: string): Promise<void> {
+	await db
+		.prepare(`DELETE FROM sync_locks WHERE name = 'sync' AND holder = ?`)
+		.bind(holder)
+		.run();
 }
 
 /**
  * 同期統計を取得
  */
 async function getSyncStats(db: Database): Promise<SyncStats> {
-	// 未同期件数を取得
-	const postsCountQuery = `SELECT COUNT(*) as count FROM posts WHERE is_synced = 0 AND deleted_at IS NULL`;
-	const commentsCountQuery = `SELECT COUNT(*) as count FROM comments WHERE is_synced = 0 AND deleted_at IS NULL`;
-	const tracksCountQuery = `SELECT COUNT(*) as count FROM post_location_tracks WHERE is_synced = 0 AND deleted_at IS NULL`;
+	// 未同期件数を取得（未送信の削除も件数に含める）
+	const postsCountQuery = `SELECT COUNT(*) as count FROM posts WHERE is_synced = 0`;
+	const commentsCountQuery = `SELECT COUNT(*) as count FROM comments WHERE is_synced = 0`;
+	const tracksCountQuery = `SELECT COUNT(*) as count FROM post_location_tracks WHERE is_synced = 0`;
 
 	// 最新の同期ログを取得
 	const lastSyncQuery = `
@@ -654,14 +1706,15 @@ async function createSyncLog(
 	syncType: string,
 	targetUrl: string,
 	shelterId?: number | null,
+	verifiedNodeId?: string | null,
 ): Promise<number> {
 	const query = `
-		INSERT INTO sync_logs (shelter_id, sync_type, status, target_url)
-		VALUES (?, ?, 'in_progress', ?)
+		INSERT INTO sync_logs (shelter_id, sync_type, status, target_url, verified_node_id)
+		VALUES (?, ?, 'in_progress', ?, ?)
 	`;
 	const result = await db
 		.prepare(query)
-		.bind(shelterId || null, syncType, targetUrl)
+		.bind(shelterId || null, syncType, targetUrl, verifiedNodeId || null)
 		.run();
 	return result.meta.last_row_id as number;
 }
@@ -712,210 +1765,431 @@ async function failSyncLog(
 }
 
 /**
- * 投稿を挿入（本番側で使用、重複スキップ）
+ * 分割送信のバッチ総数を記録
  */
-async function insertPostIfNotExists(
+async function startSyncLogBatches(
 	db: Database,
-	post: UnsyncedPost,
-): Promise<boolean> {
-	// 既存チェック
-	const existsQuery = `SELECT id FROM posts WHERE id = ?`;
-	const exists = await db.prepare(existsQuery).bind(post.id).first();
-	if (exists) {
-		return false; // 既に存在
-	}
+	logId: number,
+	batchesTotal: number,
+): Promise<void> {
+	const query = `UPDATE sync_logs SET batches_total = ?, batches_completed = 0 WHERE id = ?`;
+	await db.prepare(query).bind(batchesTotal, logId).run();
+}
 
-	const insertQuery = `
-		INSERT INTO posts (
-			id, author_name, shelter_id, content, latitude, longitude,
-			posted_at, created_at, updated_at, is_free_chat, status, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
-	`;
+/**
+ * 同期ジョブの段階を更新
+ */
+async function setSyncLogPhase(
+	db: Database,
+	logId: number,
+	phase: SyncJobPhase,
+): Promise<void> {
 	await db
-		.prepare(insertQuery)
-		.bind(
-			post.id,
-			post.author_name,
-			post.shelter_id,
-			post.content,
-			post.latitude,
-			post.longitude,
-			post.posted_at,
-			post.created_at,
-			post.updated_at,
-			post.is_free_chat,
-			post.status,
-		)
+		.prepare(`UPDATE sync_logs SET phase = ? WHERE id = ?`)
+		.bind(phase, logId)
 		.run();
-	return true;
 }
 
 /**
- * コメントを挿入（本番側で使用、重複スキップ）
+ * 送信対象外として送らなかった未同期データの件数を記録
  */
-async function insertCommentIfNotExists(
+async function recordSyncLogOutOfScope(
 	db: Database,
-	comment: UnsyncedComment,
-): Promise<boolean> {
-	// 既存チェック
-	const existsQuery = `SELECT id FROM comments WHERE id = ?`;
-	const exists = await db.prepare(existsQuery).bind(comment.id).first();
-	if (exists) {
-		return false;
-	}
+	logId: number,
+	count: number,
+): Promise<void> {
+	await db
+		.prepare(`UPDATE sync_logs SET out_of_scope_records = ? WHERE id = ?`)
+		.bind(count, logId)
+		.run();
+}
 
-	const insertQuery = `
-		INSERT INTO comments (
-			id, post_id, author_name, content, status, created_at, updated_at, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+/**
+ * 同期ジョブのメディアファイル送信の進捗を記録
+ */
+async function recordSyncLogMediaProgress(
+	db: Database,
+	logId: number,
+	progress: { total: number; completed: number; failed: number },
+): Promise<void> {
+	const query = `
+		UPDATE sync_logs
+		SET media_files_total = ?,
+			media_files_completed = ?,
+			media_files_failed = ?
+		WHERE id = ?
 	`;
 	await db
-		.prepare(insertQuery)
-		.bind(
-			comment.id,
-			comment.post_id,
-			comment.author_name,
-			comment.content,
-			comment.status,
-			comment.created_at,
-			comment.updated_at,
-		)
+		.prepare(query)
+		.bind(progress.total, progress.completed, progress.failed, logId)
 		.run();
-	return true;
 }
 
 /**
- * 位置情報トラックを挿入（本番側で使用、重複スキップ）
+ * 同期の所要時間・転送量を同期ログに加算する
  */
-async function insertLocationTrackIfNotExists(
+async function addSyncLogMetrics(
 	db: Database,
-	track: UnsyncedLocationTrack,
-): Promise<boolean> {
-	// 既存チェック
-	const existsQuery = `SELECT id FROM post_location_tracks WHERE id = ?`;
-	const exists = await db.prepare(existsQuery).bind(track.id).first();
-	if (exists) {
-		return false;
-	}
-
-	const insertQuery = `
-		INSERT INTO post_location_tracks (
-			id, post_id, recorded_at, latitude, longitude, created_at, updated_at, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, 1)
+	logId: number,
+	metrics: SyncLogMetrics,
+): Promise<void> {
+	const query = `
+		UPDATE sync_logs
+		SET data_duration_ms = data_duration_ms + ?,
+			media_duration_ms = media_duration_ms + ?,
+			payload_bytes = payload_bytes + ?,
+			media_bytes = media_bytes + ?,
+			upstream_requests = upstream_requests + ?,
+			upstream_latency_ms = upstream_latency_ms + ?
+		WHERE id = ?
 	`;
 	await db
-		.prepare(insertQuery)
+		.prepare(query)
 		.bind(
-			track.id,
-			track.post_id,
-			track.recorded_at,
-			track.latitude,
-			track.longitude,
-			track.created_at,
-			track.updated_at,
+			Math.round(metrics.dataDurationMs),
+			Math.round(metrics.mediaDurationMs),
+			metrics.payloadBytes,
+			metrics.mediaBytes,
+			metrics.upstreamRequests,
+			Math.round(metrics.upstreamLatencyMs),
+			logId,
 		)
 		.run();
-	return true;
 }
 
 /**
- * メディアを挿入（本番側で使用、重複スキップ）
+ * 同期の性能指標を避難所・日（UTC）ごとに集計する（新しい日付順）
+ * 同期先と通信する同期のうち、終了したものだけを対象にする（受信・バンドルは除く）
  */
-async function insertMediaIfNotExists(
+async function fetchSyncMetricsDaily(
 	db: Database,
-	media: UnsyncedMedia,
-): Promise<boolean> {
-	const existsQuery = `SELECT id FROM media WHERE id = ?`;
-	const exists = await db.prepare(existsQuery).bind(media.id).first();
-	if (exists) {
-		return false;
-	}
+	days: number,
+	shelterId?: number,
+): Promise<SyncMetricsDaily[]> {
+	const query = `
+		SELECT
+			date(sync_logs.started_at) as date,
+			sync_logs.shelter_id,
+			shelters.name as shelter_name,
+			COUNT(*) as sync_count,
+			SUM(CASE WHEN sync_logs.status = 'failed' THEN 1 ELSE 0 END) as failed_count,
+			SUM(sync_logs.data_duration_ms) as data_duration_ms,
+			SUM(sync_logs.media_duration_ms) as media_duration_ms,
+			SUM(sync_logs.payload_bytes) as payload_bytes,
+			SUM(sync_logs.media_bytes) as media_bytes,
+			SUM(sync_logs.upstream_requests) as upstream_requests,
+			SUM(sync_logs.upstream_latency_ms) as upstream_latency_ms
+		FROM sync_logs
+		LEFT JOIN shelters ON sync_logs.shelter_id = shelters.id
+		WHERE sync_logs.started_at >= datetime('now', 'start of day', ?)
+			AND sync_logs.status IN ('completed', 'failed')
+			AND sync_logs.sync_type NOT IN ('received', 'bundle_export', 'bundle_import')
+			AND (? IS NULL OR sync_logs.shelter_id = ?)
+		GROUP BY date(sync_logs.started_at), sync_logs.shelter_id
+		ORDER BY date DESC, sync_logs.shelter_id ASC
+	`;
+	const { results } = await db
+		.prepare(query)
+		.bind(`-${days - 1} days`, shelterId ?? null, shelterId ?? null)
+		.all<SyncMetricsDaily>();
+	return results ?? [];
+}
 
-	const postExists = await db
-		.prepare(`SELECT id FROM posts WHERE id = ?`)
-		.bind(media.post_id)
-		.first();
-	if (!postExists) {
-		console.warn(
-			`[insertMediaIfNotExists] post_id ${media.post_id} not found for media ${media.id}`,
-		);
-		return false;
-	}
+// 同期ログと避難所名・未再試行の失敗項目数
+const syncLogWithShelterColumns = `
+	sync_logs.id,
+	sync_logs.shelter_id,
+	shelters.name as shelter_name,
+	sync_logs.sync_type,
+	sync_logs.status,
+	sync_logs.started_at,
+	sync_logs.completed_at,
+	sync_logs.posts_synced,
+	sync_logs.comments_synced,
+	sync_logs.location_tracks_synced,
+	sync_logs.media_synced,
+	sync_logs.error_message,
+	sync_logs.target_url,
+	sync_logs.verified_node_id,
+	sync_logs.batches_total,
+	sync_logs.batches_completed,
+	sync_logs.phase,
+	sync_logs.media_files_total,
+	sync_logs.media_files_completed,
+	sync_logs.media_files_failed,
+	sync_logs.out_of_scope_records,
+	sync_logs.data_duration_ms,
+	sync_logs.media_duration_ms,
+	sync_logs.payload_bytes,
+	sync_logs.media_bytes,
+	sync_logs.upstream_requests,
+	sync_logs.upstream_latency_ms,
+	(
+		SELECT COUNT(*) FROM sync_log_failures
+		WHERE sync_log_failures.log_id = sync_logs.id
+			AND sync_log_failures.retried_at IS NULL
+	) as pending_failures
+`;
 
-	const insertQuery = `
-		INSERT INTO media (
-			id, post_id, file_path, media_type, file_name,
-			created_at, updated_at, deleted_at, url, is_synced
-		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NULL, 1)
+/**
+ * 同期ログを避難所名付きで1件取得（同期ログの詳細表示で使用）
+ */
+async function getSyncLogWithShelter(
+	db: Database,
+	logId: number,
+): Promise<SyncLogWithShelter | null> {
+	const result = await db
+		.prepare(
+			`SELECT ${syncLogWithShelterColumns}
+			FROM sync_logs
+			LEFT JOIN shelters ON sync_logs.shelter_id = shelters.id
+			WHERE sync_logs.id = ?`,
+		)
+		.bind(logId)
+		.first<SyncLogWithShelter>();
+	return result ?? null;
+}
+
+/**
+ * 保持期間を過ぎた成功ログと、その失敗項目を削除する（削除したログ数を返す）
+ * 失敗ログは再試行・再開に使うため残し、同期先ごとの最新のログも途中再開の判定に使うため残す
+ */
+async function pruneSyncLogs(
+	db: Database,
+	retentionDays = SYNC_LOG_RETENTION_DAYS,
+): Promise<number> {
+	const prunable = `
+		SELECT id FROM sync_logs
+		WHERE status = 'completed'
+			AND completed_at < datetime('now', ?)
+			AND id NOT IN (
+				SELECT MAX(id) FROM sync_logs GROUP BY target_url, shelter_id
+			)
+	`;
+	const modifier = `-${retentionDays} days`;
+	const [, deleted] = await db.batch([
+		db
+			.prepare(`DELETE FROM sync_log_failures WHERE log_id IN (${prunable})`)
+			.bind(modifier),
+		db
+			.prepare(`DELETE FROM sync_logs WHERE id IN (${prunable})`)
+			.bind(modifier),
+	]);
+	return deleted.meta.changes ?? 0;
+}
+
+/**
+ * 同期ログを1件取得（同期ジョブの進捗確認で使用）
+ */
+async function getSyncLog(
+	db: Database,
+	logId: number,
+): Promise<SyncLog | null> {
+	const result = await db
+		.prepare(`SELECT * FROM sync_logs WHERE id = ?`)
+		.bind(logId)
+		.first<SyncLog>();
+	return result ?? null;
+}
+
+/**
+ * 受信が確認できたバッチまでの進捗を記録（件数はこれまでの累計）
+ */
+async function recordSyncLogBatch(
+	db: Database,
+	logId: number,
+	totals: {
+		postsSynced: number;
+		commentsSynced: number;
+		locationTracksSynced: number;
+		mediaSynced: number;
+	},
+): Promise<void> {
+	const query = `
+		UPDATE sync_logs
+		SET batches_completed = batches_completed + 1,
+			posts_synced = ?,
+			comments_synced = ?,
+			location_tracks_synced = ?,
+			media_synced = ?
+		WHERE id = ?
 	`;
 	await db
-		.prepare(insertQuery)
+		.prepare(query)
 		.bind(
-			media.id,
-			media.post_id,
-			media.file_path,
-			media.media_type,
-			media.file_name,
-			media.created_at,
-			media.updated_at,
-			media.deleted_at,
+			totals.postsSynced,
+			totals.commentsSynced,
+			totals.locationTracksSynced,
+			totals.mediaSynced,
+			logId,
 		)
 		.run();
-	return true;
+}
+
+/**
+ * 途中のバッチで失敗した送信ログのうち、同じ送信先への最新のものを取得
+ * 送信済みのバッチは同期済みになっているため、残りの未同期データを送れば続きから再開できる
+ */
+async function findResumablePushLog(
+	db: Database,
+	targetUrl: string,
+	shelterId?: number | null,
+): Promise<SyncLog | null> {
+	const query = `
+		SELECT *
+		FROM sync_logs
+		WHERE sync_type IN ('manual', 'scheduled')
+			AND target_url = ?
+			AND shelter_id IS ?
+			AND status = 'failed'
+			AND batches_completed > 0
+			AND batches_completed < batches_total
+			AND id = (
+				SELECT MAX(id) FROM sync_logs
+				WHERE sync_type IN ('manual', 'scheduled')
+					AND batches_total > 0
+					AND target_url = ?
+					AND shelter_id IS ?
+			)
+	`;
+	const result = await db
+		.prepare(query)
+		.bind(targetUrl, shelterId || null, targetUrl, shelterId || null)
+		.first<SyncLog>();
+	return result ?? null;
+}
+
+/**
+ * 失敗した送信ログを実行中に戻して再開する（バッチ総数は残りのバッチを加えて更新）
+ */
+async function resumeSyncLog(
+	db: Database,
+	logId: number,
+	batchesTotal: number,
+): Promise<void> {
+	const query = `
+		UPDATE sync_logs
+		SET status = 'in_progress',
+			completed_at = NULL,
+			error_message = NULL,
+			batches_total = ?
+		WHERE id = ?
+	`;
+	await db.prepare(query).bind(batchesTotal, logId).run();
+}
+
+/**
+ * 避難者数記録を挿入する文（本番側で使用、重複スキップ）
+ */
+function prepareOccupancyInsert(
+	db: Database,
+	occupancy: UnsyncedOccupancy,
+	options: SyncApplyOptions,
+): D1PreparedStatement {
+	const query = `
+		INSERT INTO shelter_occupancy (
+			id, shelter_id, headcount, recorded_at, recorded_by, created_at, updated_at,
+			is_synced, origin_node_id
+		) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(id) DO NOTHING
+	`;
+	return db
+		.prepare(query)
+		.bind(
+			occupancy.id,
+			occupancy.shelter_id,
+			occupancy.headcount,
+			occupancy.recorded_at,
+			occupancy.recorded_by,
+			occupancy.created_at,
+			occupancy.updated_at,
+			syncedFlag(options),
+			originNodeId(occupancy, options),
+		);
 }
 
 /**
  * 同期データを受信して挿入（本番側で使用）
+ * 受信データ（避難所ごとのグループ）は1つのD1バッチで反映し、失敗した場合は何も反映しない
  */
 async function receiveAndInsertSyncData(
 	db: Database,
 	data: SyncReceiveData,
+	options: SyncApplyOptions,
 ): Promise<SyncResult> {
-	let postsInserted = 0;
-	let mediaInserted = 0;
-	let commentsInserted = 0;
-	let tracksInserted = 0;
-
 	try {
-		// 投稿を挿入
+		const writes: SyncWrite[] = [];
+
+		// 投稿を反映（双方で変更されていれば競合として保存する）
 		for (const post of data.posts) {
-			const inserted = await insertPostIfNotExists(db, post);
-			if (inserted) postsInserted++;
+			writes.push(...(await preparePostWrites(db, post, "push", options)));
 		}
 
-		// メディアを挿入（投稿が存在する場合のみ）
+		// メディアを反映（投稿が存在する場合のみ）
 		for (const media of data.media) {
-			const inserted = await insertMediaIfNotExists(db, media);
-			if (inserted) mediaInserted++;
+			writes.push({
+				statement: prepareMediaUpsert(db, media, options),
+				countAs: "media",
+			});
 		}
 
-		// コメントを挿入（投稿が存在する場合のみ）
+		// コメントを反映
 		for (const comment of data.comments) {
-			const inserted = await insertCommentIfNotExists(db, comment);
-			if (inserted) commentsInserted++;
+			writes.push(
+				...(await prepareCommentWrites(db, comment, "push", options)),
+			);
 		}
 
-		// 位置情報トラックを挿入（投稿が存在する場合のみ）
+		// 位置情報トラックを反映
 		for (const track of data.locationTracks) {
-			const inserted = await insertLocationTrackIfNotExists(db, track);
-			if (inserted) tracksInserted++;
+			writes.push({
+				statement: prepareLocationTrackUpsert(db, track, options),
+				countAs: "locationTracks",
+			});
+		}
+
+		// 避難者数の記録を挿入
+		for (const occupancy of data.occupancy ?? []) {
+			writes.push({
+				statement: prepareOccupancyInsert(db, occupancy, options),
+				countAs: "occupancy",
+			});
 		}
 
+		// 在庫品目・入出庫履歴を反映（現在庫は受信した履歴から再計算）
+		writes.push(
+			...prepareInventoryWrites(
+				db,
+				data.inventoryItems ?? [],
+				data.inventoryTransactions ?? [],
+				options,
+			),
+		);
+
+		const counts = await runSyncWrites(db, writes);
+
 		return {
 			success: true,
-			postsSynced: postsInserted,
-			mediaSynced: mediaInserted,
-			commentsSynced: commentsInserted,
-			locationTracksSynced: tracksInserted,
+			postsSynced: counts.posts,
+			mediaSynced: counts.media,
+			commentsSynced: counts.comments,
+			locationTracksSynced: counts.locationTracks,
+			occupancySynced: counts.occupancy,
+			inventoryTransactionsSynced: counts.inventoryTransactions,
+			conflictsDetected: counts.conflicts,
 		};
 	} catch (error) {
+		// バッチ全体がロールバックされるため、反映件数はすべて0になる
 		const message = error instanceof Error ? error.message : "Unknown error";
 		return {
 			success: false,
-			postsSynced: postsInserted,
-			mediaSynced: mediaInserted,
-			commentsSynced: commentsInserted,
-			locationTracksSynced: tracksInserted,
+			postsSynced: 0,
+			mediaSynced: 0,
+			commentsSynced: 0,
+			locationTracksSynced: 0,
+			occupancySynced: 0,
+			inventoryTransactionsSynced: 0,
+			conflictsDetected: 0,
 			errorMessage: message,
 		};
 	}
@@ -955,12 +2229,11 @@ async function groupDataByShelter(
 	}
 
 	if (missingPostIds.size > 0) {
-		const ids = Array.from(missingPostIds);
-		const placeholders = ids.map(() => "?").join(", ");
-		const query = `SELECT id, shelter_id FROM posts WHERE id IN (${placeholders})`;
+		// 同期バンドルは未同期データをまとめて運ぶため、IDはJSON配列1つで渡す（バインド変数上限対策）
+		const query = `SELECT id, shelter_id FROM posts WHERE id IN (SELECT value FROM json_each(?))`;
 		const result = await db
 			.prepare(query)
-			.bind(...ids)
+			.bind(JSON.stringify(Array.from(missingPostIds)))
 			.all<{
 				id: string;
 				shelter_id: number;
@@ -979,6 +2252,9 @@ async function groupDataByShelter(
 				media: [],
 				comments: [],
 				locationTracks: [],
+				occupancy: [],
+				inventoryItems: [],
+				inventoryTransactions: [],
 				sourceUrl: data.sourceUrl,
 			});
 		}
@@ -998,6 +2274,9 @@ async function groupDataByShelter(
 					media: [],
 					comments: [],
 					locationTracks: [],
+					occupancy: [],
+					inventoryItems: [],
+					inventoryTransactions: [],
 					sourceUrl: data.sourceUrl,
 				});
 			}
@@ -1022,6 +2301,9 @@ async function groupDataByShelter(
 					media: [],
 					comments: [],
 					locationTracks: [],
+					occupancy: [],
+					inventoryItems: [],
+					inventoryTransactions: [],
 					sourceUrl: data.sourceUrl,
 				});
 			}
@@ -1046,6 +2328,9 @@ async function groupDataByShelter(
 					media: [],
 					comments: [],
 					locationTracks: [],
+					occupancy: [],
+					inventoryItems: [],
+					inventoryTransactions: [],
 					sourceUrl: data.sourceUrl,
 				});
 			}
@@ -1060,6 +2345,48 @@ async function groupDataByShelter(
 		}
 	}
 
+	// 避難者数の記録は避難所IDを直接持つためそのまま振り分け
+	for (const occupancy of data.occupancy ?? []) {
+		if (!grouped.has(occupancy.shelter_id)) {
+			grouped.set(occupancy.shelter_id, {
+				posts: [],
+				media: [],
+				comments: [],
+				locationTracks: [],
+				occupancy: [],
+				inventoryItems: [],
+				inventoryTransactions: [],
+				sourceUrl: data.sourceUrl,
+			});
+		}
+		grouped.get(occupancy.shelter_id)?.occupancy?.push(occupancy);
+	}
+
+	// 在庫品目・入出庫履歴も避難所IDを直接持つ
+	const ensureShelterGroup = (shelterId: number) => {
+		if (!grouped.has(shelterId)) {
+			grouped.set(shelterId, {
+				posts: [],
+				media: [],
+				comments: [],
+				locationTracks: [],
+				occupancy: [],
+				inventoryItems: [],
+				inventoryTransactions: [],
+				sourceUrl: data.sourceUrl,
+			});
+		}
+		return grouped.get(shelterId);
+	};
+	for (const item of data.inventoryItems ?? []) {
+		ensureShelterGroup(item.shelter_id)?.inventoryItems?.push(item);
+	}
+	for (const transaction of data.inventoryTransactions ?? []) {
+		ensureShelterGroup(transaction.shelter_id)?.inventoryTransactions?.push(
+			transaction,
+		);
+	}
+
 	return grouped;
 }
 
@@ -1094,20 +2421,7 @@ async function fetchSyncLogs(
 
 	// ログ一覧取得（避難所名も結合）
 	const logsQuery = `
-			SELECT 
-				sync_logs.id,
-				sync_logs.shelter_id,
-				shelters.name as shelter_name,
-				sync_logs.sync_type,
-				sync_logs.status,
-				sync_logs.started_at,
-				sync_logs.completed_at,
-				sync_logs.posts_synced,
-				sync_logs.comments_synced,
-				sync_logs.location_tracks_synced,
-				sync_logs.media_synced,
-				sync_logs.error_message,
-				sync_logs.target_url
+		SELECT ${syncLogWithShelterColumns}
 		FROM sync_logs
 		LEFT JOIN shelters ON sync_logs.shelter_id = shelters.id
 		${whereClause}
@@ -1133,26 +2447,53 @@ export const syncRepository = {
 	fetchUnsyncedComments,
 	fetchUnsyncedLocationTracks,
 	fetchUnsyncedMedia,
+	fetchUnsyncedOccupancy,
+	fetchUnsyncedInventoryItems,
+	fetchUnsyncedInventoryTransactions,
+	fetchOutOfScopeCounts,
 	fetchMediaByPostIds,
+	fetchMediaByIds,
+	fetchSheltersForPull,
 	fetchPostsForPull,
 	fetchCommentsForPull,
 	fetchLocationTracksForPull,
 	fetchMediaForPull,
+	fetchChangesForPull,
+	countChangesOutOfScope,
+	fetchInventoryItemsForPull,
+	fetchInventoryTransactionsForPull,
 	markPostsAsSynced,
 	markCommentsAsSynced,
 	markLocationTracksAsSynced,
 	markMediaAsSynced,
+	markOccupancyAsSynced,
+	markInventoryItemsAsSynced,
+	markInventoryTransactionsAsSynced,
 	applyPulledData,
 	getLastPulledAt,
 	setLastPulledAt,
+	getPullCursor,
+	setPullCursor,
+	acquireSyncLock,
+	renewSyncLock,
+	releaseSyncLock,
 	getSyncStats,
 	createSyncLog,
 	completeSyncLog,
 	failSyncLog,
-	insertPostIfNotExists,
-	insertCommentIfNotExists,
-	insertLocationTrackIfNotExists,
+	startSyncLogBatches,
+	recordSyncLogBatch,
+	setSyncLogPhase,
+	recordSyncLogMediaProgress,
+	recordSyncLogOutOfScope,
+	addSyncLogMetrics,
+	getSyncLog,
+	getSyncLogWithShelter,
+	pruneSyncLogs,
+	findResumablePushLog,
+	resumeSyncLog,
 	receiveAndInsertSyncData,
 	fetchSyncLogs,
+	fetchSyncMetricsDaily,
 	groupDataByShelter,
 };
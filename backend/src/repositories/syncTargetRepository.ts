@@ -0,0 +1,311 @@
+import type { Database } from "../db/database";
+
+export type SyncTarget = {
+	id: number;
+	name: string;
+	url: string;
+	pushEnabled: boolean;
+	pullShelterIds: number[];
+	intervalMinutes: number;
+	enabled: boolean;
+	lowBandwidth: boolean;
+	lastRunAt: string | null;
+	lastSuccessAt: string | null;
+	lastError: string | null;
+	consecutiveFailures: number;
+	createdAt: string;
+	updatedAt: string;
+};
+
+export type SyncTargetInput = {
+	name: string;
+	url: string;
+	pushEnabled: boolean;
+	pullShelterIds: number[];
+	intervalMinutes: number;
+	enabled: boolean;
+	lowBandwidth: boolean;
+};
+
+// healthy: 正常, stale: 最後の成功から間隔の3倍以上経過, failing: 直近の実行が失敗, pending: 未実行, disabled: 無効
+export type SyncTargetHealth =
+	| "healthy"
+	| "stale"
+	| "failing"
+	| "pending"
+	| "disabled";
+
+type SyncTargetRow = {
+	id: number;
+	name: string;
+	url: string;
+	push_enabled: number;
+	pull_shelter_ids: string;
+	interval_minutes: number;
+	enabled: number;
+	low_bandwidth: number;
+	last_run_at: string | null;
+	last_success_at: string | null;
+	last_error: string | null;
+	consecutive_failures: number;
+	created_at: string;
+	updated_at: string;
+};
+
+// Cron Trigger の実行時刻のずれで1回分飛ばさないよう、間隔より少し早くても実行する
+const SCHEDULE_SLACK_MS = 60 * 1000;
+
+export class SyncTargetNotFoundError extends Error {
+	constructor(id: number) {
+		super(`Sync target not found: ${id}`);
+		this.name = "SyncTargetNotFoundError";
+	}
+}
+
+export class DuplicateSyncTargetError extends Error {
+	constructor(url: string) {
+		super(`Sync target already exists: ${url}`);
+		this.name = "DuplicateSyncTargetError";
+	}
+}
+
+const parseShelterIds = (value: string): number[] => {
+	try {
+		const parsed: unknown = JSON.parse(value);
+		return Array.isArray(parsed)
+			? parsed.filter((id): id is number => Number.isInteger(id))
+			: [];
+	} catch (_error) {
+		return [];
+	}
+};
+
+const toSyncTarget = (row: SyncTargetRow): SyncTarget => ({
+	id: row.id,
+	name: row.name,
+	url: row.url,
+	pushEnabled: row.push_enabled === 1,
+	pullShelterIds: parseShelterIds(row.pull_shelter_ids),
+	intervalMinutes: row.interval_minutes,
+	enabled: row.enabled === 1,
+	lowBandwidth: row.low_bandwidth === 1,
+	lastRunAt: row.last_run_at,
+	lastSuccessAt: row.last_success_at,
+	lastError: row.last_error,
+	consecutiveFailures: row.consecutive_failures,
+	createdAt: row.created_at,
+	updatedAt: row.updated_at,
+});
+
+/**
+ * sync_state で同期先ごとのカーソルを保存するキー
+ */
+export const stateTargetKey = (id: number): string => `target:${id}`;
+
+/**
+ * 登録済みの同期先のURLか
+ */
+export const isSyncTargetUrl = async (
+	db: Database,
+	url: string,
+): Promise<boolean> => {
+	const row = await db
+		.prepare("SELECT 1 AS found FROM sync_targets WHERE url = ?")
+		.bind(url)
+		.first<{ found: number }>();
+	return row !== null;
+};
+
+/**
+ * 同期先の一覧を取得
+ */
+export const listSyncTargets = async (db: Database): Promise<SyncTarget[]> => {
+	const { results } = await db
+		.prepare(`SELECT * FROM sync_targets ORDER BY id ASC`)
+		.all<SyncTargetRow>();
+	return (results ?? []).map(toSyncTarget);
+};
+
+/**
+ * 同期先を1件取得
+ */
+export const getSyncTarget = async (
+	db: Database,
+	id: number,
+): Promise<SyncTarget> => {
+	const row = await db
+		.prepare(`SELECT * FROM sync_targets WHERE id = ?`)
+		.bind(id)
+		.first<SyncTargetRow>();
+	if (!row) {
+		throw new SyncTargetNotFoundError(id);
+	}
+	return toSyncTarget(row);
+};
+
+const findByUrl = async (
+	db: Database,
+	url: string,
+): Promise<SyncTargetRow | null> =>
+	db
+		.prepare(`SELECT * FROM sync_targets WHERE url = ?`)
+		.bind(url)
+		.first<SyncTargetRow>();
+
+/**
+ * 同期先を登録
+ */
+export const createSyncTarget = async (
+	db: Database,
+	input: SyncTargetInput,
+): Promise<SyncTarget> => {
+	if (await findByUrl(db, input.url)) {
+		throw new DuplicateSyncTargetError(input.url);
+	}
+
+	const now = new Date().toISOString();
+	const result = await db
+		.prepare(
+			`INSERT INTO sync_targets (
+				name, url, push_enabled, pull_shelter_ids, interval_minutes, enabled,
+				low_bandwidth, created_at, updated_at
+			)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		)
+		.bind(
+			input.name,
+			input.url,
+			input.pushEnabled ? 1 : 0,
+			JSON.stringify(input.pullShelterIds),
+			input.intervalMinutes,
+			input.enabled ? 1 : 0,
+			input.lowBandwidth ? 1 : 0,
+			now,
+			now,
+		)
+		.run();
+
+	return getSyncTarget(db, result.meta.last_row_id as number);
+};
+
+/**
+ * 同期先の設定を更新（未指定の項目は変更しない）
+ */
+export const updateSyncTarget = async (
+	db: Database,
+	id: number,
+	input: Partial<SyncTargetInput>,
+): Promise<SyncTarget> => {
+	const current = await getSyncTarget(db, id);
+	if (input.url !== undefined && input.url !== current.url) {
+		if (await findByUrl(db, input.url)) {
+			throw new DuplicateSyncTargetError(input.url);
+		}
+	}
+
+	const next = { ...current, ...input };
+	await db
+		.prepare(
+			`UPDATE sync_targets
+			SET name = ?, url = ?, push_enabled = ?, pull_shelter_ids = ?,
+				interval_minutes = ?, enabled = ?, low_bandwidth = ?, updated_at = ?
+			WHERE id = ?`,
+		)
+		.bind(
+			next.name,
+			next.url,
+			next.pushEnabled ? 1 : 0,
+			JSON.stringify(next.pullShelterIds),
+			next.intervalMinutes,
+			next.enabled ? 1 : 0,
+			next.lowBandwidth ? 1 : 0,
+			new Date().toISOString(),
+			id,
+		)
+		.run();
+
+	return getSyncTarget(db, id);
+};
+
+/**
+ * 同期先を削除（保存していたカーソルも削除する）
+ */
+export const deleteSyncTarget = async (
+	db: Database,
+	id: number,
+): Promise<void> => {
+	await getSyncTarget(db, id);
+	await db.batch([
+		db
+			.prepare(`DELETE FROM sync_state WHERE target_key = ?`)
+			.bind(stateTargetKey(id)),
+		db.prepare(`DELETE FROM sync_targets WHERE id = ?`).bind(id),
+	]);
+};
+
+/**
+ * 定期同期の間隔に達した同期先を取得
+ */
+export const fetchDueSyncTargets = async (
+	db: Database,
+	now: Date,
+): Promise<SyncTarget[]> => {
+	const targets = await listSyncTargets(db);
+	return targets.filter(
+		(target) =>
+			target.enabled &&
+			(target.lastRunAt === null ||
+				now.getTime() - new Date(target.lastRunAt).getTime() >=
+					target.intervalMinutes * 60 * 1000 - SCHEDULE_SLACK_MS),
+	);
+};
+
+/**
+ * 同期先への実行結果を記録（error が null なら成功）
+ */
+export const recordSyncTargetRun = async (
+	db: Database,
+	id: number,
+	error: string | null,
+): Promise<void> => {
+	const now = new Date().toISOString();
+	const query =
+		error === null
+			? db
+					.prepare(
+						`UPDATE sync_targets
+						SET last_run_at = ?, last_success_at = ?, last_error = NULL,
+							consecutive_failures = 0
+						WHERE id = ?`,
+					)
+					.bind(now, now, id)
+			: db
+					.prepare(
+						`UPDATE sync_targets
+						SET last_run_at = ?, last_error = ?,
+							consecutive_failures = consecutive_failures + 1
+						WHERE id = ?`,
+					)
+					.bind(now, error, id);
+	await query.run();
+};
+
+/**
+ * 同期先の状態を判定する
+ */
+export const syncTargetHealth = (
+	target: SyncTarget,
+	now: Date,
+): SyncTargetHealth => {
+	if (!target.enabled) return "disabled";
+	if (target.lastRunAt === null) return "pending";
+	if (target.consecutiveFailures > 0) return "failing";
+	if (
+		target.lastSuccessAt === null ||
+		now.getTime() - new Date(target.lastSuccessAt).getTime() >
+			target.intervalMinutes * 3 * 60 * 1000
+	) {
+		return "stale";
+	}
+	return "healthy";
+};
@@ -1,3 +1,5 @@
+import { toHex } from "./authRepository";
+
 export class EmptyVideoBodyError extends Error {
 	constructor() {
 		super("Request body is empty");
@@ -12,17 +14,27 @@ export class VideoNotFoundError extends Error {
 	}
 }
 
+export class ChecksumMismatchError extends Error {
+	constructor(key: string) {
+		super(`SHA-256 checksum mismatch for key ${key}`);
+		this.name = "ChecksumMismatchError";
+	}
+}
+
 type UploadVideoParams = {
 	bucket: R2Bucket;
 	key: string;
 	body: ArrayBuffer;
 	contentType: string;
+	// 指定した場合、ファイル本体のSHA-256が一致しなければ保存しない（メディア同期で使用）
+	expectedSha256?: string | null;
 };
 
 type UploadVideoResult = {
 	key: string;
 	storedBytes: number;
 	contentType: string;
+	sha256: string;
 };
 
 type GetVideoParams = {
@@ -35,22 +47,40 @@ type GetVideoResult = {
 	headers: Headers;
 };
 
+/**
+ * 縮小版の画像を保存するキー（元ファイルとは別に保存し、元ファイルとして送信・中継しない）
+ */
+export const downscaledKey = (key: string): string => `downscaled/${key}`;
+
+/**
+ * ファイル本体のSHA-256（16進数）を求める（メディア同期での改ざん・欠損の検出に使用）
+ */
+export const computeSha256 = async (body: ArrayBuffer): Promise<string> =>
+	toHex(await crypto.subtle.digest("SHA-256", body));
+
 export const uploadVideo = async ({
 	bucket,
 	key,
 	body,
 	contentType,
+	expectedSha256,
 }: UploadVideoParams): Promise<UploadVideoResult> => {
 	if (body.byteLength === 0) {
 		throw new EmptyVideoBodyError();
 	}
 
-	await bucket.put(key, body, { httpMetadata: { contentType } });
+	const sha256 = await computeSha256(body);
+	if (expectedSha256 && expectedSha256.toLowerCase() !== sha256) {
+		throw new ChecksumMismatchError(key);
+	}
+
+	await bucket.put(key, body, { httpMetadata: { contentType }, sha256 });
 
 	return {
 		key,
 		storedBytes: body.byteLength,
 		contentType,
+		sha256,
 	};
 };
 
@@ -1,18 +1,35 @@
 import { AlertTriangle, ArrowLeft, Home } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useGetSheltersId } from "@/api/generated/team2API";
+import { LoginScreen } from "@/components/login-screen";
 import { ProductionRedirectBanner } from "@/components/production-redirect-banner";
+import { ShelterAdmin } from "@/components/shelter-admin";
 import { ShelterDashboard } from "@/components/shelter-dashboard";
 import { ShelterOverview } from "@/components/shelter-overview";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Toaster } from "@/components/ui/sonner";
+import { LOGIN_REQUIRED_EVENT } from "@/lib/auth";
 import { getInitialShelterId } from "@/lib/environment-utils";
 
 export default function HomePage() {
 	const [selectedShelter, setSelectedShelter] = useState<string | null>(
 		getInitialShelterId,
 	);
+	const [showLogin, setShowLogin] = useState(false);
+	const [showAdmin, setShowAdmin] = useState(false);
+
+	// 401受信時やログインボタン押下時にログイン画面を表示
+	useEffect(() => {
+		const handleLoginRequired = () => setShowLogin(true);
+		window.addEventListener(LOGIN_REQUIRED_EVENT, handleLoginRequired);
+		return () =>
+			window.removeEventListener(LOGIN_REQUIRED_EVENT, handleLoginRequired);
+	}, []);
+
+	const loginScreen = showLogin && (
+		<LoginScreen onClose={() => setShowLogin(false)} />
+	);
 
 	// 選択された避難所の存在確認
 	const {
@@ -89,6 +106,18 @@ export default function HomePage() {
 					</div>
 				)}
 				<ShelterDashboard shelterId={selectedShelter} />
+				{loginScreen}
+				<Toaster />
+			</main>
+		);
+	}
+
+	// 避難所管理画面を表示
+	if (showAdmin) {
+		return (
+			<main className="min-h-screen bg-background">
+				<ShelterAdmin onBack={() => setShowAdmin(false)} />
+				{loginScreen}
 				<Toaster />
 			</main>
 		);
@@ -97,7 +126,11 @@ export default function HomePage() {
 	// 避難所一覧画面を表示
 	return (
 		<main className="min-h-screen bg-background">
-			<ShelterOverview onShelterSelect={setSelectedShelter} />
+			<ShelterOverview
+				onShelterSelect={setSelectedShelter}
+				onOpenAdmin={() => setShowAdmin(true)}
+			/>
+			{loginScreen}
 			<Toaster />
 		</main>
 	);
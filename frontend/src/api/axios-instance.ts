@@ -1,4 +1,9 @@
 import Axios, { type AxiosError, type AxiosRequestConfig } from "axios";
+import {
+	clearAuthSession,
+	getAuthToken,
+	requestLogin,
+} from "@/lib/auth";
 
 // デバッグ: 環境変数の値を確認
 console.log("[DEBUG] VITE_API_BASE_URL:", import.meta.env.VITE_API_BASE_URL);
@@ -18,6 +23,10 @@ export const AXIOS_INSTANCE = Axios.create({
 AXIOS_INSTANCE.interceptors.request.use(
 	(config) => {
 		console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+		const token = getAuthToken();
+		if (token) {
+			config.headers.Authorization = `Bearer ${token}`;
+		}
 		return config;
 	},
 	(error) => {
@@ -35,6 +44,11 @@ AXIOS_INSTANCE.interceptors.response.use(
 			`API Error: ${error.response?.status} ${error.config?.url}`,
 			error.response?.data,
 		);
+		// 認証切れ・未ログインの場合はセッションを破棄してログイン画面を表示
+		if (error.response?.status === 401 && error.config?.url !== "/auth/login") {
+			clearAuthSession();
+			requestLogin();
+		}
 		return Promise.reject(error);
 	},
 );
@@ -7,7 +7,7 @@
 import type { CreateCommentRequestStatus } from './createCommentRequestStatus';
 
 export interface CreateCommentRequest {
-  /** コメント投稿者の表示名 */
+  /** コメント投稿者の表示名（ログイン中はアカウントの表示名を使う） */
   authorName: string;
   /** コメント本文 */
   content: string;
@@ -0,0 +1,14 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type CreateInventoryItemRequestAllOf = {
+  /**
+   * 初期在庫（入庫として記録）
+   * @minimum 0
+   */
+  initialQuantity?: number;
+};
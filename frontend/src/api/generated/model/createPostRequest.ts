@@ -11,7 +11,7 @@ import type { PostMediaItem } from './postMediaItem';
 export interface CreatePostRequest {
   /** 投稿対象の避難所ID */
   shelterId: number;
-  /** 投稿者の表示名 */
+  /** 投稿者の表示名（ログイン中はアカウントの表示名を使う） */
   authorName: string;
   /**
    * 投稿本文
@@ -0,0 +1,10 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { ShelterUpdateRequest } from './shelterUpdateRequest';
+import type { CreateShelterRequestAllOf } from './createShelterRequestAllOf';
+
+export type CreateShelterRequest = ShelterUpdateRequest & CreateShelterRequestAllOf & Required<Pick<ShelterUpdateRequest & CreateShelterRequestAllOf, 'name' | 'latitude' | 'longitude'>>;
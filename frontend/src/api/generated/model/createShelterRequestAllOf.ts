@@ -0,0 +1,8 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type CreateShelterRequestAllOf = { [key: string]: unknown };
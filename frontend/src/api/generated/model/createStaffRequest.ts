@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { StaffRole } from './staffRole';
+
+export interface CreateStaffRequest {
+  loginId: string;
+  displayName: string;
+  /** @minLength 8 */
+  password: string;
+  role: StaffRole;
+  /** @nullable */
+  shelterId?: number | null;
+}
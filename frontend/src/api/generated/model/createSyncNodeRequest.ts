@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface CreateSyncNodeRequest {
+  /**
+   * ノード識別子（SYNC_NODE_ID に設定する値）
+   * @pattern ^[A-Za-z0-9_-]{1,64}$
+   */
+  nodeId: string;
+  /** 表示名（例：A小学校） */
+  name: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncNode } from './syncNode';
+
+export interface CreateSyncNodeResponse {
+  node: SyncNode;
+  /** 署名用の共有鍵（hex）。再表示はできません */
+  sharedSecret: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { GetApiSyncConflictsStatus } from './getApiSyncConflictsStatus';
+
+export type GetApiSyncConflictsParams = {
+/**
+ * open（未解決）/ resolved（解決済み）/ all（すべて）。既定は open
+ */
+status?: GetApiSyncConflictsStatus;
+/**
+ * Filter by shelter ID (optional)
+ */
+shelterId?: number;
+};
@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type GetApiSyncConflictsStatus = typeof GetApiSyncConflictsStatus[keyof typeof GetApiSyncConflictsStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const GetApiSyncConflictsStatus = {
+  open: 'open',
+  resolved: 'resolved',
+  all: 'all',
+} as const;
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type GetApiSyncMetricsParams = {
+/**
+ * 避難所IDで絞り込む
+ */
+shelterId?: number;
+/**
+ * 集計する日数（今日を含む）
+ * @minimum 1
+ * @maximum 90
+ */
+days?: number;
+};
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type GetApiSyncPreviewParams = {
+/**
+ * 差分Pullのプレビューに使う同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ）
+ */
+targetUrl?: string;
+/**
+ * 差分Pullのプレビュー対象の避難所ID（未指定時は DEFAULT_SHELTER_ID）。
+指定した場合は Push の送信対象もこの避難所に限ります（未指定時は SYNC_SHELTER_IDS）
+
+ */
+shelterId?: number;
+};
@@ -10,4 +10,9 @@ export type GetApiSyncPullMediaParams = {
  * メディアファイルのパス
  */
 filePath: string;
+/**
+ * 画像を縮小する最大の幅（低帯域の回線で取得する場合に指定）
+ * @minimum 1
+ */
+maxWidth?: number;
 };
@@ -7,11 +7,26 @@
 
 export type GetApiSyncPullParams = {
 /**
- * 取得開始日時（updated_at基準）
+ * 取得開始日時（updated_at基準。cursor 指定時は避難所・在庫情報のみに適用）
  */
 since?: string;
+/**
+ * 取り込み済みの変更ログ seq（この次から取得する。初回は 0）
+ * @minimum 0
+ */
+cursor?: number;
+/**
+ * 1ページで読む変更ログの件数（cursor 指定時のみ）
+ * @minimum 1
+ * @maximum 100
+ */
+limit?: number;
 /**
  * 避難所ID（未指定時は環境変数）
  */
 shelterId?: number;
+/**
+ * 取得側が扱える同期プロトコルの最新バージョン（未指定は旧形式の 1）
+ */
+protocolVersion?: number;
 };
@@ -0,0 +1,38 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { GetSearchType } from './getSearchType';
+
+export type GetSearchParams = {
+/**
+ * 検索語（空白区切りで複数指定）
+ * @minLength 1
+ * @maxLength 100
+ */
+q: string;
+/**
+ * 避難所IDで絞り込む（コメントは投稿先の避難所）
+ */
+shelterId?: number;
+/**
+ * 投稿だけ・コメントだけに絞り込む
+ */
+type?: GetSearchType;
+/**
+ * この日時以降に投稿・コメントされたものに絞り込む
+ */
+from?: string;
+/**
+ * この日時以前に投稿・コメントされたものに絞り込む
+ */
+to?: string;
+/**
+ * 返す件数
+ * @minimum 1
+ * @maximum 50
+ */
+limit?: number;
+};
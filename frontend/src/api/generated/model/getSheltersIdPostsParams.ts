@@ -0,0 +1,48 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { GetSheltersIdPostsSort } from './getSheltersIdPostsSort';
+
+export type GetSheltersIdPostsParams = {
+/**
+ * 前のページの `nextCursor`
+ */
+cursor?: string;
+/**
+ * 1ページの件数
+ * @minimum 1
+ * @maximum 100
+ */
+limit?: number;
+/**
+ * 並び順（新しい順・古い順・重要度順・コメント数順）
+ */
+sort?: GetSheltersIdPostsSort;
+/**
+ * 投稿のステータスで絞り込む（カンマ区切りで複数指定。例 `緊急,重要`）
+ */
+priority?: string;
+/**
+ * 最新コメントの対応状況で絞り込む（カンマ区切りで複数指定。コメントが無い投稿は未対応）
+ */
+commentStatus?: string;
+/**
+ * フリーチャット投稿だけ（true）またはフリーチャット以外だけ（false）に絞り込む
+ */
+isFreeChat?: boolean;
+/**
+ * この日時以降の投稿に絞り込む
+ */
+from?: string;
+/**
+ * この日時以前の投稿に絞り込む
+ */
+to?: string;
+/**
+ * 投稿者名（部分一致）で絞り込む
+ */
+author?: string;
+};
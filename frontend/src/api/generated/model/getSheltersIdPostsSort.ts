@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type GetSheltersIdPostsSort = typeof GetSheltersIdPostsSort[keyof typeof GetSheltersIdPostsSort];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const GetSheltersIdPostsSort = {
+  newest: 'newest',
+  oldest: 'oldest',
+  priority: 'priority',
+  comments: 'comments',
+} as const;
@@ -10,19 +10,49 @@ export * from './createCommentRequestStatus';
 export * from './createCommentResponse';
 export * from './createCommentResponseComment';
 export * from './createCommentResponseCommentStatus';
+export * from './createInventoryItemRequest';
+export * from './createInventoryItemRequestAllOf';
 export * from './createPostRequest';
 export * from './createPostRequestStatus';
 export * from './createPostResponse';
 export * from './createPostResponsePost';
 export * from './createPostResponsePostStatus';
+export * from './createShelterRequest';
+export * from './createShelterRequestAllOf';
+export * from './createStaffRequest';
+export * from './createSyncNodeRequest';
+export * from './createSyncNodeResponse';
 export * from './errorResponse';
 export * from './getApiGeocodeReverseParams';
+export * from './getApiSyncBundleExportParams';
+export * from './getApiSyncConflictsParams';
+export * from './getApiSyncConflictsStatus';
 export * from './getApiSyncLogsParams';
+export * from './getApiSyncMetricsParams';
+export * from './getApiSyncPreviewParams';
 export * from './getApiSyncPullMediaParams';
 export * from './getApiSyncPullParams';
 export * from './getPostsIdCommentsParams';
+export * from './getSearchParams';
+export * from './getSearchType';
+export * from './getSheltersIdPostsParams';
+export * from './getSheltersIdPostsSort';
+export * from './inventoryItem';
+export * from './inventoryItemUpdateRequest';
+export * from './inventoryListResponse';
+export * from './inventoryTransaction';
+export * from './inventoryTransactionTransactionType';
+export * from './inventoryTransactionsResponse';
 export * from './locationTrackPoint';
+export * from './loginRequest';
+export * from './loginResponse';
 export * from './mediaItem';
+export * from './mediaSyncRetry';
+export * from './mediaSyncRetryDirection';
+export * from './mediaSyncRetryListResponse';
+export * from './mediaSyncRetryNowResponse';
+export * from './occupancyHistoryResponse';
+export * from './occupancyRecord';
 export * from './okResponse';
 export * from './postComment';
 export * from './postCommentStatus';
@@ -32,34 +62,107 @@ export * from './postDetailResponse';
 export * from './postDetailResponseStatus';
 export * from './postMediaItem';
 export * from './postPostsBody';
+export * from './recordOccupancyRequest';
+export * from './resolveSyncConflictRequest';
+export * from './resolveSyncConflictRequestFields';
+export * from './resolveSyncConflictRequestFieldsContent';
+export * from './resolveSyncConflictRequestFieldsDeletedAt';
+export * from './resolveSyncConflictRequestFieldsStatus';
+export * from './resolveSyncConflictRequestResolution';
 export * from './reverseGeocoderAddressElement';
 export * from './reverseGeocoderFeature';
 export * from './reverseGeocoderGeometry';
 export * from './reverseGeocoderProperty';
 export * from './reverseGeocoderResponse';
+export * from './searchHit';
+export * from './searchHitPost';
+export * from './searchHitPostStatus';
+export * from './searchHitRecordType';
+export * from './searchResponse';
 export * from './shelterDetails';
 export * from './shelterListWithCountResponse';
 export * from './shelterPost';
+export * from './shelterPostCommentStatus';
 export * from './shelterPostStatus';
 export * from './shelterPostsResponse';
+export * from './shelterStats';
+export * from './shelterStatsResponse';
+export * from './shelterStatus';
 export * from './shelterSummary';
 export * from './shelterSyncResult';
+export * from './shelterUpdateRequest';
+export * from './staffAccount';
+export * from './staffRole';
+export * from './stockTransactionRequest';
+export * from './stockTransactionRequestTransactionType';
+export * from './syncBundle';
+export * from './syncBundleFormat';
+export * from './syncBundleImportResponse';
+export * from './syncBundleImportResponseAllOf';
+export * from './syncBundleMediaItem';
+export * from './syncConflict';
+export * from './syncConflictLocalData';
+export * from './syncConflictRemoteData';
+export * from './syncConflictResolution';
+export * from './syncConflictSource';
+export * from './syncConflictTableName';
+export * from './syncConflictsResponse';
 export * from './syncExecuteRequest';
 export * from './syncExecuteResponse';
+export * from './syncHandshakeResponse';
+export * from './syncJobStartRequest';
+export * from './syncJobStartResponse';
+export * from './syncJobStatus';
+export * from './syncJobStatusPhase';
+export * from './syncJobStatusStatus';
+export * from './syncLogDetailResponse';
+export * from './syncLogFailureItem';
+export * from './syncLogFailureItemDirection';
+export * from './syncLogFailureItemRecordType';
 export * from './syncLogItem';
+export * from './syncLogItemPhase';
 export * from './syncLogsResponse';
 export * from './syncMediaError';
 export * from './syncMediaExecuteRequest';
 export * from './syncMediaReceiveRequest';
 export * from './syncMediaReceiveResponse';
 export * from './syncMediaResponse';
+export * from './syncMetricsDay';
+export * from './syncMetricsResponse';
+export * from './syncNode';
+export * from './syncNodesResponse';
+export * from './syncOutOfScopeShelter';
+export * from './syncPreviewResponse';
+export * from './syncPreviewResponsePull';
+export * from './syncPreviewShelter';
 export * from './syncPullExecuteRequest';
 export * from './syncPullExecuteResponse';
+export * from './syncPullPreview';
 export * from './syncPullResponse';
+export * from './syncPushPreview';
 export * from './syncReceiveRequest';
 export * from './syncReceiveResponse';
+export * from './syncShelter';
 export * from './syncStatusResponse';
+export * from './syncTargetItem';
+export * from './syncTargetItemHealth';
+export * from './syncTargetListResponse';
+export * from './syncTargetRequest';
 export * from './unsyncedComment';
+export * from './unsyncedInventoryItem';
+export * from './unsyncedInventoryTransaction';
+export * from './unsyncedInventoryTransactionTransactionType';
 export * from './unsyncedLocationTrack';
 export * from './unsyncedMedia';
-export * from './unsyncedPost';
\ No newline at end of file
+export * from './unsyncedOccupancy';
+export * from './unsyncedPost';
+export * from './updateCommentRequest';
+export * from './updateCommentRequestStatus';
+export * from './updateCommentResponse';
+export * from './updateCommentResponseComment';
+export * from './updateCommentResponseCommentAllOf';
+export * from './updatePostRequest';
+export * from './updatePostRequestStatus';
+export * from './updatePostResponse';
+export * from './updatePostResponsePost';
+export * from './updatePostResponsePostStatus';
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface InventoryItem {
+  id: string;
+  shelterId: number;
+  /** 品目名 */
+  name: string;
+  /** 単位（例：枚、本、箱） */
+  unit: string;
+  /** 現在庫 */
+  quantity: number;
+  /** 最低在庫数 */
+  minQuantity: number;
+  /** 現在庫が最低在庫数を下回っているか */
+  isShortage: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
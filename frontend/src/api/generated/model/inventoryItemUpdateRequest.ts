@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 在庫品目の更新内容（指定した項目のみ更新）
+ */
+export interface InventoryItemUpdateRequest {
+  name?: string;
+  unit?: string;
+  /** @minimum 0 */
+  minQuantity?: number;
+}
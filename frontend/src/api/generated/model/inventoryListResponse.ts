@@ -0,0 +1,14 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { InventoryItem } from './inventoryItem';
+
+export interface InventoryListResponse {
+  shelterId: number;
+  items: InventoryItem[];
+  /** 不足している品目数 */
+  shortageCount: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { InventoryTransactionTransactionType } from './inventoryTransactionTransactionType';
+
+export interface InventoryTransaction {
+  id: string;
+  itemId: string;
+  shelterId: number;
+  transactionType: InventoryTransactionTransactionType;
+  quantity: number;
+  /** @nullable */
+  note: string | null;
+  /** @nullable */
+  recordedBy: string | null;
+  createdAt: string;
+}
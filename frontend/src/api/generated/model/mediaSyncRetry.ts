@@ -0,0 +1,25 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { MediaSyncRetryDirection } from './mediaSyncRetryDirection';
+
+/**
+ * メディア転送の再試行
+ */
+export interface MediaSyncRetry {
+  mediaId: string;
+  /** push（ローカル → 同期先）, pull（同期先 → ローカル）, pull_original（縮小版だけ取得した画像の元ファイル。低帯域でない回線での差分Pullで取得する） */
+  direction: MediaSyncRetryDirection;
+  targetUrl: string;
+  filePath: string;
+  /** 失敗した回数 */
+  attempts: number;
+  /** @nullable */
+  lastError: string | null;
+  /** この時刻以降の同期で再試行する */
+  nextAttemptAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * push（ローカル → 同期先）, pull（同期先 → ローカル）, pull_original（縮小版だけ取得した画像の元ファイル。低帯域でない回線での差分Pullで取得する）
+ */
+export type MediaSyncRetryDirection = typeof MediaSyncRetryDirection[keyof typeof MediaSyncRetryDirection];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const MediaSyncRetryDirection = {
+  push: 'push',
+  pull: 'pull',
+  pull_original: 'pull_original',
+} as const;
@@ -0,0 +1,11 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface MediaSyncRetryNowResponse {
+  /** 再試行時刻を更新した件数 */
+  rescheduled: number;
+}
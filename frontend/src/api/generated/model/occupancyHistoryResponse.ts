@@ -0,0 +1,12 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { OccupancyRecord } from './occupancyRecord';
+
+export interface OccupancyHistoryResponse {
+  shelterId: number;
+  history: OccupancyRecord[];
+}
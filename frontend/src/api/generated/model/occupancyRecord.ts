@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface OccupancyRecord {
+  id: string;
+  shelterId: number;
+  headcount: number;
+  recordedAt: string;
+  /**
+   * 記録したスタッフの表示名
+   * @nullable
+   */
+  recordedBy: string | null;
+}
@@ -11,6 +11,11 @@ export interface PostComment {
   id: string;
   /** コメント投稿者の表示名 */
   authorName: string;
+  /**
+   * コメントしたアカウントのID（ログインせずにコメントしたもの・同期で受信したものはnull）
+   * @nullable
+   */
+  authorStaffId: number | null;
   /** コメント本文 */
   content: string;
   /** コメントの作成時刻 */
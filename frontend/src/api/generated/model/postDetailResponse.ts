@@ -20,6 +20,11 @@ export interface PostDetailResponse {
   shelterName?: string;
   /** 投稿者の表示名 */
   authorName: string;
+  /**
+   * 投稿したアカウントのID（ログインせずに投稿したもの・同期で受信したものはnull）
+   * @nullable
+   */
+  authorStaffId: number | null;
   /**
    * 投稿本文
    * @nullable
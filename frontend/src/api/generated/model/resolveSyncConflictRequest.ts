@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { ResolveSyncConflictRequestResolution } from './resolveSyncConflictRequestResolution';
+import type { ResolveSyncConflictRequestFields } from './resolveSyncConflictRequestFields';
+
+/**
+ * 同期競合の解決リクエスト
+ */
+export interface ResolveSyncConflictRequest {
+  /** local（手元を採用）/ remote（同期相手を採用）/ merged（項目ごとに選択） */
+  resolution: ResolveSyncConflictRequestResolution;
+  /** merged の場合に項目ごとに採用する版（未指定の項目は手元を採用） */
+  fields?: ResolveSyncConflictRequestFields;
+}
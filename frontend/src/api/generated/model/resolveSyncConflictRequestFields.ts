@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { ResolveSyncConflictRequestFieldsContent } from './resolveSyncConflictRequestFieldsContent';
+import type { ResolveSyncConflictRequestFieldsStatus } from './resolveSyncConflictRequestFieldsStatus';
+import type { ResolveSyncConflictRequestFieldsDeletedAt } from './resolveSyncConflictRequestFieldsDeletedAt';
+
+/**
+ * merged の場合に項目ごとに採用する版（未指定の項目は手元を採用）
+ */
+export type ResolveSyncConflictRequestFields = {
+  content?: ResolveSyncConflictRequestFieldsContent;
+  status?: ResolveSyncConflictRequestFieldsStatus;
+  deleted_at?: ResolveSyncConflictRequestFieldsDeletedAt;
+};
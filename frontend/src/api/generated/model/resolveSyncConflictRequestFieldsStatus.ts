@@ -0,0 +1,15 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type ResolveSyncConflictRequestFieldsStatus = typeof ResolveSyncConflictRequestFieldsStatus[keyof typeof ResolveSyncConflictRequestFieldsStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ResolveSyncConflictRequestFieldsStatus = {
+  local: 'local',
+  remote: 'remote',
+} as const;
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * local（手元を採用）/ remote（同期相手を採用）/ merged（項目ごとに選択）
+ */
+export type ResolveSyncConflictRequestResolution = typeof ResolveSyncConflictRequestResolution[keyof typeof ResolveSyncConflictRequestResolution];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ResolveSyncConflictRequestResolution = {
+  local: 'local',
+  remote: 'remote',
+  merged: 'merged',
+} as const;
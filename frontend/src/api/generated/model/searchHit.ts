@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SearchHitRecordType } from './searchHitRecordType';
+import type { SearchHitPost } from './searchHitPost';
+
+export interface SearchHit {
+  recordType: SearchHitRecordType;
+  recordId: string;
+  /** @nullable */
+  content: string | null;
+  authorName: string;
+  /** 投稿日時（コメントは作成日時） */
+  createdAt: string;
+  /** 一致した投稿（コメントの場合は投稿先の投稿） */
+  post: SearchHitPost;
+}
@@ -0,0 +1,25 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SearchHitPostStatus } from './searchHitPostStatus';
+
+/**
+ * 一致した投稿（コメントの場合は投稿先の投稿）
+ */
+export type SearchHitPost = {
+  id: string;
+  shelterId: number;
+  shelterName: string;
+  /** @nullable */
+  address: string | null;
+  authorName: string;
+  /** @nullable */
+  content: string | null;
+  /** @nullable */
+  status: SearchHitPostStatus;
+  postedAt: string;
+  isFreeChat: boolean;
+};
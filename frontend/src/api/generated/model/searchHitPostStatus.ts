@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * @nullable
+ */
+export type SearchHitPostStatus = typeof SearchHitPostStatus[keyof typeof SearchHitPostStatus] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SearchHitPostStatus = {
+  緊急: '緊急',
+  重要: '重要',
+  通常: '通常',
+} as const;
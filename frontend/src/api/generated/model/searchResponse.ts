@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SearchHit } from './searchHit';
+
+export interface SearchResponse {
+  query: string;
+  /** 検索に使った語（一致箇所の強調表示に使う） */
+  terms: string[];
+  results: SearchHit[];
+  /** limit を超える一致があるか */
+  hasMore: boolean;
+}
@@ -4,6 +4,7 @@
  * 先進プロジェクト実験 Team2 避難所 API
  * OpenAPI spec version: 1.0.0
  */
+import type { ShelterStatus } from './shelterStatus';
 
 export interface ShelterDetails {
   id: number;
@@ -11,5 +12,22 @@ export interface ShelterDetails {
   address: string;
   latitude: number;
   longitude: number;
+  /**
+   * 収容可能人数
+   * @nullable
+   */
+  capacity: number | null;
+  /**
+   * 開設時間
+   * @nullable
+   */
+  opening_hours: string | null;
+  status: ShelterStatus;
+  /**
+   * 閉鎖日時（開設中はnull）
+   * @nullable
+   */
+  closed_at: string | null;
   created_at: string;
+  updated_at: string;
 }
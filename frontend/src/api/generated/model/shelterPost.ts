@@ -5,6 +5,7 @@
  * OpenAPI spec version: 1.0.0
  */
 import type { ShelterPostStatus } from './shelterPostStatus';
+import type { ShelterPostCommentStatus } from './shelterPostCommentStatus';
 
 export interface ShelterPost {
   id: string;
@@ -20,4 +21,11 @@ export interface ShelterPost {
    * @nullable
    */
   status?: ShelterPostStatus;
+  /** フリーチャット投稿か */
+  is_free_chat: boolean;
+  /**
+   * 最新コメントの対応状況（コメントが無い場合は未対応）
+   * @nullable
+   */
+  comment_status: ShelterPostCommentStatus;
 }
@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 最新コメントの対応状況（コメントが無い場合は未対応）
+ * @nullable
+ */
+export type ShelterPostCommentStatus = typeof ShelterPostCommentStatus[keyof typeof ShelterPostCommentStatus] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ShelterPostCommentStatus = {
+  未対応: '未対応',
+  対応中: '対応中',
+  対応済み: '対応済み',
+} as const;
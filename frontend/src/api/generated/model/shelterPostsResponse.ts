@@ -9,4 +9,13 @@ import type { ShelterPost } from './shelterPost';
 export interface ShelterPostsResponse {
   shelterId: number;
   posts: ShelterPost[];
+  /** 絞り込み条件に一致する投稿の総数 */
+  totalCount: number;
+  /**
+   * 次のページを取得するカーソル（最後のページの場合は null）
+   * @nullable
+   */
+  nextCursor: string | null;
+  /** 次のページがあるか */
+  hasMore: boolean;
 }
@@ -0,0 +1,34 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface ShelterStats {
+  shelterId: number;
+  /**
+   * 収容可能人数
+   * @nullable
+   */
+  capacity: number | null;
+  /**
+   * 最新の避難者数（未記録の場合はnull）
+   * @nullable
+   */
+  headcount: number | null;
+  /**
+   * 収容率（%）。収容可能人数または避難者数が未登録の場合はnull
+   * @nullable
+   */
+  occupancyPercent: number | null;
+  /**
+   * 避難者数の最終記録日時
+   * @nullable
+   */
+  lastUpdatedAt: string | null;
+  /** 対応が完了していない報告の件数 */
+  activeReports: number;
+  /** 対応が完了していない緊急報告の件数 */
+  urgentReports: number;
+}
@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 避難所の開設状況
+ */
+export type ShelterStatus = typeof ShelterStatus[keyof typeof ShelterStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ShelterStatus = {
+  open: 'open',
+  closed: 'closed',
+} as const;
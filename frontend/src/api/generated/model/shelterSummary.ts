@@ -4,6 +4,7 @@
  * 先進プロジェクト実験 Team2 避難所 API
  * OpenAPI spec version: 1.0.0
  */
+import type { ShelterStatus } from './shelterStatus';
 
 export interface ShelterSummary {
   id: number;
@@ -14,4 +15,10 @@ export interface ShelterSummary {
   latitude?: number | null;
   /** @nullable */
   longitude?: number | null;
+  /**
+   * 収容可能人数
+   * @nullable
+   */
+  capacity?: number | null;
+  status: ShelterStatus;
 }
@@ -19,6 +19,8 @@ export interface ShelterSyncResult {
   commentsSynced: number;
   /** この避難所で保存した位置情報トラック数 */
   locationTracksSynced: number;
+  /** この避難所で競合として保存した件数 */
+  conflictsDetected?: number;
   /**
    * エラーメッセージ（この避難所の同期が失敗した場合）
    * @nullable
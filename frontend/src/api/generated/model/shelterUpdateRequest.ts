@@ -0,0 +1,27 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 避難所の更新内容（指定した項目のみ更新）
+ */
+export interface ShelterUpdateRequest {
+  name?: string;
+  /** @nullable */
+  address?: string | null;
+  latitude?: number;
+  longitude?: number;
+  /**
+   * @minimum 0
+   * @nullable
+   */
+  capacity?: number | null;
+  /**
+   * 開設時間（例：24時間、8:00-20:00）
+   * @nullable
+   */
+  openingHours?: string | null;
+}
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { StaffRole } from './staffRole';
+
+export interface StaffAccount {
+  id: number;
+  loginId: string;
+  displayName: string;
+  role: StaffRole;
+  /**
+   * 所属避難所ID（本部管理者はnull）
+   * @nullable
+   */
+  shelterId: number | null;
+}
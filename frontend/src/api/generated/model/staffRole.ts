@@ -0,0 +1,23 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * スタッフの権限
+- evacuee: 避難者（投稿・コメントのみ）
+- shelter_staff: 避難所職員（対応状況の更新・同期操作）
+- hq_admin: 本部管理者（全操作・アカウント管理）
+
+ */
+export type StaffRole = typeof StaffRole[keyof typeof StaffRole];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const StaffRole = {
+  evacuee: 'evacuee',
+  shelter_staff: 'shelter_staff',
+  hq_admin: 'hq_admin',
+} as const;
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { StockTransactionRequestTransactionType } from './stockTransactionRequestTransactionType';
+
+export interface StockTransactionRequest {
+  /** in=入庫、out=出庫 */
+  transactionType: StockTransactionRequestTransactionType;
+  /** @minimum 1 */
+  quantity: number;
+  /**
+   * メモ（搬入元・配布先など）
+   * @nullable
+   */
+  note?: string | null;
+}
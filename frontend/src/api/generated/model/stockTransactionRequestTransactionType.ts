@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * in=入庫、out=出庫
+ */
+export type StockTransactionRequestTransactionType = typeof StockTransactionRequestTransactionType[keyof typeof StockTransactionRequestTransactionType];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const StockTransactionRequestTransactionType = {
+  in: 'in',
+  out: 'out',
+} as const;
@@ -0,0 +1,27 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncBundleFormat } from './syncBundleFormat';
+import type { SyncBundleMediaItem } from './syncBundleMediaItem';
+
+/**
+ * USBメモリ等で持ち運ぶ同期バンドル。manifest・payload は署名・チェックサムの対象のため、JSON文字列のまま保持します。
+
+ */
+export interface SyncBundle {
+  /** ファイル形式 */
+  format: SyncBundleFormat;
+  /** バンドル形式のバージョン */
+  version: number;
+  /** マニフェスト（bundleId, nodeId, shelterId, createdAt, counts, payloadSha256, mediaFiles）のJSON文字列 */
+  manifest: string;
+  /** manifest に対する作成元ノードの共有鍵によるHMAC-SHA256署名（16進数） */
+  signature: string;
+  /** 同期データ（SyncReceiveRequest と同じ形式）のJSON文字列 */
+  payload: string;
+  /** R2のメディアファイル本体 */
+  media: SyncBundleMediaItem[];
+}
@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * ファイル形式
+ */
+export type SyncBundleFormat = typeof SyncBundleFormat[keyof typeof SyncBundleFormat];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncBundleFormat = {
+  'team2-sync-bundle': 'team2-sync-bundle',
+} as const;
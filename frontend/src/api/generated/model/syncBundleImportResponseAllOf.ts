@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type SyncBundleImportResponseAllOf = {
+  /** 取り込んだバンドルのID */
+  bundleId: string;
+  /** バンドルを作成したノードID */
+  sourceNodeId: string;
+  /** バンドルの作成日時 */
+  bundleCreatedAt: string;
+  /** R2に保存したメディアファイル数 */
+  mediaFilesStored: number;
+};
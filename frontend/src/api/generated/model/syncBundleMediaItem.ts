@@ -0,0 +1,13 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type SyncBundleMediaItem = {
+  /** R2のキー */
+  filePath: string;
+  /** ファイル本体（Base64） */
+  data: string;
+};
@@ -0,0 +1,51 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncConflictTableName } from './syncConflictTableName';
+import type { SyncConflictSource } from './syncConflictSource';
+import type { SyncConflictLocalData } from './syncConflictLocalData';
+import type { SyncConflictRemoteData } from './syncConflictRemoteData';
+import type { SyncConflictResolution } from './syncConflictResolution';
+
+/**
+ * 同期競合（手元と同期相手の両方で変更されたレコード）
+ */
+export interface SyncConflict {
+  /** 競合ID */
+  id: string;
+  /** 対象テーブル */
+  tableName: SyncConflictTableName;
+  /** 対象レコードID */
+  recordId: string;
+  /**
+   * 避難所ID
+   * @nullable
+   */
+  shelterId: number | null;
+  /** 検出した同期方向（push は受信時、pull は差分Pull時） */
+  source: SyncConflictSource;
+  /** 検出時点の手元のレコード */
+  localData: SyncConflictLocalData;
+  /** 同期相手から届いたレコード */
+  remoteData: SyncConflictRemoteData;
+  /** 検出日時 */
+  detectedAt: string;
+  /**
+   * 解決日時
+   * @nullable
+   */
+  resolvedAt: string | null;
+  /**
+   * 解決方法（superseded は同期相手が手元の版を取り込んで更新したため自動解決）
+   * @nullable
+   */
+  resolution: SyncConflictResolution;
+  /**
+   * 解決したスタッフのログインID
+   * @nullable
+   */
+  resolvedBy: string | null;
+}
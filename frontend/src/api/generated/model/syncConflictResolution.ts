@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 解決方法（superseded は同期相手が手元の版を取り込んで更新したため自動解決）
+ * @nullable
+ */
+export type SyncConflictResolution = typeof SyncConflictResolution[keyof typeof SyncConflictResolution] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncConflictResolution = {
+  local: 'local',
+  remote: 'remote',
+  merged: 'merged',
+  superseded: 'superseded',
+} as const;
@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 検出した同期方向（push は受信時、pull は差分Pull時）
+ */
+export type SyncConflictSource = typeof SyncConflictSource[keyof typeof SyncConflictSource];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncConflictSource = {
+  push: 'push',
+  pull: 'pull',
+} as const;
@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 対象テーブル
+ */
+export type SyncConflictTableName = typeof SyncConflictTableName[keyof typeof SyncConflictTableName];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncConflictTableName = {
+  posts: 'posts',
+  comments: 'comments',
+} as const;
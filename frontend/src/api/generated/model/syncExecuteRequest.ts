@@ -9,10 +9,12 @@
  * 同期実行リクエスト
  */
 export interface SyncExecuteRequest {
-  /** 同期先のAPI URL */
+  /** 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
   targetUrl: string;
   /**
-   * 避難所ID（オプション）
+   * 避難所ID（オプション）。指定した場合はこの避難所の未同期データのみ送信します。
+未指定の場合はノードに設定した SYNC_SHELTER_IDS の避難所（未設定なら全避難所）が対象です
+
    * @nullable
    */
   shelterId?: number | null;
@@ -4,6 +4,7 @@
  * 先進プロジェクト実験 Team2 避難所 API
  * OpenAPI spec version: 1.0.0
  */
+import type { SyncOutOfScopeShelter } from './syncOutOfScopeShelter';
 
 /**
  * 同期実行レスポンス
@@ -19,6 +20,19 @@ export interface SyncExecuteResponse {
   locationTracksSynced: number;
   /** 同期したメディア件数 */
   mediaSynced: number;
+  /** 双方で変更されていたため競合として保存した件数 */
+  conflictsDetected?: number;
+  /** 受信が確認できたバッチ数（前回から再開した場合は前回分を含む） */
+  batchesCompleted?: number;
+  /** 分割送信のバッチ総数 */
+  batchesTotal?: number;
+  /**
+   * 送信対象の避難所ID（nullの場合は全避難所）
+   * @nullable
+   */
+  scopeShelterIds?: number[] | null;
+  /** 送信対象外のため送らなかった未同期データ（未同期のまま残ります） */
+  outOfScope?: SyncOutOfScopeShelter[];
   /**
    * 追加のメッセージ
    * @nullable
@@ -0,0 +1,26 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * ノードが扱える同期プロトコルのバージョン範囲
+ */
+export interface SyncHandshakeResponse {
+  /**
+   * 応答したノードのID
+   * @nullable
+   */
+  nodeId: string | null;
+  /** 扱える最新のバージョン */
+  protocolVersion: number;
+  /** 受け入れ可能な最も古いバージョン */
+  minProtocolVersion: number;
+  /** 受け取れる本文の圧縮方式（例：gzip）。送信側は X-Sync-Content-Encoding ヘッダーで圧縮方式を示して本文を圧縮できます。
+圧縮に対応する前のノードは返しません。
+ */
+  contentEncodings?: string[];
+  serverTime: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface SyncJobStartRequest {
+  /** 同期先のURL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
+  targetUrl: string;
+  /** 避難所ID（同期ログの記録用） */
+  shelterId?: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncJobStatusStatus } from './syncJobStatusStatus';
+import type { SyncJobStatusPhase } from './syncJobStatusPhase';
+
+/**
+ * 同期ジョブの進捗
+ */
+export interface SyncJobStatus {
+  /** 同期ジョブID */
+  jobId: number;
+  /** ジョブの状態 */
+  status: SyncJobStatusStatus;
+  /** 実行中（失敗時は失敗した）段階 */
+  phase: SyncJobStatusPhase;
+  /**
+   * 進捗率（メディアファイル1件とデータ1バッチを同じ重みとして計算）
+   * @minimum 0
+   * @maximum 100
+   */
+  progress: number;
+  /** 送信するメディアファイル数 */
+  mediaFilesTotal: number;
+  /** 送信が完了したメディアファイル数 */
+  mediaFilesCompleted: number;
+  /** 送信に失敗したメディアファイル数（再試行キューに入る） */
+  mediaFilesFailed: number;
+  /** 送信対象外の避難所のため送らなかった未同期データ数 */
+  outOfScopeRecords: number;
+  /** データ送信のバッチ総数（データ段階に入るまでは0） */
+  batchesTotal: number;
+  /** 受信が確認できたバッチ数 */
+  batchesCompleted: number;
+  postsSynced: number;
+  commentsSynced: number;
+  locationTracksSynced: number;
+  /** 同期されたメディアのレコード件数 */
+  mediaSynced: number;
+  /** @nullable */
+  errorMessage: string | null;
+  startedAt: string;
+  /** @nullable */
+  completedAt: string | null;
+}
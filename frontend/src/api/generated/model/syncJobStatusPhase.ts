@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 実行中（失敗時は失敗した）段階
+ */
+export type SyncJobStatusPhase = typeof SyncJobStatusPhase[keyof typeof SyncJobStatusPhase];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncJobStatusPhase = {
+  media: 'media',
+  data: 'data',
+  completed: 'completed',
+} as const;
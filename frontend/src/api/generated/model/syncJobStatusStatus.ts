@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * ジョブの状態
+ */
+export type SyncJobStatusStatus = typeof SyncJobStatusStatus[keyof typeof SyncJobStatusStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncJobStatusStatus = {
+  in_progress: 'in_progress',
+  completed: 'completed',
+  failed: 'failed',
+} as const;
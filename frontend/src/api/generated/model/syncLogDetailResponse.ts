@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncLogItem } from './syncLogItem';
+import type { SyncLogFailureItem } from './syncLogFailureItem';
+
+/**
+ * 同期ログの詳細
+ */
+export interface SyncLogDetailResponse {
+  log: SyncLogItem;
+  failures: SyncLogFailureItem[];
+  /** 未再試行の失敗項目があり、同期先に再試行できるかどうか */
+  retryable: boolean;
+}
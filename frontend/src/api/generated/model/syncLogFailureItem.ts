@@ -0,0 +1,37 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncLogFailureItemDirection } from './syncLogFailureItemDirection';
+import type { SyncLogFailureItemRecordType } from './syncLogFailureItemRecordType';
+
+/**
+ * 同期に失敗した項目
+ */
+export interface SyncLogFailureItem {
+  id: number;
+  /** push（送信）/ pull（差分Pullでのメディア取得） */
+  direction: SyncLogFailureItemDirection;
+  recordType: SyncLogFailureItemRecordType;
+  recordId: string;
+  /**
+   * 表示用（投稿の内容の先頭やメディアのファイルパス）
+   * @nullable
+   */
+  label: string | null;
+  /** 失敗した理由 */
+  errorMessage: string;
+  createdAt: string;
+  /**
+   * 再試行した日時（未再試行はnull）
+   * @nullable
+   */
+  retriedAt: string | null;
+  /**
+   * 再試行の結果を記録した同期ログID
+   * @nullable
+   */
+  retryLogId: number | null;
+}
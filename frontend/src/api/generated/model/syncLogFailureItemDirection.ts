@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * push（送信）/ pull（差分Pullでのメディア取得）
+ */
+export type SyncLogFailureItemDirection = typeof SyncLogFailureItemDirection[keyof typeof SyncLogFailureItemDirection];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncLogFailureItemDirection = {
+  push: 'push',
+  pull: 'pull',
+} as const;
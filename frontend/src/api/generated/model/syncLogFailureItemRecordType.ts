@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type SyncLogFailureItemRecordType = typeof SyncLogFailureItemRecordType[keyof typeof SyncLogFailureItemRecordType];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncLogFailureItemRecordType = {
+  post: 'post',
+  comment: 'comment',
+  location_track: 'location_track',
+  occupancy: 'occupancy',
+  inventory_item: 'inventory_item',
+  inventory_transaction: 'inventory_transaction',
+  media: 'media',
+} as const;
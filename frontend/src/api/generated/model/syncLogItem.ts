@@ -4,6 +4,7 @@
  * 先進プロジェクト実験 Team2 避難所 API
  * OpenAPI spec version: 1.0.0
  */
+import type { SyncLogItemPhase } from './syncLogItemPhase';
 
 /**
  * 同期ログの詳細情報
@@ -21,7 +22,7 @@ export interface SyncLogItem {
    * @nullable
    */
   shelterName?: string | null;
-  /** 同期タイプ（full, incremental, manual） */
+  /** 同期タイプ（full, incremental, manual, pull, received, bundle_export, bundle_import, scheduled, retry） */
   syncType: string;
   /** 同期ステータス（pending, in_progress, completed, failed） */
   status: string;
@@ -52,4 +53,35 @@ export interface SyncLogItem {
    * @nullable
    */
   targetUrl?: string | null;
+  /**
+   * 署名検証済みの送信元ノードID（受信ログのみ）
+   * @nullable
+   */
+  verifiedNodeId?: string | null;
+  /** 分割送信のバッチ総数（送信ログのみ） */
+  batchesTotal?: number;
+  /** 受信が確認できたバッチ数（途中で失敗した送信は次回ここから再開） */
+  batchesCompleted?: number;
+  /**
+   * 同期ジョブの段階（同期ジョブ以外のログはnull）
+   * @nullable
+   */
+  phase?: SyncLogItemPhase;
+  /** 送信対象外の避難所のため送らなかった未同期データ数（送信時のみ） */
+  outOfScopeRecords?: number;
+  /** まだ再試行していない失敗項目の数 */
+  pendingFailures?: number;
+  /** データの送信・取得にかかった時間（ミリ秒。メディア転送を除く） */
+  dataDurationMs?: number;
+  /** メディアファイルの転送にかかった時間（ミリ秒） */
+  mediaDurationMs?: number;
+  /** 送受信したデータ本文のバイト数 */
+  payloadBytes?: number;
+  /** 送受信したメディアファイルのバイト数 */
+  mediaBytes?: number;
+  /**
+   * 同期先へのリクエストが応答するまでの平均時間（ミリ秒。リクエストしていない場合はnull）
+   * @nullable
+   */
+  avgUpstreamLatencyMs?: number | null;
 }
@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 同期ジョブの段階（同期ジョブ以外のログはnull）
+ * @nullable
+ */
+export type SyncLogItemPhase = typeof SyncLogItemPhase[keyof typeof SyncLogItemPhase] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncLogItemPhase = {
+  media: 'media',
+  data: 'data',
+  completed: 'completed',
+} as const;
@@ -9,6 +9,11 @@
  * メディア同期実行リクエスト
  */
 export interface SyncMediaExecuteRequest {
-  /** 同期先のAPI URL */
+  /** 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
   targetUrl: string;
+  /**
+   * 避難所ID（オプション。指定した場合はこの避難所の投稿のメディアのみ送信）
+   * @nullable
+   */
+  shelterId?: number | null;
 }
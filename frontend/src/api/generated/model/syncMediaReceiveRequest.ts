@@ -13,6 +13,8 @@ export interface SyncMediaReceiveRequest {
   filePath: string;
   /** コンテンツタイプ */
   contentType?: string;
+  /** ファイル本体のSHA-256（16進数）。一致しない場合は保存せず 422 を返す */
+  sha256?: string;
   /** メディアファイル本体 */
   file: Blob;
 }
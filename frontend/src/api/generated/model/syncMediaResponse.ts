@@ -18,6 +18,8 @@ export interface SyncMediaResponse {
   mediaSynced: number;
   /** 失敗件数 */
   failed: number;
+  /** 前回失敗し、再試行時刻に達していないため今回は送らなかった件数 */
+  waiting?: number;
   /** 失敗詳細 */
   errors?: SyncMediaError[];
 }
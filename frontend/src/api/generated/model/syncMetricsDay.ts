@@ -0,0 +1,42 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 避難所・日ごとに集計した同期の性能指標
+ */
+export interface SyncMetricsDay {
+  /** 集計した日（UTC） */
+  date: string;
+  /**
+   * 避難所ID（避難所を指定しない同期はnull）
+   * @nullable
+   */
+  shelterId: number | null;
+  /** @nullable */
+  shelterName: string | null;
+  /** 同期の回数 */
+  syncCount: number;
+  /** 失敗した同期の回数 */
+  failedCount: number;
+  /** 1回あたりの平均所要時間（ミリ秒。データとメディア転送の合計） */
+  avgDurationMs: number;
+  /** データの送信・取得にかかった時間の合計（ミリ秒） */
+  dataDurationMs: number;
+  /** メディアファイルの転送にかかった時間の合計（ミリ秒） */
+  mediaDurationMs: number;
+  /** 送受信したデータ本文のバイト数の合計 */
+  payloadBytes: number;
+  /** 送受信したメディアファイルのバイト数の合計 */
+  mediaBytes: number;
+  /** 同期先へのリクエスト数 */
+  upstreamRequests: number;
+  /**
+   * 同期先へのリクエストが応答するまでの平均時間（ミリ秒。リクエストしていない場合はnull）
+   * @nullable
+   */
+  avgUpstreamLatencyMs: number | null;
+}
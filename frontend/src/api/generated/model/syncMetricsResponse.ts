@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncMetricsDay } from './syncMetricsDay';
+
+/**
+ * 同期の性能指標の推移
+ */
+export interface SyncMetricsResponse {
+  /** 集計した日数（今日を含む） */
+  days: number;
+  /** 避難所・日ごとの集計（新しい日付順） */
+  metrics: SyncMetricsDay[];
+}
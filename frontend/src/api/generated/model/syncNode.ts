@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export interface SyncNode {
+  nodeId: string;
+  name: string;
+  createdAt: string;
+  /**
+   * 最後に署名検証に成功した日時
+   * @nullable
+   */
+  lastSeenAt: string | null;
+  /** @nullable */
+  revokedAt: string | null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 送信対象外の避難所のため送らない未同期データの件数
+ */
+export interface SyncOutOfScopeShelter {
+  /**
+   * 避難所ID（投稿が手元にないコメント等はnull）
+   * @nullable
+   */
+  shelterId: number | null;
+  /** @nullable */
+  shelterName: string | null;
+  posts: number;
+  comments: number;
+  locationTracks: number;
+  /** 送らないメディアファイル数 */
+  media: number;
+  occupancy: number;
+  inventoryItems: number;
+  inventoryTransactions: number;
+}
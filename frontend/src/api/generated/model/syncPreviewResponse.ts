@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncPushPreview } from './syncPushPreview';
+import type { SyncPreviewResponsePull } from './syncPreviewResponsePull';
+
+/**
+ * 同期内容のプレビュー
+ */
+export interface SyncPreviewResponse {
+  generatedAt: string;
+  push: SyncPushPreview;
+  /**
+   * 差分Pullのプレビュー（targetUrl と避難所IDを指定した場合のみ）
+   * @nullable
+   */
+  pull: SyncPreviewResponsePull;
+}
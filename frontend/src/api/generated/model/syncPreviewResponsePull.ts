@@ -0,0 +1,13 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncPullPreview } from './syncPullPreview';
+
+/**
+ * 差分Pullのプレビュー（targetUrl と避難所IDを指定した場合のみ）
+ * @nullable
+ */
+export type SyncPreviewResponsePull = SyncPullPreview | null;
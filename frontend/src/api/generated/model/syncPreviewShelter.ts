@@ -0,0 +1,27 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 避難所ごとの送信内容
+ */
+export interface SyncPreviewShelter {
+  shelterId: number;
+  /** @nullable */
+  shelterName: string | null;
+  posts: number;
+  comments: number;
+  locationTracks: number;
+  /** メディア件数（レコードまたはファイル本体を送信するもの） */
+  media: number;
+  occupancy: number;
+  inventoryItems: number;
+  inventoryTransactions: number;
+  /** 同期データ（JSON）の推定バイト数 */
+  recordBytes: number;
+  /** 送信するメディアファイル本体のバイト数 */
+  mediaBytes: number;
+}
@@ -9,7 +9,7 @@
  * 差分Pull実行リクエスト
  */
 export interface SyncPullExecuteRequest {
-  /** 同期先のAPI URL */
+  /** 同期先のAPI URL（SYNC_UPSTREAM_URL か登録済みの同期先のみ） */
   targetUrl: string;
   /**
    * 避難所ID（オプション）
@@ -11,6 +11,8 @@
 export interface SyncPullExecuteResponse {
   /** 同期が成功したかどうか */
   success: boolean;
+  /** 取得した避難所数 */
+  sheltersPulled: number;
   /** 取得した投稿数 */
   postsPulled: number;
   /** 取得したコメント数 */
@@ -19,12 +21,22 @@ export interface SyncPullExecuteResponse {
   locationTracksPulled: number;
   /** 取得したメディア件数 */
   mediaPulled: number;
+  /** 取得した在庫品目数 */
+  inventoryItemsPulled: number;
+  /** 新たに反映した入出庫履歴数 */
+  inventoryTransactionsPulled: number;
   /** 同期したメディアファイル数 */
   mediaSynced: number;
   /** 同期に失敗したメディアファイル数 */
   mediaFailed: number;
   /** 最終Pull時刻 */
   lastPulledAt: string;
+  /** 双方で変更されていたため競合として保存した件数 */
+  conflictsDetected?: number;
+  /** 取り込み済みの変更ログ seq */
+  changeCursor?: number;
+  /** 1回の実行で取得できるページ数を超えたため、未取得の変更が残っているかどうか */
+  hasMore?: boolean;
   /**
    * エラーメッセージ（失敗時）
    * @nullable
@@ -0,0 +1,30 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 差分Pullで次に取得される内容（1ページ分）
+ */
+export interface SyncPullPreview {
+  /** 同期先から取得できたかどうか */
+  available: boolean;
+  /**
+   * 取得できなかった場合のエラー
+   * @nullable
+   */
+  error?: string | null;
+  shelters: number;
+  posts: number;
+  comments: number;
+  locationTracks: number;
+  media: number;
+  inventoryItems: number;
+  inventoryTransactions: number;
+  /** 続きのページがあるかどうか */
+  hasMore: boolean;
+  /** 同期先の応答のバイト数（圧縮して返された場合は圧縮後の大きさ。メディアファイル本体を除く） */
+  responseBytes: number;
+}
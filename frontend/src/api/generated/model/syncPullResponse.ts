@@ -4,10 +4,13 @@
  * 先進プロジェクト実験 Team2 避難所 API
  * OpenAPI spec version: 1.0.0
  */
+import type { SyncShelter } from './syncShelter';
 import type { UnsyncedPost } from './unsyncedPost';
 import type { UnsyncedComment } from './unsyncedComment';
 import type { UnsyncedLocationTrack } from './unsyncedLocationTrack';
 import type { UnsyncedMedia } from './unsyncedMedia';
+import type { UnsyncedInventoryItem } from './unsyncedInventoryItem';
+import type { UnsyncedInventoryTransaction } from './unsyncedInventoryTransaction';
 
 /**
  * 差分Pullのレスポンス
@@ -15,6 +18,8 @@ import type { UnsyncedMedia } from './unsyncedMedia';
 export interface SyncPullResponse {
   /** 本番サーバーの現在時刻 */
   serverTime: string;
+  /** 差分避難所データ（全避難所が対象） */
+  shelters?: SyncShelter[];
   /** 差分投稿データ */
   posts: UnsyncedPost[];
   /** 差分コメントデータ */
@@ -23,4 +28,21 @@ export interface SyncPullResponse {
   locationTracks: UnsyncedLocationTrack[];
   /** 差分メディアデータ */
   media: UnsyncedMedia[];
+  /** 差分在庫品目データ */
+  inventoryItems?: UnsyncedInventoryItem[];
+  /** 差分入出庫履歴データ */
+  inventoryTransactions?: UnsyncedInventoryTransaction[];
+  /** このページで読み終えた変更ログ seq（cursor 指定時のみ） */
+  nextCursor?: number;
+  /** 続きのページがあるかどうか（cursor 指定時のみ） */
+  hasMore?: boolean;
+  /** 応答したノードが中継ノード（上流の本番へ転送する避難所ノード）かどうか */
+  relayNode?: boolean;
+  /**
+   * 応答したノードのID（作成元ノードの引き継ぎに使用）
+   * @nullable
+   */
+  nodeId?: string | null;
+  /** レスポンスの同期プロトコルのバージョン（取得側が指定したバージョンと応答側の最新の小さい方。未指定は旧形式の 1） */
+  protocolVersion?: number;
 }
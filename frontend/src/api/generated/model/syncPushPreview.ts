@@ -0,0 +1,40 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncPreviewShelter } from './syncPreviewShelter';
+import type { SyncOutOfScopeShelter } from './syncOutOfScopeShelter';
+
+/**
+ * Push で送信される内容
+ */
+export interface SyncPushPreview {
+  shelters: SyncPreviewShelter[];
+  posts: number;
+  comments: number;
+  locationTracks: number;
+  /** 同期データに含めるメディアレコード件数 */
+  media: number;
+  occupancy: number;
+  inventoryItems: number;
+  inventoryTransactions: number;
+  /** 分割送信のバッチ数 */
+  batches: number;
+  /** 全バッチの同期データ（JSON）の推定バイト数 */
+  recordBytes: number;
+  /** /api/sync/media で送信するメディアファイル数 */
+  mediaFiles: number;
+  /** 送信するメディアファイル本体の合計バイト数 */
+  mediaBytes: number;
+  /** ローカルR2にファイル本体が見つからないメディア数 */
+  missingMediaFiles: number;
+  /**
+   * 送信対象の避難所ID（nullの場合は全避難所）
+   * @nullable
+   */
+  scopeShelterIds: number[] | null;
+  /** 送信対象外のため送らない未同期データ */
+  outOfScope: SyncOutOfScopeShelter[];
+}
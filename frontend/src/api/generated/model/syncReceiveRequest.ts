@@ -8,6 +8,9 @@ import type { UnsyncedPost } from './unsyncedPost';
 import type { UnsyncedComment } from './unsyncedComment';
 import type { UnsyncedLocationTrack } from './unsyncedLocationTrack';
 import type { UnsyncedMedia } from './unsyncedMedia';
+import type { UnsyncedOccupancy } from './unsyncedOccupancy';
+import type { UnsyncedInventoryItem } from './unsyncedInventoryItem';
+import type { UnsyncedInventoryTransaction } from './unsyncedInventoryTransaction';
 
 /**
  * 同期データ受信リクエスト
@@ -21,9 +24,17 @@ export interface SyncReceiveRequest {
   locationTracks: UnsyncedLocationTrack[];
   /** 同期するメディアデータ */
   media: UnsyncedMedia[];
+  /** 同期する避難者数の記録 */
+  occupancy?: UnsyncedOccupancy[];
+  /** 同期する在庫品目 */
+  inventoryItems?: UnsyncedInventoryItem[];
+  /** 同期する入出庫履歴 */
+  inventoryTransactions?: UnsyncedInventoryTransaction[];
   /**
    * 同期元のURL
    * @nullable
    */
   sourceUrl?: string | null;
+  /** ペイロードを生成した同期プロトコルのバージョン（未指定は旧形式の 1 として扱う） */
+  protocolVersion?: number;
 }
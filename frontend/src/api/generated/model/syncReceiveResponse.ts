@@ -20,6 +20,8 @@ export interface SyncReceiveResponse {
   locationTracksSynced: number;
   /** 保存したメディア件数 */
   mediaSynced: number;
+  /** 双方で変更されていたため競合として保存した件数 */
+  conflictsDetected?: number;
   /** 避難所ごとの同期結果 */
   shelterResults?: ShelterSyncResult[];
   /**
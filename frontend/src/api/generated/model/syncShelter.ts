@@ -0,0 +1,30 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 差分Pullで配信する避難所データ
+ */
+export interface SyncShelter {
+  id: number;
+  name: string;
+  /** @nullable */
+  address?: string | null;
+  /** @nullable */
+  latitude?: number | null;
+  /** @nullable */
+  longitude?: number | null;
+  /** @nullable */
+  capacity?: number | null;
+  /** @nullable */
+  opening_hours?: string | null;
+  /** open または closed */
+  status: string;
+  /** @nullable */
+  closed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { SyncTargetItemHealth } from './syncTargetItemHealth';
+
+/**
+ * 同期先の設定と状態
+ */
+export interface SyncTargetItem {
+  id: number;
+  name: string;
+  url: string;
+  pushEnabled: boolean;
+  pullShelterIds: number[];
+  intervalMinutes: number;
+  enabled: boolean;
+  /** 低帯域の回線か（差分Pullで取得する画像を縮小する） */
+  lowBandwidth: boolean;
+  /** @nullable */
+  lastRunAt: string | null;
+  /** @nullable */
+  lastSuccessAt: string | null;
+  /**
+   * 直近の失敗理由（成功するとnull）
+   * @nullable
+   */
+  lastError: string | null;
+  /** 連続失敗回数 */
+  consecutiveFailures: number;
+  /** 同期先の状態 */
+  health: SyncTargetItemHealth;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 同期先の状態
+ */
+export type SyncTargetItemHealth = typeof SyncTargetItemHealth[keyof typeof SyncTargetItemHealth];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const SyncTargetItemHealth = {
+  healthy: 'healthy',
+  stale: 'stale',
+  failing: 'failing',
+  pending: 'pending',
+  disabled: 'disabled',
+} as const;
@@ -0,0 +1,30 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 同期先の登録・更新（更新時は指定した項目のみ変更）
+ */
+export interface SyncTargetRequest {
+  /** 表示名（例：県本部） */
+  name?: string;
+  /** 同期先のURL */
+  url?: string;
+  /** 変更ログを転送するか（既定値 true） */
+  pushEnabled?: boolean;
+  /** 差分Pullする避難所ID（区全体を取得する場合は区内の避難所をすべて指定。既定値は空でPullしない） */
+  pullShelterIds?: number[];
+  /**
+   * 定期同期の間隔（分。既定値 15）
+   * @minimum 15
+   * @maximum 1440
+   */
+  intervalMinutes?: number;
+  /** 定期同期の対象にするか（既定値 true） */
+  enabled?: boolean;
+  /** 低帯域の回線か（差分Pullで取得する画像を縮小する。既定値 false） */
+  lowBandwidth?: boolean;
+}
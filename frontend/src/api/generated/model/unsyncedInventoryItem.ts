@@ -0,0 +1,26 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 未同期の在庫品目（現在庫は入出庫履歴から再計算するため含まない）
+ */
+export interface UnsyncedInventoryItem {
+  id: string;
+  shelter_id: number;
+  name: string;
+  unit: string;
+  min_quantity: number;
+  created_at: string;
+  updated_at: string;
+  /** @nullable */
+  deleted_at?: string | null;
+  /**
+   * 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull）
+   * @nullable
+   */
+  origin_node_id?: string | null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { UnsyncedInventoryTransactionTransactionType } from './unsyncedInventoryTransactionTransactionType';
+
+/**
+ * 未同期の入出庫履歴
+ */
+export interface UnsyncedInventoryTransaction {
+  id: string;
+  item_id: string;
+  shelter_id: number;
+  transaction_type: UnsyncedInventoryTransactionTransactionType;
+  quantity: number;
+  /** @nullable */
+  note?: string | null;
+  /** @nullable */
+  recorded_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  /**
+   * 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull）
+   * @nullable
+   */
+  origin_node_id?: string | null;
+}
@@ -0,0 +1,15 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+export type UnsyncedInventoryTransactionTransactionType = typeof UnsyncedInventoryTransactionTransactionType[keyof typeof UnsyncedInventoryTransactionTransactionType];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UnsyncedInventoryTransactionTransactionType = {
+  in: 'in',
+  out: 'out',
+} as const;
@@ -19,4 +19,14 @@ export interface UnsyncedMedia {
   updated_at: string;
   /** @nullable */
   deleted_at?: string | null;
+  /**
+   * 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull）
+   * @nullable
+   */
+  origin_node_id?: string | null;
+  /**
+   * ファイル本体のSHA-256（16進数。記録前のメディアはnull）
+   * @nullable
+   */
+  sha256?: string | null;
 }
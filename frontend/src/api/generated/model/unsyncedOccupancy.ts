@@ -0,0 +1,25 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 未同期の避難者数記録
+ */
+export interface UnsyncedOccupancy {
+  id: string;
+  shelter_id: number;
+  headcount: number;
+  recorded_at: string;
+  /** @nullable */
+  recorded_by: string | null;
+  created_at: string;
+  updated_at: string;
+  /**
+   * 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull）
+   * @nullable
+   */
+  origin_node_id?: string | null;
+}
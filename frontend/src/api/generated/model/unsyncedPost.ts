@@ -22,4 +22,19 @@ export interface UnsyncedPost {
   is_free_chat: number;
   /** @nullable */
   status?: string | null;
+  /**
+   * 論理削除日時（削除の墓標。更新は updated_at の新しい方を採用）
+   * @nullable
+   */
+  deleted_at?: string | null;
+  /**
+   * 送信元が最後に同期相手と一致させた版の updated_at（競合検出に使用）
+   * @nullable
+   */
+  base_updated_at?: string | null;
+  /**
+   * 作成元ノードID（中継同期で作成元を引き継ぐ。自ノード作成の場合はnull）
+   * @nullable
+   */
+  origin_node_id?: string | null;
 }
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * コメントに紐づく状況ステータス
+ */
+export type UpdateCommentRequestStatus = typeof UpdateCommentRequestStatus[keyof typeof UpdateCommentRequestStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdateCommentRequestStatus = {
+  未対応: '未対応',
+  対応中: '対応中',
+  対応済み: '対応済み',
+} as const;
@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { UpdatePostRequestStatus } from './updatePostRequestStatus';
+
+export interface UpdatePostRequest {
+  /**
+   * 投稿本文
+   * @nullable
+   */
+  content?: string | null;
+  /**
+   * 現在の状況ステータス
+   * @nullable
+   */
+  status?: UpdatePostRequestStatus;
+}
@@ -0,0 +1,28 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+import type { UpdatePostResponsePostStatus } from './updatePostResponsePostStatus';
+
+export type UpdatePostResponsePost = {
+  /** 投稿ID */
+  id: string;
+  /** 投稿先の避難所ID */
+  shelterId: number;
+  /** 投稿者の表示名 */
+  authorName: string;
+  /**
+   * 投稿本文
+   * @nullable
+   */
+  content: string | null;
+  /**
+   * 現在の状況ステータス
+   * @nullable
+   */
+  status: UpdatePostResponsePostStatus;
+  /** 最終更新日時 */
+  updatedAt: string;
+};
@@ -0,0 +1,20 @@
+/**
+ * Generated by orval v7.13.2 🍺
+ * Do not edit manually.
+ * 先進プロジェクト実験 Team2 避難所 API
+ * OpenAPI spec version: 1.0.0
+ */
+
+/**
+ * 現在の状況ステータス
+ * @nullable
+ */
+export type UpdatePostResponsePostStatus = typeof UpdatePostResponsePostStatus[keyof typeof UpdatePostResponsePostStatus] | null;
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const UpdatePostResponsePostStatus = {
+  緊急: '緊急',
+  重要: '重要',
+  通常: '通常',
+} as const;
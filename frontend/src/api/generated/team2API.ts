@@ -26,33 +26,83 @@ import type {
 import type {
   CreateCommentRequest,
   CreateCommentResponse,
+  CreateInventoryItemRequest,
   CreatePostResponse,
+  CreateShelterRequest,
+  CreateStaffRequest,
+  CreateSyncNodeRequest,
+  CreateSyncNodeResponse,
   ErrorResponse,
   GetApiGeocodeReverseParams,
+  GetApiSyncBundleExportParams,
+  GetApiSyncConflictsParams,
   GetApiSyncLogsParams,
+  GetApiSyncMetricsParams,
+  GetApiSyncPreviewParams,
   GetApiSyncPullMediaParams,
   GetApiSyncPullParams,
   GetPostsIdCommentsParams,
+  GetSearchParams,
+  GetSheltersIdPostsParams,
+  InventoryItem,
+  InventoryItemUpdateRequest,
+  InventoryListResponse,
+  InventoryTransactionsResponse,
+  LoginRequest,
+  LoginResponse,
+  MediaSyncRetryListResponse,
+  MediaSyncRetryNowResponse,
+  OccupancyHistoryResponse,
+  OccupancyRecord,
+  OkResponse,
   PostCommentsResponse,
   PostDetailResponse,
   PostPostsBody,
+  RecordOccupancyRequest,
+  ResolveSyncConflictRequest,
   ReverseGeocoderResponse,
+  SearchResponse,
   ShelterDetails,
   ShelterListWithCountResponse,
   ShelterPostsResponse,
+  ShelterStatsResponse,
+  ShelterUpdateRequest,
+  StaffAccount,
+  StockTransactionRequest,
+  SyncBundle,
+  SyncBundleImportResponse,
+  SyncConflict,
+  SyncConflictsResponse,
   SyncExecuteRequest,
   SyncExecuteResponse,
+  SyncHandshakeResponse,
+  SyncJobStartRequest,
+  SyncJobStartResponse,
+  SyncJobStatus,
+  SyncLogDetailResponse,
+  SyncLogItem,
   SyncLogsResponse,
   SyncMediaExecuteRequest,
   SyncMediaReceiveRequest,
   SyncMediaReceiveResponse,
   SyncMediaResponse,
+  SyncMetricsResponse,
+  SyncNode,
+  SyncNodesResponse,
+  SyncPreviewResponse,
   SyncPullExecuteRequest,
   SyncPullExecuteResponse,
   SyncPullResponse,
   SyncReceiveRequest,
   SyncReceiveResponse,
-  SyncStatusResponse
+  SyncStatusResponse,
+  SyncTargetItem,
+  SyncTargetListResponse,
+  SyncTargetRequest,
+  UpdateCommentRequest,
+  UpdateCommentResponse,
+  UpdatePostRequest,
+  UpdatePostResponse
 } from './model';
 
 import { axiosInstance } from '../axios-instance';
@@ -157,6 +207,294 @@ export function useGetApiGeocodeReverse<TData = Awaited<ReturnType<typeof getApi
 
 
 
+/**
+ * ログインIDとパスワードを検証し、Bearerトークンを発行します。
+ * @summary ログイン
+ */
+export const postAuthLogin = (
+    loginRequest: LoginRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<LoginResponse>(
+      {url: `/auth/login`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: loginRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostAuthLoginMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthLogin>>, TError,{data: LoginRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postAuthLogin>>, TError,{data: LoginRequest}, TContext> => {
+
+const mutationKey = ['postAuthLogin'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postAuthLogin>>, {data: LoginRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postAuthLogin(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostAuthLoginMutationResult = NonNullable<Awaited<ReturnType<typeof postAuthLogin>>>
+    export type PostAuthLoginMutationBody = LoginRequest
+    export type PostAuthLoginMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary ログイン
+ */
+export const usePostAuthLogin = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthLogin>>, TError,{data: LoginRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postAuthLogin>>,
+        TError,
+        {data: LoginRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostAuthLoginMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 現在のBearerトークンを失効させます。
+ * @summary ログアウト
+ */
+export const postAuthLogout = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<OkResponse>(
+      {url: `/auth/logout`, method: 'POST', signal
+    },
+      options);
+    }
+  
+
+
+export const getPostAuthLogoutMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthLogout>>, TError,void, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postAuthLogout>>, TError,void, TContext> => {
+
+const mutationKey = ['postAuthLogout'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postAuthLogout>>, void> = () => {
+          
+
+          return  postAuthLogout(requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostAuthLogoutMutationResult = NonNullable<Awaited<ReturnType<typeof postAuthLogout>>>
+    
+    export type PostAuthLogoutMutationError = ErrorType<ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary ログアウト
+ */
+export const usePostAuthLogout = <TError = ErrorType<ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthLogout>>, TError,void, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postAuthLogout>>,
+        TError,
+        void,
+        TContext
+      > => {
+
+      const mutationOptions = getPostAuthLogoutMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * @summary ログイン中のスタッフ情報を取得
+ */
+export const getAuthMe = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<StaffAccount>(
+      {url: `/auth/me`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetAuthMeQueryKey = () => {
+    return [
+    `/auth/me`
+    ] as const;
+    }
+
+    
+export const getGetAuthMeQueryOptions = <TData = Awaited<ReturnType<typeof getAuthMe>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetAuthMeQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getAuthMe>>> = ({ signal }) => getAuthMe(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetAuthMeQueryResult = NonNullable<Awaited<ReturnType<typeof getAuthMe>>>
+export type GetAuthMeQueryError = ErrorType<ErrorResponse>
+
+
+export function useGetAuthMe<TData = Awaited<ReturnType<typeof getAuthMe>>, TError = ErrorType<ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getAuthMe>>,
+          TError,
+          Awaited<ReturnType<typeof getAuthMe>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetAuthMe<TData = Awaited<ReturnType<typeof getAuthMe>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getAuthMe>>,
+          TError,
+          Awaited<ReturnType<typeof getAuthMe>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetAuthMe<TData = Awaited<ReturnType<typeof getAuthMe>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary ログイン中のスタッフ情報を取得
+ */
+
+export function useGetAuthMe<TData = Awaited<ReturnType<typeof getAuthMe>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getAuthMe>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetAuthMeQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 本部管理者（hq_admin）のみ実行できます。
+ * @summary スタッフアカウントを作成
+ */
+export const postAuthStaff = (
+    createStaffRequest: CreateStaffRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<StaffAccount>(
+      {url: `/auth/staff`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createStaffRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostAuthStaffMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthStaff>>, TError,{data: CreateStaffRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postAuthStaff>>, TError,{data: CreateStaffRequest}, TContext> => {
+
+const mutationKey = ['postAuthStaff'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postAuthStaff>>, {data: CreateStaffRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postAuthStaff(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostAuthStaffMutationResult = NonNullable<Awaited<ReturnType<typeof postAuthStaff>>>
+    export type PostAuthStaffMutationBody = CreateStaffRequest
+    export type PostAuthStaffMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary スタッフアカウントを作成
+ */
+export const usePostAuthStaff = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postAuthStaff>>, TError,{data: CreateStaffRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postAuthStaff>>,
+        TError,
+        {data: CreateStaffRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostAuthStaffMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
 /**
  * 未同期データの統計情報を取得します。
  * @summary 同期ステータスを取得
@@ -183,7 +521,7 @@ export const getGetApiSyncStatusQueryKey = () => {
     }
 
     
-export const getGetApiSyncStatusQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetApiSyncStatusQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
@@ -202,43 +540,2631 @@ const {query: queryOptions, request: requestOptions} = options ?? {};
 }
 
 export type GetApiSyncStatusQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncStatus>>>
-export type GetApiSyncStatusQueryError = ErrorType<ErrorResponse>
+export type GetApiSyncStatusQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
 
 
-export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse>>(
+export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
   options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
           Awaited<ReturnType<typeof getApiSyncStatus>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncStatus>>
+          Awaited<ReturnType<typeof getApiSyncStatus>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncStatus>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncStatus>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期ステータスを取得
+ */
+
+export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncStatusQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * `/api/sync/execute` と `/api/sync/media` で送信される未同期データを、避難所ごとの件数と推定容量で返します（実際には同期しません）。
+メディアファイルの容量はR2のオブジェクトサイズから求めます。
+`targetUrl` を指定すると、同期先の `/api/sync/pull` から次に取得されるページも集計します（取得したデータは反映せず、カーソルも進めません）。
+
+ * @summary 同期内容をプレビュー
+ */
+export const getApiSyncPreview = (
+    params?: GetApiSyncPreviewParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncPreviewResponse>(
+      {url: `/api/sync/preview`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncPreviewQueryKey = (params?: GetApiSyncPreviewParams,) => {
+    return [
+    `/api/sync/preview`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncPreviewQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncPreview>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncPreviewParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncPreviewQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncPreview>>> = ({ signal }) => getApiSyncPreview(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncPreviewQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncPreview>>>
+export type GetApiSyncPreviewQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncPreview<TData = Awaited<ReturnType<typeof getApiSyncPreview>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncPreviewParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPreview>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPreview>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPreview<TData = Awaited<ReturnType<typeof getApiSyncPreview>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPreviewParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPreview>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPreview>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPreview<TData = Awaited<ReturnType<typeof getApiSyncPreview>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPreviewParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期内容をプレビュー
+ */
+
+export function useGetApiSyncPreview<TData = Awaited<ReturnType<typeof getApiSyncPreview>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPreviewParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPreview>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncPreviewQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * ローカルDBの未同期データを本番DBに同期します。
+データは一定件数ごとのバッチに分けて送信し、受信が確認できたバッチから同期済みにします。
+途中のバッチで失敗した場合は、次回の実行で同じ同期ログを引き継いで残りのバッチから再開します。
+定期同期（Cron Trigger）を含む他の同期処理の実行中は 409 を返します。
+本番と通信できない場合は、`targetUrl` に他の避難所ノードを指定して中継させることもできます。
+中継ノード（`SYNC_UPSTREAM_URL` を設定したノード）は受信データを未同期として保持し、上流へ転送します。
+
+ * @summary 同期を実行
+ */
+export const postApiSyncExecute = (
+    syncExecuteRequest: SyncExecuteRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncExecuteResponse>(
+      {url: `/api/sync/execute`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncExecuteRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncExecuteMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncExecute'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncExecute>>, {data: SyncExecuteRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncExecute(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncExecuteMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncExecute>>>
+    export type PostApiSyncExecuteMutationBody = SyncExecuteRequest
+    export type PostApiSyncExecuteMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期を実行
+ */
+export const usePostApiSyncExecute = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncExecute>>,
+        TError,
+        {data: SyncExecuteRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncExecuteMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 応答したノードが扱える同期プロトコルのバージョン範囲を返します。
+送信側は送信前にこのエンドポイントで双方が扱える最新のバージョンを決め、ペイロードの protocolVersion に設定します。
+このエンドポイントがない（404）ノードは旧形式（バージョン 1）のみ扱えるものとみなします。
+
+ * @summary 同期プロトコルのハンドシェイク
+ */
+export const getApiSyncHandshake = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncHandshakeResponse>(
+      {url: `/api/sync/handshake`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncHandshakeQueryKey = () => {
+    return [
+    `/api/sync/handshake`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncHandshakeQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncHandshake>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncHandshakeQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncHandshake>>> = ({ signal }) => getApiSyncHandshake(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncHandshakeQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncHandshake>>>
+export type GetApiSyncHandshakeQueryError = ErrorType<ErrorResponse>
+
+
+export function useGetApiSyncHandshake<TData = Awaited<ReturnType<typeof getApiSyncHandshake>>, TError = ErrorType<ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncHandshake>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncHandshake>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncHandshake<TData = Awaited<ReturnType<typeof getApiSyncHandshake>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncHandshake>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncHandshake>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncHandshake<TData = Awaited<ReturnType<typeof getApiSyncHandshake>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期プロトコルのハンドシェイク
+ */
+
+export function useGetApiSyncHandshake<TData = Awaited<ReturnType<typeof getApiSyncHandshake>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncHandshake>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncHandshakeQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 指定した避難所の差分データを取得します。
+`cursor` を指定すると、投稿・コメント・位置情報トラック・メディアは変更ログの seq 順にページ単位で返します。
+レスポンスの `nextCursor` を次回の `cursor` に指定し、`hasMore` が false になるまで取得してください。
+避難所・在庫情報は `since` 基準で返します。
+X-Sync-Accept-Encoding ヘッダーで受け取れる圧縮方式を示すと、本文を圧縮して返し、X-Sync-Content-Encoding ヘッダーで圧縮方式を示します。
+
+ * @summary 本番DBの差分データを取得
+ */
+export const getApiSyncPull = (
+    params?: GetApiSyncPullParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncPullResponse>(
+      {url: `/api/sync/pull`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncPullQueryKey = (params?: GetApiSyncPullParams,) => {
+    return [
+    `/api/sync/pull`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncPullQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncPullQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncPull>>> = ({ signal }) => getApiSyncPull(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncPullQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncPull>>>
+export type GetApiSyncPullQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncPullParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPull>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPull>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPull>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPull>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 本番DBの差分データを取得
+ */
+
+export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncPullQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 本番DBからローカルDBへ差分データを同期します。
+`targetUrl` に他の避難所ノードを指定した場合、そのノードが中継ノードであれば取得したデータを未同期として保持し、
+このノードが本番と通信できるようになった時点で作成元ノードを引き継いだまま本番へ転送します。
+
+ * @summary 差分Pullを実行
+ */
+export const postApiSyncPullExecute = (
+    syncPullExecuteRequest: SyncPullExecuteRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncPullExecuteResponse>(
+      {url: `/api/sync/pull/execute`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncPullExecuteRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncPullExecuteMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncPullExecute'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncPullExecute>>, {data: SyncPullExecuteRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncPullExecute(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncPullExecuteMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncPullExecute>>>
+    export type PostApiSyncPullExecuteMutationBody = SyncPullExecuteRequest
+    export type PostApiSyncPullExecuteMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 差分Pullを実行
+ */
+export const usePostApiSyncPullExecute = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncPullExecute>>,
+        TError,
+        {data: SyncPullExecuteRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncPullExecuteMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 指定したfile_pathのメディアファイルを本番R2から取得します。
+`maxWidth` を指定すると、画像はこの幅まで縮小して返します（Images バインディングがあるノードのみ）。
+縮小した場合は X-Sync-Media-Downscaled ヘッダーを付け、元のファイルとはSHA-256が一致しません。
+
+ * @summary メディアファイルをダウンロード
+ */
+export const getApiSyncPullMedia = (
+    params: GetApiSyncPullMediaParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<Blob>(
+      {url: `/api/sync/pull/media`, method: 'GET',
+        params,
+        responseType: 'blob', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncPullMediaQueryKey = (params?: GetApiSyncPullMediaParams,) => {
+    return [
+    `/api/sync/pull/media`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncPullMediaQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncPullMediaQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncPullMedia>>> = ({ signal }) => getApiSyncPullMedia(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncPullMediaQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncPullMedia>>>
+export type GetApiSyncPullMediaQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: GetApiSyncPullMediaParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPullMedia>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPullMedia>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncPullMedia>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncPullMedia>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary メディアファイルをダウンロード
+ */
+
+export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncPullMediaQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * ローカルR2の未同期メディアを本番R2に同期します。
+ * @summary メディア同期を実行
+ */
+export const postApiSyncMedia = (
+    syncMediaExecuteRequest: SyncMediaExecuteRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncMediaResponse>(
+      {url: `/api/sync/media`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncMediaExecuteRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncMediaMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncMedia'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncMedia>>, {data: SyncMediaExecuteRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncMedia(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncMediaMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncMedia>>>
+    export type PostApiSyncMediaMutationBody = SyncMediaExecuteRequest
+    export type PostApiSyncMediaMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary メディア同期を実行
+ */
+export const usePostApiSyncMedia = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncMedia>>,
+        TError,
+        {data: SyncMediaExecuteRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncMediaMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * メディアファイル → データの順に未同期分を送信する同期ジョブを開始します。
+ジョブはレスポンス後もバックグラウンドで実行され、進捗は返却したジョブIDで取得できます。
+メディア本体を送れなかった投稿（とそのコメント・位置情報）は次回の同期に回します。
+
+ * @summary 同期ジョブを開始
+ */
+export const postApiSyncJobs = (
+    syncJobStartRequest: SyncJobStartRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncJobStartResponse>(
+      {url: `/api/sync/jobs`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncJobStartRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncJobsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncJobs>>, TError,{data: SyncJobStartRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncJobs>>, TError,{data: SyncJobStartRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncJobs'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncJobs>>, {data: SyncJobStartRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncJobs(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncJobsMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncJobs>>>
+    export type PostApiSyncJobsMutationBody = SyncJobStartRequest
+    export type PostApiSyncJobsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期ジョブを開始
+ */
+export const usePostApiSyncJobs = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncJobs>>, TError,{data: SyncJobStartRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncJobs>>,
+        TError,
+        {data: SyncJobStartRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncJobsMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 同期ジョブの段階・メディアファイルとバッチの送信状況・進捗率を取得します。
+ * @summary 同期ジョブの進捗を取得
+ */
+export const getApiSyncJobsId = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncJobStatus>(
+      {url: `/api/sync/jobs/${id}`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncJobsIdQueryKey = (id?: number,) => {
+    return [
+    `/api/sync/jobs/${id}`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncJobsIdQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncJobsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncJobsIdQueryKey(id);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncJobsId>>> = ({ signal }) => getApiSyncJobsId(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncJobsIdQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncJobsId>>>
+export type GetApiSyncJobsIdQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncJobsId<TData = Awaited<ReturnType<typeof getApiSyncJobsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncJobsId>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncJobsId>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncJobsId<TData = Awaited<ReturnType<typeof getApiSyncJobsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncJobsId>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncJobsId>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncJobsId<TData = Awaited<ReturnType<typeof getApiSyncJobsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期ジョブの進捗を取得
+ */
+
+export function useGetApiSyncJobsId<TData = Awaited<ReturnType<typeof getApiSyncJobsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncJobsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncJobsIdQueryOptions(id,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 転送に失敗し、間隔を空けて再試行するメディアファイルの一覧を取得します。
+ * @summary メディア転送の再試行キューを取得
+ */
+export const getApiSyncMediaRetries = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<MediaSyncRetryListResponse>(
+      {url: `/api/sync/media/retries`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncMediaRetriesQueryKey = () => {
+    return [
+    `/api/sync/media/retries`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncMediaRetriesQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncMediaRetriesQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncMediaRetries>>> = ({ signal }) => getApiSyncMediaRetries(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncMediaRetriesQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncMediaRetries>>>
+export type GetApiSyncMediaRetriesQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncMediaRetries<TData = Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncMediaRetries>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncMediaRetries>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncMediaRetries<TData = Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncMediaRetries>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncMediaRetries>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncMediaRetries<TData = Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary メディア転送の再試行キューを取得
+ */
+
+export function useGetApiSyncMediaRetries<TData = Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMediaRetries>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncMediaRetriesQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 再試行時刻に達していないメディアも、次回の同期で再試行されるようにします。
+ * @summary メディア転送をすぐに再試行
+ */
+export const postApiSyncMediaRetriesRetryNow = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<MediaSyncRetryNowResponse>(
+      {url: `/api/sync/media/retries/retry-now`, method: 'POST', signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncMediaRetriesRetryNowMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>, TError,void, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>, TError,void, TContext> => {
+
+const mutationKey = ['postApiSyncMediaRetriesRetryNow'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>, void> = () => {
+          
+
+          return  postApiSyncMediaRetriesRetryNow(requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncMediaRetriesRetryNowMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>>
+    
+    export type PostApiSyncMediaRetriesRetryNowMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary メディア転送をすぐに再試行
+ */
+export const usePostApiSyncMediaRetriesRetryNow = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>, TError,void, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncMediaRetriesRetryNow>>,
+        TError,
+        void,
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncMediaRetriesRetryNowMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 本番側でメディアファイルを受信してR2に保存します。
+`sha256` を指定した場合、ファイル本体のSHA-256が一致しなければ保存せず 422 を返します。
+
+ * @summary メディア同期データを受信
+ */
+export const postApiSyncMediaReceive = (
+    syncMediaReceiveRequest: SyncMediaReceiveRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      const formData = new FormData();
+formData.append(`filePath`, syncMediaReceiveRequest.filePath)
+if(syncMediaReceiveRequest.contentType !== undefined) {
+ formData.append(`contentType`, syncMediaReceiveRequest.contentType)
+ }
+if(syncMediaReceiveRequest.sha256 !== undefined) {
+ formData.append(`sha256`, syncMediaReceiveRequest.sha256)
+ }
+formData.append(`file`, syncMediaReceiveRequest.file)
+
+      return axiosInstance<SyncMediaReceiveResponse>(
+      {url: `/api/sync/media/receive`, method: 'POST',
+      headers: {'Content-Type': 'multipart/form-data', },
+       data: formData, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncMediaReceiveMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncMediaReceive'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, {data: SyncMediaReceiveRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncMediaReceive(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncMediaReceiveMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncMediaReceive>>>
+    export type PostApiSyncMediaReceiveMutationBody = SyncMediaReceiveRequest
+    export type PostApiSyncMediaReceiveMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary メディア同期データを受信
+ */
+export const usePostApiSyncMediaReceive = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncMediaReceive>>,
+        TError,
+        {data: SyncMediaReceiveRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncMediaReceiveMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 他の環境からの同期データを受信してDBに保存します。
+データは避難所ごとに1つのトランザクションで反映し、途中で失敗した避難所は何も反映せず shelterResults に失敗として返します。
+旧バージョンの形式（protocolVersion なし）は現在の形式に変換して反映し、対応していないバージョンは失敗として同期ログに記録して 400 を返します。
+本文は X-Sync-Content-Encoding ヘッダーで示した方式（gzip）で圧縮できます。署名は圧縮後の本文に対して付けてください。
+
+ * @summary 同期データを受信
+ */
+export const postApiSyncReceive = (
+    syncReceiveRequest: SyncReceiveRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncReceiveResponse>(
+      {url: `/api/sync/receive`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncReceiveRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncReceiveMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncReceive'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncReceive>>, {data: SyncReceiveRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncReceive(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncReceiveMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncReceive>>>
+    export type PostApiSyncReceiveMutationBody = SyncReceiveRequest
+    export type PostApiSyncReceiveMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期データを受信
+ */
+export const usePostApiSyncReceive = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncReceive>>,
+        TError,
+        {data: SyncReceiveRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncReceiveMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 本番と通信できない避難所向けに、未同期データ（Push同期で送るものと同じ）とR2のメディアファイルを1つの署名付きファイルに書き出します。
+ファイルにはマニフェストとSHA-256チェックサムが含まれ、このノードの共有鍵（SYNC_NODE_SECRET）で署名されます。
+持ち運んだファイルが届いたかは分からないため、書き出したデータは同期済みにしません。
+
+ * @summary 同期バンドルを書き出す
+ */
+export const getApiSyncBundleExport = (
+    params?: GetApiSyncBundleExportParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncBundle>(
+      {url: `/api/sync/bundle/export`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncBundleExportQueryKey = (params?: GetApiSyncBundleExportParams,) => {
+    return [
+    `/api/sync/bundle/export`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncBundleExportQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncBundleExportParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncBundleExportQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncBundleExport>>> = ({ signal }) => getApiSyncBundleExport(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncBundleExportQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncBundleExport>>>
+export type GetApiSyncBundleExportQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncBundleExport<TData = Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncBundleExportParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncBundleExport>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncBundleExport>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncBundleExport<TData = Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncBundleExportParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncBundleExport>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncBundleExport>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncBundleExport<TData = Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncBundleExportParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期バンドルを書き出す
+ */
+
+export function useGetApiSyncBundleExport<TData = Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncBundleExportParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncBundleExport>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncBundleExportQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 他のノードで書き出した同期バンドルの署名とチェックサムを検証し、メディアファイルをR2に保存した上で、Push受信と同じ処理で避難所ごとに反映します。
+署名は作成元ノードの共有鍵で検証するため、作成元ノードを登録しておく必要があります。同じバンドルを再度取り込んでも重複はしません。
+
+ * @summary 同期バンドルを取り込む
+ */
+export const postApiSyncBundleImport = (
+    syncBundle: SyncBundle,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncBundleImportResponse>(
+      {url: `/api/sync/bundle/import`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncBundle, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncBundleImportMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncBundleImport>>, TError,{data: SyncBundle}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncBundleImport>>, TError,{data: SyncBundle}, TContext> => {
+
+const mutationKey = ['postApiSyncBundleImport'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncBundleImport>>, {data: SyncBundle}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncBundleImport(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncBundleImportMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncBundleImport>>>
+    export type PostApiSyncBundleImportMutationBody = SyncBundle
+    export type PostApiSyncBundleImportMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期バンドルを取り込む
+ */
+export const usePostApiSyncBundleImport = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncBundleImport>>, TError,{data: SyncBundle}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncBundleImport>>,
+        TError,
+        {data: SyncBundle},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncBundleImportMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 過去の同期履歴をページネーション形式で取得します。
+成功した同期ログは30日を過ぎると定期同期のたびに削除されます（失敗したログは残ります）。
+
+ * @summary 同期ログ一覧を取得
+ */
+export const getApiSyncLogs = (
+    params?: GetApiSyncLogsParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncLogsResponse>(
+      {url: `/api/sync/logs`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncLogsQueryKey = (params?: GetApiSyncLogsParams,) => {
+    return [
+    `/api/sync/logs`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncLogsQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncLogsQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncLogs>>> = ({ signal }) => getApiSyncLogs(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncLogsQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncLogs>>>
+export type GetApiSyncLogsQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncLogsParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncLogs>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncLogs>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncLogs>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncLogs>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期ログ一覧を取得
+ */
+
+export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncLogsQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 同期ログと、送信・取得に失敗した項目（投稿・メディアなど）とその理由を取得します。
+ * @summary 同期ログの詳細を取得
+ */
+export const getApiSyncLogsId = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncLogDetailResponse>(
+      {url: `/api/sync/logs/${id}`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncLogsIdQueryKey = (id?: number,) => {
+    return [
+    `/api/sync/logs/${id}`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncLogsIdQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncLogsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncLogsIdQueryKey(id);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncLogsId>>> = ({ signal }) => getApiSyncLogsId(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncLogsIdQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncLogsId>>>
+export type GetApiSyncLogsIdQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncLogsId<TData = Awaited<ReturnType<typeof getApiSyncLogsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncLogsId>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncLogsId>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncLogsId<TData = Awaited<ReturnType<typeof getApiSyncLogsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncLogsId>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncLogsId>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncLogsId<TData = Awaited<ReturnType<typeof getApiSyncLogsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期ログの詳細を取得
+ */
+
+export function useGetApiSyncLogsId<TData = Awaited<ReturnType<typeof getApiSyncLogsId>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncLogsIdQueryOptions(id,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 同期ログに記録された未再試行の失敗項目だけを、同じ同期先との間で送り直し（メディアは取得し直し）ます。
+結果は新しい同期ログ（種類 retry）に記録し、元の失敗項目は再試行済みになります。
+他の同期処理の実行中は 409 を返します。
+
+ * @summary 同期ログの失敗項目を再試行
+ */
+export const postApiSyncLogsIdRetry = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncLogItem>(
+      {url: `/api/sync/logs/${id}/retry`, method: 'POST', signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncLogsIdRetryMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>, TError,{id: number}, TContext> => {
+
+const mutationKey = ['postApiSyncLogsIdRetry'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>, {id: number}> = (props) => {
+          const {id} = props ?? {};
+
+          return  postApiSyncLogsIdRetry(id,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncLogsIdRetryMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>>
+    
+    export type PostApiSyncLogsIdRetryMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期ログの失敗項目を再試行
+ */
+export const usePostApiSyncLogsIdRetry = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncLogsIdRetry>>,
+        TError,
+        {id: number},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncLogsIdRetryMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 同期先と通信した同期（送信・差分Pull・同期ジョブ・再試行）の所要時間・転送量・応答時間を、避難所・日（UTC）ごとに集計して返します。
+通信状況の悪い回線で同期が遅くなっていないかの確認に使います。
+
+ * @summary 同期の性能指標の推移を取得
+ */
+export const getApiSyncMetrics = (
+    params?: GetApiSyncMetricsParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncMetricsResponse>(
+      {url: `/api/sync/metrics`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncMetricsQueryKey = (params?: GetApiSyncMetricsParams,) => {
+    return [
+    `/api/sync/metrics`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncMetricsQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncMetrics>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncMetricsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncMetricsQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncMetrics>>> = ({ signal }) => getApiSyncMetrics(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncMetricsQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncMetrics>>>
+export type GetApiSyncMetricsQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncMetrics<TData = Awaited<ReturnType<typeof getApiSyncMetrics>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncMetricsParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncMetrics>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncMetrics>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncMetrics<TData = Awaited<ReturnType<typeof getApiSyncMetrics>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncMetricsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncMetrics>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncMetrics>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncMetrics<TData = Awaited<ReturnType<typeof getApiSyncMetrics>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncMetricsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期の性能指標の推移を取得
+ */
+
+export function useGetApiSyncMetrics<TData = Awaited<ReturnType<typeof getApiSyncMetrics>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncMetricsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncMetrics>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncMetricsQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 前回の同期以降に手元と同期相手の両方で変更されたため、反映せずに保存した競合の一覧を取得します。
+避難所スタッフは所属避難所の競合のみ取得できます。
+
+ * @summary 同期競合一覧を取得
+ */
+export const getApiSyncConflicts = (
+    params?: GetApiSyncConflictsParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncConflictsResponse>(
+      {url: `/api/sync/conflicts`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncConflictsQueryKey = (params?: GetApiSyncConflictsParams,) => {
+    return [
+    `/api/sync/conflicts`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetApiSyncConflictsQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncConflicts>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(params?: GetApiSyncConflictsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncConflictsQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncConflicts>>> = ({ signal }) => getApiSyncConflicts(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncConflictsQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncConflicts>>>
+export type GetApiSyncConflictsQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncConflicts<TData = Awaited<ReturnType<typeof getApiSyncConflicts>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params: undefined |  GetApiSyncConflictsParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncConflicts>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncConflicts>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncConflicts<TData = Awaited<ReturnType<typeof getApiSyncConflicts>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncConflictsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncConflicts>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncConflicts>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncConflicts<TData = Awaited<ReturnType<typeof getApiSyncConflicts>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncConflictsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期競合一覧を取得
+ */
+
+export function useGetApiSyncConflicts<TData = Awaited<ReturnType<typeof getApiSyncConflicts>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>>(
+ params?: GetApiSyncConflictsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncConflicts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncConflictsQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 手元・同期相手のどちらかの版を採用するか、項目ごとに採用する版を選んで統合します。
+解決結果は新しい版として保存され、次回の同期で同期相手にも反映されます。
+
+ * @summary 同期競合を解決
+ */
+export const postApiSyncConflictsIdResolve = (
+    id: string,
+    resolveSyncConflictRequest: ResolveSyncConflictRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncConflict>(
+      {url: `/api/sync/conflicts/${id}/resolve`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: resolveSyncConflictRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncConflictsIdResolveMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>, TError,{id: string;data: ResolveSyncConflictRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>, TError,{id: string;data: ResolveSyncConflictRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncConflictsIdResolve'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>, {id: string;data: ResolveSyncConflictRequest}> = (props) => {
+          const {id,data} = props ?? {};
+
+          return  postApiSyncConflictsIdResolve(id,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncConflictsIdResolveMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>>
+    export type PostApiSyncConflictsIdResolveMutationBody = ResolveSyncConflictRequest
+    export type PostApiSyncConflictsIdResolveMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期競合を解決
+ */
+export const usePostApiSyncConflictsIdResolve = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>, TError,{id: string;data: ResolveSyncConflictRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncConflictsIdResolve>>,
+        TError,
+        {id: string;data: ResolveSyncConflictRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncConflictsIdResolveMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 本番に登録された避難所ノードの一覧を取得します。本部管理者のみ実行できます。
+ * @summary 同期ノード一覧を取得
+ */
+export const getApiSyncNodes = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncNodesResponse>(
+      {url: `/api/sync/nodes`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncNodesQueryKey = () => {
+    return [
+    `/api/sync/nodes`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncNodesQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncNodes>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncNodesQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncNodes>>> = ({ signal }) => getApiSyncNodes(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncNodesQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncNodes>>>
+export type GetApiSyncNodesQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncNodes<TData = Awaited<ReturnType<typeof getApiSyncNodes>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncNodes>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncNodes>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncNodes<TData = Awaited<ReturnType<typeof getApiSyncNodes>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncNodes>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncNodes>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncNodes<TData = Awaited<ReturnType<typeof getApiSyncNodes>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期ノード一覧を取得
+ */
+
+export function useGetApiSyncNodes<TData = Awaited<ReturnType<typeof getApiSyncNodes>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncNodes>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncNodesQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 避難所ノードを登録し、署名用の共有鍵を発行します。共有鍵はこのレスポンスでのみ返されるため、
+ノード側の環境変数 `SYNC_NODE_ID` / `SYNC_NODE_SECRET` に設定してください。
+
+ * @summary 同期ノードを登録
+ */
+export const postApiSyncNodes = (
+    createSyncNodeRequest: CreateSyncNodeRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<CreateSyncNodeResponse>(
+      {url: `/api/sync/nodes`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createSyncNodeRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncNodesMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodes>>, TError,{data: CreateSyncNodeRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodes>>, TError,{data: CreateSyncNodeRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncNodes'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncNodes>>, {data: CreateSyncNodeRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncNodes(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncNodesMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncNodes>>>
+    export type PostApiSyncNodesMutationBody = CreateSyncNodeRequest
+    export type PostApiSyncNodesMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期ノードを登録
+ */
+export const usePostApiSyncNodes = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodes>>, TError,{data: CreateSyncNodeRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncNodes>>,
+        TError,
+        {data: CreateSyncNodeRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncNodesMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 失効したノードからの同期リクエストは以降すべて拒否されます。
+ * @summary 同期ノードを失効
+ */
+export const postApiSyncNodesNodeIdRevoke = (
+    nodeId: string,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncNode>(
+      {url: `/api/sync/nodes/${nodeId}/revoke`, method: 'POST', signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncNodesNodeIdRevokeMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>, TError,{nodeId: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>, TError,{nodeId: string}, TContext> => {
+
+const mutationKey = ['postApiSyncNodesNodeIdRevoke'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>, {nodeId: string}> = (props) => {
+          const {nodeId} = props ?? {};
+
+          return  postApiSyncNodesNodeIdRevoke(nodeId,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncNodesNodeIdRevokeMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>>
+    
+    export type PostApiSyncNodesNodeIdRevokeMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期ノードを失効
+ */
+export const usePostApiSyncNodesNodeIdRevoke = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>, TError,{nodeId: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncNodesNodeIdRevoke>>,
+        TError,
+        {nodeId: string},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncNodesNodeIdRevokeMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * sync_targets に登録した同期先（県・市の本部サーバー等）の設定と、直近の実行結果から判定した状態を取得します。
+healthy: 正常、stale: 最後の成功から間隔の3倍以上経過、failing: 直近の実行が失敗、pending: 未実行、disabled: 無効
+
+ * @summary 同期先の一覧と状態を取得
+ */
+export const getApiSyncTargets = (
+    
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncTargetListResponse>(
+      {url: `/api/sync/targets`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetApiSyncTargetsQueryKey = () => {
+    return [
+    `/api/sync/targets`
+    ] as const;
+    }
+
+    
+export const getGetApiSyncTargetsQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncTargets>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncTargetsQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncTargets>>> = ({ signal }) => getApiSyncTargets(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetApiSyncTargetsQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncTargets>>>
+export type GetApiSyncTargetsQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+
+
+export function useGetApiSyncTargets<TData = Awaited<ReturnType<typeof getApiSyncTargets>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncTargets>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncTargets>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncTargets<TData = Awaited<ReturnType<typeof getApiSyncTargets>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getApiSyncTargets>>,
+          TError,
+          Awaited<ReturnType<typeof getApiSyncTargets>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetApiSyncTargets<TData = Awaited<ReturnType<typeof getApiSyncTargets>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 同期先の一覧と状態を取得
+ */
+
+export function useGetApiSyncTargets<TData = Awaited<ReturnType<typeof getApiSyncTargets>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncTargets>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetApiSyncTargetsQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 同期先を登録します（本部管理者のみ）。
+pushEnabled の同期先には変更ログ（投稿・コメント・位置情報・メディア）を同期先ごとのカーソルから転送し、
+pullShelterIds の避難所は同期先・避難所ごとのカーソルで差分Pullします。定期同期は intervalMinutes ごとに実行します。
+
+ * @summary 同期先を登録
+ */
+export const postApiSyncTargets = (
+    syncTargetRequest: SyncTargetRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncTargetItem>(
+      {url: `/api/sync/targets`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: syncTargetRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncTargetsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargets>>, TError,{data: SyncTargetRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargets>>, TError,{data: SyncTargetRequest}, TContext> => {
+
+const mutationKey = ['postApiSyncTargets'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncTargets>>, {data: SyncTargetRequest}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postApiSyncTargets(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncTargetsMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncTargets>>>
+    export type PostApiSyncTargetsMutationBody = SyncTargetRequest
+    export type PostApiSyncTargetsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期先を登録
+ */
+export const usePostApiSyncTargets = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargets>>, TError,{data: SyncTargetRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncTargets>>,
+        TError,
+        {data: SyncTargetRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncTargetsMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 同期先の設定を更新します（本部管理者のみ。未指定の項目は変更しません）。
+ * @summary 同期先を更新
+ */
+export const patchApiSyncTargetsId = (
+    id: number,
+    syncTargetRequest: SyncTargetRequest,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
+      
+      return axiosInstance<SyncTargetItem>(
+      {url: `/api/sync/targets/${id}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: syncTargetRequest
+    },
+      options);
+    }
+  
+
+
+export const getPatchApiSyncTargetsIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchApiSyncTargetsId>>, TError,{id: number;data: SyncTargetRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchApiSyncTargetsId>>, TError,{id: number;data: SyncTargetRequest}, TContext> => {
+
+const mutationKey = ['patchApiSyncTargetsId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchApiSyncTargetsId>>, {id: number;data: SyncTargetRequest}> = (props) => {
+          const {id,data} = props ?? {};
+
+          return  patchApiSyncTargetsId(id,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PatchApiSyncTargetsIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchApiSyncTargetsId>>>
+    export type PatchApiSyncTargetsIdMutationBody = SyncTargetRequest
+    export type PatchApiSyncTargetsIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期先を更新
+ */
+export const usePatchApiSyncTargetsId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchApiSyncTargetsId>>, TError,{id: number;data: SyncTargetRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof patchApiSyncTargetsId>>,
+        TError,
+        {id: number;data: SyncTargetRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPatchApiSyncTargetsIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 同期先と、同期先ごとに保存していたカーソルを削除します（本部管理者のみ）。
+ * @summary 同期先を削除
+ */
+export const deleteApiSyncTargetsId = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
+      
+      return axiosInstance<OkResponse>(
+      {url: `/api/sync/targets/${id}`, method: 'DELETE'
+    },
+      options);
+    }
+  
+
+
+export const getDeleteApiSyncTargetsIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deleteApiSyncTargetsId>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof deleteApiSyncTargetsId>>, TError,{id: number}, TContext> => {
+
+const mutationKey = ['deleteApiSyncTargetsId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof deleteApiSyncTargetsId>>, {id: number}> = (props) => {
+          const {id} = props ?? {};
+
+          return  deleteApiSyncTargetsId(id,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type DeleteApiSyncTargetsIdMutationResult = NonNullable<Awaited<ReturnType<typeof deleteApiSyncTargetsId>>>
+    
+    export type DeleteApiSyncTargetsIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期先を削除
+ */
+export const useDeleteApiSyncTargetsId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deleteApiSyncTargetsId>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof deleteApiSyncTargetsId>>,
+        TError,
+        {id: number},
+        TContext
+      > => {
+
+      const mutationOptions = getDeleteApiSyncTargetsIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 次の定期実行を待たずに、同期先への転送と差分Pullを実行します。
+ * @summary 同期先との同期を今すぐ実行
+ */
+export const postApiSyncTargetsIdRun = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SyncTargetItem>(
+      {url: `/api/sync/targets/${id}/run`, method: 'POST', signal
+    },
+      options);
+    }
+  
+
+
+export const getPostApiSyncTargetsIdRunMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>, TError,{id: number}, TContext> => {
+
+const mutationKey = ['postApiSyncTargetsIdRun'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>, {id: number}> = (props) => {
+          const {id} = props ?? {};
+
+          return  postApiSyncTargetsIdRun(id,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostApiSyncTargetsIdRunMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>>
+    
+    export type PostApiSyncTargetsIdRunMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 同期先との同期を今すぐ実行
+ */
+export const usePostApiSyncTargetsIdRun = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postApiSyncTargetsIdRun>>,
+        TError,
+        {id: number},
+        TContext
+      > => {
+
+      const mutationOptions = getPostApiSyncTargetsIdRunMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 本文・時刻・位置トラックなどのメタデータと、画像/動画ファイルを同梱して投稿します。
+ * @summary 投稿を新規作成（メディア同梱）
+ */
+export const postPosts = (
+    postPostsBody: PostPostsBody,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      const formData = new FormData();
+formData.append(`metadata`, JSON.stringify(postPostsBody.metadata));
+if(postPostsBody.mediaFiles !== undefined) {
+ postPostsBody.mediaFiles.forEach(value => formData.append(`mediaFiles`, value));
+ }
+
+      return axiosInstance<CreatePostResponse>(
+      {url: `/posts`, method: 'POST',
+      headers: {'Content-Type': 'multipart/form-data', },
+       data: formData, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostPostsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext> => {
+
+const mutationKey = ['postPosts'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postPosts>>, {data: PostPostsBody}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postPosts(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostPostsMutationResult = NonNullable<Awaited<ReturnType<typeof postPosts>>>
+    export type PostPostsMutationBody = PostPostsBody
+    export type PostPostsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 投稿を新規作成（メディア同梱）
+ */
+export const usePostPosts = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postPosts>>,
+        TError,
+        {data: PostPostsBody},
+        TContext
+      > => {
+
+      const mutationOptions = getPostPostsMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 投稿・コメントの本文と投稿者名から、空白で区切ったすべての語を含むものを検索します（最大5語）。
+3文字以上の語は全文検索の索引を使い、一致の度合いが高い順に返します。
+2文字以下の語（「土砂」など）は索引を使わずに本文を調べるため、件数が多い場合は時間がかかります。
+
+ * @summary 投稿・コメントを全文検索
+ */
+export const getSearch = (
+    params: GetSearchParams,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<SearchResponse>(
+      {url: `/search`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetSearchQueryKey = (params?: GetSearchParams,) => {
+    return [
+    `/search`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetSearchQueryOptions = <TData = Awaited<ReturnType<typeof getSearch>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(params: GetSearchParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetSearchQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSearch>>> = ({ signal }) => getSearch(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetSearchQueryResult = NonNullable<Awaited<ReturnType<typeof getSearch>>>
+export type GetSearchQueryError = ErrorType<ErrorResponse | ErrorResponse>
+
+
+export function useGetSearch<TData = Awaited<ReturnType<typeof getSearch>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ params: GetSearchParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSearch>>,
+          TError,
+          Awaited<ReturnType<typeof getSearch>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSearch<TData = Awaited<ReturnType<typeof getSearch>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ params: GetSearchParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSearch>>,
+          TError,
+          Awaited<ReturnType<typeof getSearch>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSearch<TData = Awaited<ReturnType<typeof getSearch>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ params: GetSearchParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 投稿・コメントを全文検索
+ */
+
+export function useGetSearch<TData = Awaited<ReturnType<typeof getSearch>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ params: GetSearchParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSearch>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetSearchQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 指定した投稿IDの詳細情報（メディアURL含む）を取得します。
+ * @summary 投稿の詳細を取得
+ */
+export const getPostsId = (
+    id: string,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<PostDetailResponse>(
+      {url: `/posts/${id}`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetPostsIdQueryKey = (id?: string,) => {
+    return [
+    `/posts/${id}`
+    ] as const;
+    }
+
+    
+export const getGetPostsIdQueryOptions = <TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetPostsIdQueryKey(id);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getPostsId>>> = ({ signal }) => getPostsId(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetPostsIdQueryResult = NonNullable<Awaited<ReturnType<typeof getPostsId>>>
+export type GetPostsIdQueryError = ErrorType<ErrorResponse | ErrorResponse>
+
+
+export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: string, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getPostsId>>,
+          TError,
+          Awaited<ReturnType<typeof getPostsId>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>> & Pick<
+export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncStatus>>,
+          Awaited<ReturnType<typeof getPostsId>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncStatus>>
+          Awaited<ReturnType<typeof getPostsId>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary 同期ステータスを取得
+ * @summary 投稿の詳細を取得
  */
 
-export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSyncStatus>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncStatus>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetApiSyncStatusQueryOptions(options)
+  const queryOptions = getGetPostsIdQueryOptions(id,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -251,30 +3177,30 @@ export function useGetApiSyncStatus<TData = Awaited<ReturnType<typeof getApiSync
 
 
 /**
- * ローカルDBの未同期データを本番DBに同期します。
- * @summary 同期を実行
+ * 投稿の本文・ステータスを更新します。本部管理者と投稿先避難所のスタッフ、または投稿者本人（表示名が一致するアカウント）のみ操作できます。
+ * @summary 投稿を編集
  */
-export const postApiSyncExecute = (
-    syncExecuteRequest: SyncExecuteRequest,
- options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
-) => {
+export const patchPostsId = (
+    id: string,
+    updatePostRequest: UpdatePostRequest,
+ options?: SecondParameter<typeof axiosInstance>,) => {
       
       
-      return axiosInstance<SyncExecuteResponse>(
-      {url: `/api/sync/execute`, method: 'POST',
+      return axiosInstance<UpdatePostResponse>(
+      {url: `/posts/${id}`, method: 'PATCH',
       headers: {'Content-Type': 'application/json', },
-      data: syncExecuteRequest, signal
+      data: updatePostRequest
     },
       options);
     }
   
 
 
-export const getPostApiSyncExecuteMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext> => {
+export const getPatchPostsIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchPostsId>>, TError,{id: string;data: UpdatePostRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchPostsId>>, TError,{id: string;data: UpdatePostRequest}, TContext> => {
 
-const mutationKey = ['postApiSyncExecute'];
+const mutationKey = ['patchPostsId'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -284,10 +3210,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncExecute>>, {data: SyncExecuteRequest}> = (props) => {
-          const {data} = props ?? {};
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchPostsId>>, {id: string;data: UpdatePostRequest}> = (props) => {
+          const {id,data} = props ?? {};
 
-          return  postApiSyncExecute(data,requestOptions)
+          return  patchPostsId(id,data,requestOptions)
         }
 
         
@@ -295,40 +3221,101 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostApiSyncExecuteMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncExecute>>>
-    export type PostApiSyncExecuteMutationBody = SyncExecuteRequest
-    export type PostApiSyncExecuteMutationError = ErrorType<ErrorResponse | ErrorResponse>
+    export type PatchPostsIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchPostsId>>>
+    export type PatchPostsIdMutationBody = UpdatePostRequest
+    export type PatchPostsIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary 同期を実行
+ * @summary 投稿を編集
  */
-export const usePostApiSyncExecute = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncExecute>>, TError,{data: SyncExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePatchPostsId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchPostsId>>, TError,{id: string;data: UpdatePostRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postApiSyncExecute>>,
+        Awaited<ReturnType<typeof patchPostsId>>,
         TError,
-        {data: SyncExecuteRequest},
+        {id: string;data: UpdatePostRequest},
         TContext
       > => {
 
-      const mutationOptions = getPostApiSyncExecuteMutationOptions(options);
+      const mutationOptions = getPatchPostsIdMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 指定した避難所の差分データを取得します。
- * @summary 本番DBの差分データを取得
+ * 投稿を論理削除します。紐づくコメント・メディア・位置トラックも合わせて論理削除されます。
+ * @summary 投稿を削除
  */
-export const getApiSyncPull = (
-    params?: GetApiSyncPullParams,
+export const deletePostsId = (
+    id: string,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
+      
+      return axiosInstance<OkResponse>(
+      {url: `/posts/${id}`, method: 'DELETE'
+    },
+      options);
+    }
+  
+
+
+export const getDeletePostsIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deletePostsId>>, TError,{id: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof deletePostsId>>, TError,{id: string}, TContext> => {
+
+const mutationKey = ['deletePostsId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof deletePostsId>>, {id: string}> = (props) => {
+          const {id} = props ?? {};
+
+          return  deletePostsId(id,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type DeletePostsIdMutationResult = NonNullable<Awaited<ReturnType<typeof deletePostsId>>>
+    
+    export type DeletePostsIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 投稿を削除
+ */
+export const useDeletePostsId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deletePostsId>>, TError,{id: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof deletePostsId>>,
+        TError,
+        {id: string},
+        TContext
+      > => {
+
+      const mutationOptions = getDeletePostsIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * @summary 避難所一覧を取得
+ */
+export const getShelters = (
+    
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<SyncPullResponse>(
-      {url: `/api/sync/pull`, method: 'GET',
-        params, signal
+      return axiosInstance<ShelterListWithCountResponse>(
+      {url: `/shelters`, method: 'GET', signal
     },
       options);
     }
@@ -336,69 +3323,69 @@ export const getApiSyncPull = (
 
 
 
-export const getGetApiSyncPullQueryKey = (params?: GetApiSyncPullParams,) => {
+export const getGetSheltersQueryKey = () => {
     return [
-    `/api/sync/pull`, ...(params ? [params]: [])
+    `/shelters`
     ] as const;
     }
 
     
-export const getGetApiSyncPullQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersQueryOptions = <TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncPullQueryKey(params);
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersQueryKey();
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncPull>>> = ({ signal }) => getApiSyncPull(params, requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getShelters>>> = ({ signal }) => getShelters(requestOptions, signal);
 
       
 
       
 
-   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
 }
 
-export type GetApiSyncPullQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncPull>>>
-export type GetApiSyncPullQueryError = ErrorType<ErrorResponse | ErrorResponse>
+export type GetSheltersQueryResult = NonNullable<Awaited<ReturnType<typeof getShelters>>>
+export type GetSheltersQueryError = ErrorType<ErrorResponse>
 
 
-export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- params: undefined |  GetApiSyncPullParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>> & Pick<
+export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncPull>>,
+          Awaited<ReturnType<typeof getShelters>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncPull>>
+          Awaited<ReturnType<typeof getShelters>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>> & Pick<
+export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncPull>>,
+          Awaited<ReturnType<typeof getShelters>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncPull>>
+          Awaited<ReturnType<typeof getShelters>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary 本番DBの差分データを取得
+ * @summary 避難所一覧を取得
  */
 
-export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPull>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- params?: GetApiSyncPullParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPull>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetApiSyncPullQueryOptions(params,options)
+  const queryOptions = getGetSheltersQueryOptions(options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -411,30 +3398,30 @@ export function useGetApiSyncPull<TData = Awaited<ReturnType<typeof getApiSyncPu
 
 
 /**
- * 本番DBからローカルDBへ差分データを同期します。
- * @summary 差分Pullを実行
+ * 本部管理者のみ実行できます。作成した避難所は差分Pullで各ノードへ配信されます。
+ * @summary 避難所を新規作成
  */
-export const postApiSyncPullExecute = (
-    syncPullExecuteRequest: SyncPullExecuteRequest,
+export const postShelters = (
+    createShelterRequest: CreateShelterRequest,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<SyncPullExecuteResponse>(
-      {url: `/api/sync/pull/execute`, method: 'POST',
+      return axiosInstance<ShelterDetails>(
+      {url: `/shelters`, method: 'POST',
       headers: {'Content-Type': 'application/json', },
-      data: syncPullExecuteRequest, signal
+      data: createShelterRequest, signal
     },
       options);
     }
   
 
 
-export const getPostApiSyncPullExecuteMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext> => {
+export const getPostSheltersMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postShelters>>, TError,{data: CreateShelterRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postShelters>>, TError,{data: CreateShelterRequest}, TContext> => {
 
-const mutationKey = ['postApiSyncPullExecute'];
+const mutationKey = ['postShelters'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -444,10 +3431,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncPullExecute>>, {data: SyncPullExecuteRequest}> = (props) => {
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postShelters>>, {data: CreateShelterRequest}> = (props) => {
           const {data} = props ?? {};
 
-          return  postApiSyncPullExecute(data,requestOptions)
+          return  postShelters(data,requestOptions)
         }
 
         
@@ -455,41 +3442,39 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostApiSyncPullExecuteMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncPullExecute>>>
-    export type PostApiSyncPullExecuteMutationBody = SyncPullExecuteRequest
-    export type PostApiSyncPullExecuteMutationError = ErrorType<ErrorResponse | ErrorResponse>
+    export type PostSheltersMutationResult = NonNullable<Awaited<ReturnType<typeof postShelters>>>
+    export type PostSheltersMutationBody = CreateShelterRequest
+    export type PostSheltersMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary 差分Pullを実行
+ * @summary 避難所を新規作成
  */
-export const usePostApiSyncPullExecute = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncPullExecute>>, TError,{data: SyncPullExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePostShelters = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postShelters>>, TError,{data: CreateShelterRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postApiSyncPullExecute>>,
+        Awaited<ReturnType<typeof postShelters>>,
         TError,
-        {data: SyncPullExecuteRequest},
+        {data: CreateShelterRequest},
         TContext
       > => {
 
-      const mutationOptions = getPostApiSyncPullExecuteMutationOptions(options);
+      const mutationOptions = getPostSheltersMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 指定したfile_pathのメディアファイルを本番R2から取得します。
- * @summary メディアファイルをダウンロード
+ * 避難者数は最新の記録、収容率は収容可能人数に対する割合（%）です。
+ * @summary 避難所ごとの現在の避難者数・収容率・報告件数を取得
  */
-export const getApiSyncPullMedia = (
-    params: GetApiSyncPullMediaParams,
+export const getSheltersStats = (
+    
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<Blob>(
-      {url: `/api/sync/pull/media`, method: 'GET',
-        params,
-        responseType: 'blob', signal
+      return axiosInstance<ShelterStatsResponse>(
+      {url: `/shelters/stats`, method: 'GET', signal
     },
       options);
     }
@@ -497,69 +3482,161 @@ export const getApiSyncPullMedia = (
 
 
 
-export const getGetApiSyncPullMediaQueryKey = (params?: GetApiSyncPullMediaParams,) => {
+export const getGetSheltersStatsQueryKey = () => {
     return [
-    `/api/sync/pull/media`, ...(params ? [params]: [])
+    `/shelters/stats`
     ] as const;
     }
 
     
-export const getGetApiSyncPullMediaQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersStatsQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersStats>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncPullMediaQueryKey(params);
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersStatsQueryKey();
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncPullMedia>>> = ({ signal }) => getApiSyncPullMedia(params, requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersStats>>> = ({ signal }) => getSheltersStats(requestOptions, signal);
 
       
 
       
 
-   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
 }
 
-export type GetApiSyncPullMediaQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncPullMedia>>>
-export type GetApiSyncPullMediaQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+export type GetSheltersStatsQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersStats>>>
+export type GetSheltersStatsQueryError = ErrorType<ErrorResponse>
 
 
-export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
- params: GetApiSyncPullMediaParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>> & Pick<
+export function useGetSheltersStats<TData = Awaited<ReturnType<typeof getSheltersStats>>, TError = ErrorType<ErrorResponse>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncPullMedia>>,
+          Awaited<ReturnType<typeof getSheltersStats>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncPullMedia>>
+          Awaited<ReturnType<typeof getSheltersStats>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
- params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>> & Pick<
+export function useGetSheltersStats<TData = Awaited<ReturnType<typeof getSheltersStats>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSheltersStats>>,
+          TError,
+          Awaited<ReturnType<typeof getSheltersStats>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSheltersStats<TData = Awaited<ReturnType<typeof getSheltersStats>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 避難所ごとの現在の避難者数・収容率・報告件数を取得
+ */
+
+export function useGetSheltersStats<TData = Awaited<ReturnType<typeof getSheltersStats>>, TError = ErrorType<ErrorResponse>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersStats>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetSheltersStatsQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * @summary 避難所の詳細を取得
+ */
+export const getSheltersId = (
+    id: number,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<ShelterDetails>(
+      {url: `/shelters/${id}`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetSheltersIdQueryKey = (id?: number,) => {
+    return [
+    `/shelters/${id}`
+    ] as const;
+    }
+
+    
+export const getGetSheltersIdQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdQueryKey(id);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersId>>> = ({ signal }) => getSheltersId(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetSheltersIdQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersId>>>
+export type GetSheltersIdQueryError = ErrorType<ErrorResponse | ErrorResponse | void>
+
+
+export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
+ id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSheltersId>>,
+          TError,
+          Awaited<ReturnType<typeof getSheltersId>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncPullMedia>>,
+          Awaited<ReturnType<typeof getSheltersId>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncPullMedia>>
+          Awaited<ReturnType<typeof getSheltersId>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
- params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary メディアファイルをダウンロード
+ * @summary 避難所の詳細を取得
  */
 
-export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
- params: GetApiSyncPullMediaParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncPullMedia>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetApiSyncPullMediaQueryOptions(params,options)
+  const queryOptions = getGetSheltersIdQueryOptions(id,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -572,30 +3649,30 @@ export function useGetApiSyncPullMedia<TData = Awaited<ReturnType<typeof getApiS
 
 
 /**
- * ローカルR2の未同期メディアを本番R2に同期します。
- * @summary メディア同期を実行
+ * 指定した項目のみ更新します。本部管理者のみ実行できます。
+ * @summary 避難所情報を更新
  */
-export const postApiSyncMedia = (
-    syncMediaExecuteRequest: SyncMediaExecuteRequest,
- options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
-) => {
+export const patchSheltersId = (
+    id: number,
+    shelterUpdateRequest: ShelterUpdateRequest,
+ options?: SecondParameter<typeof axiosInstance>,) => {
       
       
-      return axiosInstance<SyncMediaResponse>(
-      {url: `/api/sync/media`, method: 'POST',
+      return axiosInstance<ShelterDetails>(
+      {url: `/shelters/${id}`, method: 'PATCH',
       headers: {'Content-Type': 'application/json', },
-      data: syncMediaExecuteRequest, signal
+      data: shelterUpdateRequest
     },
       options);
     }
   
 
 
-export const getPostApiSyncMediaMutationOptions = <TError = ErrorType<ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext> => {
+export const getPatchSheltersIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchSheltersId>>, TError,{id: number;data: ShelterUpdateRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchSheltersId>>, TError,{id: number;data: ShelterUpdateRequest}, TContext> => {
 
-const mutationKey = ['postApiSyncMedia'];
+const mutationKey = ['patchSheltersId'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -605,10 +3682,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncMedia>>, {data: SyncMediaExecuteRequest}> = (props) => {
-          const {data} = props ?? {};
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchSheltersId>>, {id: number;data: ShelterUpdateRequest}> = (props) => {
+          const {id,data} = props ?? {};
 
-          return  postApiSyncMedia(data,requestOptions)
+          return  patchSheltersId(id,data,requestOptions)
         }
 
         
@@ -616,58 +3693,50 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostApiSyncMediaMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncMedia>>>
-    export type PostApiSyncMediaMutationBody = SyncMediaExecuteRequest
-    export type PostApiSyncMediaMutationError = ErrorType<ErrorResponse>
+    export type PatchSheltersIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchSheltersId>>>
+    export type PatchSheltersIdMutationBody = ShelterUpdateRequest
+    export type PatchSheltersIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary メディア同期を実行
+ * @summary 避難所情報を更新
  */
-export const usePostApiSyncMedia = <TError = ErrorType<ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMedia>>, TError,{data: SyncMediaExecuteRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePatchSheltersId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchSheltersId>>, TError,{id: number;data: ShelterUpdateRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postApiSyncMedia>>,
+        Awaited<ReturnType<typeof patchSheltersId>>,
         TError,
-        {data: SyncMediaExecuteRequest},
+        {id: number;data: ShelterUpdateRequest},
         TContext
       > => {
 
-      const mutationOptions = getPostApiSyncMediaMutationOptions(options);
+      const mutationOptions = getPatchSheltersIdMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 本番側でメディアファイルを受信してR2に保存します。
- * @summary メディア同期データを受信
+ * 閉鎖日時を記録し、ステータスを closed にします。本部管理者のみ実行できます。
+ * @summary 避難所を閉鎖
  */
-export const postApiSyncMediaReceive = (
-    syncMediaReceiveRequest: SyncMediaReceiveRequest,
+export const postSheltersIdClose = (
+    id: number,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
-      const formData = new FormData();
-formData.append(`filePath`, syncMediaReceiveRequest.filePath)
-if(syncMediaReceiveRequest.contentType !== undefined) {
- formData.append(`contentType`, syncMediaReceiveRequest.contentType)
- }
-formData.append(`file`, syncMediaReceiveRequest.file)
-
-      return axiosInstance<SyncMediaReceiveResponse>(
-      {url: `/api/sync/media/receive`, method: 'POST',
-      headers: {'Content-Type': 'multipart/form-data', },
-       data: formData, signal
+      
+      return axiosInstance<ShelterDetails>(
+      {url: `/shelters/${id}/close`, method: 'POST', signal
     },
       options);
     }
   
 
 
-export const getPostApiSyncMediaReceiveMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext> => {
+export const getPostSheltersIdCloseMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdClose>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdClose>>, TError,{id: number}, TContext> => {
 
-const mutationKey = ['postApiSyncMediaReceive'];
+const mutationKey = ['postSheltersIdClose'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -677,10 +3746,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, {data: SyncMediaReceiveRequest}> = (props) => {
-          const {data} = props ?? {};
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postSheltersIdClose>>, {id: number}> = (props) => {
+          const {id} = props ?? {};
 
-          return  postApiSyncMediaReceive(data,requestOptions)
+          return  postSheltersIdClose(id,requestOptions)
         }
 
         
@@ -688,52 +3757,50 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostApiSyncMediaReceiveMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncMediaReceive>>>
-    export type PostApiSyncMediaReceiveMutationBody = SyncMediaReceiveRequest
-    export type PostApiSyncMediaReceiveMutationError = ErrorType<ErrorResponse | ErrorResponse>
+    export type PostSheltersIdCloseMutationResult = NonNullable<Awaited<ReturnType<typeof postSheltersIdClose>>>
+    
+    export type PostSheltersIdCloseMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary メディア同期データを受信
+ * @summary 避難所を閉鎖
  */
-export const usePostApiSyncMediaReceive = <TError = ErrorType<ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncMediaReceive>>, TError,{data: SyncMediaReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePostSheltersIdClose = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdClose>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postApiSyncMediaReceive>>,
+        Awaited<ReturnType<typeof postSheltersIdClose>>,
         TError,
-        {data: SyncMediaReceiveRequest},
+        {id: number},
         TContext
       > => {
 
-      const mutationOptions = getPostApiSyncMediaReceiveMutationOptions(options);
+      const mutationOptions = getPostSheltersIdCloseMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 他の環境からの同期データを受信してDBに保存します。
- * @summary 同期データを受信
+ * 閉鎖日時をクリアし、ステータスを open に戻します。本部管理者のみ実行できます。
+ * @summary 避難所を再開
  */
-export const postApiSyncReceive = (
-    syncReceiveRequest: SyncReceiveRequest,
+export const postSheltersIdReopen = (
+    id: number,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<SyncReceiveResponse>(
-      {url: `/api/sync/receive`, method: 'POST',
-      headers: {'Content-Type': 'application/json', },
-      data: syncReceiveRequest, signal
+      return axiosInstance<ShelterDetails>(
+      {url: `/shelters/${id}/reopen`, method: 'POST', signal
     },
       options);
     }
   
 
 
-export const getPostApiSyncReceiveMutationOptions = <TError = ErrorType<ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext> => {
+export const getPostSheltersIdReopenMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdReopen>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdReopen>>, TError,{id: number}, TContext> => {
 
-const mutationKey = ['postApiSyncReceive'];
+const mutationKey = ['postSheltersIdReopen'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -743,10 +3810,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postApiSyncReceive>>, {data: SyncReceiveRequest}> = (props) => {
-          const {data} = props ?? {};
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postSheltersIdReopen>>, {id: number}> = (props) => {
+          const {id} = props ?? {};
 
-          return  postApiSyncReceive(data,requestOptions)
+          return  postSheltersIdReopen(id,requestOptions)
         }
 
         
@@ -754,40 +3821,39 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostApiSyncReceiveMutationResult = NonNullable<Awaited<ReturnType<typeof postApiSyncReceive>>>
-    export type PostApiSyncReceiveMutationBody = SyncReceiveRequest
-    export type PostApiSyncReceiveMutationError = ErrorType<ErrorResponse>
+    export type PostSheltersIdReopenMutationResult = NonNullable<Awaited<ReturnType<typeof postSheltersIdReopen>>>
+    
+    export type PostSheltersIdReopenMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary 同期データを受信
+ * @summary 避難所を再開
  */
-export const usePostApiSyncReceive = <TError = ErrorType<ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postApiSyncReceive>>, TError,{data: SyncReceiveRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePostSheltersIdReopen = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdReopen>>, TError,{id: number}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postApiSyncReceive>>,
+        Awaited<ReturnType<typeof postSheltersIdReopen>>,
         TError,
-        {data: SyncReceiveRequest},
+        {id: number},
         TContext
       > => {
 
-      const mutationOptions = getPostApiSyncReceiveMutationOptions(options);
+      const mutationOptions = getPostSheltersIdReopenMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 過去の同期履歴をページネーション形式で取得します。
- * @summary 同期ログ一覧を取得
+ * 新しい順に最大50件を返します。
+ * @summary 避難者数の記録履歴を取得
  */
-export const getApiSyncLogs = (
-    params?: GetApiSyncLogsParams,
+export const getSheltersIdOccupancy = (
+    id: number,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<SyncLogsResponse>(
-      {url: `/api/sync/logs`, method: 'GET',
-        params, signal
+      return axiosInstance<OccupancyHistoryResponse>(
+      {url: `/shelters/${id}/occupancy`, method: 'GET', signal
     },
       options);
     }
@@ -795,69 +3861,69 @@ export const getApiSyncLogs = (
 
 
 
-export const getGetApiSyncLogsQueryKey = (params?: GetApiSyncLogsParams,) => {
+export const getGetSheltersIdOccupancyQueryKey = (id?: number,) => {
     return [
-    `/api/sync/logs`, ...(params ? [params]: [])
+    `/shelters/${id}/occupancy`
     ] as const;
     }
 
     
-export const getGetApiSyncLogsQueryOptions = <TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse>>(params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersIdOccupancyQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetApiSyncLogsQueryKey(params);
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdOccupancyQueryKey(id);
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getApiSyncLogs>>> = ({ signal }) => getApiSyncLogs(params, requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersIdOccupancy>>> = ({ signal }) => getSheltersIdOccupancy(id, requestOptions, signal);
 
       
 
       
 
-   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
 }
 
-export type GetApiSyncLogsQueryResult = NonNullable<Awaited<ReturnType<typeof getApiSyncLogs>>>
-export type GetApiSyncLogsQueryError = ErrorType<ErrorResponse>
+export type GetSheltersIdOccupancyQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersIdOccupancy>>>
+export type GetSheltersIdOccupancyQueryError = ErrorType<ErrorResponse | ErrorResponse>
 
 
-export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse>>(
- params: undefined |  GetApiSyncLogsParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>> & Pick<
+export function useGetSheltersIdOccupancy<TData = Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncLogs>>,
+          Awaited<ReturnType<typeof getSheltersIdOccupancy>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncLogs>>
+          Awaited<ReturnType<typeof getSheltersIdOccupancy>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse>>(
- params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>> & Pick<
+export function useGetSheltersIdOccupancy<TData = Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getApiSyncLogs>>,
+          Awaited<ReturnType<typeof getSheltersIdOccupancy>>,
           TError,
-          Awaited<ReturnType<typeof getApiSyncLogs>>
+          Awaited<ReturnType<typeof getSheltersIdOccupancy>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse>>(
- params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersIdOccupancy<TData = Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary 同期ログ一覧を取得
+ * @summary 避難者数の記録履歴を取得
  */
 
-export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLogs>>, TError = ErrorType<ErrorResponse>>(
- params?: GetApiSyncLogsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getApiSyncLogs>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersIdOccupancy<TData = Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdOccupancy>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetApiSyncLogsQueryOptions(params,options)
+  const queryOptions = getGetSheltersIdOccupancyQueryOptions(id,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -870,35 +3936,31 @@ export function useGetApiSyncLogs<TData = Awaited<ReturnType<typeof getApiSyncLo
 
 
 /**
- * 本文・時刻・位置トラックなどのメタデータと、画像/動画ファイルを同梱して投稿します。
- * @summary 投稿を新規作成（メディア同梱）
+ * 避難所スタッフ（所属避難所のみ）または本部管理者が実行できます。記録は同期で本番へ送信されます。
+ * @summary 現在の避難者数を記録
  */
-export const postPosts = (
-    postPostsBody: PostPostsBody,
+export const postSheltersIdOccupancy = (
+    id: number,
+    recordOccupancyRequest: RecordOccupancyRequest,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
-      const formData = new FormData();
-formData.append(`metadata`, JSON.stringify(postPostsBody.metadata));
-if(postPostsBody.mediaFiles !== undefined) {
- postPostsBody.mediaFiles.forEach(value => formData.append(`mediaFiles`, value));
- }
-
-      return axiosInstance<CreatePostResponse>(
-      {url: `/posts`, method: 'POST',
-      headers: {'Content-Type': 'multipart/form-data', },
-       data: formData, signal
+      
+      return axiosInstance<OccupancyRecord>(
+      {url: `/shelters/${id}/occupancy`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: recordOccupancyRequest, signal
     },
       options);
     }
   
 
 
-export const getPostPostsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext>, request?: SecondParameter<typeof axiosInstance>}
-): UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext> => {
+export const getPostSheltersIdOccupancyMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdOccupancy>>, TError,{id: number;data: RecordOccupancyRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdOccupancy>>, TError,{id: number;data: RecordOccupancyRequest}, TContext> => {
 
-const mutationKey = ['postPosts'];
+const mutationKey = ['postSheltersIdOccupancy'];
 const {mutation: mutationOptions, request: requestOptions} = options ?
       options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
       options
@@ -908,10 +3970,10 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       
 
 
-      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postPosts>>, {data: PostPostsBody}> = (props) => {
-          const {data} = props ?? {};
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postSheltersIdOccupancy>>, {id: number;data: RecordOccupancyRequest}> = (props) => {
+          const {id,data} = props ?? {};
 
-          return  postPosts(data,requestOptions)
+          return  postSheltersIdOccupancy(id,data,requestOptions)
         }
 
         
@@ -919,39 +3981,39 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
   return  { mutationFn, ...mutationOptions }}
 
-    export type PostPostsMutationResult = NonNullable<Awaited<ReturnType<typeof postPosts>>>
-    export type PostPostsMutationBody = PostPostsBody
-    export type PostPostsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+    export type PostSheltersIdOccupancyMutationResult = NonNullable<Awaited<ReturnType<typeof postSheltersIdOccupancy>>>
+    export type PostSheltersIdOccupancyMutationBody = RecordOccupancyRequest
+    export type PostSheltersIdOccupancyMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
- * @summary 投稿を新規作成（メディア同梱）
+ * @summary 現在の避難者数を記録
  */
-export const usePostPosts = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
-    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPosts>>, TError,{data: PostPostsBody}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+export const usePostSheltersIdOccupancy = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdOccupancy>>, TError,{id: number;data: RecordOccupancyRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
-        Awaited<ReturnType<typeof postPosts>>,
+        Awaited<ReturnType<typeof postSheltersIdOccupancy>>,
         TError,
-        {data: PostPostsBody},
+        {id: number;data: RecordOccupancyRequest},
         TContext
       > => {
 
-      const mutationOptions = getPostPostsMutationOptions(options);
+      const mutationOptions = getPostSheltersIdOccupancyMutationOptions(options);
 
       return useMutation(mutationOptions, queryClient);
     }
     
 /**
- * 指定した投稿IDの詳細情報（メディアURL含む）を取得します。
- * @summary 投稿の詳細を取得
+ * 現在庫が最低在庫数を下回る品目は isShortage が true になります。
+ * @summary 避難所の物資在庫一覧を取得
  */
-export const getPostsId = (
-    id: string,
+export const getSheltersIdInventory = (
+    id: number,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<PostDetailResponse>(
-      {url: `/posts/${id}`, method: 'GET', signal
+      return axiosInstance<InventoryListResponse>(
+      {url: `/shelters/${id}/inventory`, method: 'GET', signal
     },
       options);
     }
@@ -959,91 +4021,227 @@ export const getPostsId = (
 
 
 
-export const getGetPostsIdQueryKey = (id?: string,) => {
+export const getGetSheltersIdInventoryQueryKey = (id?: number,) => {
     return [
-    `/posts/${id}`
+    `/shelters/${id}/inventory`
     ] as const;
     }
 
     
-export const getGetPostsIdQueryOptions = <TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersIdInventoryQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersIdInventory>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetPostsIdQueryKey(id);
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdInventoryQueryKey(id);
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getPostsId>>> = ({ signal }) => getPostsId(id, requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersIdInventory>>> = ({ signal }) => getSheltersIdInventory(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetSheltersIdInventoryQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersIdInventory>>>
+export type GetSheltersIdInventoryQueryError = ErrorType<ErrorResponse | ErrorResponse>
+
+
+export function useGetSheltersIdInventory<TData = Awaited<ReturnType<typeof getSheltersIdInventory>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSheltersIdInventory>>,
+          TError,
+          Awaited<ReturnType<typeof getSheltersIdInventory>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSheltersIdInventory<TData = Awaited<ReturnType<typeof getSheltersIdInventory>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getSheltersIdInventory>>,
+          TError,
+          Awaited<ReturnType<typeof getSheltersIdInventory>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetSheltersIdInventory<TData = Awaited<ReturnType<typeof getSheltersIdInventory>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+/**
+ * @summary 避難所の物資在庫一覧を取得
+ */
+
+export function useGetSheltersIdInventory<TData = Awaited<ReturnType<typeof getSheltersIdInventory>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
+ id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventory>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetSheltersIdInventoryQueryOptions(id,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * 避難所スタッフ（所属避難所のみ）または本部管理者が実行できます。初期在庫は入庫として記録されます。
+ * @summary 在庫品目を登録
+ */
+export const postSheltersIdInventory = (
+    id: number,
+    createInventoryItemRequest: CreateInventoryItemRequest,
+ options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return axiosInstance<InventoryItem>(
+      {url: `/shelters/${id}/inventory`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: createInventoryItemRequest, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostSheltersIdInventoryMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventory>>, TError,{id: number;data: CreateInventoryItemRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventory>>, TError,{id: number;data: CreateInventoryItemRequest}, TContext> => {
+
+const mutationKey = ['postSheltersIdInventory'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
 
       
 
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postSheltersIdInventory>>, {id: number;data: CreateInventoryItemRequest}> = (props) => {
+          const {id,data} = props ?? {};
+
+          return  postSheltersIdInventory(id,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostSheltersIdInventoryMutationResult = NonNullable<Awaited<ReturnType<typeof postSheltersIdInventory>>>
+    export type PostSheltersIdInventoryMutationBody = CreateInventoryItemRequest
+    export type PostSheltersIdInventoryMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary 在庫品目を登録
+ */
+export const usePostSheltersIdInventory = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventory>>, TError,{id: number;data: CreateInventoryItemRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postSheltersIdInventory>>,
+        TError,
+        {id: number;data: CreateInventoryItemRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPostSheltersIdInventoryMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * 品目名・単位・最低在庫数を更新します。現在庫は入出庫でのみ変更できます。
+ * @summary 在庫品目を更新
+ */
+export const patchSheltersIdInventoryItemId = (
+    id: number,
+    itemId: string,
+    inventoryItemUpdateRequest: InventoryItemUpdateRequest,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
       
+      return axiosInstance<InventoryItem>(
+      {url: `/shelters/${id}/inventory/${itemId}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: inventoryItemUpdateRequest
+    },
+      options);
+    }
+  
+
 
-   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
-}
+export const getPatchSheltersIdInventoryItemIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>, TError,{id: number;itemId: string;data: InventoryItemUpdateRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>, TError,{id: number;itemId: string;data: InventoryItemUpdateRequest}, TContext> => {
 
-export type GetPostsIdQueryResult = NonNullable<Awaited<ReturnType<typeof getPostsId>>>
-export type GetPostsIdQueryError = ErrorType<ErrorResponse | ErrorResponse>
+const mutationKey = ['patchSheltersIdInventoryItemId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
 
+      
 
-export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: string, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>> & Pick<
-        DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getPostsId>>,
-          TError,
-          Awaited<ReturnType<typeof getPostsId>>
-        > , 'initialData'
-      >, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>> & Pick<
-        UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getPostsId>>,
-          TError,
-          Awaited<ReturnType<typeof getPostsId>>
-        > , 'initialData'
-      >, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-/**
- * @summary 投稿の詳細を取得
- */
 
-export function useGetPostsId<TData = Awaited<ReturnType<typeof getPostsId>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getPostsId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient 
- ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>, {id: number;itemId: string;data: InventoryItemUpdateRequest}> = (props) => {
+          const {id,itemId,data} = props ?? {};
 
-  const queryOptions = getGetPostsIdQueryOptions(id,options)
+          return  patchSheltersIdInventoryItemId(id,itemId,data,requestOptions)
+        }
 
-  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+        
 
-  query.queryKey = queryOptions.queryKey ;
 
-  return query;
-}
+  return  { mutationFn, ...mutationOptions }}
 
+    export type PatchSheltersIdInventoryItemIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>>
+    export type PatchSheltersIdInventoryItemIdMutationBody = InventoryItemUpdateRequest
+    export type PatchSheltersIdInventoryItemIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
+    /**
+ * @summary 在庫品目を更新
+ */
+export const usePatchSheltersIdInventoryItemId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>, TError,{id: number;itemId: string;data: InventoryItemUpdateRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof patchSheltersIdInventoryItemId>>,
+        TError,
+        {id: number;itemId: string;data: InventoryItemUpdateRequest},
+        TContext
+      > => {
 
+      const mutationOptions = getPatchSheltersIdInventoryItemIdMutationOptions(options);
 
+      return useMutation(mutationOptions, queryClient);
+    }
+    
 /**
- * @summary 避難所一覧を取得
+ * 新しい順に最大50件を返します。
+ * @summary 入出庫履歴を取得
  */
-export const getShelters = (
-    
+export const getSheltersIdInventoryItemIdTransactions = (
+    id: number,
+    itemId: string,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<ShelterListWithCountResponse>(
-      {url: `/shelters`, method: 'GET', signal
+      return axiosInstance<InventoryTransactionsResponse>(
+      {url: `/shelters/${id}/inventory/${itemId}/transactions`, method: 'GET', signal
     },
       options);
     }
@@ -1051,69 +4249,75 @@ export const getShelters = (
 
 
 
-export const getGetSheltersQueryKey = () => {
+export const getGetSheltersIdInventoryItemIdTransactionsQueryKey = (id?: number,
+    itemId?: string,) => {
     return [
-    `/shelters`
+    `/shelters/${id}/inventory/${itemId}/transactions`
     ] as const;
     }
 
     
-export const getGetSheltersQueryOptions = <TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersIdInventoryItemIdTransactionsQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(id: number,
+    itemId: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetSheltersQueryKey();
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdInventoryItemIdTransactionsQueryKey(id,itemId);
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getShelters>>> = ({ signal }) => getShelters(requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>> = ({ signal }) => getSheltersIdInventoryItemIdTransactions(id,itemId, requestOptions, signal);
 
       
 
       
 
-   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+   return  { queryKey, queryFn, enabled: !!(id && itemId), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
 }
 
-export type GetSheltersQueryResult = NonNullable<Awaited<ReturnType<typeof getShelters>>>
-export type GetSheltersQueryError = ErrorType<ErrorResponse>
+export type GetSheltersIdInventoryItemIdTransactionsQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>>
+export type GetSheltersIdInventoryItemIdTransactionsQueryError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
 
 
-export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
-  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>> & Pick<
+export function useGetSheltersIdInventoryItemIdTransactions<TData = Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number,
+    itemId: string, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getShelters>>,
+          Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>,
           TError,
-          Awaited<ReturnType<typeof getShelters>>
+          Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>> & Pick<
+export function useGetSheltersIdInventoryItemIdTransactions<TData = Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number,
+    itemId: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getShelters>>,
+          Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>,
           TError,
-          Awaited<ReturnType<typeof getShelters>>
+          Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>
         > , 'initialData'
       >, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersIdInventoryItemIdTransactions<TData = Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number,
+    itemId: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary 避難所一覧を取得
+ * @summary 入出庫履歴を取得
  */
 
-export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>, TError = ErrorType<ErrorResponse>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getShelters>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export function useGetSheltersIdInventoryItemIdTransactions<TData = Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>>(
+ id: number,
+    itemId: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdInventoryItemIdTransactions>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetSheltersQueryOptions(options)
+  const queryOptions = getGetSheltersIdInventoryItemIdTransactionsQueryOptions(id,itemId,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -1126,108 +4330,90 @@ export function useGetShelters<TData = Awaited<ReturnType<typeof getShelters>>,
 
 
 /**
- * @summary 避難所の詳細を取得
+ * 記録後の品目（現在庫・不足フラグを含む）を返します。入出庫履歴は同期で本番へ送信されます。
+ * @summary 入庫・出庫を記録
  */
-export const getSheltersId = (
+export const postSheltersIdInventoryItemIdTransactions = (
     id: number,
+    itemId: string,
+    stockTransactionRequest: StockTransactionRequest,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
-      return axiosInstance<ShelterDetails>(
-      {url: `/shelters/${id}`, method: 'GET', signal
+      return axiosInstance<InventoryItem>(
+      {url: `/shelters/${id}/inventory/${itemId}/transactions`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: stockTransactionRequest, signal
     },
       options);
     }
   
 
 
+export const getPostSheltersIdInventoryItemIdTransactionsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>, TError,{id: number;itemId: string;data: StockTransactionRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>, TError,{id: number;itemId: string;data: StockTransactionRequest}, TContext> => {
 
-export const getGetSheltersIdQueryKey = (id?: number,) => {
-    return [
-    `/shelters/${id}`
-    ] as const;
-    }
-
-    
-export const getGetSheltersIdQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
-) => {
-
-const {query: queryOptions, request: requestOptions} = options ?? {};
-
-  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdQueryKey(id);
-
-  
-
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersId>>> = ({ signal }) => getSheltersId(id, requestOptions, signal);
-
-      
+const mutationKey = ['postSheltersIdInventoryItemIdTransactions'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
 
       
 
-   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
-}
-
-export type GetSheltersIdQueryResult = NonNullable<Awaited<ReturnType<typeof getSheltersId>>>
-export type GetSheltersIdQueryError = ErrorType<ErrorResponse | ErrorResponse | void>
-
-
-export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
- id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>> & Pick<
-        DefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getSheltersId>>,
-          TError,
-          Awaited<ReturnType<typeof getSheltersId>>
-        > , 'initialData'
-      >, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>> & Pick<
-        UndefinedInitialDataOptions<
-          Awaited<ReturnType<typeof getSheltersId>>,
-          TError,
-          Awaited<ReturnType<typeof getSheltersId>>
-        > , 'initialData'
-      >, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient
-  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
-/**
- * @summary 避難所の詳細を取得
- */
 
-export function useGetSheltersId<TData = Awaited<ReturnType<typeof getSheltersId>>, TError = ErrorType<ErrorResponse | ErrorResponse | void>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersId>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
- , queryClient?: QueryClient 
- ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>, {id: number;itemId: string;data: StockTransactionRequest}> = (props) => {
+          const {id,itemId,data} = props ?? {};
 
-  const queryOptions = getGetSheltersIdQueryOptions(id,options)
+          return  postSheltersIdInventoryItemIdTransactions(id,itemId,data,requestOptions)
+        }
 
-  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+        
 
-  query.queryKey = queryOptions.queryKey ;
 
-  return query;
-}
+  return  { mutationFn, ...mutationOptions }}
 
+    export type PostSheltersIdInventoryItemIdTransactionsMutationResult = NonNullable<Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>>
+    export type PostSheltersIdInventoryItemIdTransactionsMutationBody = StockTransactionRequest
+    export type PostSheltersIdInventoryItemIdTransactionsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
+    /**
+ * @summary 入庫・出庫を記録
+ */
+export const usePostSheltersIdInventoryItemIdTransactions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>, TError,{id: number;itemId: string;data: StockTransactionRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postSheltersIdInventoryItemIdTransactions>>,
+        TError,
+        {id: number;itemId: string;data: StockTransactionRequest},
+        TContext
+      > => {
 
+      const mutationOptions = getPostSheltersIdInventoryItemIdTransactionsMutationOptions(options);
 
+      return useMutation(mutationOptions, queryClient);
+    }
+    
 /**
- * @summary 指定した避難所の最新投稿を取得
+ * 避難所の投稿を絞り込み・並び替えてページ単位で返します。
+レスポンスの `nextCursor` を次のリクエストの `cursor` に指定し、`hasMore` が false になるまで取得してください。
+カーソルは同じ `sort` でのみ使えます（絞り込み条件を変えた場合は先頭から取得し直してください）。
+
+ * @summary 指定した避難所の投稿を取得
  */
 export const getSheltersIdPosts = (
     id: number,
+    params?: GetSheltersIdPostsParams,
  options?: SecondParameter<typeof axiosInstance>,signal?: AbortSignal
 ) => {
       
       
       return axiosInstance<ShelterPostsResponse>(
-      {url: `/shelters/${id}/posts`, method: 'GET', signal
+      {url: `/shelters/${id}/posts`, method: 'GET',
+        params, signal
     },
       options);
     }
@@ -1235,23 +4421,25 @@ export const getSheltersIdPosts = (
 
 
 
-export const getGetSheltersIdPostsQueryKey = (id?: number,) => {
+export const getGetSheltersIdPostsQueryKey = (id?: number,
+    params?: GetSheltersIdPostsParams,) => {
     return [
-    `/shelters/${id}/posts`
+    `/shelters/${id}/posts`, ...(params ? [params]: [])
     ] as const;
     }
 
     
-export const getGetSheltersIdPostsQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+export const getGetSheltersIdPostsQueryOptions = <TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(id: number,
+    params?: GetSheltersIdPostsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdPostsQueryKey(id);
+  const queryKey =  queryOptions?.queryKey ?? getGetSheltersIdPostsQueryKey(id,params);
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersIdPosts>>> = ({ signal }) => getSheltersIdPosts(id, requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getSheltersIdPosts>>> = ({ signal }) => getSheltersIdPosts(id,params, requestOptions, signal);
 
       
 
@@ -1265,7 +4453,8 @@ export type GetSheltersIdPostsQueryError = ErrorType<ErrorResponse | ErrorRespon
 
 
 export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: number, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>> & Pick<
+ id: number,
+    params: undefined |  GetSheltersIdPostsParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
           Awaited<ReturnType<typeof getSheltersIdPosts>>,
           TError,
@@ -1275,7 +4464,8 @@ export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getShelt
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>> & Pick<
+ id: number,
+    params?: GetSheltersIdPostsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
           Awaited<ReturnType<typeof getSheltersIdPosts>>,
           TError,
@@ -1285,19 +4475,21 @@ export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getShelt
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ id: number,
+    params?: GetSheltersIdPostsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 /**
- * @summary 指定した避難所の最新投稿を取得
+ * @summary 指定した避難所の投稿を取得
  */
 
 export function useGetSheltersIdPosts<TData = Awaited<ReturnType<typeof getSheltersIdPosts>>, TError = ErrorType<ErrorResponse | ErrorResponse>>(
- id: number, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
+ id: number,
+    params?: GetSheltersIdPostsParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getSheltersIdPosts>>, TError, TData>>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetSheltersIdPostsQueryOptions(id,options)
+  const queryOptions = getGetSheltersIdPostsQueryOptions(id,params,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -1429,7 +4621,7 @@ export const postPostsIdComments = (
   
 
 
-export const getPostPostsIdCommentsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+export const getPostPostsIdCommentsMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
     TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPostsIdComments>>, TError,{id: string;data: CreateCommentRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
 ): UseMutationOptions<Awaited<ReturnType<typeof postPostsIdComments>>, TError,{id: string;data: CreateCommentRequest}, TContext> => {
 
@@ -1456,12 +4648,12 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
     export type PostPostsIdCommentsMutationResult = NonNullable<Awaited<ReturnType<typeof postPostsIdComments>>>
     export type PostPostsIdCommentsMutationBody = CreateCommentRequest
-    export type PostPostsIdCommentsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>
+    export type PostPostsIdCommentsMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
 
     /**
  * @summary コメントを新規投稿
  */
-export const usePostPostsIdComments = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse>,
+export const usePostPostsIdComments = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
     TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postPostsIdComments>>, TError,{id: string;data: CreateCommentRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
  , queryClient?: QueryClient): UseMutationResult<
         Awaited<ReturnType<typeof postPostsIdComments>>,
@@ -1475,3 +4667,134 @@ export const usePostPostsIdComments = <TError = ErrorType<ErrorResponse | ErrorR
       return useMutation(mutationOptions, queryClient);
     }
     
+/**
+ * コメントの本文・ステータスを更新します。対応中・対応済みへの変更は職員・本部管理者のみ可能です。
+ * @summary コメントを編集
+ */
+export const patchPostsIdCommentsCommentId = (
+    id: string,
+    commentId: string,
+    updateCommentRequest: UpdateCommentRequest,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
+      
+      return axiosInstance<UpdateCommentResponse>(
+      {url: `/posts/${id}/comments/${commentId}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: updateCommentRequest
+    },
+      options);
+    }
+  
+
+
+export const getPatchPostsIdCommentsCommentIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>, TError,{id: string;commentId: string;data: UpdateCommentRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>, TError,{id: string;commentId: string;data: UpdateCommentRequest}, TContext> => {
+
+const mutationKey = ['patchPostsIdCommentsCommentId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>, {id: string;commentId: string;data: UpdateCommentRequest}> = (props) => {
+          const {id,commentId,data} = props ?? {};
+
+          return  patchPostsIdCommentsCommentId(id,commentId,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PatchPostsIdCommentsCommentIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>>
+    export type PatchPostsIdCommentsCommentIdMutationBody = UpdateCommentRequest
+    export type PatchPostsIdCommentsCommentIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary コメントを編集
+ */
+export const usePatchPostsIdCommentsCommentId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>, TError,{id: string;commentId: string;data: UpdateCommentRequest}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof patchPostsIdCommentsCommentId>>,
+        TError,
+        {id: string;commentId: string;data: UpdateCommentRequest},
+        TContext
+      > => {
+
+      const mutationOptions = getPatchPostsIdCommentsCommentIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
+/**
+ * コメントを論理削除します。
+ * @summary コメントを削除
+ */
+export const deletePostsIdCommentsCommentId = (
+    id: string,
+    commentId: string,
+ options?: SecondParameter<typeof axiosInstance>,) => {
+      
+      
+      return axiosInstance<OkResponse>(
+      {url: `/posts/${id}/comments/${commentId}`, method: 'DELETE'
+    },
+      options);
+    }
+  
+
+
+export const getDeletePostsIdCommentsCommentIdMutationOptions = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>, TError,{id: string;commentId: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>, TError,{id: string;commentId: string}, TContext> => {
+
+const mutationKey = ['deletePostsIdCommentsCommentId'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>, {id: string;commentId: string}> = (props) => {
+          const {id,commentId} = props ?? {};
+
+          return  deletePostsIdCommentsCommentId(id,commentId,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type DeletePostsIdCommentsCommentIdMutationResult = NonNullable<Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>>
+    
+    export type DeletePostsIdCommentsCommentIdMutationError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>
+
+    /**
+ * @summary コメントを削除
+ */
+export const useDeletePostsIdCommentsCommentId = <TError = ErrorType<ErrorResponse | ErrorResponse | ErrorResponse | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>, TError,{id: string;commentId: string}, TContext>, request?: SecondParameter<typeof axiosInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof deletePostsIdCommentsCommentId>>,
+        TError,
+        {id: string;commentId: string},
+        TContext
+      > => {
+
+      const mutationOptions = getDeletePostsIdCommentsCommentIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
@@ -0,0 +1,51 @@
+import { LogIn, LogOut, UserCircle } from "lucide-react";
+import { usePostAuthLogout } from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	clearAuthSession,
+	ROLE_LABELS,
+	requestLogin,
+	useAuth,
+} from "@/lib/auth";
+
+export function AuthStatus() {
+	const staff = useAuth();
+	const logoutMutation = usePostAuthLogout();
+
+	const handleLogout = async () => {
+		try {
+			await logoutMutation.mutateAsync();
+		} catch (error) {
+			// トークンが既に無効でもローカルのセッションは破棄する
+			console.error("ログアウトに失敗しました:", error);
+		} finally {
+			clearAuthSession();
+		}
+	};
+
+	if (!staff) {
+		return (
+			<Button variant="outline" size="sm" onClick={requestLogin}>
+				<LogIn className="h-4 w-4 mr-2" />
+				ログイン
+			</Button>
+		);
+	}
+
+	return (
+		<div className="flex items-center gap-2">
+			<UserCircle className="h-5 w-5 text-muted-foreground" />
+			<span className="text-sm font-medium">{staff.displayName}</span>
+			<Badge variant="secondary">{ROLE_LABELS[staff.role]}</Badge>
+			<Button
+				variant="ghost"
+				size="sm"
+				onClick={handleLogout}
+				disabled={logoutMutation.isPending}
+			>
+				<LogOut className="h-4 w-4" />
+			</Button>
+		</div>
+	);
+}
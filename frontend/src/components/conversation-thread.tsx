@@ -1,11 +1,14 @@
+import { useQueryClient } from "@tanstack/react-query";
 import L from "leaflet";
 import {
 	ArrowLeft,
 	Clock,
 	MapPin,
 	MessageCircle,
+	Pencil,
 	Send,
 	Shield,
+	Trash2,
 	User,
 } from "lucide-react";
 import type React from "react";
@@ -17,7 +20,13 @@ import type {
 	PostDetailResponse,
 } from "@/api/generated/model";
 import {
+	getGetPostsIdQueryKey,
+	getGetSheltersIdPostsQueryKey,
+	useDeletePostsId,
+	useDeletePostsIdCommentsCommentId,
 	useGetPostsIdComments,
+	usePatchPostsId,
+	usePatchPostsIdCommentsCommentId,
 	usePostPostsIdComments,
 } from "@/api/generated/team2API";
 import { Badge } from "@/components/ui/badge";
@@ -25,7 +34,6 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { syncService } from "@/lib/sync-service";
 import {
 	Select,
 	SelectContent,
@@ -34,6 +42,8 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { canModifyContent, isStaffRole, useAuth } from "@/lib/auth";
+import { syncService } from "@/lib/sync-service";
 
 // Leafletのデフォルトアイコンを修正
 // biome-ignore lint/suspicious/noExplicitAny: Leaflet internal API requires this
@@ -285,8 +295,26 @@ export function ConversationThread({
 	const [responderName, setResponderName] = useState("");
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
+	const [isEditingReport, setIsEditingReport] = useState(false);
+	const [editedDetails, setEditedDetails] = useState("");
+	const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+	const [editedComment, setEditedComment] = useState("");
+
+	// 対応中・対応済みへの変更は職員・本部管理者のみ
+	const staff = useAuth();
+	const canUpdateStatus = isStaffRole(staff?.role);
+	// 編集・削除は投稿先の避難所が分かってから判定する
+	const canModify = (authorStaffId: number | null) =>
+		postDetail !== undefined &&
+		canModifyContent(staff, postDetail.shelterId, authorStaffId);
+
 	// APIクライアントの初期化
+	const queryClient = useQueryClient();
 	const createCommentMutation = usePostPostsIdComments();
+	const updatePostMutation = usePatchPostsId();
+	const deletePostMutation = useDeletePostsId();
+	const updateCommentMutation = usePatchPostsIdCommentsCommentId();
+	const deleteCommentMutation = useDeletePostsIdCommentsCommentId();
 
 	// コメント一覧を取得
 	const {
@@ -328,6 +356,80 @@ export function ConversationThread({
 		}
 	}, [postDetail]);
 
+	// 報告一覧・詳細のキャッシュを破棄して最新状態を取り直す
+	const refreshReport = async () => {
+		await Promise.all([
+			queryClient.invalidateQueries({
+				queryKey: getGetPostsIdQueryKey(report.id),
+			}),
+			postDetail &&
+				queryClient.invalidateQueries({
+					queryKey: getGetSheltersIdPostsQueryKey(postDetail.shelterId),
+				}),
+		]);
+	};
+
+	const handleSaveReport = async () => {
+		try {
+			await updatePostMutation.mutateAsync({
+				id: report.id,
+				data: { content: editedDetails.trim() || null },
+			});
+			setIsEditingReport(false);
+			await refreshReport();
+		} catch (error) {
+			console.error("報告の更新に失敗しました:", error);
+			alert("報告の更新に失敗しました。もう一度お試しください。");
+		}
+	};
+
+	const handleDeleteReport = async () => {
+		if (
+			!window.confirm(
+				"この報告を削除しますか？コメントも表示されなくなります。",
+			)
+		) {
+			return;
+		}
+		try {
+			await deletePostMutation.mutateAsync({ id: report.id });
+			await refreshReport();
+			onBack();
+		} catch (error) {
+			console.error("報告の削除に失敗しました:", error);
+			alert("報告の削除に失敗しました。もう一度お試しください。");
+		}
+	};
+
+	const handleSaveComment = async (commentId: string) => {
+		if (!editedComment.trim()) return;
+		try {
+			await updateCommentMutation.mutateAsync({
+				id: report.id,
+				commentId,
+				data: { content: editedComment.trim() },
+			});
+			setEditingCommentId(null);
+			await refetchComments();
+		} catch (error) {
+			console.error("コメントの更新に失敗しました:", error);
+			alert("コメントの更新に失敗しました。もう一度お試しください。");
+		}
+	};
+
+	const handleDeleteComment = async (commentId: string) => {
+		if (!window.confirm("このコメントを削除しますか？")) {
+			return;
+		}
+		try {
+			await deleteCommentMutation.mutateAsync({ id: report.id, commentId });
+			await Promise.all([refetchComments(), refreshReport()]);
+		} catch (error) {
+			console.error("コメントの削除に失敗しました:", error);
+			alert("コメントの削除に失敗しました。もう一度お試しください。");
+		}
+	};
+
 	const handleSubmitMessage = async (e: React.FormEvent) => {
 		e.preventDefault();
 		if (!newMessage.trim() || !responderName.trim()) return;
@@ -412,9 +514,37 @@ export function ConversationThread({
 								</p>
 							</div>
 						</div>
-						<Badge className={getStatusColor(report.status)}>
-							{report.status || "-"}
-						</Badge>
+						<div className="flex items-center gap-2">
+							{canModify(postDetail?.authorStaffId ?? null) &&
+								!isEditingReport && (
+									<>
+										<Button
+											variant="ghost"
+											size="sm"
+											onClick={() => {
+												setEditedDetails(postDetail?.content ?? "");
+												setIsEditingReport(true);
+											}}
+										>
+											<Pencil className="h-4 w-4 mr-1" />
+											編集
+										</Button>
+										<Button
+											variant="ghost"
+											size="sm"
+											className="text-destructive"
+											disabled={deletePostMutation.isPending}
+											onClick={() => void handleDeleteReport()}
+										>
+											<Trash2 className="h-4 w-4 mr-1" />
+											削除
+										</Button>
+									</>
+								)}
+							<Badge className={getStatusColor(report.status)}>
+								{report.status || "-"}
+							</Badge>
+						</div>
 					</div>
 				</CardHeader>
 				<CardContent>
@@ -423,7 +553,34 @@ export function ConversationThread({
 							<h4 className="font-medium text-sm text-muted-foreground">
 								報告内容
 							</h4>
-							<p className="text-sm">{report.details}</p>
+							{isEditingReport ? (
+								<div className="space-y-2">
+									<Textarea
+										aria-label="報告内容"
+										value={editedDetails}
+										onChange={(e) => setEditedDetails(e.target.value)}
+										className="min-h-20"
+									/>
+									<div className="flex justify-end gap-2">
+										<Button
+											variant="outline"
+											size="sm"
+											onClick={() => setIsEditingReport(false)}
+										>
+											キャンセル
+										</Button>
+										<Button
+											size="sm"
+											disabled={updatePostMutation.isPending}
+											onClick={() => void handleSaveReport()}
+										>
+											保存
+										</Button>
+									</div>
+								</div>
+							) : (
+								<p className="text-sm">{report.details}</p>
+							)}
 						</div>
 
 						<div>
@@ -613,8 +770,71 @@ export function ConversationThread({
 																{comment.status}
 															</Badge>
 														)}
+														{canModify(comment.authorStaffId) &&
+															editingCommentId !== comment.id && (
+																<div className="ml-auto flex gap-1">
+																	<Button
+																		variant="ghost"
+																		size="icon"
+																		className="h-6 w-6"
+																		aria-label="コメントを編集"
+																		onClick={() => {
+																			setEditingCommentId(comment.id);
+																			setEditedComment(comment.content);
+																		}}
+																	>
+																		<Pencil className="h-3 w-3" />
+																	</Button>
+																	<Button
+																		variant="ghost"
+																		size="icon"
+																		className="h-6 w-6 text-destructive"
+																		aria-label="コメントを削除"
+																		disabled={deleteCommentMutation.isPending}
+																		onClick={() =>
+																			void handleDeleteComment(comment.id)
+																		}
+																	>
+																		<Trash2 className="h-3 w-3" />
+																	</Button>
+																</div>
+															)}
 													</div>
-													<p className="text-sm">{comment.content}</p>
+													{editingCommentId === comment.id ? (
+														<div className="space-y-2">
+															<Textarea
+																aria-label="コメント内容"
+																value={editedComment}
+																onChange={(e) =>
+																	setEditedComment(e.target.value)
+																}
+																className="min-h-16 resize-none"
+															/>
+															<div className="flex justify-end gap-2">
+																<Button
+																	variant="outline"
+																	size="sm"
+																	onClick={() => setEditingCommentId(null)}
+																>
+																	キャンセル
+																</Button>
+																<Button
+																	size="sm"
+																	disabled={
+																		updateCommentMutation.isPending ||
+																		!editedComment.trim()
+																	}
+																	onClick={() =>
+																		void handleSaveComment(comment.id)
+																	}
+																>
+																	保存
+																</Button>
+															</div>
+														</div>
+													) : (
+														<p className="text-sm">{comment.content}</p>
+													)}
 													<span className="text-xs text-muted-foreground mt-2 block">
 														<Clock className="inline h-3 w-3 mr-1" />
 														{new Date(comment.createdAt).toLocaleString(
@@ -695,8 +915,12 @@ export function ConversationThread({
 											</SelectTrigger>
 											<SelectContent>
 												<SelectItem value="未対応">未対応</SelectItem>
-												<SelectItem value="対応中">対応中</SelectItem>
-												<SelectItem value="対応済み">対応済み</SelectItem>
+												{canUpdateStatus && (
+													<>
+														<SelectItem value="対応中">対応中</SelectItem>
+														<SelectItem value="対応済み">対応済み</SelectItem>
+													</>
+												)}
 											</SelectContent>
 										</Select>
 									</div>
@@ -0,0 +1,337 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Minus, Package, Plus } from "lucide-react";
+import type React from "react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import type { InventoryItem } from "@/api/generated/model";
+import {
+	getGetSheltersIdInventoryQueryKey,
+	useGetSheltersIdInventory,
+	usePostSheltersIdInventory,
+	usePostSheltersIdInventoryItemIdTransactions,
+} from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/auth";
+
+interface InventoryPanelProps {
+	shelterId: number;
+}
+
+interface NewItemFormState {
+	name: string;
+	unit: string;
+	minQuantity: string;
+	initialQuantity: string;
+}
+
+const emptyNewItemForm: NewItemFormState = {
+	name: "",
+	unit: "",
+	minQuantity: "",
+	initialQuantity: "",
+};
+
+const isNonNegativeInteger = (value: string) => /^\d+$/.test(value.trim());
+
+export function InventoryPanel({ shelterId }: InventoryPanelProps) {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const [newItem, setNewItem] = useState<NewItemFormState>(emptyNewItemForm);
+	const [quantityInputs, setQuantityInputs] = useState<Record<string, string>>(
+		{},
+	);
+
+	const { data: inventoryData, isLoading } =
+		useGetSheltersIdInventory(shelterId);
+	const createItemMutation = usePostSheltersIdInventory();
+	const transactionMutation = usePostSheltersIdInventoryItemIdTransactions();
+
+	const nameId = useId();
+	const unitId = useId();
+	const minQuantityId = useId();
+	const initialQuantityId = useId();
+
+	const items = inventoryData?.items ?? [];
+	const shortageItems = items.filter((item) => item.isShortage);
+
+	// 避難所スタッフは所属避難所のみ、本部管理者はすべての避難所の在庫を管理できる
+	const canManage =
+		staff?.role === "hq_admin" ||
+		(staff?.role === "shelter_staff" &&
+			(staff.shelterId === null || staff.shelterId === shelterId));
+
+	const refreshInventory = () =>
+		queryClient.invalidateQueries({
+			queryKey: getGetSheltersIdInventoryQueryKey(shelterId),
+		});
+
+	const handleCreateItem = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const minQuantity = newItem.minQuantity.trim() || "0";
+		const initialQuantity = newItem.initialQuantity.trim() || "0";
+		if (
+			!isNonNegativeInteger(minQuantity) ||
+			!isNonNegativeInteger(initialQuantity)
+		) {
+			toast.error("数量は0以上の整数で入力してください");
+			return;
+		}
+
+		try {
+			const created = await createItemMutation.mutateAsync({
+				id: shelterId,
+				data: {
+					name: newItem.name.trim(),
+					unit: newItem.unit.trim() || "個",
+					minQuantity: Number.parseInt(minQuantity, 10),
+					initialQuantity: Number.parseInt(initialQuantity, 10),
+				},
+			});
+			setNewItem(emptyNewItemForm);
+			toast.success(`「${created.name}」を登録しました`);
+			await refreshInventory();
+		} catch (error) {
+			console.error("品目の登録に失敗しました:", error);
+			toast.error(
+				"品目の登録に失敗しました（同じ名前の品目がないか確認してください）",
+			);
+		}
+	};
+
+	const handleTransaction = async (
+		item: InventoryItem,
+		transactionType: "in" | "out",
+	) => {
+		const value = quantityInputs[item.id]?.trim() ?? "";
+		if (!/^[1-9]\d*$/.test(value)) {
+			toast.error("数量は1以上の整数で入力してください");
+			return;
+		}
+
+		try {
+			const updated = await transactionMutation.mutateAsync({
+				id: shelterId,
+				itemId: item.id,
+				data: { transactionType, quantity: Number.parseInt(value, 10) },
+			});
+			setQuantityInputs((prev) => ({ ...prev, [item.id]: "" }));
+			toast.success(
+				`「${updated.name}」を${transactionType === "in" ? "入庫" : "出庫"}しました（在庫 ${updated.quantity}${updated.unit}）`,
+			);
+			if (updated.isShortage) {
+				toast.warning(`「${updated.name}」が最低在庫数を下回っています`);
+			}
+			await refreshInventory();
+		} catch (error) {
+			console.error("入出庫の記録に失敗しました:", error);
+			toast.error(
+				transactionType === "out"
+					? "出庫に失敗しました（出庫数が現在庫を超えていないか確認してください）"
+					: "入庫に失敗しました",
+			);
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			{shortageItems.length > 0 && (
+				<Card className="border-destructive">
+					<CardContent className="p-4 flex items-start gap-3">
+						<AlertTriangle className="h-5 w-5 text-destructive shrink-0" />
+						<div>
+							<p className="font-medium text-destructive">
+								{shortageItems.length}品目が不足しています
+							</p>
+							<p className="text-sm text-muted-foreground">
+								{shortageItems
+									.map(
+										(item) =>
+											`${item.name}（${item.quantity}/${item.minQuantity}${item.unit}）`,
+									)
+									.join("、")}
+							</p>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
+			<Card>
+				<CardHeader>
+					<CardTitle className="flex items-center space-x-2">
+						<Package className="h-5 w-5" />
+						<span>物資在庫</span>
+					</CardTitle>
+				</CardHeader>
+				<CardContent>
+					{isLoading ? (
+						<p className="text-muted-foreground">読み込み中...</p>
+					) : items.length === 0 ? (
+						<p className="text-muted-foreground">
+							登録されている品目はありません
+						</p>
+					) : (
+						<div className="overflow-x-auto">
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>品目</TableHead>
+										<TableHead>現在庫</TableHead>
+										<TableHead>最低在庫数</TableHead>
+										<TableHead>状態</TableHead>
+										{canManage && <TableHead>入出庫</TableHead>}
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{items.map((item) => (
+										<TableRow key={item.id}>
+											<TableCell className="font-medium">{item.name}</TableCell>
+											<TableCell>
+												{item.quantity}
+												{item.unit}
+											</TableCell>
+											<TableCell>
+												{item.minQuantity}
+												{item.unit}
+											</TableCell>
+											<TableCell>
+												{item.isShortage ? (
+													<Badge variant="destructive">不足</Badge>
+												) : (
+													<Badge variant="secondary">充足</Badge>
+												)}
+											</TableCell>
+											{canManage && (
+												<TableCell>
+													<div className="flex items-center gap-2">
+														<Input
+															type="number"
+															min={1}
+															aria-label={`${item.name}の数量`}
+															className="h-8 w-24"
+															value={quantityInputs[item.id] ?? ""}
+															onChange={(e) =>
+																setQuantityInputs((prev) => ({
+																	...prev,
+																	[item.id]: e.target.value,
+																}))
+															}
+														/>
+														<Button
+															size="sm"
+															variant="outline"
+															disabled={transactionMutation.isPending}
+															onClick={() => void handleTransaction(item, "in")}
+														>
+															<Plus className="h-4 w-4 mr-1" />
+															入庫
+														</Button>
+														<Button
+															size="sm"
+															variant="outline"
+															disabled={transactionMutation.isPending}
+															onClick={() =>
+																void handleTransaction(item, "out")
+															}
+														>
+															<Minus className="h-4 w-4 mr-1" />
+															出庫
+														</Button>
+													</div>
+												</TableCell>
+											)}
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+					)}
+				</CardContent>
+			</Card>
+
+			{canManage && (
+				<Card>
+					<CardHeader>
+						<CardTitle>品目を追加</CardTitle>
+					</CardHeader>
+					<CardContent>
+						<form
+							onSubmit={handleCreateItem}
+							className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end"
+						>
+							<div className="space-y-2">
+								<Label htmlFor={nameId}>品目名</Label>
+								<Input
+									id={nameId}
+									placeholder="例: 毛布"
+									value={newItem.name}
+									onChange={(e) =>
+										setNewItem((prev) => ({ ...prev, name: e.target.value }))
+									}
+									required
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={unitId}>単位</Label>
+								<Input
+									id={unitId}
+									placeholder="例: 枚"
+									value={newItem.unit}
+									onChange={(e) =>
+										setNewItem((prev) => ({ ...prev, unit: e.target.value }))
+									}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={minQuantityId}>最低在庫数</Label>
+								<Input
+									id={minQuantityId}
+									type="number"
+									min={0}
+									value={newItem.minQuantity}
+									onChange={(e) =>
+										setNewItem((prev) => ({
+											...prev,
+											minQuantity: e.target.value,
+										}))
+									}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={initialQuantityId}>初期在庫</Label>
+								<Input
+									id={initialQuantityId}
+									type="number"
+									min={0}
+									value={newItem.initialQuantity}
+									onChange={(e) =>
+										setNewItem((prev) => ({
+											...prev,
+											initialQuantity: e.target.value,
+										}))
+									}
+								/>
+							</div>
+							<Button type="submit" disabled={createItemMutation.isPending}>
+								<Plus className="h-4 w-4 mr-2" />
+								追加
+							</Button>
+						</form>
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
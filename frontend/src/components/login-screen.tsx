@@ -0,0 +1,95 @@
+import { KeyRound, X } from "lucide-react";
+import type React from "react";
+import { useId, useState } from "react";
+import { usePostAuthLogin } from "@/api/generated/team2API";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { saveAuthSession } from "@/lib/auth";
+
+interface LoginScreenProps {
+	onClose: () => void;
+}
+
+export function LoginScreen({ onClose }: LoginScreenProps) {
+	const [loginId, setLoginId] = useState("");
+	const [password, setPassword] = useState("");
+	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+	const loginMutation = usePostAuthLogin();
+
+	const loginIdInputId = useId();
+	const passwordInputId = useId();
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setErrorMessage(null);
+
+		try {
+			const result = await loginMutation.mutateAsync({
+				data: { loginId, password },
+			});
+			saveAuthSession(result.token, result.staff);
+			setPassword("");
+			onClose();
+		} catch (error) {
+			console.error("ログインに失敗しました:", error);
+			setErrorMessage("ログインIDまたはパスワードが正しくありません");
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-10000">
+			<Card className="w-full max-w-md relative z-10001">
+				<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+					<div className="flex items-center gap-2">
+						<KeyRound className="h-5 w-5 text-primary" />
+						<CardTitle className="text-xl">ログイン</CardTitle>
+					</div>
+					<Button variant="ghost" size="sm" onClick={onClose}>
+						<X className="h-4 w-4" />
+					</Button>
+				</CardHeader>
+
+				<CardContent>
+					<form onSubmit={handleSubmit} className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor={loginIdInputId}>ログインID</Label>
+							<Input
+								id={loginIdInputId}
+								autoComplete="username"
+								value={loginId}
+								onChange={(e) => setLoginId(e.target.value)}
+								required
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={passwordInputId}>パスワード</Label>
+							<Input
+								id={passwordInputId}
+								type="password"
+								autoComplete="current-password"
+								value={password}
+								onChange={(e) => setPassword(e.target.value)}
+								required
+							/>
+						</div>
+
+						{errorMessage && (
+							<p className="text-sm text-destructive">{errorMessage}</p>
+						)}
+
+						<Button
+							type="submit"
+							className="w-full"
+							disabled={loginMutation.isPending}
+						>
+							{loginMutation.isPending ? "ログイン中..." : "ログイン"}
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -0,0 +1,130 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { ImageOff, RotateCw } from "lucide-react";
+import { toast } from "sonner";
+import type { MediaSyncRetryDirection } from "@/api/generated/model";
+import {
+	getGetApiSyncMediaRetriesQueryKey,
+	useGetApiSyncMediaRetries,
+	usePostApiSyncMediaRetriesRetryNow,
+} from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { isStaffRole, useAuth } from "@/lib/auth";
+
+const formatDateTime = (value: string) =>
+	new Date(value).toLocaleString("ja-JP");
+
+const directionLabels: Record<MediaSyncRetryDirection, string> = {
+	push: "送信",
+	pull: "取得",
+	pull_original: "元画像の取得",
+};
+
+/**
+ * 転送に失敗したメディアファイルの再試行キューを表示する
+ */
+export function MediaSyncRetryViewer() {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const canView = isStaffRole(staff?.role);
+	const { data } = useGetApiSyncMediaRetries({
+		query: {
+			enabled: canView,
+			refetchInterval: 30000,
+		},
+	});
+	const retryNowMutation = usePostApiSyncMediaRetriesRetryNow();
+
+	const retries = data?.retries ?? [];
+
+	if (!canView || retries.length === 0) {
+		return null;
+	}
+
+	const handleRetryNow = async () => {
+		try {
+			const result = await retryNowMutation.mutateAsync();
+			toast.success(
+				`${result.rescheduled}件のメディアを次回の同期で再試行します`,
+			);
+			await queryClient.invalidateQueries({
+				queryKey: getGetApiSyncMediaRetriesQueryKey(),
+			});
+		} catch (error) {
+			console.error("メディア再試行の更新に失敗しました:", error);
+			toast.error("メディア再試行の更新に失敗しました");
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between space-y-0">
+				<div className="space-y-1">
+					<CardTitle className="flex items-center gap-2">
+						<ImageOff className="h-5 w-5 text-orange-600" />
+						<span>メディア転送の再試行</span>
+						<Badge variant="outline">{retries.length}件</Badge>
+					</CardTitle>
+					<p className="text-sm text-muted-foreground">
+						転送に失敗した、またはチェックサムが一致しなかったメディアファイルです。失敗するたびに間隔を空けて自動で再試行します。
+					</p>
+				</div>
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					disabled={retryNowMutation.isPending}
+					onClick={() => void handleRetryNow()}
+				>
+					<RotateCw className="h-4 w-4" />
+					すぐに再試行
+				</Button>
+			</CardHeader>
+			<CardContent>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>方向</TableHead>
+							<TableHead>ファイル</TableHead>
+							<TableHead className="text-right">失敗回数</TableHead>
+							<TableHead>次回の再試行</TableHead>
+							<TableHead>エラー</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{retries.map((retry) => (
+							<TableRow
+								key={`${retry.direction}:${retry.targetUrl}:${retry.mediaId}`}
+							>
+								<TableCell>
+									<Badge variant="secondary">
+										{directionLabels[retry.direction]}
+									</Badge>
+								</TableCell>
+								<TableCell className="max-w-48 truncate text-xs">
+									{retry.filePath}
+								</TableCell>
+								<TableCell className="text-right">{retry.attempts}</TableCell>
+								<TableCell className="text-xs">
+									{formatDateTime(retry.nextAttemptAt)}
+								</TableCell>
+								<TableCell className="max-w-64 truncate text-xs text-danger">
+									{retry.lastError ?? "-"}
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
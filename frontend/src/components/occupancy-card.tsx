@@ -0,0 +1,127 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import type React from "react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import {
+	getGetSheltersIdOccupancyQueryKey,
+	getGetSheltersStatsQueryKey,
+	useGetSheltersIdOccupancy,
+	usePostSheltersIdOccupancy,
+} from "@/api/generated/team2API";
+import { NEAR_CAPACITY_PERCENT } from "@/components/shelter-map";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/lib/auth";
+
+interface OccupancyCardProps {
+	shelterId: number;
+	capacity: number | null;
+}
+
+export function OccupancyCard({ shelterId, capacity }: OccupancyCardProps) {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const [headcountInput, setHeadcountInput] = useState("");
+	const headcountInputId = useId();
+
+	const { data: occupancyData } = useGetSheltersIdOccupancy(shelterId);
+	const recordOccupancyMutation = usePostSheltersIdOccupancy();
+
+	const latest = occupancyData?.history[0];
+	const occupancyPercent =
+		latest && capacity
+			? Math.round((latest.headcount / capacity) * 1000) / 10
+			: null;
+	const isNearCapacity =
+		occupancyPercent !== null && occupancyPercent > NEAR_CAPACITY_PERCENT;
+
+	// 避難所スタッフは所属避難所のみ、本部管理者はすべての避難所の人数を記録できる
+	const canRecord =
+		staff?.role === "hq_admin" ||
+		(staff?.role === "shelter_staff" &&
+			(staff.shelterId === null || staff.shelterId === shelterId));
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		const value = headcountInput.trim();
+		if (!/^\d+$/.test(value)) {
+			toast.error("避難者数は0以上の整数で入力してください");
+			return;
+		}
+
+		try {
+			await recordOccupancyMutation.mutateAsync({
+				id: shelterId,
+				data: { headcount: Number.parseInt(value, 10) },
+			});
+			setHeadcountInput("");
+			toast.success("避難者数を記録しました");
+			await Promise.all([
+				queryClient.invalidateQueries({
+					queryKey: getGetSheltersIdOccupancyQueryKey(shelterId),
+				}),
+				queryClient.invalidateQueries({
+					queryKey: getGetSheltersStatsQueryKey(),
+				}),
+			]);
+		} catch (error) {
+			console.error("避難者数の記録に失敗しました:", error);
+			toast.error("避難者数の記録に失敗しました");
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+				<CardTitle className="text-sm font-medium">避難者数</CardTitle>
+				<Users className="h-4 w-4 text-muted-foreground" />
+			</CardHeader>
+			<CardContent className="space-y-2">
+				<div
+					className={`text-2xl font-bold ${isNearCapacity ? "text-destructive" : ""}`}
+				>
+					{latest ? `${latest.headcount}人` : "未記録"}
+					{capacity != null && (
+						<span className="text-sm font-normal text-muted-foreground">
+							{" "}
+							/ {capacity}人
+						</span>
+					)}
+				</div>
+				<p className="text-xs text-muted-foreground">
+					{occupancyPercent !== null && `収容率 ${occupancyPercent}% ・ `}
+					{latest
+						? `最終更新 ${new Date(latest.recordedAt).toLocaleString("ja-JP")}`
+						: "人数が記録されていません"}
+				</p>
+				{canRecord && (
+					<form onSubmit={handleSubmit} className="flex gap-2">
+						<Label htmlFor={headcountInputId} className="sr-only">
+							現在の避難者数
+						</Label>
+						<Input
+							id={headcountInputId}
+							type="number"
+							min={0}
+							placeholder="現在の人数"
+							value={headcountInput}
+							onChange={(e) => setHeadcountInput(e.target.value)}
+							className="h-8"
+						/>
+						<Button
+							type="submit"
+							size="sm"
+							disabled={recordOccupancyMutation.isPending}
+						>
+							記録
+						</Button>
+					</form>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,252 @@
+import { Search, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import type {
+	GetSheltersIdPostsParams,
+	GetSheltersIdPostsSort,
+} from "@/api/generated/model";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+
+const PRIORITIES = ["緊急", "重要", "通常"] as const;
+const COMMENT_STATUSES = ["未対応", "対応中", "対応済み"] as const;
+
+type Priority = (typeof PRIORITIES)[number];
+type CommentStatus = (typeof COMMENT_STATUSES)[number];
+
+export interface PostFeedFilterState {
+	priorities: Priority[];
+	commentStatuses: CommentStatus[];
+	kind: "all" | "reports" | "chat";
+	fromDate: string;
+	toDate: string;
+	author: string;
+	sort: GetSheltersIdPostsSort;
+}
+
+export const initialPostFeedFilters: PostFeedFilterState = {
+	priorities: [],
+	commentStatuses: [],
+	kind: "all",
+	fromDate: "",
+	toDate: "",
+	author: "",
+	sort: "newest",
+};
+
+const sortLabels: Record<GetSheltersIdPostsSort, string> = {
+	newest: "新しい順",
+	oldest: "古い順",
+	priority: "重要度順",
+	comments: "コメント数順",
+};
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+	values.includes(value)
+		? values.filter((item) => item !== value)
+		: [...values, value];
+
+/**
+ * 絞り込み条件を投稿一覧APIのクエリにする（日付は端末のタイムゾーンの1日として扱う）
+ */
+export const toPostFeedParams = (
+	filters: PostFeedFilterState,
+): GetSheltersIdPostsParams => ({
+	sort: filters.sort,
+	priority:
+		filters.priorities.length > 0 ? filters.priorities.join(",") : undefined,
+	commentStatus:
+		filters.commentStatuses.length > 0
+			? filters.commentStatuses.join(",")
+			: undefined,
+	isFreeChat: filters.kind === "all" ? undefined : filters.kind === "chat",
+	from: filters.fromDate
+		? new Date(`${filters.fromDate}T00:00:00`).toISOString()
+		: undefined,
+	to: filters.toDate
+		? new Date(`${filters.toDate}T23:59:59.999`).toISOString()
+		: undefined,
+	author: filters.author || undefined,
+});
+
+const hasActiveFilters = (filters: PostFeedFilterState) =>
+	filters.priorities.length > 0 ||
+	filters.commentStatuses.length > 0 ||
+	filters.kind !== "all" ||
+	filters.fromDate !== "" ||
+	filters.toDate !== "" ||
+	filters.author !== "";
+
+interface PostFeedFiltersProps {
+	value: PostFeedFilterState;
+	onChange: (value: PostFeedFilterState) => void;
+	totalCount?: number;
+}
+
+/**
+ * 報告一覧の絞り込み（重要度・対応状況・種類・期間・投稿者）と並び順
+ */
+export function PostFeedFilters({
+	value,
+	onChange,
+	totalCount,
+}: PostFeedFiltersProps) {
+	const [authorInput, setAuthorInput] = useState(value.author);
+
+	// 投稿者名は入力が止まってから検索する
+	useEffect(() => {
+		const trimmed = authorInput.trim();
+		if (trimmed === value.author) {
+			return;
+		}
+		const timer = setTimeout(
+			() => onChange({ ...value, author: trimmed }),
+			400,
+		);
+		return () => clearTimeout(timer);
+	}, [authorInput, value, onChange]);
+
+	const handleReset = () => {
+		setAuthorInput("");
+		onChange({ ...initialPostFeedFilters, sort: value.sort });
+	};
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-wrap items-center gap-2">
+				{PRIORITIES.map((priority) => (
+					<Button
+						key={priority}
+						variant={
+							value.priorities.includes(priority) ? "default" : "outline"
+						}
+						size="sm"
+						className="rounded-full"
+						onClick={() =>
+							onChange({
+								...value,
+								priorities: toggle(value.priorities, priority),
+							})
+						}
+					>
+						{priority}
+					</Button>
+				))}
+				<span className="mx-1 h-5 w-px bg-border" />
+				{COMMENT_STATUSES.map((status) => (
+					<Button
+						key={status}
+						variant={
+							value.commentStatuses.includes(status) ? "default" : "outline"
+						}
+						size="sm"
+						className="rounded-full"
+						onClick={() =>
+							onChange({
+								...value,
+								commentStatuses: toggle(value.commentStatuses, status),
+							})
+						}
+					>
+						{status}
+					</Button>
+				))}
+				<span className="mx-1 h-5 w-px bg-border" />
+				<Button
+					variant={value.kind === "reports" ? "default" : "outline"}
+					size="sm"
+					className="rounded-full"
+					onClick={() =>
+						onChange({
+							...value,
+							kind: value.kind === "reports" ? "all" : "reports",
+						})
+					}
+				>
+					報告のみ
+				</Button>
+				<Button
+					variant={value.kind === "chat" ? "default" : "outline"}
+					size="sm"
+					className="rounded-full"
+					onClick={() =>
+						onChange({
+							...value,
+							kind: value.kind === "chat" ? "all" : "chat",
+						})
+					}
+				>
+					フリーチャットのみ
+				</Button>
+			</div>
+
+			<div className="flex flex-wrap items-center gap-2">
+				<div className="relative w-full sm:w-48">
+					<Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						value={authorInput}
+						onChange={(e) => setAuthorInput(e.target.value)}
+						placeholder="投稿者名"
+						className="pl-8"
+					/>
+				</div>
+				<Input
+					type="date"
+					value={value.fromDate}
+					max={value.toDate || undefined}
+					onChange={(e) => onChange({ ...value, fromDate: e.target.value })}
+					className="w-auto"
+					aria-label="開始日"
+				/>
+				<span className="text-sm text-muted-foreground">〜</span>
+				<Input
+					type="date"
+					value={value.toDate}
+					min={value.fromDate || undefined}
+					onChange={(e) => onChange({ ...value, toDate: e.target.value })}
+					className="w-auto"
+					aria-label="終了日"
+				/>
+				<Select
+					value={value.sort}
+					onValueChange={(sort) =>
+						onChange({ ...value, sort: sort as GetSheltersIdPostsSort })
+					}
+				>
+					<SelectTrigger className="w-36">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{Object.entries(sortLabels).map(([sort, label]) => (
+							<SelectItem key={sort} value={sort}>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				{hasActiveFilters(value) && (
+					<Button
+						variant="ghost"
+						size="sm"
+						className="gap-1"
+						onClick={handleReset}
+					>
+						<X className="h-4 w-4" />
+						条件をクリア
+					</Button>
+				)}
+				{totalCount !== undefined && (
+					<span className="ml-auto text-sm text-muted-foreground">
+						{totalCount}件
+					</span>
+				)}
+			</div>
+		</div>
+	);
+}
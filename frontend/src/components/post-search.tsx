@@ -0,0 +1,259 @@
+import { MessageSquare, Search, X } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
+import type { SearchHit } from "@/api/generated/model";
+import { useGetSearch } from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// 検索する期間（null は全期間）
+const periodOptions = [
+	{ value: "all", label: "全期間", hours: null },
+	{ value: "24h", label: "24時間以内", hours: 24 },
+	{ value: "7d", label: "7日以内", hours: 24 * 7 },
+	{ value: "30d", label: "30日以内", hours: 24 * 30 },
+] as const;
+
+type Period = (typeof periodOptions)[number]["value"];
+
+// 一致箇所の前後に表示する文字数
+const EXCERPT_CONTEXT = 40;
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 最初に一致した箇所の前後を切り出す（長い本文でも一致箇所が見えるように）
+ */
+const toExcerpt = (text: string, terms: string[]) => {
+	const lower = text.toLowerCase();
+	const index = Math.min(
+		...terms
+			.map((term) => lower.indexOf(term.toLowerCase()))
+			.filter((position) => position >= 0),
+	);
+	if (!Number.isFinite(index) || index <= EXCERPT_CONTEXT) {
+		return text.length > EXCERPT_CONTEXT * 3
+			? `${text.slice(0, EXCERPT_CONTEXT * 3)}…`
+			: text;
+	}
+	const start = index - EXCERPT_CONTEXT;
+	const end = index + EXCERPT_CONTEXT * 2;
+	return `…${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+};
+
+interface HighlightedTextProps {
+	text: string;
+	terms: string[];
+}
+
+/**
+ * 検索語に一致した箇所を強調表示する
+ */
+function HighlightedText({ text, terms }: HighlightedTextProps) {
+	if (terms.length === 0) {
+		return <>{text}</>;
+	}
+	const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+	const lowerTerms = terms.map((term) => term.toLowerCase());
+	return (
+		<>
+			{text.split(pattern).map((part, index) =>
+				lowerTerms.includes(part.toLowerCase()) ? (
+					<mark
+						// biome-ignore lint/suspicious/noArrayIndexKey: 分割した文字列は順序が変わらない
+						key={index}
+						className="rounded-sm bg-yellow-200 px-0.5 text-foreground"
+					>
+						{part}
+					</mark>
+				) : (
+					// biome-ignore lint/suspicious/noArrayIndexKey: 分割した文字列は順序が変わらない
+					<Fragment key={index}>{part}</Fragment>
+				),
+			)}
+		</>
+	);
+}
+
+interface PostSearchProps {
+	shelterId?: number;
+	onSelect: (hit: SearchHit) => void;
+}
+
+/**
+ * 投稿・コメントの全文検索バー（shelterId を指定するとその避難所の中だけを検索する）
+ */
+export function PostSearch({ shelterId, onSelect }: PostSearchProps) {
+	const [input, setInput] = useState("");
+	const [query, setQuery] = useState("");
+	const [period, setPeriod] = useState<Period>("all");
+
+	// 入力が止まってから検索する
+	useEffect(() => {
+		const timer = setTimeout(() => setQuery(input.trim()), 300);
+		return () => clearTimeout(timer);
+	}, [input]);
+
+	const hours = periodOptions.find((option) => option.value === period)?.hours;
+	// 期間は時間単位に丸め、入力のたびにクエリキーが変わらないようにする
+	const from = hours
+		? new Date(
+				Math.floor(Date.now() / HOUR_MS) * HOUR_MS - hours * HOUR_MS,
+			).toISOString()
+		: undefined;
+
+	const { data, isFetching, isError } = useGetSearch(
+		{ q: query, shelterId, from },
+		{ query: { enabled: query.length > 0 } },
+	);
+
+	const handleClear = () => {
+		setInput("");
+		setQuery("");
+	};
+
+	const handleSelect = (hit: SearchHit) => {
+		onSelect(hit);
+		handleClear();
+	};
+
+	const terms = data?.terms ?? [];
+	const results = data?.results ?? [];
+
+	return (
+		<div className="relative space-y-2">
+			<div className="flex gap-2">
+				<div className="relative flex-1">
+					<Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Escape") handleClear();
+						}}
+						placeholder={
+							shelterId !== undefined
+								? "この避難所の投稿・コメントを検索（例: ミルク 土砂）"
+								: "すべての避難所の投稿・コメントを検索（例: ミルク 土砂）"
+						}
+						className="pl-8 pr-8"
+					/>
+					{input && (
+						<Button
+							variant="ghost"
+							size="sm"
+							className="absolute right-0 top-0 h-9 px-2"
+							onClick={handleClear}
+							aria-label="検索をクリア"
+						>
+							<X className="h-4 w-4" />
+						</Button>
+					)}
+				</div>
+				<Select
+					value={period}
+					onValueChange={(value) => setPeriod(value as Period)}
+				>
+					<SelectTrigger className="w-32">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{periodOptions.map((option) => (
+							<SelectItem key={option.value} value={option.value}>
+								{option.label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+
+			{query && (
+				<Card className="absolute z-1000 w-full shadow-lg">
+					<CardContent className="max-h-96 overflow-y-auto p-2">
+						{isError ? (
+							<p className="p-4 text-center text-sm text-danger">
+								検索に失敗しました
+							</p>
+						) : isFetching && !data ? (
+							<p className="p-4 text-center text-sm text-muted-foreground">
+								検索中...
+							</p>
+						) : results.length === 0 ? (
+							<p className="p-4 text-center text-sm text-muted-foreground">
+								「{query}」に一致する投稿・コメントはありません
+							</p>
+						) : (
+							<ul className="divide-y">
+								{results.map((hit) => (
+									<li key={`${hit.recordType}-${hit.recordId}`}>
+										<button
+											type="button"
+											className="w-full space-y-1 rounded-md p-3 text-left hover:bg-muted/50"
+											onClick={() => handleSelect(hit)}
+										>
+											<div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+												<Badge
+													variant={
+														hit.recordType === "post" ? "default" : "secondary"
+													}
+												>
+													{hit.recordType === "post" ? "投稿" : "コメント"}
+												</Badge>
+												{hit.post.status && (
+													<Badge variant="outline">{hit.post.status}</Badge>
+												)}
+												{shelterId === undefined && (
+													<span className="font-medium text-foreground">
+														{hit.post.shelterName}
+													</span>
+												)}
+												<span>
+													<HighlightedText
+														text={hit.authorName}
+														terms={terms}
+													/>
+												</span>
+												<span>
+													{new Date(hit.createdAt).toLocaleString("ja-JP")}
+												</span>
+											</div>
+											<p className="text-sm">
+												<HighlightedText
+													text={toExcerpt(hit.content ?? "", terms)}
+													terms={terms}
+												/>
+											</p>
+											{hit.recordType === "comment" && (
+												<p className="flex items-center gap-1 truncate text-xs text-muted-foreground">
+													<MessageSquare className="h-3 w-3 shrink-0" />
+													{hit.post.content ?? "投稿内容なし"}
+												</p>
+											)}
+										</button>
+									</li>
+								))}
+							</ul>
+						)}
+						{data?.hasMore && (
+							<p className="p-2 text-center text-xs text-muted-foreground">
+								上位{results.length}
+								件を表示しています。語を追加して絞り込んでください
+							</p>
+						)}
+					</CardContent>
+				</Card>
+			)}
+		</div>
+	);
+}
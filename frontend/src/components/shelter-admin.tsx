@@ -0,0 +1,383 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Building2, MapPin, Plus, Save } from "lucide-react";
+import type React from "react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import type { ShelterUpdateRequest } from "@/api/generated/model";
+import {
+	getGetSheltersQueryKey,
+	getSheltersId,
+	useGetShelters,
+	usePatchSheltersId,
+	usePostShelters,
+	usePostSheltersIdClose,
+	usePostSheltersIdReopen,
+} from "@/api/generated/team2API";
+import { AuthStatus } from "@/components/auth-status";
+import { ShelterMap } from "@/components/shelter-map";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { requestLogin, useAuth } from "@/lib/auth";
+
+interface ShelterAdminProps {
+	onBack: () => void;
+}
+
+interface ShelterFormState {
+	name: string;
+	address: string;
+	capacity: string;
+	openingHours: string;
+	latitude: number | null;
+	longitude: number | null;
+}
+
+const emptyForm: ShelterFormState = {
+	name: "",
+	address: "",
+	capacity: "",
+	openingHours: "",
+	latitude: null,
+	longitude: null,
+};
+
+export function ShelterAdmin({ onBack }: ShelterAdminProps) {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const [editingId, setEditingId] = useState<number | null>(null);
+	const [formData, setFormData] = useState<ShelterFormState>(emptyForm);
+
+	const { data: sheltersData, isLoading } = useGetShelters();
+	const createShelterMutation = usePostShelters();
+	const updateShelterMutation = usePatchSheltersId();
+	const closeShelterMutation = usePostSheltersIdClose();
+	const reopenShelterMutation = usePostSheltersIdReopen();
+
+	const nameId = useId();
+	const addressId = useId();
+	const capacityId = useId();
+	const openingHoursId = useId();
+
+	const shelterList = sheltersData?.shelterList ?? [];
+	const isSaving =
+		createShelterMutation.isPending || updateShelterMutation.isPending;
+
+	const refreshShelters = () =>
+		queryClient.invalidateQueries({ queryKey: getGetSheltersQueryKey() });
+
+	const handleEdit = async (shelterId: number) => {
+		try {
+			const details = await getSheltersId(shelterId);
+			setEditingId(shelterId);
+			setFormData({
+				name: details.name,
+				address: details.address ?? "",
+				capacity: details.capacity != null ? String(details.capacity) : "",
+				openingHours: details.opening_hours ?? "",
+				latitude: details.latitude,
+				longitude: details.longitude,
+			});
+		} catch (error) {
+			console.error("避難所情報の取得に失敗しました:", error);
+			toast.error("避難所情報の取得に失敗しました");
+		}
+	};
+
+	const handleNew = () => {
+		setEditingId(null);
+		setFormData(emptyForm);
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+
+		if (formData.latitude === null || formData.longitude === null) {
+			toast.error("地図をクリックして避難所の位置を指定してください");
+			return;
+		}
+
+		const capacity = formData.capacity.trim();
+		if (capacity !== "" && !/^\d+$/.test(capacity)) {
+			toast.error("収容人数は0以上の整数で入力してください");
+			return;
+		}
+
+		const data = {
+			name: formData.name.trim(),
+			address: formData.address.trim() || null,
+			capacity: capacity === "" ? null : Number.parseInt(capacity, 10),
+			openingHours: formData.openingHours.trim() || null,
+			latitude: formData.latitude,
+			longitude: formData.longitude,
+		} satisfies ShelterUpdateRequest;
+
+		try {
+			if (editingId === null) {
+				const created = await createShelterMutation.mutateAsync({
+					data,
+				});
+				setEditingId(created.id);
+				toast.success(`「${created.name}」を作成しました`);
+			} else {
+				const updated = await updateShelterMutation.mutateAsync({
+					id: editingId,
+					data,
+				});
+				toast.success(`「${updated.name}」を更新しました`);
+			}
+			await refreshShelters();
+		} catch (error) {
+			console.error("避難所の保存に失敗しました:", error);
+			toast.error("避難所の保存に失敗しました");
+		}
+	};
+
+	const handleToggleStatus = async (
+		shelterId: number,
+		status: "open" | "closed",
+	) => {
+		try {
+			const result =
+				status === "open"
+					? await closeShelterMutation.mutateAsync({ id: shelterId })
+					: await reopenShelterMutation.mutateAsync({ id: shelterId });
+			toast.success(
+				result.status === "closed"
+					? `「${result.name}」を閉鎖しました`
+					: `「${result.name}」を再開しました`,
+			);
+			await refreshShelters();
+		} catch (error) {
+			console.error("避難所の状態変更に失敗しました:", error);
+			toast.error("避難所の状態変更に失敗しました");
+		}
+	};
+
+	const header = (
+		<div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+			<div className="flex items-center gap-4">
+				<Button variant="ghost" onClick={onBack}>
+					<ArrowLeft className="h-4 w-4 mr-2" />
+					避難所一覧に戻る
+				</Button>
+				<h1 className="text-2xl sm:text-3xl font-bold text-foreground flex items-center gap-2">
+					<Building2 className="h-7 w-7 text-primary" />
+					避難所管理
+				</h1>
+			</div>
+			<AuthStatus />
+		</div>
+	);
+
+	if (staff?.role !== "hq_admin") {
+		return (
+			<div className="min-h-screen bg-background p-6">
+				<div className="max-w-7xl mx-auto space-y-6">
+					{header}
+					<Card>
+						<CardContent className="p-6 space-y-4 text-center">
+							<p className="text-muted-foreground">
+								避難所の管理には本部管理者としてのログインが必要です
+							</p>
+							<Button onClick={requestLogin}>ログイン</Button>
+						</CardContent>
+					</Card>
+				</div>
+			</div>
+		);
+	}
+
+	const pickedLocation =
+		formData.latitude !== null && formData.longitude !== null
+			? { latitude: formData.latitude, longitude: formData.longitude }
+			: null;
+
+	return (
+		<div className="min-h-screen bg-background p-6">
+			<div className="max-w-7xl mx-auto space-y-6">
+				{header}
+
+				<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+					{/* 登録フォーム */}
+					<Card>
+						<CardHeader className="flex flex-row items-center justify-between space-y-0">
+							<CardTitle>
+								{editingId === null ? "避難所を新規登録" : "避難所を編集"}
+							</CardTitle>
+							{editingId !== null && (
+								<Button variant="outline" size="sm" onClick={handleNew}>
+									<Plus className="h-4 w-4 mr-2" />
+									新規登録
+								</Button>
+							)}
+						</CardHeader>
+						<CardContent>
+							<form onSubmit={handleSubmit} className="space-y-4">
+								<div className="space-y-2">
+									<Label htmlFor={nameId}>避難所名</Label>
+									<Input
+										id={nameId}
+										value={formData.name}
+										onChange={(e) =>
+											setFormData((prev) => ({ ...prev, name: e.target.value }))
+										}
+										required
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={addressId}>住所</Label>
+									<Input
+										id={addressId}
+										value={formData.address}
+										onChange={(e) =>
+											setFormData((prev) => ({
+												...prev,
+												address: e.target.value,
+											}))
+										}
+									/>
+								</div>
+								<div className="grid grid-cols-2 gap-4">
+									<div className="space-y-2">
+										<Label htmlFor={capacityId}>収容人数</Label>
+										<Input
+											id={capacityId}
+											type="number"
+											min={0}
+											value={formData.capacity}
+											onChange={(e) =>
+												setFormData((prev) => ({
+													...prev,
+													capacity: e.target.value,
+												}))
+											}
+										/>
+									</div>
+									<div className="space-y-2">
+										<Label htmlFor={openingHoursId}>開設時間</Label>
+										<Input
+											id={openingHoursId}
+											placeholder="例: 24時間"
+											value={formData.openingHours}
+											onChange={(e) =>
+												setFormData((prev) => ({
+													...prev,
+													openingHours: e.target.value,
+												}))
+											}
+										/>
+									</div>
+								</div>
+								<p className="text-sm text-muted-foreground flex items-center gap-2">
+									<MapPin className="h-4 w-4" />
+									{pickedLocation
+										? `座標: ${pickedLocation.latitude.toFixed(5)}, ${pickedLocation.longitude.toFixed(5)}`
+										: "地図をクリックして位置を指定してください"}
+								</p>
+								<Button type="submit" className="w-full" disabled={isSaving}>
+									<Save className="h-4 w-4 mr-2" />
+									{isSaving ? "保存中..." : "保存"}
+								</Button>
+							</form>
+						</CardContent>
+					</Card>
+
+					{/* 位置指定用の地図 */}
+					<Card>
+						<CardHeader>
+							<CardTitle className="flex items-center space-x-2">
+								<MapPin className="h-5 w-5" />
+								<span>位置を指定</span>
+							</CardTitle>
+						</CardHeader>
+						<CardContent>
+							<ShelterMap
+								shelters={shelterList
+									.filter((s) => s.latitude != null && s.longitude != null)
+									.map((s) => ({
+										id: String(s.id),
+										name: s.name,
+										address: s.address ?? "住所未登録",
+										latitude: s.latitude ?? 0,
+										longitude: s.longitude ?? 0,
+										status: s.status === "open" ? "online" : "offline",
+										population: 0,
+										urgentReports: 0,
+									}))}
+								onShelterSelect={(id) => void handleEdit(Number(id))}
+								pickedLocation={pickedLocation}
+								onLocationPick={(location) =>
+									setFormData((prev) => ({ ...prev, ...location }))
+								}
+							/>
+						</CardContent>
+					</Card>
+				</div>
+
+				{/* 避難所一覧 */}
+				<Card>
+					<CardHeader>
+						<CardTitle>登録済みの避難所</CardTitle>
+					</CardHeader>
+					<CardContent>
+						{isLoading ? (
+							<p className="text-muted-foreground">読み込み中...</p>
+						) : (
+							<div className="divide-y">
+								{shelterList.map((shelter) => (
+									<div
+										key={shelter.id}
+										className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-3"
+									>
+										<div className="space-y-1">
+											<div className="flex items-center gap-2">
+												<span className="font-medium">{shelter.name}</span>
+												<Badge
+													variant={
+														shelter.status === "open"
+															? "secondary"
+															: "destructive"
+													}
+												>
+													{shelter.status === "open" ? "開設中" : "閉鎖"}
+												</Badge>
+											</div>
+											<p className="text-sm text-muted-foreground">
+												{shelter.address ?? "住所未登録"}
+												{shelter.capacity != null &&
+													` ・ 収容人数 ${shelter.capacity}人`}
+											</p>
+										</div>
+										<div className="flex gap-2">
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => void handleEdit(shelter.id)}
+											>
+												編集
+											</Button>
+											<Button
+												variant={
+													shelter.status === "open" ? "destructive" : "default"
+												}
+												size="sm"
+												onClick={() =>
+													void handleToggleStatus(shelter.id, shelter.status)
+												}
+											>
+												{shelter.status === "open" ? "閉鎖" : "再開"}
+											</Button>
+										</div>
+									</div>
+								))}
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
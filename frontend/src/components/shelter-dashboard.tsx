@@ -1,25 +1,41 @@
 "use client";
 
+import { useInfiniteQuery } from "@tanstack/react-query";
 import {
 	AlertTriangle,
 	Clock,
 	FileText,
 	MapPin,
 	MessageSquare,
+	Package,
 	User,
 	Video,
 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { SearchHit } from "@/api/generated/model";
 import {
+	getGetSheltersIdPostsQueryKey,
+	getSheltersIdPosts,
 	useGetPostsId,
 	useGetShelters,
 	useGetSheltersId,
-	useGetSheltersIdPosts,
+	useGetSheltersIdInventory,
 } from "@/api/generated/team2API";
+import { AuthStatus } from "@/components/auth-status";
 import { ConversationThread } from "@/components/conversation-thread";
+import { InventoryPanel } from "@/components/inventory-panel";
+import { OccupancyCard } from "@/components/occupancy-card";
+import {
+	initialPostFeedFilters,
+	type PostFeedFilterState,
+	PostFeedFilters,
+	toPostFeedParams,
+} from "@/components/post-feed-filters";
+import { PostSearch } from "@/components/post-search";
 import { ReportForm } from "@/components/report-form";
 import { ReportMap } from "@/components/report-map";
 import { SyncLogViewer } from "@/components/sync-log-viewer";
+import { SyncMetricsHistory } from "@/components/sync-metrics-history";
 import { SyncStatus } from "@/components/sync-status";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -66,6 +82,18 @@ const getStatusColor = (status: string | null | undefined) => {
 	}
 };
 
+const formatPostedAt = (value: string) =>
+	new Date(value)
+		.toLocaleString("ja-JP", {
+			year: "numeric",
+			month: "2-digit",
+			day: "2-digit",
+			hour: "2-digit",
+			minute: "2-digit",
+		})
+		.replace(/\//g, "/")
+		.replace(",", "");
+
 export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 	const [isOnline, setIsOnline] = useState(navigator.onLine);
 	const [selectedReport, setSelectedReport] = useState<string | null>(null);
@@ -78,7 +106,48 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 	const currentShelterId = Number.parseInt(shelterId || "1", 10);
 	const { data: sheltersData } = useGetShelters();
 	const { data: shelterDetails } = useGetSheltersId(currentShelterId);
-	const { data: shelterPosts } = useGetSheltersIdPosts(currentShelterId);
+	const [feedFilters, setFeedFilters] = useState<PostFeedFilterState>(
+		initialPostFeedFilters,
+	);
+	const feedParams = toPostFeedParams(feedFilters);
+	const {
+		data: shelterPosts,
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useInfiniteQuery({
+		queryKey: [
+			...getGetSheltersIdPostsQueryKey(currentShelterId, feedParams),
+			"infinite",
+		],
+		queryFn: ({ pageParam, signal }) =>
+			getSheltersIdPosts(
+				currentShelterId,
+				{ ...feedParams, cursor: pageParam },
+				undefined,
+				signal,
+			),
+		initialPageParam: undefined as string | undefined,
+		getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+	});
+	const totalPostCount = shelterPosts?.pages[0]?.totalCount;
+	const { data: inventoryData } = useGetSheltersIdInventory(currentShelterId);
+
+	// 一覧の末尾が表示されたら次のページを読み込む
+	const loadMoreRef = useRef<HTMLDivElement>(null);
+	useEffect(() => {
+		const target = loadMoreRef.current;
+		if (!target || !hasNextPage) {
+			return;
+		}
+		const observer = new IntersectionObserver((entries) => {
+			if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+				void fetchNextPage();
+			}
+		});
+		observer.observe(target);
+		return () => observer.disconnect();
+	}, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
 	// 現在の避難所IDをローカルストレージに保存（自動同期で使用）
 	useEffect(() => {
@@ -124,24 +193,17 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 		if (shelterPosts) {
 			console.log("避難所投稿データ:", shelterPosts);
 			// APIから取得した投稿データを現在の報告リストに変換
-			const convertedReports: Report[] = shelterPosts.posts.map((post) => ({
-				id: post.id,
-				datetime: new Date(post.posted_at)
-					.toLocaleString("ja-JP", {
-						year: "numeric",
-						month: "2-digit",
-						day: "2-digit",
-						hour: "2-digit",
-						minute: "2-digit",
-					})
-					.replace(/\//g, "/")
-					.replace(",", ""),
-				address: post.address || `避難所 ${currentShelterId}`,
-				details: post.content || "投稿内容なし",
-				status: post.status || null,
-				reporter: post.author_name,
-				responder: post.status || "-",
-			}));
+			const convertedReports: Report[] = shelterPosts.pages
+				.flatMap((page) => page.posts)
+				.map((post) => ({
+					id: post.id,
+					datetime: formatPostedAt(post.posted_at),
+					address: post.address || `避難所 ${currentShelterId}`,
+					details: post.content || "投稿内容なし",
+					status: post.status || null,
+					reporter: post.author_name,
+					responder: post.status || "-",
+				}));
 			setReports(convertedReports);
 		}
 	}, [sheltersData, shelterDetails, shelterPosts, currentShelterId]);
@@ -169,6 +231,26 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 		setReports((prev) => [newReport, ...prev]);
 	};
 
+	// 検索結果の投稿を開く（読み込み済みの一覧に無い投稿は一覧に加える）
+	const handleSearchSelect = (hit: SearchHit) => {
+		const { post } = hit;
+		if (!reports.some((report) => report.id === post.id)) {
+			setReports((prev) => [
+				...prev,
+				{
+					id: post.id,
+					datetime: formatPostedAt(post.postedAt),
+					address: post.address || `避難所 ${currentShelterId}`,
+					details: post.content || "投稿内容なし",
+					status: post.status,
+					reporter: post.authorName,
+					responder: post.status || "-",
+				},
+			]);
+		}
+		setSelectedReport(post.id);
+	};
+
 	const handleUpdateReportStatus = (
 		reportId: string,
 		status: Report["status"],
@@ -207,11 +289,19 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 						)}
 					</div>
 				</div>
-				<SyncStatus />
+				<div className="flex flex-wrap items-center gap-4">
+					<AuthStatus />
+					<SyncStatus />
+				</div>
 			</div>
 
 			{/* Status Cards */}
-			<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+			<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+				<OccupancyCard
+					shelterId={currentShelterId}
+					capacity={shelterDetails?.capacity ?? null}
+				/>
+
 				<Card>
 					<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
 						<CardTitle className="text-sm font-medium">重要報告</CardTitle>
@@ -230,19 +320,21 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 				<Card>
 					<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
 						<CardTitle className="text-sm font-medium">
-							{shelterPosts ? "投稿数" : "緊急報告"}
+							{totalPostCount !== undefined ? "投稿数" : "緊急報告"}
 						</CardTitle>
 						<AlertTriangle className="h-4 w-4 text-destructive" />
 					</CardHeader>
 					<CardContent>
 						<div className="text-2xl font-bold text-destructive">
-							{shelterPosts
-								? shelterPosts.posts.length
+							{totalPostCount !== undefined
+								? totalPostCount
 								: reports.filter((r) => r.status === "緊急").length}
 							件
 						</div>
 						<p className="text-xs text-muted-foreground">
-							{shelterPosts ? "API取得済み投稿" : "緊急対応が必要"}
+							{totalPostCount !== undefined
+								? "絞り込み条件に一致する投稿"
+								: "緊急対応が必要"}
 						</p>
 					</CardContent>
 				</Card>
@@ -265,7 +357,7 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 
 			{/* Main Content */}
 			<Tabs defaultValue="reports" className="space-y-4">
-				<TabsList className="grid w-full grid-cols-3">
+				<TabsList className="grid w-full grid-cols-4">
 					<TabsTrigger value="reports" className="flex items-center gap-2">
 						<FileText className="h-4 w-4" />
 						報告管理
@@ -274,6 +366,15 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 						<MessageSquare className="h-4 w-4" />
 						フリーチャット
 					</TabsTrigger>
+					<TabsTrigger value="inventory" className="flex items-center gap-2">
+						<Package className="h-4 w-4" />
+						物資在庫
+						{inventoryData && inventoryData.shortageCount > 0 && (
+							<Badge variant="destructive" className="ml-1">
+								不足 {inventoryData.shortageCount}
+							</Badge>
+						)}
+					</TabsTrigger>
 					<TabsTrigger value="sync-logs" className="flex items-center gap-2">
 						<Clock className="h-4 w-4" />
 						同期ログ
@@ -291,6 +392,11 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 						</Button>
 					</div>
 
+					<PostSearch
+						shelterId={currentShelterId}
+						onSelect={handleSearchSelect}
+					/>
+
 					{selectedReport && selectedReportData ? (
 						<ConversationThread
 							report={selectedReportData}
@@ -302,6 +408,12 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 						/>
 					) : (
 						<>
+							<PostFeedFilters
+								value={feedFilters}
+								onChange={setFeedFilters}
+								totalCount={totalPostCount}
+							/>
+
 							{/* Desktop Table View */}
 							<Card className="hidden md:block">
 								<CardContent className="p-0">
@@ -472,6 +584,18 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 									))
 								)}
 							</div>
+
+							{/* 無限スクロールの読み込み位置 */}
+							<div
+								ref={loadMoreRef}
+								className="py-2 text-center text-sm text-muted-foreground"
+							>
+								{isFetchingNextPage
+									? "読み込み中..."
+									: hasNextPage
+										? ""
+										: reports.length > 0 && "すべての報告を表示しました"}
+							</div>
 						</>
 					)}
 					{/* Report Map - ここに追加 */}
@@ -582,7 +706,12 @@ export function ShelterDashboard({ shelterId }: ShelterDashboardProps) {
 					)}
 				</TabsContent>
 
+				<TabsContent value="inventory" className="space-y-4">
+					<InventoryPanel shelterId={currentShelterId} />
+				</TabsContent>
+
 				<TabsContent value="sync-logs" className="space-y-4">
+					<SyncMetricsHistory shelterId={currentShelterId} />
 					<SyncLogViewer shelterId={currentShelterId} />
 				</TabsContent>
 			</Tabs>
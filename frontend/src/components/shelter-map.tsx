@@ -1,7 +1,13 @@
 "use client";
 import { Icon } from "leaflet";
 import { useEffect } from "react";
-import { MapContainer, Marker, Popup, TileLayer } from "react-leaflet";
+import {
+	MapContainer,
+	Marker,
+	Popup,
+	TileLayer,
+	useMapEvents,
+} from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 
 // Leafletのデフォルトアイコンの問題を修正
@@ -15,18 +21,54 @@ interface Shelter {
 	name: string;
 	status: "online" | "offline";
 	population: number;
+	capacity?: number | null;
+	occupancyPercent?: number | null;
 	urgentReports: number;
 	address: string;
 	latitude: number;
 	longitude: number;
 }
 
+// この収容率（%）を超えた避難所はマーカーを赤で表示する
+export const NEAR_CAPACITY_PERCENT = 90;
+
+const isNearCapacity = (shelter: Shelter) =>
+	shelter.occupancyPercent != null &&
+	shelter.occupancyPercent > NEAR_CAPACITY_PERCENT;
+
+interface PickedLocation {
+	latitude: number;
+	longitude: number;
+}
+
 interface ShelterMapProps {
 	shelters: Shelter[];
 	onShelterSelect: (shelterId: string) => void;
+	// 指定すると地図クリックで位置を選択できる（避難所管理画面用）
+	pickedLocation?: PickedLocation | null;
+	onLocationPick?: (location: PickedLocation) => void;
+}
+
+// 地図クリックで位置を選択するコンポーネント
+function LocationPicker({
+	onLocationPick,
+}: {
+	onLocationPick: (location: PickedLocation) => void;
+}) {
+	useMapEvents({
+		click: (e) => {
+			onLocationPick({ latitude: e.latlng.lat, longitude: e.latlng.lng });
+		},
+	});
+	return null;
 }
 
-export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
+export function ShelterMap({
+	shelters,
+	onShelterSelect,
+	pickedLocation,
+	onLocationPick,
+}: ShelterMapProps) {
 	useEffect(() => {
 		// Leafletのデフォルトアイコンを設定
 		delete (Icon.Default.prototype as any)._getIconUrl;
@@ -58,8 +100,14 @@ export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
 	// オンライン避難所用のカスタムアイコン（緑色）
 	const onlineIcon = createCustomIcon("#22c55e"); // 凡例の緑色と一致
 
-	// オフライン避難所用のカスタムアイコン（赤色）
-	const offlineIcon = createCustomIcon("#ef4444"); // 凡例の赤色と一致
+	// オフライン避難所用のカスタムアイコン（灰色）
+	const offlineIcon = createCustomIcon("#6b7280"); // 凡例の灰色と一致
+
+	// 収容率が上限に近い避難所用のカスタムアイコン（赤色）
+	const nearCapacityIcon = createCustomIcon("#ef4444"); // 凡例の赤色と一致
+
+	// 選択中の位置用のカスタムアイコン（青色）
+	const pickedIcon = createCustomIcon("#3b82f6");
 
 	// // オンライン避難所用のカスタムアイコン
 	// const onlineIcon = new Icon({
@@ -81,13 +129,17 @@ export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
 	// 	className: "offline-marker",
 	// });
 
-	// 地図の中心点を計算（全避難所の平均位置）
+	// 地図の中心点を計算（全避難所の平均位置、避難所がない場合は名古屋市）
 	const centerLat =
-		shelters.reduce((sum, shelter) => sum + shelter.latitude, 0) /
-		shelters.length;
+		shelters.length > 0
+			? shelters.reduce((sum, shelter) => sum + shelter.latitude, 0) /
+				shelters.length
+			: (pickedLocation?.latitude ?? 35.17);
 	const centerLng =
-		shelters.reduce((sum, shelter) => sum + shelter.longitude, 0) /
-		shelters.length;
+		shelters.length > 0
+			? shelters.reduce((sum, shelter) => sum + shelter.longitude, 0) /
+				shelters.length
+			: (pickedLocation?.longitude ?? 136.9);
 
 	return (
 		<>
@@ -105,7 +157,13 @@ export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
 						<Marker
 							key={shelter.id}
 							position={[shelter.latitude, shelter.longitude]}
-							icon={shelter.status === "online" ? onlineIcon : offlineIcon}
+							icon={
+								isNearCapacity(shelter)
+									? nearCapacityIcon
+									: shelter.status === "online"
+										? onlineIcon
+										: offlineIcon
+							}
 							eventHandlers={{
 								click: () => onShelterSelect(shelter.id),
 							}}
@@ -132,7 +190,16 @@ export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
 										<p className="text-sm">
 											<span className="font-medium">避難者数:</span>{" "}
 											{shelter.population}人
+											{shelter.capacity != null && ` / ${shelter.capacity}人`}
 										</p>
+										{shelter.occupancyPercent != null && (
+											<p
+												className={`text-sm ${isNearCapacity(shelter) ? "text-red-600" : ""}`}
+											>
+												<span className="font-medium">収容率:</span>{" "}
+												{shelter.occupancyPercent}%
+											</p>
+										)}
 										{shelter.urgentReports > 0 && (
 											<p className="text-sm text-red-600">
 												<span className="font-medium">緊急報告:</span>{" "}
@@ -150,6 +217,13 @@ export function ShelterMap({ shelters, onShelterSelect }: ShelterMapProps) {
 							</Popup>
 						</Marker>
 					))}
+					{onLocationPick && <LocationPicker onLocationPick={onLocationPick} />}
+					{pickedLocation && (
+						<Marker
+							position={[pickedLocation.latitude, pickedLocation.longitude]}
+							icon={pickedIcon}
+						/>
+					)}
 				</MapContainer>
 			</div>
 
@@ -1,5 +1,6 @@
 import {
 	AlertTriangle,
+	Building2,
 	CheckCircle,
 	Clock,
 	MapPin,
@@ -8,13 +9,16 @@ import {
 	WifiOff,
 } from "lucide-react";
 import { useState } from "react";
-import { useGetShelters } from "@/api/generated/team2API";
-import { ShelterMap } from "@/components/shelter-map";
+import { useGetShelters, useGetSheltersStats } from "@/api/generated/team2API";
+import { AuthStatus } from "@/components/auth-status";
+import { PostSearch } from "@/components/post-search";
+import { NEAR_CAPACITY_PERCENT, ShelterMap } from "@/components/shelter-map";
 import { SyncLogViewer } from "@/components/sync-log-viewer";
 import { SyncStatus } from "@/components/sync-status";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/lib/auth";
 
 interface Shelter {
 	id: string;
@@ -22,6 +26,8 @@ interface Shelter {
 	distance: string;
 	status: "online" | "offline";
 	population: number;
+	capacity: number | null;
+	occupancyPercent: number | null;
 	activeReports: number;
 	urgentReports: number;
 	lastUpdate: string;
@@ -30,31 +36,57 @@ interface Shelter {
 	longitude: number;
 }
 
+// 「避難者数 / 収容人数（収容率）」の表示用文字列
+const formatOccupancy = (shelter: Shelter) => {
+	const capacity = shelter.capacity != null ? ` / ${shelter.capacity}人` : "";
+	const percent =
+		shelter.occupancyPercent != null ? `（${shelter.occupancyPercent}%）` : "";
+	return `${shelter.population}人${capacity}${percent}`;
+};
+
 interface ShelterOverviewProps {
 	onShelterSelect: (shelterId: string) => void;
+	onOpenAdmin: () => void;
 }
 
-export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
+export function ShelterOverview({
+	onShelterSelect,
+	onOpenAdmin,
+}: ShelterOverviewProps) {
 	const [expandedId, setExpandedId] = useState<string | null>(null);
+	const staff = useAuth();
 
 	// APIから避難所一覧を取得
 	const { data: sheltersData, isLoading, error } = useGetShelters();
 
+	// 避難者数・収容率・報告件数の集計
+	const { data: statsData } = useGetSheltersStats();
+	const statsByShelterId = new Map(
+		(statsData?.stats ?? []).map((stat) => [stat.shelterId, stat]),
+	);
+
 	// APIデータをローカル型にマッピング
-	const shelters: Shelter[] = (sheltersData?.shelterList ?? []).map((s) => ({
-		id: String(s.id),
-		name: s.name,
-		address: s.address ?? "住所未登録",
-		latitude: s.latitude ?? 35.17, // デフォルト座標（名古屋市）
-		longitude: s.longitude ?? 136.9,
-		// 以下はモックデータ（APIから取得できない情報）
-		distance: "-",
-		status: "online" as const,
-		population: Math.floor(Math.random() * 50) + 10, // モック
-		activeReports: Math.floor(Math.random() * 10), // モック
-		urgentReports: Math.floor(Math.random() * 3), // モック
-		lastUpdate: new Date().toLocaleString("ja-JP"),
-	}));
+	const shelters: Shelter[] = (sheltersData?.shelterList ?? []).map((s) => {
+		const stat = statsByShelterId.get(s.id);
+		return {
+			id: String(s.id),
+			name: s.name,
+			address: s.address ?? "住所未登録",
+			latitude: s.latitude ?? 35.17, // デフォルト座標（名古屋市）
+			longitude: s.longitude ?? 136.9,
+			// 以下はモックデータ（APIから取得できない情報）
+			distance: "-",
+			status: "online" as const,
+			population: stat?.headcount ?? 0,
+			capacity: stat?.capacity ?? s.capacity ?? null,
+			occupancyPercent: stat?.occupancyPercent ?? null,
+			activeReports: stat?.activeReports ?? 0,
+			urgentReports: stat?.urgentReports ?? 0,
+			lastUpdate: stat?.lastUpdatedAt
+				? new Date(stat.lastUpdatedAt).toLocaleString("ja-JP")
+				: "未記録",
+		};
+	});
 
 	const totalShelters = shelters.length;
 	const onlineShelters = shelters.filter((s) => s.status === "online").length;
@@ -107,9 +139,23 @@ export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
 							/ 災害情報掲示板
 						</span>
 					</h1>
-					<SyncStatus />
+					<div className="flex flex-wrap items-center gap-4">
+						{staff?.role === "hq_admin" && (
+							<Button variant="outline" size="sm" onClick={onOpenAdmin}>
+								<Building2 className="h-4 w-4 mr-2" />
+								避難所管理
+							</Button>
+						)}
+						<AuthStatus />
+						<SyncStatus />
+					</div>
 				</div>
 
+				{/* 全避難所の投稿・コメント検索 */}
+				<PostSearch
+					onSelect={(hit) => onShelterSelect(String(hit.post.shelterId))}
+				/>
+
 				{/* Summary Cards */}
 				<div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
 					<Card>
@@ -183,9 +229,13 @@ export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
 								<span>オンライン</span>
 							</div>
 							<div className="flex items-center space-x-2">
-								<div className="w-3 h-3 bg-red-500 rounded-full"></div>
+								<div className="w-3 h-3 bg-gray-500 rounded-full"></div>
 								<span>オフライン</span>
 							</div>
+							<div className="flex items-center space-x-2">
+								<div className="w-3 h-3 bg-red-500 rounded-full"></div>
+								<span>収容率{NEAR_CAPACITY_PERCENT}%超</span>
+							</div>
 						</div>
 					</CardContent>
 				</Card>
@@ -211,7 +261,7 @@ export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
 										<th className="text-left p-3 font-medium">
 											オンライン/オフライン
 										</th>
-										<th className="text-left p-3 font-medium">推定人数</th>
+										<th className="text-left p-3 font-medium">避難者数</th>
 										<th className="text-left p-3 font-medium">報告状況</th>
 										<th className="text-left p-3 font-medium">最終更新</th>
 										<th className="text-left p-3 font-medium">操作</th>
@@ -255,7 +305,7 @@ export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
 													)}
 												</Badge>
 											</td>
-											<td className="p-3">{shelter.population}人</td>
+											<td className="p-3">{formatOccupancy(shelter)}</td>
 											<td className="p-3">
 												<div className="flex space-x-2">
 													<Badge variant="outline" className="text-xs">
@@ -390,10 +440,10 @@ export function ShelterOverview({ onShelterSelect }: ShelterOverviewProps) {
 												<div className="flex items-center gap-2">
 													<Users className="h-4 w-4 text-muted-foreground" />
 													<span className="text-muted-foreground">
-														推定人数:
+														避難者数:
 													</span>
 													<span className="font-medium">
-														{shelter.population}人
+														{formatOccupancy(shelter)}
 													</span>
 												</div>
 												<div className="flex items-center gap-2">
@@ -0,0 +1,122 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Download, Upload } from "lucide-react";
+import { type ChangeEvent, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+	getApiSyncBundleExport,
+	getGetApiSyncLogsQueryKey,
+	usePostApiSyncBundleImport,
+} from "@/api/generated/team2API";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { isStaffRole, useAuth } from "@/lib/auth";
+
+interface SyncBundlePanelProps {
+	shelterId?: number;
+}
+
+/**
+ * 本番と通信できない避難所向けに、未同期データを同期バンドル（ファイル）で書き出し・取り込みする
+ */
+export function SyncBundlePanel({ shelterId }: SyncBundlePanelProps) {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [isExporting, setIsExporting] = useState(false);
+	const importMutation = usePostApiSyncBundleImport();
+
+	if (!isStaffRole(staff?.role)) {
+		return null;
+	}
+
+	const handleExport = async () => {
+		setIsExporting(true);
+		try {
+			const bundle = await getApiSyncBundleExport({ shelterId });
+			const blob = new Blob([JSON.stringify(bundle)], {
+				type: "application/json",
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `sync-bundle-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+			link.click();
+			URL.revokeObjectURL(url);
+			toast.success("同期バンドルを書き出しました");
+			await queryClient.invalidateQueries({
+				queryKey: getGetApiSyncLogsQueryKey(),
+			});
+		} catch (error) {
+			console.error("同期バンドルの書き出しに失敗しました:", error);
+			toast.error("同期バンドルの書き出しに失敗しました");
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		// 同じファイルを続けて選択できるようにする
+		event.target.value = "";
+		if (!file) return;
+
+		try {
+			const result = await importMutation.mutateAsync({
+				data: JSON.parse(await file.text()),
+			});
+			if (result.success) {
+				toast.success(
+					`同期バンドルを取り込みました（投稿${result.postsSynced}件、コメント${result.commentsSynced}件、メディア${result.mediaFilesStored}件）`,
+				);
+			} else {
+				toast.error("一部の避難所のデータを取り込めませんでした");
+			}
+			await queryClient.invalidateQueries({
+				queryKey: getGetApiSyncLogsQueryKey(),
+			});
+		} catch (error) {
+			console.error("同期バンドルの取り込みに失敗しました:", error);
+			toast.error("同期バンドルの取り込みに失敗しました");
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>同期バンドル</CardTitle>
+				<p className="text-sm text-muted-foreground">
+					本番と通信できない場合は、未同期データをファイルに書き出してUSBメモリ等で持ち運び、本番または他の避難所で取り込めます。
+				</p>
+			</CardHeader>
+			<CardContent className="flex flex-wrap gap-2">
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					disabled={isExporting}
+					onClick={() => void handleExport()}
+				>
+					<Download className="h-4 w-4" />
+					書き出し
+				</Button>
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					disabled={importMutation.isPending}
+					onClick={() => fileInputRef.current?.click()}
+				>
+					<Upload className="h-4 w-4" />
+					取り込み
+				</Button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="application/json,.json"
+					className="hidden"
+					onChange={(event) => void handleImport(event)}
+				/>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,261 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, GitMerge } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import type {
+	ResolveSyncConflictRequestFields,
+	ResolveSyncConflictRequestResolution,
+	SyncConflict,
+} from "@/api/generated/model";
+import {
+	getGetApiSyncConflictsQueryKey,
+	useGetApiSyncConflicts,
+	usePostApiSyncConflictsIdResolve,
+} from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { isStaffRole, useAuth } from "@/lib/auth";
+
+interface SyncConflictViewerProps {
+	shelterId?: number;
+}
+
+type ConflictField = keyof ResolveSyncConflictRequestFields;
+type ConflictSide = "local" | "remote";
+
+// 統合時に手元・同期相手のどちらを採用するか選べる項目
+const CONFLICT_FIELDS: { key: ConflictField; label: string }[] = [
+	{ key: "content", label: "内容" },
+	{ key: "status", label: "対応状況" },
+	{ key: "deleted_at", label: "削除" },
+];
+
+const formatDateTime = (value: unknown) => {
+	if (typeof value !== "string" || value === "") return "-";
+	return new Date(value).toLocaleString("ja-JP");
+};
+
+const formatFieldValue = (field: ConflictField, value: unknown) => {
+	if (field === "deleted_at") {
+		return value ? `削除済み（${formatDateTime(value)}）` : "削除なし";
+	}
+	if (value === null || value === undefined || value === "") return "-";
+	return String(value);
+};
+
+/**
+ * 未解決の同期競合を表示し、採用する版を選んで解決する
+ */
+export function SyncConflictViewer({ shelterId }: SyncConflictViewerProps) {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const [fieldChoices, setFieldChoices] = useState<
+		Record<string, Partial<Record<ConflictField, ConflictSide>>>
+	>({});
+
+	const canView = isStaffRole(staff?.role);
+	const { data: conflictsData } = useGetApiSyncConflicts(
+		{ status: "open", shelterId },
+		{
+			query: {
+				enabled: canView,
+				refetchInterval: 30000,
+			},
+		},
+	);
+	const resolveMutation = usePostApiSyncConflictsIdResolve();
+
+	const conflicts = conflictsData?.conflicts ?? [];
+
+	if (!canView || conflicts.length === 0) {
+		return null;
+	}
+
+	const getChoice = (conflictId: string, field: ConflictField): ConflictSide =>
+		fieldChoices[conflictId]?.[field] ?? "local";
+
+	const handleResolve = async (
+		conflict: SyncConflict,
+		resolution: ResolveSyncConflictRequestResolution,
+	) => {
+		try {
+			await resolveMutation.mutateAsync({
+				id: conflict.id,
+				data: {
+					resolution,
+					fields:
+						resolution === "merged"
+							? Object.fromEntries(
+									CONFLICT_FIELDS.map(({ key }) => [
+										key,
+										getChoice(conflict.id, key),
+									]),
+								)
+							: undefined,
+				},
+			});
+			toast.success(
+				"同期競合を解決しました（次回の同期で同期相手にも反映されます）",
+			);
+			// 同期ステータスの競合件数も更新するため、パラメータを問わず無効化する
+			await queryClient.invalidateQueries({
+				queryKey: getGetApiSyncConflictsQueryKey(),
+			});
+		} catch (error) {
+			console.error("同期競合の解決に失敗しました:", error);
+			toast.error("同期競合の解決に失敗しました");
+		}
+	};
+
+	return (
+		<Card className="border-destructive">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<AlertTriangle className="h-5 w-5 text-destructive" />
+					<span>同期競合</span>
+					<Badge variant="destructive">{conflicts.length}件</Badge>
+				</CardTitle>
+				<p className="text-sm text-muted-foreground">
+					前回の同期以降に手元と同期相手の両方で変更されたデータです。解決するまでこのデータは同期されません。
+				</p>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{conflicts.map((conflict) => (
+					<div key={conflict.id} className="rounded-md border p-4 space-y-3">
+						<div className="flex flex-wrap items-center gap-2 text-sm">
+							<Badge variant="secondary">
+								{conflict.tableName === "posts" ? "投稿" : "コメント"}
+							</Badge>
+							<Badge variant="outline">
+								{conflict.source === "push" ? "受信時に検出" : "Pull時に検出"}
+							</Badge>
+							<span className="text-muted-foreground">
+								検出: {formatDateTime(conflict.detectedAt)}
+							</span>
+							<span className="text-muted-foreground">
+								投稿者: {String(conflict.localData.author_name ?? "-")}
+							</span>
+						</div>
+
+						<div className="overflow-x-auto">
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>項目</TableHead>
+										<TableHead>
+											手元
+											<div className="text-xs font-normal">
+												{formatDateTime(conflict.localData.updated_at)}
+											</div>
+										</TableHead>
+										<TableHead>
+											同期相手
+											<div className="text-xs font-normal">
+												{formatDateTime(conflict.remoteData.updated_at)}
+											</div>
+										</TableHead>
+										<TableHead>統合時に採用</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{CONFLICT_FIELDS.map(({ key, label }) => {
+										const localValue = conflict.localData[key];
+										const remoteValue = conflict.remoteData[key];
+										const differs =
+											(localValue ?? null) !== (remoteValue ?? null);
+										return (
+											<TableRow key={key}>
+												<TableCell className="font-medium">
+													{label}
+													{differs && (
+														<Badge variant="destructive" className="ml-2">
+															相違
+														</Badge>
+													)}
+												</TableCell>
+												<TableCell className="whitespace-pre-wrap">
+													{formatFieldValue(key, localValue)}
+												</TableCell>
+												<TableCell className="whitespace-pre-wrap">
+													{formatFieldValue(key, remoteValue)}
+												</TableCell>
+												<TableCell>
+													<Select
+														value={getChoice(conflict.id, key)}
+														onValueChange={(value) =>
+															setFieldChoices((prev) => ({
+																...prev,
+																[conflict.id]: {
+																	...prev[conflict.id],
+																	[key]: value as ConflictSide,
+																},
+															}))
+														}
+													>
+														<SelectTrigger
+															className="h-8 w-32"
+															aria-label={`${label}に採用する版`}
+														>
+															<SelectValue />
+														</SelectTrigger>
+														<SelectContent>
+															<SelectItem value="local">手元</SelectItem>
+															<SelectItem value="remote">同期相手</SelectItem>
+														</SelectContent>
+													</Select>
+												</TableCell>
+											</TableRow>
+										);
+									})}
+								</TableBody>
+							</Table>
+						</div>
+
+						<div className="flex flex-wrap justify-end gap-2">
+							<Button
+								size="sm"
+								variant="outline"
+								disabled={resolveMutation.isPending}
+								onClick={() => void handleResolve(conflict, "local")}
+							>
+								手元を採用
+							</Button>
+							<Button
+								size="sm"
+								variant="outline"
+								disabled={resolveMutation.isPending}
+								onClick={() => void handleResolve(conflict, "remote")}
+							>
+								同期相手を採用
+							</Button>
+							<Button
+								size="sm"
+								disabled={resolveMutation.isPending}
+								onClick={() => void handleResolve(conflict, "merged")}
+							>
+								<GitMerge className="h-4 w-4 mr-1" />
+								項目ごとに統合
+							</Button>
+						</div>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	);
+}
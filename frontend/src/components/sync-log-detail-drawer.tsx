@@ -0,0 +1,226 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { RotateCw, X } from "lucide-react";
+import { toast } from "sonner";
+import type { SyncLogFailureItemRecordType } from "@/api/generated/model";
+import {
+	getGetApiSyncLogsIdQueryKey,
+	getGetApiSyncLogsQueryKey,
+	useGetApiSyncLogsId,
+	usePostApiSyncLogsIdRetry,
+} from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+
+interface SyncLogDetailDrawerProps {
+	logId: number;
+	onClose: () => void;
+}
+
+const recordTypeLabels: Record<SyncLogFailureItemRecordType, string> = {
+	post: "投稿",
+	comment: "コメント",
+	location_track: "位置情報",
+	occupancy: "避難者数",
+	inventory_item: "在庫品目",
+	inventory_transaction: "入出庫",
+	media: "メディア",
+};
+
+const formatDateTime = (value: string | null) =>
+	value ? new Date(value).toLocaleString("ja-JP") : "-";
+
+const formatSeconds = (ms = 0) => `${(ms / 1000).toFixed(1)}秒`;
+
+const formatKb = (bytes = 0) => `${(bytes / 1024).toFixed(1)}KB`;
+
+/**
+ * 同期ログの詳細（失敗した項目とその理由）を表示し、失敗項目だけを再試行する
+ */
+export function SyncLogDetailDrawer({
+	logId,
+	onClose,
+}: SyncLogDetailDrawerProps) {
+	const queryClient = useQueryClient();
+	const { data, isLoading, isError } = useGetApiSyncLogsId(logId);
+	const retryMutation = usePostApiSyncLogsIdRetry();
+
+	const handleRetry = async () => {
+		try {
+			const retryLog = await retryMutation.mutateAsync({ id: logId });
+			if (retryLog.status === "completed" && !retryLog.pendingFailures) {
+				toast.success("失敗した項目を再試行しました");
+			} else {
+				toast.error("再試行でも失敗した項目があります", {
+					description: retryLog.errorMessage ?? undefined,
+				});
+			}
+		} catch (error) {
+			console.error("同期の再試行に失敗しました:", error);
+			toast.error("同期の再試行に失敗しました");
+		} finally {
+			await Promise.all([
+				queryClient.invalidateQueries({
+					queryKey: getGetApiSyncLogsIdQueryKey(logId),
+				}),
+				queryClient.invalidateQueries({
+					queryKey: getGetApiSyncLogsQueryKey(),
+				}),
+			]);
+		}
+	};
+
+	const log = data?.log;
+	const failures = data?.failures ?? [];
+
+	return (
+		<div className="fixed inset-0 bg-black/50 flex justify-end z-10000">
+			<div className="h-full w-full max-w-xl overflow-y-auto bg-background shadow-xl relative z-10001">
+				<div className="flex items-center justify-between border-b p-4">
+					<h2 className="text-lg font-semibold">同期ログ #{logId}</h2>
+					<Button variant="ghost" size="sm" onClick={onClose}>
+						<X className="h-4 w-4" />
+					</Button>
+				</div>
+
+				<div className="space-y-4 p-4">
+					{isLoading && (
+						<p className="text-sm text-muted-foreground">読み込み中...</p>
+					)}
+					{isError && (
+						<p className="text-sm text-danger">
+							同期ログの詳細を取得できませんでした
+						</p>
+					)}
+
+					{log && (
+						<div className="space-y-1 text-sm">
+							<div>
+								<span className="text-muted-foreground">種類: </span>
+								{log.syncType}
+								<span className="text-muted-foreground"> / 状態: </span>
+								{log.status}
+							</div>
+							{log.targetUrl && (
+								<div className="break-all">
+									<span className="text-muted-foreground">同期先: </span>
+									{log.targetUrl}
+								</div>
+							)}
+							<div>
+								<span className="text-muted-foreground">開始: </span>
+								{formatDateTime(log.startedAt)}
+								<span className="text-muted-foreground"> / 完了: </span>
+								{formatDateTime(log.completedAt ?? null)}
+							</div>
+							<div>
+								<span className="text-muted-foreground">所要時間: </span>
+								データ {formatSeconds(log.dataDurationMs)} / メディア{" "}
+								{formatSeconds(log.mediaDurationMs)}
+							</div>
+							<div>
+								<span className="text-muted-foreground">転送量: </span>
+								データ {formatKb(log.payloadBytes)} / メディア{" "}
+								{formatKb(log.mediaBytes)}
+								{log.avgUpstreamLatencyMs != null && (
+									<span className="text-muted-foreground">
+										{" "}
+										（平均応答 {log.avgUpstreamLatencyMs}ms）
+									</span>
+								)}
+							</div>
+							{log.errorMessage && (
+								<p className="text-danger">{log.errorMessage}</p>
+							)}
+						</div>
+					)}
+
+					{data && (
+						<div className="space-y-2">
+							<div className="flex items-center justify-between">
+								<h3 className="flex items-center gap-2 text-sm font-medium">
+									失敗した項目
+									<Badge variant="outline">{failures.length}件</Badge>
+								</h3>
+								{data.retryable && (
+									<Button
+										size="sm"
+										className="gap-2"
+										disabled={retryMutation.isPending}
+										onClick={() => void handleRetry()}
+									>
+										<RotateCw
+											className={`h-4 w-4 ${retryMutation.isPending ? "animate-spin" : ""}`}
+										/>
+										{retryMutation.isPending
+											? "再試行中..."
+											: "失敗した項目を再試行"}
+									</Button>
+								)}
+							</div>
+
+							{failures.length > 0 ? (
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>項目</TableHead>
+											<TableHead>理由</TableHead>
+											<TableHead>再試行</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{failures.map((failure) => (
+											<TableRow key={failure.id}>
+												<TableCell>
+													<div className="flex items-center gap-1">
+														<Badge variant="secondary">
+															{recordTypeLabels[failure.recordType]}
+														</Badge>
+														{failure.direction === "pull" && (
+															<Badge variant="outline">取得</Badge>
+														)}
+													</div>
+													<div className="mt-1 max-w-40 truncate text-xs text-muted-foreground">
+														{failure.label ?? failure.recordId}
+													</div>
+												</TableCell>
+												<TableCell className="max-w-56 text-xs text-danger break-all">
+													{failure.errorMessage}
+												</TableCell>
+												<TableCell className="text-xs">
+													{failure.retriedAt ? (
+														<>
+															{formatDateTime(failure.retriedAt)}
+															{failure.retryLogId && (
+																<div className="text-muted-foreground">
+																	ログ #{failure.retryLogId}
+																</div>
+															)}
+														</>
+													) : (
+														"未"
+													)}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							) : (
+								<p className="text-sm text-muted-foreground">
+									失敗した項目はありません
+								</p>
+							)}
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
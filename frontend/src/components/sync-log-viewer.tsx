@@ -1,5 +1,6 @@
-import { ChevronLeft, ChevronRight, RefreshCw } from "lucide-react";
+import { ChevronLeft, ChevronRight, FileSearch, RefreshCw } from "lucide-react";
 import { useState } from "react";
+import type { SyncLogItem } from "@/api/generated/model";
 import { useGetApiSyncLogs } from "@/api/generated/team2API";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,6 +13,11 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { MediaSyncRetryViewer } from "@/components/media-sync-retry-viewer";
+import { SyncBundlePanel } from "@/components/sync-bundle-panel";
+import { SyncConflictViewer } from "@/components/sync-conflict-viewer";
+import { SyncLogDetailDrawer } from "@/components/sync-log-detail-drawer";
+import { SyncTargetHealthViewer } from "@/components/sync-target-health-viewer";
 
 interface SyncLogViewerProps {
 	shelterId?: number;
@@ -19,6 +25,7 @@ interface SyncLogViewerProps {
 
 export function SyncLogViewer({ shelterId }: SyncLogViewerProps) {
 	const [page, setPage] = useState(1);
+	const [selectedLogId, setSelectedLogId] = useState<number | null>(null);
 	const limit = 10;
 
 	const {
@@ -74,11 +81,55 @@ export function SyncLogViewer({ shelterId }: SyncLogViewerProps) {
 				return <Badge variant="secondary">差分同期</Badge>;
 			case "manual":
 				return <Badge variant="secondary">手動同期</Badge>;
+			case "scheduled":
+				return <Badge variant="secondary">定期同期</Badge>;
+			case "bundle_export":
+				return <Badge variant="secondary">バンドル書き出し</Badge>;
+			case "bundle_import":
+				return <Badge variant="secondary">バンドル取り込み</Badge>;
+			case "retry":
+				return <Badge variant="secondary">再試行</Badge>;
 			default:
 				return <Badge variant="outline">{syncType}</Badge>;
 		}
 	};
 
+	// 失敗した項目の詳細と再試行はドロワーで表示する
+	const getDetailButton = (log: SyncLogItem) => (
+		<Button
+			variant="ghost"
+			size="sm"
+			className="gap-1"
+			onClick={() => setSelectedLogId(log.id)}
+		>
+			<FileSearch className="h-4 w-4" />
+			詳細
+			{(log.pendingFailures ?? 0) > 0 && (
+				<Badge variant="destructive">失敗 {log.pendingFailures}件</Badge>
+			)}
+		</Button>
+	);
+
+	// 分割送信のバッチ進捗（途中で失敗した送信は次回ここから再開される）
+	const getBatchProgress = (log: SyncLogItem) => {
+		if (!log.batchesTotal || log.batchesTotal <= 1) return null;
+		return (
+			<div className="text-xs text-muted-foreground mt-1">
+				バッチ {log.batchesCompleted ?? 0}/{log.batchesTotal}
+			</div>
+		);
+	};
+
+	// 送信対象外の避難所のため送らなかった未同期データ（未同期のまま残る）
+	const getOutOfScopeNote = (log: SyncLogItem) => {
+		if (!log.outOfScopeRecords) return null;
+		return (
+			<div className="text-xs text-muted-foreground mt-1">
+				対象外 {log.outOfScopeRecords}件
+			</div>
+		);
+	};
+
 	const formatDateTime = (dateString: string | null | undefined) => {
 		if (!dateString) return "-";
 		const date = new Date(dateString);
@@ -121,159 +172,205 @@ export function SyncLogViewer({ shelterId }: SyncLogViewerProps) {
 	}
 
 	return (
-		<Card>
-			<CardHeader className="flex flex-row items-center justify-between">
-				<CardTitle>同期ログ</CardTitle>
-				<Button
-					variant="outline"
-					size="sm"
-					onClick={() => refetch()}
-					className="gap-2"
-				>
-					<RefreshCw className="h-4 w-4" />
-					更新
-				</Button>
-			</CardHeader>
-			<CardContent>
-				{syncLogsData && syncLogsData.logs.length > 0 ? (
-					<>
-						<div className="rounded-md border overflow-x-auto hidden md:block">
-							<Table>
-								<TableHeader>
-									<TableRow>
-										{!shelterId && <TableHead>避難所</TableHead>}
-										<TableHead>同期タイプ</TableHead>
-										<TableHead>ステータス</TableHead>
-										<TableHead>開始日時</TableHead>
-										<TableHead>完了日時</TableHead>
-										<TableHead className="text-right">投稿</TableHead>
-										<TableHead className="text-right">コメント</TableHead>
-										<TableHead className="text-right">位置情報</TableHead>
-										<TableHead className="text-right">メディア</TableHead>
-										<TableHead className="text-right">合計</TableHead>
-									</TableRow>
-								</TableHeader>
-								<TableBody>
-									{syncLogsData.logs.map((log) => (
-										<TableRow key={log.id}>
-											{!shelterId && (
+		<div className="space-y-4">
+			<SyncConflictViewer shelterId={shelterId} />
+			<MediaSyncRetryViewer />
+			<SyncTargetHealthViewer />
+			<SyncBundlePanel shelterId={shelterId} />
+			<Card>
+				<CardHeader className="flex flex-row items-center justify-between">
+					<CardTitle>同期ログ</CardTitle>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => refetch()}
+						className="gap-2"
+					>
+						<RefreshCw className="h-4 w-4" />
+						更新
+					</Button>
+				</CardHeader>
+				<CardContent>
+					{syncLogsData && syncLogsData.logs.length > 0 ? (
+						<>
+							<div className="rounded-md border overflow-x-auto hidden md:block">
+								<Table>
+									<TableHeader>
+										<TableRow>
+											{!shelterId && <TableHead>避難所</TableHead>}
+											<TableHead>同期タイプ</TableHead>
+											<TableHead>ステータス</TableHead>
+											<TableHead>開始日時</TableHead>
+											<TableHead>完了日時</TableHead>
+											<TableHead className="text-right">投稿</TableHead>
+											<TableHead className="text-right">コメント</TableHead>
+											<TableHead className="text-right">位置情報</TableHead>
+											<TableHead className="text-right">メディア</TableHead>
+											<TableHead className="text-right">合計</TableHead>
+											<TableHead />
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{syncLogsData.logs.map((log) => (
+											<TableRow key={log.id}>
+												{!shelterId && (
+													<TableCell>
+														{log.shelterName || (
+															<span className="text-muted-foreground">-</span>
+														)}
+													</TableCell>
+												)}
 												<TableCell>
-													{log.shelterName || (
-														<span className="text-muted-foreground">-</span>
+													{getSyncTypeBadge(log.syncType)}
+													{log.verifiedNodeId && (
+														<div className="text-xs text-muted-foreground mt-1">
+															ノード: {log.verifiedNodeId}
+														</div>
 													)}
 												</TableCell>
-											)}
-											<TableCell>{getSyncTypeBadge(log.syncType)}</TableCell>
-											<TableCell>{getStatusBadge(log.status)}</TableCell>
-											<TableCell>{formatDateTime(log.startedAt)}</TableCell>
-											<TableCell>{formatDateTime(log.completedAt)}</TableCell>
-											<TableCell className="text-right">
-												{log.postsSynced}
-											</TableCell>
-											<TableCell className="text-right">
-												{log.commentsSynced}
-											</TableCell>
-											<TableCell className="text-right">
-												{log.locationTracksSynced}
-											</TableCell>
-											<TableCell className="text-right">
-												{log.mediaSynced}
-											</TableCell>
-											<TableCell className="text-right font-medium">
-												{log.totalSynced}
-											</TableCell>
-										</TableRow>
-									))}
-								</TableBody>
-							</Table>
-						</div>
+												<TableCell>
+													{getStatusBadge(log.status)}
+													{getBatchProgress(log)}
+													{getOutOfScopeNote(log)}
+												</TableCell>
+												<TableCell>{formatDateTime(log.startedAt)}</TableCell>
+												<TableCell>{formatDateTime(log.completedAt)}</TableCell>
+												<TableCell className="text-right">
+													{log.postsSynced}
+												</TableCell>
+												<TableCell className="text-right">
+													{log.commentsSynced}
+												</TableCell>
+												<TableCell className="text-right">
+													{log.locationTracksSynced}
+												</TableCell>
+												<TableCell className="text-right">
+													{log.mediaSynced}
+												</TableCell>
+												<TableCell className="text-right font-medium">
+													{log.totalSynced}
+												</TableCell>
+												<TableCell className="text-right">
+													{getDetailButton(log)}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
 
-						<div className="space-y-3 md:hidden">
-							{syncLogsData.logs.map((log) => (
-								<Card key={log.id}>
-									<CardContent className="space-y-2 p-4">
-										<div className="flex items-center justify-between gap-2">
-											<div className="flex items-center gap-2">
-												{getSyncTypeBadge(log.syncType)}
-												{getStatusBadge(log.status)}
-											</div>
-											<span className="text-sm text-muted-foreground">
-												{formatDateTime(log.startedAt)}
-											</span>
-										</div>
-										{!shelterId && (
-											<div className="text-sm">
-												<span className="text-muted-foreground">避難所: </span>
-												{log.shelterName || "-"}
-											</div>
-										)}
-										<div className="grid grid-cols-2 gap-2 text-sm">
-											<div>
-												<span className="text-muted-foreground">投稿: </span>
-												{log.postsSynced}
-											</div>
-											<div>
-												<span className="text-muted-foreground">コメント: </span>
-												{log.commentsSynced}
-											</div>
-											<div>
-												<span className="text-muted-foreground">位置情報: </span>
-												{log.locationTracksSynced}
+							<div className="space-y-3 md:hidden">
+								{syncLogsData.logs.map((log) => (
+									<Card key={log.id}>
+										<CardContent className="space-y-2 p-4">
+											<div className="flex items-center justify-between gap-2">
+												<div className="flex items-center gap-2">
+													{getSyncTypeBadge(log.syncType)}
+													{getStatusBadge(log.status)}
+												</div>
+												<span className="text-sm text-muted-foreground">
+													{formatDateTime(log.startedAt)}
+												</span>
 											</div>
-											<div>
-												<span className="text-muted-foreground">メディア: </span>
-												{log.mediaSynced}
+											{!shelterId && (
+												<div className="text-sm">
+													<span className="text-muted-foreground">
+														避難所:{" "}
+													</span>
+													{log.shelterName || "-"}
+												</div>
+											)}
+											{getBatchProgress(log)}
+											{getOutOfScopeNote(log)}
+											{log.verifiedNodeId && (
+												<div className="text-sm">
+													<span className="text-muted-foreground">
+														送信元ノード:{" "}
+													</span>
+													{log.verifiedNodeId}
+												</div>
+											)}
+											<div className="grid grid-cols-2 gap-2 text-sm">
+												<div>
+													<span className="text-muted-foreground">投稿: </span>
+													{log.postsSynced}
+												</div>
+												<div>
+													<span className="text-muted-foreground">
+														コメント:{" "}
+													</span>
+													{log.commentsSynced}
+												</div>
+												<div>
+													<span className="text-muted-foreground">
+														位置情報:{" "}
+													</span>
+													{log.locationTracksSynced}
+												</div>
+												<div>
+													<span className="text-muted-foreground">
+														メディア:{" "}
+													</span>
+													{log.mediaSynced}
+												</div>
+												<div className="col-span-2 font-medium">
+													<span className="text-muted-foreground">合計: </span>
+													{log.totalSynced}
+												</div>
 											</div>
-											<div className="col-span-2 font-medium">
-												<span className="text-muted-foreground">合計: </span>
-												{log.totalSynced}
+											<div className="flex items-center justify-between text-xs text-muted-foreground">
+												<span>完了: {formatDateTime(log.completedAt)}</span>
+												{getDetailButton(log)}
 											</div>
-										</div>
-										<div className="text-xs text-muted-foreground">
-											完了: {formatDateTime(log.completedAt)}
-										</div>
-									</CardContent>
-								</Card>
-							))}
-						</div>
-
-						{/* ページネーション */}
-						<div className="flex items-center justify-between px-2 py-4">
-							<div className="text-sm text-muted-foreground">
-								{syncLogsData.totalCount} 件中 {(page - 1) * limit + 1} -{" "}
-								{Math.min(page * limit, syncLogsData.totalCount)} 件を表示
+										</CardContent>
+									</Card>
+								))}
 							</div>
-							<div className="flex items-center space-x-2">
-								<Button
-									variant="outline"
-									size="sm"
-									onClick={handlePreviousPage}
-									disabled={page === 1}
-								>
-									<ChevronLeft className="h-4 w-4" />
-									前へ
-								</Button>
-								<div className="text-sm">
-									ページ {page} / {syncLogsData.totalPages}
+
+							{/* ページネーション */}
+							<div className="flex items-center justify-between px-2 py-4">
+								<div className="text-sm text-muted-foreground">
+									{syncLogsData.totalCount} 件中 {(page - 1) * limit + 1} -{" "}
+									{Math.min(page * limit, syncLogsData.totalCount)} 件を表示
+								</div>
+								<div className="flex items-center space-x-2">
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={handlePreviousPage}
+										disabled={page === 1}
+									>
+										<ChevronLeft className="h-4 w-4" />
+										前へ
+									</Button>
+									<div className="text-sm">
+										ページ {page} / {syncLogsData.totalPages}
+									</div>
+									<Button
+										variant="outline"
+										size="sm"
+										onClick={handleNextPage}
+										disabled={page >= syncLogsData.totalPages}
+									>
+										次へ
+										<ChevronRight className="h-4 w-4" />
+									</Button>
 								</div>
-								<Button
-									variant="outline"
-									size="sm"
-									onClick={handleNextPage}
-									disabled={page >= syncLogsData.totalPages}
-								>
-									次へ
-									<ChevronRight className="h-4 w-4" />
-								</Button>
 							</div>
+						</>
+					) : (
+						<div className="text-center py-8 text-muted-foreground">
+							同期ログがありません
 						</div>
-					</>
-				) : (
-					<div className="text-center py-8 text-muted-foreground">
-						同期ログがありません
-					</div>
-				)}
-			</CardContent>
-		</Card>
+					)}
+				</CardContent>
+			</Card>
+			{selectedLogId !== null && (
+				<SyncLogDetailDrawer
+					logId={selectedLogId}
+					onClose={() => setSelectedLogId(null)}
+				/>
+			)}
+		</div>
 	);
 }
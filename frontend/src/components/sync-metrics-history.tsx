@@ -0,0 +1,197 @@
+import { Activity } from "lucide-react";
+import { useState } from "react";
+import {
+	Bar,
+	BarChart,
+	CartesianGrid,
+	Legend,
+	Line,
+	LineChart,
+	ResponsiveContainer,
+	Tooltip,
+	XAxis,
+	YAxis,
+} from "recharts";
+import type { SyncMetricsDay } from "@/api/generated/model";
+import { useGetApiSyncMetrics } from "@/api/generated/team2API";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { isStaffRole, useAuth } from "@/lib/auth";
+
+interface SyncMetricsHistoryProps {
+	shelterId?: number;
+}
+
+const DAY_OPTIONS = [7, 14, 30] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ChartPoint = {
+	date: string;
+	syncCount: number;
+	failedCount: number;
+	avgDurationSec: number | null;
+	avgLatencyMs: number | null;
+	payloadKb: number;
+	mediaKb: number;
+};
+
+const toKb = (bytes: number) => Math.round((bytes / 1024) * 10) / 10;
+
+/**
+ * 日ごとのグラフの点を作る（同期が無かった日は所要時間・応答時間を null にして線を途切れさせる）
+ * 集計日は UTC のため、日付の列も UTC で作る
+ */
+const buildChartPoints = (
+	metrics: SyncMetricsDay[],
+	days: number,
+): ChartPoint[] => {
+	const today = Date.now();
+	return Array.from({ length: days }, (_, index) => {
+		const date = new Date(today - (days - 1 - index) * DAY_MS)
+			.toISOString()
+			.slice(0, 10);
+		const rows = metrics.filter((row) => row.date === date);
+		const syncCount = rows.reduce((sum, row) => sum + row.syncCount, 0);
+		const durationMs = rows.reduce(
+			(sum, row) => sum + row.dataDurationMs + row.mediaDurationMs,
+			0,
+		);
+		const requests = rows.reduce((sum, row) => sum + row.upstreamRequests, 0);
+		const latencyMs = rows.reduce(
+			(sum, row) =>
+				sum + (row.avgUpstreamLatencyMs ?? 0) * row.upstreamRequests,
+			0,
+		);
+		return {
+			date: date.slice(5),
+			syncCount,
+			failedCount: rows.reduce((sum, row) => sum + row.failedCount, 0),
+			avgDurationSec:
+				syncCount > 0
+					? Math.round((durationMs / syncCount / 1000) * 10) / 10
+					: null,
+			avgLatencyMs: requests > 0 ? Math.round(latencyMs / requests) : null,
+			payloadKb: toKb(rows.reduce((sum, row) => sum + row.payloadBytes, 0)),
+			mediaKb: toKb(rows.reduce((sum, row) => sum + row.mediaBytes, 0)),
+		};
+	});
+};
+
+/**
+ * 同期の所要時間・応答時間・転送量の推移を表示する（回線状況の悪化で同期が遅くなっていないかの確認用）
+ */
+export function SyncMetricsHistory({ shelterId }: SyncMetricsHistoryProps) {
+	const staff = useAuth();
+	const canView = isStaffRole(staff?.role);
+	const [days, setDays] = useState<number>(14);
+	const { data, isLoading } = useGetApiSyncMetrics(
+		{ shelterId, days },
+		{ query: { enabled: canView } },
+	);
+
+	if (!canView) {
+		return null;
+	}
+
+	const points = buildChartPoints(data?.metrics ?? [], days);
+	const totalSyncs = points.reduce((sum, point) => sum + point.syncCount, 0);
+	const totalFailed = points.reduce((sum, point) => sum + point.failedCount, 0);
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-center justify-between space-y-0">
+				<div className="space-y-1">
+					<CardTitle className="flex items-center gap-2">
+						<Activity className="h-5 w-5 text-blue-600" />
+						<span>同期の性能推移</span>
+					</CardTitle>
+					<p className="text-sm text-muted-foreground">
+						同期{totalSyncs}回（失敗{totalFailed}回）。日付はUTCです。
+					</p>
+				</div>
+				<div className="flex gap-1">
+					{DAY_OPTIONS.map((option) => (
+						<Button
+							key={option}
+							variant={days === option ? "default" : "outline"}
+							size="sm"
+							onClick={() => setDays(option)}
+						>
+							{option}日
+						</Button>
+					))}
+				</div>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<div className="py-8 text-center text-muted-foreground">
+						読み込み中...
+					</div>
+				) : totalSyncs === 0 ? (
+					<div className="py-8 text-center text-muted-foreground">
+						この期間の同期はありません
+					</div>
+				) : (
+					<div className="grid gap-6 lg:grid-cols-2">
+						<div className="space-y-2">
+							<h3 className="text-sm font-medium">所要時間と応答時間</h3>
+							<ResponsiveContainer width="100%" height={240}>
+								<LineChart data={points}>
+									<CartesianGrid strokeDasharray="3 3" />
+									<XAxis dataKey="date" fontSize={12} />
+									<YAxis yAxisId="duration" unit="秒" fontSize={12} />
+									<YAxis
+										yAxisId="latency"
+										orientation="right"
+										unit="ms"
+										fontSize={12}
+									/>
+									<Tooltip />
+									<Legend />
+									<Line
+										yAxisId="duration"
+										type="monotone"
+										dataKey="avgDurationSec"
+										name="平均所要時間（秒）"
+										stroke="#2563eb"
+									/>
+									<Line
+										yAxisId="latency"
+										type="monotone"
+										dataKey="avgLatencyMs"
+										name="平均応答時間（ms）"
+										stroke="#f97316"
+									/>
+								</LineChart>
+							</ResponsiveContainer>
+						</div>
+						<div className="space-y-2">
+							<h3 className="text-sm font-medium">転送量</h3>
+							<ResponsiveContainer width="100%" height={240}>
+								<BarChart data={points}>
+									<CartesianGrid strokeDasharray="3 3" />
+									<XAxis dataKey="date" fontSize={12} />
+									<YAxis unit="KB" fontSize={12} />
+									<Tooltip />
+									<Legend />
+									<Bar
+										dataKey="payloadKb"
+										name="データ（KB）"
+										stackId="bytes"
+										fill="#2563eb"
+									/>
+									<Bar
+										dataKey="mediaKb"
+										name="メディア（KB）"
+										stackId="bytes"
+										fill="#22c55e"
+									/>
+								</BarChart>
+							</ResponsiveContainer>
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
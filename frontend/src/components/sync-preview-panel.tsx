@@ -0,0 +1,219 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { RefreshCw, Upload } from "lucide-react";
+import { useState } from "react";
+import type {
+	SyncOutOfScopeShelter,
+	SyncPreviewShelter,
+} from "@/api/generated/model";
+import {
+	getGetApiSyncLogsQueryKey,
+	useGetApiSyncPreview,
+} from "@/api/generated/team2API";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { syncService } from "@/lib/sync-service";
+
+interface SyncPreviewPanelProps {
+	onClose: () => void;
+}
+
+const formatBytes = (bytes: number): string => {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const shelterLabel = (shelter: SyncPreviewShelter): string =>
+	shelter.shelterName ?? `避難所ID ${shelter.shelterId}`;
+
+const outOfScopeLabel = (shelter: SyncOutOfScopeShelter): string =>
+	shelter.shelterName ??
+	(shelter.shelterId === null ? "避難所不明" : `避難所ID ${shelter.shelterId}`);
+
+const countOutOfScope = (shelters: SyncOutOfScopeShelter[]): number =>
+	shelters.reduce(
+		(total, shelter) =>
+			total +
+			shelter.posts +
+			shelter.comments +
+			shelter.locationTracks +
+			shelter.media +
+			shelter.occupancy +
+			shelter.inventoryItems +
+			shelter.inventoryTransactions,
+		0,
+	);
+
+/**
+ * 同期を実行する前に、送信・取得される件数と容量の見積もりを表示する
+ */
+export function SyncPreviewPanel({ onClose }: SyncPreviewPanelProps) {
+	const queryClient = useQueryClient();
+	const [isSyncing, setIsSyncing] = useState(false);
+	const productionApiUrl = import.meta.env.VITE_PRODUCTION_API_URL;
+	const { data, isLoading, isError, refetch, isFetching } =
+		useGetApiSyncPreview(
+			productionApiUrl ? { targetUrl: productionApiUrl } : undefined,
+		);
+
+	const handleConfirm = async () => {
+		setIsSyncing(true);
+		try {
+			const job = await syncService.runSyncJob();
+			if (job?.status === "completed") {
+				await syncService.syncPullFromProduction();
+			}
+			await queryClient.invalidateQueries({
+				queryKey: getGetApiSyncLogsQueryKey(),
+			});
+			onClose();
+		} finally {
+			setIsSyncing(false);
+		}
+	};
+
+	const push = data?.push;
+	const pull = data?.pull;
+	const hasPushData =
+		!!push &&
+		push.posts +
+			push.comments +
+			push.locationTracks +
+			push.occupancy +
+			push.inventoryItems +
+			push.inventoryTransactions +
+			push.mediaFiles >
+			0;
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-center justify-between space-y-0">
+				<CardTitle className="text-base">同期内容の確認</CardTitle>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="gap-2"
+					disabled={isFetching}
+					onClick={() => void refetch()}
+				>
+					<RefreshCw
+						className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`}
+					/>
+					再計算
+				</Button>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{isLoading && (
+					<p className="text-sm text-muted-foreground">集計中...</p>
+				)}
+				{isError && (
+					<p className="text-sm text-danger">同期内容を取得できませんでした</p>
+				)}
+
+				{push && (
+					<div className="space-y-2">
+						<p className="text-sm font-medium">
+							送信: データ {formatBytes(push.recordBytes)}（{push.batches}
+							バッチ）＋ メディア {push.mediaFiles}件{" "}
+							{formatBytes(push.mediaBytes)}
+						</p>
+						{push.missingMediaFiles > 0 && (
+							<p className="text-xs text-danger">
+								ファイル本体が見つからないメディアが{push.missingMediaFiles}
+								件あります
+							</p>
+						)}
+						{push.outOfScope.length > 0 && (
+							<p className="text-xs text-danger">
+								送信対象外の避難所（
+								{push.outOfScope.map(outOfScopeLabel).join("、")}
+								）の未同期データ{countOutOfScope(push.outOfScope)}
+								件は送信しません
+							</p>
+						)}
+						{push.shelters.length > 0 ? (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>避難所</TableHead>
+										<TableHead className="text-right">投稿</TableHead>
+										<TableHead className="text-right">コメント</TableHead>
+										<TableHead className="text-right">位置情報</TableHead>
+										<TableHead className="text-right">メディア</TableHead>
+										<TableHead className="text-right">容量</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{push.shelters.map((shelter) => (
+										<TableRow key={shelter.shelterId}>
+											<TableCell>{shelterLabel(shelter)}</TableCell>
+											<TableCell className="text-right">
+												{shelter.posts}
+											</TableCell>
+											<TableCell className="text-right">
+												{shelter.comments}
+											</TableCell>
+											<TableCell className="text-right">
+												{shelter.locationTracks}
+											</TableCell>
+											<TableCell className="text-right">
+												{shelter.media}
+											</TableCell>
+											<TableCell className="text-right">
+												{formatBytes(shelter.recordBytes + shelter.mediaBytes)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						) : (
+							<p className="text-sm text-muted-foreground">
+								送信する投稿・コメント・位置情報はありません
+							</p>
+						)}
+					</div>
+				)}
+
+				{pull && (
+					<div className="space-y-1">
+						{pull.available ? (
+							<p className="text-sm font-medium">
+								取得: 投稿 {pull.posts}件、コメント {pull.comments}件、位置情報{" "}
+								{pull.locationTracks}件、メディア {pull.media}件（
+								{formatBytes(pull.responseBytes)}
+								{pull.hasMore ? "、続きあり" : ""}）
+							</p>
+						) : (
+							<p className="text-sm text-danger">
+								取得内容を確認できませんでした: {pull.error}
+							</p>
+						)}
+					</div>
+				)}
+
+				<div className="flex justify-end gap-2">
+					<Button variant="outline" size="sm" onClick={onClose}>
+						キャンセル
+					</Button>
+					<Button
+						size="sm"
+						className="gap-2"
+						disabled={isSyncing || isLoading || (!hasPushData && !pull)}
+						onClick={() => void handleConfirm()}
+					>
+						<Upload className="h-4 w-4" />
+						{isSyncing ? "同期中..." : "同期を実行"}
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
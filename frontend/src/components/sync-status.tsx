@@ -7,14 +7,49 @@ import {
 	Clock,
 	Database,
 	AlertCircle,
+	AlertTriangle,
+	ListChecks,
 } from "lucide-react";
-import { syncService, type DbSyncStats } from "@/lib/sync-service";
+import { useGetApiSyncConflicts } from "@/api/generated/team2API";
+import { Button } from "@/components/ui/button";
+import { SyncPreviewPanel } from "@/components/sync-preview-panel";
+import { isStaffRole, useAuth } from "@/lib/auth";
+import {
+	syncService,
+	type DbSyncJob,
+	type DbSyncStats,
+} from "@/lib/sync-service";
+
+// 同期ジョブの段階ごとの表示
+const jobPhaseLabel = (job: DbSyncJob): string => {
+	if (job.phase === "media") {
+		return `メディア送信中 (${job.mediaFilesCompleted + job.mediaFilesFailed}/${job.mediaFilesTotal})`;
+	}
+	if (job.phase === "data") {
+		return `データ送信中 (${job.batchesCompleted}/${job.batchesTotal}バッチ)`;
+	}
+	return "同期完了";
+};
 
 export function SyncStatus() {
 	const [syncStatus, setSyncStatus] = useState(syncService.getSyncStatus());
 	const [lastUpdate, setLastUpdate] = useState<string>("");
 	const [dbSyncStats, setDbSyncStats] = useState<DbSyncStats | null>(null);
+	const [showPreview, setShowPreview] = useState(false);
+	const [syncJob, setSyncJob] = useState<DbSyncJob | null>(null);
 	const isLocal = import.meta.env.VITE_NODE_ENV === "local";
+	const staff = useAuth();
+	// 未解決の同期競合は職員・本部管理者のみ参照できる
+	const { data: conflictsData } = useGetApiSyncConflicts(
+		{ status: "open" },
+		{
+			query: {
+				enabled: isStaffRole(staff?.role),
+				refetchInterval: 30000,
+			},
+		},
+	);
+	const openConflicts = conflictsData?.conflicts.length ?? 0;
 
 	useEffect(() => {
 		const updateStatus = () => {
@@ -54,6 +89,9 @@ export function SyncStatus() {
 		return () => clearInterval(interval);
 	}, []);
 
+	// 実行中の同期ジョブの進捗を表示する
+	useEffect(() => syncService.onJobProgress(setSyncJob), []);
+
 	return (
 		<div className="flex flex-wrap items-center gap-3">
 			{/* Connection Status */}
@@ -85,6 +123,14 @@ export function SyncStatus() {
 					</Badge>
 				)}
 
+			{/* Open Sync Conflicts */}
+			{openConflicts > 0 && (
+				<Badge variant="destructive" className="flex items-center gap-1">
+					<AlertTriangle className="h-3 w-3" />
+					<span>同期競合: {openConflicts}件</span>
+				</Badge>
+			)}
+
 			{/* Pending Operations (localStorage) */}
 			{syncStatus.pendingOperations > 0 && (
 				<Badge variant="outline" className="flex items-center gap-1">
@@ -115,12 +161,55 @@ export function SyncStatus() {
 					</Badge>
 				)}
 
+			{/* Sync Preview (職員のみ、送信内容を確認してから同期する) */}
+			{isLocal && isStaffRole(staff?.role) && (
+				<Button
+					variant="outline"
+					size="sm"
+					className="h-7 gap-1"
+					onClick={() => setShowPreview((prev) => !prev)}
+				>
+					<ListChecks className="h-3 w-3" />
+					同期内容を確認
+				</Button>
+			)}
+
 			{/* Last Update */}
 			{lastUpdate && (
 				<span className="text-xs text-muted-foreground">
 					更新: {lastUpdate}
 				</span>
 			)}
+
+			{syncJob && (
+				<div className="basis-full space-y-1">
+					<div className="flex items-center justify-between text-xs text-muted-foreground">
+						<span className="flex items-center gap-1">
+							<RefreshCw className="h-3 w-3 animate-spin" />
+							{jobPhaseLabel(syncJob)}
+						</span>
+						<span>{syncJob.progress}%</span>
+					</div>
+					<div
+						className="h-2 w-full overflow-hidden rounded-full bg-muted"
+						role="progressbar"
+						aria-valuemin={0}
+						aria-valuemax={100}
+						aria-valuenow={syncJob.progress}
+					>
+						<div
+							className="h-full bg-primary transition-all"
+							style={{ width: `${syncJob.progress}%` }}
+						/>
+					</div>
+				</div>
+			)}
+
+			{showPreview && (
+				<div className="basis-full">
+					<SyncPreviewPanel onClose={() => setShowPreview(false)} />
+				</div>
+			)}
 		</div>
 	);
 }
@@ -0,0 +1,182 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Network, RotateCw } from "lucide-react";
+import { toast } from "sonner";
+import type {
+	SyncTargetItem,
+	SyncTargetItemHealth,
+} from "@/api/generated/model";
+import {
+	getGetApiSyncLogsQueryKey,
+	getGetApiSyncTargetsQueryKey,
+	useGetApiSyncTargets,
+	usePostApiSyncTargetsIdRun,
+} from "@/api/generated/team2API";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { isStaffRole, useAuth } from "@/lib/auth";
+
+const formatDateTime = (value: string | null) =>
+	value ? new Date(value).toLocaleString("ja-JP") : "-";
+
+const healthBadge: Record<
+	SyncTargetItemHealth,
+	{
+		label: string;
+		variant: "default" | "secondary" | "destructive" | "outline";
+	}
+> = {
+	healthy: { label: "正常", variant: "default" },
+	stale: { label: "遅延", variant: "secondary" },
+	failing: { label: "失敗", variant: "destructive" },
+	pending: { label: "未実行", variant: "outline" },
+	disabled: { label: "無効", variant: "outline" },
+};
+
+const describeScope = (target: SyncTargetItem): string => {
+	const parts: string[] = [];
+	if (target.pushEnabled) {
+		parts.push("転送");
+	}
+	if (target.pullShelterIds.length > 0) {
+		parts.push(`取得: 避難所ID ${target.pullShelterIds.join(", ")}`);
+	}
+	return parts.length > 0 ? parts.join(" / ") : "-";
+};
+
+/**
+ * 登録済みの同期先（県・市の本部サーバー等）ごとの同期状態を表示する
+ */
+export function SyncTargetHealthViewer() {
+	const staff = useAuth();
+	const queryClient = useQueryClient();
+	const canView = isStaffRole(staff?.role);
+	const { data } = useGetApiSyncTargets({
+		query: {
+			enabled: canView,
+			refetchInterval: 30000,
+		},
+	});
+	const runMutation = usePostApiSyncTargetsIdRun();
+
+	const targets = data?.targets ?? [];
+
+	if (!canView || targets.length === 0) {
+		return null;
+	}
+
+	const handleRun = async (target: SyncTargetItem) => {
+		try {
+			const result = await runMutation.mutateAsync({ id: target.id });
+			if (result.health === "failing") {
+				toast.error(`「${target.name}」との同期に失敗しました`, {
+					description: result.lastError ?? undefined,
+				});
+			} else {
+				toast.success(`「${target.name}」と同期しました`);
+			}
+		} catch (error) {
+			console.error("同期先との同期に失敗しました:", error);
+			toast.error(`「${target.name}」との同期を開始できませんでした`);
+		} finally {
+			await Promise.all([
+				queryClient.invalidateQueries({
+					queryKey: getGetApiSyncTargetsQueryKey(),
+				}),
+				queryClient.invalidateQueries({
+					queryKey: getGetApiSyncLogsQueryKey(),
+				}),
+			]);
+		}
+	};
+
+	return (
+		<Card>
+			<CardHeader className="space-y-1">
+				<CardTitle className="flex items-center gap-2">
+					<Network className="h-5 w-5 text-blue-600" />
+					<span>同期先</span>
+					<Badge variant="outline">{targets.length}件</Badge>
+				</CardTitle>
+				<p className="text-sm text-muted-foreground">
+					登録済みの同期先ごとの転送・取得の状態です。定期同期は同期先ごとの間隔で実行します。
+				</p>
+			</CardHeader>
+			<CardContent>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>同期先</TableHead>
+							<TableHead>状態</TableHead>
+							<TableHead>範囲</TableHead>
+							<TableHead className="text-right">間隔</TableHead>
+							<TableHead>最終成功</TableHead>
+							<TableHead>エラー</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{targets.map((target) => {
+							const health = healthBadge[target.health];
+							return (
+								<TableRow key={target.id}>
+									<TableCell>
+										<div className="font-medium">{target.name}</div>
+										<div className="max-w-48 truncate text-xs text-muted-foreground">
+											{target.url}
+										</div>
+									</TableCell>
+									<TableCell>
+										<Badge variant={health.variant}>{health.label}</Badge>
+										{target.consecutiveFailures > 1 && (
+											<span className="ml-1 text-xs text-danger">
+												{target.consecutiveFailures}回連続
+											</span>
+										)}
+									</TableCell>
+									<TableCell className="text-xs">
+										{describeScope(target)}
+										{target.lowBandwidth && (
+											<Badge variant="outline" className="ml-1">
+												低帯域
+											</Badge>
+										)}
+									</TableCell>
+									<TableCell className="text-right">
+										{target.intervalMinutes}分
+									</TableCell>
+									<TableCell className="text-xs">
+										{formatDateTime(target.lastSuccessAt)}
+									</TableCell>
+									<TableCell className="max-w-64 truncate text-xs text-danger">
+										{target.lastError ?? "-"}
+									</TableCell>
+									<TableCell className="text-right">
+										<Button
+											variant="outline"
+											size="sm"
+											className="gap-2"
+											disabled={runMutation.isPending || !target.enabled}
+											onClick={() => void handleRun(target)}
+										>
+											<RotateCw className="h-4 w-4" />
+											今すぐ同期
+										</Button>
+									</TableCell>
+								</TableRow>
+							);
+						})}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
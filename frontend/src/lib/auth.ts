@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import type { StaffAccount, StaffRole } from "@/api/generated/model";
+
+const TOKEN_KEY = "disaster_system_auth_token";
+const STAFF_KEY = "disaster_system_auth_staff";
+
+// 認証状態の変化を通知するイベント
+export const AUTH_CHANGED_EVENT = "disaster_system:auth-changed";
+// ログイン画面の表示を要求するイベント（401受信時・ログインボタン押下時）
+export const LOGIN_REQUIRED_EVENT = "disaster_system:login-required";
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+	evacuee: "避難者",
+	shelter_staff: "避難所職員",
+	hq_admin: "本部管理者",
+};
+
+export function getAuthToken(): string | null {
+	return localStorage.getItem(TOKEN_KEY);
+}
+
+export function getAuthStaff(): StaffAccount | null {
+	const stored = localStorage.getItem(STAFF_KEY);
+	if (!stored) {
+		return null;
+	}
+	try {
+		return JSON.parse(stored) as StaffAccount;
+	} catch {
+		return null;
+	}
+}
+
+export function saveAuthSession(token: string, staff: StaffAccount): void {
+	localStorage.setItem(TOKEN_KEY, token);
+	localStorage.setItem(STAFF_KEY, JSON.stringify(staff));
+	window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+}
+
+export function clearAuthSession(): void {
+	localStorage.removeItem(TOKEN_KEY);
+	localStorage.removeItem(STAFF_KEY);
+	window.dispatchEvent(new Event(AUTH_CHANGED_EVENT));
+}
+
+export function requestLogin(): void {
+	window.dispatchEvent(new Event(LOGIN_REQUIRED_EVENT));
+}
+
+/**
+ * 対応状況（対応中・対応済み）の更新や同期操作が可能なロールか
+ */
+export function isStaffRole(role: StaffRole | undefined): boolean {
+	return role === "shelter_staff" || role === "hq_admin";
+}
+
+/**
+ * 投稿・コメントを編集・削除できるか（本部管理者と投稿先避難所の職員、またはログイン中に書いた本人）
+ */
+export function canModifyContent(
+	staff: StaffAccount | null,
+	shelterId: number,
+	authorStaffId: number | null,
+): boolean {
+	if (!staff) {
+		return false;
+	}
+	if (
+		staff.role === "hq_admin" ||
+		(staff.role === "shelter_staff" && staff.shelterId === shelterId)
+	) {
+		return true;
+	}
+	return authorStaffId !== null && staff.id === authorStaffId;
+}
+
+/**
+ * ログイン中のスタッフ情報を購読するフック
+ */
+export function useAuth(): StaffAccount | null {
+	const [staff, setStaff] = useState<StaffAccount | null>(getAuthStaff);
+
+	useEffect(() => {
+		const handleChange = () => setStaff(getAuthStaff());
+		window.addEventListener(AUTH_CHANGED_EVENT, handleChange);
+		// 他タブでのログイン・ログアウトにも追従
+		window.addEventListener("storage", handleChange);
+		return () => {
+			window.removeEventListener(AUTH_CHANGED_EVENT, handleChange);
+			window.removeEventListener("storage", handleChange);
+		};
+	}, []);
+
+	return staff;
+}
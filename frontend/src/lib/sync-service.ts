@@ -1,15 +1,19 @@
+import { toast } from "sonner";
 import { axiosInstance } from "@/api/axios-instance";
+import type {
+	SyncExecuteResponse,
+	SyncJobStatus,
+	SyncPullExecuteResponse,
+	SyncStatusResponse,
+} from "@/api/generated/model";
 import {
+	getApiSyncJobsId,
 	getApiSyncStatus,
 	postApiSyncExecute,
+	postApiSyncJobs,
 	postApiSyncPullExecute,
 } from "@/api/generated/team2API";
-import type {
-	SyncStatusResponse,
-	SyncExecuteResponse,
-	SyncPullExecuteResponse,
-} from "@/api/generated/model";
-import { toast } from "sonner";
+import { getAuthStaff, isStaffRole } from "@/lib/auth";
 
 // 既存のローカルストレージデータ型
 interface SyncData {
@@ -39,6 +43,9 @@ export type DbSyncResult = SyncExecuteResponse;
 // DB差分Pull結果型（Orval生成型を再エクスポート）
 export type DbPullResult = SyncPullExecuteResponse;
 
+// 同期ジョブの進捗型（Orval生成型を再エクスポート）
+export type DbSyncJob = SyncJobStatus;
+
 type MediaSyncResult = {
 	success: boolean;
 	total: number;
@@ -60,8 +67,11 @@ class SyncService {
 	private startupSyncTriggered = false;
 	private pullInProgress = false;
 	private pullIntervalId: number | null = null;
+	private activeJob: DbSyncJob | null = null;
+	private jobCallbacks: ((job: DbSyncJob | null) => void)[] = [];
 	private readonly pendingOperationsKey = "pending_operations";
 	private readonly pullIntervalMs = 30 * 60 * 1000;
+	private readonly jobPollIntervalMs = 1000;
 
 	private setEnvironmentClass(): void {
 		if (typeof document === "undefined") {
@@ -411,6 +421,10 @@ class SyncService {
 		if (!this.shouldEnablePull() || this.pullInProgress) {
 			return null;
 		}
+		// 同期操作は職員・本部管理者のみ実行可能
+		if (!isStaffRole(getAuthStaff()?.role)) {
+			return null;
+		}
 		const productionApiUrl = import.meta.env.VITE_PRODUCTION_API_URL;
 		const shelterId = this.getDefaultShelterIdForPull();
 		if (!productionApiUrl || !shelterId) {
@@ -419,18 +433,22 @@ class SyncService {
 
 		this.pullInProgress = true;
 		try {
-			const result = await postApiSyncPullExecute({
-				targetUrl: productionApiUrl,
-				shelterId,
-			});
+			let result: DbPullResult;
+			// 1回で取り切れなかった変更はサーバーに保存されたカーソルの続きから取得する
+			do {
+				result = await postApiSyncPullExecute({
+					targetUrl: productionApiUrl,
+					shelterId,
+				});
 
-			if (result.success) {
-				console.log(
-					`[SyncService] ✅ 差分Pull完了: posts=${result.postsPulled}, comments=${result.commentsPulled}, tracks=${result.locationTracksPulled}, media=${result.mediaPulled}, mediaSynced=${result.mediaSynced}${result.mediaFailed > 0 ? `, mediaFailed=${result.mediaFailed}` : ""}`,
-				);
-			} else {
-				console.warn("[SyncService] ⚠️ 差分Pull失敗:", result.error);
-			}
+				if (result.success) {
+					console.log(
+						`[SyncService] ✅ 差分Pull完了: posts=${result.postsPulled}, comments=${result.commentsPulled}, tracks=${result.locationTracksPulled}, media=${result.mediaPulled}, mediaSynced=${result.mediaSynced}${result.mediaFailed > 0 ? `, mediaFailed=${result.mediaFailed}` : ""}${result.hasMore ? " (続きあり)" : ""}`,
+					);
+				} else {
+					console.warn("[SyncService] ⚠️ 差分Pull失敗:", result.error);
+				}
+			} while (result.success && result.hasMore);
 
 			return result;
 		} catch (error) {
@@ -594,12 +612,104 @@ class SyncService {
 		}
 	}
 
+	/**
+	 * 同期ジョブの進捗を購読（解除用の関数を返す）
+	 */
+	onJobProgress(callback: (job: DbSyncJob | null) => void): () => void {
+		this.jobCallbacks.push(callback);
+		callback(this.activeJob);
+		return () => {
+			this.jobCallbacks = this.jobCallbacks.filter((cb) => cb !== callback);
+		};
+	}
+
+	private notifyJobProgress(job: DbSyncJob | null): void {
+		this.activeJob = job;
+		for (const callback of this.jobCallbacks) {
+			callback(job);
+		}
+	}
+
+	/**
+	 * メディア → データの順に送信する同期ジョブを開始し、完了まで進捗をポーリングする
+	 */
+	async runSyncJob(shelterId?: number): Promise<DbSyncJob | null> {
+		const productionApiUrl = import.meta.env.VITE_PRODUCTION_API_URL;
+		if (!productionApiUrl) {
+			toast.error("同期失敗", {
+				description: "本番API URLが設定されていません",
+			});
+			return null;
+		}
+		if (this.activeJob) {
+			return null;
+		}
+
+		toast.loading("同期中...", {
+			id: "db-sync-toast",
+			description: "メディアとデータを本番環境に同期しています",
+		});
+
+		try {
+			const { jobId } = await postApiSyncJobs({
+				targetUrl: productionApiUrl,
+				shelterId,
+			});
+			console.log("[SyncService] 🔄 同期ジョブ開始:", jobId);
+
+			let job = await getApiSyncJobsId(jobId);
+			this.notifyJobProgress(job);
+			while (job.status === "in_progress") {
+				await new Promise((resolve) =>
+					setTimeout(resolve, this.jobPollIntervalMs),
+				);
+				job = await getApiSyncJobsId(jobId);
+				this.notifyJobProgress(job);
+			}
+
+			if (job.status === "completed") {
+				const totalSynced =
+					job.postsSynced +
+					job.commentsSynced +
+					job.locationTracksSynced +
+					job.mediaSynced;
+				toast.success("同期完了", {
+					id: "db-sync-toast",
+					description: `${totalSynced}件のデータとメディアファイル${job.mediaFilesCompleted}件を同期しました${job.mediaFilesFailed > 0 ? `（メディア${job.mediaFilesFailed}件は再試行待ち）` : ""}`,
+				});
+				this.saveToLocal("last_db_sync", new Date().toISOString());
+			} else {
+				toast.error("同期失敗", {
+					id: "db-sync-toast",
+					description: job.errorMessage || "同期中にエラーが発生しました",
+				});
+			}
+
+			return job;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Unknown error";
+			console.error("[SyncService] ❌ 同期ジョブエラー:", error);
+			toast.error("同期エラー", {
+				id: "db-sync-toast",
+				description: message,
+			});
+			return null;
+		} finally {
+			this.notifyJobProgress(null);
+		}
+	}
+
 	/**
 	 * オンライン復帰時に自動的にDB同期を実行
 	 */
 	async autoSyncOnOnline(): Promise<void> {
 		console.log("[SyncService] 🌐 オンライン復帰を検知、自動同期を試行...");
 
+		if (!isStaffRole(getAuthStaff()?.role)) {
+			console.log("[SyncService] ℹ️ 職員ログインがないため、同期をスキップ");
+			return;
+		}
+
 		// 本番APIが利用可能かチェック
 		const isProductionAvailable = await this.checkProductionApiAvailable();
 		if (!isProductionAvailable) {
@@ -610,15 +720,13 @@ class SyncService {
 		// ローカルストレージから現在の避難所IDを取得
 		const shelterId = this.loadFromLocal("current_shelter_id") as number | null;
 
-		// DB同期を実行
-		const result = await this.syncDbToProduction(shelterId || undefined);
-		if (result.success) {
+		// メディア → データの順に同期ジョブを実行
+		const job = await this.runSyncJob(shelterId || undefined);
+		if (job?.status === "completed") {
 			console.log(
-				`[SyncService] ✅ 自動同期完了: ${result.postsSynced}件の投稿, ${result.commentsSynced}件のコメント, ${result.locationTracksSynced}件の位置情報, ${result.mediaSynced}件のメディア`,
+				`[SyncService] ✅ 自動同期完了: ${job.postsSynced}件の投稿, ${job.commentsSynced}件のコメント, ${job.locationTracksSynced}件の位置情報, ${job.mediaFilesCompleted}件のメディアファイル`,
 			);
 		}
-
-		await this.syncMediaToProduction();
 	}
 
 	private async triggerStartupSync(): Promise<void> {